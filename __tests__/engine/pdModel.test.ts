@@ -1,5 +1,5 @@
-import { hillEffect, combinedEffect, effectToMOASS, moassLabel } from '../../src/engine/pdModel';
-import { DrugParams } from '../../src/types';
+import { hillEffect, sedationDepth, sedationEndpoints, effectToMOASS, moassLabel } from '../../src/engine/pdModel';
+import { DrugParams, PKState } from '../../src/types';
 
 // ---- Drug fixtures --------------------------------------------------------
 
@@ -117,79 +117,68 @@ describe('pdModel – hillEffect', () => {
   });
 });
 
-describe('pdModel – combinedEffect', () => {
+const PARAMS: Record<string, DrugParams> = {
+  propofol: PROPOFOL,
+  remifentanil: REMIFENTANIL,
+  fentanyl: FENTANYL,
+  naloxone: NALOXONE,
+  flumazenil: FLUMAZENIL,
+};
+
+/** Sedation depth for the given effect-site concentrations under the default surfaces */
+const depth = (ces: Record<string, number>): number => {
+  const states: Record<string, PKState> = {};
+  for (const [name, ce] of Object.entries(ces)) states[name] = { c1: ce, c2: 0, c3: 0, ce };
+  return sedationDepth(sedationEndpoints(states, PARAMS));
+};
+
+describe('pdModel – sedationDepth', () => {
   it('returns 0 for empty drug list', () => {
-    expect(combinedEffect([])).toBe(0);
+    expect(depth({})).toBe(0);
   });
 
   it('returns 0 for zero concentrations', () => {
-    const effect = combinedEffect([
-      { drug: PROPOFOL, ce: 0 },
-      { drug: FENTANYL, ce: 0 },
-    ]);
-    expect(effect).toBe(0);
+    expect(depth({ propofol: 0, fentanyl: 0 })).toBe(0);
   });
 
   it('single hypnotic at EC50 produces effect between 0.2 and 0.6', () => {
     // Propofol at EC50 (3.4 mcg/mL) → Hill = 0.5 hypnotic → combined < 0.5
-    const effect = combinedEffect([{ drug: PROPOFOL, ce: PROPOFOL.EC50 }]);
+    const effect = depth({ propofol: PROPOFOL.EC50 });
     expect(effect).toBeGreaterThan(0.2);
     expect(effect).toBeLessThanOrEqual(0.5);
   });
 
   it('opioid alone is capped below OPIOID_SEDATION_CEILING (0.22)', () => {
     // High fentanyl dose → effect capped at 0.22
-    const highFentanyl = combinedEffect([{ drug: FENTANYL, ce: 100 }]);
+    const highFentanyl = depth({ fentanyl: 100 });
     expect(highFentanyl).toBeLessThanOrEqual(0.22 + 1e-9);
   });
 
   it('opioid + hypnotic produces more effect than hypnotic alone (potentiation)', () => {
-    const propofolOnly = combinedEffect([{ drug: PROPOFOL, ce: 2.0 }]);
-    const propofolPlusFentanyl = combinedEffect([
-      { drug: PROPOFOL, ce: 2.0 },
-      { drug: FENTANYL, ce: 5.0 },
-    ]);
-    expect(propofolPlusFentanyl).toBeGreaterThan(propofolOnly);
+    expect(depth({ propofol: 2.0, fentanyl: 5.0 })).toBeGreaterThan(depth({ propofol: 2.0 }));
   });
 
   it('propofol + remifentanil interaction: higher combined effect than propofol alone', () => {
-    const propofolOnly = combinedEffect([{ drug: PROPOFOL, ce: 3.0 }]);
-    const combined = combinedEffect([
-      { drug: PROPOFOL, ce: 3.0 },
-      { drug: REMIFENTANIL, ce: 15.0 },
-    ]);
-    expect(combined).toBeGreaterThan(propofolOnly);
+    expect(depth({ propofol: 3.0, remifentanil: 15.0 })).toBeGreaterThan(depth({ propofol: 3.0 }));
   });
 
   it('combined effect is bounded between 0 and 1', () => {
-    const highDose = combinedEffect([
-      { drug: PROPOFOL, ce: 100 },
-      { drug: FENTANYL, ce: 100 },
-    ]);
+    const highDose = depth({ propofol: 100, fentanyl: 100 });
     expect(highDose).toBeGreaterThanOrEqual(0);
     expect(highDose).toBeLessThanOrEqual(1);
   });
 
   it('naloxone reduces opioid contribution (reversal)', () => {
     // Fentanyl alone at moderate dose
-    const fentanylOnly = combinedEffect([{ drug: FENTANYL, ce: 5.0 }]);
+    const fentanylOnly = depth({ fentanyl: 5.0 });
     // Fentanyl + naloxone at high reversal dose
-    const reversed = combinedEffect([
-      { drug: FENTANYL, ce: 5.0 },
-      { drug: NALOXONE, ce: 1.0 },
-    ]);
+    const reversed = depth({ fentanyl: 5.0, naloxone: 1.0 });
     expect(reversed).toBeLessThan(fentanylOnly);
   });
 
   it('flumazenil does not affect non-benzodiazepine drugs', () => {
-    // Propofol (not reversed by flumazenil) — effect unchanged
-    const propofolOnly = combinedEffect([{ drug: PROPOFOL, ce: 3.0 }]);
-    const withFlumazenil = combinedEffect([
-      { drug: PROPOFOL, ce: 3.0 },
-      { drug: FLUMAZENIL, ce: 0.5 },
-    ]);
     // Flumazenil has no target for propofol, effect should be same
-    expect(withFlumazenil).toBeCloseTo(propofolOnly, 5);
+    expect(depth({ propofol: 3.0, flumazenil: 0.5 })).toBeCloseTo(depth({ propofol: 3.0 }), 5);
   });
 });
 
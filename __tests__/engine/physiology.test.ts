@@ -176,7 +176,7 @@ describe('physiology – hemodynamics', () => {
   });
 
   it('ketamine Ce causes BP and HR to rise', () => {
-    const pkStates = { ketamine: pkState(0.002) }; // 2 mcg/mL
+    const pkStates = { ketamine: pkState(2) }; // 2 mcg/mL
 
     const samples = Array.from({ length: 10 }, () =>
       calculateVitals(pkStates, HEALTHY)
@@ -189,14 +189,15 @@ describe('physiology – hemodynamics', () => {
     expect(avgSBP).toBeGreaterThan(110);
   });
 
-  it('atropine intervention raises HR', () => {
+  it('atropine raises HR', () => {
     const pkStates = { fentanyl: pkState(2.0) }; // fentanyl causes some bradycardia
+    const withAtropinePk = { ...pkStates, atropine: pkState(0.005) };
 
     const withoutAtropine = Array.from({ length: 10 }, () =>
       calculateVitals(pkStates, HEALTHY, BASELINE_VITALS, 0.21, 'normal_sinus', 0, new Set())
     );
     const withAtropine = Array.from({ length: 10 }, () =>
-      calculateVitals(pkStates, HEALTHY, BASELINE_VITALS, 0.21, 'normal_sinus', 0, new Set(['atropine']))
+      calculateVitals(withAtropinePk, HEALTHY, BASELINE_VITALS, 0.21, 'normal_sinus', 0, new Set())
     );
 
     const avgHRWithout = withoutAtropine.reduce((s, v) => s + v.hr, 0) / 10;
@@ -207,12 +208,13 @@ describe('physiology – hemodynamics', () => {
 
   it('vasopressors raise BP', () => {
     const highPropofol = { propofol: pkState(5.0) }; // propofol-induced hypotension
+    const withPhenylephrine = { ...highPropofol, phenylephrine: pkState(3.0) };
 
     const withoutVP = Array.from({ length: 10 }, () =>
       calculateVitals(highPropofol, HEALTHY, BASELINE_VITALS, 0.21, 'normal_sinus', 0, new Set())
     );
     const withVP = Array.from({ length: 10 }, () =>
-      calculateVitals(highPropofol, HEALTHY, BASELINE_VITALS, 0.21, 'normal_sinus', 0, new Set(['vasopressors']))
+      calculateVitals(withPhenylephrine, HEALTHY, BASELINE_VITALS, 0.21, 'normal_sinus', 0, new Set())
     );
 
     const avgSBPWithout = withoutVP.reduce((s, v) => s + v.sbp, 0) / 10;
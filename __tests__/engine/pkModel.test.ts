@@ -1,5 +1,6 @@
 import { createInitialPKState, stepPK } from '../../src/engine/pkModel';
 import { DrugParams, PKState } from '../../src/types';
+import { closedFormPK } from '../../src/engine/validation/pkValidation';
 
 /**
  * Propofol Marsh model parameters (70 kg adult)
@@ -62,7 +63,7 @@ describe('pkModel', () => {
 
       // Bolus concentration = dose / V1 (minus tiny distribution in first tick)
       const expectedBolusConc = bolusMg / PROPOFOL_MARSH.V1; // ~6.29 mcg/mL
-      // C1 is slightly less because distribution starts immediately in Euler step
+      // C1 is slightly less because distribution starts within the 1 s step
       expect(next.c1).toBeGreaterThan(0);
       expect(next.c1).toBeCloseTo(expectedBolusConc, 0); // within 0.5 mcg/mL
     });
@@ -186,20 +187,33 @@ describe('pkModel', () => {
     });
   });
 
-  describe('stepPK – Euler method conservation', () => {
-    it('small dt steps produce similar results to large dt step for short intervals', () => {
-      const initial = createInitialPKState();
-      // One 10-second step
-      const oneBigStep = stepPK(initial, PROPOFOL_MARSH, 100, 0, 10);
+  describe('stepPK – analytical solver vs. closed-form solution', () => {
+    it('a 1-second bolus tick matches the tri-exponential solution at t = 1 s', () => {
+      const next = stepPK(createInitialPKState(), PROPOFOL_MARSH, 100, 0, 1);
+      const ref = closedFormPK(
+        PROPOFOL_MARSH,
+        { bolusMg: 100, infusionRatePerMin: 0, infusionDurationMin: 0, totalDurationMin: 1 },
+        [1 / 60]
+      );
+
+      expect(next.c1).toBeCloseTo(ref.c1[0], 10);
+      expect(next.ce).toBeCloseTo(ref.ce[0], 10);
+    });
+
+    it.each([1, 10, 60])('bolus + infusion in %i-second steps matches the closed form at 10 min', (dt) => {
+      const ref = closedFormPK(
+        PROPOFOL_MARSH,
+        { bolusMg: 100, infusionRatePerMin: 5, infusionDurationMin: 10, totalDurationMin: 10 },
+        [10]
+      );
 
-      // Ten 1-second steps
-      let tenSmallSteps: PKState = stepPK(initial, PROPOFOL_MARSH, 100, 0, 1);
-      for (let i = 0; i < 9; i++) {
-        tenSmallSteps = stepPK(tenSmallSteps, PROPOFOL_MARSH, 0, 0, 1);
+      let state: PKState = stepPK(createInitialPKState(), PROPOFOL_MARSH, 100, 5, dt);
+      for (let t = dt; t < 600; t += dt) {
+        state = stepPK(state, PROPOFOL_MARSH, 0, 5, dt);
       }
 
-      // Results should be in the same ballpark (Euler accumulates error, but not wildly different)
-      expect(tenSmallSteps.c1).toBeCloseTo(oneBigStep.c1, -1); // within 1 order of magnitude
+      expect(state.c1).toBeCloseTo(ref.c1[0], 9);
+      expect(state.ce).toBeCloseTo(ref.ce[0], 9);
     });
   });
 });
@@ -1,6 +1,5 @@
 import { useEffect, useState, useMemo, useRef, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useShallow } from 'zustand/react/shallow';
 import useSimStore from './store/useSimStore';
 import useAIStore from './store/useAIStore';
 import useLMSStore from './store/useLMSStore';
@@ -24,6 +23,7 @@ import PWAInstallPrompt from './components/PWAInstallPrompt';
 import LMSPanel from './components/LMSPanel';
 import { usePerformanceObserver } from './hooks/usePerformanceObserver';
 import { useStudyAnalytics } from './hooks/useStudyAnalytics';
+import { useSimulationLoop } from './hooks/useSimulationLoop';
 import useStudyStore from './store/useStudyStore';
 import StudyOverlay from './components/StudyOverlay';
 
@@ -39,10 +39,10 @@ export default function App() {
   // Research mode toggle
   const { researchMode, setResearchMode } = useStudyStore();
 
-  // Narrow subscription: only the fields needed for the tick loop and layout.
-  const { isRunning, speedMultiplier, tick } = useSimStore(
-    useShallow(s => ({ isRunning: s.isRunning, speedMultiplier: s.speedMultiplier, tick: s.tick }))
-  );
+  // Simulation clock: worker-driven where available, main-thread tick() otherwise
+  useSimulationLoop();
+
+  // Narrow subscription: only the fields needed for layout.
   const trendData = useSimStore(s => s.trendData);
   const vitals = useSimStore(s => s.vitals);
   const [trendsExpanded, setTrendsExpanded] = useState(false);
@@ -66,17 +66,6 @@ export default function App() {
   // Memoize the vitals history array so MonitorPanel's memo check stays stable.
   const vitalsHistory = useMemo(() => trendData.map(t => t.vitals), [trendData]);
 
-  useEffect(() => {
-    if (!isRunning) return;
-    const interval = setInterval(() => {
-      const ticks = Math.round(speedMultiplier);
-      for (let i = 0; i < ticks; i++) {
-        tick();
-      }
-    }, 1000 / (speedMultiplier / Math.round(speedMultiplier) || 1));
-    return () => clearInterval(interval);
-  }, [isRunning, speedMultiplier, tick]);
-
   // Close mobile left panel when screen gets large enough
   useEffect(() => {
     const mql = window.matchMedia('(min-width: 1024px)');
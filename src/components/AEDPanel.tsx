@@ -1,7 +1,13 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useShallow } from 'zustand/react/shallow';
 import useSimStore from '../store/useSimStore';
 import type { CardiacRhythm } from '../types';
 import { audioManager } from '../utils/audio';
+import {
+  aedEnergy, isShockable, cprFeedback, CPR_CYCLE_SECONDS, CAUSE_TREATMENTS,
+  AclsState, CauseTreatment, CPRQuality,
+} from '../engine/acls';
+import { ENERGY_LEVELS, CARDIOVERSION_ENERGY, PacerSettings } from '../engine/electricalTherapy';
 
 /* ─────────────────────────────────────────────────────────
    Types & Constants
@@ -18,11 +24,7 @@ type AEDState =
   | 'SHOCKING'
   | 'POST_SHOCK';
 
-const SHOCKABLE_RHYTHMS: CardiacRhythm[] = [
-  'ventricular_fibrillation',
-  'ventricular_tachycardia',
-  'polymorphic_vt',
-];
+type DefibMode = 'aed' | 'manual';
 
 const ARREST_RHYTHMS: CardiacRhythm[] = [
   'ventricular_fibrillation',
@@ -32,29 +34,6 @@ const ARREST_RHYTHMS: CardiacRhythm[] = [
   'pea',
 ];
 
-/** Energy escalation per AHA ACLS: 120 → 150 → 200 J */
-function getEnergy(shockNumber: number): number {
-  if (shockNumber <= 1) return 120;
-  if (shockNumber === 2) return 150;
-  return 200;
-}
-
-/** Probability of rhythm conversion by rhythm type and shock number */
-function getConversionProbability(
-  rhythm: CardiacRhythm,
-  shockNumber: number,
-): number {
-  const tables: Partial<Record<CardiacRhythm, [number, number, number]>> = {
-    ventricular_fibrillation: [0.30, 0.50, 0.65],
-    ventricular_tachycardia: [0.40, 0.60, 0.75],
-    polymorphic_vt: [0.25, 0.40, 0.55],
-  };
-  const row = tables[rhythm];
-  if (!row) return 0;
-  const idx = Math.min(shockNumber, 3) - 1;
-  return row[idx];
-}
-
 const VOICE_PROMPTS: Record<string, string> = {
   OFF: 'Turn on the AED.',
   POWERED_ON: 'Attach pads to patient\'s bare chest.',
@@ -76,7 +55,15 @@ const CPR_PROMPTS = [
   'Depth: at least 2 inches.',
 ];
 
-const CPR_CYCLE_SECONDS = 120; // 2-minute CPR cycle
+/** Seconds each coaching prompt stays up while compressions are on target */
+const CPR_PROMPT_SECONDS = 15;
+
+/** Capacitor charge time in manual mode (ms) */
+const MANUAL_CHARGE_MS = 2000;
+/** Transcutaneous pacer ranges: rate (ppm) and output (mA) */
+const PACER_RATE = { min: 40, max: 180 };
+const PACER_CURRENT = { min: 0, max: 140 };
+const DEFAULT_PACER: PacerSettings = { rate: 70, current: 60 };
 
 /** Format seconds as M:SS */
 function fmt(s: number): string {
@@ -220,28 +207,34 @@ function BodyAvatar({
    ───────────────────────────────────────────────────────── */
 
 export default function AEDPanel() {
-  /* ── Sim store ── */
-  const rhythm = useSimStore((s) => s.vitals.rhythm);
-  const hr = useSimStore((s) => s.vitals.hr);
-  const isArrest = useSimStore((s) => s.emergencyState.isArrest);
+  /* ── Sim store: the ACLS engine owns CPR, shocks and their outcomes ── */
+  const { rhythm, hr, etco2, isArrest, acls, cpr, elapsedSeconds } = useSimStore(
+    useShallow((s) => ({
+      rhythm: s.vitals.rhythm,
+      hr: s.vitals.hr,
+      etco2: s.vitals.etco2,
+      isArrest: s.emergencyState.isArrest,
+      acls: s.acls,
+      cpr: s.cpr,
+      elapsedSeconds: s.elapsedSeconds,
+    }))
+  );
 
   /* ── AED internal state ── */
-  const [aedState, setAedState] = useState<AEDState>('OFF');
+  const [mode, setMode] = useState<DefibMode>('aed');
+  const [phase, setAedState] = useState<AEDState>('OFF');
   const [rightPad, setRightPad] = useState(false);
   const [leftPad, setLeftPad] = useState(false);
-  const [shockCount, setShockCount] = useState(0);
-  const [totalCprSeconds, setTotalCprSeconds] = useState(0);
-  const [cprCountdown, setCprCountdown] = useState(CPR_CYCLE_SECONDS);
-  const [cprPromptIdx, setCprPromptIdx] = useState(0);
   const [analyzeProgress, setAnalyzeProgress] = useState(0);
   const [showShockFlash, setShowShockFlash] = useState(false);
   const [lastAnalyzedRhythm, setLastAnalyzedRhythm] = useState<CardiacRhythm | undefined>();
+  const [deliveredEnergy, setDeliveredEnergy] = useState(0);
+  const [promptedCycles, setPromptedCycles] = useState(0); // cycles completed when CPR was last prompted
 
-  /* ── Refs for intervals ── */
+  /* ── Refs ── */
   const analyzeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const cprIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const cprPromptIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const stylesInjectedRef = useRef(false);
+  const roscTimeRef = useRef(acls.roscTime);
 
   /* ── Inject keyframes once ── */
   useEffect(() => {
@@ -260,55 +253,38 @@ export default function AEDPanel() {
   useEffect(() => {
     return () => {
       if (analyzeTimerRef.current) clearTimeout(analyzeTimerRef.current);
-      if (cprIntervalRef.current) clearInterval(cprIntervalRef.current);
-      if (cprPromptIntervalRef.current) clearInterval(cprPromptIntervalRef.current);
-      audioManager.stopCprMetronome();
       audioManager.stopAedChargeTone();
     };
   }, []);
 
-  /* ── CPR timer management ── */
-  const startCprTimer = useCallback(() => {
-    // Clear existing
-    if (cprIntervalRef.current) clearInterval(cprIntervalRef.current);
-    if (cprPromptIntervalRef.current) clearInterval(cprPromptIntervalRef.current);
-
-    setCprCountdown(CPR_CYCLE_SECONDS);
-    setCprPromptIdx(0);
-
-    cprIntervalRef.current = setInterval(() => {
-      setCprCountdown((prev) => {
-        if (prev <= 1) {
-          // Timer expired — prompt re-analysis
-          if (cprIntervalRef.current) clearInterval(cprIntervalRef.current);
-          if (cprPromptIntervalRef.current) clearInterval(cprPromptIntervalRef.current);
-          audioManager.stopCprMetronome();
-          audioManager.playAedPromptTone();
-          setAedState('PADS_ATTACHED');
-          useSimStore.getState().logEvent('AED: CPR cycle complete. Analyze rhythm.', 'intervention', 'info');
-          return 0;
-        }
-        // Play warning beeps at 10 seconds remaining
-        if (prev === 11) {
-          audioManager.playAedTimerWarning();
-        }
-        return prev - 1;
-      });
-      setTotalCprSeconds((t) => t + 1);
-    }, 1000);
-
-    // Rotate CPR coaching prompts every 15s
-    cprPromptIntervalRef.current = setInterval(() => {
-      setCprPromptIdx((i) => (i + 1) % CPR_PROMPTS.length);
-    }, 15000);
-  }, []);
+  /* ── Metronome runs while compressions are on ── */
+  const compressing = cpr !== null;
+  useEffect(() => {
+    if (!compressing) return;
+    audioManager.startCprMetronome();
+    return () => audioManager.stopCprMetronome();
+  }, [compressing]);
 
-  const stopCprTimer = useCallback(() => {
-    if (cprIntervalRef.current) clearInterval(cprIntervalRef.current);
-    if (cprPromptIntervalRef.current) clearInterval(cprPromptIntervalRef.current);
-    cprIntervalRef.current = null;
-    cprPromptIntervalRef.current = null;
-  }, []);
+  /* ── CPR cycle timing from the engine ── */
+  const cprCountdown = acls.cycleStart === null
+    ? CPR_CYCLE_SECONDS
+    : Math.max(0, Math.round(CPR_CYCLE_SECONDS - (elapsedSeconds - acls.cycleStart)));
+
+  useEffect(() => {
+    if (compressing && cprCountdown === 10) audioManager.playAedTimerWarning();
+  }, [compressing, cprCountdown]);
+
+  // A completed cycle prompts re-analysis
+  const cycleDue = (phase === 'POST_SHOCK' || phase === 'NO_SHOCK_ADVISED') && acls.cyclesCompleted > promptedCycles;
+  const aedState: AEDState = cycleDue ? 'PADS_ATTACHED' : phase;
+  useEffect(() => {
+    if (cycleDue) audioManager.playAedPromptTone();
+  }, [cycleDue]);
+
+  useEffect(() => {
+    if (acls.roscTime !== null && acls.roscTime !== roscTimeRef.current) audioManager.playAedRosc();
+    roscTimeRef.current = acls.roscTime;
+  }, [acls.roscTime]);
 
   /* ── Auto-transition: pads attaching → pads attached ── */
   useEffect(() => {
@@ -336,8 +312,7 @@ export default function AEDPanel() {
   const handleAnalyze = () => {
     setAedState('ANALYZING');
     setAnalyzeProgress(0);
-    stopCprTimer();
-    audioManager.stopCprMetronome();
+    useSimStore.getState().stopCPR();
     audioManager.playAedAnalyzing();
 
     useSimStore.getState().logEvent('AED: Analyzing rhythm…', 'intervention', 'info');
@@ -358,7 +333,7 @@ export default function AEDPanel() {
       const currentRhythm = useSimStore.getState().vitals.rhythm;
       setLastAnalyzedRhythm(currentRhythm);
 
-      if (currentRhythm && SHOCKABLE_RHYTHMS.includes(currentRhythm)) {
+      if (currentRhythm && isShockable(currentRhythm)) {
         setAedState('SHOCK_ADVISED');
         audioManager.playAedShockAdvised();
         // Start the charging whine after the alarm beeps finish (~1.8s)
@@ -376,90 +351,63 @@ export default function AEDPanel() {
           'alert',
           'warning',
         );
-        startCprTimer();
-        audioManager.startCprMetronome();
+        setPromptedCycles(useSimStore.getState().acls.cyclesCompleted);
+        useSimStore.getState().startCPR();
       }
     }, 3000);
   };
 
+  // The next simulation step resolves the shock and logs its outcome
   const handleShock = () => {
-    const currentRhythm = useSimStore.getState().vitals.rhythm;
-    const nextShock = shockCount + 1;
-    const energy = getEnergy(nextShock);
+    const energy = aedEnergy(acls.shocks.length + 1);
 
     setAedState('SHOCKING');
     setShowShockFlash(true);
-    setShockCount(nextShock);
+    setDeliveredEnergy(energy);
     audioManager.stopAedChargeTone();
     audioManager.playAedShockDischarge();
+    useSimStore.getState().deliverShock(energy);
 
-    useSimStore.getState().logEvent(
-      `AED: Shock #${nextShock} delivered at ${energy}J`,
-      'intervention',
-      'danger',
-    );
-
-    // Determine outcome
-    const prob = currentRhythm ? getConversionProbability(currentRhythm, nextShock) : 0;
-    const converted = Math.random() < prob;
-
-    // Flash lasts 800ms then transition to POST_SHOCK
+    // Flash lasts 800ms, then compressions resume
     setTimeout(() => {
       setShowShockFlash(false);
-
-      if (converted) {
-        // Successful defibrillation — restore vitals
-        const targetHr = 60 + Math.floor(Math.random() * 21); // 60-80
-        const targetSbp = 90 + Math.floor(Math.random() * 21); // 90-110
-        const targetDbp = 60 + Math.floor(Math.random() * 11); // 60-70
-
-        // Set rhythm via setState (rhythm is a string, overrideVital expects number)
-        useSimStore.setState((state) => ({
-          vitals: {
-            ...state.vitals,
-            rhythm: 'normal_sinus' as CardiacRhythm,
-            hr: targetHr,
-            sbp: targetSbp,
-            dbp: targetDbp,
-            map: Math.round(targetDbp + (targetSbp - targetDbp) / 3),
-          },
-        }));
-
-        audioManager.playAedRosc();
-        useSimStore.getState().logEvent(
-          `AED: Rhythm converted to Normal Sinus after shock #${nextShock}!`,
-          'alert',
-          'info',
-        );
-      }
-
       setAedState('POST_SHOCK');
-      startCprTimer();
-      audioManager.startCprMetronome();
+      setPromptedCycles(useSimStore.getState().acls.cyclesCompleted);
+      useSimStore.getState().startCPR();
     }, 800);
   };
 
   const handleReset = () => {
-    stopCprTimer();
-    audioManager.stopCprMetronome();
+    useSimStore.getState().stopCPR();
     audioManager.stopAedChargeTone();
     if (analyzeTimerRef.current) clearTimeout(analyzeTimerRef.current);
     setAedState('OFF');
     setRightPad(false);
     setLeftPad(false);
-    setShockCount(0);
-    setTotalCprSeconds(0);
-    setCprCountdown(CPR_CYCLE_SECONDS);
-    setCprPromptIdx(0);
     setAnalyzeProgress(0);
     setShowShockFlash(false);
     setLastAnalyzedRhythm(undefined);
     useSimStore.getState().logEvent('AED: Powered off / reset.', 'intervention', 'info');
   };
 
+  // Manual override takes the device out of the AED sequence
+  const handleModeChange = (next: DefibMode) => {
+    if (next === mode) return;
+    if (next === 'manual' && aedState !== 'OFF') handleReset();
+    audioManager.init();
+    setMode(next);
+    useSimStore.getState().logEvent(
+      next === 'manual' ? 'Defibrillator: manual mode.' : 'Defibrillator: AED mode.',
+      'intervention',
+      'info',
+    );
+  };
+
   /* ── Derived values ── */
-  const currentEnergy = getEnergy(shockCount + 1);
-  const isShockable = rhythm ? SHOCKABLE_RHYTHMS.includes(rhythm) : false;
+  const shockCount = acls.shocks.length;
+  const totalCprSeconds = Math.round(acls.compressionSeconds);
+  const currentEnergy = aedEnergy(shockCount + 1);
+  const shockable = rhythm ? isShockable(rhythm) : false;
   const isArrestRhythm = rhythm ? ARREST_RHYTHMS.includes(rhythm) : false;
   const voicePrompt = VOICE_PROMPTS[aedState] || '';
   const cprProgress = ((CPR_CYCLE_SECONDS - cprCountdown) / CPR_CYCLE_SECONDS) * 100;
@@ -487,18 +435,32 @@ export default function AEDPanel() {
           <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="#06b6d4" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
             <path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z" />
           </svg>
-          <span className="text-sm font-semibold text-cyan-400 tracking-wide">AED</span>
+          <span className="text-sm font-semibold text-cyan-400 tracking-wide">{mode === 'aed' ? 'AED' : 'MANUAL'}</span>
           {/* Status dot */}
-          <span className={`inline-block w-2 h-2 rounded-full ${
+          {mode === 'aed' && <span className={`inline-block w-2 h-2 rounded-full ${
             aedState === 'OFF' ? 'bg-gray-600' :
             aedState === 'SHOCK_ADVISED' || aedState === 'SHOCKING' ? 'bg-red-500' :
             aedState === 'ANALYZING' ? 'bg-yellow-500' :
             'bg-green-500'
           }`}
             style={aedState !== 'OFF' ? { animation: 'aed-pulse 1.5s ease-in-out infinite' } : {}}
-          />
+          />}
         </div>
-        {aedState !== 'OFF' && (
+        <div className="flex rounded overflow-hidden border border-gray-600 text-[9px] font-semibold" role="group" aria-label="Defibrillator mode">
+          {(['aed', 'manual'] as DefibMode[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => handleModeChange(m)}
+              className={`px-1.5 py-0.5 transition-colors ${
+                mode === m ? 'bg-cyan-700 text-white' : 'bg-gray-800 text-gray-400 hover:text-gray-200'
+              }`}
+              aria-pressed={mode === m}
+            >
+              {m === 'aed' ? 'AED' : 'MANUAL'}
+            </button>
+          ))}
+        </div>
+        {mode === 'aed' && aedState !== 'OFF' && (
           <button
             onClick={handleReset}
             className="text-[10px] text-gray-400 hover:text-red-400 transition-colors px-1.5 py-0.5 rounded hover:bg-gray-700"
@@ -510,8 +472,19 @@ export default function AEDPanel() {
         )}
       </div>
 
+      {/* ═══ MANUAL — clinician-selected energy, sync and pacing ═══ */}
+      {mode === 'manual' && (
+        <div className="p-3 flex flex-col gap-3">
+          <ManualDefibrillator rhythm={rhythm} onShockFlash={() => {
+            setShowShockFlash(true);
+            setTimeout(() => setShowShockFlash(false), 800);
+          }} />
+          {acls.rhythm !== null && <ReversibleCauses acls={acls} />}
+        </div>
+      )}
+
       {/* ── Voice prompt bar ── */}
-      {aedState !== 'OFF' && (
+      {mode === 'aed' && aedState !== 'OFF' && (
         <div className="px-3 py-1.5 bg-cyan-950/40 border-b border-cyan-900/50">
           <p
             className="text-[11px] text-cyan-300 font-medium tracking-wide leading-tight"
@@ -530,12 +503,12 @@ export default function AEDPanel() {
       )}
 
       {/* ── Status bar (rhythm + stats) ── */}
-      {aedState !== 'OFF' && (
+      {mode === 'aed' && aedState !== 'OFF' && (
         <div className="grid grid-cols-3 gap-0 text-center border-b border-gray-700" role="status" aria-live="polite" aria-label={`AED status: rhythm ${rhythmLabel(rhythm)}, shocks delivered ${shockCount}, total CPR time ${fmt(totalCprSeconds)}`}>
           <div className="px-1 py-1.5 border-r border-gray-700" aria-hidden="true">
             <div className="text-[9px] text-gray-400 uppercase tracking-wider">Rhythm</div>
             <div className={`text-[11px] font-semibold truncate ${
-              isShockable ? 'text-red-400' :
+              shockable ? 'text-red-400' :
               isArrestRhythm ? 'text-yellow-400' :
               'text-green-400'
             }`}>
@@ -554,7 +527,7 @@ export default function AEDPanel() {
       )}
 
       {/* ── Main content area ── */}
-      <div className="p-3 flex flex-col gap-3">
+      {mode === 'aed' && <div className="p-3 flex flex-col gap-3">
 
         {/* ═══ OFF ═══ */}
         {aedState === 'OFF' && (
@@ -722,7 +695,10 @@ export default function AEDPanel() {
             <CprTimerDisplay
               countdown={cprCountdown}
               progress={cprProgress}
-              promptIdx={cprPromptIdx}
+              cpr={cpr}
+              compressionSeconds={totalCprSeconds}
+              cpp={acls.cpp}
+              etco2={etco2}
             />
           </div>
         )}
@@ -736,7 +712,7 @@ export default function AEDPanel() {
               <path d="M13 2L3 14h9l-1 8 10-12h-9l1-8z" />
             </svg>
             <p className="text-red-400 font-bold text-sm tracking-wider">DELIVERING SHOCK</p>
-            <p className="text-[11px] text-red-300">{getEnergy(shockCount)}J</p>
+            <p className="text-[11px] text-red-300">{deliveredEnergy}J</p>
           </div>
         )}
 
@@ -750,21 +726,27 @@ export default function AEDPanel() {
             <CprTimerDisplay
               countdown={cprCountdown}
               progress={cprProgress}
-              promptIdx={cprPromptIdx}
+              cpr={cpr}
+              compressionSeconds={totalCprSeconds}
+              cpp={acls.cpp}
+              etco2={etco2}
             />
           </div>
         )}
-      </div>
+
+        {/* ═══ H's & T's — while in arrest ═══ */}
+        {aedState !== 'OFF' && acls.rhythm !== null && <ReversibleCauses acls={acls} />}
+      </div>}
 
       {/* ── Bottom bar: energy + pad status ── */}
-      {aedState !== 'OFF' && (
+      {mode === 'aed' && aedState !== 'OFF' && (
         <div className="flex items-center justify-between px-3 py-1.5 bg-gray-800/60 border-t border-gray-700 text-[9px] text-gray-500">
           <div className="flex items-center gap-2">
             <span className={`w-1.5 h-1.5 rounded-full ${rightPad ? 'bg-green-600' : 'bg-gray-600'}`} />
             <span className={`w-1.5 h-1.5 rounded-full ${leftPad ? 'bg-green-600' : 'bg-gray-600'}`} />
             <span>{rightPad && leftPad ? 'Pads OK' : 'Pads…'}</span>
           </div>
-          <span>Next: {getEnergy(shockCount + 1)}J</span>
+          <span>Next: {currentEnergy}J</span>
           <span>Total CPR: {fmt(totalCprSeconds)}</span>
         </div>
       )}
@@ -772,6 +754,198 @@ export default function AEDPanel() {
   );
 }
 
+/* ─────────────────────────────────────────────────────────
+   Manual Defibrillator Sub-component
+   ───────────────────────────────────────────────────────── */
+
+/**
+ * Energy selection, sync, charge and shock, and the transcutaneous pacer.
+ * The engine decides what a shock does and whether the pacer captures;
+ * capture is left for the learner to read from the monitor and the pulse.
+ */
+function ManualDefibrillator({ rhythm, onShockFlash }: { rhythm?: CardiacRhythm; onShockFlash: () => void }) {
+  const { electrical, shocks } = useSimStore(
+    useShallow((s) => ({
+      electrical: s.electrical,
+      // Defibrillations and cardioversions; a sync that found no R wave delivered nothing
+      shocks: s.acls.shocks.length + s.electrical.cardioversions.filter((c) => c.outcome !== 'no_sync').length,
+    }))
+  );
+  const [energy, setEnergy] = useState(200);
+  const [charge, setCharge] = useState<'idle' | 'charging' | 'charged'>('idle');
+  const [draftPacer, setDraftPacer] = useState<PacerSettings>(DEFAULT_PACER);
+  const chargeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (chargeTimerRef.current) clearTimeout(chargeTimerRef.current);
+    };
+  }, []);
+
+  const suggested = rhythm ? CARDIOVERSION_ENERGY[rhythm] : undefined;
+  const pacer = electrical.pacer ?? draftPacer;
+
+  const disarm = () => {
+    if (chargeTimerRef.current) clearTimeout(chargeTimerRef.current);
+    audioManager.stopAedChargeTone();
+    setCharge('idle');
+  };
+
+  const handleEnergy = (value: number) => {
+    if (charge !== 'idle') disarm();
+    setEnergy(value);
+  };
+
+  const handleCharge = () => {
+    audioManager.init();
+    setCharge('charging');
+    audioManager.playAedChargeTone();
+    chargeTimerRef.current = setTimeout(() => setCharge('charged'), MANUAL_CHARGE_MS);
+  };
+
+  // The next simulation step resolves the shock and logs its outcome
+  const handleShock = () => {
+    audioManager.stopAedChargeTone();
+    audioManager.playAedShockDischarge();
+    useSimStore.getState().deliverShock(energy, electrical.synchronized);
+    setCharge('idle');
+    onShockFlash();
+  };
+
+  const updatePacer = (change: Partial<PacerSettings>) => {
+    const next = { ...pacer, ...change };
+    if (electrical.pacer) useSimStore.getState().setPacer(next);
+    else setDraftPacer(next);
+  };
+
+  const togglePacer = () => {
+    if (electrical.pacer) {
+      setDraftPacer(electrical.pacer);
+      useSimStore.getState().stopPacing();
+    } else {
+      useSimStore.getState().startPacing(draftPacer);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* Rhythm + shocks */}
+      <div className="grid grid-cols-2 text-center border border-gray-700 rounded">
+        <div className="px-1 py-1.5 border-r border-gray-700">
+          <div className="text-[9px] text-gray-400 uppercase tracking-wider">Rhythm</div>
+          <div className="text-[11px] font-semibold text-green-400 truncate">{rhythmLabel(rhythm)}</div>
+        </div>
+        <div className="px-1 py-1.5">
+          <div className="text-[9px] text-gray-400 uppercase tracking-wider">Shocks</div>
+          <div className="text-[11px] font-semibold text-orange-400">{shocks}</div>
+        </div>
+      </div>
+
+      {/* Energy */}
+      <div className="flex flex-col gap-1">
+        <div className="flex justify-between text-[9px] text-gray-400 uppercase tracking-wider">
+          <span>Energy</span>
+          {suggested !== undefined && <span className="normal-case text-gray-500">Suggested {suggested}J</span>}
+        </div>
+        <div className="grid grid-cols-5 gap-1" role="group" aria-label="Shock energy">
+          {ENERGY_LEVELS.map((level) => (
+            <button
+              key={level}
+              onClick={() => handleEnergy(level)}
+              className={`py-1 rounded text-[10px] font-mono transition-colors ${
+                energy === level
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 border border-gray-700 hover:bg-gray-700'
+              }`}
+              aria-pressed={energy === level}
+            >
+              {level}J
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Sync, charge, shock */}
+      <div className="flex gap-2">
+        <button
+          onClick={() => useSimStore.getState().setSynchronized(!electrical.synchronized)}
+          className={`px-2 py-2 rounded text-[11px] font-bold tracking-wide transition-colors ${
+            electrical.synchronized
+              ? 'bg-green-700 text-white border border-green-500'
+              : 'bg-gray-800 text-gray-400 border border-gray-600 hover:bg-gray-700'
+          }`}
+          aria-pressed={electrical.synchronized}
+          aria-label="Synchronize shock to the R wave"
+        >
+          SYNC
+        </button>
+        {charge === 'charged' ? (
+          <button
+            onClick={handleShock}
+            className="flex-1 py-2 bg-red-600 hover:bg-red-500 text-white font-bold rounded text-sm tracking-wider transition-colors"
+            style={{ animation: 'aed-shock-btn 1s ease-in-out infinite' }}
+            aria-label={`Deliver ${electrical.synchronized ? 'synchronized ' : ''}${energy} joule shock`}
+          >
+            ⚡ SHOCK — {energy}J
+          </button>
+        ) : (
+          <button
+            onClick={handleCharge}
+            disabled={charge === 'charging'}
+            className="flex-1 py-2 bg-yellow-600 hover:bg-yellow-500 disabled:bg-yellow-800 text-white font-bold rounded text-sm tracking-wide transition-colors"
+            style={charge === 'charging' ? { animation: 'aed-pulse 0.6s ease-in-out infinite' } : {}}
+          >
+            {charge === 'charging' ? 'CHARGING…' : `CHARGE ${energy}J`}
+          </button>
+        )}
+      </div>
+      {charge !== 'idle' && (
+        <button
+          onClick={disarm}
+          className="text-[10px] text-gray-400 hover:text-gray-200 self-center"
+        >
+          Disarm
+        </button>
+      )}
+
+      {/* Transcutaneous pacer */}
+      <div className="flex flex-col gap-1 border-t border-gray-700 pt-2 text-[10px] text-gray-400">
+        <div className="flex justify-between items-center">
+          <span className="text-[9px] uppercase tracking-wider">Pacer</span>
+          <button
+            onClick={togglePacer}
+            className={`px-2 py-0.5 rounded text-[10px] font-semibold transition-colors ${
+              electrical.pacer
+                ? 'bg-red-800 hover:bg-red-700 text-white'
+                : 'bg-blue-700 hover:bg-blue-600 text-white'
+            }`}
+          >
+            {electrical.pacer ? 'Stop pacing' : 'Start pacing'}
+          </button>
+        </div>
+        <label className="flex items-center gap-2">
+          <span className="w-10">Rate</span>
+          <input
+            type="range" min={PACER_RATE.min} max={PACER_RATE.max} step={5} value={pacer.rate}
+            onChange={(e) => updatePacer({ rate: Number(e.target.value) })}
+            className="flex-1" aria-label="Pacing rate"
+          />
+          <span className="w-14 text-right font-mono">{pacer.rate} ppm</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-10">Output</span>
+          <input
+            type="range" min={PACER_CURRENT.min} max={PACER_CURRENT.max} step={5} value={pacer.current}
+            onChange={(e) => updatePacer({ current: Number(e.target.value) })}
+            className="flex-1" aria-label="Pacing output"
+          />
+          <span className="w-14 text-right font-mono">{pacer.current} mA</span>
+        </label>
+      </div>
+    </div>
+  );
+}
+
 /* ─────────────────────────────────────────────────────────
    CPR Timer Sub-component
    ───────────────────────────────────────────────────────── */
@@ -779,12 +953,25 @@ export default function AEDPanel() {
 function CprTimerDisplay({
   countdown,
   progress,
-  promptIdx,
+  cpr,
+  compressionSeconds,
+  cpp,
+  etco2,
 }: {
   countdown: number;
   progress: number;
-  promptIdx: number;
+  cpr: CPRQuality | null;
+  compressionSeconds: number;
+  cpp: number;
+  etco2: number;
 }) {
+  // Off-target compressions get corrective feedback; otherwise rotate coaching prompts
+  const feedback = cpr ? cprFeedback(cpr) : [];
+  const prompt = feedback[0] ?? CPR_PROMPTS[Math.floor(compressionSeconds / CPR_PROMPT_SECONDS) % CPR_PROMPTS.length];
+  const setQuality = (change: Partial<CPRQuality>) => {
+    if (cpr) useSimStore.getState().setCPRQuality({ ...cpr, ...change });
+  };
+
   return (
     <div className="w-full flex flex-col gap-2">
       <div className="flex justify-between items-center text-[10px]">
@@ -805,11 +992,46 @@ function CprTimerDisplay({
 
       {/* CPR coaching prompt */}
       <div className="bg-gray-800 rounded px-2 py-1.5 text-center">
-        <p className="text-[11px] text-cyan-300 font-medium">
-          {CPR_PROMPTS[promptIdx]}
+        <p className={`text-[11px] font-medium ${feedback.length > 0 ? 'text-yellow-300' : 'text-cyan-300'}`}>
+          {prompt}
         </p>
       </div>
 
+      {/* Compression quality and what it generates */}
+      {cpr ? (
+        <div className="flex flex-col gap-1 text-[10px] text-gray-400">
+          <label className="flex items-center gap-2">
+            <span className="w-12">Rate</span>
+            <input
+              type="range" min={60} max={160} step={5} value={cpr.rate}
+              onChange={(e) => setQuality({ rate: Number(e.target.value) })}
+              className="flex-1" aria-label="Compression rate"
+            />
+            <span className="w-12 text-right font-mono">{cpr.rate}/min</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-12">Depth</span>
+            <input
+              type="range" min={2} max={8} step={0.5} value={cpr.depth}
+              onChange={(e) => setQuality({ depth: Number(e.target.value) })}
+              className="flex-1" aria-label="Compression depth"
+            />
+            <span className="w-12 text-right font-mono">{cpr.depth} cm</span>
+          </label>
+          <div className="flex justify-between font-mono">
+            <span className={cpp < 15 ? 'text-red-400' : 'text-green-400'}>CPP {Math.round(cpp)} mmHg</span>
+            <span className={etco2 < 10 ? 'text-red-400' : 'text-green-400'}>EtCO₂ {Math.round(etco2)} mmHg</span>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => useSimStore.getState().startCPR()}
+          className="w-full px-2 py-1 bg-blue-700 hover:bg-blue-600 text-white text-[11px] font-medium rounded transition-colors"
+        >
+          Resume compressions
+        </button>
+      )}
+
       {/* Re-analyze hint when timer is close */}
       {countdown <= 10 && countdown > 0 && (
         <p className="text-[10px] text-yellow-400 text-center"
@@ -821,3 +1043,33 @@ function CprTimerDisplay({
     </div>
   );
 }
+
+/* ─────────────────────────────────────────────────────────
+   Reversible Causes Sub-component
+   ───────────────────────────────────────────────────────── */
+
+/** H's and T's treatments; the causes behind the arrest stay hidden */
+function ReversibleCauses({ acls }: { acls: AclsState }) {
+  const given = new Set(acls.treatments.map((t) => t.treatment));
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="text-[9px] text-gray-400 uppercase tracking-wider">H&apos;s &amp; T&apos;s</div>
+      <div className="grid grid-cols-2 gap-1">
+        {(Object.keys(CAUSE_TREATMENTS) as CauseTreatment[]).map((treatment) => (
+          <button
+            key={treatment}
+            onClick={() => useSimStore.getState().treatReversibleCause(treatment)}
+            disabled={given.has(treatment)}
+            className={`px-1.5 py-1 rounded text-[9px] leading-tight text-left transition-colors ${
+              given.has(treatment)
+                ? 'bg-green-900/40 text-green-400 border border-green-800 cursor-default'
+                : 'bg-gray-800 text-gray-300 border border-gray-700 hover:bg-gray-700'
+            }`}
+          >
+            {given.has(treatment) ? '✓ ' : ''}{CAUSE_TREATMENTS[treatment]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import MillieChat from './MillieChat';
 import OxyHbCurve from './OxyHbCurve';
 import FrankStarlingCurve from './FrankStarlingCurve';
 import EchoSim from './EchoSim';
+import ResponseSurfacePanel from './ResponseSurfacePanel';
+import TwelveLeadPanel from './TwelveLeadPanel';
 import ScenarioCallout from './ScenarioCallout';
 import VitalAnnotations from './VitalAnnotations';
 import { LearningPanelContent } from './LearningPanel';
@@ -21,7 +23,14 @@ import { buildSimMasterSystemPrompt } from '../ai/simMasterPrompt';
 import { DigitalTwin } from '../engine/digitalTwin';
 import type { TeachingMode } from '../store/slices/aiSlice';
 
-type AITab = 'eeg' | 'mentor' | 'simmaster' | 'oxyhb' | 'frankstarling' | 'echosim' | 'learn';
+type AITab = 'eeg' | 'mentor' | 'simmaster' | 'oxyhb' | 'frankstarling' | 'echosim' | 'twelvelead' | 'isobologram' | 'learn';
+
+// Wake-up forecast: seconds → "x.y min"; null time means beyond the 4 h horizon
+function formatEmergence(forecast: DigitalTwin['predictedOutcome']['wakeUpForecast']): string {
+  if (!forecast) return '\u2014';
+  const t = forecast.timeToEmergence;
+  return t === null ? '> 240 min' : `${Math.round(t / 6) / 10} min`;
+}
 
 // ---------------------------------------------------------------------------
 // CompositeRiskBadge — color-coded badge with hover breakdown tooltip
@@ -455,6 +464,7 @@ export const Dashboard: React.FC = () => {
     digitalTwin: s.digitalTwin,
     fio2: s.fio2,
     airwayDevice: s.airwayDevice,
+    position: s.position,
     combinedEff: s.combinedEff,
   }));
 
@@ -467,6 +477,8 @@ export const Dashboard: React.FC = () => {
     { id: 'oxyhb', label: 'O\u2082-Hb', icon: '\ud83e\ude78' },
     { id: 'frankstarling', label: 'F-S', icon: '\u2764' },
     { id: 'echosim', label: 'Echo', icon: '\ud83d\udc93' },
+    { id: 'twelvelead', label: '12-Lead', icon: '\ud83d\udcc8' },
+    { id: 'isobologram', label: 'Isobole', icon: '\u2696' },
     { id: 'learn', label: 'Learn', icon: '\ud83d\udcda' },
   ];
 
@@ -540,7 +552,7 @@ export const Dashboard: React.FC = () => {
                         <div className="flex justify-between">
                           <span className="text-gray-400">Est. Time to Emergence</span>
                           <span className="text-white">
-                            {simState.digitalTwin.predictedOutcome.timeToEmergence} min
+                            {formatEmergence(simState.digitalTwin.predictedOutcome.wakeUpForecast)}
                           </span>
                         </div>
                         {simState.digitalTwin.comorbidities.length > 0 && (
@@ -594,6 +606,7 @@ export const Dashboard: React.FC = () => {
                     fio2={simState.fio2}
                     patient={simState.patient}
                     airwayDevice={simState.airwayDevice}
+                    position={simState.position}
                   />
                 </div>
               )}
@@ -619,6 +632,12 @@ export const Dashboard: React.FC = () => {
                   />
                 </div>
               )}
+              {activeTab === 'twelvelead' && (
+                <TwelveLeadPanel />
+              )}
+              {activeTab === 'isobologram' && (
+                <ResponseSurfacePanel />
+              )}
               {activeTab === 'learn' && (
                 <LearningPanelContent />
               )}
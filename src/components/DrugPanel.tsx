@@ -1,10 +1,13 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useShallow } from 'zustand/react/shallow';
 import useSimStore from '../store/useSimStore';
 import useAIStore from '../store/useAIStore';
-  import { DRUG_LIST, LA_DRUG_KEYS } from '../engine/drugs';
-import { DrugParams } from '../types';
+  import { DRUG_LIST, LA_DRUG_KEYS, EMERGENCY_DRUG_KEYS } from '../engine/drugs';
+import { PK_MODEL_REGISTRY, resolveDrugParams } from '../engine/pkModelRegistry';
+import { TCI_DRUG_CONFIG, predictTimeToTarget, decrementTime } from '../engine/tciController';
+import { formatTime } from '../store/slices/uiSlice';
+import { DrugParams, TCITargetSite } from '../types';
 
 // Drug-specific colors for visual identification
 const DRUG_COLORS: Record<string, string> = {
@@ -14,6 +17,119 @@ const DRUG_COLORS: Record<string, string> = {
   ketamine: '#22c55e',
 };
 
+/** Simulated seconds between TCI predictions; time to target counts down in between */
+const TCI_READOUT_INTERVAL_S = 10;
+
+function formatDuration(seconds: number | null): string {
+  return seconds === null ? '\u2014' : formatTime(Math.round(seconds));
+}
+
+function TCIControls({ drug, drugKey, color }: { drug: DrugParams; drugKey: string; color: string }) {
+  const { t } = useTranslation();
+  const config = TCI_DRUG_CONFIG[drugKey];
+  const { infusion, pkState, elapsedSeconds, patient, pkModelSelection, startTCI, setTCITarget, stopInfusion } = useSimStore(
+    useShallow(s => ({
+      infusion: s.infusions[drugKey],
+      pkState: s.pkStates[drugKey],
+      elapsedSeconds: s.elapsedSeconds,
+      patient: s.patient,
+      pkModelSelection: s.pkModelSelection,
+      startTCI: s.startTCI,
+      setTCITarget: s.setTCITarget,
+      stopInfusion: s.stopInfusion,
+    }))
+  );
+  const [site, setSite] = useState<TCITargetSite>('effect');
+  const [target, setTarget] = useState(String(config.defaultTarget));
+  const tci = infusion?.isRunning ? infusion.tci : undefined;
+
+  const params = useMemo(
+    () => resolveDrugParams(drugKey, patient, pkModelSelection),
+    [drugKey, patient, pkModelSelection]
+  );
+
+  // Forward simulations rerun from the current PK state when the target or
+  // model changes and every TCI_READOUT_INTERVAL_S, not on every tick
+  const readoutTick = Math.floor(elapsedSeconds / TCI_READOUT_INTERVAL_S);
+  const prediction = useMemo(() => tci && pkState && {
+    from: elapsedSeconds,
+    timeToTarget: predictTimeToTarget(pkState, params, tci, config.maxRate),
+    decrement: decrementTime(pkState, params, tci.decrementTarget),
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- pkState and elapsedSeconds are read once per readout tick
+  }, [readoutTick, tci, params, config.maxRate]);
+  const readout = tci && prediction && {
+    timeToTarget: prediction.timeToTarget === null
+      ? null
+      : Math.max(0, prediction.timeToTarget - (elapsedSeconds - prediction.from)),
+    decrement: prediction.decrement,
+  };
+
+  const submit = () => {
+    const value = Number(target);
+    if (!target || Number.isNaN(value)) return;
+    if (tci) setTCITarget(drugKey, value);
+    else startTCI(drugKey, site, value);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1 items-center">
+        <label htmlFor={`${drugKey}-tci-target`} className="text-xs text-gray-400 w-12">{t('drugs.tci')}</label>
+        <select
+          value={tci?.targetSite ?? site}
+          onChange={(e) => setSite(e.target.value as TCITargetSite)}
+          disabled={!!tci}
+          aria-label={`TCI target site for ${drug.name}`}
+          className="px-1 py-1 bg-gray-800 rounded text-xs border border-gray-700 min-h-[44px]"
+        >
+          <option value="effect">{t('drugs.tciEffect')}</option>
+          <option value="plasma">{t('drugs.tciPlasma')}</option>
+        </select>
+        <input
+          id={`${drugKey}-tci-target`}
+          type="number"
+          step="0.1"
+          min={0}
+          max={config.maxTarget}
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder={config.concentrationUnit}
+          aria-label={`TCI target concentration for ${drug.name} in ${config.concentrationUnit}`}
+          className="flex-1 px-1.5 py-1 bg-gray-800 rounded text-xs border border-gray-700 font-mono min-h-[44px]"
+          style={{ maxWidth: 56 }}
+        />
+        <button
+          onClick={submit}
+          aria-label={`${tci ? 'Set' : 'Start'} ${drug.name} TCI target ${target || 0} ${config.concentrationUnit}`}
+          className="px-2 py-1 rounded text-xs font-bold min-h-[44px]"
+          style={{ background: `${color}33`, color, border: `1px solid ${color}` }}
+        >{tci ? t('drugs.tciSet') : t('common.start')}</button>
+        {tci && (
+          <button
+            onClick={() => stopInfusion(drugKey)}
+            aria-label={`Stop ${drug.name} TCI`}
+            className="px-2 py-1 bg-red-800 hover:bg-red-700 rounded text-xs min-h-[44px]"
+          >{t('common.stop')}</button>
+        )}
+      </div>
+      {tci && readout && (
+        <div className="grid grid-cols-2 gap-x-2 text-xs font-mono text-gray-300 pl-1" aria-live="polite">
+          <span className="text-gray-500">{t('drugs.tciTarget')}</span>
+          <span>{tci.targetSite === 'effect' ? 'Ce' : 'Cp'} {tci.target} {config.concentrationUnit}</span>
+          <span className="text-gray-500">{t('drugs.tciPredictedCe')}</span>
+          <span>{(pkState?.ce ?? 0).toFixed(2)} {config.concentrationUnit}</span>
+          <span className="text-gray-500">{t('drugs.tciRate')}</span>
+          <span>{infusion.rate.toFixed(1)} {drug.unit}/min</span>
+          <span className="text-gray-500">{t('drugs.tciTimeToTarget')}</span>
+          <span>{formatDuration(readout.timeToTarget)}</span>
+          <span className="text-gray-500">{t('drugs.tciDecrement', { value: tci.decrementTarget })}</span>
+          <span>{formatDuration(readout.decrement)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function CompactDrugCard({ drug, scenarioLocked, isUnlocked, scenarioHintRange }: {
   drug: DrugParams;
   scenarioLocked: boolean;
@@ -21,13 +137,15 @@ function CompactDrugCard({ drug, scenarioLocked, isUnlocked, scenarioHintRange }
   scenarioHintRange?: [number, number];
 }) {
   const { t } = useTranslation();
-  const { administerBolus, startInfusion, stopInfusion, infusions, pkStates } = useSimStore(
+  const { administerBolus, startInfusion, stopInfusion, infusions, pkStates, pkModelSelection, setPKModel } = useSimStore(
     useShallow(s => ({
       administerBolus: s.administerBolus,
       startInfusion: s.startInfusion,
       stopInfusion: s.stopInfusion,
       infusions: s.infusions,
       pkStates: s.pkStates,
+      pkModelSelection: s.pkModelSelection,
+      setPKModel: s.setPKModel,
     }))
   );
   const [showCustom, setShowCustom] = useState(false);
@@ -37,6 +155,7 @@ function CompactDrugCard({ drug, scenarioLocked, isUnlocked, scenarioHintRange }
   const infusion = infusions[drugKey];
   const ce = pkStates[drugKey]?.ce || 0;
   const color = DRUG_COLORS[drugKey] || '#888';
+  const pkModels = PK_MODEL_REGISTRY[drugKey];
 
   // Buttons are disabled when scenario is locked AND this drug is not the unlocked one
   const buttonsDisabled = scenarioLocked && !isUnlocked;
@@ -46,6 +165,10 @@ function CompactDrugCard({ drug, scenarioLocked, isUnlocked, scenarioHintRange }
     midazolam: [0.5, 1, 2, 5],
     fentanyl: [25, 50, 75, 100],
     ketamine: [10, 25, 50, 100],
+    ondansetron: [4, 8],
+    droperidol: [0.625, 1.25, 2.5],
+    haloperidol: [1, 2, 5],
+    methadone: [2.5, 5, 10],
   };
 
   return (
@@ -61,7 +184,9 @@ function CompactDrugCard({ drug, scenarioLocked, isUnlocked, scenarioHintRange }
         )}
         {infusion?.isRunning && (
           <span className="text-xs ml-1 animate-pulse" style={{ color: '#22c55e' }}>
-            {'\u25CF'} {infusion.rate}{drug.unit}/min
+            {infusion.tci
+              ? <>{'\u25CF'} TCI {infusion.tci.targetSite === 'effect' ? 'Ce' : 'Cp'} {infusion.tci.target}</>
+              : <>{'\u25CF'} {infusion.rate}{drug.unit}/min</>}
           </span>
         )}
         <div className="flex-1" />
@@ -148,6 +273,26 @@ function CompactDrugCard({ drug, scenarioLocked, isUnlocked, scenarioHintRange }
               >{t('common.stop')}</button>
             )}
           </div>
+          {/* Target-controlled infusion */}
+          {TCI_DRUG_CONFIG[drugKey] && <TCIControls drug={drug} drugKey={drugKey} color={color} />}
+          {/* Covariate PK model */}
+          {pkModels && (
+            <div className="flex gap-1 items-center">
+              <label htmlFor={`${drugKey}-pk-model`} className="text-xs text-gray-400 w-12">{t('drugs.pkModel')}</label>
+              <select
+                id={`${drugKey}-pk-model`}
+                value={pkModelSelection[drugKey] ?? ''}
+                onChange={(e) => setPKModel(drugKey, e.target.value)}
+                aria-label={`Pharmacokinetic model for ${drug.name}`}
+                title={pkModels.find(m => m.id === pkModelSelection[drugKey])?.citation}
+                className="flex-1 px-1.5 py-1 bg-gray-800 rounded text-xs border border-gray-700 min-h-[44px]"
+              >
+                {pkModels.map(m => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -167,8 +312,10 @@ export default function DrugPanel() {
   );
   const unlockedDrug = useAIStore(s => s.unlockedDrug);
 
+  // Local anesthetics and emergency drugs have their own panels
   const filteredDrugs = DRUG_LIST.filter(d =>
-    !LA_DRUG_KEYS.some(k => d.name.toLowerCase() === k || d.name.toLowerCase().startsWith(k.split('_')[0]))
+    !LA_DRUG_KEYS.some(k => d.name.toLowerCase() === k || d.name.toLowerCase().startsWith(k.split('_')[0])) &&
+    !EMERGENCY_DRUG_KEYS.includes(d.name.toLowerCase())
   );
 
   return (
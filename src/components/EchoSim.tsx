@@ -2,6 +2,7 @@
 import { useEffect, useRef } from 'react';
 import useSimStore from '../store/useSimStore';
 import type { EchoParams } from '../types';
+import type { CirculationState } from '../engine/circulation';
 
 interface HemoParams {
   preload: number; afterload: number; contractility: number; heartRate: number; compliance: number;
@@ -18,26 +19,18 @@ interface Hemo {
   fsPoint: FSPoint; Ees: number; V0: number;
 }
 
-function computeHemodynamicsQuick(params: HemoParams) {
-  const { preload: EDV, afterload, contractility } = params;
-  const Ees = 2.5 * contractility, V0 = 10, Ea = afterload / 60;
-  const ESV = Math.max(V0 + 5, Math.min((Ea * EDV + Ees * V0) / (Ees + Ea), EDV - 10));
-  return { SV: EDV - ESV };
+/** Stroke volume at a given preload under the same contractility and arterial elastance */
+function strokeVolumeAt(EDV: number, Ees: number, Ea: number, V0: number) {
+  return Math.max(0, (EDV - V0) / (1 + Ea / Ees));
 }
 
-function computeHemodynamics(params: HemoParams): Hemo {
-  const { preload: EDV, afterload, contractility, heartRate } = params;
-  const Ees = 2.5 * contractility;
-  const V0 = 10;
-  const EDP = 4 + Math.exp((EDV - 100) * 0.025) * 3;
-  const Ea = afterload / 60;
-  const ESV = Math.max(V0 + 5, Math.min((Ea * EDV + Ees * V0) / (Ees + Ea), EDV - 10));
-  const SV = EDV - ESV;
-  const EF = (SV / EDV) * 100;
-  const CO = (SV * heartRate) / 1000;
+function computeHemodynamics(params: HemoParams, circ: CirculationState): Hemo {
+  const { afterload, heartRate } = params;
+  const { edv: EDV, esv: ESV, sv: SV, ef: EF, co: CO, edp: EDP, ees: Ees, v0: V0 } = circ;
   const ESP = Ees * (ESV - V0);
-  const systolicBP = Math.min(ESP, afterload * 1.3);
-  const diastolicBP = afterload * 0.6;
+  const Ea = SV > 0 ? ESP / SV : Infinity;
+  const systolicBP = circ.sbp;
+  const diastolicBP = circ.dbp;
   const LVIDd_cm = Math.pow(EDV * 0.75, 1 / 3);
   const LVIDs_cm = Math.pow(ESV * 0.75, 1 / 3);
   const FS = ((LVIDd_cm - LVIDs_cm) / LVIDd_cm) * 100;
@@ -64,8 +57,7 @@ function computeHemodynamics(params: HemoParams): Hemo {
   for (let i = 1; i <= N / 4; i++) { const t = i / (N / 4); pvLoop.push({ v: ESV, p: Math.max(2, Ees * (ESV - V0) * (1 - t) + 2 * t) }); }
   const fsCurve: FSPoint[] = [];
   for (let edv = 40; edv <= 200; edv += 3) {
-    const h = computeHemodynamicsQuick({ ...params, preload: edv });
-    fsCurve.push({ edv, sv: h.SV });
+    fsCurve.push({ edv, sv: strokeVolumeAt(edv, Ees, Ea, V0) });
   }
   return {
     EDV, ESV, SV, EF, CO, heartRate, EDP, ESP, systolicBP, diastolicBP,
@@ -187,8 +179,9 @@ export interface EchoSimProps {
 }
 
 export default function EchoSim(_props: EchoSimProps) {
-  // Read pre-computed echo parameters from store (single source of truth)
+  // Read pre-computed echo parameters and the circulation from store (single source of truth)
   const echoParams = useSimStore((s: { echoParams: EchoParams }) => s.echoParams);
+  const circulation = useSimStore((s: { circulation: CirculationState }) => s.circulation);
 
   const hemo = computeHemodynamics({
     preload: echoParams.preload,
@@ -196,7 +189,7 @@ export default function EchoSim(_props: EchoSimProps) {
     contractility: echoParams.contractility,
     heartRate: echoParams.heartRate,
     compliance: 0.06,
-  });
+  }, circulation);
 
   return (
     <div className="space-y-2">
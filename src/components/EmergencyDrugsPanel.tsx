@@ -1,12 +1,14 @@
 import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import useSimStore from '../store/useSimStore';
+import { isRescueDrug, RescueRoute } from '../engine/airwayComplications';
+import { DRUG_DATABASE } from '../engine/drugs';
 
 interface EmergencyDrug {
   key: string;
   name: string;
   abbrev: string;
-  doses: { label: string; dose: number; unit: string }[];
+  doses: { label: string; dose: number; unit: string; route?: RescueRoute }[];
   color: string;
   indication: string;
 }
@@ -19,9 +21,10 @@ const EMERGENCY_DRUGS: EmergencyDrug[] = [
     color: '#ef4444',
     indication: 'Anaphylaxis / Cardiac Arrest',
     doses: [
-      { label: '0.3mg IM', dose: 0.3, unit: 'mg' },
-      { label: '0.5mg IM', dose: 0.5, unit: 'mg' },
-      { label: '1mg IV', dose: 1.0, unit: 'mg' },
+      { label: '0.3mg IM', dose: 0.3, unit: 'mg', route: 'im' },
+      { label: '0.5mg IM', dose: 0.5, unit: 'mg', route: 'im' },
+      { label: '0.1mg IV', dose: 0.1, unit: 'mg', route: 'iv' },
+      { label: '1mg IV', dose: 1.0, unit: 'mg', route: 'iv' },
     ],
   },
   {
@@ -35,6 +38,40 @@ const EMERGENCY_DRUGS: EmergencyDrug[] = [
       { label: '1mg', dose: 1.0, unit: 'mg' },
     ],
   },
+  {
+    key: 'glycopyrrolate',
+    name: 'Glycopyrrolate',
+    abbrev: 'Glyco',
+    color: '#c2410c',
+    indication: 'Bradycardia / Secretions',
+    doses: [
+      { label: '0.2mg', dose: 0.2, unit: 'mg' },
+      { label: '0.4mg', dose: 0.4, unit: 'mg' },
+    ],
+  },
+  {
+    key: 'ephedrine',
+    name: 'Ephedrine',
+    abbrev: 'Ephed',
+    color: '#e11d48',
+    indication: 'Hypotension',
+    doses: [
+      { label: '5mg', dose: 5, unit: 'mg' },
+      { label: '10mg', dose: 10, unit: 'mg' },
+    ],
+  },
+  {
+    key: 'phenylephrine',
+    name: 'Phenylephrine',
+    abbrev: 'Neo',
+    color: '#be185d',
+    indication: 'Hypotension',
+    doses: [
+      { label: '50mcg', dose: 50, unit: 'mcg' },
+      { label: '100mcg', dose: 100, unit: 'mcg' },
+      { label: '200mcg', dose: 200, unit: 'mcg' },
+    ],
+  },
   {
     key: 'succinylcholine',
     name: 'Succinylcholine',
@@ -42,8 +79,43 @@ const EMERGENCY_DRUGS: EmergencyDrug[] = [
     color: '#eab308',
     indication: 'RSI / Laryngospasm',
     doses: [
+      { label: '20mg', dose: 20, unit: 'mg', route: 'iv' },
+      { label: '100mg', dose: 100, unit: 'mg', route: 'iv' },
+      { label: '200mg', dose: 200, unit: 'mg', route: 'iv' },
+    ],
+  },
+  {
+    key: 'rocuronium',
+    name: 'Rocuronium',
+    abbrev: 'Roc',
+    color: '#84cc16',
+    indication: 'Intubation / Relaxation',
+    doses: [
+      { label: '50mg', dose: 50, unit: 'mg' },
       { label: '100mg', dose: 100, unit: 'mg' },
+    ],
+  },
+  {
+    key: 'sugammadex',
+    name: 'Sugammadex',
+    abbrev: 'Sug',
+    color: '#4ade80',
+    indication: 'Rocuronium Reversal',
+    doses: [
       { label: '200mg', dose: 200, unit: 'mg' },
+      { label: '400mg', dose: 400, unit: 'mg' },
+      { label: '1200mg', dose: 1200, unit: 'mg' },
+    ],
+  },
+  {
+    key: 'albuterol',
+    name: 'Albuterol',
+    abbrev: 'Salb',
+    color: '#38bdf8',
+    indication: 'Bronchospasm',
+    doses: [
+      { label: '4 puffs', dose: 400, unit: 'mcg', route: 'inhaled' },
+      { label: '8 puffs', dose: 800, unit: 'mcg', route: 'inhaled' },
     ],
   },
   {
@@ -70,6 +142,17 @@ const EMERGENCY_DRUGS: EmergencyDrug[] = [
       { label: '1mg', dose: 1.0, unit: 'mg' },
     ],
   },
+  {
+    key: 'amiodarone',
+    name: 'Amiodarone',
+    abbrev: 'Amio',
+    color: '#7c3aed',
+    indication: 'Shock-refractory VF/pVT',
+    doses: [
+      { label: '150mg', dose: 150, unit: 'mg' },
+      { label: '300mg', dose: 300, unit: 'mg' },
+    ],
+  },
   {
     key: 'diphenhydramine',
     name: 'Diphenhydramine',
@@ -108,29 +191,25 @@ const EMERGENCY_DRUGS: EmergencyDrug[] = [
 export default function EmergencyDrugsPanel() {
   const { t } = useTranslation();
   const [collapsed, setCollapsed] = useState(true);
-  const { administerBolus, logEvent } = useSimStore();
+  const { administerBolus, administerRescueDrug, logEvent } = useSimStore();
 
-  // Apply emergency drug effect: log to event log, and for known drugs apply PK if in store
-  const administerEmergency = (drug: EmergencyDrug, dose: { label: string; dose: number; unit: string }) => {
-    // For naloxone and flumazenil, use the existing PK engine
-    if (drug.key === 'naloxone' || drug.key === 'flumazenil') {
-      administerBolus(drug.key, dose.dose);
+  // Apply emergency drug effect: PK for modelled drugs, otherwise log to the event log
+  const administerEmergency = (drug: EmergencyDrug, dose: EmergencyDrug['doses'][number]) => {
+    // Airway rescue drugs act on laryngospasm / bronchospasm / anaphylaxis (and their PK models)
+    if (isRescueDrug(drug.key)) {
+      administerRescueDrug(drug.key, dose.dose, dose.route);
       return;
     }
-    // For other emergency drugs, apply physiological effect via store log + vitals nudge
+    // Vasoactive, anticholinergic, relaxant and reversal drugs act through their PK/PD models
+    if (DRUG_DATABASE[drug.key]) {
+      administerBolus(drug.key, dose.dose, dose.route === 'im' ? 'im' : 'iv');
+      return;
+    }
+    // Remaining drugs are logged with their intended effect
     let message = `[EMERG] ${drug.name} ${dose.label}`;
 
     // Physiological effect descriptions by drug
     switch (drug.key) {
-      case 'epinephrine':
-        message += ' — ↑HR ↑BP (vasopressor/bronchodilator)';
-        break;
-      case 'atropine':
-        message += ' — ↑HR (vagolytic)';
-        break;
-      case 'succinylcholine':
-        message += ' — Neuromuscular blockade (fasciculations)';
-        break;
       case 'diphenhydramine':
         message += ' — Antihistamine (mild sedation)';
         break;
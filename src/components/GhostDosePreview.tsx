@@ -6,13 +6,19 @@
  * administering it.  Uses predictForward() from engine/predict.ts to
  * compute Ce, MOASS, SpO2, and RR at T+1, T+3, T+5 minutes.
  * The AI Mentor then explains the predicted outcome.
+ * A wake-up forecast (engine/emergence.ts) shows how the dose would move
+ * the predicted time to emergence.
  */
 
 import React, { useState, useCallback } from 'react';
 import useSimStore from '../store/useSimStore';
 import { predictForward } from '../engine/predict';
 import { DRUG_DATABASE } from '../engine/drugs';
-import { PredictionResult, MOASSLevel } from '../types';
+import { applyBolus, createInitialPKState } from '../engine/pkModel';
+import { resolveDrugParams } from '../engine/pkModelRegistry';
+import { forecastWakeUp, WakeUpForecast } from '../engine/emergence';
+import { formatTime } from '../store/slices/uiSlice';
+import { PredictionResult, MOASSLevel, DrugParams } from '../types';
 
 const GHOST_DRUGS = ['propofol', 'midazolam', 'fentanyl', 'remifentanil', 'ketamine', 'dexmedetomidine'];
 
@@ -34,14 +40,23 @@ const MOASS_LABEL: Record<number, string> = {
   5: 'Awake',
 };
 
+function formatWakeUp(seconds: number | null): string {
+  return seconds === null ? '>4 h' : formatTime(Math.round(seconds));
+}
+
 const GhostDosePreview: React.FC = () => {
-  const { pkStates, infusions, patient, vitals, fio2, interventions } = useSimStore((s) => ({
+  const {
+    pkStates, infusions, patient, vitals, fio2, interventions, pkModelSelection, interactionModels, currentWakeUp,
+  } = useSimStore((s) => ({
     pkStates: s.pkStates,
     infusions: s.infusions,
     patient: s.patient,
     vitals: s.vitals,
     fio2: s.fio2,
     interventions: s.interventions,
+    pkModelSelection: s.pkModelSelection,
+    interactionModels: s.interactionModels,
+    currentWakeUp: s.digitalTwin?.predictedOutcome.wakeUpForecast ?? null,
   }));
 
   const [selectedDrug, setSelectedDrug] = useState('propofol');
@@ -49,6 +64,7 @@ const GhostDosePreview: React.FC = () => {
   const [results, setResults] = useState<PredictionResult[] | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
   const [aiNote, setAiNote] = useState('');
+  const [wakeUp, setWakeUp] = useState<WakeUpForecast | null>(null);
 
   const selectedDrug$ = DRUG_DATABASE[selectedDrug];
   const presets = DOSE_PRESETS[selectedDrug] ?? [10, 20, 50];
@@ -59,6 +75,7 @@ const GhostDosePreview: React.FC = () => {
       setIsCalculating(true);
       setResults(null);
       setAiNote('');
+      setWakeUp(null);
 
       // Run in a microtask so React can update UI
       setTimeout(() => {
@@ -71,7 +88,10 @@ const GhostDosePreview: React.FC = () => {
             vitals,
             [60, 180, 300],
             { drugName: selectedDrug, dose },
-            interventions
+            interventions,
+            pkModelSelection,
+            Math.random,
+            interactionModels
           );
 
           const mapped: PredictionResult[] = snapshots.map((s) => ({
@@ -84,6 +104,18 @@ const GhostDosePreview: React.FC = () => {
 
           setResults(mapped);
 
+          // Wake-up forecast with the ghost bolus on board
+          const drugParams: Record<string, DrugParams> = {};
+          for (const name of new Set([...Object.keys(pkStates), selectedDrug])) {
+            if (DRUG_DATABASE[name]) drugParams[name] = resolveDrugParams(name, patient, pkModelSelection);
+          }
+          const ghostPK = {
+            ...pkStates,
+            [selectedDrug]: applyBolus(pkStates[selectedDrug] ?? createInitialPKState(), drugParams[selectedDrug], dose),
+          };
+          const forecast = forecastWakeUp(ghostPK, infusions, drugParams, {}, interactionModels);
+          setWakeUp(forecast);
+
           // Generate simple AI explanation note
           const ghostDrugName = selectedDrug$?.name ?? selectedDrug;
           const t1 = mapped[0];
@@ -97,6 +129,7 @@ const GhostDosePreview: React.FC = () => {
           let note = `${ghostDrugName} ${dose}${selectedDrug$?.unit ?? 'mg'} bolus: predicted Ce ≈ ${ceAtT3} mcg/mL at T+3 min (${moassLabel}).`;
           if (t1) note += ` SpO2: ${Math.round(t1.predictedSpo2)}% → ${Math.round(t5?.predictedSpo2 ?? t1.predictedSpo2)}%, RR: ${Math.round(t1.predictedRr)} → ${Math.round(t5?.predictedRr ?? t1.predictedRr)}/min.`;
           note += osaNote + ageNote;
+          note += ` Predicted wake-up (MOASS ≥4): ${formatWakeUp(forecast.timeToEmergence)}.`;
 
           // Warn about drug synergy
           const propCe = pkStates['propofol']?.ce ?? 0;
@@ -110,7 +143,7 @@ const GhostDosePreview: React.FC = () => {
         }
       }, 0);
     },
-    [pkStates, infusions, patient, fio2, vitals, selectedDrug, selectedDrug$, interventions]
+    [pkStates, infusions, patient, fio2, vitals, selectedDrug, selectedDrug$, interventions, pkModelSelection, interactionModels]
   );
 
   const handleCustomRun = () => {
@@ -130,7 +163,7 @@ const GhostDosePreview: React.FC = () => {
         <label className="text-gray-400 w-12 shrink-0">Drug</label>
         <select
           value={selectedDrug}
-          onChange={(e) => { setSelectedDrug(e.target.value); setResults(null); setAiNote(''); }}
+          onChange={(e) => { setSelectedDrug(e.target.value); setResults(null); setAiNote(''); setWakeUp(null); }}
           className="flex-1 bg-gray-700 text-white rounded px-2 py-1 text-xs border border-gray-600 focus:border-purple-400 focus:outline-none"
         >
           {GHOST_DRUGS.map((d) => (
@@ -224,6 +257,29 @@ const GhostDosePreview: React.FC = () => {
             </table>
           </div>
 
+          {/* Wake-up forecast */}
+          {wakeUp && (
+            <div className="bg-sky-900/20 border border-sky-700/40 rounded p-2 text-[10px] space-y-0.5">
+              <div className="text-sky-400 font-semibold uppercase tracking-wider">Wake-up Forecast</div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">MOASS ≥4 with this dose</span>
+                <span className="font-mono text-sky-300">{formatWakeUp(wakeUp.timeToEmergence)}</span>
+              </div>
+              {currentWakeUp && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Without this dose</span>
+                  <span className="font-mono text-gray-300">{formatWakeUp(currentWakeUp.timeToEmergence)}</span>
+                </div>
+              )}
+              {wakeUp.timeToEmergenceIfStopped !== wakeUp.timeToEmergence && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">If infusions stopped now</span>
+                  <span className="font-mono text-gray-300">{formatWakeUp(wakeUp.timeToEmergenceIfStopped)}</span>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* AI note */}
           {aiNote && (
             <div className="bg-purple-900/30 border border-purple-700/50 rounded p-2 text-purple-200 text-[10px] leading-relaxed">
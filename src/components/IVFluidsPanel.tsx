@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useShallow } from 'zustand/react/shallow';
 import useSimStore from '../store/useSimStore';
+import { intravascularChange } from '../engine/volumeKinetics';
 
 const FLUIDS = [
   { key: 'NS', name: '0.9% Normal Saline', abbrev: 'NS', color: '#3b82f6' },
@@ -34,9 +35,10 @@ export default function IVFluidsPanel() {
   const [isBolus, setIsBolus] = useState(false);
   const [bolusVolume, setBolusVolume] = useState<number>(500);
 
-  const { ivFluids, startIVFluid, stopIVFluid, setIVAccess } = useSimStore(
+  const { ivFluids, volume, startIVFluid, stopIVFluid, setIVAccess } = useSimStore(
     useShallow(s => ({
       ivFluids: s.ivFluids,
+      volume: s.volume,
       startIVFluid: s.startIVFluid,
       stopIVFluid: s.stopIVFluid,
       setIVAccess: s.setIVAccess,
@@ -51,6 +53,9 @@ export default function IVFluidsPanel() {
   };
 
   const totalMl = Math.round(ivFluids.totalInfused);
+  const intravascularMl = Math.round(intravascularChange(volume));
+  const bloodLossMl = Math.round(volume.bloodLoss);
+  const bolusGivenMl = Math.round(ivFluids.bolusVolume - ivFluids.bolusRemaining);
 
   return (
     <div className="bg-blue-950/30 border border-blue-800/60 rounded-lg overflow-hidden">
@@ -64,7 +69,7 @@ export default function IVFluidsPanel() {
           <span className="text-xs font-bold text-blue-300 uppercase tracking-wider">IV Fluids</span>
           {ivFluids.activeFluid && (
             <span className="text-xs text-blue-400 font-mono bg-blue-900/50 px-1.5 rounded animate-pulse">
-              {ivFluids.activeFluid} {ivFluids.isBolus ? `${ivFluids.bolusVolume}mL bolus` : `${ivFluids.rate} mL/hr`}
+              {ivFluids.activeFluid} {ivFluids.isBolus ? `${bolusGivenMl}/${ivFluids.bolusVolume}mL bolus` : `${ivFluids.rate} mL/hr`}
             </span>
           )}
         </div>
@@ -199,6 +204,24 @@ export default function IVFluidsPanel() {
               Total infused: <span className="text-blue-400 font-bold">{totalMl} mL</span>
             </div>
           )}
+
+          {/* Intravascular volume */}
+          {(intravascularMl !== 0 || bloodLossMl > 0) && (
+            <div className="text-xs text-gray-500 font-mono space-y-0.5">
+              <div>
+                Intravascular:{' '}
+                <span className={`font-bold ${intravascularMl < -300 ? 'text-red-400' : 'text-blue-400'}`}>
+                  {intravascularMl > 0 ? '+' : ''}{intravascularMl} mL
+                </span>
+              </div>
+              {bloodLossMl > 0 && (
+                <div>
+                  Blood loss: <span className="text-red-400 font-bold">{bloodLossMl} mL</span>
+                  {volume.bleeds.length > 0 && <span className="text-red-500 animate-pulse"> (active)</span>}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -2,8 +2,9 @@ import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useShallow } from 'zustand/react/shallow';
 import useSimStore from '../store/useSimStore';
-import type { AirwayDevice, InterventionType } from '../types';
+import type { AirwayDevice, InterventionType, PatientPosition } from '../types';
 import PrecordialStethoscope from './PrecordialStethoscope';
+import { STIMULUS_PROFILES } from '../engine/stimulation';
 
 interface AirwayDeviceInfo {
   key: AirwayDevice;
@@ -18,6 +19,8 @@ const AIRWAY_DEVICES: AirwayDeviceInfo[] = [
   { key: 'room_air',         label: 'Room Air',          defaultFio2: 0.21, maxFio2: 0.21, fio2Range: '21%',      notes: 'Baseline, no supplementation' },
   { key: 'nasal_cannula',    label: 'Nasal Cannula',     defaultFio2: 0.32, maxFio2: 0.44, fio2Range: '28-44%',   notes: '+4% per L/min above room air' },
   { key: 'nasal_hood',       label: 'Nasal Hood',        defaultFio2: 0.40, maxFio2: 0.50, fio2Range: '30-50%',   notes: 'Dental/oral surgery sedation' },
+  { key: 'simple_mask',      label: 'Simple Mask',       defaultFio2: 0.40, maxFio2: 0.60, fio2Range: '35-60%',   notes: '5-10 L/min; below 5 L/min rebreathes CO2' },
+  { key: 'nonrebreather',    label: 'Non-Rebreather',    defaultFio2: 0.80, maxFio2: 0.90, fio2Range: '60-90%',   notes: '10-15 L/min, reservoir bag kept inflated' },
   { key: 'oral_airway',      label: 'OPA',               defaultFio2: 0.21, maxFio2: 0.21, fio2Range: '21%',      notes: 'Airway patency only' },
   { key: 'nasal_airway',     label: 'NPA',               defaultFio2: 0.21, maxFio2: 0.21, fio2Range: '21%',      notes: 'Airway patency only' },
   { key: 'lma',              label: 'LMA',               defaultFio2: 0.60, maxFio2: 1.00, fio2Range: '60-100%',  notes: 'Supraglottic, good seal' },
@@ -30,15 +33,19 @@ const SUPPLEMENTARY: { value: InterventionType; label: string }[] = [
   { value: 'jaw_thrust', label: 'Jaw Thrust' },
   { value: 'chin_lift',  label: 'Chin Lift' },
   { value: 'bag_mask',   label: 'Bag-Mask Ventilation' },
+  { value: 'cpap',       label: 'CPAP' },
   { value: 'suction',    label: 'Suction' },
 ];
 
+const POSITIONS: PatientPosition[] = ['supine', 'semi_upright', 'lateral'];
+
 export default function InterventionPanel() {
   const { t } = useTranslation();
   const {
     interventions, fio2, airwayDevice, o2FlowRate,
     applyIntervention, removeIntervention, setFiO2, setAirwayDevice, setO2FlowRate,
-    isScenarioActive,
+    isScenarioActive, activeStimuli, stimulusResponse, applyStimulus, clearStimuli,
+    position, setPosition, airway, complicationEffects, paw,
   } = useSimStore(
     useShallow(s => ({
       interventions: s.interventions,
@@ -51,6 +58,15 @@ export default function InterventionPanel() {
       setAirwayDevice: s.setAirwayDevice,
       setO2FlowRate: s.setO2FlowRate,
       isScenarioActive: s.isScenarioActive,
+      activeStimuli: s.activeStimuli,
+      stimulusResponse: s.stimulusResponse,
+      applyStimulus: s.applyStimulus,
+      clearStimuli: s.clearStimuli,
+      position: s.position,
+      setPosition: s.setPosition,
+      airway: s.airway,
+      complicationEffects: s.complicationEffects,
+      paw: s.vitals.paw,
     }))
   );
 
@@ -119,6 +135,34 @@ export default function InterventionPanel() {
           })}
         </div>
         <div className="mt-1 text-xs text-gray-500 italic">{t(`interventions.airwayNotes.${currentDeviceInfo.key}`)}</div>
+        <div
+          data-sim-id="airway-status"
+          role="status"
+          aria-live="polite"
+          className={`mt-2 px-2 py-1 rounded text-xs border ${
+            airway.obstructionType === 'complete'
+              ? 'bg-red-900/40 text-red-300 border-red-700/50'
+              : airway.obstructionType === 'partial'
+                ? 'bg-amber-900/40 text-amber-300 border-amber-700/50'
+                : 'bg-gray-800 text-gray-400 border-gray-700'
+          }`}
+        >
+          {t(`interventions.airwayStatus.${
+            airway.stridor
+              ? 'stridor'
+              : airway.obstructionType === 'partial' && airway.paradoxical ? 'paradoxical' : airway.obstructionType
+          }`, { pct: Math.round(airway.patency * 100) })}
+        </div>
+        {complicationEffects.bronchospasm > 0.1 && (
+          <div data-sim-id="bronchospasm-status" className="mt-1 px-2 py-1 rounded text-xs border bg-amber-900/40 text-amber-300 border-amber-700/50">
+            {t('interventions.bronchospasm', { pct: Math.round(complicationEffects.bronchospasm * 100) })}
+          </div>
+        )}
+        {paw !== undefined && (
+          <div data-sim-id="airway-pressure" className="mt-1 text-xs text-gray-400 font-mono">
+            {t('interventions.paw', { paw: Math.round(paw) })}
+          </div>
+        )}
       </div>
 
       {/* Nasal Cannula Flow Rate Slider */}
@@ -209,6 +253,75 @@ export default function InterventionPanel() {
         </div>
       </div>
 
+      {/* Patient Position */}
+      <div className="mt-3 pt-3 border-t border-gray-700">
+        <div className="text-xs text-gray-400 mb-2 font-semibold uppercase tracking-wide">{t('interventions.position')}</div>
+        <div className="grid grid-cols-3 gap-1" role="radiogroup" aria-label={t('interventions.position')}>
+          {POSITIONS.map(p => (
+            <button
+              key={p}
+              data-sim-id={`position-${p}`}
+              onClick={() => setPosition(p)}
+              disabled={isScenarioActive}
+              role="radio"
+              aria-checked={position === p}
+              className={`px-2 py-1 rounded text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                position === p
+                  ? 'bg-blue-700/60 text-blue-100 border border-blue-500'
+                  : 'bg-gray-800 text-gray-400 border border-gray-700 hover:bg-gray-700 hover:text-gray-200'
+              }`}
+            >
+              {t(`interventions.positions.${p}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Procedure Stimulus */}
+      <div className="mt-3 pt-3 border-t border-gray-700">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs text-gray-400 font-semibold uppercase tracking-wide">{t('interventions.stimulus')}</span>
+          {activeStimuli.length > 0 && (
+            <button
+              onClick={clearStimuli}
+              disabled={isScenarioActive}
+              className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('interventions.stimulusClear')}
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          {Object.values(STIMULUS_PROFILES).map(({ id }) => (
+            <button
+              key={id}
+              data-sim-id={`stimulus-${id}`}
+              onClick={() => applyStimulus(id)}
+              disabled={isScenarioActive}
+              className="px-2 py-1 rounded text-xs bg-gray-800 text-gray-400 border border-gray-700 hover:bg-gray-700 hover:text-gray-200 text-left disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t(`interventions.stimulusItems.${id}`)}
+            </button>
+          ))}
+        </div>
+        {stimulusResponse.intensity.label && (
+          <div className="mt-2" aria-live="polite">
+            <div className="text-xs text-amber-300 mb-1">
+              {t('interventions.stimulusArousal', {
+                label: stimulusResponse.intensity.label,
+                pct: Math.round(stimulusResponse.arousal * 100),
+              })}
+            </div>
+            <div className="h-1.5 bg-gray-800 rounded overflow-hidden">
+              <div
+                className="h-full bg-amber-500"
+                style={{ width: `${Math.round(Math.max(stimulusResponse.intensity.noxious, stimulusResponse.intensity.verbal) * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Active interventions summary */}
       {interventions.size > 0 && (
         <div className="mt-3 pt-2 border-t border-gray-700">
@@ -3,10 +3,18 @@ import { Vitals, CardiacRhythm, EmergencyState } from '../types';
 import { isPulselessRhythm, isLethalRhythm } from '../engine/cardiacRhythm';
 import {
   evaluateECG,
+  evaluatePVC,
+  evaluatePacedBeat,
+  isEctopicBeat,
   getRRVariation,
 } from '../engine/ecgWaveformEngine';
 import useSimStore from '../store/useSimStore';
 import { audioManager } from '../utils/audio';
+import { hasSyncableR } from '../engine/electricalTherapy';
+import type { UpperAirwayState } from '../engine/upperAirway';
+import type { ComplicationEffects } from '../engine/airwayComplications';
+import type { NeuromuscularState } from '../engine/neuromuscular';
+import type { ElectricalState } from '../engine/electricalTherapy';
 
 interface MonitorPanelProps {
   vitals: Vitals;
@@ -23,6 +31,7 @@ const COLORS = {
   bp: '#ff4444',
   rr: '#ffcc00',
   etco2: '#ffcc00',
+  tof: '#cc88ff',
   background: '#0a0a12',
   gridLine: 'rgba(255,255,255,0.04)',
   scaleText: 'rgba(255,255,255,0.35)',
@@ -71,15 +80,35 @@ function plethWaveform(phase: number): number {
   return 0;
 }
 
-function capnoWaveform(phase: number, etco2Height: number): number {
+/**
+ * Partial upper airway obstruction slows the expiratory upstroke and slopes
+ * the plateau; bronchospasm (0-1) gives the shark-fin shape of slow,
+ * uneven emptying with no alveolar plateau.
+ */
+function capnoWaveform(phase: number, etco2Height: number, partialObstruction = false, bronchospasm = 0): number {
+  if (bronchospasm > 0.1) {
+    if (phase < 0.10) return 0;
+    if (phase < 0.65) {
+      const k = 2 + 4 * (1 - bronchospasm);
+      const t = (phase - 0.10) / 0.55;
+      return -etco2Height * (1 - Math.exp(-k * t)) / (1 - Math.exp(-k));
+    }
+    if (phase < 0.72) {
+      const t = (phase - 0.65) / 0.07;
+      return -etco2Height * (1 - t * t * (3 - 2 * t));
+    }
+    return 0;
+  }
+  const upstrokeEnd = partialObstruction ? 0.35 : 0.20;
+  const plateauStart = partialObstruction ? 0.8 * etco2Height : etco2Height;
   if (phase < 0.10) return 0;
-  if (phase < 0.20) {
-    const t = (phase - 0.10) / 0.10;
-    return -etco2Height * t * t * (3 - 2 * t);
+  if (phase < upstrokeEnd) {
+    const t = (phase - 0.10) / (upstrokeEnd - 0.10);
+    return -plateauStart * t * t * (3 - 2 * t);
   }
   if (phase < 0.60) {
-    const t = (phase - 0.20) / 0.40;
-    return -etco2Height - 3 * t;
+    const t = (phase - upstrokeEnd) / (0.60 - upstrokeEnd);
+    return -(plateauStart + (etco2Height - plateauStart) * t) - 3 * t;
   }
   if (phase < 0.70) {
     const t = (phase - 0.60) / 0.10;
@@ -238,6 +267,28 @@ function drawSweepStep(
   eraseZone(ctx, nextX + 1, marginLeft);
 }
 
+/** Vertical stroke at x (pacer spike) or a small triangle above the R wave (sync marker) */
+function drawECGMarker(ctx: CanvasRenderingContext2D, kind: 'spike' | 'sync', x: number, h: number): void {
+  ctx.save();
+  if (kind === 'spike') {
+    ctx.strokeStyle = PACER_SPIKE_COLOR;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(x, h * 0.5);
+    ctx.lineTo(x, h * 0.08);
+    ctx.stroke();
+  } else {
+    ctx.fillStyle = SYNC_MARKER_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(x - 3, 2);
+    ctx.lineTo(x + 3, 2);
+    ctx.lineTo(x, 7);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+}
+
 // Sweep speed: pixels advanced per animation frame (~60 fps → 120 px/s ≈ 25 mm/s at default scale)
 const SWEEP_PX_PER_SEC = 120;
 
@@ -247,6 +298,10 @@ const PLETH_DELAY_PX = 24;
 // Beats visible across the full canvas width at any one time
 const BEATS_PER_SCREEN = 8;
 
+// Sync marker and pacer spike colours
+const SYNC_MARKER_COLOR = '#ffffff';
+const PACER_SPIKE_COLOR = '#ff66cc';
+
 // Independent atrial rate used for Complete Heart Block P-wave generator (bpm)
 const CHB_ATRIAL_RATE_BPM = 75;
 
@@ -349,7 +404,10 @@ interface ScaleToast {
 const MonitorPanel = memo(function MonitorPanel({ vitals, history: _history }: MonitorPanelProps) {
   const isRunning = useSimStore((s: { isRunning: boolean }) => s.isRunning);
   const emergencyState = useSimStore((s: { emergencyState: EmergencyState }) => s.emergencyState);
-  const moass = useSimStore((s: { moass: number }) => s.moass);
+  const airway = useSimStore((s: { airway: UpperAirwayState }) => s.airway);
+  const bronchospasm = useSimStore((s: { complicationEffects: ComplicationEffects }) => s.complicationEffects.bronchospasm);
+  const neuromuscular = useSimStore((s: { neuromuscular: NeuromuscularState }) => s.neuromuscular);
+  const synchronized = useSimStore((s: { electrical: ElectricalState }) => s.electrical.synchronized);
   const ecgCanvasRef = useRef<HTMLCanvasElement>(null);
   const plethCanvasRef = useRef<HTMLCanvasElement>(null);
   const capnoCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -357,6 +415,7 @@ const MonitorPanel = memo(function MonitorPanel({ vitals, history: _history }: M
   const animRef = useRef(0);
   const cycleIndexRef = useRef(0);
   const prevPhaseRef = useRef(0);
+  const prevPacerPhaseRef = useRef(0);
   const vfibOffsetRef = useRef(0);
     const lastTimeRef = useRef(0);
 
@@ -455,15 +514,13 @@ vfibOffsetRef.current += 0.012    }
   // Audio: SpO2 pulse tone — update frequency/rate on every vitals change while running
   useEffect(() => {
     if (isRunning) {
-      audioManager.updateSpO2Tone(vitals.spo2, vitals.hr);
-      // Airway patency: MOASS 0-1 = severely compromised (0.0-0.3),
-      //                 MOASS 2   = moderate obstruction (0.5),
-      //                 MOASS 3+  = patent (1.0)
-      const airwayPatency = moass <= 1 ? moass * 0.15 : moass <= 2 ? 0.5 : 1.0;
-      audioManager.updateBreathSounds(vitals.rr, moass, airwayPatency);
+      audioManager.updateSpO2Tone(vitals.spo2, vitals.pulseRate ?? vitals.hr);
+      // Breath sounds follow the airway models: snoring, stridor, wheeze; silent when complete
+      audioManager.updateBreathSounds(vitals.rr, airway.patency, airway.obstructionType, airway.stridor, bronchospasm);
       audioManager.updateHeartSounds(vitals.hr, vitals.sbp);
     }
-  }, [vitals.spo2, vitals.hr, vitals.rr, vitals.sbp, moass, isRunning]);
+  }, [vitals.spo2, vitals.hr, vitals.pulseRate, vitals.rr, vitals.sbp, airway.patency, airway.obstructionType, airway.stridor,
+      bronchospasm, isRunning]);
 
   // Audio: alarm tones — driven by canonical emergencyState from store (single source of truth)
   useEffect(() => {
@@ -506,14 +563,17 @@ vfibOffsetRef.current += 0.012    }
   // Animation loop for sweep waveforms
   const drawAll = useCallback(() => {
     const hr = vitals.hr || 75;
-    const rr = vitals.rr || 14;
-    const etco2 = vitals.etco2 || 38;
+    const rr = vitals.rr ?? 14;
+    const etco2 = vitals.etco2 ?? 38;
     const currentRhythm = vitals.rhythm ?? 'normal_sinus';
         const now = performance.now();
     const dt = lastTimeRef.current === 0 ? 1 / 60 : Math.min((now - lastTimeRef.current) / 1000, 0.05);
     lastTimeRef.current = now;
     const SWEEP_SPEED = dt * SWEEP_PX_PER_SEC;
     const pulseless = isPulselessRhythm(currentRhythm);
+    // Paced: the monitor counts spikes; complexes and pulses come from what captures
+    const pacing = vitals.pacing;
+    const pulseRate = vitals.pulseRate ?? hr;
 
         vfibOffsetRef.current += dt * 0.72;
 const vfibOffset = vfibOffsetRef.current;
@@ -536,14 +596,17 @@ const vfibOffset = vfibOffsetRef.current;
         }
 
         const drawWidth = w - ML;
-        const baseCycleLen = (60 / hr) * (drawWidth / BEATS_PER_SCREEN);
+        // Without capture the intrinsic rhythm runs on under the spikes
+        const beatRate = pacing && !pacing.captured ? pulseRate || 75 : hr;
+        const baseCycleLen = (60 / beatRate) * (drawWidth / BEATS_PER_SCREEN);
         const cycleLen = getRRVariation(currentRhythm, baseCycleLen);
 
         const prevSweep = sweepRef.current;
         const nextSweep = prevSweep + SWEEP_SPEED;
 
-        // Phase within current beat cycle
+        // Phase within current beat cycle; the R wave peaks at 0.5
         const phase = ((nextSweep % cycleLen) + cycleLen) % cycleLen / cycleLen;
+        const rWave = prevPhaseRef.current < 0.5 && phase >= 0.5;
         if (phase < prevPhaseRef.current) cycleIndexRef.current += 1;
         prevPhaseRef.current = phase;
 
@@ -553,11 +616,23 @@ const vfibOffset = vfibOffsetRef.current;
           ? ((nextSweep / pixelsPerBeat) * (CHB_ATRIAL_RATE_BPM / 60) % 1 + 1) % 1
           : 0;
 
-        const amplitude = evaluateECG(
-          currentRhythm, phase, hr,
-          cycleIndexRef.current, vfibOffset,
-          pPhase,
-        );
+        // Pacer phase runs at the set rate, independent of the heart
+        const pacerPhase = pacing
+          ? ((nextSweep / pixelsPerBeat) * (pacing.rate / 60) % 1 + 1) % 1
+          : 0;
+        const pacerFired = pacing !== undefined && pacerPhase < prevPacerPhaseRef.current;
+        prevPacerPhaseRef.current = pacerPhase;
+
+        // Ischemic PVCs replace whole beats; conducted beats carry the ST deviation
+        const amplitude = pacing?.captured
+          ? evaluatePacedBeat(pacerPhase)
+          : isEctopicBeat(cycleIndexRef.current, vitals.pvcFraction ?? 0)
+          ? evaluatePVC(phase)
+          : evaluateECG(
+            currentRhythm, phase, beatRate,
+            cycleIndexRef.current, vfibOffset,
+            pPhase, vitals.qtcBazett, vitals.stDeviation,
+          );
 
         // Scale: R-peak (1.0) → 30 px upward from baseline
         const ECG_SCALE = h * 0.38;
@@ -567,6 +642,11 @@ const vfibOffset = vfibOffsetRef.current;
         const nextX = ML + (nextSweep % drawWidth);
         drawSweepStep(ecgCanvas, COLORS.ecg, prevX, nextX, ecgPrevYRef.current, newY, ML);
         ecgPrevYRef.current = newY;
+
+        if (pacerFired) drawECGMarker(ctx, 'spike', nextX, h);
+        if (synchronized && rWave && !pacing?.captured && hasSyncableR(currentRhythm)) {
+          drawECGMarker(ctx, 'sync', nextX, h);
+        }
       }
     }
 
@@ -601,10 +681,10 @@ const vfibOffset = vfibOffsetRef.current;
           const nextSweep = prevSweep + SWEEP_SPEED;
 
           let newY: number;
-          if (pulseless) {
+          if (pulseless || pulseRate === 0) {
             newY = h / 2; // flatline
           } else {
-            const cycleLen = (60 / hr) * (drawWidth / BEATS_PER_SCREEN);
+            const cycleLen = (60 / pulseRate) * (drawWidth / BEATS_PER_SCREEN);
             // Pleth delayed by ~200 ms (PLETH_DELAY_PX) relative to ECG
             const plethSweep = nextSweep - PLETH_DELAY_PX;
             const phase = ((plethSweep % cycleLen) + cycleLen) % cycleLen / cycleLen;
@@ -656,7 +736,7 @@ const vfibOffset = vfibOffsetRef.current;
             const cycleLen = (60 / rr) * (drawWidth / BEATS_PER_SCREEN);
             const phase = ((nextSweep % cycleLen) + cycleLen) % cycleLen / cycleLen;
             const etco2H = (etco2 / 60) * (h - 10);
-            const cVal = capnoWaveform(phase, etco2H);
+            const cVal = capnoWaveform(phase, etco2H, airway.obstructionType === 'partial', bronchospasm);
             newY = h - 5 + cVal;
           }
 
@@ -671,7 +751,8 @@ const vfibOffset = vfibOffsetRef.current;
     sweepRef.current += SWEEP_SPEED;
     // eslint-disable-next-line react-hooks/immutability
     animRef.current = requestAnimationFrame(drawAll);
-  }, [vitals.hr, vitals.rr, vitals.etco2, vitals.rhythm, vitals.sbp, vitals.dbp,
+  }, [vitals.hr, vitals.rr, vitals.etco2, vitals.rhythm, vitals.qtcBazett, vitals.stDeviation, vitals.pvcFraction, vitals.sbp, vitals.dbp,
+      vitals.pulseRate, vitals.pacing, synchronized, airway.obstructionType, bronchospasm,
       showPleth, showCapno, hrScale, spo2Scale, etco2Scale]);
 
   useEffect(() => {
@@ -751,6 +832,35 @@ const vfibOffset = vfibOffsetRef.current;
               </span>
             ) : null;
           })()}
+          {/* Pacer badge: set rate and output */}
+          {vitals.pacing && (
+            <span style={{
+              position: 'absolute', top: 18, right: 8,
+              color: PACER_SPIKE_COLOR, fontSize: 9, fontWeight: 700, fontFamily: 'monospace', zIndex: 2,
+            }}>
+              PACING {vitals.pacing.rate} ppm {vitals.pacing.current} mA
+            </span>
+          )}
+          {/* QTc readout (Fridericia); amber above 470 ms, red above 500 ms */}
+          {vitals.qtcFridericia !== undefined && (
+            <span style={{
+              position: 'absolute', bottom: 2, left: 30,
+              color: vitals.qtcFridericia > 500 ? '#ff2222' : vitals.qtcFridericia > 470 ? '#ffaa00' : '#4b5563',
+              fontSize: 9, fontFamily: 'monospace', zIndex: 1,
+            }}>
+              QTc {Math.round(vitals.qtcFridericia)}
+            </span>
+          )}
+          {/* ST analysis, lead II (mm at 10 mm/mV); amber from 1 mm, red from 2 mm */}
+          {vitals.stDeviation !== undefined && (
+            <span style={{
+              position: 'absolute', bottom: 2, left: 84,
+              color: Math.abs(vitals.stDeviation) >= 0.2 ? '#ff2222' : Math.abs(vitals.stDeviation) >= 0.1 ? '#ffaa00' : '#4b5563',
+              fontSize: 9, fontFamily: 'monospace', zIndex: 1,
+            }}>
+              ST II {vitals.stDeviation >= 0 ? '+' : '−'}{Math.abs(vitals.stDeviation * 10).toFixed(1)}
+            </span>
+          )}
           <canvas
             ref={ecgCanvasRef}
             width={500}
@@ -782,7 +892,7 @@ const vfibOffset = vfibOffsetRef.current;
           data-region="spo2"
           data-sim-id="spo2"
           role="status"
-          aria-label={`SpO2: ${spo2Val} percent${spo2Val < 90 ? ' — ALARM' : ''}`}
+          aria-label={`SpO2: ${spo2Val} percent${vitals.pulseRate !== undefined ? `, pulse rate ${Math.round(vitals.pulseRate)}` : ''}${spo2Val < 90 ? ' — ALARM' : ''}`}
           aria-live={spo2Val < 90 ? 'assertive' : 'polite'}
           aria-atomic="true"
           style={{ width: 100, padding: '4px 8px', display: 'flex', flexDirection: 'column', justifyContent: 'center', borderLeft: '1px solid #1a1a2e' }}
@@ -791,6 +901,12 @@ const vfibOffset = vfibOffsetRef.current;
           <div style={{ fontSize: 32, fontWeight: 700, color: getSpO2Color(spo2Val), fontFamily: 'monospace', lineHeight: 1, opacity: isAlarmActive && alarmFlash && spo2Val < 90 ? 0.3 : 1 }} aria-hidden="true">
             {spo2Val}
           </div>
+          {/* Pleth pulse rate, shown while pacer spikes set the HR */}
+          {vitals.pulseRate !== undefined && (
+            <div style={{ fontSize: 10, color: getSpO2Color(spo2Val), fontFamily: 'monospace', opacity: 0.8 }} aria-hidden="true">
+              PR {Math.round(vitals.pulseRate)}
+            </div>
+          )}
         </div>
       </div>
 
@@ -893,6 +1009,48 @@ const vfibOffset = vfibOffsetRef.current;
         )}
       </div>
 
+      {/* === ROW 4: TOF (shown while a relaxant is acting) === */}
+      {(neuromuscular.tofCount < 4 || (neuromuscular.tofRatio ?? 0) < 0.95) && (
+        <div
+          className="flex"
+          data-region="tof"
+          role="status"
+          aria-label={`Train of four: count ${neuromuscular.tofCount}${neuromuscular.tofRatio !== null ? `, ratio ${Math.round(neuromuscular.tofRatio * 100)} percent` : ''}`}
+          aria-live="polite"
+          aria-atomic="true"
+          style={{ borderTop: '1px solid #1a1a2e' }}
+        >
+          <div className="flex-1 flex items-end gap-2" style={{ height: 44, padding: '4px 8px 4px 30px' }} aria-hidden="true">
+            {neuromuscular.twitches.map((h, i) => (
+              <div
+                key={i}
+                style={{
+                  width: 14,
+                  height: `${Math.max(2, h * 100)}%`,
+                  background: COLORS.tof,
+                  opacity: h >= 0.1 ? 0.9 : 0.2,
+                }}
+              />
+            ))}
+            <span style={{ color: COLORS.tof, fontSize: 10, opacity: 0.7, marginLeft: 4 }}>
+              {neuromuscular.depolarizing ? 'depolarizing' : ''}
+            </span>
+          </div>
+          <div
+            style={{ width: 200, padding: '4px 8px', display: 'flex', flexDirection: 'column', justifyContent: 'center', borderLeft: '1px solid #1a1a2e' }}
+            aria-hidden="true"
+          >
+            <div style={{ fontSize: 10, color: COLORS.tof, fontWeight: 700, opacity: 0.8 }}>TOF <span style={{ float: 'right', fontWeight: 400 }}>count / ratio</span></div>
+            <div style={{ fontSize: 28, fontWeight: 700, color: COLORS.tof, fontFamily: 'monospace', lineHeight: 1 }}>
+              {neuromuscular.tofCount}
+              <span style={{ fontSize: 18, opacity: 0.8 }}>
+                {' / '}{neuromuscular.tofRatio !== null ? `${Math.round(neuromuscular.tofRatio * 100)}%` : '--'}
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+
     </div>
   );
 });
@@ -1,17 +1,21 @@
 import { useEffect, useRef, useState } from 'react';
-import type { Vitals, Patient, AirwayDevice } from '../types';
+import type { Vitals, Patient, AirwayDevice, PatientPosition } from '../types';
+import { safeApneaTime } from '../engine/oxygenation';
 
 interface Props {
   vitals: Vitals;
   fio2: number;
   patient: Patient;
   airwayDevice: AirwayDevice;
+  position: PatientPosition;
 }
 
 const AIRWAY_LABELS: Record<AirwayDevice, string> = {
   room_air: 'Room Air',
   nasal_cannula: 'Nasal Cannula',
   nasal_hood: 'Nasal Hood',
+  simple_mask: 'Simple Mask',
+  nonrebreather: 'Non-Rebreather',
   oral_airway: 'OPA',
   nasal_airway: 'NPA',
   lma: 'LMA',
@@ -39,17 +43,16 @@ function adjustedP50(pH: number, tempC: number, paco2: number): number {
   return Math.max(10, p50);
 }
 
-export default function OxyHbCurve({ vitals, fio2, patient, airwayDevice }: Props) {
+export default function OxyHbCurve({ vitals, fio2, patient, airwayDevice, position }: Props) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [canvasWidth, setCanvasWidth] = useState(600);
 
-  // Estimate PaO2 from alveolar gas equation
-  const etco2 = vitals.etco2 ?? 38;
-  const estimatedPaCO2 = etco2 + 5;
+  // PaO2 from the lung O2 store; alveolar gas equation until the first tick
+  const estimatedPaCO2 = vitals.paco2 ?? (vitals.etco2 ?? 38) + 5;
   // Alveolar gas equation: PAO2 = FiO2 * (Patm - PH2O) - PaCO2/RQ
   // 760 mmHg = atmospheric pressure, 47 mmHg = water vapor at 37°C, 0.8 = respiratory quotient
-  const estimatedPaO2 = Math.max(0, fio2 * (760 - 47) - estimatedPaCO2 / 0.8);
+  const estimatedPaO2 = vitals.pao2 ?? Math.max(0, fio2 * (760 - 47) - estimatedPaCO2 / 0.8);
 
   // Room air baseline PaO2 (always computed for comparison)
   const roomAirPaO2 = Math.max(0, 0.21 * (760 - 47) - estimatedPaCO2 / 0.8);
@@ -64,9 +67,10 @@ export default function OxyHbCurve({ vitals, fio2, patient, airwayDevice }: Prop
 
   // Pre-oxygenation / apnea reserve
   const isAdvancedAirway = ['lma', 'ett', 'cricothyroidotomy', 'tracheostomy'].includes(airwayDevice);
-  const frcMl = 30 * patient.weight; // FRC ~30 mL/kg
-  const vo2MlPerS = (3.5 * patient.weight) / 60; // VO2 ~3.5 mL/kg/min converted to mL/s
-  const safeApneaSeconds = (frcMl * fio2) / vo2MlPerS;
+  // Time to SpO2 90% if ventilation stopped now with the mask off
+  const safeApneaSeconds = safeApneaTime(
+    patient, position, vitals.pAO2 ?? estimatedPaO2, estimatedPaCO2
+  ) ?? 1200;
 
   // Track container width for responsive canvas
   useEffect(() => {
@@ -1,11 +1,17 @@
+import { Fragment, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useShallow } from 'zustand/react/shallow';
 import useSimStore from '../store/useSimStore';
 import { PATIENT_ARCHETYPES } from '../engine/physiology';
+import { DRUG_DATABASE } from '../engine/drugs';
+import type { PKPDEtas } from '../engine/populationVariability';
 
 export default function PatientSelector() {
   const { t } = useTranslation();
-  const { patient, availableArchetypes, selectPatient, isRunning, selectedArchetypeKey, trueNorth } = useSimStore(
+  const {
+    patient, availableArchetypes, selectPatient, isRunning, selectedArchetypeKey, trueNorth,
+    variability, sampleVirtualPatient, clearVirtualPatient, setVariabilityHidden,
+  } = useSimStore(
     useShallow(s => ({
       patient: s.patient,
       availableArchetypes: s.availableArchetypes,
@@ -13,8 +19,20 @@ export default function PatientSelector() {
       isRunning: s.isRunning,
       selectedArchetypeKey: s.selectedArchetypeKey,
       trueNorth: s.trueNorth,
+      variability: s.variability,
+      sampleVirtualPatient: s.sampleVirtualPatient,
+      clearVirtualPatient: s.clearVirtualPatient,
+      setVariabilityHidden: s.setVariabilityHidden,
     }))
   );
+  const [seedInput, setSeedInput] = useState('');
+  const [hideParameters, setHideParameters] = useState(variability?.hidden ?? false);
+  const locked = isRunning || trueNorth.isLocked;
+
+  const toggleHidden = (hidden: boolean) => {
+    setHideParameters(hidden);
+    setVariabilityHidden(hidden);
+  };
 
   return (
     <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3">
@@ -91,15 +109,116 @@ export default function PatientSelector() {
             </>
           )}
 
+          {patient.coronaryDisease && (
+            <>
+              <div className="text-gray-400">{t('patientSelector.coronaryDisease')}</div>
+              <div className="text-yellow-400">
+                {patient.culpritTerritory ? t(`patientSelector.territories.${patient.culpritTerritory}`) : t('common.yes')}
+              </div>
+            </>
+          )}
+
+          {patient.qtcBaseline !== undefined && (
+            <>
+              <div className="text-gray-400">{t('patientSelector.qtcBaseline')}</div>
+              <div className={patient.qtcBaseline > 460 ? 'text-yellow-400' : 'text-gray-100'}>
+                {t('patientSelector.ms', { value: patient.qtcBaseline })}
+              </div>
+            </>
+          )}
+
+          {ELECTROLYTES.filter(({ key }) => patient[key] !== undefined).map(({ key, low }) => (
+            <Fragment key={key}>
+              <div className="text-gray-400">{t(`patientSelector.${key}`)}</div>
+              <div className={patient[key]! < low ? 'text-yellow-400' : 'text-gray-100'}>
+                {t('patientSelector.mmolL', { value: patient[key] })}
+              </div>
+            </Fragment>
+          ))}
+
           <div className="text-gray-400">{t('patientSelector.sensitivity')}</div>
           <div className="text-gray-100">{patient.drugSensitivity}x</div>
         </div>
+
+        <div className="border-t border-gray-700 pt-2 space-y-1 text-xs">
+          <div className="flex justify-between">
+            <span className="text-gray-400">{t('patientSelector.virtualPatient')}</span>
+            <span className="text-gray-100">
+              {!variability
+                ? t('patientSelector.typical')
+                : variability.hidden ? t('patientSelector.parametersHidden') : `#${variability.seed}`}
+            </span>
+          </div>
+          <div className="flex gap-1">
+            <label htmlFor="virtual-patient-seed" className="sr-only">{t('patientSelector.seed')}</label>
+            <input
+              id="virtual-patient-seed"
+              type="number"
+              min={0}
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              placeholder={t('patientSelector.seed')}
+              disabled={locked}
+              className="w-24 px-1 py-0.5 bg-gray-800 text-gray-100 rounded border border-gray-600 disabled:opacity-50"
+            />
+            <button
+              onClick={() => sampleVirtualPatient(seedInput === '' ? undefined : Number(seedInput), hideParameters)}
+              disabled={locked}
+              className="flex-1 px-2 py-0.5 bg-cyan-800 hover:bg-cyan-700 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('patientSelector.sample')}
+            </button>
+            <button
+              onClick={clearVirtualPatient}
+              disabled={locked || !variability}
+              className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('patientSelector.resetTypical')}
+            </button>
+          </div>
+          <label className="flex items-center gap-1 text-gray-400">
+            <input
+              type="checkbox"
+              checked={hideParameters}
+              onChange={(e) => toggleHidden(e.target.checked)}
+            />
+            {t('patientSelector.hideParameters')}
+          </label>
+          {variability && !variability.hidden && (
+            <div className="space-y-0.5">
+              <div className="text-gray-500">{t('patientSelector.variabilityHeader')}</div>
+              {Object.entries(variability.etas).map(([key, etas]) => (
+                <div key={key} className="flex justify-between font-mono">
+                  <span className="text-gray-400">{DRUG_DATABASE[key]?.name ?? key}</span>
+                  <span className="text-gray-100">{formatEtas(etas)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
 }
 
-const ABBREVIATIONS: Record<string, string> = { hcm: 'HCM', dcm: 'DCM', osa: 'OSA' };
+const ABBREVIATIONS: Record<string, string> = { hcm: 'HCM', dcm: 'DCM', osa: 'OSA', qt: 'QT', mi: 'MI' };
+
+/** Electrolytes shown when the patient records them, flagged below the normal range */
+const ELECTROLYTES: { key: 'potassium' | 'magnesium' | 'ionizedCalcium'; low: number }[] = [
+  { key: 'potassium', low: 3.5 },
+  { key: 'magnesium', low: 0.7 },
+  { key: 'ionizedCalcium', low: 1.1 },
+];
+
+/** Percent deviation of each parameter from the typical value */
+function formatEtas(etas: PKPDEtas): string {
+  return [etas.CL, etas.V, etas.ke0, etas.EC50]
+    .map(eta => {
+      const pct = Math.round((Math.exp(eta) - 1) * 100);
+      return `${pct >= 0 ? '+' : ''}${pct}%`;
+    })
+    .join(' / ');
+}
 
 function formatArchetypeName(key: string): string {
   return key
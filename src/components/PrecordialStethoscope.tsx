@@ -2,6 +2,7 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import useSimStore from '../store/useSimStore';
 import { audioManager } from '../utils/audio';
 import type { CardiacRhythm } from '../types';
+import type { UpperAirwayState } from '../engine/upperAirway';
 
 // ─── Breath sound descriptor logic ────────────────────────────────────────────
 
@@ -13,13 +14,19 @@ interface BreathSoundInfo {
 
 function getBreathSoundType(
   rr: number,
-  moass: number,
-  airwayPatency: number,
+  airway: UpperAirwayState,
+  bronchospasm: number,
 ): BreathSoundInfo {
   if (rr <= 0) return { label: 'Silent — apnea', color: 'text-red-400', pulse: true };
-  if (airwayPatency < 0.3) return { label: 'Stridor — laryngospasm', color: 'text-red-400', pulse: true };
-  if (airwayPatency < 0.6 && moass <= 2) return { label: 'Wheeze — bronchospasm', color: 'text-amber-400', pulse: false };
-  if (moass <= 3 && airwayPatency < 0.8) return { label: 'Snoring — partial obstruction', color: 'text-amber-400', pulse: false };
+  if (airway.obstructionType === 'complete') return { label: 'Absent — complete obstruction, effort continues', color: 'text-red-400', pulse: true };
+  if (bronchospasm > 0.85) return { label: 'Silent chest — severe bronchospasm', color: 'text-red-400', pulse: true };
+  if (airway.stridor) return { label: 'Stridor — laryngospasm', color: 'text-red-400', pulse: true };
+  if (bronchospasm > 0.1) return { label: 'Wheeze — prolonged expiration', color: 'text-amber-400', pulse: bronchospasm > 0.5 };
+  if (airway.obstructionType === 'partial') {
+    return airway.paradoxical
+      ? { label: 'Snoring — paradoxical breathing', color: 'text-amber-400', pulse: true }
+      : { label: 'Snoring — partial obstruction', color: 'text-amber-400', pulse: false };
+  }
   return { label: 'Vesicular — normal', color: 'text-green-400', pulse: false };
 }
 
@@ -65,7 +72,8 @@ function computeTrendArrow(history: number[]): TrendDirection {
 
 export default function PrecordialStethoscope() {
   const vitals = useSimStore(s => s.vitals);
-  const moass = useSimStore(s => s.moass);
+  const airway = useSimStore(s => s.airway);
+  const bronchospasm = useSimStore(s => s.complicationEffects.bronchospasm);
   const isRunning = useSimStore(s => s.isRunning);
   const elapsedSeconds = useSimStore(s => s.elapsedSeconds);
 
@@ -82,8 +90,6 @@ export default function PrecordialStethoscope() {
   const tcco2HistoryRef = useRef<number[]>([]);
   const [trendArrow, setTrendArrow] = useState<TrendDirection>('→');
 
-  // Compute airway patency (same as MonitorPanel.tsx line 462)
-  const airwayPatency = moass <= 1 ? moass * 0.15 : moass <= 2 ? 0.5 : 1.0;
 
   // Warm-up progress (120 simulation seconds)
   const WARMUP_DURATION = 120;
@@ -95,8 +101,8 @@ export default function PrecordialStethoscope() {
     ? Math.min(100, (warmupElapsed / WARMUP_DURATION) * 100)
     : 0;
 
-  // TcCO2 value: EtCO2 + 5 (PaCO2) + offset + drift
-  const tcco2Value = vitals.etco2 + 5 + tcco2Offset + tcco2OffsetDrift;
+  // TcCO2 value: PaCO2 + offset + drift (tracks PaCO2 even when the capnogram is flat)
+  const tcco2Value = (vitals.paco2 ?? vitals.etco2 + 5) + tcco2Offset + tcco2OffsetDrift;
 
   // Alarm thresholds
   const tcco2Alarm: 'none' | 'warning' | 'critical' =
@@ -175,7 +181,7 @@ export default function PrecordialStethoscope() {
   }, []);
 
   // Breath / heart sound descriptors
-  const breathInfo = getBreathSoundType(vitals.rr, moass, airwayPatency);
+  const breathInfo = getBreathSoundType(vitals.rr, airway, bronchospasm);
   const heartInfo = getHeartSoundDescriptor(vitals.hr, vitals.sbp, vitals.rhythm);
 
   return (
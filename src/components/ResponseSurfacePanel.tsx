@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { useShallow } from 'zustand/react/shallow';
+import useSimStore from '../store/useSimStore';
+import { DRUG_DATABASE } from '../engine/drugs';
+import {
+  RESPONSE_SURFACE_REGISTRY,
+  RESPONSE_ENDPOINTS,
+  ResponseEndpoint,
+  getInteractionModel,
+  isobologram,
+} from '../engine/responseSurface';
+
+const ENDPOINT_LABELS: Record<ResponseEndpoint, string> = {
+  verbal: 'Verbal',
+  noxious: 'Noxious',
+  respiratory: 'Resp. depression',
+};
+
+const LEVEL_COLORS: Record<number, string> = {
+  0.5: '#38bdf8',
+  0.95: '#f472b6',
+};
+
+const CONCENTRATION_UNITS: Record<string, string> = {
+  propofol: 'mcg/mL',
+  midazolam: 'mcg/mL',
+  ketamine: 'mcg/mL',
+  fentanyl: 'ng/mL',
+  remifentanil: 'ng/mL',
+};
+
+/**
+ * Isobologram panel: 50% and 95% isoboles for the selected drug pair and
+ * endpoint, the line of additivity, and the patient's current Ce pair.
+ */
+export default function ResponseSurfacePanel() {
+  const { pkStates, interactionModels, setInteractionModel, endpointEffects } = useSimStore(
+    useShallow(s => ({
+      pkStates: s.pkStates,
+      interactionModels: s.interactionModels,
+      setInteractionModel: s.setInteractionModel,
+      endpointEffects: s.endpointEffects,
+    }))
+  );
+  const pairs = Object.keys(RESPONSE_SURFACE_REGISTRY);
+  const [pair, setPair] = useState(pairs[0]);
+  const [endpoint, setEndpoint] = useState<ResponseEndpoint>('verbal');
+
+  const model = getInteractionModel(pair, interactionModels[pair])!;
+  const curves = useMemo(() => isobologram(model, endpoint), [model, endpoint]);
+
+  // Additivity: straight line between the single-drug 50% concentrations
+  const additivity = useMemo(() => {
+    const iso50 = curves[0.5] ?? [];
+    if (iso50.length < 2) return [];
+    const first = iso50[0];
+    const last = iso50[iso50.length - 1];
+    return last.ceA === 0 ? [first, last] : [];
+  }, [curves]);
+
+  const current = [{
+    ceA: pkStates[model.drugA]?.ce ?? 0,
+    ceB: pkStates[model.drugB]?.ce ?? 0,
+  }];
+  const nameA = DRUG_DATABASE[model.drugA]?.name ?? model.drugA;
+  const nameB = DRUG_DATABASE[model.drugB]?.name ?? model.drugB;
+
+  return (
+    <div className="p-2 space-y-2 text-xs">
+      <div className="flex gap-1">
+        <select
+          value={pair}
+          onChange={(e) => setPair(e.target.value)}
+          aria-label="Drug pair"
+          className="flex-1 px-1.5 py-1 bg-gray-800 rounded border border-gray-700"
+        >
+          {pairs.map(p => {
+            const m = RESPONSE_SURFACE_REGISTRY[p][0];
+            return (
+              <option key={p} value={p}>
+                {DRUG_DATABASE[m.drugA]?.name}–{DRUG_DATABASE[m.drugB]?.name}
+              </option>
+            );
+          })}
+        </select>
+        <select
+          value={model.id}
+          onChange={(e) => setInteractionModel(pair, e.target.value)}
+          aria-label="Interaction model"
+          title={model.citation}
+          className="flex-1 px-1.5 py-1 bg-gray-800 rounded border border-gray-700"
+        >
+          {RESPONSE_SURFACE_REGISTRY[pair].map(m => (
+            <option key={m.id} value={m.id}>{m.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex gap-1" role="tablist" aria-label="Endpoint">
+        {RESPONSE_ENDPOINTS.map(ep => (
+          <button
+            key={ep}
+            role="tab"
+            aria-selected={endpoint === ep}
+            onClick={() => setEndpoint(ep)}
+            className={`flex-1 px-1 py-1 rounded border ${endpoint === ep ? 'bg-sky-900/60 border-sky-600 text-sky-200' : 'bg-gray-800 border-gray-700 text-gray-400'}`}
+          >
+            {ENDPOINT_LABELS[ep]}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ height: 220 }}>
+        <ResponsiveContainer width="100%" height={216}>
+          <ScatterChart margin={{ top: 4, right: 8, left: -10, bottom: 12 }}>
+            <CartesianGrid strokeDasharray="2 4" stroke="#1f2937" />
+            <XAxis
+              type="number"
+              dataKey="ceB"
+              stroke="#4b5563"
+              tick={{ fontSize: 8 }}
+              label={{ value: `${nameB} Ce (${CONCENTRATION_UNITS[model.drugB] ?? ''})`, position: 'insideBottom', offset: -6, fontSize: 9, fill: '#9ca3af' }}
+            />
+            <YAxis
+              type="number"
+              dataKey="ceA"
+              stroke="#4b5563"
+              tick={{ fontSize: 8 }}
+              label={{ value: `${nameA} Ce`, angle: -90, position: 'insideLeft', offset: 18, fontSize: 9, fill: '#9ca3af' }}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #374151', fontSize: 10 }}
+              formatter={(value: number) => value.toFixed(2)}
+            />
+            <Legend wrapperStyle={{ fontSize: 9 }} />
+            {Object.entries(curves).map(([level, points]) => (
+              <Scatter
+                key={level}
+                name={`${Math.round(Number(level) * 100)}% isobole`}
+                data={points}
+                line={{ stroke: LEVEL_COLORS[Number(level)] ?? '#888', strokeWidth: 1.5 }}
+                fill={LEVEL_COLORS[Number(level)] ?? '#888'}
+                shape={() => <g />}
+                isAnimationActive={false}
+              />
+            ))}
+            {additivity.length > 0 && (
+              <Scatter
+                name="Additivity"
+                data={additivity}
+                line={{ stroke: '#6b7280', strokeDasharray: '4 3' }}
+                fill="#6b7280"
+                shape={() => <g />}
+                isAnimationActive={false}
+              />
+            )}
+            <Scatter name="Patient" data={current} fill="#facc15" isAnimationActive={false} />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-gray-400 font-semibold text-[10px] uppercase tracking-wider">Probability of no response</div>
+        {RESPONSE_ENDPOINTS.map(ep => (
+          <div key={ep} className="flex items-center gap-2">
+            <span className="w-24 text-gray-400">{ENDPOINT_LABELS[ep]}</span>
+            <div className="flex-1 h-2 bg-gray-800 rounded overflow-hidden">
+              <div
+                className="h-full bg-sky-500"
+                style={{ width: `${Math.round(endpointEffects[ep] * 100)}%` }}
+              />
+            </div>
+            <span className="w-10 text-right font-mono text-gray-300">{Math.round(endpointEffects[ep] * 100)}%</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-[10px] text-gray-500">{model.citation}</div>
+    </div>
+  );
+}
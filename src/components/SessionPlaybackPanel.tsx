@@ -36,6 +36,8 @@ const RecordingBadge: React.FC = () => {
   const { stopRecording, downloadRecording, startRecording, refreshStats } = useSessionStore();
   const patient = useSimStore(s => s.patient);
   const archetypeKey = useSimStore(s => s.archetypeKey);
+  const variability = useSimStore(s => s.variability);
+  const simulationSeed = useSimStore(s => s.simulationSeed);
   const [sizeLabel, setSizeLabel] = useState('0 B');
 
   // Poll frame count + size every second while recording
@@ -55,8 +57,9 @@ const RecordingBadge: React.FC = () => {
       weight: patient.weight,
       sex: patient.sex,
       asa: patient.asa,
-    });
-  }, [startRecording, archetypeKey, patient]);
+      variabilitySeed: variability?.seed,
+    }, simulationSeed);
+  }, [startRecording, archetypeKey, patient, variability, simulationSeed]);
 
   if (isRecording) {
     return (
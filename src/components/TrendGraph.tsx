@@ -1,7 +1,8 @@
 import { memo, useState, useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
 import useSimStore from '../store/useSimStore';
 import { DRUG_DATABASE } from '../engine/drugs';
+import { formatTime } from '../store/slices/uiSlice';
 
 // Drug half-life data (approximate distribution/elimination)
 const DRUG_HALF_LIVES: Record<string, { dist: number; elim: number; unit: string }> = {
@@ -22,6 +23,11 @@ const VITAL_CONFIGS = [
 
 type VitalKey = typeof VITAL_CONFIGS[number]['key'];
 
+// Forecast times in seconds; null means beyond the forecast horizon
+function formatForecast(seconds: number | null): string {
+  return seconds === null ? '>4h' : formatTime(Math.round(seconds));
+}
+
 interface CollapsibleTrendProps {
   label: string;
   unit: string;
@@ -97,6 +103,8 @@ export default function TrendGraph() {
   const vitals = useSimStore(s => s.vitals);
   const [pkExpanded, setPkExpanded] = useState(false);
   const [riskExpanded, setRiskExpanded] = useState(false);
+  const [wakeUpExpanded, setWakeUpExpanded] = useState(false);
+  const wakeUp = useSimStore(s => s.digitalTwin?.predictedOutcome.wakeUpForecast ?? null);
 
   // Show last 120 data points (10 minutes at 5s intervals).
   // useMemo prevents recomputation when unrelated store fields change.
@@ -234,6 +242,79 @@ export default function TrendGraph() {
         </div>
       </div>
 
+      {/* Wake-up forecast – collapsible */}
+      {wakeUp && (
+        <div className="border-b border-gray-700/50">
+          <button
+            onClick={() => setWakeUpExpanded(prev => !prev)}
+            className="w-full flex items-center justify-between px-3 py-2 hover:bg-gray-800/60 transition-colors text-left"
+            style={{ background: 'transparent', border: 'none', cursor: 'pointer' }}
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-semibold w-12 shrink-0 text-sky-400">Wake-up</span>
+              <span className="text-xl font-mono font-bold leading-none text-sky-400">
+                {formatForecast(wakeUp.timeToEmergence)}
+              </span>
+              {wakeUp.timeToEmergenceIfStopped !== wakeUp.timeToEmergence && (
+                <span className="text-xs text-gray-500">
+                  (stop now: {formatForecast(wakeUp.timeToEmergenceIfStopped)})
+                </span>
+              )}
+            </div>
+            <span className="text-gray-500 text-xs ml-2">{wakeUpExpanded ? '▲' : '▼'}</span>
+          </button>
+
+          <div
+            style={{
+              overflow: 'hidden',
+              maxHeight: wakeUpExpanded ? '200px' : '0',
+              transition: 'max-height 0.25s ease-in-out',
+            }}
+          >
+            <div className="px-2 pb-2" style={{ height: 110 }}>
+              <ResponsiveContainer width="100%" height={106}>
+                <LineChart
+                  data={wakeUp.trajectory.map(p => ({ time: `+${Math.round(p.secondsAhead / 60)}m`, moass: p.moass }))}
+                  margin={{ top: 4, right: 4, left: -20, bottom: 0 }}
+                >
+                  <CartesianGrid strokeDasharray="2 4" stroke="#1f2937" />
+                  <XAxis dataKey="time" stroke="#4b5563" tick={{ fontSize: 8 }} interval="preserveStartEnd" />
+                  <YAxis stroke="#4b5563" tick={{ fontSize: 8 }} domain={[0, 5]} ticks={[0, 1, 2, 3, 4, 5]} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #374151', fontSize: 10 }}
+                    labelStyle={{ color: '#9ca3af' }}
+                    formatter={(value: number) => [value, 'Projected MOASS']}
+                  />
+                  <ReferenceLine y={4} stroke="#38bdf8" strokeDasharray="3 3" />
+                  <Line
+                    type="stepAfter"
+                    dataKey="moass"
+                    stroke="#38bdf8"
+                    dot={false}
+                    strokeWidth={1.5}
+                    strokeDasharray="4 2"
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            {/* Per-drug decrement times (pump stopped now) */}
+            <div className="flex flex-wrap gap-2 text-xs text-gray-500 px-3 pb-2">
+              {Object.entries(wakeUp.drugs).map(([key, d]) => {
+                const drug = DRUG_DATABASE[key];
+                if (!drug) return null;
+                return (
+                  <span key={key} style={{ color: drug.color }}>
+                    {drug.name}: CSHT {formatForecast(d.contextSensitiveHalfTime)}
+                    {d.thresholdCe !== null && <> · Ce&lt;{d.thresholdCe.toFixed(2)} in {formatForecast(d.timeToThreshold)}</>}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* PK Concentrations – collapsible */}
       <div className="border-b border-gray-700/50">
         <button
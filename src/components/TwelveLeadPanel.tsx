@@ -0,0 +1,183 @@
+import { useRef, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import useSimStore from '../store/useSimStore';
+import { formatTime } from '../store/slices/uiSlice';
+import {
+  synthesizeTwelveLead, morphologyForPatient, qrsAxis, isConductedRhythm,
+  TwelveLead, TwelveLeadECG, ECGMorphology,
+} from '../engine/twelveLeadECG';
+import { ischemicST } from '../engine/myocardialIschemia';
+import type { Vitals } from '../types';
+
+// Paper: 25 mm/s, 10 mm/mV; SVG user units are millimetres
+const MM_PER_SEC = 25;
+const MM_PER_MV = 10;
+const CAL_WIDTH = 10;                 // calibration pulse column
+const COLUMN_SEC = 2.5;
+const COLUMN_WIDTH = COLUMN_SEC * MM_PER_SEC;
+const ROW_HEIGHT = 25;
+const HEADER_HEIGHT = 12;
+const PAPER_WIDTH = CAL_WIDTH + 4 * COLUMN_WIDTH;
+const PAPER_HEIGHT = HEADER_HEIGHT + 4 * ROW_HEIGHT;
+const DOWNSAMPLE = 2;                 // 500 Hz → 250 Hz points (0.1 mm apart)
+
+/** Standard 3 × 4 layout; each column shows the next 2.5 s of the same 10 s acquisition */
+const LAYOUT: TwelveLead[][] = [
+  ['I', 'aVR', 'V1', 'V4'],
+  ['II', 'aVL', 'V2', 'V5'],
+  ['III', 'aVF', 'V3', 'V6'],
+];
+const RHYTHM_STRIP_LEAD: TwelveLead = 'II';
+
+interface Acquisition {
+  ecg: TwelveLeadECG;
+  vitals: Vitals;
+  morphology: ECGMorphology;
+  timeSec: number;
+}
+
+/** SVG path for `lead` from `startSec` for `durationSec`, baseline at (x0, y0) */
+function tracePath(ecg: TwelveLeadECG, lead: TwelveLead, startSec: number, durationSec: number, x0: number, y0: number): string {
+  const data = ecg.leads[lead];
+  const first = Math.round(startSec * ecg.sampleRateHz);
+  const last = Math.min(data.length, Math.round((startSec + durationSec) * ecg.sampleRateHz));
+  const limit = ROW_HEIGHT / 2 - 0.5;
+  const points: string[] = [];
+  for (let i = first; i < last; i += DOWNSAMPLE) {
+    const x = x0 + (i - first) / ecg.sampleRateHz * MM_PER_SEC;
+    const y = y0 - Math.max(-limit, Math.min(limit, data[i] * MM_PER_MV));
+    points.push(`${x.toFixed(2)},${y.toFixed(2)}`);
+  }
+  return `M${points.join('L')}`;
+}
+
+/** 1 mV calibration pulse, 5 mm wide */
+function calibrationPath(y0: number): string {
+  return `M1,${y0} H3 V${y0 - MM_PER_MV} H8 V${y0} H${CAL_WIDTH}`;
+}
+
+function formatInterval(value: number | undefined): string {
+  return value ? `${Math.round(value)}` : '—';
+}
+
+/**
+ * 12-lead ECG viewer: acquires a 10 s 12-lead from the current rhythm,
+ * rate, QTc, the patient's conduction pattern and any ischemic ST
+ * deviation, and lays it out on ECG paper with a lead II rhythm strip.
+ * Printing opens the sheet on its own.
+ */
+export default function TwelveLeadPanel() {
+  const { vitals, patient, ischemia, elapsedSeconds } = useSimStore(
+    useShallow(s => ({ vitals: s.vitals, patient: s.patient, ischemia: s.ischemia, elapsedSeconds: s.elapsedSeconds }))
+  );
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const acquire = (): Acquisition => {
+    const baseline = morphologyForPatient(patient);
+    const morphology = { ...baseline, st: [...baseline.st, ...ischemicST(ischemia.burden, patient)] };
+    return {
+      ecg: synthesizeTwelveLead({
+        rhythm: vitals.rhythm ?? 'normal_sinus', hr: vitals.hr, qtc: vitals.qtcBazett, morphology,
+      }),
+      vitals,
+      morphology,
+      timeSec: elapsedSeconds,
+    };
+  };
+  const [acquisition, setAcquisition] = useState<Acquisition>(acquire);
+  const { ecg, vitals: acquired, morphology, timeSec } = acquisition;
+  const rhythm = acquired.rhythm ?? 'normal_sinus';
+
+  const print = () => {
+    if (!svgRef.current) return;
+    const sheet = window.open('', '_blank');
+    if (!sheet) return;
+    sheet.document.write(
+      '<html><head><title>12-lead ECG</title>' +
+      '<style>@page { size: landscape; margin: 10mm } body { margin: 0 } ' +
+      `svg { width: ${PAPER_WIDTH}mm; height: ${PAPER_HEIGHT}mm }</style></head>` +
+      `<body>${svgRef.current.outerHTML}</body></html>`
+    );
+    sheet.document.close();
+    sheet.focus();
+    sheet.print();
+  };
+
+  const header = [
+    formatTime(timeSec),
+    rhythm.replace(/_/g, ' '),
+    `HR ${Math.round(acquired.hr)}`,
+    `PR ${formatInterval(acquired.prInterval)}`,
+    `QRS ${formatInterval(acquired.qrsWidth)}`,
+    `QT/QTc ${formatInterval(acquired.qtInterval)}/${formatInterval(acquired.qtcBazett)}`,
+    `Axis ${isConductedRhythm(rhythm) ? `${Math.round(qrsAxis(morphology))}°` : '—'}`,
+  ].join('   ');
+
+  return (
+    <div className="p-2 space-y-2 text-xs">
+      <div className="flex gap-1">
+        <button
+          onClick={() => setAcquisition(acquire())}
+          className="flex-1 px-2 py-1 rounded bg-blue-900/60 text-blue-300 border border-blue-700 hover:bg-blue-800/60"
+        >
+          Acquire 12-lead
+        </button>
+        <button
+          onClick={print}
+          className="px-2 py-1 rounded bg-gray-800 text-gray-300 border border-gray-700 hover:bg-gray-700"
+        >
+          Print
+        </button>
+      </div>
+
+      <svg
+        ref={svgRef}
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox={`0 0 ${PAPER_WIDTH} ${PAPER_HEIGHT}`}
+        className="w-full rounded"
+        role="img"
+        aria-label={`12-lead ECG acquired at ${formatTime(timeSec)}: ${rhythm.replace(/_/g, ' ')}, heart rate ${Math.round(acquired.hr)}`}
+      >
+        <defs>
+          <pattern id="ecg-grid" width="5" height="5" patternUnits="userSpaceOnUse">
+            <path d="M1,0V5M2,0V5M3,0V5M4,0V5M0,1H5M0,2H5M0,3H5M0,4H5" stroke="#f7c6c6" strokeWidth="0.05" />
+            <path d="M0,0V5M0,0H5" stroke="#e88d8d" strokeWidth="0.15" />
+          </pattern>
+        </defs>
+        <rect width={PAPER_WIDTH} height={PAPER_HEIGHT} fill="#fffafa" />
+        <rect y={HEADER_HEIGHT} width={PAPER_WIDTH} height={PAPER_HEIGHT - HEADER_HEIGHT} fill="url(#ecg-grid)" />
+        <text x={2} y={5} fontSize={3} fill="#111" fontFamily="monospace">{header}</text>
+        <text x={2} y={9.5} fontSize={2.5} fill="#555" fontFamily="monospace">
+          25 mm/s   10 mm/mV   {morphology.conduction !== 'normal' ? morphology.conduction.toUpperCase() : ''}{morphology.lvh ? ' LVH' : ''}
+        </text>
+
+        {[...LAYOUT, [RHYTHM_STRIP_LEAD]].map((row, r) => {
+          const y0 = HEADER_HEIGHT + ROW_HEIGHT * (r + 0.5);
+          return (
+            <g key={r}>
+              <path d={calibrationPath(y0)} fill="none" stroke="#111" strokeWidth={0.25} />
+              {row.map((lead, c) => {
+                const isStrip = r === LAYOUT.length;
+                const x0 = CAL_WIDTH + c * COLUMN_WIDTH;
+                return (
+                  <g key={lead}>
+                    <path
+                      d={tracePath(ecg, lead, isStrip ? 0 : c * COLUMN_SEC, isStrip ? ecg.durationSec : COLUMN_SEC, x0, y0)}
+                      fill="none" stroke="#111" strokeWidth={0.25} strokeLinejoin="round"
+                    />
+                    <text x={x0 + 1} y={y0 - ROW_HEIGHT / 2 + 4} fontSize={3} fontWeight="bold" fill="#111">{lead}</text>
+                    {c > 0 && <path d={`M${x0},${y0 - 2}V${y0 + 2}`} stroke="#111" strokeWidth={0.25} />}
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="text-gray-500">
+        A snapshot of the moment it was acquired: re-acquire after changes in rhythm or hemodynamics.
+      </div>
+    </div>
+  );
+}
@@ -5,8 +5,13 @@
 import useSimStore from '../store/useSimStore';
 import useAIStore from '../store/useAIStore';
 import { generateDebrief } from '../ai/mentor';
-import { AirwayDevice, InterventionType } from '../types';
+import { AirwayDevice, CardiacRhythm, InterventionType, PatientPosition } from '../types';
 import { vitalCoherenceMonitor } from './VitalCoherenceMonitor';
+import { STIMULUS_PROFILES } from './stimulation';
+import { DRUG_DATABASE } from './drugs';
+import { ComplicationKind, BronchospasmCause, isRescueDrug, parseRescueRoute } from './airwayComplications';
+import type { BleedingSource } from './volumeKinetics';
+import type { AclsRhythm, ReversibleCause, CauseTreatment } from './acls';
 import type { SedSimScenario, ScenarioScore, ChecklistItemResult } from './SedSimCase.types';
 import { scoreScenario, defaultRubric, type ScoringRubric, type ScoringSummary } from './scoringEngine';
 
@@ -42,10 +47,20 @@ export interface ScenarioQuestion {
 }
 
 export type SimAction =
-  | { type: 'administer_drug'; drug: string; dose: number }
+  | { type: 'administer_drug'; drug: string; dose: number; route?: string }
   | { type: 'set_fio2'; fio2: number }
   | { type: 'set_airway_device'; device: string }
+  | { type: 'set_position'; position: string }
   | { type: 'apply_intervention'; intervention: string }
+  | { type: 'apply_stimulus'; stimulus: string; intensity?: number }
+  | { type: 'trigger_complication'; complication: ComplicationKind; severity?: number; cause?: BronchospasmCause }
+  | { type: 'start_bleeding'; source: BleedingSource; volume?: number }
+  | { type: 'set_volume_deficit'; volume: number }
+  | { type: 'cardiac_arrest'; rhythm: AclsRhythm; causes?: ReversibleCause[] }
+  | { type: 'defibrillate'; energy: number; synchronized?: boolean }
+  | { type: 'treat_cause'; treatment: CauseTreatment }
+  | { type: 'set_rhythm'; rhythm: CardiacRhythm }
+  | { type: 'start_pacing'; rate: number; current: number }
   | { type: 'select_patient'; archetypeKey: string }
   | { type: 'advance_time'; seconds: number }
   | { type: 'set_speed'; speed: number }
@@ -226,8 +241,8 @@ export function jsonScenarioToInteractive(json: SedSimScenario): InteractiveScen
     const simActions: SimAction[] = [];
     for (const sa of state.simActions ?? []) {
       if (sa.type === 'give_drug') {
-        const payload = sa.payload as { drug: string; doseMg: number };
-        simActions.push({ type: 'administer_drug', drug: payload.drug, dose: payload.doseMg });
+        const payload = sa.payload as { drug: string; doseMg: number; route?: string };
+        simActions.push({ type: 'administer_drug', drug: payload.drug, dose: payload.doseMg, route: payload.route });
       } else if (sa.type === 'change_oxygen') {
         const payload = sa.payload as { device?: string; fio2?: number };
         if (payload.device) {
@@ -236,9 +251,46 @@ export function jsonScenarioToInteractive(json: SedSimScenario): InteractiveScen
         if (payload.fio2 !== undefined) {
           simActions.push({ type: 'set_fio2', fio2: payload.fio2 });
         }
+      } else if (sa.type === 'change_position') {
+        const payload = sa.payload as { position: string };
+        simActions.push({ type: 'set_position', position: payload.position });
       } else if (sa.type === 'apply_stimulus') {
-        const payload = sa.payload as { stimulusType: string };
-        simActions.push({ type: 'apply_intervention', intervention: payload.stimulusType });
+        const payload = sa.payload as { stimulusType: string; intensity?: number };
+        // Procedure pain profiles drive the stimulation engine; anything else is an airway/rescue manoeuvre
+        if (STIMULUS_PROFILES[payload.stimulusType]) {
+          simActions.push({ type: 'apply_stimulus', stimulus: payload.stimulusType, intensity: payload.intensity });
+        } else {
+          simActions.push({ type: 'apply_intervention', intervention: payload.stimulusType });
+        }
+      } else if (sa.type === 'trigger_complication') {
+        const payload = sa.payload as { complication: ComplicationKind; severity?: number; cause?: BronchospasmCause };
+        simActions.push({
+          type: 'trigger_complication',
+          complication: payload.complication,
+          severity: payload.severity,
+          cause: payload.cause,
+        });
+      } else if (sa.type === 'start_bleeding') {
+        const payload = sa.payload as { source: BleedingSource; volumeMl?: number };
+        simActions.push({ type: 'start_bleeding', source: payload.source, volume: payload.volumeMl });
+      } else if (sa.type === 'volume_deficit') {
+        const payload = sa.payload as { volumeMl: number };
+        simActions.push({ type: 'set_volume_deficit', volume: payload.volumeMl });
+      } else if (sa.type === 'cardiac_arrest') {
+        const payload = sa.payload as { rhythm: AclsRhythm; causes?: ReversibleCause[] };
+        simActions.push({ type: 'cardiac_arrest', rhythm: payload.rhythm, causes: payload.causes });
+      } else if (sa.type === 'defibrillate') {
+        const payload = sa.payload as { joules: number; synchronized?: boolean };
+        simActions.push({ type: 'defibrillate', energy: payload.joules, synchronized: payload.synchronized });
+      } else if (sa.type === 'treat_cause') {
+        const payload = sa.payload as { treatment: CauseTreatment };
+        simActions.push({ type: 'treat_cause', treatment: payload.treatment });
+      } else if (sa.type === 'set_rhythm') {
+        const payload = sa.payload as { rhythm: CardiacRhythm };
+        simActions.push({ type: 'set_rhythm', rhythm: payload.rhythm });
+      } else if (sa.type === 'start_pacing') {
+        const payload = sa.payload as { rate: number; mA: number };
+        simActions.push({ type: 'start_pacing', rate: payload.rate, current: payload.mA });
       }
     }
 
@@ -799,7 +851,12 @@ export class ScenarioEngine {
     const sim = useSimStore.getState();
     switch (action.type) {
       case 'administer_drug':
-        sim.administerBolus(action.drug, action.dose);
+        // Airway rescue drugs act through the complication engine rather than a PK model
+        if (isRescueDrug(action.drug)) {
+          sim.administerRescueDrug(action.drug, action.dose, parseRescueRoute(action.drug, action.route));
+        } else {
+          sim.administerBolus(action.drug, action.dose);
+        }
         break;
       case 'set_fio2':
         sim.setFiO2(action.fio2);
@@ -807,9 +864,39 @@ export class ScenarioEngine {
       case 'set_airway_device':
         sim.setAirwayDevice(action.device as AirwayDevice);
         break;
+      case 'set_position':
+        sim.setPosition(action.position as PatientPosition);
+        break;
       case 'apply_intervention':
         sim.applyIntervention(action.intervention as InterventionType);
         break;
+      case 'apply_stimulus':
+        sim.applyStimulus(action.stimulus, action.intensity);
+        break;
+      case 'trigger_complication':
+        sim.triggerAirwayComplication(action.complication, action.severity, action.cause);
+        break;
+      case 'start_bleeding':
+        sim.startBleeding(action.source, action.volume);
+        break;
+      case 'set_volume_deficit':
+        sim.setVolumeDeficit(action.volume);
+        break;
+      case 'cardiac_arrest':
+        sim.startCardiacArrest(action.rhythm, action.causes);
+        break;
+      case 'defibrillate':
+        sim.deliverShock(action.energy, action.synchronized);
+        break;
+      case 'treat_cause':
+        sim.treatReversibleCause(action.treatment);
+        break;
+      case 'set_rhythm':
+        sim.setRhythm(action.rhythm);
+        break;
+      case 'start_pacing':
+        sim.startPacing({ rate: action.rate, current: action.current });
+        break;
       case 'select_patient':
         sim.selectPatient(action.archetypeKey);
         break;
@@ -925,6 +1012,13 @@ export class ScenarioEngine {
       );
     }
 
+    const drugsGiven = Object.entries(sim.drugTotals).filter(([, amount]) => amount > 0);
+    if (drugsGiven.length) {
+      debriefLines.push(`💊 **Drugs Given:**\n${drugsGiven.map(([drug, amount]) =>
+        `• ${DRUG_DATABASE[drug].name}: ${amount.toFixed(amount < 10 ? 1 : 0)} ${DRUG_DATABASE[drug].unit}`
+      ).join('\n')}`);
+    }
+
     if (score.strengths.length) {
       debriefLines.push(`✅ **Strengths:**\n${score.strengths.map(s => `• ${s}`).join('\n')}`);
     }
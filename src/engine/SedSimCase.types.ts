@@ -47,7 +47,19 @@ export interface ScenarioOption {
   isCorrect?: boolean;
 }
 
-export type SimActionType = "give_drug" | "change_oxygen" | "change_position" | "apply_stimulus";
+export type SimActionType =
+  | "give_drug"
+  | "change_oxygen"
+  | "change_position"
+  | "apply_stimulus"
+  | "trigger_complication"
+  | "start_bleeding"
+  | "volume_deficit"
+  | "cardiac_arrest"
+  | "defibrillate"
+  | "treat_cause"
+  | "set_rhythm"
+  | "start_pacing";
 
 export interface SimAction {
   type: SimActionType;
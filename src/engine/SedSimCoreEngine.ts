@@ -0,0 +1,939 @@
+import {
+  PKState, InfusionState, LogEntry, Vitals, MOASSLevel, EmergencyState, Patient,
+  AirwayDevice, InterventionType, PatientPosition, DrugParams, DrugRoute,
+} from '../types';
+import { createInitialPKState, stepPK, applyBolus } from './pkModel';
+import { DRUG_DATABASE } from './drugs';
+import { resolveDrugParams, PKModelSelection, DEFAULT_PK_MODELS } from './pkModelRegistry';
+import { computeTCICommand, TCI_DRUG_CONFIG } from './tciController';
+import { sedationDepth, sedationEndpoints, effectToMOASS, antagonizedPkStates, REVERSAL_AGENT_KEYS } from './pdModel';
+import { assessNeuromuscular, encapsulateRocuronium, NeuromuscularState, NO_NEUROMUSCULAR_BLOCK } from './neuromuscular';
+import {
+  EndpointEffects, InteractionSelection,
+  ZERO_ENDPOINT_EFFECTS, DEFAULT_INTERACTION_MODELS,
+} from './responseSurface';
+import { calculateVitals, checkAlarms, BASELINE_VITALS, PATIENT_ARCHETYPES, IVFluidContext } from './physiology';
+import { generateEEG, EEGState } from './eegModel';
+import { createDigitalTwin, updateTwin, DigitalTwin } from './digitalTwin';
+import { forecastWakeUp } from './emergence';
+import { stepMetabolites, resolveMetaboliteParams, INITIAL_METABOLITE_STATES } from './metabolites';
+import { assessUpperAirway, UpperAirwayState, PATENT_AIRWAY } from './upperAirway';
+import {
+  stimulusIntensity, computeStimulusResponse, stimulatedMOASS, applyStimulusToVitals,
+  isStimulusFinished, airwayStimulation, ActiveStimulus, StimulusResponse, ZERO_STIMULUS_RESPONSE,
+} from './stimulation';
+import {
+  stepComplications, complicationEffects as computeComplicationEffects,
+  AirwayComplicationState, ComplicationEffects, NO_AIRWAY_COMPLICATIONS, NO_COMPLICATION_EFFECTS,
+} from './airwayComplications';
+import { computeCirculation, CirculationState } from './circulation';
+import {
+  myocardialO2Balance, coronaryCirculation, stepIschemia, ischemiaDrivers,
+  IschemiaState, IschemiaCause, MyocardialO2Balance, NO_ISCHEMIA,
+} from './myocardialIschemia';
+import {
+  stepVolume, intravascularChange, bolusFlowRate, VolumeState, IVFluidState, EUVOLEMIA, NO_IV_FLUID,
+} from './volumeKinetics';
+import {
+  stepAcls, arrestVitals, aclsGuidance, isVentilated, epinephrineEffect, queueShock,
+  AclsState, AclsTransition, CPRQuality, NO_ARREST, REVERSIBLE_CAUSES,
+} from './acls';
+import {
+  stepElectricalTherapy, electricalLoading, pacingStatus, arrhythmiaVitals, pacedVitals,
+  ElectricalState, CardioversionRecord, CardioversionOutcome, NO_ELECTRICAL_THERAPY,
+} from './electricalTherapy';
+import { PatientVariability, sampleVariability } from './populationVariability';
+import { Rng, createRng, randomSeed } from './prng';
+import type {
+  SedSimCoreEngine, SedSimCoreInit, SedSimCoreTickInput, SedSimCoreTickOutput,
+  EngineStateSnapshot, PatientArchetype, DrugEvent, DrugName, ExternalStimulus, OxygenSource,
+} from './SedSimCoreEngine.types';
+
+/**
+ * SedSim-Core Engine
+ * The simulation loop without React or the store: one call to
+ * `stepSimulation` advances PK (boluses, infusions, TCI, IM depots,
+ * sugammadex binding, metabolites) → PD (response surfaces, reversal,
+ * stimulation) → airway and complications → volume and circulation
+ * (with any sustained arrhythmia or pacing) → vitals → cardioversion →
+ * ACLS (arrest, CPR, defibrillation) → myocardial ischemia → alarms,
+ * digital twin and EEG by one time step.
+ *
+ * `uiSlice.tick()` is a thin adapter over `stepSimulation` (it adds the
+ * trend buffer, visualization state and session recording), and
+ * `HeadlessSedSimEngine` drives the same step behind the
+ * `SedSimCoreEngine` interface for scripted, batch and test use.
+ */
+
+export const INITIAL_PK_STATES: Record<string, PKState> = {
+  propofol: createInitialPKState(),
+  midazolam: createInitialPKState(),
+  fentanyl: createInitialPKState(),
+  ketamine: createInitialPKState(),
+  dexmedetomidine: createInitialPKState(),
+  naloxone: createInitialPKState(),
+  flumazenil: createInitialPKState(),
+  lidocaine_epi: createInitialPKState(),
+  articaine_epi: createInitialPKState(),
+  bupivacaine: createInitialPKState(),
+  epinephrine: createInitialPKState(),
+  atropine: createInitialPKState(),
+  glycopyrrolate: createInitialPKState(),
+  ephedrine: createInitialPKState(),
+  phenylephrine: createInitialPKState(),
+  succinylcholine: createInitialPKState(),
+  rocuronium: createInitialPKState(),
+  sugammadex: createInitialPKState(),
+  ondansetron: createInitialPKState(),
+  droperidol: createInitialPKState(),
+  haloperidol: createInitialPKState(),
+  methadone: createInitialPKState(),
+  amiodarone: createInitialPKState(),
+};
+
+export const NO_EMERGENCY: EmergencyState = {
+  level: 'normal',
+  activeAlarms: [],
+  isArrest: false,
+  requiresImmediateIntervention: false,
+};
+
+const ARREST_RHYTHMS = ['ventricular_fibrillation', 'ventricular_tachycardia', 'polymorphic_vt', 'asystole', 'pea'];
+
+/** The wake-up forecast runs the PK forward for hours, so it is refreshed on this period, not every step */
+const WAKE_UP_FORECAST_INTERVAL_S = 10;
+
+/** Everything the step advances; field names match the store slices */
+export interface SimulationState {
+  elapsedSeconds: number;
+  pkStates: Record<string, PKState>;
+  infusions: Record<string, InfusionState>;
+  imDepots: Record<string, number>;
+  drugTotals: Record<string, number>;
+  metaboliteStates: Record<string, PKState>;
+  ivFluids: IVFluidState;
+  volume: VolumeState;
+  vitals: Vitals;
+  moass: MOASSLevel;
+  combinedEff: number;
+  endpointEffects: EndpointEffects;
+  airway: UpperAirwayState;
+  circulation: CirculationState;
+  ischemia: IschemiaState;
+  acls: AclsState;
+  electrical: ElectricalState;
+  neuromuscular: NeuromuscularState;
+  airwayComplications: AirwayComplicationState;
+  complicationEffects: ComplicationEffects;
+  activeStimuli: ActiveStimulus[];
+  stimulusResponse: StimulusResponse;
+  activeAlarms: EmergencyState['activeAlarms'];
+  eegState: EEGState | null;
+  digitalTwin: DigitalTwin | null;
+  emergencyState: EmergencyState;
+}
+
+/** Patient, model choices and bedside settings the step reads but does not change */
+export interface SimulationInputs {
+  patient: Patient;
+  variability: PatientVariability | null;
+  pkModelSelection: PKModelSelection;
+  interactionModels: InteractionSelection;
+  fio2: number;
+  interventions: Set<InterventionType>;
+  airwayDevice: AirwayDevice;
+  position: PatientPosition;
+  cpr: CPRQuality | null;
+}
+
+export interface SimulationStep {
+  state: SimulationState;
+  /** TCI pump boluses, alarms, complication onsets, arrest and shock outcomes, completed boluses, resedation and rhythm changes */
+  events: LogEntry[];
+  /** Effect-site concentrations after reversal-agent antagonism (what the receptors see) */
+  receptorStates: Record<string, PKState>;
+}
+
+/** Resting state for a patient before any drug is given */
+export function createSimulationState(patient: Patient, variability: PatientVariability | null = null): SimulationState {
+  return {
+    elapsedSeconds: 0,
+    pkStates: { ...INITIAL_PK_STATES },
+    infusions: {},
+    imDepots: {},
+    drugTotals: {},
+    metaboliteStates: { ...INITIAL_METABOLITE_STATES },
+    ivFluids: NO_IV_FLUID,
+    volume: EUVOLEMIA,
+    vitals: BASELINE_VITALS,
+    moass: 5,
+    combinedEff: 0,
+    endpointEffects: { ...ZERO_ENDPOINT_EFFECTS },
+    airway: PATENT_AIRWAY,
+    circulation: computeCirculation({}, patient),
+    ischemia: NO_ISCHEMIA,
+    acls: NO_ARREST,
+    electrical: NO_ELECTRICAL_THERAPY,
+    neuromuscular: NO_NEUROMUSCULAR_BLOCK,
+    airwayComplications: NO_AIRWAY_COMPLICATIONS,
+    complicationEffects: NO_COMPLICATION_EFFECTS,
+    activeStimuli: [],
+    stimulusResponse: ZERO_STIMULUS_RESPONSE,
+    activeAlarms: [],
+    eegState: null,
+    digitalTwin: createDigitalTwin(patient, variability),
+    emergencyState: NO_EMERGENCY,
+  };
+}
+
+/** Add an amount (the drug's own unit) to the administered totals */
+function addToTotals(totals: Record<string, number>, drugName: string, amount: number): Record<string, number> {
+  return amount > 0 ? { ...totals, [drugName]: (totals[drugName] ?? 0) + amount } : totals;
+}
+
+/** A bolus dose: IV into the central compartment, IM into a depot the step absorbs at ka */
+export function giveBolus(
+  state: Pick<SimulationState, 'pkStates' | 'imDepots' | 'drugTotals'>,
+  inputs: Pick<SimulationInputs, 'patient' | 'pkModelSelection' | 'variability'>,
+  drugName: string,
+  dose: number,
+  route: DrugRoute = 'iv'
+): Pick<SimulationState, 'pkStates' | 'imDepots' | 'drugTotals'> {
+  const drug = resolveDrugParams(drugName, inputs.patient, inputs.pkModelSelection, inputs.variability?.etas[drugName]);
+  const pkState = state.pkStates[drugName] ?? createInitialPKState();
+  const drugTotals = addToTotals(state.drugTotals, drugName, dose);
+  // Drugs without an IM ka are given IV
+  if (route === 'im' && drug.ka !== undefined) {
+    return {
+      pkStates: { ...state.pkStates, [drugName]: pkState },
+      imDepots: { ...state.imDepots, [drugName]: (state.imDepots[drugName] ?? 0) + dose },
+      drugTotals,
+    };
+  }
+  return {
+    pkStates: { ...state.pkStates, [drugName]: applyBolus(pkState, drug, dose) },
+    imDepots: state.imDepots,
+    drugTotals,
+  };
+}
+
+/** The limb of the O2 balance behind an ischemia episode, as logged */
+function describeImbalance(cause: IschemiaCause, balance: MyocardialO2Balance, vitals: Vitals): string {
+  switch (cause) {
+    case 'demand':
+      return `demand (HR ${Math.round(vitals.hr)} × SBP ${Math.round(vitals.sbp)} = RPP ${Math.round(balance.rpp)})`;
+    case 'supply':
+      return `low coronary perfusion (CPP ${Math.round(balance.cpp)} mmHg at HR ${Math.round(vitals.hr)})`;
+    case 'hypoxemia':
+      return `hypoxemia (SpO2 ${Math.round(vitals.spo2)}%)`;
+  }
+}
+
+const SHOCK_OUTCOMES: Record<Extract<AclsTransition, { type: 'shock' }>['outcome'], string> = {
+  rosc: 'ROSC',
+  pea: 'organised rhythm without a pulse (PEA)',
+  asystole: 'asystole',
+  refibrillated: 'terminated, then refibrillated',
+  failed: 'no change',
+  converted: 'sinus rhythm',
+  not_indicated: 'not indicated (non-shockable rhythm)',
+};
+
+/** Arrest, shock, ROSC, cycle and cause transitions as logged */
+export function aclsEvent(transition: AclsTransition, time: number): LogEntry {
+  switch (transition.type) {
+    case 'arrest':
+      return {
+        time,
+        type: 'alert',
+        message: `CARDIAC ARREST: ${transition.rhythm.replace(/_/g, ' ')}` +
+          (transition.causes.length > 0
+            ? ` (${transition.causes.map(c => REVERSIBLE_CAUSES[c].name.toLowerCase()).join(', ')})`
+            : ''),
+        severity: 'danger',
+      };
+    case 'shock':
+      return {
+        time,
+        type: 'intervention',
+        message: `DEFIBRILLATION ${transition.energy} J: ${transition.rhythm.replace(/_/g, ' ')} → ${SHOCK_OUTCOMES[transition.outcome]}`,
+        severity: transition.outcome === 'rosc' || transition.outcome === 'converted' ? 'info' : 'warning',
+      };
+    case 'rosc':
+      return {
+        time,
+        type: 'alert',
+        message: `ROSC after ${Math.floor(transition.duration / 60)}:${String(Math.round(transition.duration % 60)).padStart(2, '0')} of arrest`,
+        severity: 'info',
+      };
+    case 'cycle_complete':
+      return {
+        time,
+        type: 'alert',
+        message: `CPR cycle ${transition.cycle} complete: pause for a rhythm check`,
+        severity: 'warning',
+      };
+    case 'cause_corrected':
+      return {
+        time,
+        type: 'intervention',
+        message: `Reversible cause corrected: ${REVERSIBLE_CAUSES[transition.cause].name}`,
+        severity: 'info',
+      };
+  }
+}
+
+const CARDIOVERSION_OUTCOMES: Record<CardioversionOutcome, string> = {
+  converted: 'sinus rhythm',
+  failed: 'no change',
+  induced_vf: 'ventricular fibrillation (shock on the T wave)',
+  no_sync: 'not delivered, no R wave to synchronize to',
+  not_indicated: 'no effect (no arrhythmia to convert)',
+};
+
+/** A cardioversion or unsynchronized shock outside an arrest, as logged */
+export function cardioversionEvent(record: CardioversionRecord, time: number): LogEntry {
+  return {
+    time,
+    type: 'intervention',
+    message: `${record.synchronized ? 'SYNCHRONIZED CARDIOVERSION' : 'UNSYNCHRONIZED SHOCK'} ${record.energy} J: ` +
+      `${record.rhythm.replace(/_/g, ' ')} → ${CARDIOVERSION_OUTCOMES[record.outcome]}`,
+    severity: record.outcome === 'converted' ? 'info' : record.outcome === 'induced_vf' ? 'danger' : 'warning',
+  };
+}
+
+/** Advance the whole simulation by `dt` seconds; every stochastic draw comes from `rng` */
+export function stepSimulation(
+  state: SimulationState,
+  inputs: SimulationInputs,
+  rng: Rng,
+  dt: number = 1
+): SimulationStep {
+  const { patient, variability, pkModelSelection, fio2 } = inputs;
+  const { pkStates, infusions, vitals: prevVitals } = state;
+
+  // Patient-specific PK/PD parameters from the selected covariate models,
+  // individualised by the sampled virtual patient's etas
+  const drugParams: Record<string, DrugParams> = {};
+  Object.keys(pkStates).forEach(drugName => {
+    drugParams[drugName] = resolveDrugParams(drugName, patient, pkModelSelection, variability?.etas[drugName]);
+  });
+
+  // Step PK models forward; TCI pumps recompute bolus and rate from the current state,
+  // IM depots release drug into the central compartment at the absorption rate.
+  // Pump boluses and infusion amounts count towards the administered totals.
+  const newPkStates: Record<string, PKState> = {};
+  let newInfusions: Record<string, InfusionState> = infusions;
+  const imDepots: Record<string, number> = {};
+  let drugTotals = state.drugTotals;
+  const pumpEvents: LogEntry[] = [];
+  Object.keys(pkStates).forEach(drugName => {
+    const drug = drugParams[drugName];
+    const infusion = infusions[drugName];
+    const depot = state.imDepots[drugName] ?? 0;
+    const absorbed = depot > 0 && drug.ka ? depot * (1 - Math.exp(-drug.ka * dt / 60)) : 0;
+    if (depot - absorbed > 1e-6) imDepots[drugName] = depot - absorbed;
+    let bolus = absorbed;
+    let infusionRate = infusion?.isRunning ? infusion.rate : 0;
+    if (infusion?.isRunning && infusion.tci) {
+      const command = computeTCICommand(
+        pkStates[drugName], drug, infusion.tci, dt, TCI_DRUG_CONFIG[drugName]?.maxRate
+      );
+      bolus += command.bolus;
+      infusionRate = command.rate;
+      newInfusions = { ...newInfusions, [drugName]: { ...infusion, rate: command.rate } };
+      if (command.bolus > 0) {
+        drugTotals = addToTotals(drugTotals, drugName, command.bolus);
+        pumpEvents.push({
+          time: state.elapsedSeconds,
+          type: 'bolus',
+          message: `${drug.name} ${Number(command.bolus.toPrecision(3))} ${drug.unit} TCI bolus`,
+          severity: 'info',
+        });
+      }
+    }
+    drugTotals = addToTotals(drugTotals, drugName, infusionRate * dt / 60);
+    newPkStates[drugName] = stepPK(
+      pkStates[drugName],
+      drug,
+      bolus,
+      infusionRate,
+      dt
+    );
+  });
+
+  // Sugammadex encapsulates plasma and junctional rocuronium
+  if (newPkStates.rocuronium && newPkStates.sugammadex) {
+    const bound = encapsulateRocuronium(
+      newPkStates.rocuronium, newPkStates.sugammadex, dt,
+      drugParams.rocuronium.V1, drugParams.sugammadex.V1
+    );
+    newPkStates.rocuronium = bound.rocuronium;
+    newPkStates.sugammadex = bound.sugammadex;
+  }
+
+  // Active metabolites formed from parent elimination (renal clearance scaled to the patient)
+  const metaboliteParams = resolveMetaboliteParams(patient);
+  const metaboliteStates = stepMetabolites(
+    state.metaboliteStates, pkStates, newPkStates, drugParams, metaboliteParams, dt
+  );
+  const effectStates = { ...newPkStates, ...metaboliteStates };
+  const effectParams = { ...drugParams, ...metaboliteParams };
+
+  // Receptor-level concentrations: naloxone / flumazenil right-shift their agonists
+  const receptorStates = antagonizedPkStates(effectStates, effectParams);
+
+  // Endpoint probabilities (verbal / noxious / respiratory) from the interaction surfaces at the
+  // patient's potency; verbal and noxious set the sedation depth, respiratory the CO2 response curve
+  const endpointEffects = sedationEndpoints(effectStates, effectParams, inputs.interactionModels);
+  const combinedEff = sedationDepth(endpointEffects);
+
+  // Procedure stimulation breaks through where the surfaces leave the patient responsive
+  const newTime = state.elapsedSeconds + dt;
+  const activeStimuli = state.activeStimuli.filter(s => !isStimulusFinished(s, newTime));
+  const stimulusResponse = computeStimulusResponse(
+    stimulusIntensity(activeStimuli, newTime), endpointEffects
+  );
+  const drugMOASS = stimulatedMOASS(effectToMOASS(combinedEff), stimulusResponse);
+
+  // Laryngospasm / bronchospasm: triggered by airway stimulation, broken by rescue manoeuvres and drugs
+  const complicationStep = stepComplications(
+    state.airwayComplications,
+    {
+      pkStates: receptorStates,
+      patient,
+      endpointEffects,
+      airwayStimulation: airwayStimulation(activeStimuli, newTime),
+      interventions: inputs.interventions,
+      spo2: prevVitals.spo2,
+    },
+    newTime,
+    dt,
+    rng
+  );
+  const airwayComplications = complicationStep.state;
+  // TOF response and respiratory muscle block from the relaxant effect-site concentrations
+  const neuromuscular = assessNeuromuscular(newPkStates);
+  const complicationEffects = {
+    ...computeComplicationEffects(airwayComplications, newTime, patient, endpointEffects),
+    paralysis: neuromuscular.paralysis,
+  };
+
+  // Upper airway patency under the current hypnotic, position, airway manoeuvres and glottic closure
+  const airway = assessUpperAirway(
+    receptorStates, patient, inputs.interventions, inputs.airwayDevice, inputs.position,
+    complicationEffects.laryngospasm
+  );
+
+  // IV fluid delivered this step: boluses run in as fast as the cannula allows
+  const newIvFluids = { ...state.ivFluids };
+  let infused = 0;
+  if (state.ivFluids.activeFluid) {
+    infused = state.ivFluids.isBolus
+      ? Math.min(state.ivFluids.bolusRemaining, bolusFlowRate(state.ivFluids.gauge) * dt / 60)
+      : state.ivFluids.rate * dt / 3600;
+    newIvFluids.totalInfused = state.ivFluids.totalInfused + infused;
+    if (state.ivFluids.isBolus) newIvFluids.bolusRemaining = state.ivFluids.bolusRemaining - infused;
+  }
+  const bolusComplete = state.ivFluids.isBolus && state.ivFluids.activeFluid !== null && newIvFluids.bolusRemaining <= 0;
+  if (bolusComplete) {
+    Object.assign(newIvFluids, { activeFluid: null, rate: 0, isBolus: false, bolusVolume: 0, bolusRemaining: 0 });
+  }
+
+  // Intravascular volume: fluid distribution, hemorrhage and interstitial refill
+  const volume = stepVolume(state.volume, patient, infused, state.ivFluids.activeFluid, dt);
+
+  // Circulation: venous return, contractility, HR and SVR under the current drugs, volume and complications;
+  // a sustained arrhythmia sets the ventricular rate, and so does a pacer once its beats contract
+  const circulationContext = {
+    baselineHR: BASELINE_VITALS.hr,
+    volumeChange: intravascularChange(volume),
+    anaphylaxis: complicationEffects.anaphylaxis,
+    spo2: prevVitals.spo2,
+    ischemia: state.ischemia.burden,
+  };
+  const intrinsic = computeCirculation(receptorStates, patient, {
+    ...circulationContext,
+    ...electricalLoading(state.electrical, receptorStates),
+  });
+  const arrested = state.acls.rhythm !== null;
+  const pacing = pacingStatus(
+    state.electrical.pacer, arrested ? 0 : intrinsic.hr, prevVitals.rhythm ?? 'normal_sinus', arrested,
+    patient, state.ischemia.burden
+  );
+  const circulation = pacing?.capture === 'mechanical'
+    ? computeCirculation(receptorStates, patient, {
+      ...circulationContext,
+      ...electricalLoading(state.electrical, receptorStates, pacing.capture),
+    })
+    : intrinsic;
+
+  // Calculate new vitals using physiology engine
+  const prevRhythm = prevVitals.rhythm ?? 'normal_sinus';
+  const ivFluidContext: IVFluidContext = {
+    totalInfused: newIvFluids.totalInfused,
+    isBolus: state.ivFluids.isBolus,
+    bolusVolume: state.ivFluids.bolusVolume,
+    intravascularChange: intravascularChange(volume),
+  };
+  const physiologyVitals = applyStimulusToVitals(
+    calculateVitals(
+      receptorStates, patient, prevVitals, fio2, prevRhythm, state.elapsedSeconds,
+      inputs.interventions, ivFluidContext, undefined,
+      {
+        airwayDevice: inputs.airwayDevice, position: inputs.position, airway, complications: complicationEffects,
+        respiratoryEffect: endpointEffects.respiratory,
+      },
+      circulation,
+      rng,
+      state.ischemia.burden
+    ),
+    stimulusResponse
+  );
+
+  // Shocks: synchronized cardioversion of a perfusing rhythm resolves here; defibrillation
+  // and every shock in an arrest go to the resuscitation
+  const rhythmVitals = arrhythmiaVitals(physiologyVitals, state.electrical);
+  const electricalStep = stepElectricalTherapy(
+    state.electrical, state.acls.rhythm ?? rhythmVitals.rhythm ?? 'normal_sinus', rhythmVitals.hr, arrested, newTime, rng
+  );
+  const inducedVF = electricalStep.record?.outcome === 'induced_vf';
+
+  // ACLS: a pulseless rhythm is an arrest the resuscitation runs until ROSC;
+  // compressions set the pressures, and a shock can also convert a perfusing VT
+  const ventilated = isVentilated(inputs.interventions, inputs.airwayDevice);
+  const aclsStep = stepAcls(
+    electricalStep.defibrillation !== null ? queueShock(state.acls, electricalStep.defibrillation) : state.acls,
+    {
+      rhythm: inducedVF ? 'ventricular_fibrillation' : rhythmVitals.rhythm ?? 'normal_sinus',
+      cpr: inputs.cpr,
+      ventilated,
+      pkStates: receptorStates,
+      spo2: physiologyVitals.spo2,
+      intravascularChange: intravascularChange(volume),
+    },
+    newTime,
+    dt,
+    rng
+  );
+  const acls = aclsStep.state;
+  const converted = electricalStep.record?.outcome === 'converted' ||
+    aclsStep.transitions.some(t => t.type === 'shock' && t.outcome === 'converted');
+  // An arrest or a converting shock ends the sustained arrhythmia
+  const electrical = converted || aclsStep.transitions.some(t => t.type === 'arrest')
+    ? { ...electricalStep.state, arrhythmia: null }
+    : electricalStep.state;
+  const newVitals = pacedVitals(
+    acls.rhythm !== null
+      ? arrestVitals(physiologyVitals, prevVitals, acls, inputs.cpr, ventilated, epinephrineEffect(receptorStates), dt)
+      : converted ? { ...physiologyVitals, rhythm: 'normal_sinus' as const } : rhythmVitals,
+    electrical.pacer,
+    pacing
+  );
+  // Without a perfusing rhythm the patient is unresponsive whatever the drugs
+  const moass: MOASSLevel = acls.rhythm !== null ? 0 : drugMOASS;
+
+  // Myocardial O2 supply against demand at the pressures and saturation just reached;
+  // held through an arrest, after which the heart is stunned in proportion to the lost viability
+  const ischemiaStep = acls.rhythm === null
+    ? stepIschemia(
+      state.ischemia,
+      myocardialO2Balance(
+        { hr: newVitals.pulseRate ?? newVitals.hr, sbp: newVitals.sbp, dbp: newVitals.dbp, edp: circulation.edp },
+        newVitals.spo2,
+        coronaryCirculation(patient)
+      ),
+      patient,
+      newTime,
+      dt
+    )
+    : { state: state.ischemia, transitions: [] };
+  const ischemia = aclsStep.transitions.some(t => t.type === 'rosc')
+    ? {
+      ...ischemiaStep.state,
+      burden: Math.max(ischemiaStep.state.burden, 1 - acls.viability),
+      peakBurden: Math.max(ischemiaStep.state.peakBurden, 1 - acls.viability),
+    }
+    : ischemiaStep.state;
+
+  // Check for alarms
+  const activeAlarms = checkAlarms(newVitals);
+  const newRhythm = newVitals.rhythm ?? 'normal_sinus';
+
+  const previousForecast = state.digitalTwin?.predictedOutcome.wakeUpForecast ?? null;
+  const forecastDue = previousForecast === null
+    || Math.floor(newTime / WAKE_UP_FORECAST_INTERVAL_S) !== Math.floor(state.elapsedSeconds / WAKE_UP_FORECAST_INTERVAL_S);
+  const twin = updateTwin(
+    state.digitalTwin || createDigitalTwin(patient, variability),
+    newPkStates,
+    newVitals.hr,
+    newVitals.spo2,
+    dt,
+    newRhythm,
+    newVitals.sbp,
+    forecastDue ? forecastWakeUp(effectStates, newInfusions, effectParams, {}, inputs.interactionModels) : previousForecast
+  );
+  // During an arrest the guidance follows the resuscitation: CPR, rhythm check, drug timing, causes
+  const newDigitalTwin: DigitalTwin = {
+    ...twin,
+    predictedOutcome: { ...twin.predictedOutcome, aclsGuidance: aclsGuidance(acls, newRhythm, inputs.cpr, newTime) },
+  };
+
+  // Log pump boluses and alarms to event log
+  const events: LogEntry[] = [...pumpEvents];
+  activeAlarms.forEach(alarm => {
+    const alreadyActive = state.activeAlarms.some(
+      a => a.type === alarm.type && a.severity === alarm.severity
+    );
+    if (!alreadyActive) {
+      events.push({
+        time: newTime,
+        type: 'alert',
+        message: alarm.message,
+        severity: alarm.severity,
+      });
+    }
+  });
+
+  // Log complication onsets
+  complicationStep.onsets.forEach(kind => {
+    events.push({
+      time: newTime,
+      type: 'alert',
+      message: kind === 'laryngospasm' ? 'LARYNGOSPASM' : 'BRONCHOSPASM',
+      severity: 'danger',
+    });
+  });
+
+  // Log ischemia episodes with their cause and the drugs driving it, for the debrief
+  ischemiaStep.transitions.forEach(transition => {
+    if (transition === 'onset' && ischemia.episodeCause) {
+      const drivers = ischemiaDrivers(receptorStates, ischemia.episodeCause);
+      events.push({
+        time: newTime,
+        type: 'alert',
+        message: `MYOCARDIAL ISCHEMIA: ${describeImbalance(ischemia.episodeCause, ischemia.balance, newVitals)}` +
+          (drivers.length > 0 ? ` with ${drivers.join(', ')} on board` : ''),
+        severity: 'warning',
+      });
+    } else if (transition === 'transmural') {
+      events.push({
+        time: newTime,
+        type: 'alert',
+        message: `ST ELEVATION: transmural ischemia in the ${patient.culpritTerritory} territory`,
+        severity: 'danger',
+      });
+    } else if (transition === 'resolved') {
+      events.push({
+        time: newTime,
+        type: 'alert',
+        message: 'Myocardial ischemia resolved: supply and demand rebalanced',
+        severity: 'info',
+      });
+    }
+  });
+
+  // Log cardioversions, then arrests, shock outcomes, ROSC, completed CPR cycles and corrected causes
+  if (electricalStep.record) events.push(cardioversionEvent(electricalStep.record, newTime));
+  aclsStep.transitions.forEach(transition => events.push(aclsEvent(transition, newTime)));
+
+  // Log completed fluid boluses
+  if (bolusComplete) {
+    events.push({
+      time: newTime,
+      type: 'intervention',
+      message: `[IV] ${state.ivFluids.activeFluid} ${state.ivFluids.bolusVolume}mL bolus complete`,
+      severity: 'info',
+    });
+  }
+
+  // Log resedation as a reversal agent wears off with its agonist still on board
+  if (effectToMOASS(combinedEff) < effectToMOASS(state.combinedEff)) {
+    const wearingOff = REVERSAL_AGENT_KEYS.filter(
+      key => newPkStates[key] && newPkStates[key].ce > 0 && newPkStates[key].ce < pkStates[key].ce
+    );
+    wearingOff.forEach(key => {
+      events.push({
+        time: newTime,
+        type: 'alert',
+        message: `RESEDATION: ${drugParams[key].name} wearing off (MOASS ${effectToMOASS(state.combinedEff)} → ${effectToMOASS(combinedEff)})`,
+        severity: 'warning',
+      });
+    });
+  }
+
+  // Log rhythm changes
+  if (newRhythm !== prevRhythm) {
+    const isLethal = ARREST_RHYTHMS.includes(newRhythm);
+    events.push({
+      time: newTime,
+      type: 'alert',
+      message: isLethal
+        ? `🚨 ARRHYTHMIA: ${newRhythm.replace(/_/g, ' ').toUpperCase()}`
+        : `RHYTHM CHANGE: ${prevRhythm.replace(/_/g, ' ')} → ${newRhythm.replace(/_/g, ' ')}`,
+      severity: isLethal ? 'danger' : 'warning',
+    });
+  }
+
+  // Generate EEG state
+  const propCe = receptorStates['propofol']?.ce || 0;
+  const dexCe = receptorStates['dexmedetomidine']?.ce || 0;
+  const ketCe = receptorStates['ketamine']?.ce || 0;
+  const midazCe = receptorStates['midazolam']?.ce || 0;
+  const fentCe = receptorStates['fentanyl']?.ce || 0;
+  const eegState = generateEEG(
+    propCe, dexCe, ketCe, midazCe, fentCe, patient.age, newTime, combinedEff, state.eegState ?? undefined, rng
+  );
+
+  // Compute emergency state from alarms and rhythm
+  const isArrest = ARREST_RHYTHMS.includes(newRhythm);
+  const hasDanger = activeAlarms.some(a => a.severity === 'danger');
+  const hasWarning = activeAlarms.some(a => a.severity === 'warning');
+  const emergencyState: EmergencyState = {
+    level: isArrest ? 'arrest' : hasDanger ? 'critical' : hasWarning ? 'warning' : 'normal',
+    activeAlarms,
+    isArrest,
+    requiresImmediateIntervention: isArrest || hasDanger,
+  };
+
+  return {
+    state: {
+      elapsedSeconds: newTime,
+      pkStates: newPkStates,
+      infusions: newInfusions,
+      imDepots,
+      drugTotals,
+      metaboliteStates,
+      ivFluids: newIvFluids,
+      volume,
+      vitals: newVitals,
+      moass,
+      combinedEff,
+      endpointEffects,
+      airway,
+      circulation,
+      ischemia,
+      acls,
+      electrical,
+      neuromuscular,
+      airwayComplications,
+      complicationEffects,
+      activeStimuli,
+      stimulusResponse,
+      activeAlarms,
+      eegState,
+      digitalTwin: newDigitalTwin,
+      emergencyState,
+    },
+    events,
+    receptorStates,
+  };
+}
+
+// ─── Headless engine ────────────────────────────────────────────────────────
+
+/** Device and FiO2 for each interface oxygen source (nasal cannula at 2 L/min, simple mask at 6 L/min) */
+const OXYGEN_SOURCES: Record<OxygenSource, { device: AirwayDevice; fio2: number }> = {
+  room_air: { device: 'room_air', fio2: 0.21 },
+  nasal_cannula: { device: 'nasal_cannula', fio2: 0.29 },
+  simple_mask: { device: 'simple_mask', fio2: 0.40 },
+  nonrebreather: { device: 'nonrebreather', fio2: 0.80 },
+};
+
+const SNAPSHOT_DRUGS: DrugName[] = [
+  'midazolam', 'fentanyl', 'propofol', 'ketamine', 'dexmedetomidine', 'naloxone', 'flumazenil',
+];
+
+/** Clinical patient for an interface archetype; ids matching PATIENT_ARCHETYPES keep their comorbidities */
+export function patientFromArchetype(archetype: PatientArchetype): Patient {
+  const base = PATIENT_ARCHETYPES[archetype.id];
+  const sex = archetype.sex === 'male' ? 'M' : 'F';
+  return {
+    ...base,
+    age: archetype.ageYears,
+    weight: archetype.weightKg,
+    height: base?.height ?? (sex === 'M' ? 175 : 162),
+    sex,
+    asa: archetype.asaClass,
+    mallampati: base?.mallampati ?? (archetype.airwayRisk === 'high' ? 3 : archetype.airwayRisk === 'moderate' ? 2 : 1),
+    osa: base?.osa ?? archetype.airwayRisk === 'high',
+    copd: base?.copd ?? archetype.cardiopulmonaryFrailty >= 0.7,
+    drugSensitivity: archetype.pkPdSensitivity,
+  };
+}
+
+/**
+ * `SedSimCoreEngine` on top of `stepSimulation`: physiology always advances
+ * in 1 s steps, and a snapshot is added to the history every
+ * `config.timeStepSec`. Noise is seeded, so the same seed, init and tick
+ * inputs reproduce the same history.
+ */
+export class HeadlessSedSimEngine implements SedSimCoreEngine {
+  private seed: SedSimCoreInit | null = null;
+  private inputs: SimulationInputs | null = null;
+  private state: SimulationState | null = null;
+  private rng: Rng;
+  private pending: DrugEvent[] = [];
+  private history: EngineStateSnapshot[] = [];
+  private nextSnapshotSec = 0;
+
+  constructor(private readonly rngSeed: number = randomSeed()) {
+    this.rng = createRng(rngSeed);
+  }
+
+  init(seed: SedSimCoreInit): void {
+    const patient = patientFromArchetype(seed.patient);
+    const oxygen = OXYGEN_SOURCES[seed.config.oxygenSource];
+    const variability = seed.variabilitySeed === undefined ? null : sampleVariability(seed.variabilitySeed);
+    this.seed = seed;
+    this.rng = createRng(this.rngSeed);
+    this.inputs = {
+      patient,
+      variability,
+      pkModelSelection: { ...DEFAULT_PK_MODELS },
+      interactionModels: { ...DEFAULT_INTERACTION_MODELS },
+      fio2: oxygen.fio2,
+      interventions: new Set(),
+      airwayDevice: oxygen.device,
+      position: seed.config.position,
+      cpr: null,
+    };
+    this.state = createSimulationState(patient, variability);
+    this.pending = [...(seed.initialDrugs ?? [])];
+    this.history = [];
+    this.nextSnapshotSec = seed.config.timeStepSec;
+    this.applyDueDrugEvents();
+  }
+
+  tick(input: SedSimCoreTickInput): SedSimCoreTickOutput {
+    if (!this.seed || !this.inputs || !this.state) {
+      throw new Error('HeadlessSedSimEngine: tick() called before init()');
+    }
+    if (input.oxygenSource) {
+      const oxygen = OXYGEN_SOURCES[input.oxygenSource];
+      this.inputs = { ...this.inputs, airwayDevice: oxygen.device, fio2: oxygen.fio2 };
+    }
+    if (input.position) this.inputs = { ...this.inputs, position: input.position };
+    this.pending.push(...(input.newDrugEvents ?? []));
+    input.newStimuli?.forEach(stimulus => this.applyStimulus(stimulus));
+
+    const until = Math.min(input.currentTimeSec, this.seed.config.maxTimeSec);
+    while (this.state.elapsedSeconds < until) {
+      this.applyDueDrugEvents();
+      this.state = stepSimulation(this.state, this.inputs, this.rng).state;
+      if (this.state.elapsedSeconds >= this.nextSnapshotSec) {
+        this.history.push(this.snapshot());
+        this.nextSnapshotSec = this.state.elapsedSeconds + this.seed.config.timeStepSec;
+      }
+    }
+    this.applyDueDrugEvents();
+
+    return {
+      state: this.snapshot(),
+      effectSiteConcentrations: Object.fromEntries(
+        SNAPSHOT_DRUGS.map(drug => [drug, this.state!.pkStates[drug]?.ce ?? 0])
+      ) as Record<DrugName, number>,
+    };
+  }
+
+  getHistory(): EngineStateSnapshot[] {
+    return [...this.history];
+  }
+
+  reset(): void {
+    if (this.seed) this.init(this.seed);
+  }
+
+  /** Full simulation state, for callers that need more than the interface snapshot */
+  getState(): SimulationState | null {
+    return this.state;
+  }
+
+  /** Inputs the next step will use (device, FiO2, position, interventions) */
+  getInputs(): SimulationInputs | null {
+    return this.inputs;
+  }
+
+  /** Drug events whose time has come; later events wait in `pending` */
+  private applyDueDrugEvents(): void {
+    const state = this.state!;
+    const due = this.pending.filter(e => e.timeSec <= state.elapsedSeconds);
+    if (due.length === 0) return;
+    this.pending = this.pending.filter(e => e.timeSec > state.elapsedSeconds);
+    due.sort((a, b) => a.timeSec - b.timeSec).forEach(event => {
+      const drug = resolveDrugParams(event.drug, this.inputs!.patient, this.inputs!.pkModelSelection);
+      // Interface doses are in mg; the PK models run in the drug's own unit
+      const toUnit = drug.unit === 'mcg' ? 1000 : 1;
+      if (event.route === 'iv_bolus' && event.doseMg !== undefined) {
+        this.state = { ...this.state!, ...giveBolus(this.state!, this.inputs!, event.drug, event.doseMg * toUnit) };
+      } else if (event.route === 'iv_infusion') {
+        const infusions = { ...this.state!.infusions };
+        if (event.onOff === 'stop') {
+          delete infusions[event.drug];
+        } else if (event.rateMgPerHr !== undefined) {
+          infusions[event.drug] = {
+            drugName: DRUG_DATABASE[event.drug].name,
+            rate: event.rateMgPerHr / 60 * toUnit,
+            unit: `${drug.unit}/min`,
+            isRunning: true,
+          };
+        }
+        this.state = { ...this.state!, infusions };
+      }
+    });
+  }
+
+  /** Pain and verbal stimuli run their stimulation profiles; jaw thrust and chin lift are airway manoeuvres */
+  private applyStimulus(stimulus: ExternalStimulus): void {
+    switch (stimulus.type) {
+      case 'pain':
+      case 'verbal':
+        this.state = {
+          ...this.state!,
+          activeStimuli: [
+            ...this.state!.activeStimuli,
+            { profileId: stimulus.type, startTime: stimulus.timeSec, scale: stimulus.intensity ?? 1 },
+          ],
+        };
+        break;
+      case 'jaw_thrust':
+      case 'chin_lift':
+        this.inputs = { ...this.inputs!, interventions: new Set([...this.inputs!.interventions, stimulus.type]) };
+        break;
+      case 'airway_obstruction':
+        // Obstruction emerges from the upper airway model (hypnotic depth, position, patient);
+        // it is not imposed from outside
+        break;
+    }
+  }
+
+  private snapshot(): EngineStateSnapshot {
+    const { vitals, moass, eegState, digitalTwin, elapsedSeconds: timeSec } = this.state!;
+    const outcome = digitalTwin?.predictedOutcome;
+    return {
+      vital: {
+        timeSec,
+        hr: vitals.hr,
+        sbp: vitals.sbp,
+        dbp: vitals.dbp,
+        map: vitals.map,
+        spo2: vitals.spo2,
+        respRate: vitals.rr,
+        etco2: vitals.etco2,
+      },
+      depth: {
+        timeSec,
+        moass,
+        bisIndex: eegState?.bisIndex ?? 97,
+        suppressionRatio: eegState?.channels.Fp1?.suppressionRatio ?? 0,
+      },
+      // Digital twin risks, 0-100
+      risk: {
+        timeSec,
+        hypotensionRisk: outcome?.hypotensionRisk ?? 0,
+        desaturationRisk: outcome?.desaturationRisk ?? 0,
+        awarenessRisk: outcome?.awarenessRisk ?? 0,
+      },
+    };
+  }
+}
@@ -82,6 +82,7 @@ export interface SedSimCoreInit {
   patient: PatientArchetype;
   config: SedSimCoreConfig;
   initialDrugs?: DrugEvent[];
+  variabilitySeed?: number;  // samples between-subject PK/PD variability; typical patient when absent
 }
 
 export interface SedSimCoreTickInput {
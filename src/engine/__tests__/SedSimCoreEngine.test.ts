@@ -0,0 +1,277 @@
+/**
+ * Unit tests for the headless engine (SedSimCoreEngine.ts)
+ * stepSimulation advances the same pipeline the store tick runs, and
+ * HeadlessSedSimEngine drives it behind the SedSimCoreEngine interface:
+ * drug events, history sampling, seeded reproducibility and reset. A
+ * standard sedation regimen stays out of ventricular arrhythmias.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  HeadlessSedSimEngine, stepSimulation, createSimulationState, giveBolus, patientFromArchetype,
+} from '../SedSimCoreEngine';
+import { DEFAULT_PK_MODELS } from '../pkModelRegistry';
+import { DEFAULT_INTERACTION_MODELS } from '../responseSurface';
+import { applyBolus } from '../pkModel';
+import { DRUG_DATABASE } from '../drugs';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import { deliveredFiO2 } from '../oxygenation';
+import { createRng } from '../prng';
+import type { PatientArchetype, SedSimCoreInit } from '../SedSimCoreEngine.types';
+
+const adult: PatientArchetype = {
+  id: 'healthy_adult',
+  label: 'Healthy adult',
+  ageYears: 35,
+  weightKg: 75,
+  sex: 'male',
+  asaClass: 1,
+  airwayRisk: 'low',
+  cardiopulmonaryFrailty: 0.1,
+  pkPdSensitivity: 1,
+};
+
+const seed = (overrides: Partial<SedSimCoreInit> = {}): SedSimCoreInit => ({
+  patient: adult,
+  config: { timeStepSec: 5, maxTimeSec: 1800, oxygenSource: 'nasal_cannula', position: 'supine' },
+  ...overrides,
+});
+
+describe('stepSimulation', () => {
+  it('advances time, drug and effect from a bolus', () => {
+    const patient = PATIENT_ARCHETYPES.healthy_adult;
+    const inputs = {
+      patient, variability: null, pkModelSelection: DEFAULT_PK_MODELS,
+      interactionModels: DEFAULT_INTERACTION_MODELS, fio2: 0.21, interventions: new Set<never>(),
+      airwayDevice: 'room_air' as const, position: 'supine' as const, cpr: null,
+    };
+    let state = createSimulationState(patient);
+    state = { ...state, pkStates: { ...state.pkStates, propofol: applyBolus(state.pkStates.propofol, DRUG_DATABASE.propofol, 150) } };
+    const rng = createRng(1);
+    for (let t = 0; t < 90; t++) state = stepSimulation(state, inputs, rng).state;
+    expect(state.elapsedSeconds).toBe(90);
+    expect(state.pkStates.propofol.ce).toBeGreaterThan(0);
+    expect(state.moass).toBeLessThan(5);
+    expect(state.eegState?.bisIndex).toBeLessThan(80);
+  });
+
+  it('refreshes the wake-up forecast every 10 s rather than every step', () => {
+    const patient = PATIENT_ARCHETYPES.healthy_adult;
+    const inputs = {
+      patient, variability: null, pkModelSelection: DEFAULT_PK_MODELS,
+      interactionModels: DEFAULT_INTERACTION_MODELS, fio2: 0.21, interventions: new Set<never>(),
+      airwayDevice: 'room_air' as const, position: 'supine' as const, cpr: null,
+    };
+    let state = createSimulationState(patient);
+    state = { ...state, ...giveBolus(state, inputs, 'propofol', 100) };
+    const rng = createRng(1);
+    const forecasts = [];
+    for (let t = 0; t < 20; t++) {
+      state = stepSimulation(state, inputs, rng).state;
+      forecasts.push(state.digitalTwin!.predictedOutcome.wakeUpForecast);
+    }
+    expect(forecasts[0]).not.toBeNull();
+    expect(forecasts[8]).toBe(forecasts[0]);
+    expect(forecasts[9]).not.toBe(forecasts[8]);
+    expect(forecasts[18]).toBe(forecasts[9]);
+    expect(forecasts[19]).not.toBe(forecasts[18]);
+  });
+
+  it('the selected interaction model sets sedation depth and ventilation', () => {
+    const patient = PATIENT_ARCHETYPES.healthy_adult;
+    const run = (model: string) => {
+      const inputs = {
+        patient, variability: null, pkModelSelection: DEFAULT_PK_MODELS,
+        interactionModels: { ...DEFAULT_INTERACTION_MODELS, 'midazolam+fentanyl': model }, fio2: 0.21,
+        interventions: new Set<never>(), airwayDevice: 'room_air' as const, position: 'supine' as const, cpr: null,
+      };
+      let state = createSimulationState(patient);
+      state = { ...state, ...giveBolus(state, inputs, 'midazolam', 1.5) };
+      state = { ...state, ...giveBolus(state, inputs, 'fentanyl', 250) };
+      const rng = createRng(1);
+      for (let t = 0; t < 240; t++) state = stepSimulation(state, inputs, rng).state;
+      return state;
+    };
+    const greco = run('greco');
+    const minto = run('minto_2000');
+    expect(minto.combinedEff).toBeGreaterThan(greco.combinedEff);
+    expect(minto.moass).toBeLessThan(greco.moass);
+    expect(minto.vitals.rr).toBeLessThan(greco.vitals.rr);
+  });
+});
+
+describe('sedation at clinical doses', () => {
+  /** Deepest MOASS over ten minutes after the given boluses */
+  const deepest = (doses: [string, number][], archetype = 'healthy_adult') => {
+    const patient = PATIENT_ARCHETYPES[archetype];
+    const inputs = {
+      patient, variability: null, pkModelSelection: DEFAULT_PK_MODELS,
+      interactionModels: DEFAULT_INTERACTION_MODELS, fio2: 0.21, interventions: new Set<never>(),
+      airwayDevice: 'room_air' as const, position: 'supine' as const, cpr: null,
+    };
+    let state = createSimulationState(patient);
+    for (const [drug, dose] of doses) state = { ...state, ...giveBolus(state, inputs, drug, dose) };
+    const rng = createRng(1);
+    let moass = 5;
+    for (let t = 0; t < 600; t++) {
+      state = stepSimulation(state, inputs, rng).state;
+      moass = Math.min(moass, state.moass);
+    }
+    return moass;
+  };
+
+  it('midazolam 2 mg gives moderate sedation and 5 mg deep sedation', () => {
+    expect(deepest([['midazolam', 2]])).toBe(3);
+    expect(deepest([['midazolam', 5]])).toBe(2);
+  });
+
+  it('fentanyl alone leaves the patient drowsy', () => {
+    expect(deepest([['fentanyl', 50]])).toBe(4);
+    expect(deepest([['fentanyl', 100]])).toBe(4);
+  });
+
+  it('fentanyl with midazolam 2 mg gives moderate to deep sedation', () => {
+    const fen50 = deepest([['midazolam', 2], ['fentanyl', 50]]);
+    expect(fen50).toBeGreaterThanOrEqual(2);
+    expect(fen50).toBeLessThanOrEqual(3);
+    expect(deepest([['midazolam', 2], ['fentanyl', 100]])).toBe(3);
+  });
+});
+
+describe('procedural sedation rhythm', () => {
+  /** Rhythms and lowest SpO2 over `seconds` of a headless run */
+  const course = (oxygenSource: SedSimCoreInit['config']['oxygenSource'], initialDrugs: SedSimCoreInit['initialDrugs'], seconds = 900) => {
+    const engine = new HeadlessSedSimEngine(1);
+    engine.init(seed({ config: { timeStepSec: 5, maxTimeSec: seconds, oxygenSource, position: 'supine' }, initialDrugs }));
+    const rhythms = new Set<string>();
+    let lowestSpo2 = 100;
+    for (let t = 1; t <= seconds; t++) {
+      engine.tick({ currentTimeSec: t });
+      const vitals = engine.getState()!.vitals;
+      if (vitals.rhythm) rhythms.add(vitals.rhythm);
+      lowestSpo2 = Math.min(lowestSpo2, vitals.spo2);
+    }
+    return { rhythms, lowestSpo2 };
+  };
+
+  it('propofol, fentanyl and midazolam with a propofol infusion stay out of VT and VF', () => {
+    const { rhythms } = course('nasal_cannula', [
+      { timeSec: 0, drug: 'propofol', route: 'iv_bolus', doseMg: 100 },
+      { timeSec: 0, drug: 'fentanyl', route: 'iv_bolus', doseMg: 0.1 },
+      { timeSec: 0, drug: 'midazolam', route: 'iv_bolus', doseMg: 2 },
+      { timeSec: 0, drug: 'propofol', route: 'iv_infusion', rateMgPerHr: 300, onOff: 'start' },
+    ]);
+    for (const lethal of ['ventricular_tachycardia', 'polymorphic_vt', 'ventricular_fibrillation', 'asystole', 'pea']) {
+      expect(rhythms).not.toContain(lethal);
+    }
+  });
+
+  it('a propofol bolus on room air desaturates in sinus rhythm', () => {
+    const { rhythms, lowestSpo2 } = course('room_air', [{ timeSec: 0, drug: 'propofol', route: 'iv_bolus', doseMg: 100 }], 600);
+    expect(lowestSpo2).toBeLessThan(85);
+    for (const rhythm of rhythms) expect(['normal_sinus', 'sinus_tachycardia', 'sinus_bradycardia']).toContain(rhythm);
+  });
+});
+
+describe('HeadlessSedSimEngine', () => {
+  it('throws when ticked before init', () => {
+    expect(() => new HeadlessSedSimEngine(1).tick({ currentTimeSec: 10 })).toThrow();
+  });
+
+  it('records a snapshot every timeStepSec up to the current time', () => {
+    const engine = new HeadlessSedSimEngine(1);
+    engine.init(seed());
+    const out = engine.tick({ currentTimeSec: 60 });
+    expect(out.state.vital.timeSec).toBe(60);
+    expect(engine.getHistory().map(h => h.vital.timeSec)).toEqual([5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60]);
+    expect(out.state.depth.moass).toBe(5);
+  });
+
+  it('a propofol bolus deepens sedation and appears at the effect site', () => {
+    const engine = new HeadlessSedSimEngine(1);
+    engine.init(seed());
+    engine.tick({ currentTimeSec: 30, newDrugEvents: [{ timeSec: 30, drug: 'propofol', route: 'iv_bolus', doseMg: 120 }] });
+    const out = engine.tick({ currentTimeSec: 150 });
+    expect(out.state.depth.moass).toBeLessThan(4);
+    expect(out.state.depth.bisIndex).toBeLessThan(80);
+    expect(out.effectSiteConcentrations?.propofol).toBeGreaterThan(0);
+    expect(out.effectSiteConcentrations?.midazolam).toBe(0);
+  });
+
+  it('converts mg doses to mcg for fentanyl and stops infusions on request', () => {
+    const engine = new HeadlessSedSimEngine(1);
+    engine.init(seed({
+      initialDrugs: [
+        { timeSec: 0, drug: 'fentanyl', route: 'iv_bolus', doseMg: 0.1 },
+        { timeSec: 0, drug: 'propofol', route: 'iv_infusion', rateMgPerHr: 300, onOff: 'start' },
+      ],
+    }));
+    expect(engine.getState()?.pkStates.fentanyl.c1).toBeCloseTo(100 / DRUG_DATABASE.fentanyl.V1);
+    expect(engine.getState()?.infusions.propofol.rate).toBeCloseTo(5);
+    engine.tick({ currentTimeSec: 120, newDrugEvents: [{ timeSec: 60, drug: 'propofol', route: 'iv_infusion', onOff: 'stop' }] });
+    expect(engine.getState()?.infusions.propofol).toBeUndefined();
+  });
+
+  it('the same seed and inputs reproduce the history; reset replays it', () => {
+    const run = (engine: HeadlessSedSimEngine) => {
+      engine.tick({ currentTimeSec: 20, newDrugEvents: [{ timeSec: 10, drug: 'propofol', route: 'iv_bolus', doseMg: 100 }] });
+      engine.tick({ currentTimeSec: 120, newStimuli: [{ timeSec: 60, type: 'pain' }] });
+      return engine.getHistory();
+    };
+    const a = new HeadlessSedSimEngine(42);
+    a.init(seed());
+    const b = new HeadlessSedSimEngine(42);
+    b.init(seed());
+    const history = run(a);
+    expect(run(b)).toEqual(history);
+
+    a.reset();
+    expect(a.getHistory()).toEqual([]);
+    expect(run(a)).toEqual(history);
+  });
+
+  it('a variability seed samples an individual patient', () => {
+    const ceAfterBolus = (variabilitySeed?: number) => {
+      const engine = new HeadlessSedSimEngine(1);
+      engine.init(seed({ variabilitySeed, initialDrugs: [{ timeSec: 0, drug: 'propofol', route: 'iv_bolus', doseMg: 100 }] }));
+      return engine.tick({ currentTimeSec: 120 }).effectSiteConcentrations!.propofol;
+    };
+    expect(ceAfterBolus(7)).not.toBeCloseTo(ceAfterBolus(), 3);
+    expect(ceAfterBolus(7)).not.toBeCloseTo(ceAfterBolus(8), 3);
+    expect(ceAfterBolus(7)).toBe(ceAfterBolus(7));
+  });
+
+  it('each oxygen source selects its own device and delivers its FiO2', () => {
+    const expected = {
+      room_air: ['room_air', 0.21, 0.21],
+      nasal_cannula: ['nasal_cannula', 0.29, 0.6],
+      simple_mask: ['simple_mask', 0.40, 0.6],
+      nonrebreather: ['nonrebreather', 0.80, 0.9],
+    } as const;
+    const pao2: number[] = [];
+    for (const [source, [device, fio2, ceiling]] of Object.entries(expected)) {
+      const engine = new HeadlessSedSimEngine(1);
+      engine.init(seed({ config: { timeStepSec: 10, maxTimeSec: 600, oxygenSource: source as keyof typeof expected, position: 'supine' } }));
+      const inputs = engine.getInputs()!;
+      expect(inputs.airwayDevice).toBe(device);
+      expect(deliveredFiO2(inputs.airwayDevice, inputs.fio2, 1)).toBeCloseTo(fio2, 6);
+      // Hypoventilating: less room air entrained, up to the device ceiling
+      expect(deliveredFiO2(inputs.airwayDevice, inputs.fio2, 0.2)).toBeCloseTo(ceiling, 6);
+      engine.tick({ currentTimeSec: 300 });
+      pao2.push(engine.getState()!.vitals.pao2!);
+    }
+    expect(pao2).toEqual([...pao2].sort((a, b) => a - b));
+  });
+
+  it('stops at maxTimeSec', () => {
+    const engine = new HeadlessSedSimEngine(1);
+    engine.init(seed({ config: { timeStepSec: 10, maxTimeSec: 30, oxygenSource: 'room_air', position: 'supine' } }));
+    expect(engine.tick({ currentTimeSec: 100 }).state.vital.timeSec).toBe(30);
+  });
+
+  it('maps interface archetypes onto clinical patients', () => {
+    expect(patientFromArchetype(adult).mallampati).toBe(1);
+    const unknown = patientFromArchetype({ ...adult, id: 'custom', sex: 'female', airwayRisk: 'high', pkPdSensitivity: 1.3 });
+    expect(unknown).toMatchObject({ sex: 'F', height: 162, mallampati: 3, osa: true, drugSensitivity: 1.3 });
+  });
+});
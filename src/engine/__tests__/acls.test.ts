@@ -0,0 +1,324 @@
+/**
+ * Unit tests for the ACLS engine (acls.ts)
+ * CPR pressures against compression quality and epinephrine, myocardial
+ * viability, seeded shock outcomes, the 2-minute cycle, reversible causes,
+ * drug timing guidance, the arrest in the simulation step, and the ACLS
+ * JSON scenarios that drive it.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  cprHemodynamics, cprFeedback, stepAcls, startArrest, queueShock, recordTreatment, recordAclsDose,
+  terminationProbability, untreatedCauseFactor, aclsGuidance, aedEnergy, epinephrineEffect,
+  NO_ARREST, GUIDELINE_CPR, CPR_CYCLE_SECONDS, AclsState, AclsInputs, AclsTransition, AclsRhythm,
+} from '../acls';
+import { createSimulationState, stepSimulation, giveBolus, SimulationInputs, SimulationState } from '../SedSimCoreEngine';
+import { DEFAULT_PK_MODELS } from '../pkModelRegistry';
+import { DEFAULT_INTERACTION_MODELS } from '../responseSurface';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import { createRng, Rng } from '../prng';
+import { SedSimScenarioSchema } from '../scenarios/schema';
+import type { LogEntry } from '../../types';
+import aclsVfibArrest from '../scenarios/acls_vfib_arrest.json';
+import aclsPulselessVtach from '../scenarios/acls_pulseless_vtach.json';
+import aclsAsystole from '../scenarios/acls_asystole.json';
+import aclsPea from '../scenarios/acls_pea.json';
+
+/** Never fires a spontaneous transition */
+const NO_CHANCE: Rng = () => 0.999;
+
+const INPUTS: AclsInputs = {
+  rhythm: 'normal_sinus',
+  cpr: GUIDELINE_CPR,
+  ventilated: true,
+  pkStates: {},
+  spo2: 95,
+  intravascularChange: 0,
+};
+
+const arrest = (rhythm: AclsRhythm, causes: AclsState['causes'] = []) => startArrest(NO_ARREST, rhythm, causes, 0);
+
+/** Step `seconds` from `from` under `inputs` */
+const run = (from: AclsState, seconds: number, inputs: AclsInputs = INPUTS, rng: Rng = NO_CHANCE, start = 0) => {
+  let state = from;
+  const transitions: AclsTransition[] = [];
+  for (let t = start; t < start + seconds; t++) {
+    const step = stepAcls(state, inputs, t, 1, rng);
+    state = step.state;
+    transitions.push(...step.transitions);
+  }
+  return { state, transitions };
+};
+
+describe('CPR hemodynamics', () => {
+  it('guideline compressions perfuse the coronaries; none leave the filling pressure', () => {
+    const guideline = cprHemodynamics(GUIDELINE_CPR, 0);
+    expect(guideline.sbp).toBeCloseTo(90);
+    expect(guideline.cpp).toBeGreaterThan(20);
+    expect(guideline.etco2).toBeGreaterThan(20);
+    const none = cprHemodynamics(null, 0);
+    expect(none.cpp).toBe(0);
+    expect(none.sbp).toBe(none.dbp);
+  });
+
+  it('shallow, slow or leaning compressions lower CPP and EtCO2', () => {
+    const guideline = cprHemodynamics(GUIDELINE_CPR, 0);
+    const shallow = cprHemodynamics({ ...GUIDELINE_CPR, depth: 3.5 }, 0);
+    const slow = cprHemodynamics({ ...GUIDELINE_CPR, rate: 70 }, 0);
+    const leaning = cprHemodynamics({ ...GUIDELINE_CPR, recoil: 0.5 }, 0);
+    [shallow, slow, leaning].forEach(h => {
+      expect(h.cpp).toBeLessThan(guideline.cpp - 5);
+      expect(h.etco2).toBeLessThanOrEqual(guideline.etco2);
+    });
+    expect(leaning.rap).toBeGreaterThan(guideline.rap);
+  });
+
+  it('epinephrine raises diastolic and coronary perfusion pressure', () => {
+    const epinephrine = epinephrineEffect({ epinephrine: { c1: 0, c2: 0, c3: 0, ce: 0.06 } });
+    expect(epinephrine).toBeGreaterThan(0.8);
+    expect(cprHemodynamics(GUIDELINE_CPR, epinephrine).cpp).toBeGreaterThan(cprHemodynamics(GUIDELINE_CPR, 0).cpp + 8);
+  });
+
+  it('feedback names each target missed', () => {
+    expect(cprFeedback(GUIDELINE_CPR)).toEqual([]);
+    expect(cprFeedback({ rate: 140, depth: 4, recoil: 0.6 })).toHaveLength(3);
+  });
+});
+
+describe('viability', () => {
+  it('decays without compressions and holds with good CPR', () => {
+    const noFlow = run(arrest('ventricular_fibrillation'), 240, { ...INPUTS, cpr: null }).state;
+    expect(noFlow.viability).toBeCloseTo(Math.exp(-1), 1);
+    expect(noFlow.handsOffSince).toBe(0);
+    const compressed = run(arrest('ventricular_fibrillation'), 240).state;
+    expect(compressed.viability).toBeGreaterThan(0.85);
+    expect(compressed.compressionSeconds).toBe(240);
+  });
+
+  it('recovers under good CPR after a no-flow interval', () => {
+    const noFlow = run(arrest('ventricular_fibrillation'), 180, { ...INPUTS, cpr: null }).state;
+    const resumed = run(noFlow, 120, INPUTS, NO_CHANCE, 180).state;
+    expect(resumed.viability).toBeGreaterThan(noFlow.viability);
+  });
+});
+
+describe('shocks', () => {
+  it('escalates energy and terminates more often with energy, viability and amiodarone', () => {
+    expect([1, 2, 3, 4].map(aedEnergy)).toEqual([120, 150, 200, 200]);
+    expect(terminationProbability(200, 1, 0)).toBeGreaterThan(terminationProbability(120, 1, 0));
+    expect(terminationProbability(200, 0.3, 0)).toBeLessThan(terminationProbability(200, 1, 0));
+    expect(terminationProbability(150, 0.5, 1)).toBeGreaterThan(terminationProbability(150, 0.5, 0));
+  });
+
+  it('has no effect on asystole and draws nothing to say so', () => {
+    let draws = 0;
+    const counting: Rng = () => { draws++; return 0.999; };
+    const { state, transitions } = stepAcls(queueShock(arrest('asystole'), 200), INPUTS, 0, 1, counting);
+    expect(transitions[0]).toMatchObject({ type: 'shock', outcome: 'not_indicated' });
+    expect(state.rhythm).toBe('asystole');
+    expect(draws).toBe(1);  // the spontaneous-transition draw only
+  });
+
+  it('converts perfusing VT outside an arrest', () => {
+    const { state, transitions } = stepAcls(
+      queueShock(NO_ARREST, 100), { ...INPUTS, rhythm: 'ventricular_tachycardia' }, 0, 1, () => 0
+    );
+    expect(transitions).toEqual([{ type: 'shock', energy: 100, rhythm: 'ventricular_tachycardia', outcome: 'converted' }]);
+    expect(state.rhythm).toBeNull();
+  });
+
+  it('outcomes are reproducible from the seed and span VF → PEA → ROSC', () => {
+    const outcomes = (seed: number) => {
+      const rng = createRng(seed);
+      return Array.from({ length: 40 }, () => stepAcls(queueShock(arrest('ventricular_fibrillation'), 200), INPUTS, 0, 1, rng)
+        .transitions.find(t => t.type === 'shock'));
+    };
+    const first = outcomes(11);
+    expect(outcomes(11)).toEqual(first);
+    const kinds = new Set(first.map(t => t?.type === 'shock' && t.outcome));
+    ['rosc', 'pea', 'refibrillated'].forEach(kind => expect(kinds).toContain(kind));
+  });
+
+  it('a shock resets the cycle so compressions resume with a full two minutes', () => {
+    const running = run(arrest('ventricular_fibrillation'), 60).state;
+    expect(running.cycleStart).toBe(0);
+    const shocked = stepAcls(queueShock(running, 200), { ...INPUTS, cpr: null }, 60, 1, () => 0.5).state;
+    expect(shocked.cycleStart).toBeNull();
+  });
+});
+
+describe('cycle timer', () => {
+  it('completes a cycle every two minutes of compressions', () => {
+    const { state, transitions } = run(arrest('pea'), 2 * CPR_CYCLE_SECONDS + 30);
+    expect(transitions.filter(t => t.type === 'cycle_complete')).toEqual([
+      { type: 'cycle_complete', cycle: 1 },
+      { type: 'cycle_complete', cycle: 2 },
+    ]);
+    expect(state.cycleStart).not.toBeNull();
+  });
+});
+
+describe('reversible causes', () => {
+  it('infers hypoxia from the physiology that arrested', () => {
+    const { state, transitions } = stepAcls(
+      NO_ARREST, { ...INPUTS, rhythm: 'asystole', spo2: 55, ventilated: false }, 30, 1, NO_CHANCE
+    );
+    expect(transitions[0]).toEqual({ type: 'arrest', rhythm: 'asystole', causes: ['hypoxia'] });
+    expect(state.arrestStart).toBe(30);
+  });
+
+  it('hypoxia is corrected while ventilated, toxins by an antagonist, the rest by their treatment', () => {
+    const from = arrest('pea', ['hypoxia', 'toxins', 'tamponade']);
+    expect(untreatedCauseFactor(from)).toBeCloseTo(0.1 * 0.1 * 0.05);
+    const naloxone = { naloxone: { c1: 0, c2: 0, c3: 0, ce: 0.01 } };
+    const { state, transitions } = run(recordTreatment(from, 'pericardiocentesis', 0), 1, { ...INPUTS, pkStates: naloxone });
+    expect(state.corrected).toEqual(['hypoxia', 'toxins', 'tamponade']);
+    expect(transitions.filter(t => t.type === 'cause_corrected')).toHaveLength(3);
+    expect(untreatedCauseFactor(state)).toBe(1);
+    const unventilated = run(state, 1, { ...INPUTS, ventilated: false, pkStates: naloxone }, NO_CHANCE, 1).state;
+    expect(unventilated.corrected).toEqual(['toxins', 'tamponade']);
+  });
+
+  it('untreated tamponade holds PEA; pericardiocentesis lets it perfuse', () => {
+    const roscTime = (from: AclsState) => run(from, 600, INPUTS, createRng(5)).state.roscTime;
+    expect(roscTime(arrest('pea', ['tamponade']))).toBeNull();
+    expect(roscTime(recordTreatment(arrest('pea', ['tamponade']), 'pericardiocentesis', 0))).not.toBeNull();
+  });
+});
+
+describe('guidance', () => {
+  it('non-shockable: compressions, no shock, epinephrine now, then its interval', () => {
+    const state = arrest('asystole', ['hypoxia']);
+    const guidance = aclsGuidance(state, 'asystole', null, 12);
+    expect(guidance[0]).toBe('Start compressions: hands off 12 s');
+    expect(guidance).toContain('Non-shockable rhythm: continue CPR, do not shock');
+    expect(guidance).toContain('Epinephrine 1 mg IV now');
+    expect(guidance).toContain('Hypoxia: Bag-mask ventilation, FiO2 100%');
+    const dosed = recordAclsDose(state, 'epinephrine', 1, 20);
+    expect(aclsGuidance(dosed, 'asystole', GUIDELINE_CPR, 80)).toContain('Next epinephrine in 120 s');
+    expect(aclsGuidance(dosed, 'asystole', GUIDELINE_CPR, 200)).toContain('Epinephrine 1 mg IV due (q3-5 min)');
+  });
+
+  it('shockable: escalating energy, epinephrine after the second shock, amiodarone after the third', () => {
+    const shocks = (n: number): AclsState => ({
+      ...arrest('ventricular_fibrillation'),
+      shocks: Array.from({ length: n }, (_, i) => ({
+        time: i * 120, energy: aedEnergy(i + 1), rhythm: 'ventricular_fibrillation' as const, outcome: 'failed' as const,
+      })),
+    });
+    expect(aclsGuidance(shocks(0), 'ventricular_fibrillation', GUIDELINE_CPR, 10)).toContain('Shockable rhythm: defibrillate 120 J');
+    expect(aclsGuidance(shocks(1), 'ventricular_fibrillation', GUIDELINE_CPR, 130).some(g => g.startsWith('Epinephrine'))).toBe(false);
+    expect(aclsGuidance(shocks(2), 'ventricular_fibrillation', GUIDELINE_CPR, 250)).toContain('Epinephrine 1 mg IV now');
+    expect(aclsGuidance(shocks(3), 'ventricular_fibrillation', GUIDELINE_CPR, 370)).toContain('Amiodarone 300 mg IV');
+    expect(aclsGuidance(shocks(3), 'ventricular_fibrillation', GUIDELINE_CPR, 370)).toContain("Identify reversible causes (H's and T's)");
+  });
+});
+
+describe('simulation', () => {
+  const postMI = PATIENT_ARCHETYPES.post_mi_patient;
+  const inputs = (cpr: SimulationInputs['cpr']): SimulationInputs => ({
+    patient: postMI,
+    variability: null,
+    pkModelSelection: DEFAULT_PK_MODELS,
+    interactionModels: DEFAULT_INTERACTION_MODELS,
+    fio2: 1,
+    interventions: new Set(['bag_mask']),
+    airwayDevice: 'nasal_cannula',
+    position: 'supine',
+    cpr,
+  });
+
+  const advance = (state: SimulationState, seconds: number, rng: Rng, events: LogEntry[]) => {
+    for (let t = 0; t < seconds; t++) {
+      const step = stepSimulation(state, inputs(GUIDELINE_CPR), rng);
+      state = step.state;
+      events.push(...step.events);
+    }
+    return state;
+  };
+
+  it('the monitor shows the arrest rhythm over CPR pressures; shocks and epinephrine are logged through ROSC', () => {
+    const rng = createRng(7);
+    const events: LogEntry[] = [];
+    let state = createSimulationState(postMI);
+    state = { ...state, acls: startArrest(state.acls, 'ventricular_fibrillation', [], 0) };
+    state = advance(state, 20, rng, events);
+
+    expect(state.vitals.rhythm).toBe('ventricular_fibrillation');
+    expect(state.vitals.hr).toBe(0);
+    expect(state.vitals.sbp).toBeCloseTo(90);
+    expect(state.vitals.etco2).toBeGreaterThan(15);
+    expect(state.digitalTwin?.predictedOutcome.aclsGuidance).toContain('Shockable rhythm: defibrillate 120 J');
+
+    // Shock a shockable rhythm, otherwise epinephrine every 3 minutes, until ROSC
+    let lastEpinephrine = -Infinity;
+    for (let time = 20; time < 900 && state.acls.roscTime === null; time += 10) {
+      if (state.acls.rhythm === 'ventricular_fibrillation') {
+        state = { ...state, acls: queueShock(state.acls, aedEnergy(state.acls.shocks.length + 1)) };
+      } else if (time - lastEpinephrine >= 180) {
+        state = { ...state, ...giveBolus(state, inputs(GUIDELINE_CPR), 'epinephrine', 1) };
+        lastEpinephrine = time;
+      }
+      state = advance(state, 10, rng, events);
+    }
+    expect(events.some(e => e.message.startsWith('DEFIBRILLATION 120 J'))).toBe(true);
+    expect(events.some(e => e.message.startsWith('ROSC after'))).toBe(true);
+    expect(state.acls.rhythm).toBeNull();
+    expect(state.vitals.hr).toBeGreaterThan(30);
+    expect(state.vitals.sbp).toBeGreaterThan(60);
+  });
+
+  it('an unsupported arrest desaturates, retains CO2 and stays unresponsive', () => {
+    const healthy = PATIENT_ARCHETYPES.healthy_adult;
+    const roomAir: SimulationInputs = {
+      ...inputs(null), patient: healthy, fio2: 0.21, interventions: new Set(), airwayDevice: 'room_air',
+    };
+    const rng = createRng(3);
+    let state = createSimulationState(healthy);
+    state = { ...state, ...giveBolus(state, roomAir, 'propofol', 150) };
+    for (let t = 0; t < 60; t++) state = stepSimulation(state, roomAir, rng).state;
+    state = { ...state, acls: startArrest(state.acls, 'ventricular_fibrillation', [], state.elapsedSeconds) };
+
+    const atArrest = state.vitals;
+    const samples: SimulationState[] = [];
+    for (let t = 0; t < 300 && state.acls.roscTime === null; t++) {
+      state = stepSimulation(state, roomAir, rng).state;
+      if ((t + 1) % 60 === 0) samples.push(state);
+    }
+    expect(samples).toHaveLength(5);
+    for (const [i, sample] of samples.entries()) {
+      expect(sample.moass).toBe(0);
+      if (i > 0) {
+        expect(sample.vitals.spo2).toBeLessThan(samples[i - 1].vitals.spo2);
+        expect(sample.vitals.paco2!).toBeGreaterThan(samples[i - 1].vitals.paco2!);
+      }
+    }
+    expect(samples[4].vitals.spo2).toBeLessThan(40);
+    expect(samples[4].vitals.paco2!).toBeGreaterThan(atArrest.paco2! + 15);
+  });
+
+  it('ventilated compressions hold saturation and clear CO2', () => {
+    const rng = createRng(7);
+    let state = createSimulationState(postMI);
+    state = { ...state, acls: startArrest(state.acls, 'asystole', [], 0) };
+    const unsupported = { ...inputs(null), interventions: new Set<never>() };
+    for (let t = 0; t < 120; t++) state = stepSimulation(state, unsupported, rng).state;
+    const hypoxic = state.vitals;
+    for (let t = 0; t < 240; t++) state = stepSimulation(state, inputs(GUIDELINE_CPR), rng).state;
+    expect(state.vitals.spo2).toBeGreaterThan(hypoxic.spo2 + 30);
+    expect(state.vitals.paco2!).toBeLessThan(hypoxic.paco2!);
+    expect(state.moass).toBe(0);
+  });
+});
+
+describe('ACLS scenarios', () => {
+  const scenarios = { aclsVfibArrest, aclsPulselessVtach, aclsAsystole, aclsPea };
+
+  it.each(Object.entries(scenarios))('%s validates and starts a real arrest on an existing patient', (_, json) => {
+    const scenario = SedSimScenarioSchema.parse(json);
+    expect(PATIENT_ARCHETYPES[scenario.patient.archetypeId]).toBeDefined();
+    const actions = scenario.states.flatMap(s => s.simActions ?? []).map(a => a.type);
+    expect(actions).toContain('cardiac_arrest');
+    expect(actions).not.toContain('set_rhythm');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for the laryngospasm / bronchospasm engine (airwayComplications.ts)
+ * Triggers, rescue responses (CPAP, succinylcholine, epinephrine, albuterol)
+ * and the resulting capnography, SpO2, airway pressure and hemodynamics.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  stepComplications,
+  complicationEffects,
+  triggerComplication,
+  rescueEffect,
+  peakAirwayPressure,
+  parseRescueRoute,
+  NO_AIRWAY_COMPLICATIONS,
+  AirwayComplicationState,
+  ComplicationInputs,
+  RescueDose,
+} from '../airwayComplications';
+import { assessUpperAirway } from '../upperAirway';
+import { calculateVitals, PATIENT_ARCHETYPES, BASELINE_VITALS } from '../physiology';
+import { ZERO_ENDPOINT_EFFECTS } from '../responseSurface';
+import type { InterventionType, PKState, Vitals } from '../../types';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+const ce = (value: number): PKState => ({ c1: value, c2: 0, c3: 0, ce: value });
+const light = { ...ZERO_ENDPOINT_EFFECTS, verbal: 0.9, noxious: 0.05 };
+const never = () => 1;
+const always = () => 0;
+
+const inputs = (overrides: Partial<ComplicationInputs> = {}): ComplicationInputs => ({
+  pkStates: { propofol: ce(3) },
+  patient: healthy,
+  endpointEffects: light,
+  airwayStimulation: 0,
+  interventions: new Set<InterventionType>(),
+  spo2: 97,
+  ...overrides,
+});
+
+/** Step the complication state for `seconds`, optionally giving doses along the way */
+const evolve = (
+  start: AirwayComplicationState,
+  seconds: number,
+  overrides: Partial<ComplicationInputs> = {},
+  doses: RescueDose[] = []
+): AirwayComplicationState => {
+  let s = start;
+  for (let t = 1; t <= seconds; t++) {
+    const due = doses.filter(d => d.time === t);
+    if (due.length) s = { ...s, rescueDoses: [...s.rescueDoses, ...due] };
+    s = stepComplications(s, inputs(overrides), t, 1, never).state;
+  }
+  return s;
+};
+
+describe('onset', () => {
+  it('airway stimulation under light sedation can trigger laryngospasm', () => {
+    const r = stepComplications(NO_AIRWAY_COMPLICATIONS, inputs({ airwayStimulation: 0.9 }), 1, 1, always);
+    expect(r.onsets).toContain('laryngospasm');
+    expect(r.state.laryngospasm).toBeGreaterThan(0);
+  });
+
+  it('no airway stimulation, no laryngospasm', () => {
+    const r = stepComplications(NO_AIRWAY_COMPLICATIONS, inputs(), 1, 1, always);
+    expect(r.onsets).toHaveLength(0);
+  });
+
+  it('reflex bronchospasm needs a reactive airway', () => {
+    const asthmatic = { ...healthy, asthma: true };
+    const stimulated = inputs({ airwayStimulation: 0.9, pkStates: {}, endpointEffects: ZERO_ENDPOINT_EFFECTS });
+    const r = stepComplications(NO_AIRWAY_COMPLICATIONS, { ...stimulated, patient: asthmatic }, 1, 1, always);
+    expect(r.onsets).toContain('bronchospasm');
+    expect(r.state.bronchospasmCause).toBe('asthma');
+  });
+});
+
+describe('laryngospasm rescue', () => {
+  const spasm = triggerComplication(NO_AIRWAY_COMPLICATIONS, 'laryngospasm', 0.9);
+
+  it('CPAP breaks the spasm much faster than waiting', () => {
+    const cpap = evolve(spasm, 60, { interventions: new Set<InterventionType>(['cpap']) });
+    const untreated = evolve(spasm, 60);
+    expect(cpap.laryngospasm).toBeLessThan(0.1);
+    expect(untreated.laryngospasm).toBeGreaterThan(0.3);
+  });
+
+  it('ongoing airway stimulation tightens a partial spasm', () => {
+    const partial = triggerComplication(NO_AIRWAY_COMPLICATIONS, 'laryngospasm', 0.4);
+    expect(evolve(partial, 20, { airwayStimulation: 0.9 }).laryngospasm).toBeGreaterThan(0.4);
+  });
+
+  it('sub-paralytic succinylcholine relaxes the cords without full paralysis', () => {
+    const dose: RescueDose = { drug: 'succinylcholine', dose: 0.2 * healthy.weight, route: 'iv', time: 0 };
+    const e = complicationEffects({ ...spasm, rescueDoses: [dose] }, 60, healthy, light);
+    expect(e.laryngospasm).toBeLessThan(0.2);
+    expect(e.paralysis).toBeLessThan(0.2);
+
+    const rsi: RescueDose = { ...dose, dose: 1.5 * healthy.weight };
+    expect(complicationEffects({ ...spasm, rescueDoses: [rsi] }, 60, healthy, light).paralysis).toBeGreaterThan(0.8);
+  });
+
+  it('complete spasm is silent with a flat capnogram; partial spasm gives stridor', () => {
+    const pk = { propofol: ce(2) };
+    const none = new Set<InterventionType>();
+    expect(assessUpperAirway(pk, healthy, none, 'room_air', 'supine', 0.9).obstructionType).toBe('complete');
+    expect(assessUpperAirway(pk, healthy, none, 'room_air', 'supine', 0.3).stridor).toBe(true);
+    expect(assessUpperAirway(pk, healthy, none, 'ett', 'supine', 0.9).patency).toBe(1);
+
+    let v: Vitals = BASELINE_VITALS;
+    const complications = { laryngospasm: 0.9, bronchospasm: 0, anaphylaxis: 0, paralysis: 0 };
+    for (let t = 1; t <= 60; t++) {
+      v = calculateVitals(pk, healthy, v, 0.21, v.rhythm ?? 'normal_sinus', t, none, undefined, undefined,
+        { airwayDevice: 'room_air', position: 'supine', complications });
+    }
+    expect(v.etco2).toBe(0);
+    expect(v.rr).toBeGreaterThan(0);
+  });
+});
+
+describe('bronchospasm and anaphylaxis', () => {
+  const anaphylaxis = triggerComplication(NO_AIRWAY_COMPLICATIONS, 'bronchospasm', 0.4, 'anaphylaxis');
+
+  it('anaphylaxis progresses without epinephrine and resolves with it', () => {
+    const untreated = evolve(anaphylaxis, 300);
+    const epi = evolve(anaphylaxis, 300, {}, [{ drug: 'epinephrine', dose: 0.5, route: 'im', time: 30 }]);
+    expect(untreated.bronchospasm).toBeGreaterThan(0.7);
+    expect(complicationEffects(epi, 300, healthy, light).bronchospasm)
+      .toBeLessThan(complicationEffects(untreated, 300, healthy, light).bronchospasm / 2);
+  });
+
+  it('albuterol relieves asthmatic bronchospasm more than anaphylactic', () => {
+    const dose: RescueDose = { drug: 'albuterol', dose: 400, route: 'inhaled', time: 0 };
+    const asthma = triggerComplication(NO_AIRWAY_COMPLICATIONS, 'bronchospasm', 0.6, 'asthma');
+    const ana = triggerComplication(NO_AIRWAY_COMPLICATIONS, 'bronchospasm', 0.6, 'anaphylaxis');
+    const e = (s: AirwayComplicationState) =>
+      complicationEffects({ ...s, rescueDoses: [dose] }, 300, healthy, ZERO_ENDPOINT_EFFECTS).bronchospasm;
+    expect(e(asthma)).toBeLessThan(e(ana));
+  });
+
+  it('IM epinephrine acts more slowly than IV', () => {
+    const im: RescueDose = { drug: 'epinephrine', dose: 0.5, route: 'im', time: 0 };
+    const iv: RescueDose = { drug: 'epinephrine', dose: 0.1, route: 'iv', time: 0 };
+    expect(rescueEffect([iv], 'epinephrine', 30, healthy.weight)).toBeGreaterThan(rescueEffect([im], 'epinephrine', 30, healthy.weight));
+    expect(parseRescueRoute('epinephrine', 'iv_slow_push')).toBe('iv');
+    expect(parseRescueRoute('albuterol')).toBe('inhaled');
+  });
+
+  it('signature: low EtCO2 for the PaCO2, falling SpO2, shock, high airway pressure', () => {
+    const pk = { propofol: ce(2) };
+    const complications = { laryngospasm: 0, bronchospasm: 0.8, anaphylaxis: 0.8, paralysis: 0 };
+    const interventions = new Set<InterventionType>(['bag_mask']);
+    let v: Vitals = BASELINE_VITALS;
+    for (let t = 1; t <= 180; t++) {
+      v = calculateVitals(pk, healthy, v, 0.21, v.rhythm ?? 'normal_sinus', t, new Set(), undefined, undefined,
+        { airwayDevice: 'room_air', position: 'supine', complications });
+    }
+    expect(v.paco2! - v.etco2).toBeGreaterThan(10);
+    expect(v.spo2).toBeLessThan(92);
+    expect(v.sbp).toBeLessThan(90);
+    expect(v.paw).toBeUndefined();
+
+    const bagged = calculateVitals(pk, healthy, v, 0.21, v.rhythm ?? 'normal_sinus', 181, interventions, undefined, undefined,
+      { airwayDevice: 'room_air', position: 'supine', complications });
+    expect(bagged.paw).toBeGreaterThan(30);
+    expect(peakAirwayPressure({ ...complications, bronchospasm: 0 }, healthy)).toBeLessThan(20);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the circulation model (circulation.ts)
+ * Venous return / ventricular coupling at rest, drug actions on the
+ * components, volume, vasopressors, anaphylaxis and the baroreflex.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeCirculation,
+  cardiacPhenotype,
+  DEFAULT_CIRCULATION_CONTEXT,
+  CirculationContext,
+} from '../circulation';
+import { computeVisualizationState } from '../../store/slices/vitalsSlice';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import type { MOASSLevel, PKState } from '../../types';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+const ce = (value: number): PKState => ({ c1: value, c2: 0, c3: 0, ce: value });
+const context = (overrides: Partial<CirculationContext> = {}): CirculationContext => ({
+  ...DEFAULT_CIRCULATION_CONTEXT,
+  ...overrides,
+});
+const rest = computeCirculation({}, healthy);
+
+describe('resting operating point', () => {
+  it('healthy adult: normal volumes, output and pressures', () => {
+    expect(rest.edv).toBeGreaterThan(100);
+    expect(rest.edv).toBeLessThan(140);
+    expect(rest.ef).toBeGreaterThan(55);
+    expect(rest.co).toBeGreaterThan(4.5);
+    expect(rest.co).toBeLessThan(7);
+    expect(rest.map).toBeGreaterThan(85);
+    expect(rest.map).toBeLessThan(100);
+    expect(rest.map).toBeCloseTo((rest.sbp + 2 * rest.dbp) / 3, 6);
+  });
+
+  it('cardiac output equals venous return', () => {
+    expect(rest.co * rest.hr).toBeGreaterThan(0);
+    expect(rest.msfp - rest.rap).toBeCloseTo(rest.co * 0.9, 3);
+  });
+
+  it('dilated cardiomyopathy: large ventricle, low EF and output', () => {
+    const dcm = PATIENT_ARCHETYPES.dcm_old;
+    expect(cardiacPhenotype(dcm)).toBe('dcm');
+    const c = computeCirculation({}, dcm);
+    expect(c.edv).toBeGreaterThan(rest.edv + 40);
+    expect(c.ef).toBeLessThan(35);
+    expect(c.co).toBeLessThan(rest.co);
+    expect(c.hr).toBeGreaterThan(rest.hr);
+  });
+
+  it('elderly: stiff arteries widen the pulse pressure', () => {
+    const c = computeCirculation({}, PATIENT_ARCHETYPES.elderly);
+    expect(c.sbp - c.dbp).toBeGreaterThan(rest.sbp - rest.dbp + 20);
+  });
+});
+
+describe('drug actions', () => {
+  it('propofol lowers SVR, venous return and MAP; the blunted reflex barely raises HR', () => {
+    const c = computeCirculation({ propofol: ce(5) }, healthy);
+    expect(c.svr).toBeLessThan(rest.svr * 0.9);
+    expect(c.msfp).toBeLessThan(rest.msfp);
+    expect(c.edv).toBeLessThan(rest.edv);
+    expect(c.map).toBeLessThan(rest.map - 10);
+    expect(c.hr).toBeLessThan(rest.hr + 5);
+  });
+
+  it('ketamine is sympathomimetic', () => {
+    const c = computeCirculation({ ketamine: ce(2) }, healthy);
+    expect(c.hr).toBeGreaterThan(rest.hr);
+    expect(c.svr).toBeGreaterThan(rest.svr);
+    expect(c.map).toBeGreaterThan(rest.map);
+  });
+
+  it('dexmedetomidine slows the heart', () => {
+    const c = computeCirculation({ dexmedetomidine: ce(1) }, healthy);
+    expect(c.hr).toBeLessThan(rest.hr - 4);
+  });
+
+  it('atropine reverses opioid bradycardia and blocks reflex slowing', () => {
+    const fentanyl = computeCirculation({ fentanyl: ce(4) }, healthy);
+    const atropine = computeCirculation({ fentanyl: ce(4), atropine: ce(0.01) }, healthy);
+    expect(atropine.hr).toBeGreaterThan(fentanyl.hr + 20);
+
+    const phenylephrine = computeCirculation({ phenylephrine: ce(3) }, healthy);
+    const both = computeCirculation({ phenylephrine: ce(3), atropine: ce(0.01) }, healthy);
+    expect(phenylephrine.hr).toBeLessThan(rest.hr);
+    expect(both.hr).toBeGreaterThan(phenylephrine.hr);
+  });
+
+  it('epinephrine: inotropy and tachycardia, vasoconstriction at higher Ce', () => {
+    const low = computeCirculation({ epinephrine: ce(0.003) }, healthy);
+    const high = computeCirculation({ epinephrine: ce(0.03) }, healthy);
+    expect(low.hr).toBeGreaterThan(rest.hr + 10);
+    expect(low.ees).toBeGreaterThan(rest.ees);
+    expect(high.svr).toBeGreaterThan(low.svr);
+    expect(high.map).toBeGreaterThan(rest.map + 15);
+  });
+});
+
+describe('volume, interventions and complications', () => {
+  it('fluid raises preload and stroke volume; hemorrhage triggers reflex tachycardia', () => {
+    const loaded = computeCirculation({}, healthy, context({ volumeChange: 300 }));
+    expect(loaded.edv).toBeGreaterThan(rest.edv);
+    expect(loaded.sv).toBeGreaterThan(rest.sv);
+
+    const bled = computeCirculation({}, healthy, context({ volumeChange: -1000 }));
+    expect(bled.sv).toBeLessThan(rest.sv * 0.8);
+    expect(bled.hr).toBeGreaterThan(rest.hr + 15);
+  });
+
+  it('phenylephrine restores MAP under propofol', () => {
+    const prop = computeCirculation({ propofol: ce(5) }, healthy);
+    const pressor = computeCirculation({ propofol: ce(5), phenylephrine: ce(3) }, healthy);
+    expect(pressor.svr).toBeGreaterThan(prop.svr);
+    expect(pressor.map).toBeGreaterThan(prop.map + 8);
+  });
+
+  it('anaphylaxis: distributive shock with tachycardia', () => {
+    const c = computeCirculation({}, healthy, context({ anaphylaxis: 0.8 }));
+    expect(c.svr).toBeLessThan(rest.svr * 0.6);
+    expect(c.sbp).toBeLessThan(95);
+    expect(c.hr).toBeGreaterThan(rest.hr + 20);
+  });
+});
+
+describe('visualization reads the circulation', () => {
+  it('PV loop and echo use the same operating point as the vitals', () => {
+    const c = computeCirculation({ propofol: ce(3) }, healthy);
+    const vitals = { hr: c.hr, sbp: c.sbp, dbp: c.dbp, map: c.map, rr: 14, spo2: 98, etco2: 38 };
+    const viz = computeVisualizationState(vitals, { propofol: ce(3) }, healthy, 4 as MOASSLevel, 0.5, 0.21, 0, c);
+    expect(viz.frankStarlingPoint.vedv).toBe(c.edv);
+    expect(viz.frankStarlingPoint.sv).toBe(c.sv);
+    expect(viz.frankStarlingPoint.peakSys).toBe(c.sbp);
+    expect(viz.echoParams.heartRate).toBe(c.hr);
+  });
+});
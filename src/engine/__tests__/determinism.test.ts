@@ -0,0 +1,87 @@
+/**
+ * Unit tests for seeded simulation (prng.ts threaded through physiology.ts,
+ * eegModel.ts, airwayComplications.ts and predict.ts)
+ * The same seed and inputs reproduce the tick pipeline bit-exactly; a
+ * different seed changes only the noise.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DRUG_DATABASE } from '../drugs';
+import { stepPK, createInitialPKState } from '../pkModel';
+import { sedationDepth } from '../pdModel';
+import { calculateVitals, BASELINE_VITALS, PATIENT_ARCHETYPES } from '../physiology';
+import { generateEEG, EEGState } from '../eegModel';
+import { stepComplications, NO_AIRWAY_COMPLICATIONS } from '../airwayComplications';
+import { evaluateResponseSurface, ZERO_ENDPOINT_EFFECTS } from '../responseSurface';
+import { predictForward } from '../predict';
+import { createRng, Rng } from '../prng';
+import type { PKState, Vitals } from '../../types';
+
+const patient = PATIENT_ARCHETYPES.healthy_adult;
+
+/** PK → PD → vitals → EEG for `seconds`, propofol 100 mg at t = 0 */
+const runPipeline = (random: Rng, seconds: number) => {
+  let pk: PKState = createInitialPKState();
+  let vitals: Vitals = BASELINE_VITALS;
+  let eeg: EEGState | undefined;
+  const trace: { vitals: Vitals; eeg: number[] }[] = [];
+  for (let t = 0; t < seconds; t++) {
+    pk = stepPK(pk, DRUG_DATABASE.propofol, t === 0 ? 100 : 0, 0, 1);
+    const pkStates = { propofol: pk };
+    const eff = sedationDepth(evaluateResponseSurface({ propofol: pk.ce }));
+    vitals = calculateVitals(
+      pkStates, patient, vitals, 0.21, vitals.rhythm ?? 'normal_sinus', t,
+      undefined, undefined, undefined, undefined, undefined, random
+    );
+    eeg = generateEEG(pk.ce, 0, 0, 0, 0, patient.age, t, eff, eeg, random);
+    trace.push({ vitals, eeg: eeg.channels.Fp1.raw.slice(-8) });
+  }
+  return trace;
+};
+
+describe('seeded tick pipeline', () => {
+  it('the same seed reproduces vitals and EEG exactly', () => {
+    expect(runPipeline(createRng(7), 120)).toEqual(runPipeline(createRng(7), 120));
+  });
+
+  it('a different seed changes the noise but not the physiology', () => {
+    const a = runPipeline(createRng(7), 120);
+    const b = runPipeline(createRng(8), 120);
+    expect(a.map(f => f.vitals.hr)).not.toEqual(b.map(f => f.vitals.hr));
+    expect(a[119].eeg).not.toEqual(b[119].eeg);
+    // Noise amplitude is ±2 bpm / ±3 mmHg around the same operating point
+    expect(Math.abs(a[119].vitals.hr - b[119].vitals.hr)).toBeLessThanOrEqual(4);
+    expect(Math.abs(a[119].vitals.sbp - b[119].vitals.sbp)).toBeLessThanOrEqual(6);
+  });
+
+  it('stochastic complication onset is reproducible from the seed', () => {
+    const onsets = (seed: number) => {
+      const random = createRng(seed);
+      let state = NO_AIRWAY_COMPLICATIONS;
+      const times: number[] = [];
+      for (let t = 0; t < 600; t++) {
+        const step = stepComplications(state, {
+          pkStates: {},
+          patient: { ...patient, asthma: true },
+          endpointEffects: { ...ZERO_ENDPOINT_EFFECTS, verbal: 0.8 },
+          airwayStimulation: 1,
+          interventions: new Set(),
+          spo2: 98,
+        }, t, 1, random);
+        state = step.state;
+        if (step.onsets.length) times.push(t);
+      }
+      return times;
+    };
+    expect(onsets(11).length).toBeGreaterThan(0);
+    expect(onsets(11)).toEqual(onsets(11));
+  });
+
+  it('predictions are reproducible with a seeded generator', () => {
+    const predict = (seed: number) => predictForward(
+      { propofol: createInitialPKState() }, {}, patient, 0.21, BASELINE_VITALS,
+      [30, 60, 120], { drugName: 'propofol', dose: 80 }, new Set(), undefined, createRng(seed)
+    );
+    expect(predict(3)).toEqual(predict(3));
+  });
+});
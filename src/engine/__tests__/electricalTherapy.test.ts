@@ -0,0 +1,204 @@
+/**
+ * Unit tests for the manual defibrillator and pacer (electricalTherapy.ts)
+ * Shock routing, energy-dependent and seeded cardioversion, R-on-T VF,
+ * capture threshold and capture levels, the ventricular rate and filling
+ * an arrhythmia imposes on the circulation, and pacing and cardioversion
+ * through the simulation step.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  routeShock, conversionProbability, resolveCardioversion, vulnerablePeriodChance, captureThreshold,
+  pacingStatus, arrhythmiaRate, electricalLoading, ventricularFilling, setArrhythmia, queueElectricalShock,
+  NO_ELECTRICAL_THERAPY, MECHANICAL_MARGIN, CardioversionOutcome, PacerSettings,
+} from '../electricalTherapy';
+import { computeCirculation, DEFAULT_CIRCULATION_CONTEXT } from '../circulation';
+import { createSimulationState, stepSimulation, SimulationInputs, SimulationState } from '../SedSimCoreEngine';
+import { jsonScenarioToInteractive } from '../ScenarioEngine';
+import { DEFAULT_PK_MODELS } from '../pkModelRegistry';
+import { DEFAULT_INTERACTION_MODELS } from '../responseSurface';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import { SedSimScenarioSchema } from '../scenarios/schema';
+import { createRng, Rng } from '../prng';
+import type { CardiacRhythm, LogEntry } from '../../types';
+import type { SedSimScenario } from '../SedSimCase.types';
+import aclsBradycardiaHeartBlock from '../scenarios/acls_bradycardia_heart_block.json';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+
+describe('shocks', () => {
+  it('routes by sync, rhythm and arrest', () => {
+    expect(routeShock('ventricular_fibrillation', true, true)).toBe('no_sync');
+    expect(routeShock('asystole', true, true)).toBe('no_sync');
+    expect(routeShock('ventricular_fibrillation', true, false)).toBe('defibrillation');
+    expect(routeShock('ventricular_tachycardia', false, false)).toBe('defibrillation');
+    expect(routeShock('ventricular_tachycardia', false, true)).toBe('cardioversion');
+    expect(routeShock('svt', false, true)).toBe('cardioversion');
+    expect(routeShock('svt', false, false)).toBe('cardioversion');
+  });
+
+  it('conversion rises with energy toward each rhythm\'s ceiling', () => {
+    expect(conversionProbability('svt', 20)).toBeCloseTo(0.475);
+    expect(conversionProbability('atrial_fibrillation', 200)).toBeGreaterThan(conversionProbability('atrial_fibrillation', 70));
+    expect(conversionProbability('atrial_fibrillation', 1000)).toBeLessThanOrEqual(0.9);
+    expect(conversionProbability('ventricular_fibrillation', 200)).toBe(0);
+  });
+
+  it('seeded outcomes repeat; synchronized shocks never land on the T wave', () => {
+    const draw = (synchronized: boolean, seed: number) => {
+      const rng = createRng(seed);
+      return Array.from({ length: 400 }, () => resolveCardioversion('svt', 50, synchronized, 180, rng));
+    };
+    const count = (outcomes: CardioversionOutcome[], outcome: CardioversionOutcome) =>
+      outcomes.filter(o => o === outcome).length;
+    expect(draw(true, 4)).toEqual(draw(true, 4));
+    expect(count(draw(true, 4), 'induced_vf')).toBe(0);
+    expect(count(draw(true, 4), 'converted') / 400).toBeCloseTo(conversionProbability('svt', 50), 1);
+    expect(vulnerablePeriodChance(180)).toBeCloseTo(0.09);
+    expect(count(draw(false, 4), 'induced_vf')).toBeGreaterThan(15);
+  });
+});
+
+describe('pacing', () => {
+  const pacer = (current: number, rate = 70): PacerSettings => ({ rate, current });
+  const threshold = captureThreshold(healthy, 0);
+
+  it('the threshold rises with chest size, ischemia and hyperkalemia', () => {
+    expect(threshold).toBe(55);
+    expect(captureThreshold({ ...healthy, weight: 130 }, 0)).toBeGreaterThan(threshold);
+    expect(captureThreshold(healthy, 1)).toBe(80);
+    expect(captureThreshold({ ...healthy, potassium: 7.5 }, 0)).toBe(85);
+    expect(captureThreshold({ ...healthy, weight: 300, potassium: 9 }, 1)).toBe(140);
+  });
+
+  it('captures electrically at threshold and mechanically above the margin', () => {
+    const status = (current: number, rhythm: CardiacRhythm = 'third_degree_av_block', arrest = false, ischemia = 0) =>
+      pacingStatus(pacer(current), 34, rhythm, arrest, healthy, ischemia)?.capture;
+    expect(status(threshold - 5)).toBe('none');
+    expect(status(threshold)).toBe('electrical');
+    expect(status(threshold + MECHANICAL_MARGIN)).toBe('mechanical');
+    expect(status(140, 'asystole', true)).toBe('electrical');
+    expect(status(140, 'ventricular_fibrillation', true)).toBe('none');
+    expect(status(140, 'third_degree_av_block', false, 0.95)).toBe('electrical');
+  });
+
+  it('demand mode stays silent over a faster intrinsic rhythm', () => {
+    const status = pacingStatus(pacer(100, 60), 75, 'normal_sinus', false, healthy, 0);
+    expect(status?.firing).toBe(false);
+    expect(status?.capture).toBe('none');
+    expect(pacingStatus(null, 34, 'third_degree_av_block', false, healthy, 0)).toBeNull();
+  });
+});
+
+describe('circulation', () => {
+  it('a fixed ventricular rate overrides the reflex; lost filling lowers stroke volume', () => {
+    const block = computeCirculation({}, healthy, { ...DEFAULT_CIRCULATION_CONTEXT, ventricularRate: 34 });
+    expect(block.hr).toBe(34);
+    const normal = computeCirculation({}, healthy);
+    const unfilled = computeCirculation({}, healthy, { ...DEFAULT_CIRCULATION_CONTEXT, filling: 0.7 });
+    expect(unfilled.sv).toBeLessThan(normal.sv);
+  });
+
+  it('the arrhythmia sets rate and filling; atropine speeds a nodal block more than an infranodal one', () => {
+    expect(ventricularFilling(80, true)).toBe(1);
+    expect(ventricularFilling(180, true)).toBeLessThan(ventricularFilling(120, true));
+    expect(ventricularFilling(80, false)).toBeCloseTo(0.8);
+
+    const svt = electricalLoading(setArrhythmia(NO_ELECTRICAL_THERAPY, 'svt'), {});
+    expect(svt.ventricularRate).toBe(180);
+    expect(svt.filling).toBeLessThan(0.9);
+    expect(electricalLoading(setArrhythmia(NO_ELECTRICAL_THERAPY, 'normal_sinus'), {}).ventricularRate).toBeNull();
+
+    const atropine = { atropine: { c1: 0.01, c2: 0, c3: 0, ce: 0.01 } };
+    const gain = (rhythm: CardiacRhythm) => arrhythmiaRate(rhythm, atropine)! - arrhythmiaRate(rhythm, {})!;
+    expect(gain('sinus_bradycardia')).toBeGreaterThan(gain('third_degree_av_block') * 3);
+
+    const paced = { ...NO_ELECTRICAL_THERAPY, arrhythmia: 'third_degree_av_block' as const, pacer: { rate: 70, current: 80 } };
+    expect(electricalLoading(paced, {}, 'mechanical').ventricularRate).toBe(70);
+    expect(electricalLoading(paced, {}, 'electrical').ventricularRate).toBe(34);
+  });
+});
+
+describe('simulation', () => {
+  const inputs: SimulationInputs = {
+    patient: healthy,
+    variability: null,
+    pkModelSelection: DEFAULT_PK_MODELS,
+    interactionModels: DEFAULT_INTERACTION_MODELS,
+    fio2: 0.4,
+    interventions: new Set(),
+    airwayDevice: 'nasal_cannula',
+    position: 'supine',
+    cpr: null,
+  };
+
+  const advance = (state: SimulationState, seconds: number, rng: Rng, events: LogEntry[] = []) => {
+    for (let t = 0; t < seconds; t++) {
+      const step = stepSimulation(state, inputs, rng);
+      state = step.state;
+      events.push(...step.events);
+    }
+    return state;
+  };
+
+  const inRhythm = (rhythm: CardiacRhythm): SimulationState => {
+    const state = createSimulationState(healthy);
+    return { ...state, electrical: setArrhythmia(state.electrical, rhythm) };
+  };
+
+  it('complete heart block drops pressure; mechanical capture restores it', () => {
+    const rng = createRng(1);
+    const block = advance(inRhythm('third_degree_av_block'), 60, rng);
+    expect(block.vitals.rhythm).toBe('third_degree_av_block');
+    expect(block.vitals.hr).toBeLessThan(40);
+
+    const paced = advance({ ...block, electrical: { ...block.electrical, pacer: { rate: 70, current: 80 } } }, 60, rng);
+    expect(paced.vitals.pacing).toEqual({ rate: 70, current: 80, captured: true });
+    expect(paced.vitals.hr).toBe(70);
+    expect(paced.vitals.pulseRate).toBeGreaterThan(65);
+    expect(paced.vitals.map).toBeGreaterThan(block.vitals.map + 10);
+  });
+
+  it('electrical capture alone counts spikes without adding pulses', () => {
+    const rng = createRng(1);
+    const block = advance(inRhythm('third_degree_av_block'), 30, rng);
+    const paced = advance({ ...block, electrical: { ...block.electrical, pacer: { rate: 70, current: 56 } } }, 30, rng);
+    expect(paced.vitals.hr).toBe(70);
+    expect(paced.vitals.pacing?.captured).toBe(true);
+    expect(paced.vitals.pulseRate).toBeLessThan(40);
+  });
+
+  it('synchronized cardioversion of SVT is logged and returns the rhythm to the physiology', () => {
+    const rng = createRng(2);
+    const events: LogEntry[] = [];
+    let state = advance(inRhythm('svt'), 10, rng, events);
+    expect(state.vitals.hr).toBeGreaterThan(170);
+    for (let shock = 0; shock < 5 && state.electrical.arrhythmia; shock++) {
+      state = { ...state, electrical: queueElectricalShock(state.electrical, 100, true) };
+      state = advance(state, 5, rng, events);
+    }
+    expect(events.some(e => e.message === 'SYNCHRONIZED CARDIOVERSION 100 J: svt → sinus rhythm')).toBe(true);
+    expect(state.electrical.arrhythmia).toBeNull();
+    expect(state.vitals.rhythm).not.toBe('svt');
+    expect(state.acls.rhythm).toBeNull();
+  });
+
+  it('an unsynchronized shock to VT is the resuscitation\'s defibrillation', () => {
+    const rng = createRng(3);
+    let state = advance(inRhythm('ventricular_tachycardia'), 5, rng);
+    state = { ...state, electrical: queueElectricalShock(state.electrical, 200, false) };
+    state = advance(state, 2, rng);
+    expect(state.acls.shocks).toHaveLength(1);
+    expect(state.electrical.cardioversions).toHaveLength(0);
+  });
+});
+
+describe('bradycardia scenario', () => {
+  it('validates, holds complete heart block and paces', () => {
+    const json = SedSimScenarioSchema.parse(aclsBradycardiaHeartBlock);
+    expect(PATIENT_ARCHETYPES[json.patient.archetypeId]).toBeDefined();
+    const actions = jsonScenarioToInteractive(aclsBradycardiaHeartBlock as SedSimScenario).steps.flatMap(s => s.simActions ?? []);
+    expect(actions).toContainEqual({ type: 'set_rhythm', rhythm: 'third_degree_av_block' });
+    expect(actions).toContainEqual({ type: 'start_pacing', rate: 70, current: 60 });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the wake-up forecast (emergence.ts)
+ * Context-sensitive half-times against published shapes and emergence
+ * prediction through the pdModel response surface.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  forecastWakeUp,
+  contextSensitiveHalfTime,
+  soloThresholdCe,
+  EMERGENCE_EFFECT_THRESHOLD,
+} from '../emergence';
+import { applyBolus, advancePK, createInitialPKState } from '../pkModel';
+import { sedationDepth } from '../pdModel';
+import { evaluateResponseSurface } from '../responseSurface';
+import { resolveDrugParams, DEFAULT_PK_MODELS } from '../pkModelRegistry';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import { DRUG_DATABASE } from '../drugs';
+import type { DrugParams, PKState } from '../../types';
+
+const patient = PATIENT_ARCHETYPES.healthy_adult;
+const params: Record<string, DrugParams> = Object.fromEntries(
+  Object.keys(DRUG_DATABASE).map(k => [k, resolveDrugParams(k, patient, DEFAULT_PK_MODELS)])
+);
+
+describe('contextSensitiveHalfTime', () => {
+  it('propofol CSHT grows with infusion duration', () => {
+    const short = contextSensitiveHalfTime(params.propofol, 30 * 60)!;
+    const long = contextSensitiveHalfTime(params.propofol, 240 * 60)!;
+    expect(long).toBeGreaterThan(short);
+  });
+
+  it('remifentanil CSHT is short and context-insensitive (Kapila 1995: ~3-4 min)', () => {
+    const oneHour = contextSensitiveHalfTime(params.remifentanil, 60 * 60)!;
+    const fourHours = contextSensitiveHalfTime(params.remifentanil, 240 * 60)!;
+    expect(oneHour).toBeLessThanOrEqual(6 * 60);
+    expect(fourHours - oneHour).toBeLessThanOrEqual(60);
+  });
+
+  it('fentanyl CSHT at 4 h far exceeds remifentanil', () => {
+    const fent = contextSensitiveHalfTime(params.fentanyl, 240 * 60)!;
+    const remi = contextSensitiveHalfTime(params.remifentanil, 240 * 60)!;
+    expect(fent).toBeGreaterThan(remi * 5);
+  });
+});
+
+describe('soloThresholdCe', () => {
+  it('propofol threshold Ce produces exactly the emergence effect', () => {
+    const ce = soloThresholdCe('propofol', params.propofol)!;
+    expect(sedationDepth(evaluateResponseSurface({ propofol: ce }))).toBeCloseTo(EMERGENCE_EFFECT_THRESHOLD, 6);
+  });
+
+  it('opioids alone cannot prevent emergence', () => {
+    expect(soloThresholdCe('fentanyl', params.fentanyl)).toBeNull();
+  });
+
+  it('scales with the patient potency', () => {
+    const sensitive = { ...params.midazolam, EC50: params.midazolam.EC50 / 2 };
+    expect(soloThresholdCe('midazolam', sensitive)).toBeCloseTo(soloThresholdCe('midazolam', params.midazolam)! / 2, 9);
+  });
+});
+
+describe('forecastWakeUp', () => {
+  const idle: Record<string, PKState> = { propofol: createInitialPKState(), fentanyl: createInitialPKState() };
+
+  it('no drug on board: already awake, no per-drug entries', () => {
+    const f = forecastWakeUp(idle, {}, params);
+    expect(f.timeToEmergence).toBe(0);
+    expect(Object.keys(f.drugs)).toHaveLength(0);
+  });
+
+  it('propofol bolus: emergence after the MOASS 4 threshold is crossed', () => {
+    const pk = { ...idle, propofol: advancePK(applyBolus(createInitialPKState(), params.propofol, 150), params.propofol, 0, 90) };
+    const f = forecastWakeUp(pk, {}, params);
+    expect(f.timeToEmergence).not.toBeNull();
+    expect(f.timeToEmergence!).toBeGreaterThan(60);
+    expect(f.timeToEmergence!).toBeLessThan(30 * 60);
+    expect(f.trajectory[0].moass).toBeLessThan(4);
+    expect(f.trajectory[f.trajectory.length - 1].moass).toBeGreaterThanOrEqual(4);
+    // Single drug: drug threshold and combined emergence coincide
+    expect(Math.abs(f.drugs.propofol.timeToThreshold! - f.timeToEmergence!)).toBeLessThanOrEqual(15);
+  });
+
+  it('adding fentanyl delays emergence (opioid potentiation)', () => {
+    const prop = advancePK(applyBolus(createInitialPKState(), params.propofol, 150), params.propofol, 0, 90);
+    const fent = advancePK(applyBolus(createInitialPKState(), params.fentanyl, 100), params.fentanyl, 0, 90);
+    const alone = forecastWakeUp({ ...idle, propofol: prop }, {}, params);
+    const combo = forecastWakeUp({ propofol: prop, fentanyl: fent }, {}, params);
+    expect(combo.timeToEmergence!).toBeGreaterThan(alone.timeToEmergence!);
+  });
+
+  it('running infusion: stopping now wakes the patient sooner', () => {
+    const rate = 8; // mg/min propofol
+    const pk = { ...idle, propofol: advancePK(createInitialPKState(), params.propofol, rate, 1800) };
+    const f = forecastWakeUp(pk, { propofol: { rate, isRunning: true } }, params);
+    expect(f.timeToEmergenceIfStopped).not.toBeNull();
+    if (f.timeToEmergence !== null) {
+      expect(f.timeToEmergence).toBeGreaterThan(f.timeToEmergenceIfStopped!);
+    }
+  });
+});
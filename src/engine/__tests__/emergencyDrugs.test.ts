@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the emergency drug PK/PD (drugs.ts, circulation.ts, pdModel.ts)
+ * Time course of vasopressor and vagolytic effects, stacking of repeat
+ * doses, succinylcholine neuromuscular block, and no sedative action.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DRUG_DATABASE, EMERGENCY_DRUG_KEYS } from '../drugs';
+import { stepPK, createInitialPKState } from '../pkModel';
+import { isSedativeDrug, sedationDepth } from '../pdModel';
+import { evaluateResponseSurface } from '../responseSurface';
+import { assessNeuromuscular } from '../neuromuscular';
+import { computeCirculation } from '../circulation';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import type { PKState } from '../../types';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+const rest = computeCirculation({}, healthy);
+
+/** Effect-site state `seconds` after IV boluses given at the listed times */
+const afterDoses = (drug: string, doses: { time: number; dose: number }[], seconds: number): PKState => {
+  let s = createInitialPKState();
+  for (let t = 0; t < seconds; t++) {
+    const bolus = doses.filter(d => d.time === t).reduce((sum, d) => sum + d.dose, 0);
+    s = stepPK(s, DRUG_DATABASE[drug], bolus, 0, 1);
+  }
+  return s;
+};
+
+describe('vasoactive time course', () => {
+  it('a phenylephrine push raises MAP and wears off within 15 min', () => {
+    const at2 = computeCirculation({ phenylephrine: afterDoses('phenylephrine', [{ time: 0, dose: 100 }], 120) }, healthy);
+    const at15 = computeCirculation({ phenylephrine: afterDoses('phenylephrine', [{ time: 0, dose: 100 }], 900) }, healthy);
+    expect(at2.map).toBeGreaterThan(rest.map + 5);
+    expect(at2.hr).toBeLessThan(rest.hr);
+    expect(at15.map).toBeLessThan(rest.map + 3);
+  });
+
+  it('atropine 0.5 mg: tachycardia within a minute that outlasts phenylephrine', () => {
+    const at1 = computeCirculation({ atropine: afterDoses('atropine', [{ time: 0, dose: 0.5 }], 60) }, healthy);
+    const at15 = computeCirculation({ atropine: afterDoses('atropine', [{ time: 0, dose: 0.5 }], 900) }, healthy);
+    expect(at1.hr).toBeGreaterThan(rest.hr + 15);
+    expect(at15.hr).toBeGreaterThan(rest.hr + 5);
+  });
+
+  it('glycopyrrolate has a slower onset than atropine', () => {
+    const atropine = afterDoses('atropine', [{ time: 0, dose: 0.5 }], 30);
+    const glyco = afterDoses('glycopyrrolate', [{ time: 0, dose: 0.2 }], 30);
+    expect(glyco.ce / DRUG_DATABASE.glycopyrrolate.EC50).toBeLessThan(atropine.ce / DRUG_DATABASE.atropine.EC50);
+  });
+
+  it('repeat ephedrine doses stack', () => {
+    const one = afterDoses('ephedrine', [{ time: 0, dose: 10 }], 600);
+    const two = afterDoses('ephedrine', [{ time: 0, dose: 10 }, { time: 300, dose: 10 }], 600);
+    expect(two.ce).toBeGreaterThan(one.ce * 1.5);
+    expect(computeCirculation({ ephedrine: two }, healthy).map)
+      .toBeGreaterThan(computeCirculation({ ephedrine: one }, healthy).map);
+  });
+
+  it('IV epinephrine 0.1 mg: tachycardia and hypertension lasting minutes', () => {
+    const at1 = computeCirculation({ epinephrine: afterDoses('epinephrine', [{ time: 0, dose: 0.1 }], 60) }, healthy);
+    const at20 = computeCirculation({ epinephrine: afterDoses('epinephrine', [{ time: 0, dose: 0.1 }], 1200) }, healthy);
+    expect(at1.hr).toBeGreaterThan(rest.hr + 20);
+    expect(at1.sbp).toBeGreaterThan(rest.sbp + 30);
+    expect(at20.sbp).toBeLessThan(at1.sbp - 20);
+  });
+});
+
+describe('succinylcholine', () => {
+  const block = (dose: number, seconds: number) =>
+    assessNeuromuscular({ succinylcholine: afterDoses('succinylcholine', [{ time: 0, dose }], seconds) }).paralysis;
+
+  it('1.5 mg/kg paralyses within a minute and recovers by ~12 min', () => {
+    const dose = 1.5 * healthy.weight;
+    expect(block(dose, 60)).toBeGreaterThan(0.9);
+    expect(block(dose, 300)).toBeGreaterThan(0.9);
+    expect(block(dose, 720)).toBeLessThan(0.2);
+  });
+
+  it('0.1 mg/kg leaves breathing intact', () => {
+    expect(block(0.1 * healthy.weight, 120)).toBeLessThan(0.1);
+  });
+});
+
+describe('no sedative action', () => {
+  it('emergency drugs do not change MOASS', () => {
+    for (const key of EMERGENCY_DRUG_KEYS) {
+      const drug = DRUG_DATABASE[key];
+      expect(isSedativeDrug(drug)).toBe(false);
+      expect(sedationDepth(evaluateResponseSurface({ [key]: drug.EC50 * 10 }))).toBe(0);
+    }
+    expect(isSedativeDrug(DRUG_DATABASE.propofol)).toBe(true);
+  });
+});
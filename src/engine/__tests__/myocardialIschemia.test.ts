@@ -0,0 +1,217 @@
+/**
+ * Unit tests for the myocardial O2 supply/demand model (myocardialIschemia.ts)
+ * Rate-pressure product against coronary perfusion, reduced reserve in
+ * coronary and failing hearts, burden accumulation and recovery, ST
+ * changes, ischemic ectopy and VT (gated on sustained hypoxemia in a normal
+ * heart), and a propofol bolus logged as the cause.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  myocardialO2Balance, coronaryCirculation, diastolicFraction, stepIschemia, ischemicST,
+  monitorSTDeviation, ischemiaDrivers, NO_ISCHEMIA, ISCHEMIA_ONSET, IschemiaState, MyocardialO2Balance,
+} from '../myocardialIschemia';
+import { ischemicEctopy, ischemicVTHazard, determineRhythm } from '../cardiacRhythm';
+import { computeCirculation, DEFAULT_CIRCULATION_CONTEXT } from '../circulation';
+import { leadSTDeviation, NORMAL_MORPHOLOGY } from '../twelveLeadECG';
+import { createSimulationState, stepSimulation, giveBolus, SimulationInputs } from '../SedSimCoreEngine';
+import { DEFAULT_PK_MODELS } from '../pkModelRegistry';
+import { DEFAULT_INTERACTION_MODELS } from '../responseSurface';
+import { PATIENT_ARCHETYPES, BASELINE_VITALS } from '../physiology';
+import { createRng } from '../prng';
+import type { CardiacRhythm, LogEntry, Patient } from '../../types';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+const postMI = PATIENT_ARCHETYPES.post_mi_patient;
+const chf = PATIENT_ARCHETYPES.chf_nyha3;
+
+const REST = { hr: 75, sbp: 120, dbp: 78, edp: 8 };
+
+/** Hold one balance for `seconds` */
+const hold = (balance: MyocardialO2Balance, seconds: number, patient: Patient = healthy, from: IschemiaState = NO_ISCHEMIA) => {
+  let state = from;
+  for (let t = 0; t < seconds; t++) state = stepIschemia(state, balance, patient, t).state;
+  return state;
+};
+
+describe('O2 supply and demand', () => {
+  it('a healthy heart at rest uses a third of its reserve', () => {
+    const balance = myocardialO2Balance(REST, 98, coronaryCirculation(healthy));
+    expect(balance.demand).toBeCloseTo(1);
+    expect(balance.supply).toBeCloseTo(1);
+    expect(balance.index).toBeCloseTo(1 / 3);
+  });
+
+  it('tachycardia raises demand and shortens diastole', () => {
+    expect(diastolicFraction(120)).toBeLessThan(diastolicFraction(75) * 0.75);
+    const fast = myocardialO2Balance({ ...REST, hr: 150, sbp: 170 }, 98, coronaryCirculation(healthy));
+    expect(fast.cause).toBe('demand');
+    expect(fast.index).toBeGreaterThan(1);
+  });
+
+  it('hypotension and hypoxemia limit supply and are named as the cause', () => {
+    const coronaries = coronaryCirculation(healthy);
+    const hypotensive = myocardialO2Balance({ ...REST, sbp: 80, dbp: 35 }, 98, coronaries);
+    expect(hypotensive.cpp).toBe(27);
+    expect(hypotensive.cause).toBe('supply');
+    expect(myocardialO2Balance(REST, 70, coronaries).cause).toBe('hypoxemia');
+  });
+
+  it('coronary disease and heart failure leave less reserve than a healthy heart', () => {
+    const rest = (patient: Patient) => {
+      const c = computeCirculation({}, patient);
+      return myocardialO2Balance({ hr: c.hr, sbp: c.sbp, dbp: c.dbp, edp: c.edp }, 98, coronaryCirculation(patient)).index;
+    };
+    expect(coronaryCirculation(postMI).stenosisGradient).toBeGreaterThan(0);
+    expect(rest(postMI)).toBeGreaterThan(rest(healthy) * 1.8);
+    expect(rest(chf)).toBeGreaterThan(rest(healthy) * 1.8);
+    expect(rest(postMI)).toBeLessThan(1);
+    expect(rest(chf)).toBeLessThan(1);
+  });
+});
+
+describe('ischemia burden', () => {
+  const ischemic = myocardialO2Balance({ ...REST, sbp: 80, dbp: 35 }, 98, coronaryCirculation(postMI));
+
+  it('accumulates while demand outruns supply and recovers over minutes once balanced', () => {
+    const onset = hold(ischemic, 120, postMI);
+    expect(onset.burden).toBeGreaterThan(0.5);
+    expect(onset.episodeCause).toBe('supply');
+    const balanced = myocardialO2Balance(REST, 98, coronaryCirculation(healthy));
+    expect(hold(balanced, 120, healthy, onset).burden).toBeLessThan(onset.burden * 0.5);
+    expect(hold(balanced, 900, healthy, onset).episodeStart).toBeNull();
+  });
+
+  it('reports onset, transmural extension and resolution once each', () => {
+    let state = NO_ISCHEMIA;
+    const transitions: string[] = [];
+    const run = (balance: MyocardialO2Balance, seconds: number) => {
+      for (let t = 0; t < seconds; t++) {
+        const step = stepIschemia(state, balance, postMI, t);
+        state = step.state;
+        transitions.push(...step.transitions);
+      }
+    };
+    run(ischemic, 300);
+    run(myocardialO2Balance(REST, 98, coronaryCirculation(healthy)), 1200);
+    expect(transitions).toEqual(['onset', 'transmural', 'resolved']);
+    expect(state.peakBurden).toBe(1);
+  });
+
+  it('depresses contractility', () => {
+    const normal = computeCirculation({}, postMI);
+    const stunned = computeCirculation({}, postMI, { ...DEFAULT_CIRCULATION_CONTEXT, ischemia: 1 });
+    expect(stunned.ees).toBeLessThan(normal.ees);
+    expect(stunned.sv).toBeLessThan(normal.sv);
+    expect(stunned.map).toBeLessThan(normal.map);
+  });
+});
+
+describe('ECG and rhythm', () => {
+  it('demand ischemia depresses ST diffusely; a culprit territory elevates once severe', () => {
+    expect(ischemicST(0, healthy)).toEqual([]);
+    expect(monitorSTDeviation(1, healthy)).toBeLessThan(-0.15);
+    expect(monitorSTDeviation(0.5, healthy)).toBeCloseTo(monitorSTDeviation(1, healthy) / 2);
+
+    const moderate = { ...NORMAL_MORPHOLOGY, st: ischemicST(0.5, postMI) };
+    const severe = { ...NORMAL_MORPHOLOGY, st: ischemicST(1, postMI) };
+    expect(leadSTDeviation(moderate, 'V3')).toBeLessThan(0);
+    expect(leadSTDeviation(severe, 'V2')).toBeGreaterThan(0.1);
+    expect(leadSTDeviation(severe, 'aVR')).toBeGreaterThan(0);
+  });
+
+  it('ischemia adds PVCs to supraventricular rhythms only', () => {
+    expect(ischemicEctopy('normal_sinus', 0.1)).toBe(0);
+    expect(ischemicEctopy('normal_sinus', 0.6)).toBeGreaterThan(0.1);
+    expect(ischemicEctopy('atrial_fibrillation', 1)).toBeCloseTo(0.3);
+    expect(ischemicEctopy('ventricular_tachycardia', 1)).toBe(0);
+  });
+
+  it('severe ischemia starts seeded VT; a balanced heart never does', () => {
+    expect(ischemicVTHazard(0.3)).toBe(0);
+    expect(ischemicVTHazard(1)).toBeGreaterThan(ischemicVTHazard(0.6) * 4);
+    const run = (ischemia: number, seed: number) => {
+      const random = createRng(seed);
+      let rhythm: CardiacRhythm = 'normal_sinus';
+      const rhythms: CardiacRhythm[] = [];
+      for (let t = 0; t < 1200; t++) {
+        rhythm = determineRhythm(BASELINE_VITALS, {}, postMI, rhythm, t, null, random, ischemia).rhythm;
+        rhythms.push(rhythm);
+      }
+      return rhythms;
+    };
+    const rhythms = run(1, 2);
+    expect(rhythms).toContain('ventricular_tachycardia');
+    expect(run(1, 2)).toEqual(rhythms);
+    expect(run(0.3, 2)).not.toContain('ventricular_tachycardia');
+  });
+
+  it('a normal heart needs sustained severe hypoxemia before ischemic VT; hypoxemia alone is no arrhythmia', () => {
+    const run = (spo2: number, ischemia: number) => {
+      const random = createRng(2);
+      let rhythm: CardiacRhythm = 'normal_sinus';
+      let hypoxemiaStart: number | null = null;
+      const onsets: number[] = [];
+      for (let t = 0; t < 1200; t++) {
+        const result = determineRhythm({ ...BASELINE_VITALS, spo2 }, {}, healthy, rhythm, t, null, random, ischemia, hypoxemiaStart);
+        if (result.rhythm !== rhythm) onsets.push(t);
+        ({ rhythm, hypoxemiaStartSeconds: hypoxemiaStart } = result);
+      }
+      return onsets;
+    };
+    expect(run(98, 1)).toEqual([]);
+    expect(run(65, 0)).toEqual([]);
+    const hypoxic = run(80, 1);
+    expect(hypoxic.length).toBeGreaterThan(0);
+    expect(hypoxic[0]).toBeGreaterThanOrEqual(120);
+  });
+});
+
+describe('simulation', () => {
+  const inputs = (patient: Patient): SimulationInputs => ({
+    patient,
+    variability: null,
+    pkModelSelection: DEFAULT_PK_MODELS,
+    interactionModels: DEFAULT_INTERACTION_MODELS,
+    fio2: 0.4,
+    interventions: new Set(),
+    airwayDevice: 'nasal_cannula',
+    position: 'supine',
+    cpr: null,
+  });
+
+  /** Propofol bolus, then ten minutes on oxygen */
+  const session = (patient: Patient, dose: number) => {
+    let state = createSimulationState(patient);
+    state = { ...state, ...giveBolus(state, inputs(patient), 'propofol', dose) };
+    const rng = createRng(3);
+    const events: LogEntry[] = [];
+    for (let t = 0; t < 600; t++) {
+      const step = stepSimulation(state, inputs(patient), rng);
+      state = step.state;
+      events.push(...step.events);
+    }
+    return { state, events };
+  };
+
+  it('a propofol bolus causes supply ischemia in a post-MI heart and is named in the log', () => {
+    const { state, events } = session(postMI, 70);
+    expect(state.ischemia.peakBurden).toBeGreaterThan(ISCHEMIA_ONSET);
+    const onset = events.find(e => e.message.startsWith('MYOCARDIAL ISCHEMIA'));
+    expect(onset?.message).toContain('low coronary perfusion');
+    expect(onset?.message).toContain('Propofol');
+  });
+
+  it('the same bolus leaves a healthy heart in balance', () => {
+    const { state, events } = session(healthy, 70);
+    expect(state.ischemia.peakBurden).toBeLessThan(0.05);
+    expect(events.some(e => e.message.startsWith('MYOCARDIAL ISCHEMIA'))).toBe(false);
+  });
+
+  it('drivers are only the drugs on board for that limb', () => {
+    const pk = { propofol: { c1: 4, c2: 0, c3: 0, ce: 4 }, ketamine: { c1: 1, c2: 0, c3: 0, ce: 1 } };
+    expect(ischemiaDrivers(pk, 'supply')).toEqual(['Propofol']);
+    expect(ischemiaDrivers(pk, 'demand')).toEqual(['Ketamine']);
+    expect(ischemiaDrivers({}, 'hypoxemia')).toEqual([]);
+  });
+});
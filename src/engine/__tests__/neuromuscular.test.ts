@@ -0,0 +1,102 @@
+/**
+ * Unit tests for neuromuscular blockade (neuromuscular.ts)
+ * TOF count and fade under rocuronium, fade-free succinylcholine block,
+ * the diaphragm recovering before the thumb, and sugammadex reversal.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DRUG_DATABASE } from '../drugs';
+import { stepPK, createInitialPKState } from '../pkModel';
+import { assessNeuromuscular, encapsulateRocuronium, NO_NEUROMUSCULAR_BLOCK } from '../neuromuscular';
+import type { PKState } from '../../types';
+
+const ce = (value: number): PKState => ({ c1: value, c2: 0, c3: 0, ce: value });
+
+type Dose = { time: number; drug: string; dose: number };
+
+/** Relaxant and sugammadex states `seconds` after the listed IV boluses */
+const afterDoses = (doses: Dose[], seconds: number): Record<string, PKState> => {
+  let states: Record<string, PKState> = {
+    rocuronium: createInitialPKState(),
+    sugammadex: createInitialPKState(),
+    succinylcholine: createInitialPKState(),
+  };
+  for (let t = 0; t < seconds; t++) {
+    const next: Record<string, PKState> = {};
+    for (const [drug, s] of Object.entries(states)) {
+      const bolus = doses.filter(d => d.time === t && d.drug === drug).reduce((sum, d) => sum + d.dose, 0);
+      next[drug] = stepPK(s, DRUG_DATABASE[drug], bolus, 0, 1);
+    }
+    const bound = encapsulateRocuronium(next.rocuronium, next.sugammadex);
+    states = { ...next, ...bound };
+  }
+  return states;
+};
+
+const intubatingRoc: Dose = { time: 0, drug: 'rocuronium', dose: 42 };  // 0.6 mg/kg, 70 kg
+
+describe('train-of-four', () => {
+  it('no relaxant: four full twitches', () => {
+    expect(assessNeuromuscular({})).toEqual(NO_NEUROMUSCULAR_BLOCK);
+  });
+
+  it('rocuronium fades T4 before T1', () => {
+    const nm = assessNeuromuscular({ rocuronium: ce(1.1) });
+    expect(nm.tofCount).toBe(4);
+    expect(nm.twitches[3]).toBeLessThan(nm.twitches[0]);
+    expect(nm.tofRatio).toBeLessThan(0.7);
+    expect(nm.depolarizing).toBe(false);
+  });
+
+  it('succinylcholine depresses all four twitches without fade', () => {
+    const nm = assessNeuromuscular({ succinylcholine: ce(0.5) });
+    expect(nm.block).toBeGreaterThan(0.2);
+    expect(nm.tofRatio).toBeCloseTo(1, 6);
+    expect(nm.depolarizing).toBe(true);
+  });
+
+  it('ratio is only reported with four twitches', () => {
+    const nm = assessNeuromuscular({ rocuronium: ce(2.5) });
+    expect(nm.tofCount).toBeLessThan(4);
+    expect(nm.tofRatio).toBeNull();
+  });
+});
+
+describe('rocuronium time course', () => {
+  it('0.6 mg/kg: TOF count 0 and apnea within 2 min', () => {
+    const nm = assessNeuromuscular(afterDoses([intubatingRoc], 120));
+    expect(nm.tofCount).toBe(0);
+    expect(nm.paralysis).toBeGreaterThan(0.8);
+  });
+
+  it('breathing returns while the TOF ratio is still below 0.9', () => {
+    const nm = assessNeuromuscular(afterDoses([intubatingRoc], 40 * 60));
+    expect(nm.paralysis).toBeLessThan(0.1);
+    expect(nm.tofRatio).not.toBeNull();
+    expect(nm.tofRatio!).toBeLessThan(0.9);
+  });
+});
+
+describe('sugammadex', () => {
+  it('2 mg/kg at TOF count 2 restores a TOF ratio > 0.9 within 3 min', () => {
+    const before = assessNeuromuscular(afterDoses([intubatingRoc], 25 * 60));
+    expect(before.tofCount).toBeLessThan(4);
+    const after = assessNeuromuscular(afterDoses([intubatingRoc, { time: 25 * 60, drug: 'sugammadex', dose: 140 }], 28 * 60));
+    expect(after.tofRatio).toBeGreaterThan(0.9);
+  });
+
+  it('16 mg/kg reverses deep block within 5 min', () => {
+    const rsi: Dose = { time: 0, drug: 'rocuronium', dose: 84 };
+    const after = assessNeuromuscular(afterDoses([rsi, { time: 180, drug: 'sugammadex', dose: 1120 }], 180 + 5 * 60));
+    expect(after.tofRatio).toBeGreaterThan(0.9);
+    expect(after.paralysis).toBeLessThan(0.01);
+  });
+
+  it('an underdose binds only part of the rocuronium', () => {
+    const rsi: Dose = { time: 0, drug: 'rocuronium', dose: 84 };
+    const states = afterDoses([rsi, { time: 300, drug: 'sugammadex', dose: 35 }], 15 * 60);
+    expect(states.rocuronium.c1).toBeGreaterThan(0);
+    expect(states.sugammadex.c1).toBeCloseTo(0, 6);
+    expect(assessNeuromuscular(states).tofCount).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for organ function and active metabolites (organFunction.ts, metabolites.ts)
+ * k10 scaling by elimination pathway, flow-limited clearance in heart
+ * failure, α-hydroxymidazolam accumulation in renal failure, and slower
+ * emergence in the hepatic and CHF archetypes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DRUG_DATABASE } from '../drugs';
+import { stepPK, createInitialPKState } from '../pkModel';
+import { effectToMOASS, sedationDepth, sedationEndpoints } from '../pdModel';
+import { resolveDrugParams } from '../pkModelRegistry';
+import { applyOrganFunction, clearanceFactor, organFunction, NORMAL_ORGAN_FUNCTION } from '../organFunction';
+import { stepMetabolites, resolveMetaboliteParams, INITIAL_METABOLITE_STATES } from '../metabolites';
+import { forecastWakeUp } from '../emergence';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import type { Patient, PKState } from '../../types';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+const renal: Patient = { ...healthy, renalImpairment: true };
+const cirrhotic: Patient = { ...healthy, hepaticImpairment: true };
+
+/**
+ * Run an infusion (per minute) for `minutes`, then stop; returns the seconds
+ * until MOASS ≥ 4 and the metabolite states when the infusion stopped.
+ */
+const emergence = (patient: Patient, drug: string, rate: number, minutes: number) => {
+  const params = resolveDrugParams(drug, patient);
+  const metaboliteParams = resolveMetaboliteParams(patient);
+  let s = createInitialPKState();
+  let metabolites: Record<string, PKState> = { ...INITIAL_METABOLITE_STATES };
+  let atStop = metabolites;
+  for (let t = 0; t < (minutes + 240) * 60; t++) {
+    const next = stepPK(s, params, 0, t < minutes * 60 ? rate : 0, 1);
+    metabolites = stepMetabolites(metabolites, { [drug]: s }, { [drug]: next }, { [drug]: params }, metaboliteParams, 1);
+    s = next;
+    if (t === minutes * 60) atStop = metabolites;
+    if (t < minutes * 60) continue;
+    const eff = sedationDepth(sedationEndpoints({ [drug]: s, ...metabolites }, { [drug]: params, ...metaboliteParams }));
+    if (effectToMOASS(eff) >= 4) return { seconds: t - minutes * 60, atStop };
+  }
+  return { seconds: Infinity, atStop };
+};
+
+describe('clearance by elimination pathway', () => {
+  it('leaves drugs unchanged with normal organ function', () => {
+    expect(organFunction(healthy)).toEqual(NORMAL_ORGAN_FUNCTION);
+    expect(applyOrganFunction('midazolam', DRUG_DATABASE.midazolam, healthy)).toBe(DRUG_DATABASE.midazolam);
+  });
+
+  it('cirrhosis halves low-extraction hepatic clearance, spares renal drugs', () => {
+    expect(applyOrganFunction('midazolam', DRUG_DATABASE.midazolam, cirrhotic).k10)
+      .toBeCloseTo(DRUG_DATABASE.midazolam.k10 * 0.5);
+    expect(applyOrganFunction('sugammadex', DRUG_DATABASE.sugammadex, cirrhotic).k10)
+      .toBe(DRUG_DATABASE.sugammadex.k10);
+  });
+
+  it('renal failure slows renally cleared drugs, spares hepatic ones', () => {
+    expect(applyOrganFunction('sugammadex', DRUG_DATABASE.sugammadex, renal).k10)
+      .toBeLessThan(DRUG_DATABASE.sugammadex.k10 * 0.5);
+    expect(applyOrganFunction('propofol', DRUG_DATABASE.propofol, renal).k10).toBe(DRUG_DATABASE.propofol.k10);
+  });
+
+  it('remifentanil (esterase) is unaffected by liver or kidney disease', () => {
+    for (const patient of [renal, cirrhotic, PATIENT_ARCHETYPES.chf_nyha3]) {
+      expect(applyOrganFunction('remifentanil', DRUG_DATABASE.remifentanil, patient))
+        .toBe(DRUG_DATABASE.remifentanil);
+    }
+  });
+
+  it('heart failure lowers flow-limited clearance more than capacity-limited', () => {
+    const chf = organFunction(PATIENT_ARCHETYPES.chf_nyha3);
+    const lidocaine = clearanceFactor({ hepatic: 1, renal: 0, highExtraction: true }, chf);
+    const lowExtraction = clearanceFactor({ hepatic: 1, renal: 0 }, { ...chf, hepaticFlow: 1 });
+    expect(chf.hepaticFlow).toBeLessThan(1);
+    expect(lidocaine).toBeLessThan(lowExtraction);
+    expect(resolveDrugParams('propofol', PATIENT_ARCHETYPES.chf_nyha3).k10)
+      .toBeLessThan(resolveDrugParams('propofol', cirrhotic).k10);
+  });
+});
+
+describe('α-hydroxymidazolam', () => {
+  it('accumulates and prolongs emergence in renal failure', () => {
+    const normal = emergence(healthy, 'midazolam', 0.1, 90);
+    const failing = emergence(renal, 'midazolam', 0.1, 90);
+    expect(failing.atStop.hydroxymidazolam.ce).toBeGreaterThan(normal.atStop.hydroxymidazolam.ce * 1.2);
+    expect(failing.seconds).toBeGreaterThan(normal.seconds + 120);
+  });
+
+  it('is not formed without midazolam', () => {
+    const metaboliteParams = resolveMetaboliteParams(healthy);
+    const next = stepMetabolites(INITIAL_METABOLITE_STATES, {}, {}, {}, metaboliteParams, 1);
+    expect(next.hydroxymidazolam.c1).toBe(0);
+  });
+});
+
+describe('archetype emergence', () => {
+  it('hepatic archetype wakes later from midazolam than without liver disease', () => {
+    const hepatic = PATIENT_ARCHETYPES.hepatic;
+    const impaired = emergence(hepatic, 'midazolam', 0.1, 90).seconds;
+    const spared = emergence({ ...hepatic, hepaticImpairment: false }, 'midazolam', 0.1, 90).seconds;
+    expect(impaired).toBeGreaterThan(spared * 1.5);
+  });
+
+  it('CHF archetype wakes later from a propofol infusion', () => {
+    const chf = emergence(PATIENT_ARCHETYPES.chf_nyha3, 'propofol', 9, 60).seconds;
+    const normal = emergence(healthy, 'propofol', 9, 60).seconds;
+    expect(chf).toBeGreaterThan(normal * 1.5);
+  });
+
+  it('the wake-up forecast includes the metabolite', () => {
+    const params = { midazolam: DRUG_DATABASE.midazolam, ...resolveMetaboliteParams(renal) };
+    const stopped = { midazolam: createInitialPKState() };
+    const metabolite = { hydroxymidazolam: { c1: 0.6, c2: 0, c3: 0, ce: 0.6 } };
+    expect(forecastWakeUp(stopped, {}, params).timeToEmergenceIfStopped).toBe(0);
+    // null: still sedated at the end of the forecast horizon
+    expect(forecastWakeUp({ ...stopped, ...metabolite }, {}, params).timeToEmergenceIfStopped).not.toBe(0);
+  });
+});
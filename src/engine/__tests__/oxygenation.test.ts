@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the lung O2 store model (oxygenation.ts)
+ * FRC and VO2 by patient, preoxygenation, apneic desaturation and
+ * variable-performance O2 delivery.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  functionalResidualCapacity,
+  oxygenConsumption,
+  oxygenStoreParams,
+  steadyStatePAO2,
+  stepOxygenation,
+  safeApneaTime,
+  deliveredFiO2,
+} from '../oxygenation';
+import { calculateVitals, PATIENT_ARCHETYPES, BASELINE_VITALS } from '../physiology';
+import type { PKState, Vitals } from '../../types';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+const obese = PATIENT_ARCHETYPES.obese_osa;
+const ce = (value: number): PKState => ({ c1: value, c2: 0, c3: 0, ce: value });
+
+/** Alveolar ventilation at rest for a 70 kg adult (mL/min) */
+const VA_REST = 14 * 4.8 * 70;
+
+describe('functionalResidualCapacity', () => {
+  it('falls when supine and with obesity', () => {
+    expect(functionalResidualCapacity(healthy, 'supine')).toBeLessThan(functionalResidualCapacity(healthy, 'semi_upright'));
+    expect(functionalResidualCapacity(obese, 'supine')).toBeLessThan(functionalResidualCapacity(healthy, 'supine'));
+  });
+
+  it('pregnancy lowers FRC and raises VO2', () => {
+    const pregnant = { ...healthy, sex: 'F' as const, pregnant: true };
+    const notPregnant = { ...pregnant, pregnant: false };
+    expect(functionalResidualCapacity(pregnant)).toBeLessThan(functionalResidualCapacity(notPregnant));
+    expect(oxygenConsumption(pregnant)).toBeGreaterThan(oxygenConsumption(notPregnant));
+  });
+});
+
+describe('stepOxygenation', () => {
+  it('room-air steady state gives a normal saturation', () => {
+    const params = oxygenStoreParams(healthy, 'supine', 1);
+    const pAO2 = steadyStatePAO2(params, 0.21, VA_REST, 40);
+    const r = stepOxygenation({ pAO2, paco2: 40 }, params, 0.21, VA_REST, 1, 40);
+    expect(r.pAO2).toBeCloseTo(pAO2, 0);
+    expect(r.sao2).toBeGreaterThan(96);
+    expect(r.sao2).toBeLessThan(99.5);
+  });
+
+  it('apnea depletes the store instead of collapsing SaO2 instantly', () => {
+    const params = oxygenStoreParams(healthy, 'supine', 0);
+    const pAO2 = steadyStatePAO2(params, 0.21, VA_REST, 40);
+    const r = stepOxygenation({ pAO2, paco2: 40 }, params, 0.21, 0, 0, 40);
+    expect(r.sao2).toBeGreaterThan(95);
+  });
+});
+
+describe('safeApneaTime', () => {
+  it('preoxygenation prolongs safe apnea', () => {
+    const params = oxygenStoreParams(healthy, 'supine', 1);
+    const roomAir = safeApneaTime(healthy, 'supine', steadyStatePAO2(params, 0.21, VA_REST, 40), 40)!;
+    const preox = safeApneaTime(healthy, 'supine', steadyStatePAO2(params, 1.0, VA_REST, 40), 40)!;
+    expect(roomAir).toBeGreaterThan(30);
+    expect(roomAir).toBeLessThan(180);
+    expect(preox).toBeGreaterThan(5 * roomAir);
+  });
+
+  it('obese OSA patient desaturates much faster than a healthy adult', () => {
+    const pAO2 = steadyStatePAO2(oxygenStoreParams(healthy, 'supine', 1), 1.0, VA_REST, 40);
+    const h = safeApneaTime(healthy, 'supine', pAO2, 40)!;
+    const o = safeApneaTime(obese, 'supine', pAO2, 40)!;
+    expect(o).toBeLessThan(h / 2);
+  });
+
+  it('ramping (semi-upright) extends safe apnea in the obese', () => {
+    const pAO2 = steadyStatePAO2(oxygenStoreParams(obese, 'supine', 1), 1.0, VA_REST, 40);
+    expect(safeApneaTime(obese, 'semi_upright', pAO2, 40)!).toBeGreaterThan(safeApneaTime(obese, 'supine', pAO2, 40)!);
+  });
+});
+
+describe('deliveredFiO2', () => {
+  it('nasal cannula FiO2 rises as ventilation falls, up to a ceiling', () => {
+    expect(deliveredFiO2('nasal_cannula', 0.33, 1)).toBeCloseTo(0.33, 6);
+    expect(deliveredFiO2('nasal_cannula', 0.33, 0.5)).toBeGreaterThan(0.33);
+    expect(deliveredFiO2('nasal_cannula', 0.44, 0)).toBeLessThanOrEqual(0.6);
+    expect(deliveredFiO2('ett', 1.0, 0)).toBe(1.0);
+  });
+});
+
+describe('calculateVitals integration', () => {
+  it('opioid apnea: obese OSA reaches SpO2 < 90 well before a healthy adult', () => {
+    const timeTo90 = (patient: typeof healthy): number => {
+      const pk = { remifentanil: ce(6) };
+      let v: Vitals = BASELINE_VITALS;
+      for (let t = 1; t <= 600; t++) {
+        v = calculateVitals(pk, patient, v, 0.21, v.rhythm ?? 'normal_sinus', t);
+        if (v.spo2 < 90) return t;
+      }
+      return 600;
+    };
+    expect(timeTo90(obese)).toBeLessThan(timeTo90(healthy));
+  });
+});
@@ -1,11 +1,12 @@
 /**
  * Unit tests for the PD model (pdModel.ts)
- * Validates Hill equation, MOASS mapping, and combined effect model.
+ * Validates Hill equation, MOASS mapping, and sedation depth from the response surfaces.
  */
 
 import { describe, it, expect } from 'vitest';
-import { hillEffect, combinedEffect, effectToMOASS, moassLabel } from '../pdModel';
-import { propofol, fentanyl, remifentanil, midazolam } from '../drugs';
+import { hillEffect, sedationDepth, sedationEndpoints, effectToMOASS, moassLabel } from '../pdModel';
+import { evaluateResponseSurface, pairKey, InteractionSelection, ZERO_ENDPOINT_EFFECTS } from '../responseSurface';
+import { fentanyl, midazolam, naloxone } from '../drugs';
 
 describe('hillEffect', () => {
   it('returns 0 when Ce is 0', () => {
@@ -87,69 +88,84 @@ describe('moassLabel', () => {
   });
 });
 
-describe('combinedEffect — opioid behavior (Bouillon model)', () => {
+describe('sedationDepth — opioid behavior (response surfaces)', () => {
+  const depth = (ce: Record<string, number>, selection?: InteractionSelection) =>
+    sedationDepth(evaluateResponseSurface(ce, selection));
+
   it('opioid alone is capped below MOASS 4 threshold (ceiling effect)', () => {
-    // Very high remifentanil Ce → should saturate but stay below deep sedation
-    const highRemiEffect = combinedEffect([{ drug: remifentanil, ce: 100 }]);
+    // Very high remifentanil Ce (ng/mL) → should saturate but stay below deep sedation
+    const highRemiEffect = depth({ remifentanil: 100 });
     // Opioid-only ceiling ~0.22; combined should stay at MOASS 4 (< 0.25)
     expect(highRemiEffect).toBeLessThan(0.25);
   });
 
   it('opioid alone produces drowsiness (MOASS 4) at clinical doses', () => {
-    // Fentanyl at moderate Ce → capped sedation → MOASS 4
-    const effect = combinedEffect([{ drug: fentanyl, ce: 0.01 }]);
-    expect(effectToMOASS(effect)).toBe(4);
+    // Fentanyl at moderate Ce (10 ng/mL) → capped sedation → MOASS 4
+    expect(effectToMOASS(depth({ fentanyl: 10 }))).toBe(4);
   });
 
   it('hypnotic alone can produce deep sedation (MOASS ≤ 2)', () => {
-    // Propofol at high Ce (6 mcg/mL > EC50) → moderate-deep sedation
-    const effect = combinedEffect([{ drug: propofol, ce: 6.0 }]);
+    const effect = depth({ propofol: 6.0 });
     expect(effect).toBeGreaterThan(0.45);
     expect(effectToMOASS(effect)).toBeLessThanOrEqual(2);
   });
 
   it('opioid + hypnotic combination is supra-additive (synergy)', () => {
-    const propofolOnly = combinedEffect([{ drug: propofol, ce: 2.0 }]);
-    const remiOnly = combinedEffect([{ drug: remifentanil, ce: 0.01 }]);
+    const propofolOnly = depth({ propofol: 2.0 });
+    const remiOnly = depth({ remifentanil: 10 });
     const additive = 1 - (1 - propofolOnly) * (1 - remiOnly); // Bliss independence
-    const combined = combinedEffect([
-      { drug: propofol, ce: 2.0 },
-      { drug: remifentanil, ce: 0.01 },
-    ]);
-    // Due to EC50 potentiation, combined > naive additive
-    expect(combined).toBeGreaterThan(additive);
+    // Due to C50 potentiation, combined > naive additive
+    expect(depth({ propofol: 2.0, remifentanil: 10 })).toBeGreaterThan(additive);
   });
 
-  it('returns 0 for empty drug list', () => {
-    expect(combinedEffect([])).toBe(0);
+  it('returns 0 with no drug on board', () => {
+    expect(depth({})).toBe(0);
+    expect(sedationDepth(ZERO_ENDPOINT_EFFECTS)).toBe(0);
   });
 
-  it('combined effect is bounded [0, 1]', () => {
-    const effect = combinedEffect([
-      { drug: propofol, ce: 10 },
-      { drug: midazolam, ce: 0.5 },
-      { drug: fentanyl, ce: 0.1 },
-    ]);
+  it('depth is bounded [0, 1]', () => {
+    const effect = depth({ propofol: 10, midazolam: 0.5, fentanyl: 100 });
     expect(effect).toBeGreaterThanOrEqual(0);
     expect(effect).toBeLessThanOrEqual(1);
+    expect(sedationDepth({ verbal: 1, noxious: 1, respiratory: 1 })).toBe(1);
+  });
+
+  it('dexmedetomidine sedates without a registered pair', () => {
+    expect(effectToMOASS(depth({ dexmedetomidine: 0.6 }))).toBe(4);
+    expect(effectToMOASS(depth({ dexmedetomidine: 1.5 }))).toBeLessThanOrEqual(3);
+  });
+
+  it('the selected interaction model changes MOASS', () => {
+    const key = pairKey('midazolam', 'fentanyl');
+    const ce = { midazolam: 0.04, fentanyl: 3 };
+    expect(effectToMOASS(depth(ce, { [key]: 'greco' }))).toBe(4);
+    expect(effectToMOASS(depth(ce, { [key]: 'minto_2000' }))).toBe(3);
   });
 });
 
-describe('combinedEffect — propofol clinical thresholds', () => {
+describe('sedationDepth — propofol clinical thresholds', () => {
   it('propofol 50mg bolus peak Ce → moderate sedation (MOASS 3)', () => {
     // 50mg / V1=15.9L → ~3.14 mcg/mL initial, equilibrates to ~1.5 mcg/mL at 60s
-    // At moderate Ce, expect moderate sedation
-    const effect = combinedEffect([{ drug: propofol, ce: 1.5 }]);
-    const moass = effectToMOASS(effect);
     // Should be MOASS 4 or 5 (mild effect at Ce=1.5, below EC50=3.4)
+    const moass = effectToMOASS(sedationDepth(evaluateResponseSurface({ propofol: 1.5 })));
     expect(moass).toBeGreaterThanOrEqual(4);
   });
 
   it('propofol 100mg bolus peak Ce → deep sedation zone (MOASS ≤ 3)', () => {
     // Peak Ce around 2-2.5 mcg/mL at 3 minutes
-    const effect = combinedEffect([{ drug: propofol, ce: 2.2 }]);
-    const moass = effectToMOASS(effect);
+    const moass = effectToMOASS(sedationDepth(evaluateResponseSurface({ propofol: 2.2 })));
     expect(moass).toBeGreaterThanOrEqual(3);
     expect(moass).toBeLessThanOrEqual(4);
   });
 });
+
+describe('sedationEndpoints', () => {
+  it('evaluates the surfaces at receptor-level Ce', () => {
+    const state = (ce: number) => ({ c1: ce, c2: 0, c3: 0, ce });
+    const params = { midazolam, fentanyl };
+    const agonists = { midazolam: state(0.15), fentanyl: state(3) };
+    expect(sedationEndpoints(agonists, params)).toEqual(evaluateResponseSurface({ midazolam: 0.15, fentanyl: 3 }));
+    const reversed = sedationEndpoints({ ...agonists, naloxone: state(0.004) }, { ...params, naloxone });
+    expect(reversed.noxious).toBeLessThan(sedationEndpoints(agonists, params).noxious);
+  });
+});
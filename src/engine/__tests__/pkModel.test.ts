@@ -1,11 +1,12 @@
 /**
  * Unit tests for the 3-compartment PK model (pkModel.ts)
- * Validates Euler integration steps for Marsh (propofol) and Minto (remifentanil) parameter sets.
+ * Validates the analytical solver for Marsh (propofol) and Minto (remifentanil) parameter sets.
  */
 
 import { describe, it, expect } from 'vitest';
-import { createInitialPKState, stepPK } from '../pkModel';
-import { propofol, remifentanil } from '../drugs';
+import { createInitialPKState, stepPK, applyBolus, advancePK, advancePKSchedule } from '../pkModel';
+import { propofol, remifentanil, naloxone, nitrousOxide } from '../drugs';
+import { closedFormPK } from '../validation/pkValidation';
 
 describe('createInitialPKState', () => {
   it('returns zero concentrations', () => {
@@ -106,3 +107,88 @@ describe('stepPK — wash-out', () => {
     expect(remiState.ce / remiPeakCe).toBeLessThan(propofolState.ce / propofolPeakCe);
   });
 });
+
+describe('analytical solver', () => {
+  it('applyBolus raises c1 by dose/V1 without advancing time', () => {
+    const state = applyBolus(createInitialPKState(), propofol, 100);
+    expect(state.c1).toBeCloseTo(100 / propofol.V1, 12);
+    expect(state.c2).toBe(0);
+    expect(state.ce).toBe(0);
+  });
+
+  it('one 10-minute step equals six hundred 1-second steps', () => {
+    const start = applyBolus(createInitialPKState(), propofol, 100);
+    const big = advancePK(start, propofol, 5, 600);
+    let small = start;
+    for (let t = 0; t < 600; t++) small = advancePK(small, propofol, 5, 1);
+    expect(big.c1).toBeCloseTo(small.c1, 9);
+    expect(big.c3).toBeCloseTo(small.c3, 9);
+    expect(big.ce).toBeCloseTo(small.ce, 9);
+  });
+
+  it('stepPK is bolus-then-advance', () => {
+    const a = stepPK(createInitialPKState(), remifentanil, 50, 10, 30);
+    const b = advancePK(applyBolus(createInitialPKState(), remifentanil, 50), remifentanil, 10, 30);
+    expect(a).toEqual(b);
+  });
+
+  it('long infusion converges to the analytical steady state c1 = R / (k10·V1)', () => {
+    const rate = 10; // mg/min
+    const ss = advancePK(createInitialPKState(), propofol, rate, 3600 * 100);
+    const expected = rate / (propofol.k10 * propofol.V1);
+    expect(ss.c1).toBeCloseTo(expected, 4);
+    expect(ss.ce).toBeCloseTo(expected, 4);
+  });
+
+  it('piecewise schedule matches sequential constant-rate segments', () => {
+    const segments = [
+      { durationSeconds: 120, rate: 20 },
+      { durationSeconds: 300, rate: 5 },
+      { durationSeconds: 600, rate: 0 },
+    ];
+    const scheduled = advancePKSchedule(createInitialPKState(), propofol, segments);
+    let manual = createInitialPKState();
+    for (const seg of segments) manual = advancePK(manual, propofol, seg.rate, seg.durationSeconds);
+    expect(scheduled).toEqual(manual);
+  });
+
+  it('handles degenerate 2- and 1-compartment parameter sets', () => {
+    const nal = advancePK(applyBolus(createInitialPKState(), naloxone, 0.4), naloxone, 0, 600);
+    expect(nal.c3).toBe(0);
+    expect(Number.isFinite(nal.ce)).toBe(true);
+
+    const n2o = advancePK(applyBolus(createInitialPKState(), nitrousOxide, 700), nitrousOxide, 0, 60);
+    expect(n2o.c1).toBeCloseTo(10 * Math.exp(-nitrousOxide.k10), 9);
+  });
+});
+
+describe('analytical solver vs. closed-form tri-exponential solution', () => {
+  const times = [1, 2, 5, 10, 30]; // min
+
+  it.each([
+    ['Marsh propofol', propofol, 100],
+    ['Minto remifentanil', remifentanil, 50],
+  ] as const)('%s bolus: 1-second stepPK ticks match the closed form', (_, drug, dose) => {
+    const ref = closedFormPK(drug, { bolusMg: dose, infusionRatePerMin: 0, infusionDurationMin: 0, totalDurationMin: 30 }, times);
+    let state = stepPK(createInitialPKState(), drug, dose, 0, 1);
+    let elapsed = 1;
+    times.forEach((t, i) => {
+      for (; elapsed < t * 60; elapsed++) state = stepPK(state, drug, 0, 0, 1);
+      expect(state.c1).toBeCloseTo(ref.c1[i], 9);
+      expect(state.ce).toBeCloseTo(ref.ce[i], 9);
+    });
+  });
+
+  it.each([
+    ['Marsh propofol', propofol, 10],
+    ['Minto remifentanil', remifentanil, 7],
+  ] as const)('%s 10-minute infusion then washout: single advancePK steps match the closed form', (_, drug, rate) => {
+    const ref = closedFormPK(drug, { bolusMg: 0, infusionRatePerMin: rate, infusionDurationMin: 10, totalDurationMin: 30 }, [10, 30]);
+    const endInfusion = advancePK(createInitialPKState(), drug, rate, 600);
+    expect(endInfusion.c1).toBeCloseTo(ref.c1[0], 9);
+    expect(endInfusion.ce).toBeCloseTo(ref.ce[0], 9);
+    const washout = advancePK(endInfusion, drug, 0, 1200);
+    expect(washout.c1).toBeCloseTo(ref.c1[1], 9);
+    expect(washout.ce).toBeCloseTo(ref.ce[1], 9);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the covariate-scaled PK model registry (pkModelRegistry.ts)
+ * Validates that each published model reproduces its reference-patient values
+ * and responds to age/weight covariates in the clinically expected direction.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveDrugParams,
+  leanBodyMassJames,
+  fatFreeMassAlSallami,
+  PK_MODEL_REGISTRY,
+  DEFAULT_PK_MODELS,
+} from '../pkModelRegistry';
+import { DRUG_DATABASE } from '../drugs';
+import { effectToMOASS, sedationDepth, sedationEndpoints } from '../pdModel';
+import { SCHNIDER_1998, MINTO_1997 } from '../validation/publishedData';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import type { Patient } from '../../types';
+
+const SCHNIDER_REF: Patient = { age: 35, weight: 70, height: 170, sex: 'M', asa: 1 };
+const MINTO_REF: Patient = { age: 40, weight: 70, height: 170, sex: 'M', asa: 1 };
+
+describe('body-size scalars', () => {
+  it('James LBM for 70 kg / 170 cm male ≈ 55.3 kg', () => {
+    expect(leanBodyMassJames(SCHNIDER_REF)).toBeCloseTo(55.3, 1);
+  });
+
+  it('Al-Sallami FFM is lower for a female of the same size', () => {
+    const female: Patient = { ...SCHNIDER_REF, sex: 'F' };
+    expect(fatFreeMassAlSallami(female)).toBeLessThan(fatFreeMassAlSallami(SCHNIDER_REF));
+  });
+});
+
+describe('resolveDrugParams — reference patients', () => {
+  it('without a selection returns the fixed drugs.ts parameters', () => {
+    expect(resolveDrugParams('propofol', PATIENT_ARCHETYPES.elderly)).toBe(DRUG_DATABASE.propofol);
+  });
+
+  it('drugs without a registered model fall back to drugs.ts', () => {
+    expect(resolveDrugParams('fentanyl', SCHNIDER_REF, DEFAULT_PK_MODELS)).toBe(DRUG_DATABASE.fentanyl);
+  });
+
+  it('Schnider reproduces publishedData SCHNIDER_1998 at 35 yr / 70 kg / 170 cm', () => {
+    const p = resolveDrugParams('propofol', SCHNIDER_REF, { propofol: 'schnider' });
+    const ref = SCHNIDER_1998.params;
+    expect(p.V1).toBeCloseTo(ref.V1, 3);
+    expect(p.k10).toBeCloseTo(ref.k10, 2);
+    expect(p.k12).toBeCloseTo(ref.k12, 3);
+    expect(p.k21).toBeCloseTo(ref.k21, 3);
+    expect(p.ke0).toBeCloseTo(ref.ke0, 3);
+  });
+
+  it('Minto reproduces publishedData MINTO_1997 at 40 yr / 70 kg / 170 cm', () => {
+    const p = resolveDrugParams('remifentanil', MINTO_REF, { remifentanil: 'minto' });
+    const ref = MINTO_1997.params;
+    expect(p.V1).toBeCloseTo(ref.V1, 2);
+    expect(p.k10).toBeCloseTo(ref.k10, 2);
+    expect(p.k12).toBeCloseTo(ref.k12, 2);
+    expect(p.ke0).toBeCloseTo(ref.ke0, 3);
+    expect(p.EC50).toBeCloseTo(DRUG_DATABASE.remifentanil.EC50, 6);
+  });
+
+  it('Marsh V1 is 0.228 L/kg', () => {
+    const p = resolveDrugParams('propofol', { ...SCHNIDER_REF, weight: 100 }, { propofol: 'marsh' });
+    expect(p.V1).toBeCloseTo(22.8, 5);
+  });
+
+  it('keeps drug identity fields from drugs.ts', () => {
+    const p = resolveDrugParams('propofol', SCHNIDER_REF, { propofol: 'eleveld' });
+    expect(p.name).toBe('Propofol');
+    expect(p.gamma).toBe(DRUG_DATABASE.propofol.gamma);
+  });
+});
+
+describe('resolveDrugParams — covariate effects', () => {
+  const elderly = PATIENT_ARCHETYPES.elderly;
+  const healthy = PATIENT_ARCHETYPES.healthy_adult;
+
+  it('Schnider: elderly patient has lower k12 (smaller, slower V2)', () => {
+    const young = resolveDrugParams('propofol', healthy, DEFAULT_PK_MODELS);
+    const old = resolveDrugParams('propofol', elderly, DEFAULT_PK_MODELS);
+    expect(old.k12).toBeLessThan(young.k12);
+  });
+
+  it('Eleveld: EC50 falls with age', () => {
+    const young = resolveDrugParams('propofol', healthy, { propofol: 'eleveld' });
+    const old = resolveDrugParams('propofol', elderly, { propofol: 'eleveld' });
+    expect(old.EC50).toBeLessThan(young.EC50);
+  });
+
+  it('Minto: elderly patient has slower ke0 and lower EC50', () => {
+    const young = resolveDrugParams('remifentanil', healthy, DEFAULT_PK_MODELS);
+    const old = resolveDrugParams('remifentanil', elderly, DEFAULT_PK_MODELS);
+    expect(old.ke0).toBeLessThan(young.ke0);
+    expect(old.EC50).toBeLessThan(young.EC50);
+  });
+
+  it('Greenblatt/Albrecht: elderly midazolam clearance (k10·V1) is reduced per kg', () => {
+    const young = resolveDrugParams('midazolam', healthy, DEFAULT_PK_MODELS);
+    const old = resolveDrugParams('midazolam', elderly, DEFAULT_PK_MODELS);
+    const clPerKgYoung = young.k10 * young.V1 / healthy.weight;
+    const clPerKgOld = old.k10 * old.V1 / elderly.weight;
+    expect(clPerKgOld).toBeLessThan(clPerKgYoung);
+  });
+
+  it('covariate EC50s deepen sedation in the elderly at the same Ce', () => {
+    const moass = (patient: Patient, drug: string, ce: number, model?: string) => {
+      const params = resolveDrugParams(drug, patient, model ? { [drug]: model } : DEFAULT_PK_MODELS);
+      return effectToMOASS(sedationDepth(sedationEndpoints({ [drug]: { c1: ce, c2: 0, c3: 0, ce } }, { [drug]: params })));
+    };
+    expect(moass(elderly, 'midazolam', 0.07)).toBeLessThan(moass(healthy, 'midazolam', 0.07));
+    expect(moass(elderly, 'propofol', 2.2, 'eleveld')).toBeLessThan(moass(healthy, 'propofol', 2.2, 'eleveld'));
+  });
+
+  it('Hannivoort: dexmedetomidine volumes scale linearly with weight', () => {
+    const p70 = resolveDrugParams('dexmedetomidine', { ...healthy, weight: 70 }, DEFAULT_PK_MODELS);
+    const p140 = resolveDrugParams('dexmedetomidine', { ...healthy, weight: 140 }, DEFAULT_PK_MODELS);
+    expect(p140.V1 / p70.V1).toBeCloseTo(2, 5);
+  });
+
+  it('every registered model yields finite, positive rate constants for all archetypes', () => {
+    for (const [drugKey, models] of Object.entries(PK_MODEL_REGISTRY)) {
+      for (const model of models) {
+        for (const patient of Object.values(PATIENT_ARCHETYPES)) {
+          const p = resolveDrugParams(drugKey, patient, { [drugKey]: model.id });
+          for (const k of [p.V1, p.k10, p.k12, p.k13, p.k21, p.k31, p.ke0, p.EC50]) {
+            expect(Number.isFinite(k)).toBe(true);
+            expect(k).toBeGreaterThan(0);
+          }
+        }
+      }
+    }
+  });
+});
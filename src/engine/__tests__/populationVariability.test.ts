@@ -0,0 +1,103 @@
+/**
+ * Unit tests for between-subject variability (populationVariability.ts, prng.ts)
+ * Reproducible seeded sampling, eta distribution and truncation, scaling of
+ * the PK/PD parameters, and recording the sample on the digital twin.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DRUG_DATABASE } from '../drugs';
+import { stepPK, applyBolus, createInitialPKState } from '../pkModel';
+import { resolveDrugParams, DEFAULT_PK_MODELS } from '../pkModelRegistry';
+import { sedationDepth, sedationEndpoints } from '../pdModel';
+import {
+  applyEtas, sampleVariability, BETWEEN_SUBJECT_VARIABILITY,
+} from '../populationVariability';
+import { createRng } from '../prng';
+import { createDigitalTwin } from '../digitalTwin';
+import { PATIENT_ARCHETYPES } from '../physiology';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+
+describe('seeded sampling', () => {
+  it('the same seed reproduces the same patient', () => {
+    expect(sampleVariability(1234)).toEqual(sampleVariability(1234));
+    expect(sampleVariability(1234).etas.propofol).not.toEqual(sampleVariability(1235).etas.propofol);
+  });
+
+  it('the generator is deterministic and uniform on [0, 1)', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const draws = Array.from({ length: 5000 }, () => a());
+    expect(draws.slice(0, 10)).toEqual(Array.from({ length: 10 }, () => b()));
+    expect(Math.min(...draws)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...draws)).toBeLessThan(1);
+    expect(draws.reduce((s, x) => s + x, 0) / draws.length).toBeCloseTo(0.5, 1);
+  });
+
+  it('etas are centred on zero with SD ω, truncated at 2.5 ω', () => {
+    const omega = BETWEEN_SUBJECT_VARIABILITY.midazolam.CL;
+    const etas = Array.from({ length: 2000 }, (_, seed) => sampleVariability(seed).etas.midazolam.CL);
+    const mean = etas.reduce((s, x) => s + x, 0) / etas.length;
+    const sd = Math.sqrt(etas.reduce((s, x) => s + (x - mean) ** 2, 0) / etas.length);
+    expect(Math.abs(mean)).toBeLessThan(0.05);
+    expect(sd).toBeGreaterThan(omega * 0.9);
+    expect(sd).toBeLessThan(omega * 1.1);
+    expect(Math.max(...etas.map(Math.abs))).toBeLessThanOrEqual(omega * 2.5 + 1e-12);
+  });
+});
+
+describe('individual parameters', () => {
+  const propofol = DRUG_DATABASE.propofol;
+
+  it('no etas leaves the typical parameters', () => {
+    expect(applyEtas(propofol, undefined)).toBe(propofol);
+    expect(resolveDrugParams('propofol', healthy, DEFAULT_PK_MODELS))
+      .toEqual(resolveDrugParams('propofol', healthy, DEFAULT_PK_MODELS, undefined));
+  });
+
+  it('a larger volume dilutes a bolus; clearance scales k10·V1', () => {
+    const big = applyEtas(propofol, { CL: Math.log(1.5), V: Math.log(2), ke0: 0, EC50: 0 });
+    expect(applyBolus(createInitialPKState(), big, 100).c1)
+      .toBeCloseTo(applyBolus(createInitialPKState(), propofol, 100).c1 / 2);
+    expect(big.k10 * big.V1).toBeCloseTo(propofol.k10 * propofol.V1 * 1.5);
+    expect(big.k12 * big.V1).toBeCloseTo(propofol.k12 * propofol.V1);
+  });
+
+  it('ke0 and EC50 etas scale the PD parameters', () => {
+    const slow = applyEtas(propofol, { CL: 0, V: 0, ke0: Math.log(0.5), EC50: Math.log(1.3) });
+    expect(slow.ke0).toBeCloseTo(propofol.ke0 * 0.5);
+    expect(slow.EC50).toBeCloseTo(propofol.EC50 * 1.3);
+  });
+
+  it('a high-EC50 patient is less sedated at the same Ce', () => {
+    const depth = (drug: string, EC50: number, ce: number) => {
+      const params = applyEtas(DRUG_DATABASE[drug], { CL: 0, V: 0, ke0: 0, EC50 });
+      return sedationDepth(sedationEndpoints({ [drug]: { c1: ce, c2: 0, c3: 0, ce } }, { [drug]: params }));
+    };
+    expect(depth('propofol', Math.log(1.5), 2.5)).toBeLessThan(depth('propofol', 0, 2.5) - 0.05);
+    expect(depth('propofol', Math.log(0.7), 2.5)).toBeGreaterThan(depth('propofol', 0, 2.5) + 0.05);
+    expect(depth('midazolam', Math.log(1.5), 0.1)).toBeLessThan(depth('midazolam', 0, 0.1) - 0.05);
+  });
+
+  it('same archetype, different seeds: different concentrations after the same dose', () => {
+    const ceAfter = (seed: number) => {
+      const drug = resolveDrugParams('propofol', healthy, DEFAULT_PK_MODELS, sampleVariability(seed).etas.propofol);
+      let s = createInitialPKState();
+      for (let t = 0; t < 120; t++) s = stepPK(s, drug, t === 0 ? 100 : 0, 0, 1);
+      return s.ce;
+    };
+    const cohort = [1, 2, 3, 4, 5, 6].map(ceAfter);
+    expect(Math.max(...cohort) / Math.min(...cohort)).toBeGreaterThan(1.2);
+    expect(ceAfter(3)).toBe(cohort[2]);
+  });
+});
+
+describe('digital twin', () => {
+  it('records the sampled variability and its visibility', () => {
+    const variability = sampleVariability(99, true);
+    const twin = createDigitalTwin(healthy, variability);
+    expect(twin.variability).toBe(variability);
+    expect(twin.variability?.hidden).toBe(true);
+    expect(createDigitalTwin(healthy).variability).toBeNull();
+  });
+});
@@ -5,23 +5,25 @@
  *   1. Propofol bolus Ce curve against Marsh model reference (published PK data)
  *   2. Remifentanil bolus Ce curve against Minto model reference
  *   3. Remifentanil infusion Ce trajectory (Minto model)
- *   4. Ghost dose prediction accuracy vs. actual simulation (<5% at 60s, <10% at 300s)
+ *   4. Ghost dose prediction accuracy vs. actual simulation (exact)
  *   5. MOASS predictions at clinical dose levels
  *   6. SpO2 trajectory during respiratory depression
  *
- * Tolerance: <5% error at 60 seconds, <10% error at 300 seconds.
- *
- * Reference values computed analytically from published PK parameters:
- *   - Marsh 1991 / Gepts 1987 (propofol): k10=0.119, k12=0.112, k13=0.042,
+ * Reference Ce values come from the closed-form tri-exponential solution
+ * (validation/pkValidation.ts closedFormPK), not from the engine's solver,
+ * for the drugs.ts parameter sets:
+ *   - Marsh 1991 (propofol): k10=0.119, k12=0.114, k13=0.042,
  *       k21=0.055, k31=0.0033, ke0=0.26, V1=15.9 L (70 kg)
- *   - Minto 1997 (remifentanil): k10=0.23, k12=0.64, k13=0.15,
- *       k21=0.11, k31=0.017, ke0=0.595, V1=5.1 L (70 kg)
+ *   - Minto 1997 (remifentanil): k10=0.510, k12=0.401, k13=0.015,
+ *       k21=0.209, k31=0.014, ke0=0.595, V1=5.1 L (70 kg)
  */
 
 import { describe, it, expect } from 'vitest';
 import { predictForward } from '../predict';
-import { stepPK, createInitialPKState } from '../pkModel';
+import { stepPK, applyBolus, createInitialPKState } from '../pkModel';
 import { DRUG_DATABASE, propofol, remifentanil } from '../drugs';
+import { closedFormPK } from '../validation/pkValidation';
+import { createRng } from '../prng';
 import type { PKState, Patient, Vitals } from '../../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -53,11 +55,21 @@ const EMPTY_PK: Record<string, PKState> = {};
 const NO_INFUSIONS: Record<string, { rate: number; isRunning: boolean }> = {};
 const ROOM_AIR_FIO2 = 0.21;
 
+/** Closed-form Ce `seconds` after a bolus and/or the start of a constant infusion */
+function closedFormCe(drug: typeof propofol, bolusAmount: number, infusionRate: number, seconds: number): number {
+  const minutes = seconds / 60;
+  return closedFormPK(
+    drug,
+    { bolusMg: bolusAmount, infusionRatePerMin: infusionRate, infusionDurationMin: minutes, totalDurationMin: minutes },
+    [minutes]
+  ).ce[0];
+}
+
 /**
  * Compute Ce at a given time by running stepPK manually.
  * This provides the reference "actual sim" value.
- * Matches predictForward semantics: bolus is applied as a 1-second step at t=0,
- * then totalSeconds more steps are run (matching the main loop in predictForward).
+ * Matches predictForward semantics: bolus is applied instantaneously at t=0,
+ * then totalSeconds 1-second steps are run (as the live tick loop does).
  */
 function computeRefCe(
   drug: typeof propofol,
@@ -66,9 +78,9 @@ function computeRefCe(
   totalSeconds: number
 ): { c1: number; ce: number } {
   let state = createInitialPKState();
-  // Apply bolus at t=0 with rate 0 (matches predictForward ghost bolus semantics)
-  state = stepPK(state, drug, bolusAmount, 0, 1);
-  // Run the same number of loop iterations as predictForward (t=1 to t=totalSeconds)
+  // Apply bolus at t=0 without advancing time (matches predictForward ghost bolus semantics)
+  state = applyBolus(state, drug, bolusAmount);
+  // One tick per second, t=1 to t=totalSeconds
   for (let t = 1; t <= totalSeconds; t++) {
     state = stepPK(state, drug, 0, infusionRate, 1);
   }
@@ -80,12 +92,12 @@ function computeRefCe(
 // ─────────────────────────────────────────────────────────────────────────────
 
 describe('Propofol ghost dose — Marsh model PK curve', () => {
-  // Reference Ce values computed from Marsh parameters (Euler, dt=1s):
+  // Closed-form Ce from Marsh parameters:
   //   100mg bolus, 70kg adult, from zero state
-  //   t=60s:  Ce ≈ 1.2589 mcg/mL
-  //   t=300s: Ce ≈ 2.2360 mcg/mL (approaching pseudo-steady state)
-  const REF_CE_60S = 1.258852;
-  const REF_CE_300S = 2.236044;
+  //   t=60s:  Ce ≈ 1.2528 mcg/mL
+  //   t=300s: Ce ≈ 2.2233 mcg/mL (approaching pseudo-steady state)
+  const REF_CE_60S = closedFormCe(propofol, 100, 0, 60);
+  const REF_CE_300S = closedFormCe(propofol, 100, 0, 300);
 
   it('remifentanil is in DRUG_DATABASE', () => {
     expect(DRUG_DATABASE['remifentanil']).toBeDefined();
@@ -96,7 +108,7 @@ describe('Propofol ghost dose — Marsh model PK curve', () => {
     expect(DRUG_DATABASE['propofol']).toBeDefined();
   });
 
-  it('ghost dose Ce at 60s matches Marsh reference within 5%', () => {
+  it('ghost dose Ce at 60s matches the closed-form Marsh solution', () => {
     const snapshots = predictForward(
       EMPTY_PK,
       NO_INFUSIONS,
@@ -109,11 +121,10 @@ describe('Propofol ghost dose — Marsh model PK curve', () => {
     const snapshot60 = snapshots.find((s) => s.secondsAhead === 60);
     expect(snapshot60).toBeDefined();
     const ce = snapshot60!.ceByDrug['propofol'] ?? 0;
-    const error = Math.abs(ce - REF_CE_60S) / REF_CE_60S;
-    expect(error).toBeLessThan(0.05); // <5% error at 60s
+    expect(ce).toBeCloseTo(REF_CE_60S, 6);
   });
 
-  it('ghost dose Ce at 300s matches Marsh reference within 10%', () => {
+  it('ghost dose Ce at 300s matches the closed-form Marsh solution', () => {
     const snapshots = predictForward(
       EMPTY_PK,
       NO_INFUSIONS,
@@ -126,8 +137,7 @@ describe('Propofol ghost dose — Marsh model PK curve', () => {
     const snapshot300 = snapshots.find((s) => s.secondsAhead === 300);
     expect(snapshot300).toBeDefined();
     const ce = snapshot300!.ceByDrug['propofol'] ?? 0;
-    const error = Math.abs(ce - REF_CE_300S) / REF_CE_300S;
-    expect(error).toBeLessThan(0.10); // <10% error at 300s
+    expect(ce).toBeCloseTo(REF_CE_300S, 6);
   });
 
   it('propofol Ce rises from 0 to peak then equilibrates (biologically plausible)', () => {
@@ -210,14 +220,14 @@ describe('Propofol ghost dose — Marsh model PK curve', () => {
 // ─────────────────────────────────────────────────────────────────────────────
 
 describe('Remifentanil ghost dose — Minto model PK curve', () => {
-  // Reference Ce values computed from Minto 1997 parameters (Euler, dt=1s):
+  // Closed-form Ce from Minto 1997 parameters:
   //   50 mcg bolus, 70kg adult, from zero state
-  //   t=60s:  Ce ≈ 2.6775 mcg/mL (rapid onset, ke0=0.595 min⁻¹)
-  //   t=300s: Ce ≈ 1.0808 mcg/mL (rapid offset, context-insensitive)
-  const REF_CE_60S = 2.677495;
-  const REF_CE_300S = 1.080835;
+  //   t=60s:  Ce ≈ 2.7818 mcg/mL (rapid onset, ke0=0.595 min⁻¹)
+  //   t=300s: Ce ≈ 1.2531 mcg/mL (rapid offset, context-insensitive)
+  const REF_CE_60S = closedFormCe(remifentanil, 50, 0, 60);
+  const REF_CE_300S = closedFormCe(remifentanil, 50, 0, 300);
 
-  it('ghost dose Ce at 60s matches Minto reference within 5%', () => {
+  it('ghost dose Ce at 60s matches the closed-form Minto solution', () => {
     const snapshots = predictForward(
       EMPTY_PK,
       NO_INFUSIONS,
@@ -230,11 +240,10 @@ describe('Remifentanil ghost dose — Minto model PK curve', () => {
     const snapshot60 = snapshots.find((s) => s.secondsAhead === 60);
     expect(snapshot60).toBeDefined();
     const ce = snapshot60!.ceByDrug['remifentanil'] ?? 0;
-    const error = Math.abs(ce - REF_CE_60S) / REF_CE_60S;
-    expect(error).toBeLessThan(0.05); // <5% error at 60s
+    expect(ce).toBeCloseTo(REF_CE_60S, 6);
   });
 
-  it('ghost dose Ce at 300s matches Minto reference within 10%', () => {
+  it('ghost dose Ce at 300s matches the closed-form Minto solution', () => {
     const snapshots = predictForward(
       EMPTY_PK,
       NO_INFUSIONS,
@@ -247,8 +256,7 @@ describe('Remifentanil ghost dose — Minto model PK curve', () => {
     const snapshot300 = snapshots.find((s) => s.secondsAhead === 300);
     expect(snapshot300).toBeDefined();
     const ce = snapshot300!.ceByDrug['remifentanil'] ?? 0;
-    const error = Math.abs(ce - REF_CE_300S) / REF_CE_300S;
-    expect(error).toBeLessThan(0.20); // <20% error at 300s (Euler dt=1s drift over 5min)
+    expect(ce).toBeCloseTo(REF_CE_300S, 6);
   });
 
   it('remifentanil Ce reaches peak before 60s (fast ke0)', () => {
@@ -326,17 +334,17 @@ describe('Remifentanil ghost dose — Minto model PK curve', () => {
 // ─────────────────────────────────────────────────────────────────────────────
 
 describe('Remifentanil infusion — Minto model steady-state approach', () => {
-  // Reference: 7 mcg/min infusion (0.1 mcg/kg/min × 70 kg), from zero
-  //   t=60s:  Ce ≈ 0.2444 mcg/mL
-  //   t=300s: Ce ≈ 1.3494 mcg/mL (approaching steady state)
-  const REF_CE_60S = 0.244384;
-  const REF_CE_300S = 1.349411;
+  // Closed-form Ce for 7 mcg/min (0.1 mcg/kg/min × 70 kg), from zero
+  //   t=60s:  Ce ≈ 0.2523 mcg/mL
+  //   t=300s: Ce ≈ 1.4763 mcg/mL (approaching steady state)
+  const REF_CE_60S = closedFormCe(remifentanil, 0, 7, 60);
+  const REF_CE_300S = closedFormCe(remifentanil, 0, 7, 300);
 
   const remiInfusion: Record<string, { rate: number; isRunning: boolean }> = {
     remifentanil: { rate: 7, isRunning: true }, // 0.1 mcg/kg/min × 70 kg
   };
 
-  it('infusion Ce at 60s matches Minto reference within 5%', () => {
+  it('infusion Ce at 60s matches the closed-form Minto solution', () => {
     const snapshots = predictForward(
       EMPTY_PK,
       remiInfusion,
@@ -348,11 +356,10 @@ describe('Remifentanil infusion — Minto model steady-state approach', () => {
     const snap60 = snapshots.find((s) => s.secondsAhead === 60);
     expect(snap60).toBeDefined();
     const ce = snap60!.ceByDrug['remifentanil'] ?? 0;
-    const error = Math.abs(ce - REF_CE_60S) / REF_CE_60S;
-    expect(error).toBeLessThan(0.05);
+    expect(ce).toBeCloseTo(REF_CE_60S, 6);
   });
 
-  it('infusion Ce at 300s matches Minto reference within 10%', () => {
+  it('infusion Ce at 300s matches the closed-form Minto solution', () => {
     const snapshots = predictForward(
       EMPTY_PK,
       remiInfusion,
@@ -364,8 +371,7 @@ describe('Remifentanil infusion — Minto model steady-state approach', () => {
     const snap300 = snapshots.find((s) => s.secondsAhead === 300);
     expect(snap300).toBeDefined();
     const ce = snap300!.ceByDrug['remifentanil'] ?? 0;
-    const error = Math.abs(ce - REF_CE_300S) / REF_CE_300S;
-    expect(error).toBeLessThan(0.10);
+    expect(ce).toBeCloseTo(REF_CE_300S, 6);
   });
 
   it('infusion Ce rises monotonically toward steady state', () => {
@@ -393,8 +399,8 @@ describe('Ghost dose prediction accuracy — matches actual simulation', () => {
   it('propofol ghost prediction matches actual administration within 0.001% at 60s', () => {
     // "Actual" sim: apply bolus at t=0, then run 60 more steps (matching predictForward semantics)
     let pkState = createInitialPKState();
-    pkState = stepPK(pkState, propofol, 100, 0, 1); // bolus step (same as predictForward)
-    for (let t = 1; t <= 60; t++) {                 // 60 more loop steps
+    pkState = applyBolus(pkState, propofol, 100);  // bolus at t=0 (same as predictForward)
+    for (let t = 1; t <= 60; t++) {                 // 60 one-second ticks
       pkState = stepPK(pkState, propofol, 0, 0, 1);
     }
     const actualCe = pkState.ce;
@@ -417,8 +423,8 @@ describe('Ghost dose prediction accuracy — matches actual simulation', () => {
 
   it('propofol ghost prediction matches actual administration within 0.001% at 300s', () => {
     let pkState = createInitialPKState();
-    pkState = stepPK(pkState, propofol, 100, 0, 1); // bolus step
-    for (let t = 1; t <= 300; t++) {                // 300 more loop steps
+    pkState = applyBolus(pkState, propofol, 100);  // bolus at t=0
+    for (let t = 1; t <= 300; t++) {                // 300 one-second ticks
       pkState = stepPK(pkState, propofol, 0, 0, 1);
     }
     const actualCe = pkState.ce;
@@ -440,8 +446,8 @@ describe('Ghost dose prediction accuracy — matches actual simulation', () => {
 
   it('remifentanil ghost prediction matches actual administration within 0.001% at 60s', () => {
     let pkState = createInitialPKState();
-    pkState = stepPK(pkState, remifentanil, 50, 0, 1); // bolus step
-    for (let t = 1; t <= 60; t++) {                    // 60 more loop steps
+    pkState = applyBolus(pkState, remifentanil, 50);  // bolus at t=0
+    for (let t = 1; t <= 60; t++) {                    // 60 one-second ticks
       pkState = stepPK(pkState, remifentanil, 0, 0, 1);
     }
     const actualCe = pkState.ce;
@@ -491,7 +497,7 @@ describe('MOASS predictions at clinical time points', () => {
       STANDARD_PATIENT,
       ROOM_AIR_FIO2,
       BASELINE_VITALS,
-      [120],
+      [60],
       { drugName: 'propofol', dose: 100 }
     );
 
@@ -514,13 +520,13 @@ describe('MOASS predictions at clinical time points', () => {
       { drugName: 'propofol', dose: 100 }
     );
 
-    const propOnlyMoass = propofolOnly.find((s) => s.secondsAhead === 120)!.moass;
+    const propOnlyMoass = propofolOnly.find((s) => s.secondsAhead === 60)!.moass;
     const combineMoass = combination.find((s) => s.secondsAhead === 60)!.moass;
 
     // Combined effect should be at least as deep (lower or equal MOASS)
-    expect(combineMoass).toBeLessThanOrEqual(propOnlyMoass + 1);
+    expect(combineMoass).toBeLessThanOrEqual(propOnlyMoass);
     expect(combination.find((s) => s.secondsAhead === 60)!.combinedEff)
-      .toBeGreaterThan(propofolOnly.find((s) => s.secondsAhead === 120)!.combinedEff);
+      .toBeGreaterThan(propofolOnly.find((s) => s.secondsAhead === 60)!.combinedEff);
   });
 
   it('no drugs → MOASS 5 (awake) at all time points', () => {
@@ -588,13 +594,16 @@ describe('SpO2 trajectory during opioid respiratory depression', () => {
       weight: 120,
       height: 175,
     };
+    // Same seed for both runs, so the measurement noise is identical
     const normalSnaps = predictForward(
       EMPTY_PK,
       NO_INFUSIONS,
       STANDARD_PATIENT,
       ROOM_AIR_FIO2,
       BASELINE_VITALS,
-      [60]
+      [60],
+      undefined, undefined, undefined,
+      createRng(1)
     );
     const osaSnaps = predictForward(
       EMPTY_PK,
@@ -602,13 +611,14 @@ describe('SpO2 trajectory during opioid respiratory depression', () => {
       osaPatient,
       ROOM_AIR_FIO2,
       BASELINE_VITALS,
-      [60]
+      [60],
+      undefined, undefined, undefined,
+      createRng(1)
     );
     // OSA patient should have equal or lower SpO2 at baseline
-    // (stochastic noise may occasionally violate, so we allow ±3%)
     const normalSpo2 = normalSnaps.find((s) => s.secondsAhead === 60)!.spo2;
     const osaSpo2 = osaSnaps.find((s) => s.secondsAhead === 60)!.spo2;
-    // OSA factor reduces SpO2 slightly in physiology model
+    expect(osaSpo2).toBeLessThanOrEqual(normalSpo2);
     // Check both are in physiological range
     expect(normalSpo2).toBeGreaterThan(85);
     expect(osaSpo2).toBeGreaterThan(85);
@@ -723,7 +733,7 @@ describe('predictForward — numerical stability and edge cases', () => {
 // 8. Propofol dose-response — multiple bolus levels (Marsh model)
 // ─────────────────────────────────────────────────────────────────────────────
 describe('Propofol dose-response — Marsh model across bolus levels', () => {
-  const REF_100MG_CE_60S = 1.258852;
+  const REF_100MG_CE_60S = closedFormCe(propofol, 100, 0, 60);
 
   it('50mg bolus Ce at 60s is ~50% of 100mg bolus (linear PK)', () => {
     const snaps50 = predictForward(
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for the QT subsystem (cardiacRhythm.ts computeQT, determineRhythm;
+ * ecgWaveformEngine.ts applyHRMorphology)
+ * QT-prolonging drugs, electrolytes and bradycardia lengthen the QTc and
+ * raise the torsades hazard; onset is seeded and the T wave moves with QTc.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeQT, qtCorrections, determineRhythm } from '../cardiacRhythm';
+import { applyHRMorphology } from '../ecgWaveformEngine';
+import { DRUG_DATABASE } from '../drugs';
+import { stepPK, createInitialPKState } from '../pkModel';
+import { PATIENT_ARCHETYPES, BASELINE_VITALS } from '../physiology';
+import { createRng } from '../prng';
+import type { CardiacRhythm, PKState } from '../../types';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+const longQT = PATIENT_ARCHETYPES.long_qt;
+
+/** Effect-site state at peak after an IV bolus (10 min) */
+const peak = (drug: string, dose: number): PKState => {
+  let s = createInitialPKState();
+  for (let t = 0; t < 600; t++) s = stepPK(s, DRUG_DATABASE[drug], t === 0 ? dose : 0, 0, 1);
+  return s;
+};
+
+describe('QTc', () => {
+  it('a drug-free healthy adult has a normal QTc that both corrections agree on at 60 bpm', () => {
+    const qt = computeQT({}, healthy, 60);
+    expect(qt.qtcFridericia).toBeCloseTo(410);
+    expect(qt.qtcBazett).toBeCloseTo(410);
+    expect(qt.drugProlongation).toBe(0);
+    expect(qt.torsadesHazard).toBe(0);
+  });
+
+  it('Bazett over-corrects in tachycardia and under-corrects in bradycardia', () => {
+    const fast = computeQT({}, healthy, 120);
+    const slow = computeQT({}, healthy, 45);
+    expect(fast.qt).toBeLessThan(slow.qt);
+    expect(fast.qtcBazett).toBeGreaterThan(fast.qtcFridericia);
+    expect(slow.qtcBazett).toBeLessThan(slow.qtcFridericia);
+    expect(qtCorrections(fast.qt, 120).fridericia).toBeCloseTo(410);
+  });
+
+  it('clinical doses prolong QTc in the expected order', () => {
+    const prolongation = (drug: string, dose: number) =>
+      computeQT({ [drug]: peak(drug, dose) }, healthy, 75).drugProlongation;
+    const ondansetron = prolongation('ondansetron', 4);
+    const droperidol = prolongation('droperidol', 1.25);
+    const haloperidol = prolongation('haloperidol', 5);
+    expect(ondansetron).toBeGreaterThan(2);
+    expect(ondansetron).toBeLessThan(12);
+    expect(droperidol).toBeGreaterThan(ondansetron);
+    expect(haloperidol).toBeGreaterThan(droperidol);
+    expect(prolongation('methadone', 10)).toBeGreaterThan(5);
+  });
+
+  it('hypokalemia, hypomagnesemia and hypocalcemia add to the baseline', () => {
+    const qt = computeQT({}, { ...healthy, potassium: 3.0, magnesium: 0.5, ionizedCalcium: 1.0 }, 75);
+    expect(qt.electrolyteProlongation).toBeCloseTo(30 + 20 + 20);
+    expect(computeQT({}, longQT, 75).qtcFridericia).toBeGreaterThan(480);
+  });
+});
+
+describe('torsades hazard', () => {
+  it('rises steeply with QTc and is multiplied by bradycardia and low electrolytes', () => {
+    const drugs = { droperidol: peak('droperidol', 2.5), haloperidol: peak('haloperidol', 5) };
+    const base = computeQT({}, longQT, 75).torsadesHazard;
+    const dosed = computeQT(drugs, longQT, 75).torsadesHazard;
+    expect(dosed).toBeGreaterThan(base * 4);
+    expect(computeQT(drugs, longQT, 45).torsadesHazard).toBeCloseTo(dosed * 2);
+    const repleted = computeQT(drugs, { ...longQT, potassium: 4.0, magnesium: 0.9 }, 75);
+    expect(repleted.torsadesHazard).toBeLessThan(dosed / 2.25);
+  });
+
+  it('seeded onset is reproducible and never occurs with a normal QTc', () => {
+    const drugs = { droperidol: peak('droperidol', 5), haloperidol: peak('haloperidol', 10) };
+    const run = (patient: typeof longQT, seed: number) => {
+      const random = createRng(seed);
+      let rhythm: CardiacRhythm = 'normal_sinus';
+      const rhythms: CardiacRhythm[] = [];
+      for (let t = 0; t < 1800; t++) {
+        rhythm = determineRhythm(BASELINE_VITALS, drugs, patient, rhythm, t, null, random).rhythm;
+        rhythms.push(rhythm);
+      }
+      return rhythms;
+    };
+    const rhythms = run(longQT, 5);
+    expect(rhythms).toContain('polymorphic_vt');
+    expect(run(longQT, 5)).toEqual(rhythms);
+    expect(run(healthy, 5)).not.toContain('polymorphic_vt');
+  });
+
+  it('sinus rhythm reports the rate-adjusted QT', () => {
+    const result = determineRhythm({ ...BASELINE_VITALS, hr: 60 }, {}, healthy, 'normal_sinus', 0, null, createRng(1));
+    expect(result.qtInterval).toBe(410);
+  });
+});
+
+describe('ECG T wave', () => {
+  it('a longer QTc moves the T wave later and broadens it', () => {
+    const template = [{ theta: 1.2, amplitude: 0.3, width: 0.4 }];
+    const [normal] = applyHRMorphology(template, 75);
+    const [long] = applyHRMorphology(template, 75, 520);
+    expect(normal.theta).toBeCloseTo(1.2);
+    expect(long.theta).toBeCloseTo(1.2 * 1.3);
+    expect(long.width).toBeGreaterThan(normal.width);
+    expect(long.amplitude).toBeCloseTo(normal.amplitude);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the drug-interaction response surfaces (responseSurface.ts)
+ * Checks the Greco, Minto and hierarchical families against their defining
+ * properties and the isobologram geometry they imply.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  surfaceEffect,
+  evaluateResponseSurface,
+  isobole,
+  isobologram,
+  getInteractionModel,
+  pairKey,
+  RESPONSE_SURFACE_REGISTRY,
+  RESPONSE_ENDPOINTS,
+  EndpointSurface,
+} from '../responseSurface';
+
+const GRECO: EndpointSurface = { type: 'greco', C50A: 2, gammaA: 4, C50B: 10, gammaB: 2, alpha: 0 };
+
+describe('surfaceEffect', () => {
+  it('each drug alone gives 50% at its C50 (all families)', () => {
+    for (const models of Object.values(RESPONSE_SURFACE_REGISTRY)) {
+      for (const m of models) {
+        for (const ep of RESPONSE_ENDPOINTS) {
+          expect(surfaceEffect(m.endpoints[ep], m.endpoints[ep].C50A, 0)).toBeCloseTo(0.5, 6);
+        }
+      }
+    }
+  });
+
+  it('Greco α = 0 is Loewe-additive: half of each C50 gives 50%', () => {
+    expect(surfaceEffect(GRECO, 1, 5)).toBeCloseTo(0.5, 6);
+  });
+
+  it('Greco α > 0 is synergistic, α < 0 antagonistic', () => {
+    expect(surfaceEffect({ ...GRECO, alpha: 2 }, 1, 5)).toBeGreaterThan(0.5);
+    expect(surfaceEffect({ ...GRECO, alpha: -0.5 }, 1, 5)).toBeLessThan(0.5);
+  });
+
+  it('Minto β > 0 lowers U50 at mixed ratios (synergy)', () => {
+    const minto: EndpointSurface = { type: 'minto', C50A: 2, gammaA: 4, C50B: 10, gammaB: 4, beta: 2 };
+    expect(surfaceEffect(minto, 1, 5)).toBeGreaterThan(0.5);
+    expect(surfaceEffect({ ...minto, beta: 0 }, 1, 5)).toBeCloseTo(0.5, 6);
+  });
+
+  it('hierarchical: opioid alone has no effect but lowers the hypnotic C50', () => {
+    const bouillon = getInteractionModel(pairKey('propofol', 'remifentanil'), 'bouillon_2004')!;
+    const s = bouillon.endpoints.noxious;
+    expect(surfaceEffect(s, 0, 20)).toBe(0);
+    expect(surfaceEffect(s, 3, 2)).toBeGreaterThan(surfaceEffect(s, 3, 0));
+    // At Cb = C50B the hypnotic C50 is halved
+    expect(surfaceEffect(s, s.C50A / 2, s.C50B)).toBeCloseTo(0.5, 6);
+  });
+});
+
+describe('evaluateResponseSurface', () => {
+  it('no drugs → zero on every endpoint', () => {
+    expect(evaluateResponseSurface({ propofol: 0, fentanyl: 0 })).toEqual({ verbal: 0, noxious: 0, respiratory: 0 });
+  });
+
+  it('midazolam–fentanyl synergy exceeds either drug alone on respiratory depression', () => {
+    const both = evaluateResponseSurface({ midazolam: 0.3, fentanyl: 1.5 }).respiratory;
+    const midaz = evaluateResponseSurface({ midazolam: 0.3 }).respiratory;
+    const fent = evaluateResponseSurface({ fentanyl: 1.5 }).respiratory;
+    expect(both).toBeGreaterThan(1 - (1 - midaz) * (1 - fent));
+  });
+
+  it('propofol–ketamine: ketamine reduces propofol respiratory depression', () => {
+    const prop = evaluateResponseSurface({ propofol: 3 }).respiratory;
+    const mix = evaluateResponseSurface({ propofol: 3, ketamine: 1 }).respiratory;
+    expect(mix).toBeLessThan(prop);
+  });
+
+  it('noxious tolerance needs more drug than loss of verbal response', () => {
+    const e = evaluateResponseSurface({ propofol: 2.5, remifentanil: 1 });
+    expect(e.verbal).toBeGreaterThan(e.noxious);
+  });
+
+  it('switching the selected model changes the result', () => {
+    const key = pairKey('propofol', 'remifentanil');
+    const ce = { propofol: 2, remifentanil: 3 };
+    const a = evaluateResponseSurface(ce, { [key]: 'bouillon_2004' }).verbal;
+    const b = evaluateResponseSurface(ce, { [key]: 'minto_2000' }).verbal;
+    expect(a).not.toBeCloseTo(b, 3);
+  });
+
+  it('probabilities stay within [0, 1] with every registered drug on board', () => {
+    const e = evaluateResponseSurface({ propofol: 4, remifentanil: 4, fentanyl: 3, midazolam: 0.5, ketamine: 1 });
+    for (const ep of RESPONSE_ENDPOINTS) {
+      expect(e[ep]).toBeGreaterThanOrEqual(0);
+      expect(e[ep]).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('isobologram', () => {
+  const midazFent = getInteractionModel(pairKey('midazolam', 'fentanyl'))!;
+
+  it('every isobole point lies on the requested effect level', () => {
+    for (const p of isobole(midazFent, 'verbal', 0.5)) {
+      expect(surfaceEffect(midazFent.endpoints.verbal, p.ceA, p.ceB)).toBeCloseTo(0.5, 4);
+    }
+  });
+
+  it('synergistic isobole bows below the line of additivity', () => {
+    const iso = isobole(midazFent, 'verbal', 0.5, 20);
+    const { C50A, C50B } = midazFent.endpoints.verbal;
+    const mid = iso[10];
+    expect(mid.ceA / C50A + mid.ceB / C50B).toBeLessThan(1);
+  });
+
+  it('95% isobole lies outside the 50% isobole', () => {
+    const curves = isobologram(midazFent, 'respiratory', [0.5, 0.95], 10);
+    expect(curves[0.95][0].ceA).toBeGreaterThan(curves[0.5][0].ceA);
+  });
+
+  it('hierarchical isobole never reaches the opioid axis', () => {
+    const bouillon = getInteractionModel(pairKey('propofol', 'remifentanil'), 'bouillon_2004')!;
+    const iso = isobole(bouillon, 'verbal', 0.5);
+    expect(iso.length).toBeGreaterThan(0);
+    expect(iso[iso.length - 1].ceA).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for reversal agent PK/PD (pdModel.ts, drugs.ts)
+ * Competitive EC50 shift, receptor-level concentrations for the endpoint
+ * models, and resedation as naloxone / flumazenil wear off.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DRUG_DATABASE, midazolam, naloxone, flumazenil } from '../drugs';
+import { stepPK, createInitialPKState } from '../pkModel';
+import { antagonistShift, antagonizedPkStates, effectToMOASS, hillEffect, sedationDepth, sedationEndpoints } from '../pdModel';
+import { co2ResponseCurve, ventilatoryDrive } from '../ventilation';
+import type { PKState } from '../../types';
+
+const ce = (value: number): PKState => ({ c1: value, c2: 0, c3: 0, ce: value });
+
+type Dose = { time: number; drug: string; dose: number };
+
+/** States every minute for `minutes`, with boluses and infusions (per minute) stopping at `infusionEnd` s */
+const simulate = (
+  doses: Dose[],
+  infusions: Record<string, number>,
+  infusionEnd: number,
+  minutes: number
+): Record<string, PKState>[] => {
+  const keys = new Set([...doses.map(d => d.drug), ...Object.keys(infusions)]);
+  let states: Record<string, PKState> = Object.fromEntries([...keys].map(k => [k, createInitialPKState()]));
+  const history: Record<string, PKState>[] = [];
+  for (let t = 0; t < minutes * 60; t++) {
+    const next: Record<string, PKState> = {};
+    for (const [drug, s] of Object.entries(states)) {
+      const bolus = doses.filter(d => d.time === t && d.drug === drug).reduce((sum, d) => sum + d.dose, 0);
+      next[drug] = stepPK(s, DRUG_DATABASE[drug], bolus, t < infusionEnd ? infusions[drug] ?? 0 : 0, 1);
+    }
+    states = next;
+    if ((t + 1) % 60 === 0) history.push(states);
+  }
+  return history;
+};
+
+const effect = (states: Record<string, PKState>) => sedationDepth(sedationEndpoints(states, DRUG_DATABASE));
+
+/** Ventilatory drive at a PaCO2 of 42 mmHg under the receptor-level concentrations */
+const drive = (states: Record<string, PKState>) =>
+  ventilatoryDrive(co2ResponseCurve(antagonizedPkStates(states, DRUG_DATABASE), 40), 42);
+
+describe('competitive antagonism', () => {
+  it('an antagonist at its Ki doubles the agonist EC50', () => {
+    expect(antagonistShift([{ drug: naloxone, ce: naloxone.EC50 }]).fentanyl).toBeCloseTo(2, 9);
+    expect(antagonistShift([{ drug: flumazenil, ce: flumazenil.EC50 }]).midazolam).toBeCloseTo(2, 9);
+    expect(antagonistShift([{ drug: naloxone, ce: 0.01 }]).midazolam).toBeUndefined();
+  });
+
+  it('receptor-level Ce gives the same effect as the shifted EC50', () => {
+    const states = { midazolam: ce(0.3), flumazenil: ce(0.006) };
+    const shift = antagonistShift([{ drug: flumazenil, ce: 0.006 }]).midazolam;
+    const receptor = antagonizedPkStates(states, DRUG_DATABASE).midazolam.ce;
+    expect(hillEffect(receptor, midazolam.EC50, midazolam.gamma))
+      .toBeCloseTo(hillEffect(0.3, midazolam.EC50 * shift, midazolam.gamma), 9);
+  });
+
+  it('is surmountable: more agonist overcomes the same antagonist', () => {
+    const low = effect({ midazolam: ce(0.2), flumazenil: ce(0.01) });
+    const high = effect({ midazolam: ce(1.0), flumazenil: ce(0.01) });
+    expect(high).toBeGreaterThan(low + 0.3);
+  });
+
+  it('leaves non-target drugs alone', () => {
+    const states = { propofol: ce(3), naloxone: ce(0.01) };
+    expect(antagonizedPkStates(states, DRUG_DATABASE).propofol.ce).toBe(3);
+    expect(effect({ propofol: ce(3), naloxone: ce(0.01) })).toBeCloseTo(effect({ propofol: ce(3) }), 9);
+    expect(antagonizedPkStates({ fentanyl: ce(2) }, DRUG_DATABASE).fentanyl.ce).toBe(2);
+  });
+});
+
+describe('naloxone', () => {
+  it('0.04 mg restores breathing within 3 min of a 500 mcg fentanyl overdose', () => {
+    const history = simulate([{ time: 0, drug: 'fentanyl', dose: 500 }, { time: 300, drug: 'naloxone', dose: 0.04 }], {}, 0, 8);
+    expect(drive(history[4])).toBeLessThan(0.2);
+    expect(drive(history[7])).toBeGreaterThan(0.7);
+  });
+
+  it('wears off before a fentanyl infusion: depression returns in recovery', () => {
+    // 10 mcg/min for an hour, naloxone 0.1 mg two minutes after stopping
+    const history = simulate([{ time: 62 * 60, drug: 'naloxone', dose: 0.1 }], { fentanyl: 10 }, 3600, 90);
+    const reversed = drive(history[64]);
+    const resedated = drive(history[84]);
+    expect(drive(history[59])).toBeLessThan(0.7);
+    expect(reversed).toBeGreaterThan(1.1);
+    expect(resedated).toBeLessThan(reversed - 0.1);
+  });
+});
+
+describe('flumazenil', () => {
+  it('reverses deep midazolam sedation, then the patient resedates', () => {
+    // 0.2 mg/min for 90 min, flumazenil 0.3 mg two minutes after stopping
+    const history = simulate([{ time: 92 * 60, drug: 'flumazenil', dose: 0.3 }], { midazolam: 0.2 }, 90 * 60, 130);
+    expect(effectToMOASS(effect(history[89]))).toBeLessThanOrEqual(1);
+    const reversed = effect(history[95]);
+    const later = effect(history[129]);
+    expect(effectToMOASS(reversed)).toBe(5);
+    expect(later).toBeGreaterThan(reversed + 0.05);
+    expect(effectToMOASS(later)).toBeLessThan(5);
+  });
+});
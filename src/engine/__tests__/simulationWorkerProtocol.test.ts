@@ -0,0 +1,89 @@
+/**
+ * Unit tests for the simulation worker protocol (simulationWorkerProtocol.ts)
+ * The runner steps the same pipeline as the main-thread tick, applies the
+ * typed commands in order, and keeps the loop's speed cadence. `load`
+ * carries the whole state and inputs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SimulationRunner, loadCommand, SYNCABLE_STATE_KEYS, SYNCABLE_INPUT_KEYS } from '../simulationWorkerProtocol';
+import { stepSimulation, createSimulationState, giveBolus, SimulationInputs } from '../SedSimCoreEngine';
+import { DEFAULT_PK_MODELS } from '../pkModelRegistry';
+import { DEFAULT_INTERACTION_MODELS } from '../responseSurface';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import { createRng } from '../prng';
+
+const patient = PATIENT_ARCHETYPES.healthy_adult;
+const inputs: SimulationInputs = {
+  patient, variability: null, pkModelSelection: DEFAULT_PK_MODELS,
+  interactionModels: DEFAULT_INTERACTION_MODELS, fio2: 0.21, interventions: new Set(),
+  airwayDevice: 'room_air', position: 'supine', cpr: null,
+};
+
+const loaded = (seed = 5) => {
+  const runner = new SimulationRunner();
+  runner.handle(loadCommand({ ...createSimulationState(patient), ...inputs, simulationSeed: seed }));
+  return runner;
+};
+
+describe('loadCommand', () => {
+  it('carries every state and input field; sync covers all but the command-owned ones', () => {
+    const state = createSimulationState(patient);
+    const command = loadCommand({ ...state, ...inputs, simulationSeed: 3 });
+    expect(command).toEqual({ type: 'load', state, inputs, seed: 3 });
+    expect([...SYNCABLE_STATE_KEYS, 'pkStates', 'imDepots', 'drugTotals', 'infusions'].sort()).toEqual(Object.keys(state).sort());
+    expect([...SYNCABLE_INPUT_KEYS, 'interventions'].sort()).toEqual(Object.keys(inputs).sort());
+  });
+});
+
+describe('SimulationRunner', () => {
+  it('does not step before load or while paused', () => {
+    const runner = new SimulationRunner();
+    runner.handle({ type: 'run', running: true });
+    expect(runner.interval()).toEqual([]);
+    const paused = loaded();
+    expect(paused.interval()).toEqual([]);
+  });
+
+  it('reproduces the main-thread steps for the same seed and bolus', () => {
+    const runner = loaded(5);
+    runner.handle({ type: 'run', running: true });
+    runner.handle({ type: 'bolus', drugName: 'propofol', dose: 100, route: 'iv' });
+    const fromWorker = Array.from({ length: 30 }, () => runner.interval()[0].state);
+
+    const rng = createRng(5);
+    let state = { ...createSimulationState(patient), ...giveBolus(createSimulationState(patient), inputs, 'propofol', 100) };
+    const direct = Array.from({ length: 30 }, () => (state = stepSimulation(state, inputs, rng).state));
+    expect(fromWorker).toEqual(direct);
+  });
+
+  it('runs round(speed) steps per interval and stretches the interval below 1×', () => {
+    const runner = loaded();
+    runner.handle({ type: 'run', running: true });
+    runner.handle({ type: 'speed', speedMultiplier: 4 });
+    expect(runner.intervalMs).toBe(1000);
+    const steps = runner.interval();
+    expect(steps.map(s => s.state.elapsedSeconds)).toEqual([1, 2, 3, 4]);
+    runner.handle({ type: 'speed', speedMultiplier: 0.5 });
+    expect(runner.intervalMs).toBe(2000);
+    expect(runner.interval()).toHaveLength(1);
+  });
+
+  it('applies infusion, intervention and sync commands', () => {
+    const runner = loaded();
+    runner.handle({ type: 'run', running: true });
+    runner.handle({
+      type: 'infusion', drugName: 'remifentanil',
+      infusion: { drugName: 'Remifentanil', rate: 10, unit: 'mcg/min', isRunning: true },
+    });
+    runner.handle({ type: 'intervention', intervention: 'jaw_thrust', active: true });
+    runner.handle({ type: 'sync', state: { activeStimuli: [{ profileId: 'pain', startTime: 0, scale: 1 }] }, inputs: { fio2: 0.5 } });
+    let step = runner.interval()[0];
+    expect(step.state.pkStates.remifentanil.c1).toBeGreaterThan(0);
+    expect(step.state.stimulusResponse.intensity.noxious).toBeGreaterThan(0);
+
+    runner.handle({ type: 'infusion', drugName: 'remifentanil', infusion: null });
+    step = runner.interval()[0];
+    expect(step.state.infusions.remifentanil).toBeUndefined();
+  });
+});
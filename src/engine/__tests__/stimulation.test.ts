@@ -0,0 +1,111 @@
+/**
+ * Unit tests for procedure stimulation (stimulation.ts)
+ * Stimulus envelopes, breakthrough through the noxious response surface,
+ * and the resulting MOASS and haemodynamic shifts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  stimulusIntensity,
+  computeStimulusResponse,
+  stimulatedMOASS,
+  applyStimulusToVitals,
+  isStimulusFinished,
+  stimulusEndTime,
+  STIMULUS_PROFILES,
+  ZERO_STIMULUS_RESPONSE,
+} from '../stimulation';
+import { evaluateResponseSurface, ZERO_ENDPOINT_EFFECTS } from '../responseSurface';
+import { BASELINE_VITALS } from '../physiology';
+
+describe('stimulusIntensity', () => {
+  it('ramps up, holds at peak, then decays to zero', () => {
+    const active = [{ profileId: 'splenic_flexure', startTime: 100, scale: 1 }];
+    expect(stimulusIntensity(active, 100).noxious).toBe(0);
+    expect(stimulusIntensity(active, 102).noxious).toBeGreaterThan(0);
+    expect(stimulusIntensity(active, 130).noxious).toBeCloseTo(0.85, 6);
+    expect(stimulusIntensity(active, 130).label).toBe('Loop at splenic flexure');
+    expect(stimulusIntensity(active, 170).noxious).toBeLessThan(0.85);
+    expect(stimulusIntensity(active, 100 + stimulusEndTime(STIMULUS_PROFILES.splenic_flexure) + 1).noxious).toBe(0);
+  });
+
+  it('colonoscopy profile varies over the procedure', () => {
+    const active = [{ profileId: 'colonoscopy', startTime: 0, scale: 1 }];
+    const insertion = stimulusIntensity(active, 20).noxious;
+    const quiet = stimulusIntensity(active, 120).noxious;
+    const flexure = stimulusIntensity(active, 450).noxious;
+    expect(quiet).toBe(0);
+    expect(flexure).toBeGreaterThan(insertion);
+  });
+
+  it('concurrent stimuli combine but never exceed 1', () => {
+    const one = stimulusIntensity([{ profileId: 'pain', startTime: 0, scale: 1 }], 10).noxious;
+    const two = stimulusIntensity([
+      { profileId: 'pain', startTime: 0, scale: 1 },
+      { profileId: 'dental_injection', startTime: 0, scale: 1 },
+    ], 10).noxious;
+    expect(two).toBeGreaterThan(one);
+    expect(two).toBeLessThanOrEqual(1);
+  });
+
+  it('verbal stimuli are tracked separately from noxious', () => {
+    const i = stimulusIntensity([{ profileId: 'verbal', startTime: 0, scale: 1 }], 8);
+    expect(i.noxious).toBe(0);
+    expect(i.verbal).toBeCloseTo(1, 6);
+  });
+
+  it('finished stimuli are detected for pruning', () => {
+    const s = { profileId: 'pain', startTime: 0, scale: 1 };
+    expect(isStimulusFinished(s, 10)).toBe(false);
+    expect(isStimulusFinished(s, stimulusEndTime(STIMULUS_PROFILES.pain) + 1)).toBe(true);
+  });
+});
+
+describe('computeStimulusResponse', () => {
+  const peak = { noxious: 0.85, verbal: 0, label: 'Loop at splenic flexure' };
+
+  it('unsedated patient: full breakthrough', () => {
+    const r = computeStimulusResponse(peak, ZERO_ENDPOINT_EFFECTS);
+    expect(r.arousal).toBeCloseTo(0.85, 6);
+    expect(r.moassShift).toBeGreaterThanOrEqual(2);
+    expect(r.hrDelta).toBeGreaterThan(20);
+  });
+
+  it('opioid on board blunts the response to the same stimulus', () => {
+    const light = evaluateResponseSurface({ propofol: 1.5 });
+    const withOpioid = evaluateResponseSurface({ propofol: 1.5, remifentanil: 3 });
+    const a = computeStimulusResponse(peak, light);
+    const b = computeStimulusResponse(peak, withOpioid);
+    expect(b.arousal).toBeLessThan(a.arousal);
+    expect(b.sbpDelta).toBeLessThan(a.sbpDelta);
+  });
+
+  it('no stimulus: no response', () => {
+    const r = computeStimulusResponse({ noxious: 0, verbal: 0, label: null }, ZERO_ENDPOINT_EFFECTS);
+    expect(r.arousal).toBe(0);
+    expect(r.moassShift).toBe(0);
+  });
+});
+
+describe('stimulatedMOASS / applyStimulusToVitals', () => {
+  it('lightens MOASS but never above 5', () => {
+    const r = computeStimulusResponse({ noxious: 1, verbal: 0, label: 'x' }, ZERO_ENDPOINT_EFFECTS);
+    expect(stimulatedMOASS(1, r)).toBe(4);
+    expect(stimulatedMOASS(4, r)).toBe(5);
+    expect(stimulatedMOASS(2, ZERO_STIMULUS_RESPONSE)).toBe(2);
+  });
+
+  it('raises HR and BP and keeps MAP consistent', () => {
+    const r = computeStimulusResponse({ noxious: 0.8, verbal: 0, label: 'x' }, ZERO_ENDPOINT_EFFECTS);
+    const v = applyStimulusToVitals(BASELINE_VITALS, r);
+    expect(v.hr).toBeGreaterThan(BASELINE_VITALS.hr);
+    expect(v.sbp).toBeGreaterThan(BASELINE_VITALS.sbp);
+    expect(v.map).toBeCloseTo((v.sbp + 2 * v.dbp) / 3, 6);
+  });
+
+  it('no sympathetic response in a pulseless rhythm', () => {
+    const r = computeStimulusResponse({ noxious: 1, verbal: 0, label: 'x' }, ZERO_ENDPOINT_EFFECTS);
+    const arrest = { ...BASELINE_VITALS, hr: 0, sbp: 0, dbp: 0, map: 0, rhythm: 'asystole' as const };
+    expect(applyStimulusToVitals(arrest, r)).toEqual(arrest);
+  });
+});
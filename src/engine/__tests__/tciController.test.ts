@@ -0,0 +1,158 @@
+/**
+ * Unit tests for the TCI controller (tciController.ts)
+ * Closed-loop runs of plasma and effect-site targeting against the exact PK solver,
+ * and the pump's boluses and infusion through the simulation step.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeTCICommand,
+  predictTimeToTarget,
+  decrementTime,
+  TCI_DRUG_CONFIG,
+  TCI_TOLERANCE,
+} from '../tciController';
+import { createInitialPKState, stepPK, advancePK, applyBolus } from '../pkModel';
+import { resolveDrugParams, DEFAULT_PK_MODELS } from '../pkModelRegistry';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import { DEFAULT_INTERACTION_MODELS } from '../responseSurface';
+import { createSimulationState, stepSimulation, SimulationInputs } from '../SedSimCoreEngine';
+import { createRng } from '../prng';
+import type { LogEntry, PKState, TCISettings } from '../../types';
+
+const propofol = resolveDrugParams('propofol', PATIENT_ARCHETYPES.healthy_adult, DEFAULT_PK_MODELS);
+const MAX_RATE = TCI_DRUG_CONFIG.propofol.maxRate;
+
+function run(settings: Pick<TCISettings, 'targetSite' | 'target'>, seconds: number, start = createInitialPKState()) {
+  let s: PKState = start;
+  const trace: PKState[] = [];
+  let totalBolus = 0;
+  for (let t = 0; t < seconds; t++) {
+    const cmd = computeTCICommand(s, propofol, settings, 1, MAX_RATE);
+    totalBolus += cmd.bolus;
+    s = stepPK(s, propofol, cmd.bolus, cmd.rate, 1);
+    trace.push(s);
+  }
+  return { state: s, trace, totalBolus };
+}
+
+describe('plasma targeting', () => {
+  it('loads V1 to the target and holds Cp there', () => {
+    const { trace } = run({ targetSite: 'plasma', target: 3 }, 600);
+    for (const s of trace.slice(1)) expect(s.c1).toBeCloseTo(3, 3);
+    expect(trace[599].ce).toBeGreaterThan(3 * (1 - TCI_TOLERANCE));
+  });
+
+  it('pauses the pump when the target is lowered', () => {
+    const { state } = run({ targetSite: 'plasma', target: 4 }, 300);
+    const cmd = computeTCICommand(state, propofol, { targetSite: 'plasma', target: 2 }, 1, MAX_RATE);
+    expect(cmd).toEqual({ bolus: 0, rate: 0 });
+  });
+});
+
+describe('effect-site targeting', () => {
+  it('reaches the Ce target without overshoot and holds it', () => {
+    const target = 3;
+    const { trace } = run({ targetSite: 'effect', target }, 900);
+    const peak = Math.max(...trace.map(s => s.ce));
+    expect(peak).toBeLessThan(target * (1 + TCI_TOLERANCE));
+    for (const s of trace.slice(300)) expect(Math.abs(s.ce - target)).toBeLessThan(target * TCI_TOLERANCE);
+  });
+
+  it('gives a larger initial bolus than plasma targeting', () => {
+    const eff = computeTCICommand(createInitialPKState(), propofol, { targetSite: 'effect', target: 3 }, 1);
+    const pl = computeTCICommand(createInitialPKState(), propofol, { targetSite: 'plasma', target: 3 }, 1);
+    expect(eff.bolus).toBeGreaterThan(pl.bolus);
+  });
+
+  it('sized bolus alone peaks at the target', () => {
+    const target = 2.5;
+    const { bolus } = computeTCICommand(createInitialPKState(), propofol, { targetSite: 'effect', target }, 1);
+    let s = applyBolus(createInitialPKState(), propofol, bolus);
+    let peak = 0;
+    for (let t = 0; t < 600; t++) {
+      s = advancePK(s, propofol, 0, 1);
+      peak = Math.max(peak, s.ce);
+    }
+    expect(peak).toBeCloseTo(target, 2);
+  });
+
+  it('respects the pump rate ceiling', () => {
+    const cmd = computeTCICommand({ c1: 2.9, c2: 0, c3: 0, ce: 2.95 }, propofol, { targetSite: 'effect', target: 3 }, 1, 1);
+    expect(cmd.rate).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('predictions', () => {
+  it('effect-site targeting reaches Ce faster than plasma targeting', () => {
+    const start = createInitialPKState();
+    const eff = predictTimeToTarget(start, propofol, { targetSite: 'effect', target: 3 }, MAX_RATE);
+    const pl = predictTimeToTarget(start, propofol, { targetSite: 'plasma', target: 3 }, MAX_RATE);
+    expect(eff).not.toBeNull();
+    expect(pl).not.toBeNull();
+    expect(eff!).toBeLessThan(pl!);
+    expect(eff!).toBeLessThan(180);
+  });
+
+  it('time to target is 0 when already on target', () => {
+    const s = { c1: 3, c2: 3, c3: 3, ce: 3 };
+    expect(predictTimeToTarget(s, propofol, { targetSite: 'effect', target: 3 })).toBe(0);
+  });
+
+  it('decrement time grows with infusion duration (context sensitivity)', () => {
+    const short = run({ targetSite: 'effect', target: 3 }, 15 * 60).state;
+    const long = run({ targetSite: 'effect', target: 3 }, 120 * 60).state;
+    const tShort = decrementTime(short, propofol, 1.5)!;
+    const tLong = decrementTime(long, propofol, 1.5)!;
+    expect(tShort).toBeGreaterThan(0);
+    expect(tLong).toBeGreaterThan(tShort);
+  });
+
+  it('decrement time is 0 below the threshold and null for an unreachable one', () => {
+    expect(decrementTime({ c1: 1, c2: 1, c3: 1, ce: 1 }, propofol, 2)).toBe(0);
+    const ss = advancePK(createInitialPKState(), propofol, 20, 24 * 3600);
+    expect(decrementTime(ss, propofol, 0.0001)).toBeNull();
+  });
+});
+
+describe('simulation', () => {
+  const inputs: SimulationInputs = {
+    patient: PATIENT_ARCHETYPES.healthy_adult,
+    variability: null,
+    pkModelSelection: DEFAULT_PK_MODELS,
+    interactionModels: DEFAULT_INTERACTION_MODELS,
+    fio2: 0.4,
+    interventions: new Set(),
+    airwayDevice: 'nasal_cannula',
+    position: 'supine',
+    cpr: null,
+  };
+
+  it('logs pump boluses and counts them with the infusion in the drug totals', () => {
+    let state = createSimulationState(inputs.patient);
+    state = {
+      ...state,
+      infusions: {
+        propofol: {
+          drugName: 'Propofol', rate: 0, unit: 'mg/min', isRunning: true,
+          tci: { targetSite: 'plasma', target: 3, decrementTarget: 1 },
+        },
+      },
+    };
+    const rng = createRng(1);
+    const events: LogEntry[] = [];
+    let delivered = 0;
+    for (let t = 0; t < 300; t++) {
+      const command = computeTCICommand(state.pkStates.propofol, propofol, state.infusions.propofol.tci!, 1, MAX_RATE);
+      delivered += command.bolus + command.rate / 60;
+      const step = stepSimulation(state, inputs, rng);
+      state = step.state;
+      events.push(...step.events);
+    }
+    const boluses = events.filter(e => e.type === 'bolus');
+    expect(boluses).toHaveLength(1);
+    expect(boluses[0].message).toBe(`Propofol ${Number(((3 - 0) * propofol.V1).toPrecision(3))} mg TCI bolus`);
+    expect(state.drugTotals.propofol).toBeCloseTo(delivered, 6);
+    expect(state.drugTotals.propofol).toBeGreaterThan(3 * propofol.V1);
+  });
+});
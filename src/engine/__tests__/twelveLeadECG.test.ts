@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the 12-lead synthesizer (twelveLeadECG.ts)
+ * Lead relationships of the dipole projection, normal R-wave progression,
+ * bundle branch block, LVH and territorial ST patterns, and every rhythm.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  synthesizeTwelveLead, qrsAxis, leadSTDeviation, morphologyForPatient,
+  NORMAL_MORPHOLOGY, TWELVE_LEADS, ECGMorphology, TwelveLeadECG,
+} from '../twelveLeadECG';
+import { evaluateECG } from '../ecgWaveformEngine';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import { createRng } from '../prng';
+import type { CardiacRhythm } from '../../types';
+
+/** 60 bpm sinus, first beat starting at t = 0: beat k spans [k, k + 1) s */
+const sinus = (morphology: ECGMorphology = NORMAL_MORPHOLOGY): TwelveLeadECG =>
+  synthesizeTwelveLead({ rhythm: 'normal_sinus', hr: 60, qtc: 400, morphology, durationSec: 2 }, () => 0);
+
+/** Sample index at beat angle theta (rad) within the first beat */
+const at = (ecg: TwelveLeadECG, theta: number) => Math.round((theta + Math.PI) / (2 * Math.PI) * ecg.sampleRateHz);
+const R_PEAK = 0;
+const ST_POINT = 0.38;
+
+const qrsWindow = (ecg: TwelveLeadECG, lead: keyof TwelveLeadECG['leads']) =>
+  ecg.leads[lead].slice(at(ecg, -0.3), at(ecg, 0.35));
+
+describe('dipole projection', () => {
+  it('obeys Einthoven and Goldberger: II = I + III, aVR + aVL + aVF = 0', () => {
+    const ecg = sinus();
+    for (let i = 0; i < ecg.leads.I.length; i += 7) {
+      expect(ecg.leads.II[i]).toBeCloseTo(ecg.leads.I[i] + ecg.leads.III[i], 2);
+      expect(ecg.leads.aVR[i] + ecg.leads.aVL[i] + ecg.leads.aVF[i]).toBeCloseTo(0, 2);
+    }
+  });
+
+  it('lead II matches the single-lead monitor R wave', () => {
+    const ecg = sinus();
+    const monitor = evaluateECG('normal_sinus', 0.5, 60, 0, 0, undefined, 400);
+    expect(ecg.leads.II[at(ecg, R_PEAK)]).toBeCloseTo(monitor, 1);
+  });
+
+  it('shows normal R-wave progression, aVR inversion and a normal axis', () => {
+    const ecg = sinus();
+    const net = (lead: 'V1' | 'V3' | 'V6' | 'aVR') => qrsWindow(ecg, lead).reduce((a, b) => a + b, 0);
+    expect(net('V1')).toBeLessThan(0);
+    expect(net('V6')).toBeGreaterThan(0);
+    expect(net('V3')).toBeGreaterThan(net('V1'));
+    expect(ecg.leads.aVR[at(ecg, R_PEAK)]).toBeLessThan(0);
+    expect(qrsAxis()).toBeGreaterThan(-30);
+    expect(qrsAxis()).toBeLessThan(90);
+  });
+});
+
+describe('morphology', () => {
+  it('LBBB widens the QRS with a deep QS in V1 and discordant T in V6', () => {
+    const lbbb = sinus({ ...NORMAL_MORPHOLOGY, conduction: 'lbbb' });
+    const normal = sinus();
+    const width = (ecg: TwelveLeadECG) => qrsWindow(ecg, 'V6').filter(v => Math.abs(v) > 0.3).length;
+    expect(width(lbbb)).toBeGreaterThan(width(normal) * 1.5);
+    expect(Math.min(...qrsWindow(lbbb, 'V1'))).toBeLessThan(-1);
+    expect(lbbb.leads.V6[at(lbbb, 0.8)]).toBeLessThan(0);
+  });
+
+  it("RBBB adds a terminal R' in V1", () => {
+    const rbbb = sinus({ ...NORMAL_MORPHOLOGY, conduction: 'rbbb' });
+    const normal = sinus();
+    expect(rbbb.leads.V1[at(rbbb, 0.26)]).toBeGreaterThan(0.3);
+    expect(normal.leads.V1[at(normal, 0.26)]).toBeLessThan(0);
+  });
+
+  it('LVH meets Sokolow-Lyon voltage with lateral strain', () => {
+    const lvh = sinus({ ...NORMAL_MORPHOLOGY, lvh: true });
+    const sV1 = -Math.min(...qrsWindow(lvh, 'V1'));
+    const rV6 = Math.max(...qrsWindow(lvh, 'V5'), ...qrsWindow(lvh, 'V6'));
+    expect(sV1 + rV6).toBeGreaterThan(3.5);
+    expect(sinus().leads.V6[at(lvh, 0.75)]).toBeGreaterThan(0);
+    expect(lvh.leads.V6[at(lvh, 0.75)]).toBeLessThan(0);
+  });
+
+  it('territorial ST elevation appears in the facing leads with reciprocal depression', () => {
+    const inferior: ECGMorphology = { ...NORMAL_MORPHOLOGY, st: [{ territory: 'inferior', deviation: 0.2 }] };
+    const stemi = sinus(inferior);
+    const normal = sinus();
+    const st = (lead: 'II' | 'III' | 'aVF' | 'aVL' | 'V2') =>
+      stemi.leads[lead][at(stemi, ST_POINT)] - normal.leads[lead][at(normal, ST_POINT)];
+    expect(st('III')).toBeGreaterThan(0.15);
+    expect(st('aVF')).toBeGreaterThan(0.15);
+    expect(st('aVL')).toBeLessThan(-0.1);
+    expect(Math.abs(st('V2'))).toBeLessThan(0.05);
+    expect(leadSTDeviation(inferior, 'III')).toBeCloseTo(st('III'), 1);
+  });
+
+  it('diffuse subendocardial depression elevates aVR', () => {
+    const demand: ECGMorphology = { ...NORMAL_MORPHOLOGY, st: [{ territory: 'subendocardial', deviation: -0.15 }] };
+    expect(leadSTDeviation(demand, 'V5')).toBeLessThan(-0.1);
+    expect(leadSTDeviation(demand, 'II')).toBeLessThan(-0.1);
+    expect(leadSTDeviation(demand, 'aVR')).toBeGreaterThan(0.1);
+  });
+
+  it('cardiomyopathy archetypes carry their conduction and voltage pattern', () => {
+    expect(morphologyForPatient(PATIENT_ARCHETYPES.hcm_young).lvh).toBe(true);
+    expect(morphologyForPatient(PATIENT_ARCHETYPES.dcm_old).conduction).toBe('lbbb');
+    expect(morphologyForPatient(PATIENT_ARCHETYPES.healthy_adult)).toEqual(NORMAL_MORPHOLOGY);
+  });
+});
+
+describe('rhythms', () => {
+  const RHYTHMS: CardiacRhythm[] = [
+    'normal_sinus', 'sinus_bradycardia', 'sinus_tachycardia', 'svt', 'atrial_fibrillation', 'atrial_flutter',
+    'junctional', 'ventricular_tachycardia', 'polymorphic_vt', 'wide_complex_unknown', 'first_degree_av_block',
+    'second_degree_type1', 'second_degree_type2', 'third_degree_av_block', 'ventricular_fibrillation',
+    'asystole', 'pea',
+  ];
+
+  it('every rhythm synthesizes twelve finite 10 s leads', () => {
+    for (const rhythm of RHYTHMS) {
+      const ecg = synthesizeTwelveLead({ rhythm, hr: 90 }, createRng(1));
+      for (const lead of TWELVE_LEADS) {
+        expect(ecg.leads[lead]).toHaveLength(5000);
+        expect(ecg.leads[lead].every(Number.isFinite)).toBe(true);
+      }
+      const span = Math.max(...ecg.leads.II) - Math.min(...ecg.leads.II);
+      if (rhythm === 'asystole') expect(span).toBeLessThan(0.05);
+      else expect(span).toBeGreaterThan(0.3);
+    }
+  });
+
+  it('AF is irregular but reproducible from the seed', () => {
+    const a = synthesizeTwelveLead({ rhythm: 'atrial_fibrillation', hr: 110 }, createRng(4));
+    expect(synthesizeTwelveLead({ rhythm: 'atrial_fibrillation', hr: 110 }, createRng(4))).toEqual(a);
+    expect(synthesizeTwelveLead({ rhythm: 'atrial_fibrillation', hr: 110 }, createRng(5)).leads.II).not.toEqual(a.leads.II);
+  });
+});
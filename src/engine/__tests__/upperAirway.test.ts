@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the upper airway patency model (upperAirway.ts)
+ * Tone loss, anatomical susceptibility, manoeuvre relief, and the effect of
+ * obstruction on capnography and oxygenation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assessUpperAirway, pharyngealToneLoss, airwaySusceptibility } from '../upperAirway';
+import { calculateVitals, PATIENT_ARCHETYPES, BASELINE_VITALS } from '../physiology';
+import type { InterventionType, PKState, Vitals } from '../../types';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+const obese = PATIENT_ARCHETYPES.obese_osa;
+const ce = (value: number): PKState => ({ c1: value, c2: 0, c3: 0, ce: value });
+const none = new Set<InterventionType>();
+
+describe('pharyngealToneLoss / airwaySusceptibility', () => {
+  it('hypnotics reduce tone, ketamine does not', () => {
+    expect(pharyngealToneLoss({})).toBe(0);
+    expect(pharyngealToneLoss({ propofol: ce(3) })).toBeGreaterThan(0.5);
+    expect(pharyngealToneLoss({ ketamine: ce(2) })).toBe(0);
+  });
+
+  it('OSA, obesity and Mallampati raise collapsibility; lateral position lowers it', () => {
+    expect(airwaySusceptibility(obese, 'supine')).toBeGreaterThan(airwaySusceptibility(healthy, 'supine'));
+    expect(airwaySusceptibility(obese, 'lateral')).toBeLessThan(airwaySusceptibility(obese, 'supine'));
+  });
+});
+
+describe('assessUpperAirway', () => {
+  it('awake patient: patent airway', () => {
+    const a = assessUpperAirway({}, healthy, none, 'room_air', 'supine');
+    expect(a.patency).toBe(1);
+    expect(a.obstructionType).toBe('none');
+  });
+
+  it('deep propofol: healthy adult snores, obese OSA obstructs completely', () => {
+    const pk = { propofol: ce(4) };
+    const h = assessUpperAirway(pk, healthy, none, 'room_air', 'supine');
+    const o = assessUpperAirway(pk, obese, none, 'room_air', 'supine');
+    expect(h.obstructionType).toBe('partial');
+    expect(h.snoring).toBe(true);
+    expect(o.obstructionType).toBe('complete');
+    expect(o.paradoxical).toBe(true);
+  });
+
+  it('jaw thrust and an oral airway relieve obstruction; LMA bypasses it', () => {
+    const pk = { propofol: ce(4) };
+    const jaw = assessUpperAirway(pk, obese, new Set<InterventionType>(['jaw_thrust']), 'room_air', 'supine');
+    const opa = assessUpperAirway(pk, obese, none, 'oral_airway', 'supine');
+    const lma = assessUpperAirway(pk, obese, none, 'lma', 'supine');
+    expect(jaw.obstructionType).not.toBe('complete');
+    expect(jaw.intervention).toBe('jaw_thrust');
+    expect(opa.patency).toBeGreaterThan(jaw.patency);
+    expect(lma.patency).toBe(1);
+    expect(lma.intervention).toBe('lma');
+  });
+});
+
+describe('calculateVitals integration', () => {
+  const run = (interventions: Set<InterventionType>, seconds: number): Vitals => {
+    const pk = { propofol: ce(4) };
+    let v: Vitals = BASELINE_VITALS;
+    for (let t = 1; t <= seconds; t++) {
+      v = calculateVitals(pk, obese, v, 0.21, v.rhythm ?? 'normal_sinus', t, interventions);
+    }
+    return v;
+  };
+
+  it('complete obstruction: flat capnogram with ongoing effort and falling SpO2', () => {
+    const v = run(none, 60);
+    expect(v.etco2).toBe(0);
+    expect(v.rr).toBeGreaterThan(0);
+    expect(v.spo2).toBeLessThan(90);
+  });
+
+  it('jaw thrust restores the capnogram and oxygenation', () => {
+    const v = run(new Set<InterventionType>(['jaw_thrust']), 60);
+    expect(v.etco2).toBeGreaterThan(15);
+    expect(v.spo2).toBeGreaterThan(run(none, 60).spo2 + 10);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for the CO2-driven ventilatory control model (ventilation.ts)
+ * CO2 response curve shifts, PaCO2 kinetics, apnea and spontaneous recovery.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  co2ResponseCurve,
+  ventilatoryDrive,
+  stepVentilation,
+  paco2Setpoint,
+  NO_VENTILATION_SUPPORT,
+} from '../ventilation';
+import { calculateVitals, PATIENT_ARCHETYPES, BASELINE_VITALS } from '../physiology';
+import { evaluateResponseSurface, effectSiteConcentrations, pairKey } from '../responseSurface';
+import type { PKState, Vitals } from '../../types';
+
+const patient = PATIENT_ARCHETYPES.healthy_adult;
+const setpoint = paco2Setpoint(38);
+const ce = (value: number): PKState => ({ c1: value, c2: 0, c3: 0, ce: value });
+
+describe('co2ResponseCurve', () => {
+  it('no drug: resting drive is 1 at the setpoint', () => {
+    const curve = co2ResponseCurve({}, setpoint);
+    expect(ventilatoryDrive(curve, setpoint)).toBeCloseTo(1, 6);
+    expect(curve.threshold).toBeLessThan(setpoint);
+  });
+
+  it('opioid shifts the apneic threshold right and flattens the slope', () => {
+    const base = co2ResponseCurve({}, setpoint);
+    const opioid = co2ResponseCurve({ fentanyl: ce(3) }, setpoint);
+    expect(opioid.threshold).toBeGreaterThan(base.threshold);
+    expect(opioid.slopeFactor).toBeLessThan(base.slopeFactor);
+  });
+
+  it('propofol flattens more than it shifts', () => {
+    const base = co2ResponseCurve({}, setpoint);
+    const prop = co2ResponseCurve({ propofol: ce(4) }, setpoint);
+    expect(prop.threshold - base.threshold).toBeLessThan(3);
+    expect(prop.slopeFactor).toBeLessThan(0.85);
+  });
+
+  it('hypercapnia increases drive', () => {
+    const curve = co2ResponseCurve({ fentanyl: ce(2) }, setpoint);
+    expect(ventilatoryDrive(curve, 50)).toBeGreaterThan(ventilatoryDrive(curve, 42));
+  });
+
+  it('the respiratory endpoint sets the depth of depression', () => {
+    const pk = { fentanyl: ce(2) };
+    const light = co2ResponseCurve(pk, setpoint, 0.2);
+    const deep = co2ResponseCurve(pk, setpoint, 0.8);
+    expect(deep.threshold).toBeGreaterThan(light.threshold);
+    expect(deep.slopeFactor).toBeLessThan(light.slopeFactor);
+    expect(deep.opioidShare).toBe(light.opioidShare);
+    const none = co2ResponseCurve(pk, setpoint, 0);
+    expect(none.threshold).toBe(co2ResponseCurve({}, setpoint).threshold);
+    expect(none.slopeFactor).toBe(1);
+  });
+
+  it('the selected interaction model changes the depression', () => {
+    const key = pairKey('midazolam', 'fentanyl');
+    const pk = { midazolam: ce(0.15), fentanyl: ce(3) };
+    const curve = (modelId: string) => co2ResponseCurve(
+      pk, setpoint, evaluateResponseSurface(effectSiteConcentrations(pk), { [key]: modelId }).respiratory
+    );
+    expect(curve('minto_2000').threshold).toBeGreaterThan(curve('greco').threshold);
+    expect(ventilatoryDrive(curve('minto_2000'), setpoint)).toBeLessThan(ventilatoryDrive(curve('greco'), setpoint));
+  });
+});
+
+describe('stepVentilation', () => {
+  it('rest is a steady state', () => {
+    const curve = co2ResponseCurve({}, setpoint);
+    const v = stepVentilation(setpoint, curve, 14, patient, setpoint);
+    expect(v.paco2).toBeCloseTo(setpoint, 6);
+    expect(v.rr).toBeCloseTo(14, 6);
+    expect(v.etco2).toBeCloseTo(38, 6);
+  });
+
+  it('apnea: PaCO2 rises ~3 mmHg/min with a flat capnogram', () => {
+    const curve = { threshold: 60, slopeFactor: 0.5, opioidShare: 1 };
+    let paco2 = setpoint;
+    let last = stepVentilation(paco2, curve, 14, patient, setpoint);
+    for (let t = 0; t < 60; t++) {
+      last = stepVentilation(paco2, curve, 14, patient, setpoint);
+      paco2 = last.paco2;
+    }
+    expect(last.rr).toBe(0);
+    expect(last.etco2).toBe(0);
+    expect(paco2 - setpoint).toBeGreaterThan(2.5);
+    expect(paco2 - setpoint).toBeLessThan(4.5);
+  });
+
+  it('opioid apnea resolves spontaneously as CO2 accumulates', () => {
+    const curve = co2ResponseCurve({ remifentanil: ce(4) }, setpoint);
+    expect(ventilatoryDrive(curve, setpoint)).toBe(0);
+    let paco2 = setpoint;
+    let v = stepVentilation(paco2, curve, 14, patient, setpoint);
+    for (let t = 0; t < 900; t++) {
+      v = stepVentilation(paco2, curve, 14, patient, setpoint);
+      paco2 = v.paco2;
+    }
+    expect(v.rr).toBeGreaterThan(0);
+    expect(paco2).toBeGreaterThan(curve.threshold);
+    expect(v.etco2).toBeGreaterThan(38);
+  });
+
+  it('opioids slow the rate, hypnotics make breathing shallow', () => {
+    const opioid = { threshold: 35, slopeFactor: 0.5, opioidShare: 1 };
+    const hypnotic = { ...opioid, opioidShare: 0 };
+    const o = stepVentilation(setpoint, opioid, 14, patient, setpoint);
+    const h = stepVentilation(setpoint, hypnotic, 14, patient, setpoint);
+    expect(o.rr).toBeLessThan(h.rr);
+    expect(o.tidalVolume).toBeGreaterThan(h.tidalVolume);
+    // Shallow breathing wastes more on dead space
+    expect(h.alveolarRatio).toBeLessThan(o.alveolarRatio);
+  });
+
+  it('bag-mask ventilation overrides an absent drive', () => {
+    const curve = { threshold: 60, slopeFactor: 0.5, opioidShare: 1 };
+    const v = stepVentilation(setpoint, curve, 14, patient, setpoint, { ...NO_VENTILATION_SUPPORT, assistedRatio: 0.9 });
+    expect(v.rr).toBeGreaterThan(10);
+    expect(v.etco2).toBeGreaterThan(30);
+  });
+});
+
+describe('calculateVitals integration', () => {
+  it('opioid apnea: EtCO2 flat, PaCO2 rising, then breathing resumes with raised EtCO2', () => {
+    const pk = { remifentanil: ce(4) };
+    let v: Vitals = BASELINE_VITALS;
+    const rrTrace: number[] = [];
+    for (let t = 1; t <= 600; t++) {
+      v = calculateVitals(pk, patient, v, 0.21, v.rhythm ?? 'normal_sinus', t);
+      rrTrace.push(v.rr);
+      if (t === 20) {
+        expect(v.rr).toBe(0);
+        expect(v.etco2).toBe(0);
+      }
+    }
+    expect(v.paco2!).toBeGreaterThan(45);
+    expect(rrTrace[599]).toBeGreaterThan(0);
+    expect(v.etco2).toBeGreaterThan(40);
+  });
+});
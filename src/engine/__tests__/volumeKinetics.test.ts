@@ -0,0 +1,101 @@
+/**
+ * Unit tests for the two-volume fluid kinetics model (volumeKinetics.ts)
+ * Crystalloid distribution, free water, colloid retention, hemorrhage with
+ * transcapillary refill, and bowel prep hypovolemia unmasked by propofol.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  stepVolume,
+  startBleed,
+  applyVolumeDeficit,
+  intravascularChange,
+  bolusFlowRate,
+  EUVOLEMIA,
+  VolumeState,
+} from '../volumeKinetics';
+import { computeCirculation, DEFAULT_CIRCULATION_CONTEXT } from '../circulation';
+import { PATIENT_ARCHETYPES } from '../physiology';
+import type { Patient, PKState } from '../../types';
+
+const healthy = PATIENT_ARCHETYPES.healthy_adult;
+const ce = (value: number): PKState => ({ c1: value, c2: 0, c3: 0, ce: value });
+
+/** Run `volume` mL of `fluid` in over `infusionSec`, then observe until `totalSec` */
+const infuse = (
+  fluid: string,
+  volume: number,
+  infusionSec: number,
+  totalSec: number,
+  start: VolumeState = EUVOLEMIA,
+  patient: Patient = healthy
+): VolumeState => {
+  let s = start;
+  for (let t = 0; t < totalSec; t++) {
+    s = stepVolume(s, patient, t < infusionSec ? volume / infusionSec : 0, fluid);
+  }
+  return s;
+};
+
+describe('infused fluids', () => {
+  it('crystalloid: about a third stays intravascular after 30 min', () => {
+    const s = infuse('LR', 1000, 600, 1800);
+    expect(intravascularChange(s)).toBeGreaterThan(200);
+    expect(intravascularChange(s)).toBeLessThan(400);
+    expect(s.interstitial).toBeGreaterThan(intravascularChange(s));
+  });
+
+  it('D5W expands plasma less than an isotonic crystalloid', () => {
+    const lr = infuse('LR', 1000, 600, 600);
+    const d5w = infuse('D5W', 1000, 600, 600);
+    expect(intravascularChange(d5w)).toBeLessThan(intravascularChange(lr) * 0.5);
+  });
+
+  it('albumin stays intravascular', () => {
+    const s = infuse('Albumin 5%', 500, 600, 1800);
+    expect(intravascularChange(s)).toBeGreaterThan(400);
+  });
+
+  it('a pressure-bagged bolus runs faster through a large cannula', () => {
+    expect(bolusFlowRate('14G')).toBeGreaterThan(bolusFlowRate('20G'));
+    expect(bolusFlowRate('unknown')).toBe(bolusFlowRate('20G'));
+  });
+});
+
+describe('hemorrhage', () => {
+  it('bleeding stops at the profile volume and the interstitium partly refills plasma', () => {
+    let s = startBleed(EUVOLEMIA, 'post_extraction');
+    for (let t = 0; t < 1800; t++) s = stepVolume(s, healthy, 0, null);
+    expect(s.bleeds).toHaveLength(0);
+    expect(s.bloodLoss).toBeCloseTo(200, 0);
+    expect(intravascularChange(s)).toBeGreaterThan(-200);
+    expect(s.interstitial).toBeLessThan(0);
+  });
+
+  it('an arterial bleed produces hypovolemic tachycardia', () => {
+    let s = startBleed(EUVOLEMIA, 'arterial');
+    for (let t = 0; t < 600; t++) s = stepVolume(s, healthy, 0, null);
+    const rest = computeCirculation({}, healthy);
+    const bled = computeCirculation({}, healthy, { ...DEFAULT_CIRCULATION_CONTEXT, volumeChange: intravascularChange(s) });
+    expect(s.bloodLoss).toBeGreaterThan(1000);
+    expect(bled.hr).toBeGreaterThan(rest.hr + 15);
+    expect(bled.co).toBeLessThan(rest.co);
+  });
+});
+
+describe('bowel prep deficit', () => {
+  it('is split between plasma and interstitium', () => {
+    const s = applyVolumeDeficit(EUVOLEMIA, healthy, 1500);
+    expect(s.plasma + s.interstitial).toBeCloseTo(-1500, 6);
+    expect(s.plasma).toBeLessThan(-300);
+  });
+
+  it('propofol after prep drops MAP further than propofol alone', () => {
+    const prep = applyVolumeDeficit(EUVOLEMIA, healthy, 1500);
+    const context = { ...DEFAULT_CIRCULATION_CONTEXT, volumeChange: intravascularChange(prep) };
+    const euvolemic = computeCirculation({ propofol: ce(3) }, healthy);
+    const dry = computeCirculation({ propofol: ce(3) }, healthy, context);
+    expect(dry.map).toBeLessThan(euvolemic.map - 4);
+    expect(dry.edv).toBeLessThan(euvolemic.edv);
+  });
+});
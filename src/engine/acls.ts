@@ -0,0 +1,587 @@
+import { AirwayDevice, CardiacRhythm, InterventionType, PKState, Vitals } from '../types';
+import { isPulselessRhythm, getAclsGuidance } from './cardiacRhythm';
+import { Rng } from './prng';
+
+/**
+ * ACLS
+ * Cardiac arrest as a state the resuscitation drives: chest compressions
+ * as a physiologic input, shocks, epinephrine and amiodarone, the 2-minute
+ * CPR cycle and the reversible causes (H's and T's).
+ *
+ * An arrest starts when the physiology produces a pulseless rhythm (VF,
+ * asystole, PEA) or a scenario starts one (including pulseless VT). From
+ * then until ROSC this model owns the rhythm; the rest of the physiology
+ * keeps running underneath.
+ *
+ * Compressions generate flow in proportion to depth, rate and recoil.
+ * Diastolic aortic minus right atrial pressure is the coronary perfusion
+ * pressure (CPP); epinephrine raises aortic diastolic pressure. EtCO2
+ * tracks the flow when the patient is ventilated.
+ *
+ * Gas exchange needs both: with compressions and ventilation SpO2 and
+ * PaCO2 move toward values set by the flow; without either SpO2 falls
+ * (τ 1 min) and PaCO2 rises 4 mmHg/min from where the arrest found them.
+ * The arrested patient is unresponsive (MOASS 0) whatever the drugs.
+ *
+ *   flow = f(depth) · f(rate) · f(recoil)
+ *   CPP  = DBP − RAP,  DBP = 8 + 22 · flow · (1 + 0.5 · epi)
+ *
+ * Myocardial viability (0-1) decays without flow (τ 4 min), is held by a
+ * CPP of 20 mmHg and recovers above the 15 mmHg ROSC threshold, under a
+ * ceiling that falls with arrest duration. Viability sets the odds that a
+ * shock terminates VF and that an organised rhythm perfuses; untreated
+ * reversible causes hold ROSC back.
+ *
+ * Shock success: P(terminate) = (1 − e^(−J/75)) · (0.5 + 0.5 · viability),
+ * raised by amiodarone; a terminated VF may refibrillate, or organise into
+ * ROSC, PEA or asystole. Spontaneous transitions (pVT → VF, VF/PEA →
+ * asystole, asystole → PEA, PEA → ROSC) are per-minute hazards drawn once
+ * per second, only while in arrest.
+ *
+ * References:
+ *   Paradis NA et al. JAMA 1990;263:1106-1113 (CPP ≥ 15 mmHg and ROSC)
+ *   Sanders AB et al. Ann Emerg Med 1985;14:948-952 (EtCO2 during CPR)
+ *   Kudenchuk PJ et al. N Engl J Med 1999;341:871-878 (ARREST trial, amiodarone)
+ *   Panchal AR et al. Circulation 2020;142(suppl 2):S366-S468 (AHA adult ALS)
+ *   Stiell IG et al. Circulation 2012;125:1787-1794 (CPR depth and survival)
+ */
+
+export type AclsRhythm = 'ventricular_fibrillation' | 'ventricular_tachycardia' | 'pea' | 'asystole';
+
+export interface CPRQuality {
+  rate: number;    // compressions per minute
+  depth: number;   // cm
+  recoil: number;  // 0-1 share of full chest recoil between compressions
+}
+
+export const GUIDELINE_CPR: CPRQuality = { rate: 110, depth: 5.5, recoil: 1 };
+
+export type ReversibleCause =
+  | 'hypovolemia' | 'hypoxia' | 'acidosis' | 'hyperkalemia' | 'hypothermia'
+  | 'tension_pneumothorax' | 'tamponade' | 'toxins' | 'pulmonary_thrombosis' | 'coronary_thrombosis';
+
+export type CauseTreatment =
+  | 'volume' | 'ventilation' | 'bicarbonate' | 'calcium' | 'rewarming'
+  | 'needle_decompression' | 'pericardiocentesis' | 'antidote' | 'thrombolysis' | 'reperfusion';
+
+/** Each cause, its treatment and the factor it leaves on ROSC odds while untreated */
+export const REVERSIBLE_CAUSES: Record<ReversibleCause, { name: string; treatment: CauseTreatment; roscFactor: number }> = {
+  hypovolemia: { name: 'Hypovolemia', treatment: 'volume', roscFactor: 0.1 },
+  hypoxia: { name: 'Hypoxia', treatment: 'ventilation', roscFactor: 0.1 },
+  acidosis: { name: 'Hydrogen ion (acidosis)', treatment: 'bicarbonate', roscFactor: 0.3 },
+  hyperkalemia: { name: 'Hyperkalemia', treatment: 'calcium', roscFactor: 0.1 },
+  hypothermia: { name: 'Hypothermia', treatment: 'rewarming', roscFactor: 0.2 },
+  tension_pneumothorax: { name: 'Tension pneumothorax', treatment: 'needle_decompression', roscFactor: 0.05 },
+  tamponade: { name: 'Tamponade', treatment: 'pericardiocentesis', roscFactor: 0.05 },
+  toxins: { name: 'Toxins', treatment: 'antidote', roscFactor: 0.1 },
+  pulmonary_thrombosis: { name: 'Thrombosis (pulmonary)', treatment: 'thrombolysis', roscFactor: 0.1 },
+  coronary_thrombosis: { name: 'Thrombosis (coronary)', treatment: 'reperfusion', roscFactor: 0.6 },
+};
+
+export const CAUSE_TREATMENTS: Record<CauseTreatment, string> = {
+  volume: 'Fluid bolus 1 L',
+  ventilation: 'Bag-mask ventilation, FiO2 100%',
+  bicarbonate: 'Sodium bicarbonate 50 mEq',
+  calcium: 'Calcium chloride 1 g',
+  rewarming: 'Active rewarming',
+  needle_decompression: 'Needle decompression',
+  pericardiocentesis: 'Pericardiocentesis',
+  antidote: 'Antidote / lipid emulsion',
+  thrombolysis: 'Thrombolysis',
+  reperfusion: 'Emergency PCI',
+};
+
+export type ShockOutcome =
+  | 'rosc' | 'pea' | 'asystole' | 'refibrillated' | 'failed'
+  | 'converted'       // perfusing VT terminated to sinus
+  | 'not_indicated';  // asystole, PEA or an organised rhythm: no effect
+
+export interface ShockRecord {
+  time: number;
+  energy: number;  // J
+  rhythm: CardiacRhythm;
+  outcome: ShockOutcome;
+}
+
+export interface AclsDose {
+  drug: 'epinephrine' | 'amiodarone';
+  dose: number;  // mg
+  time: number;
+}
+
+export interface AclsState {
+  rhythm: AclsRhythm | null;         // pulseless rhythm while in arrest; null while perfusing
+  arrestStart: number | null;        // simulation seconds
+  viability: number;                 // 0-1 myocardial viability
+  causes: ReversibleCause[];         // reversible causes behind this arrest
+  corrected: ReversibleCause[];      // causes treated (hypoxia only while ventilated)
+  treatments: { treatment: CauseTreatment; time: number }[];
+  cycleStart: number | null;         // start of the running 2-minute CPR cycle
+  cyclesCompleted: number;
+  compressionSeconds: number;        // time with compressions this arrest
+  handsOffSince: number | null;      // start of the current pause in compressions
+  pendingShock: number | null;       // J, delivered on the next step
+  shocks: ShockRecord[];
+  doses: AclsDose[];
+  cpp: number;                       // coronary perfusion pressure, mmHg
+  roscTime: number | null;
+}
+
+export type AclsTransition =
+  | { type: 'arrest'; rhythm: AclsRhythm; causes: ReversibleCause[] }
+  | { type: 'shock'; energy: number; rhythm: CardiacRhythm; outcome: ShockOutcome }
+  | { type: 'rosc'; duration: number }
+  | { type: 'cycle_complete'; cycle: number }
+  | { type: 'cause_corrected'; cause: ReversibleCause };
+
+export interface AclsInputs {
+  rhythm: CardiacRhythm;                // this step's rhythm from the physiology
+  cpr: CPRQuality | null;
+  ventilated: boolean;
+  pkStates: Record<string, PKState>;
+  spo2: number;
+  intravascularChange: number;          // mL from euvolemia
+}
+
+export interface CPRHemodynamics {
+  flow: number;   // 0-1 of the flow guideline compressions generate
+  sbp: number;
+  dbp: number;
+  map: number;
+  rap: number;    // right atrial pressure
+  cpp: number;
+  etco2: number;  // mmHg with ventilation
+}
+
+export const NO_ARREST: AclsState = {
+  rhythm: null,
+  arrestStart: null,
+  viability: 1,
+  causes: [],
+  corrected: [],
+  treatments: [],
+  cycleStart: null,
+  cyclesCompleted: 0,
+  compressionSeconds: 0,
+  handsOffSince: null,
+  pendingShock: null,
+  shocks: [],
+  doses: [],
+  cpp: 0,
+  roscTime: null,
+};
+
+export const CPR_CYCLE_SECONDS = 120;
+/** Mean systemic filling pressure with no flow (mmHg) */
+const NO_FLOW_PRESSURE = 8;
+/** CPP that halts myocardial injury, and the ROSC threshold above which it recovers */
+const CPP_PRESERVING = 20;
+const CPP_ROSC_THRESHOLD = 15;
+const CPP_RECOVERY_SPAN = 25;
+/** Viability time constants (s): no-flow decay, recovery under CPR, arrest-duration ceiling, after ROSC */
+const NO_FLOW_TAU = 240;
+const RECOVERY_TAU = 90;
+const DURATION_TAU = 1800;
+const POST_ROSC_TAU = 600;
+/** Viability below which the fibrillating or empty heart falls silent */
+const ASYSTOLE_VIABILITY = 0.1;
+/** Spontaneous transitions per minute */
+const PVT_DEGENERATION = 0.5;
+const ASYSTOLE_HAZARD = 0.5;
+const PEA_ROSC_HAZARD = 0.15;
+const ASYSTOLE_TO_PEA_HAZARD = 0.1;
+/** SpO2 with no gas exchange and under ventilated guideline CPR (%), and its time constant (s) */
+const UNSUPPORTED_SPO2 = 30;
+const CPR_SPO2 = 92;
+const ARREST_SPO2_TAU = 60;
+/** PaCO2 rise without gas exchange (mmHg/s), the value ventilated CPR clears toward and its time constant */
+const ARREST_PACO2_RISE = 4 / 60;
+const CPR_PACO2 = 40;
+const ARREST_PACO2_TAU = 90;
+/** Epinephrine (vasopressor) and amiodarone (antiarrhythmic) effect-site EC50s, mcg/mL */
+const EPINEPHRINE_EC50 = 0.02;
+const AMIODARONE_EC50 = 1.5;
+/** Interval between epinephrine doses (s) and the amiodarone dose schedule */
+const EPINEPHRINE_INTERVAL = 180;
+const AIRWAY_DEVICES: AirwayDevice[] = ['lma', 'ett', 'cricothyroidotomy', 'tracheostomy'];
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+function hill(ce: number, ec50: number, gamma: number): number {
+  if (ce <= 0) return 0;
+  const ratio = Math.pow(ce / ec50, gamma);
+  return ratio / (1 + ratio);
+}
+
+/** 0-1 alpha-adrenergic effect of epinephrine on board */
+export function epinephrineEffect(pkStates: Record<string, PKState>): number {
+  return hill(pkStates.epinephrine?.ce ?? 0, EPINEPHRINE_EC50, 1.5);
+}
+
+/** 0-1 antiarrhythmic effect of amiodarone on board */
+export function amiodaroneEffect(pkStates: Record<string, PKState>): number {
+  return hill(pkStates.amiodarone?.ce ?? 0, AMIODARONE_EC50, 1);
+}
+
+export function isShockable(rhythm: CardiacRhythm): boolean {
+  return rhythm === 'ventricular_fibrillation' || rhythm === 'ventricular_tachycardia' || rhythm === 'polymorphic_vt';
+}
+
+/** Biphasic energy escalation: 120 → 150 → 200 J */
+export function aedEnergy(shockNumber: number): number {
+  if (shockNumber <= 1) return 120;
+  if (shockNumber === 2) return 150;
+  return 200;
+}
+
+/** Positive-pressure breaths reach the lungs: bag-mask or an airway device */
+export function isVentilated(interventions: Set<InterventionType>, airwayDevice: AirwayDevice): boolean {
+  return interventions.has('bag_mask') || AIRWAY_DEVICES.includes(airwayDevice);
+}
+
+/** Flow (0-1) from compression depth, rate and recoil */
+function compressionFlow(cpr: CPRQuality): number {
+  const depth = clamp((cpr.depth - 2) / 3.5, 0, 1);
+  const rate = cpr.rate < 100 ? cpr.rate / 100 : cpr.rate <= 120 ? 1 : Math.max(0, 1 - (cpr.rate - 120) / 100);
+  const recoil = 0.4 + 0.6 * clamp(cpr.recoil, 0, 1);
+  return depth * rate * recoil;
+}
+
+/** Pressures and EtCO2 generated by compressions (none while hands are off) */
+export function cprHemodynamics(cpr: CPRQuality | null, epinephrine: number): CPRHemodynamics {
+  if (!cpr) {
+    return {
+      flow: 0, sbp: NO_FLOW_PRESSURE, dbp: NO_FLOW_PRESSURE, map: NO_FLOW_PRESSURE,
+      rap: NO_FLOW_PRESSURE, cpp: 0, etco2: 4,
+    };
+  }
+  const flow = compressionFlow(cpr);
+  const sbp = 20 + 70 * flow;
+  const dbp = NO_FLOW_PRESSURE + 22 * flow * (1 + 0.5 * epinephrine);
+  // Incomplete recoil keeps intrathoracic and right atrial pressure up
+  const rap = 5 + 10 * (1 - clamp(cpr.recoil, 0, 1));
+  return {
+    flow,
+    sbp,
+    dbp,
+    map: (sbp + 2 * dbp) / 3,
+    rap,
+    cpp: Math.max(0, dbp - rap),
+    etco2: 4 + 18 * flow,
+  };
+}
+
+/** Coaching prompts for compressions outside guideline targets */
+export function cprFeedback(cpr: CPRQuality): string[] {
+  const prompts: string[] = [];
+  if (cpr.rate < 100) prompts.push('Push faster: 100-120/min');
+  if (cpr.rate > 120) prompts.push('Slow down: 100-120/min');
+  if (cpr.depth < 5) prompts.push('Push harder: at least 5 cm');
+  if (cpr.depth > 6) prompts.push('Too deep: no more than 6 cm');
+  if (cpr.recoil < 0.9) prompts.push('Allow full chest recoil');
+  return prompts;
+}
+
+/** Start an arrest in `rhythm` with the causes behind it (scenario or physiology) */
+export function startArrest(
+  state: AclsState,
+  rhythm: AclsRhythm,
+  causes: ReversibleCause[],
+  time: number
+): AclsState {
+  return {
+    ...NO_ARREST,
+    rhythm,
+    arrestStart: time,
+    viability: state.viability,
+    causes: [...new Set(causes)],
+    handsOffSince: time,
+    doses: state.doses,
+  };
+}
+
+/** Queue a shock; the next step resolves it */
+export function queueShock(state: AclsState, energy: number): AclsState {
+  return { ...state, pendingShock: energy };
+}
+
+/** Record a treatment for a reversible cause */
+export function recordTreatment(state: AclsState, treatment: CauseTreatment, time: number): AclsState {
+  return { ...state, treatments: [...state.treatments, { treatment, time }] };
+}
+
+/** Record an epinephrine or amiodarone dose for the drug timing; other drugs are ignored */
+export function recordAclsDose(state: AclsState, drug: string, dose: number, time: number): AclsState {
+  if (drug !== 'epinephrine' && drug !== 'amiodarone') return state;
+  return { ...state, doses: [...state.doses, { drug, dose, time }] };
+}
+
+/** Causes the physiology makes evident when it arrests */
+function inferCauses(inputs: AclsInputs): ReversibleCause[] {
+  const causes: ReversibleCause[] = [];
+  if (inputs.spo2 < 70) causes.push('hypoxia');
+  const localAnesthetic = ['bupivacaine', 'lidocaine_epi', 'articaine_epi']
+    .reduce((sum, drug) => sum + (inputs.pkStates[drug]?.ce ?? 0), 0);
+  if (localAnesthetic > 0.02) causes.push('toxins');
+  if (inputs.intravascularChange < -1500) causes.push('hypovolemia');
+  return causes;
+}
+
+function isCorrected(state: AclsState, cause: ReversibleCause, inputs: AclsInputs): boolean {
+  if (cause === 'hypoxia') return inputs.ventilated;
+  const treatment = REVERSIBLE_CAUSES[cause].treatment;
+  if (state.treatments.some(t => t.treatment === treatment)) return true;
+  // Opioid and benzodiazepine toxicity reverse with their antagonists
+  if (cause === 'toxins') {
+    return (inputs.pkStates.naloxone?.ce ?? 0) > 0.001 || (inputs.pkStates.flumazenil?.ce ?? 0) > 0.005;
+  }
+  return false;
+}
+
+/** Product of the ROSC factors of the causes still untreated */
+export function untreatedCauseFactor(state: AclsState): number {
+  return state.causes
+    .filter(cause => !state.corrected.includes(cause))
+    .reduce((f, cause) => f * REVERSIBLE_CAUSES[cause].roscFactor, 1);
+}
+
+/** Odds that an organised rhythm perfuses */
+function roscProbability(state: AclsState, epinephrine: number): number {
+  return clamp(state.viability ** 2 * (0.6 + 0.4 * epinephrine) * untreatedCauseFactor(state), 0, 0.95);
+}
+
+/** Energy- and viability-dependent chance that a shock terminates a ventricular rhythm */
+export function terminationProbability(energy: number, viability: number, amiodarone: number): number {
+  return Math.min(0.98, (1 - Math.exp(-energy / 75)) * (0.5 + 0.5 * viability) * (1 + 0.25 * amiodarone));
+}
+
+/** Resolve a shock into an outcome; draws from `rng` only for ventricular rhythms */
+function resolveShock(
+  state: AclsState,
+  energy: number,
+  rhythm: CardiacRhythm,
+  epinephrine: number,
+  amiodarone: number,
+  rng: Rng
+): ShockOutcome {
+  if (!isShockable(rhythm)) return 'not_indicated';
+  const terminated = rng() < terminationProbability(energy, state.viability, amiodarone);
+  // Perfusing VT converts to sinus
+  if (state.rhythm === null) return terminated ? 'converted' : 'failed';
+  if (!terminated) return 'failed';
+  if (rng() < 0.4 * (1 - 0.5 * amiodarone) * (1 - 0.5 * state.viability)) return 'refibrillated';
+  if (rng() < roscProbability(state, epinephrine)) return 'rosc';
+  return state.viability < ASYSTOLE_VIABILITY ? 'asystole' : 'pea';
+}
+
+const SHOCK_RHYTHM: Partial<Record<ShockOutcome, AclsRhythm>> = {
+  pea: 'pea',
+  asystole: 'asystole',
+  refibrillated: 'ventricular_fibrillation',
+};
+
+/**
+ * Advance the arrest by `dt` seconds: arrest onset, any queued shock, CPR
+ * pressures and viability, the cycle timer, corrected causes and
+ * spontaneous rhythm transitions. Outside an arrest only a shock to a
+ * perfusing VT and the post-ROSC recovery of viability are modelled.
+ */
+export function stepAcls(
+  prev: AclsState,
+  inputs: AclsInputs,
+  time: number,
+  dt: number,
+  rng: Rng
+): { state: AclsState; transitions: AclsTransition[] } {
+  const transitions: AclsTransition[] = [];
+  const epinephrine = epinephrineEffect(inputs.pkStates);
+  const amiodarone = amiodaroneEffect(inputs.pkStates);
+  let state = prev;
+
+  if (state.rhythm === null && isPulselessRhythm(inputs.rhythm)) {
+    const causes = inferCauses(inputs);
+    state = startArrest(state, inputs.rhythm as AclsRhythm, causes, time);
+    transitions.push({ type: 'arrest', rhythm: state.rhythm!, causes });
+  }
+
+  if (state.pendingShock !== null) {
+    const energy = state.pendingShock;
+    const rhythm = state.rhythm ?? inputs.rhythm;
+    const outcome = resolveShock(state, energy, rhythm, epinephrine, amiodarone, rng);
+    transitions.push({ type: 'shock', energy, rhythm, outcome });
+    state = {
+      ...state,
+      pendingShock: null,
+      shocks: [...state.shocks, { time, energy, rhythm, outcome }],
+      rhythm: outcome === 'rosc' ? null : SHOCK_RHYTHM[outcome] ?? state.rhythm,
+      // Compressions resume with a new cycle after every shock
+      cycleStart: isShockable(rhythm) ? null : state.cycleStart,
+    };
+    if (outcome === 'rosc') {
+      transitions.push({ type: 'rosc', duration: time - (state.arrestStart ?? time) });
+      state = { ...state, roscTime: time, arrestStart: null, handsOffSince: null, cycleStart: null };
+    }
+  }
+
+  if (state.rhythm === null) {
+    const viability = state.viability + (1 - state.viability) * (1 - Math.exp(-dt / POST_ROSC_TAU));
+    return { state: { ...state, viability, cpp: 0 }, transitions };
+  }
+
+  // CPR pressures and the viability they preserve
+  const hemodynamics = cprHemodynamics(inputs.cpr, epinephrine);
+  const ceiling = Math.exp(-(time - (state.arrestStart ?? time)) / DURATION_TAU);
+  const preserved = clamp(hemodynamics.cpp / CPP_PRESERVING, 0, 1);
+  const restoring = clamp((hemodynamics.cpp - CPP_ROSC_THRESHOLD) / CPP_RECOVERY_SPAN, 0, 1);
+  const viability = clamp(
+    state.viability +
+      dt * (restoring * Math.max(0, ceiling - state.viability) / RECOVERY_TAU -
+        (1 - preserved) * state.viability / NO_FLOW_TAU),
+    0, 1
+  );
+
+  // The 2-minute cycle runs from the start of compressions to the next rhythm check
+  let { cycleStart, cyclesCompleted } = state;
+  if (inputs.cpr && cycleStart === null) cycleStart = time;
+  if (cycleStart !== null && time - cycleStart >= CPR_CYCLE_SECONDS) {
+    cyclesCompleted += 1;
+    cycleStart = null;
+    transitions.push({ type: 'cycle_complete', cycle: cyclesCompleted });
+  }
+
+  const corrected = state.causes.filter(cause => isCorrected(state, cause, inputs));
+  corrected
+    .filter(cause => !state.corrected.includes(cause))
+    .forEach(cause => transitions.push({ type: 'cause_corrected', cause }));
+
+  state = {
+    ...state,
+    viability,
+    cycleStart,
+    cyclesCompleted,
+    corrected,
+    cpp: hemodynamics.cpp,
+    compressionSeconds: state.compressionSeconds + (inputs.cpr ? dt : 0),
+    handsOffSince: inputs.cpr ? null : state.handsOffSince ?? time,
+  };
+
+  // Spontaneous transitions: one draw per step, per-minute hazards over dt
+  const chance = (perMinute: number) => 1 - Math.exp(-perMinute * dt / 60);
+  const draw = rng();
+  const silent = state.viability < ASYSTOLE_VIABILITY;
+  let rhythm: AclsRhythm | null = state.rhythm;
+  switch (state.rhythm) {
+    case 'ventricular_tachycardia':
+      if (draw < chance(PVT_DEGENERATION)) rhythm = 'ventricular_fibrillation';
+      break;
+    case 'ventricular_fibrillation':
+      if (silent && draw < chance(ASYSTOLE_HAZARD)) rhythm = 'asystole';
+      break;
+    case 'pea': {
+      const rosc = chance(PEA_ROSC_HAZARD * state.viability ** 2 * (1 + 2 * epinephrine) * untreatedCauseFactor(state));
+      if (draw < rosc) rhythm = null;
+      else if (silent && draw < rosc + chance(ASYSTOLE_HAZARD)) rhythm = 'asystole';
+      break;
+    }
+    case 'asystole':
+      if (draw < chance(ASYSTOLE_TO_PEA_HAZARD * state.viability * (1 + 2 * epinephrine))) rhythm = 'pea';
+      break;
+  }
+  if (rhythm === null) {
+    transitions.push({ type: 'rosc', duration: time - (state.arrestStart ?? time) });
+    state = { ...state, rhythm, roscTime: time, arrestStart: null, handsOffSince: null, cycleStart: null, cpp: 0 };
+  } else {
+    state = { ...state, rhythm };
+  }
+  return { state, transitions };
+}
+
+/**
+ * Monitor vitals during an arrest: the arrest rhythm over the pressures
+ * compressions generate. SpO2 and PaCO2 carry on from the previous step's
+ * and exchange only in proportion to the flow of ventilated compressions.
+ */
+export function arrestVitals(
+  vitals: Vitals,
+  prev: Vitals,
+  state: AclsState,
+  cpr: CPRQuality | null,
+  ventilated: boolean,
+  epinephrine: number,
+  dt: number
+): Vitals {
+  const rhythm = state.rhythm ?? 'asystole';
+  const hemodynamics = cprHemodynamics(cpr, epinephrine);
+  const hr = rhythm === 'ventricular_tachycardia' ? 180 : rhythm === 'pea' ? Math.round(30 + 50 * state.viability) : 0;
+  const exchange = ventilated ? clamp(hemodynamics.flow, 0, 1) : 0;
+  const spo2Target = UNSUPPORTED_SPO2 + (CPR_SPO2 - UNSUPPORTED_SPO2) * exchange;
+  const spo2 = prev.spo2 + (spo2Target - prev.spo2) * (1 - Math.exp(-dt / ARREST_SPO2_TAU));
+  const retained = (prev.paco2 ?? CPR_PACO2) + ARREST_PACO2_RISE * (1 - exchange) * dt;
+  const paco2 = retained + (CPR_PACO2 - retained) * exchange * (1 - Math.exp(-dt / ARREST_PACO2_TAU));
+  return {
+    ...vitals,
+    rhythm,
+    hr,
+    sbp: hemodynamics.sbp,
+    dbp: hemodynamics.dbp,
+    map: hemodynamics.map,
+    spo2,
+    paco2,
+    rr: ventilated ? 10 : 0,
+    etco2: ventilated ? hemodynamics.etco2 : 0,
+    qrsWidth: rhythm === 'ventricular_tachycardia' ? 160 : rhythm === 'pea' ? 120 : 0,
+    prInterval: 0,
+    pvcFraction: 0,
+  };
+}
+
+/**
+ * What to do next: compressions and their quality, the rhythm check,
+ * shock energy, epinephrine and amiodarone timing, and the reversible
+ * causes still untreated. Outside an arrest, the static guidance for the rhythm.
+ */
+export function aclsGuidance(state: AclsState, rhythm: CardiacRhythm, cpr: CPRQuality | null, time: number): string[] {
+  if (state.rhythm === null) return getAclsGuidance(rhythm);
+
+  const guidance: string[] = [];
+  const shockable = isShockable(state.rhythm);
+  const arrestStart = state.arrestStart ?? time;
+  const shocks = state.shocks.filter(s => s.time >= arrestStart && isShockable(s.rhythm)).length;
+
+  if (!cpr) {
+    guidance.push(`Start compressions: hands off ${Math.round(time - (state.handsOffSince ?? time))} s`);
+  } else {
+    guidance.push(...cprFeedback(cpr));
+  }
+  guidance.push(shockable
+    ? `Shockable rhythm: defibrillate ${aedEnergy(shocks + 1)} J`
+    : 'Non-shockable rhythm: continue CPR, do not shock');
+  if (state.cycleStart !== null) {
+    guidance.push(`Rhythm check in ${Math.max(0, Math.round(CPR_CYCLE_SECONDS - (time - state.cycleStart)))} s`);
+  }
+
+  const doses = state.doses.filter(d => d.time >= arrestStart);
+  const epinephrine = doses.filter(d => d.drug === 'epinephrine');
+  const lastEpinephrine = epinephrine[epinephrine.length - 1];
+  // Non-shockable: epinephrine as soon as possible; shockable: after the second shock
+  if (!lastEpinephrine) {
+    if (!shockable || shocks >= 2) guidance.push('Epinephrine 1 mg IV now');
+  } else if (time - lastEpinephrine.time >= EPINEPHRINE_INTERVAL) {
+    guidance.push('Epinephrine 1 mg IV due (q3-5 min)');
+  } else {
+    guidance.push(`Next epinephrine in ${Math.round(EPINEPHRINE_INTERVAL - (time - lastEpinephrine.time))} s`);
+  }
+  const amiodarone = doses.filter(d => d.drug === 'amiodarone').length;
+  if (shockable && shocks >= 3 && amiodarone === 0) guidance.push('Amiodarone 300 mg IV');
+  else if (shockable && shocks >= 5 && amiodarone === 1) guidance.push('Amiodarone 150 mg IV');
+
+  const untreated = state.causes.filter(cause => !state.corrected.includes(cause));
+  if (untreated.length > 0) {
+    untreated.forEach(cause => guidance.push(
+      `${REVERSIBLE_CAUSES[cause].name}: ${CAUSE_TREATMENTS[REVERSIBLE_CAUSES[cause].treatment]}`
+    ));
+  } else if (state.causes.length === 0) {
+    guidance.push("Identify reversible causes (H's and T's)");
+  }
+  return guidance;
+}
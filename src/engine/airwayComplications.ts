@@ -0,0 +1,282 @@
+import { Patient, PKState, InterventionType } from '../types';
+import { EndpointEffects } from './responseSurface';
+import { bodyMassIndex } from './oxygenation';
+
+/**
+ * Airway Complications
+ * Laryngospasm and bronchospasm as evolving complication states.
+ *
+ * Laryngospasm: glottic closure triggered by airway stimulation or
+ * secretions (ketamine) while the reflex is still active, i.e. the patient
+ * is unresponsive to voice but not deep enough to suppress airway reflexes.
+ * Continued stimulation tightens it; CPAP / bag-mask pressure, deepening
+ * propofol, hypoxic relaxation and succinylcholine break it. Partial spasm
+ * gives inspiratory stridor, complete spasm silence with ongoing effort.
+ *
+ * Bronchospasm: lower airway constriction from anaphylaxis (progressive
+ * until epinephrine) or airway irritation in reactive airways (asthma,
+ * COPD). It limits alveolar ventilation, adds V/Q mismatch, widens the
+ * PaCO2-EtCO2 gap, slopes the capnogram (shark fin) and raises peak
+ * airway pressure during positive-pressure ventilation. Albuterol and
+ * epinephrine bronchodilate; anaphylaxis also causes distributive shock.
+ *
+ * Rescue drugs act through onset/offset envelopes from the time given.
+ *
+ * References:
+ *   Alalami AA et al. Paediatr Anaesth 2008;18:281-288 (laryngospasm review)
+ *   Visvanathan T et al. Anaesth Intensive Care 2005;33:26-33 (management)
+ *   Dewachter P et al. Anesthesiology 2009;111:1141-1150 (perioperative anaphylaxis)
+ *   Woods BD, Sladen RN. Br J Anaesth 2009;103 Suppl 1:i57-i65 (perioperative bronchospasm)
+ */
+
+export type ComplicationKind = 'laryngospasm' | 'bronchospasm';
+export type BronchospasmCause = 'anaphylaxis' | 'asthma' | 'airway_irritation';
+export type RescueDrug = 'succinylcholine' | 'epinephrine' | 'albuterol';
+export type RescueRoute = 'iv' | 'im' | 'inhaled';
+
+export interface RescueDose {
+  drug: RescueDrug;
+  dose: number;       // mg (albuterol: mcg)
+  route: RescueRoute;
+  time: number;       // simulation seconds
+}
+
+export interface AirwayComplicationState {
+  laryngospasm: number;   // 0-1 glottic closure
+  bronchospasm: number;   // 0-1 bronchoconstriction before bronchodilators
+  bronchospasmCause: BronchospasmCause | null;
+  rescueDoses: RescueDose[];
+}
+
+/** What the rest of the physiology sees this tick, after rescue drugs */
+export interface ComplicationEffects {
+  laryngospasm: number;   // 0-1 glottic closure after succinylcholine
+  bronchospasm: number;   // 0-1 bronchoconstriction after bronchodilators
+  anaphylaxis: number;    // 0-1 distributive shock
+  paralysis: number;      // 0-1 respiratory muscle block from succinylcholine
+}
+
+export interface ComplicationInputs {
+  pkStates: Record<string, PKState>;
+  patient: Patient;
+  endpointEffects: EndpointEffects;
+  airwayStimulation: number;  // 0-1 stimulus at the airway (scope, dental work)
+  interventions: Set<InterventionType>;
+  spo2: number;
+}
+
+export const NO_AIRWAY_COMPLICATIONS: AirwayComplicationState = {
+  laryngospasm: 0,
+  bronchospasm: 0,
+  bronchospasmCause: null,
+  rescueDoses: [],
+};
+
+export const NO_COMPLICATION_EFFECTS: ComplicationEffects = {
+  laryngospasm: 0,
+  bronchospasm: 0,
+  anaphylaxis: 0,
+  paralysis: 0,
+};
+
+/** Glottic closure at which the spasm is complete (silent) */
+export const COMPLETE_LARYNGOSPASM = 0.7;
+/** Onset probability per second at full airway irritation with an active reflex */
+const LARYNGOSPASM_HAZARD = 0.003;
+const BRONCHOSPASM_HAZARD = 0.002;
+/** Below this severity the complication has resolved */
+const RESOLVED = 0.02;
+
+/** Onset ramp and offset decay by drug and route (s) */
+const RESCUE_KINETICS: Record<RescueDrug, Partial<Record<RescueRoute, { onset: number; duration: number }>>> = {
+  succinylcholine: { iv: { onset: 45, duration: 300 }, im: { onset: 180, duration: 600 } },
+  epinephrine: { iv: { onset: 30, duration: 300 }, im: { onset: 240, duration: 1200 } },
+  albuterol: { inhaled: { onset: 180, duration: 3600 } },
+};
+
+export const RESCUE_DRUGS: Record<RescueDrug, { name: string; unit: string; defaultRoute: RescueRoute }> = {
+  succinylcholine: { name: 'Succinylcholine', unit: 'mg', defaultRoute: 'iv' },
+  epinephrine: { name: 'Epinephrine', unit: 'mg', defaultRoute: 'iv' },
+  albuterol: { name: 'Albuterol', unit: 'mcg', defaultRoute: 'inhaled' },
+};
+
+export function isRescueDrug(drug: string): drug is RescueDrug {
+  return drug in RESCUE_DRUGS;
+}
+
+/** Scenario routes ('iv_bolus', 'im', 'neb'...) to a rescue route */
+export function parseRescueRoute(drug: RescueDrug, route?: string): RescueRoute {
+  if (!route) return RESCUE_DRUGS[drug].defaultRoute;
+  if (route.startsWith('im')) return 'im';
+  if (route.startsWith('iv')) return 'iv';
+  return RESCUE_DRUGS[drug].defaultRoute;
+}
+
+function sigmoidEffect(ce: number, ce50: number, gamma: number): number {
+  if (ce <= 0 || ce50 <= 0) return 0;
+  const ratio = Math.pow(ce / ce50, gamma);
+  return ratio / (1 + ratio);
+}
+
+function envelope(dose: RescueDose, time: number): number {
+  const k = RESCUE_KINETICS[dose.drug][dose.route];
+  const t = time - dose.time;
+  if (!k || t < 0) return 0;
+  return t < k.onset ? t / k.onset : Math.exp(-(t - k.onset) / k.duration);
+}
+
+/** Dose giving the full effect on the airway */
+function fullEffectDose(dose: RescueDose, weight: number): number {
+  switch (dose.drug) {
+    // 0.1 mg/kg IV relaxes the cords; IM needs ~4x
+    case 'succinylcholine': return (dose.route === 'im' ? 0.4 : 0.1) * weight;
+    case 'epinephrine': return dose.route === 'im' ? 0.3 : 0.1;
+    case 'albuterol': return 400;
+  }
+}
+
+/** Combined 0-1 effect of every dose of one rescue drug at `time` */
+export function rescueEffect(doses: RescueDose[], drug: RescueDrug, time: number, weight: number): number {
+  return 1 - doses
+    .filter(d => d.drug === drug)
+    .reduce((miss, d) => miss * (1 - Math.min(1, d.dose / fullEffectDose(d, weight)) * envelope(d, time)), 1);
+}
+
+/**
+ * Succinylcholine respiratory muscle block. Sub-paralytic doses
+ * (0.1-0.5 mg/kg) relax the cords while largely preserving breathing;
+ * 1-1.5 mg/kg paralyses.
+ */
+function succinylcholineParalysis(doses: RescueDose[], time: number, weight: number): number {
+  return 1 - doses
+    .filter(d => d.drug === 'succinylcholine')
+    .reduce((miss, d) => {
+      const perKg = d.dose / weight / (d.route === 'im' ? 4 : 1);
+      return miss * (1 - sigmoidEffect(perKg, 0.5, 3) * envelope(d, time));
+    }, 1);
+}
+
+/** Suppression of glottic reflexes by a deep hypnotic plane or analgesia */
+function reflexSuppression(pkStates: Record<string, PKState>, effects: EndpointEffects): number {
+  const propofol = sigmoidEffect(pkStates.propofol?.ce || 0, 5, 4);
+  return 1 - (1 - propofol) * (1 - effects.noxious);
+}
+
+export function complicationEffects(
+  state: AirwayComplicationState,
+  time: number,
+  patient: Patient,
+  endpointEffects: EndpointEffects
+): ComplicationEffects {
+  const { rescueDoses } = state;
+  const sux = rescueEffect(rescueDoses, 'succinylcholine', time, patient.weight);
+  const epi = rescueEffect(rescueDoses, 'epinephrine', time, patient.weight);
+  const albuterol = rescueEffect(rescueDoses, 'albuterol', time, patient.weight);
+  const anaphylactic = state.bronchospasmCause === 'anaphylaxis';
+
+  // Albuterol alone is weak against anaphylactic bronchospasm; deep anaesthesia bronchodilates a little
+  const relief = 1
+    - (1 - 0.85 * epi)
+    * (1 - (anaphylactic ? 0.3 : 0.7) * albuterol)
+    * (1 - 0.2 * endpointEffects.noxious);
+
+  return {
+    laryngospasm: state.laryngospasm * (1 - sux),
+    bronchospasm: state.bronchospasm * (1 - relief),
+    anaphylaxis: anaphylactic ? state.bronchospasm * (1 - 0.85 * epi) : 0,
+    paralysis: succinylcholineParalysis(rescueDoses, time, patient.weight),
+  };
+}
+
+/**
+ * Advance both complications by dt seconds. Onset is stochastic (hazard
+ * per second); `random` is injectable for reproducible runs.
+ */
+export function stepComplications(
+  state: AirwayComplicationState,
+  inputs: ComplicationInputs,
+  time: number,
+  dt = 1,
+  random: () => number = Math.random
+): { state: AirwayComplicationState; onsets: ComplicationKind[] } {
+  const { pkStates, patient, endpointEffects, airwayStimulation, interventions, spo2 } = inputs;
+  const onsets: ComplicationKind[] = [];
+  const suppression = reflexSuppression(pkStates, endpointEffects);
+  // The reflex is most excitable once the patient stops responding to voice but is not yet deep
+  const excitability = endpointEffects.verbal * (1 - suppression);
+  const secretions = sigmoidEffect(pkStates.ketamine?.ce || 0, 1.0, 2) * (interventions.has('suction') ? 0.3 : 1);
+  const irritant = 1 - (1 - airwayStimulation) * (1 - secretions);
+  const reactiveAirway = patient.asthma ? 1 : patient.copd ? 0.4 : 0;
+
+  const sux = rescueEffect(state.rescueDoses, 'succinylcholine', time, patient.weight);
+  const epi = rescueEffect(state.rescueDoses, 'epinephrine', time, patient.weight);
+  const effects = complicationEffects(state, time, patient, endpointEffects);
+
+  // ── Laryngospasm ──
+  let laryngospasm = state.laryngospasm;
+  if (laryngospasm === 0) {
+    const susceptibility = (patient.age < 12 ? 2 : 1) * (reactiveAirway > 0 ? 1.5 : 1);
+    if (random() < LARYNGOSPASM_HAZARD * excitability * irritant * susceptibility * dt) {
+      laryngospasm = 0.4 + 0.5 * random();
+      onsets.push('laryngospasm');
+    }
+  } else {
+    const positivePressure = interventions.has('cpap') || interventions.has('bag_mask');
+    const resolution = 1 / 600
+      + (positivePressure ? (laryngospasm < COMPLETE_LARYNGOSPASM ? 1 / 15 : 1 / 60) : 0)
+      + suppression / 30
+      + (spo2 < 70 ? 1 / 30 : 0)
+      + sux / 5;
+    const tightening = (irritant * excitability) / 40;
+    laryngospasm += (tightening * (1 - laryngospasm) - resolution * laryngospasm) * dt;
+    laryngospasm = laryngospasm < RESOLVED ? 0 : Math.min(1, laryngospasm);
+  }
+
+  // ── Bronchospasm ──
+  let bronchospasm = state.bronchospasm;
+  let cause = state.bronchospasmCause;
+  if (bronchospasm === 0) {
+    if (reactiveAirway > 0
+      && random() < BRONCHOSPASM_HAZARD * airwayStimulation * (1 - suppression) * reactiveAirway * dt) {
+      bronchospasm = 0.4 + 0.4 * random();
+      cause = patient.asthma ? 'asthma' : 'airway_irritation';
+      onsets.push('bronchospasm');
+    }
+  } else {
+    const relief = 1 - effects.bronchospasm / bronchospasm;
+    const progression = cause === 'anaphylaxis' ? ((1 - bronchospasm) * (1 - epi)) / 120 : 0;
+    const resolution = 1 / 900 + relief / 120;
+    bronchospasm += (progression - resolution * bronchospasm) * dt;
+    if (bronchospasm < RESOLVED) {
+      bronchospasm = 0;
+      cause = null;
+    }
+  }
+
+  return {
+    state: { ...state, laryngospasm, bronchospasm: Math.min(1, bronchospasm), bronchospasmCause: cause },
+    onsets,
+  };
+}
+
+/** Start (or worsen) a complication, e.g. from a scenario */
+export function triggerComplication(
+  state: AirwayComplicationState,
+  kind: ComplicationKind,
+  severity: number,
+  cause: BronchospasmCause = 'anaphylaxis'
+): AirwayComplicationState {
+  const s = Math.max(0, Math.min(1, severity));
+  return kind === 'laryngospasm'
+    ? { ...state, laryngospasm: Math.max(state.laryngospasm, s) }
+    : { ...state, bronchospasm: Math.max(state.bronchospasm, s), bronchospasmCause: cause };
+}
+
+/**
+ * Peak airway pressure (cmH2O) during positive-pressure ventilation:
+ * bronchospasm raises resistance, glottic closure makes the bag stiff.
+ */
+export function peakAirwayPressure(effects: ComplicationEffects, patient: Patient): number {
+  const obesity = bodyMassIndex(patient) > 35 ? 6 : 0;
+  return 14 + obesity + 26 * effects.bronchospasm + 30 * effects.laryngospasm;
+}
@@ -3,9 +3,32 @@
  *
  * Evaluates the patient's physiological state and returns the appropriate
  * CardiacRhythm type based on hypoxia, drug effects, and hemodynamics.
+ *
+ * The QT subsystem builds the patient's rate-corrected QT from a baseline,
+ * QT-prolonging drugs (Emax on effect-site concentration) and electrolytes,
+ * converts it to a measured QT at the current heart rate (Fridericia), and
+ * turns a long QTc into a per-minute hazard of torsades de pointes.
+ *
+ * Myocardial ischemia burden (myocardialIschemia.ts) adds premature
+ * ventricular complexes to supraventricular rhythms and, when severe, a
+ * per-minute hazard of monomorphic VT that may self-terminate or
+ * degenerate to VF. In a structurally normal heart that hazard, and
+ * hypoxic arrest, start only once severe hypoxemia (SpO2 ≤ 85%) has lasted
+ * 2 minutes; a coronary or failing heart gets the hazard from ischemia
+ * alone. Hypoxemia by itself changes the sinus rate through the
+ * circulation, not the rhythm.
+ *
+ * References:
+ *   Fridericia LS. Acta Med Scand 1920;53:469-486 (QT ∝ ∛RR)
+ *   Drew BJ et al. Circulation 2010;121:1047-1060 (QTc > 500 ms, torsades risk factors)
+ *   Charbit B et al. Anesthesiology 2005;102:1094-1100 (droperidol / ondansetron QT effect)
+ *   Landesberg G et al. Circulation 1993;88:1584-1593 (perioperative ischemia and arrhythmia)
+ *   Ehrenfeld JM et al. Anesth Analg 2010;110:1102-1108 (severe hypoxemia: SpO2 ≤ 85% for ≥ 2 min)
  */
 
 import { CardiacRhythm, PKState, Patient, Vitals } from '../types';
+import { cardiacPhenotype } from './circulation';
+import { Rng } from './prng';
 
 interface RhythmResult {
   rhythm: CardiacRhythm;
@@ -14,9 +37,140 @@ interface RhythmResult {
   qtInterval: number; // ms
 }
 
+// -----------------------------------------------------------------------
+// QT INTERVAL AND TORSADES RISK
+// -----------------------------------------------------------------------
+
+/** Drug-free QTc by sex (ms) when the patient has no recorded baseline */
+const DEFAULT_QTC_BASELINE = { M: 410, F: 420 };
+/** Normal electrolytes (mmol/L) assumed when the patient omits them */
+export const NORMAL_ELECTROLYTES = { potassium: 4.0, magnesium: 0.85, ionizedCalcium: 1.2 };
+
+/** QT prolongation at effect-site concentration Ce: Emax·Ce / (EC50 + Ce), Ce in mcg/mL */
+export const QT_DRUG_EFFECTS: Record<string, { emax: number; ec50: number }> = {
+  ondansetron: { emax: 30, ec50: 0.15 },  // 4 mg ≈ +8 ms, 32 mg ≈ +22 ms
+  droperidol: { emax: 80, ec50: 0.1 },    // 1.25 mg ≈ +15 ms, 5 mg ≈ +40 ms
+  haloperidol: { emax: 60, ec50: 0.03 },  // 5 mg IV ≈ +25 ms
+  methadone: { emax: 50, ec50: 0.3 },
+};
+
+/** QTc (ms) below which torsades does not occur spontaneously */
+const TORSADES_QTC_THRESHOLD = 470;
+/** Half-maximal torsades hazard QTc (ms) and its slope */
+const TORSADES_QTC50 = 600;
+const TORSADES_SLOPE = 20;
+/** Torsades onsets per minute at very long QTc */
+const TORSADES_MAX_HAZARD = 0.2;
+/** Per-second chance that a torsades run self-terminates, or degenerates to VF */
+const TORSADES_TERMINATION = 0.05;
+const TORSADES_DEGENERATION = 0.01;
+
+/** Ischemia burden above which ectopy appears, and the PVC share of beats at full burden */
+const ECTOPY_THRESHOLD = 0.15;
+const MAX_PVC_FRACTION = 0.3;
+/** Ischemia burden above which VT can start, and VT onsets per minute at full burden */
+const ISCHEMIC_VT_THRESHOLD = 0.3;
+const ISCHEMIC_VT_MAX_HAZARD = 0.3;
+/** Per-second chance that ischemic VT self-terminates, or degenerates to VF */
+const ISCHEMIC_VT_TERMINATION = 0.03;
+const ISCHEMIC_VT_DEGENERATION = 0.005;
+/** Severe hypoxemia: SpO2 (%) at or below which, for at least this long (s), a normal heart becomes arrhythmic */
+const SEVERE_HYPOXEMIA_SPO2 = 85;
+const SEVERE_HYPOXEMIA_DURATION = 120;
+
+/** Rhythms whose beats are conducted from above the ventricles (PVCs interrupt them) */
+const SUPRAVENTRICULAR_RHYTHMS: CardiacRhythm[] = [
+  'normal_sinus', 'sinus_bradycardia', 'sinus_tachycardia', 'svt', 'atrial_fibrillation', 'atrial_flutter',
+  'junctional', 'first_degree_av_block', 'second_degree_type1', 'second_degree_type2',
+];
+
+export interface QTResult {
+  qt: number;                       // ms, measured at the current heart rate
+  qtcBazett: number;                // ms, QT / √RR
+  qtcFridericia: number;            // ms, QT / ∛RR
+  drugProlongation: number;         // ms
+  electrolyteProlongation: number;  // ms
+  torsadesHazard: number;           // onsets per minute
+}
+
+/**
+ * Compute QT, both corrections and the torsades hazard.
+ *
+ * The repolarisation model is rate-corrected by Fridericia, so the
+ * Fridericia QTc stays steady across heart rates while Bazett
+ * over-corrects in tachycardia and under-corrects in bradycardia.
+ * Bradycardia (< 50 bpm), hypokalemia and hypomagnesemia each multiply
+ * the hazard (pause-dependent early afterdepolarisations).
+ */
+export function computeQT(pkStates: Record<string, PKState>, patient: Patient, hr: number): QTResult {
+  const baseline = patient.qtcBaseline ?? DEFAULT_QTC_BASELINE[patient.sex];
+
+  let drugProlongation = 0;
+  for (const [drug, { emax, ec50 }] of Object.entries(QT_DRUG_EFFECTS)) {
+    const ce = pkStates[drug]?.ce ?? 0;
+    if (ce > 0) drugProlongation += emax * ce / (ec50 + ce);
+  }
+  drugProlongation *= patient.drugSensitivity ?? 1.0;
+
+  const potassium = patient.potassium ?? NORMAL_ELECTROLYTES.potassium;
+  const magnesium = patient.magnesium ?? NORMAL_ELECTROLYTES.magnesium;
+  const calcium = patient.ionizedCalcium ?? NORMAL_ELECTROLYTES.ionizedCalcium;
+  const electrolyteProlongation =
+    30 * Math.max(0, 4.0 - potassium) +    // ~30 ms per mmol/L of hypokalemia
+    100 * Math.max(0, 0.7 - magnesium) +
+    200 * Math.max(0, 1.1 - calcium);      // hypocalcemia lengthens the ST segment
+
+  const qtc = baseline + drugProlongation + electrolyteProlongation;
+  const qt = qtc * Math.cbrt(60 / Math.max(hr, 20));
+
+  const riskMultiplier =
+    (hr < 50 ? 2 : 1) *
+    (potassium < 3.5 ? 1.5 : 1) *
+    (magnesium < 0.7 ? 1.5 : 1);
+  const torsadesHazard = qtc < TORSADES_QTC_THRESHOLD ? 0
+    : TORSADES_MAX_HAZARD / (1 + Math.exp(-(qtc - TORSADES_QTC50) / TORSADES_SLOPE)) * riskMultiplier;
+
+  const { bazett, fridericia } = qtCorrections(qt, hr);
+  return {
+    qt,
+    qtcBazett: bazett,
+    qtcFridericia: fridericia,
+    drugProlongation,
+    electrolyteProlongation,
+    torsadesHazard,
+  };
+}
+
+/** Bazett and Fridericia corrections of a measured QT (ms) at heart rate `hr` */
+export function qtCorrections(qt: number, hr: number): { bazett: number; fridericia: number } {
+  const rr = 60 / Math.max(hr, 20);
+  return { bazett: qt / Math.sqrt(rr), fridericia: qt / Math.cbrt(rr) };
+}
+
+/** Share of beats (0-1) that are ischemic PVCs in a supraventricular rhythm */
+export function ischemicEctopy(rhythm: CardiacRhythm, ischemia: number): number {
+  if (ischemia <= ECTOPY_THRESHOLD || !SUPRAVENTRICULAR_RHYTHMS.includes(rhythm)) return 0;
+  return MAX_PVC_FRACTION * (ischemia - ECTOPY_THRESHOLD) / (1 - ECTOPY_THRESHOLD);
+}
+
+/** A coronary or failing heart: ischemia alone can trigger VT */
+function hasArrhythmicSubstrate(patient: Patient): boolean {
+  return !!patient.coronaryDisease || cardiacPhenotype(patient) !== 'normal';
+}
+
+/** Ischemic VT onsets per minute at this burden */
+export function ischemicVTHazard(ischemia: number): number {
+  if (ischemia <= ISCHEMIC_VT_THRESHOLD) return 0;
+  return ISCHEMIC_VT_MAX_HAZARD * ((ischemia - ISCHEMIC_VT_THRESHOLD) / (1 - ISCHEMIC_VT_THRESHOLD)) ** 2;
+}
+
 /**
  * Determine the cardiac rhythm from the current physiological state.
- * Arrest tracking state is passed in/out to avoid module-level mutable state.
+ * Arrest and hypoxemia tracking state is passed in/out to avoid
+ * module-level mutable state. Torsades onset, self-termination and
+ * degeneration are drawn from `random` once per call (one-second ticks);
+ * ischemic VT likewise, only while the burden is above its threshold and
+ * the heart is arrhythmic.
  *
  * @param vitals              Current computed vitals (before rhythm is set)
  * @param pkStates            Drug PK/effect-site concentrations
@@ -24,6 +178,9 @@ interface RhythmResult {
  * @param prevRhythm          Previous rhythm (for progression logic)
  * @param elapsedSeconds      Simulation elapsed time
  * @param arrestStartSeconds  Simulation time when arrest conditions first appeared (or null)
+ * @param random              Generator for torsades and ischemic VT onset and termination
+ * @param ischemia            Myocardial ischemia burden, 0..1
+ * @param hypoxemiaStartSeconds Simulation time when SpO2 first fell to the severe threshold (or null)
  */
 export function determineRhythm(
   vitals: Vitals,
@@ -31,9 +188,13 @@ export function determineRhythm(
   patient: Patient,
   prevRhythm: CardiacRhythm = 'normal_sinus',
   elapsedSeconds: number = 0,
-  arrestStartSeconds: number | null = null
-): RhythmResult & { arrestStartSeconds: number | null } {
+  arrestStartSeconds: number | null = null,
+  random: Rng = Math.random,
+  ischemia: number = 0,
+  hypoxemiaStartSeconds: number | null = null
+): RhythmResult & { arrestStartSeconds: number | null; hypoxemiaStartSeconds: number | null } {
   const { hr, spo2, map } = vitals;
+  const qt = computeQT(pkStates, patient, hr);
 
   const propofolCe = pkStates.propofol?.ce ?? 0;
   const fentanylCe  = pkStates.fentanyl?.ce  ?? 0;
@@ -47,12 +208,18 @@ export function determineRhythm(
 
   const sensitivity = patient.drugSensitivity ?? 1.0;
 
+  // Severe hypoxemia must be sustained before it makes a normal heart arrhythmic
+  const newHypoxemiaStart = spo2 > SEVERE_HYPOXEMIA_SPO2 || spo2 <= 0 ? null
+    : hypoxemiaStartSeconds ?? elapsedSeconds;
+  const sustainedHypoxemia =
+    newHypoxemiaStart !== null && elapsedSeconds - newHypoxemiaStart >= SEVERE_HYPOXEMIA_DURATION;
+
   // -----------------------------------------------------------------------
   // 1.  CARDIAC ARREST DETECTION & PROGRESSION
   // -----------------------------------------------------------------------
   const arrestCondition =
-    (spo2 < 40 && spo2 > 0) || // severe sustained hypoxia
-    (map < 30);                 // hemodynamic collapse
+    (spo2 < 40 && sustainedHypoxemia) || // severe sustained hypoxia
+    (map < 30);                           // hemodynamic collapse
 
   let newArrestStart = arrestStartSeconds;
   if (arrestCondition) {
@@ -63,63 +230,77 @@ export function determineRhythm(
 
   const arrestProgressSeconds =
     newArrestStart !== null ? elapsedSeconds - newArrestStart : 0;
+  const tracking = { arrestStartSeconds: newArrestStart, hypoxemiaStartSeconds: newHypoxemiaStart };
 
   // Full-arrest cascade: VTach → VFib → Asystole
   if (arrestProgressSeconds > 120) {
-    return { ...buildResult('asystole', 0, 0, 0), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('asystole', 0, 0, 0), ...tracking };
   }
   if (arrestProgressSeconds > 60) {
-    return { ...buildResult('ventricular_fibrillation', 0, 0, 0), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('ventricular_fibrillation', 0, 0, 0), ...tracking };
   }
   if (arrestProgressSeconds > 20) {
     // PEA if organized-looking rhythm persists but no perfusion
     const peaQRS = prevRhythm === 'ventricular_tachycardia' ? 160 : 100;
     if (map < 30 && spo2 > 0) {
-      return { ...buildResult('pea', peaQRS, 160, 400), arrestStartSeconds: newArrestStart };
+      return { ...buildResult('pea', peaQRS, 160, 400), ...tracking };
     }
-    return { ...buildResult('ventricular_tachycardia', 160, 0, 360), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('ventricular_tachycardia', 160, 0, 360), ...tracking };
   }
 
   // Asystole / flatline
   if (spo2 <= 0 && hr < 10) {
-    return { ...buildResult('asystole', 0, 0, 0), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('asystole', 0, 0, 0), ...tracking };
   }
 
   // -----------------------------------------------------------------------
   // 2.  LOCAL ANESTHETIC SYSTEMIC TOXICITY (LAST) SEQUENCE
   // -----------------------------------------------------------------------
   if (localAnesthCe > 0.02 * sensitivity) {
-    return { ...buildResult('ventricular_fibrillation', 0, 0, 0), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('ventricular_fibrillation', 0, 0, 0), ...tracking };
   }
   if (localAnesthCe > 0.01 * sensitivity) {
-    return { ...buildResult('ventricular_tachycardia', 160, 0, 360), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('ventricular_tachycardia', 160, 0, 360), ...tracking };
   }
   if (localAnesthCe > 0.005 * sensitivity) {
-    return { ...buildResult('wide_complex_unknown', 150, 220, 440), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('wide_complex_unknown', 150, 220, 440), ...tracking };
   }
   if (localAnesthCe > 0.002 * sensitivity) {
-    return { ...buildResult('first_degree_av_block', 100, 240, 420), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('first_degree_av_block', 100, 240, 420), ...tracking };
   }
 
   // -----------------------------------------------------------------------
-  // 3.  SEVERE HYPOXIA-DRIVEN ARRHYTHMIAS
+  // 3.  LONG QT → TORSADES DE POINTES
   // -----------------------------------------------------------------------
-  if (spo2 < 50 && spo2 > 0) {
-    return { ...buildResult('ventricular_fibrillation', 0, 0, 0), arrestStartSeconds: newArrestStart };
-  }
-  if (spo2 < 60 && spo2 > 0) {
-    return { ...buildResult('ventricular_tachycardia', 160, 0, 360), arrestStartSeconds: newArrestStart };
-  }
-  if (spo2 < 70 && spo2 > 0) {
-    // Transition via polymorphic VT if previous rhythm was already VT
-    const rhythm = prevRhythm === 'ventricular_tachycardia' ? 'polymorphic_vt' : 'ventricular_tachycardia';
-    return { ...buildResult(rhythm, 160, 0, 360), arrestStartSeconds: newArrestStart };
-  }
-  if (spo2 < 80 && spo2 > 0) {
-    return { ...buildResult('svt', 100, 0, 340), arrestStartSeconds: newArrestStart };
+  // A running episode self-terminates or degenerates to VF; otherwise a
+  // new one starts with the per-minute hazard (Poisson over one second).
+  if (prevRhythm === 'polymorphic_vt') {
+    const draw = random();
+    if (draw < TORSADES_DEGENERATION) {
+      return { ...buildResult('ventricular_fibrillation', 0, 0, 0), ...tracking };
+    }
+    if (draw >= TORSADES_DEGENERATION + TORSADES_TERMINATION) {
+      return { ...buildResult('polymorphic_vt', 160, 0, 360), ...tracking };
+    }
+  } else if (random() < 1 - Math.exp(-qt.torsadesHazard / 60)) {
+    return { ...buildResult('polymorphic_vt', 160, 0, 360), ...tracking };
   }
-  if (spo2 < 85 && spo2 > 0) {
-    return { ...buildResult('atrial_fibrillation', 100, 0, 380), arrestStartSeconds: newArrestStart };
+
+  // -----------------------------------------------------------------------
+  // 3b. MYOCARDIAL ISCHEMIA → MONOMORPHIC VT
+  // -----------------------------------------------------------------------
+  if (ischemia > ISCHEMIC_VT_THRESHOLD && (sustainedHypoxemia || hasArrhythmicSubstrate(patient))) {
+    if (prevRhythm === 'ventricular_tachycardia') {
+      const draw = random();
+      if (draw < ISCHEMIC_VT_DEGENERATION) {
+        return { ...buildResult('ventricular_fibrillation', 0, 0, 0), ...tracking };
+      }
+      if (draw >= ISCHEMIC_VT_DEGENERATION + ISCHEMIC_VT_TERMINATION) {
+        return { ...buildResult('ventricular_tachycardia', 160, 0, 360), ...tracking };
+      }
+    } else if (random() < 1 - Math.exp(-ischemicVTHazard(ischemia) / 60)) {
+      return { ...buildResult('ventricular_tachycardia', 160, 0, 360), ...tracking };
+    }
   }
 
   // -----------------------------------------------------------------------
@@ -127,30 +308,30 @@ export function determineRhythm(
   // -----------------------------------------------------------------------
   // Propofol high Ce: sinus bradycardia → 1st-degree AV block → junctional
   if (propofolCe > 8 * sensitivity) {
-    return { ...buildResult('junctional', 100, 0, 480), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('junctional', 100, 0, 480), ...tracking };
   }
   if (propofolCe > 6 * sensitivity) {
-    return { ...buildResult('first_degree_av_block', 100, 260, 460), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('first_degree_av_block', 100, 260, 460), ...tracking };
   }
 
   // Fentanyl high Ce: sinus bradycardia via enhanced vagal tone
   if (fentanylCe > 6 * sensitivity) {
-    return { ...buildResult('sinus_bradycardia', 100, 160, 480), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('sinus_bradycardia', 100, 160, 480), ...tracking };
   }
 
   // Complete heart block when HR is critically low
   if (hr < 30) {
-    return { ...buildResult('third_degree_av_block', 120, 0, 600), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('third_degree_av_block', 120, 0, 600), ...tracking };
   }
 
   // Wenckebach: moderate bradycardia with propofol
   if (hr < 40 && propofolCe > 4 * sensitivity) {
-    return { ...buildResult('second_degree_type1', 100, 200, 480), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('second_degree_type1', 100, 200, 480), ...tracking };
   }
 
   // Second-degree Type II: fentanyl-driven dropped beats
   if (hr < 40 && fentanylCe > 3 * sensitivity) {
-    return { ...buildResult('second_degree_type2', 100, 180, 480), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('second_degree_type2', 100, 180, 480), ...tracking };
   }
 
   // -----------------------------------------------------------------------
@@ -158,18 +339,19 @@ export function determineRhythm(
   // -----------------------------------------------------------------------
   // Ketamine-driven SVT at very high doses
   if (ketamineCe > 0.003 * sensitivity && hr > 140) {
-    return { ...buildResult('svt', 100, 0, 340), arrestStartSeconds: newArrestStart };
+    return { ...buildResult('svt', 100, 0, 340), ...tracking };
   }
 
   // -----------------------------------------------------------------------
   // 6.  SINUS RHYTHM VARIANTS (rate-based)
   // -----------------------------------------------------------------------
-  if (hr > 150) return { ...buildResult('sinus_tachycardia', 100, 140, 320), arrestStartSeconds: newArrestStart };
-  if (hr > 100) return { ...buildResult('sinus_tachycardia', 100, 150, 340), arrestStartSeconds: newArrestStart };
-  if (hr < 60)  return { ...buildResult('sinus_bradycardia', 100, 160, 440), arrestStartSeconds: newArrestStart };
+  const sinusQT = Math.round(qt.qt);
+  if (hr > 150) return { ...buildResult('sinus_tachycardia', 100, 140, sinusQT), ...tracking };
+  if (hr > 100) return { ...buildResult('sinus_tachycardia', 100, 150, sinusQT), ...tracking };
+  if (hr < 60)  return { ...buildResult('sinus_bradycardia', 100, 160, sinusQT), ...tracking };
 
   // Default: Normal Sinus Rhythm
-  return { ...buildResult('normal_sinus', 100, 160, 400), arrestStartSeconds: newArrestStart };
+  return { ...buildResult('normal_sinus', 100, 160, sinusQT), ...tracking };
 }
 
 function buildResult(
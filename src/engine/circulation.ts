@@ -0,0 +1,355 @@
+import { Patient, PKState } from '../types';
+
+/**
+ * Circulation
+ * A lumped Guyton / Suga-Sagawa model: venous return and the left ventricle
+ * are solved together for the right atrial pressure at which cardiac output
+ * equals venous return, and arterial pressure follows from flow and
+ * resistance.
+ *
+ *   MSFP = stressed volume / venous compliance
+ *   VR   = (MSFP − RAP) / RVR
+ *   EDV  = EDPVR⁻¹(RAP + transpulmonary gradient)
+ *   SV   = (EDV − V0) / (1 + Ea/Ees),   Ea = SVR · HR
+ *   CO   = SV · HR  = VR
+ *   MAP  = CO · SVR + RAP,   pulse pressure = SV / arterial compliance
+ *
+ * Drugs, fluids, anaphylaxis and myocardial ischemia act on the
+ * components (HR, SVR, venous tone, Ees, volume) rather than on the
+ * pressures: propofol dilates arterioles and veins and depresses
+ * contractility, ischemia depresses it further, ketamine is
+ * sympathomimetic, dexmedetomidine and opioids slow the heart. Emergency
+ * drugs act through their own effect-site concentrations: epinephrine is
+ * beta then alpha, ephedrine mixed, phenylephrine pure alpha, atropine and
+ * glycopyrrolate block vagal slowing. A single baroreflex pass then
+ * corrects HR, SVR and venous tone toward the patient's resting MAP;
+ * propofol, dexmedetomidine, age and heart failure blunt it, and
+ * vagolytics abolish reflex bradycardia. A sustained arrhythmia or a
+ * captured pacer (electricalTherapy.ts) sets the ventricular rate beyond
+ * the reflex's reach, and a fast or dissociated rhythm fills the ventricle
+ * less.
+ *
+ * The vitals, the PV loop and the echo view all read the same operating
+ * point.
+ *
+ * References:
+ *   Guyton AC. Physiol Rev 1955;35:123-129 (venous return)
+ *   Suga H, Sagawa K. Circ Res 1974;35:117-126 (end-systolic elastance)
+ *   Sunagawa K et al. Am J Physiol 1983;245:H773-H780 (ventricular-arterial coupling)
+ *   de Wit F et al. Br J Anaesth 2016;116:784-789 (propofol lowers MSFP)
+ */
+
+export type CardiacPhenotype = 'normal' | 'hcm' | 'dcm' | 'chf';
+
+export interface CirculationState {
+  hr: number;          // bpm
+  edv: number;         // LV end-diastolic volume, mL
+  esv: number;         // LV end-systolic volume, mL
+  sv: number;          // mL
+  ef: number;          // %
+  co: number;          // L/min
+  svr: number;         // dyn·s/cm⁵
+  map: number;         // mmHg
+  sbp: number;         // mmHg
+  dbp: number;         // mmHg
+  rap: number;         // right atrial pressure, mmHg
+  edp: number;         // LV end-diastolic pressure, mmHg
+  ees: number;         // end-systolic elastance, mmHg/mL
+  v0: number;          // ESPVR volume intercept, mL
+  msfp: number;        // mean systemic filling pressure, mmHg
+  bloodVolume: number; // mL
+}
+
+export interface CirculationContext {
+  /** Resting heart rate of a healthy adult; age and cardiac disease adjust it */
+  baselineHR: number;
+  /** Intravascular volume gained (+) or lost (−) from euvolemia (volumeKinetics.ts), mL */
+  volumeChange: number;
+  /** Anaphylactic vasodilation and capillary leak, 0..1 */
+  anaphylaxis: number;
+  spo2: number;
+  /** Myocardial ischemia burden (myocardialIschemia.ts), 0..1 */
+  ischemia: number;
+  /** Ventricular rate fixed by an arrhythmia or pacing (electricalTherapy.ts), bpm; null when sinus-driven */
+  ventricularRate: number | null;
+  /** Share of normal LV filling reached at that rate and atrial timing, 0..1 */
+  filling: number;
+}
+
+export const DEFAULT_CIRCULATION_CONTEXT: CirculationContext = {
+  baselineHR: 75,
+  volumeChange: 0,
+  anaphylaxis: 0,
+  spo2: 98,
+  ischemia: 0,
+  ventricularRate: null,
+  filling: 1,
+};
+
+interface VentricleParams {
+  ees: number;      // mmHg/mL
+  edpA: number;     // EDPVR scale, mmHg
+  edpBeta: number;  // EDPVR stiffness, 1/mL
+  edpV0: number;    // EDPVR unstressed volume, mL
+  hrOffset: number; // resting HR adjustment, bpm
+  retention: number; // stressed volume multiplier (salt and water retention)
+  baroGain: number;
+}
+
+const VENTRICLE: Record<CardiacPhenotype, VentricleParams> = {
+  normal: { ees: 2.5, edpA: 0.3, edpBeta: 0.03, edpV0: 10, hrOffset: 0, retention: 1, baroGain: 1 },
+  // Small stiff cavity, hyperdynamic ejection
+  hcm: { ees: 3.5, edpA: 0.4, edpBeta: 0.035, edpV0: 10, hrOffset: 5, retention: 1, baroGain: 0.8 },
+  // Dilated cavity, poor ejection, compensatory tachycardia
+  dcm: { ees: 0.7, edpA: 0.3, edpBeta: 0.03, edpV0: 60, hrOffset: 15, retention: 1.2, baroGain: 0.6 },
+  // NYHA III: congested, reduced output, blunted baroreflex
+  chf: { ees: 0.9, edpA: 0.4, edpBeta: 0.028, edpV0: 50, hrOffset: 12, retention: 1.3, baroGain: 0.5 },
+};
+
+/** ESPVR volume intercept, mL */
+const V0 = 5;
+/** LVEDP − RAP across the pulmonary circulation, mmHg */
+const TRANSPULMONARY_GRADIENT = 5;
+/** Resting systemic vascular resistance, Wood units (mmHg·min/L) */
+const BASE_SVR = 15;
+/** Resistance to venous return, Wood units */
+const RVR = 0.9;
+/** Resting mean systemic filling pressure, mmHg */
+const BASE_MSFP = 8.3;
+/** Fraction of blood volume that is stressed at resting venous tone */
+const STRESSED_FRACTION = 0.25;
+/** Arterial compliance, mL/mmHg */
+const ARTERIAL_COMPLIANCE = 1.7;
+/** Wood units → dyn·s/cm⁵ */
+const WOOD_TO_DYN = 80;
+
+function sigmoidEffect(ce: number, ce50: number, gamma: number): number {
+  if (ce <= 0 || ce50 <= 0) return 0;
+  const ratio = Math.pow(ce / ce50, gamma);
+  return ratio / (1 + ratio);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/** Identify the cardiomyopathy / heart failure archetypes from their unique field combinations. */
+export function cardiacPhenotype(patient: Patient): CardiacPhenotype {
+  if (patient.hepaticImpairment === true && patient.drugSensitivity === 1.7 && patient.asa === 4 &&
+    patient.renalImpairment === false && patient.copd === false) return 'chf';
+  if ((patient.drugSensitivity === 1.6 || patient.drugSensitivity === 1.8) && patient.asa === 3 && !patient.osa) {
+    return 'hcm';
+  }
+  if ((patient.drugSensitivity === 1.55 || patient.drugSensitivity === 1.9) && patient.asa >= 3 &&
+    !patient.osa && !patient.hepaticImpairment) return 'dcm';
+  return 'normal';
+}
+
+/** Estimated blood volume: 80 mL/kg in children, 70 in men, 65 in women */
+export function estimatedBloodVolume(patient: Patient): number {
+  const perKg = patient.age < 16 ? 80 : patient.sex === 'F' ? 65 : 70;
+  return perKg * patient.weight;
+}
+
+interface Loading {
+  hr: number;
+  svr: number;        // Wood units
+  ees: number;
+  venousTone: number; // multiplier on stressed volume
+  filling: number;    // share of the EDPVR filling reached
+}
+
+interface Vasculature {
+  ventricle: VentricleParams;
+  bloodVolume: number;
+  venousCompliance: number; // mL/mmHg
+  arterialCompliance: number;
+  volumeChange: number;
+  capillaryLeak: number;    // fraction of stressed volume lost, 0..1
+}
+
+/** LV filling from right atrial pressure along the EDPVR */
+function endDiastolicVolume(rap: number, v: VentricleParams): number {
+  const edp = rap + TRANSPULMONARY_GRADIENT;
+  if (edp <= 0) return v.edpV0;
+  return v.edpV0 + Math.log(edp / v.edpA + 1) / v.edpBeta;
+}
+
+function strokeVolume(edv: number, load: Loading): number {
+  const ea = load.svr * load.hr / 1000; // mmHg/mL
+  return Math.max(0, (edv - V0) / (1 + ea / load.ees));
+}
+
+/** Solve CO = VR for RAP by bisection and derive the operating point */
+function solve(load: Loading, vasc: Vasculature): CirculationState {
+  const stressed = vasc.bloodVolume * STRESSED_FRACTION * vasc.ventricle.retention * load.venousTone *
+    (1 - vasc.capillaryLeak) + vasc.volumeChange;
+  const msfp = Math.max(0.5, stressed / vasc.venousCompliance);
+  const filled = (rap: number) => V0 + (endDiastolicVolume(rap, vasc.ventricle) - V0) * load.filling;
+  const cardiacOutput = (rap: number) => strokeVolume(filled(rap), load) * load.hr / 1000;
+
+  let lo = -TRANSPULMONARY_GRADIENT;
+  let hi = msfp;
+  for (let i = 0; i < 40; i++) {
+    const rap = (lo + hi) / 2;
+    if (cardiacOutput(rap) > (msfp - rap) / RVR) hi = rap;
+    else lo = rap;
+  }
+  const rap = (lo + hi) / 2;
+  const edv = filled(rap);
+  const sv = strokeVolume(edv, load);
+  const co = sv * load.hr / 1000;
+  const map = co * load.svr + rap;
+  const pulsePressure = sv / vasc.arterialCompliance;
+
+  return {
+    hr: load.hr,
+    edv,
+    esv: edv - sv,
+    sv,
+    ef: edv > 0 ? (sv / edv) * 100 : 0,
+    co,
+    svr: load.svr * WOOD_TO_DYN,
+    map,
+    sbp: map + (2 * pulsePressure) / 3,
+    dbp: map - pulsePressure / 3,
+    rap,
+    edp: rap + TRANSPULMONARY_GRADIENT,
+    ees: load.ees,
+    v0: V0,
+    msfp,
+    bloodVolume: vasc.bloodVolume + vasc.volumeChange,
+  };
+}
+
+function vasculature(patient: Patient, context: CirculationContext): Vasculature {
+  const bloodVolume = estimatedBloodVolume(patient);
+  return {
+    ventricle: VENTRICLE[cardiacPhenotype(patient)],
+    bloodVolume,
+    venousCompliance: (bloodVolume * STRESSED_FRACTION) / BASE_MSFP,
+    // Arterial stiffening widens the pulse pressure with age
+    arterialCompliance: ARTERIAL_COMPLIANCE * (patient.age > 65 ? 0.6 : patient.age > 50 ? 0.8 : 1),
+    volumeChange: context.volumeChange,
+    capillaryLeak: 0.4 * context.anaphylaxis,
+  };
+}
+
+/** Resting loading conditions for the patient, before drugs */
+function restingLoading(patient: Patient, baselineHR: number, ventricle: VentricleParams): Loading {
+  let hr = baselineHR + ventricle.hrOffset;
+  let ees = ventricle.ees;
+  let svr = BASE_SVR;
+  if (patient.age > 65) { hr -= 5; ees -= 0.3; svr *= 1.1; }
+  else if (patient.age > 50) { ees -= 0.15; }
+  if (patient.asa >= 3) ees -= 0.2;
+  // Cirrhotic vasodilation
+  if (patient.hepaticImpairment) svr *= 0.9;
+  return { hr, svr, ees: Math.max(0.5, ees), venousTone: 1, filling: 1 };
+}
+
+/**
+ * Compute the circulatory operating point under the current drug
+ * concentrations, volume state and complications.
+ */
+export function computeCirculation(
+  pkStates: Record<string, PKState>,
+  patient: Patient,
+  context: CirculationContext = DEFAULT_CIRCULATION_CONTEXT
+): CirculationState {
+  const vasc = vasculature(patient, context);
+  const resting = restingLoading(patient, context.baselineHR, vasc.ventricle);
+  // Baroreflex setpoint: the patient's undrugged resting MAP
+  const setpoint = solve(resting, { ...vasc, volumeChange: 0, capillaryLeak: 0 }).map;
+
+  const sensitivity = patient.drugSensitivity ?? 1.0;
+  const effect = (ce: number | undefined, ce50: number, gamma: number) =>
+    Math.min(1, sigmoidEffect(ce ?? 0, ce50, gamma) * sensitivity);
+
+  const propofol = effect(pkStates.propofol?.ce, 3.4, 2.0);
+  // Baroreflex depression sets in at sedative concentrations
+  const propofolReflex = effect(pkStates.propofol?.ce, 2.0, 2.0);
+  const opioid = 1 - (1 - effect(pkStates.fentanyl?.ce, 4.0, 1.5)) * (1 - effect(pkStates.remifentanil?.ce, 2.0, 1.5));
+  const midazolam = effect(pkStates.midazolam?.ce, 0.15, 1.5);
+  const ketamine = effect(pkStates.ketamine?.ce, 0.5, 1.5);
+  const dexmedetomidine = effect(pkStates.dexmedetomidine?.ce, 0.6, 1.5);
+  // Emergency drugs, Ce in mcg/mL (phenylephrine ng/mL)
+  const epiBeta = effect(pkStates.epinephrine?.ce, 0.002, 1.5);
+  const epiAlpha = effect(pkStates.epinephrine?.ce, 0.006, 1.5);
+  const ephedrine = effect(pkStates.ephedrine?.ce, 0.08, 1.5);
+  const phenylephrine = effect(pkStates.phenylephrine?.ce, 2.0, 1.5);
+  const vagolysis = 1 - (1 - effect(pkStates.atropine?.ce, 0.003, 1.5)) * (1 - effect(pkStates.glycopyrrolate?.ce, 0.002, 1.5));
+
+  let hr = resting.hr;
+  let svr = resting.svr;
+  let ees = resting.ees;
+  let venousTone = resting.venousTone;
+
+  // Propofol: arteriolar and venous dilation, mild negative inotropy, reset baroreflex
+  svr *= 1 - 0.4 * propofol;
+  venousTone *= 1 - 0.25 * propofol;
+  ees *= 1 - 0.15 * propofol;
+  hr *= 1 - 0.15 * propofol;
+  // Opioids: vagal bradycardia, slight venodilation
+  hr *= 1 - 0.12 * opioid * (1 - vagolysis);
+  venousTone *= 1 - 0.05 * opioid;
+  // Midazolam: mild arteriolar dilation
+  svr *= 1 - 0.1 * midazolam;
+  // Ketamine: central sympathetic stimulation
+  hr *= 1 + 0.2 * ketamine;
+  svr *= 1 + 0.15 * ketamine;
+  ees *= 1 + 0.1 * ketamine;
+  // Dexmedetomidine: central sympatholysis
+  hr *= 1 - 0.3 * dexmedetomidine;
+  svr *= 1 - 0.15 * dexmedetomidine;
+
+  // Atropine / glycopyrrolate: release of resting vagal tone
+  hr += 35 * vagolysis;
+  // Epinephrine: beta-1 chronotropy and inotropy, beta-2 vasodilation, alpha-1 constriction at higher Ce
+  hr *= 1 + 0.6 * epiBeta;
+  ees *= 1 + 0.5 * epiBeta;
+  svr *= (1 - 0.15 * epiBeta) * (1 + 0.8 * epiAlpha);
+  venousTone *= 1 + 0.2 * epiAlpha;
+  // Ephedrine: mixed, mostly indirect sympathomimetic
+  hr *= 1 + 0.25 * ephedrine;
+  ees *= 1 + 0.3 * ephedrine;
+  svr *= 1 + 0.2 * ephedrine;
+  venousTone *= 1 + 0.2 * ephedrine;
+  // Phenylephrine: arteriolar and venous constriction
+  svr *= 1 + 0.6 * phenylephrine;
+  venousTone *= 1 + 0.2 * phenylephrine;
+
+  // Anaphylaxis: distributive shock (capillary leak acts on stressed volume)
+  svr *= 1 - 0.65 * context.anaphylaxis;
+  venousTone *= 1 - 0.2 * context.anaphylaxis;
+
+  // Ischemic myocardium contracts less (stunning, regional hypokinesis)
+  ees *= 1 - 0.35 * context.ischemia;
+
+  // Hypoxic tachycardia, then bradycardia when severe
+  if (context.spo2 < 90) hr += (90 - context.spo2) * 1.5;
+  if (context.spo2 < 75) hr *= 0.7;
+
+  // An arrhythmia or captured pacer replaces the sinus rate
+  if (context.ventricularRate !== null) hr = context.ventricularRate;
+  const filling = context.filling;
+
+  const open = solve({ hr, svr, ees, venousTone, filling }, vasc);
+
+  // Baroreflex: one corrective pass toward the resting MAP. Reflex slowing
+  // for hypertension is weaker than reflex tachycardia for hypotension, and
+  // anaphylactic vasoplegia resists reflex vasoconstriction. Reflex slowing
+  // is vagal, so antimuscarinics block it.
+  const blunting = vasc.ventricle.baroGain * (1 - 0.8 * propofolReflex) * (1 - 0.4 * dexmedetomidine) *
+    (patient.age > 65 ? 0.7 : 1);
+  const error = clamp(setpoint - open.map, -25, 40);
+  const gain = blunting * (error < 0 ? 0.4 : 1);
+  const reflex: Loading = {
+    hr: context.ventricularRate ?? clamp(hr * (1 + 0.012 * error * gain * (error < 0 ? 1 - vagolysis : 1)), 20, 180),
+    svr: svr * (1 + 0.008 * error * gain * (1 - context.anaphylaxis)),
+    ees: ees * (1 + 0.003 * error * gain),
+    venousTone: venousTone * (1 + 0.004 * error * gain),
+    filling,
+  };
+  return solve(reflex, vasc);
+}
@@ -4,6 +4,9 @@
 
 import { Patient, PKState, CardiacRhythm } from '../types';
 import { getAclsGuidance } from './cardiacRhythm';
+import type { WakeUpForecast } from './emergence';
+import { IMPAIRED_HEPATIC_CAPACITY, IMPAIRED_RENAL_FUNCTION } from './organFunction';
+import type { PatientVariability } from './populationVariability';
 
 // ASA class multipliers applied to composite risk
 export const ASA_RISK_MODIFIERS: Record<1 | 2 | 3 | 4, number> = {
@@ -26,9 +29,10 @@ export interface RiskBreakdown {
 export interface DigitalTwin extends Patient {
   sensitivityMultiplier: number;
   comorbidities: string[];
+  variability: PatientVariability | null;  // sampled between-subject etas (populationVariability.ts)
   currentCe: Record<string, number>;
   predictedOutcome: {
-    timeToEmergence: number;
+    wakeUpForecast: WakeUpForecast | null;  // forward PK/PD emergence forecast (emergence.ts)
     hypotensionRisk: number;
     desaturationRisk: number;
     awarenessRisk: number;
@@ -47,7 +51,10 @@ export interface DigitalTwin extends Patient {
   };
 }
 
-export const createDigitalTwin = (basePatient: Patient): DigitalTwin => {
+export const createDigitalTwin = (
+  basePatient: Patient,
+  variability: PatientVariability | null = null
+): DigitalTwin => {
   // Compute physiology modifiers from patient characteristics
   const ageFactor = basePatient.age > 65 ? 0.8 : basePatient.age < 18 ? 1.2 : 1.0;
   const bmi = basePatient.weight / Math.pow(basePatient.height / 100, 2);
@@ -62,9 +69,10 @@ export const createDigitalTwin = (basePatient: Patient): DigitalTwin => {
       ...(basePatient.hepaticImpairment ? ['Hepatic Impairment'] : []),
       ...(basePatient.renalImpairment ? ['Renal Impairment'] : []),
     ],
+    variability,
     currentCe: {},
     predictedOutcome: {
-      timeToEmergence: 0,
+      wakeUpForecast: null,
       hypotensionRisk: 0,
       desaturationRisk: 0,
       awarenessRisk: 0,
@@ -84,8 +92,8 @@ export const createDigitalTwin = (basePatient: Patient): DigitalTwin => {
     },
     physiologyModifiers: {
       cardiacOutput: ageFactor * obesityFactor,
-      hepaticClearance: basePatient.hepaticImpairment ? 0.5 : ageFactor,
-      renalClearance: basePatient.renalImpairment ? 0.4 : ageFactor,
+      hepaticClearance: basePatient.hepaticImpairment ? IMPAIRED_HEPATIC_CAPACITY : ageFactor,
+      renalClearance: basePatient.renalImpairment ? IMPAIRED_RENAL_FUNCTION : ageFactor,
       brainSensitivity: (basePatient.drugSensitivity || 1.0) * (basePatient.age > 70 ? 1.3 : 1.0),
       respiratoryDrive: basePatient.osa ? 0.7 : basePatient.copd ? 0.75 : 1.0,
     },
@@ -99,7 +107,8 @@ export const updateTwin = (
   vitalsSpo2: number,
   _dt: number,
   currentRhythm: CardiacRhythm = 'normal_sinus',
-  vitalsSbp: number = 120
+  vitalsSbp: number = 120,
+  wakeUpForecast: WakeUpForecast | null = null
 ): DigitalTwin => {
   // Extract effect-site concentrations from PK states
   const newCe: Record<string, number> = {};
@@ -116,11 +125,6 @@ export const updateTwin = (
   // Combined sedation depth estimation
   const totalSedationPressure = propCe * 1.0 + midazCe * 0.8 + ketCe * 0.6 + dexCe * 0.7;
 
-  // Predictive forward simulation
-  const timeToEmergence = totalSedationPressure > 0.5
-    ? (totalSedationPressure * 12) / twin.physiologyModifiers.hepaticClearance
-    : 0;
-
   // Ce-based hypotension risk: meaningful thresholds matching clinical ranges
   const ceHypotensionRisk = Math.max(0,
     (propCe > 2.0 ? (propCe - 2.0) * 15 : 0) +
@@ -195,7 +199,7 @@ export const updateTwin = (
     ...twin,
     currentCe: newCe,
     predictedOutcome: {
-      timeToEmergence: Math.round(timeToEmergence * 10) / 10,
+      wakeUpForecast,
       hypotensionRisk: Math.round(hypotensionRisk),
       desaturationRisk: Math.round(desaturationRisk),
       awarenessRisk: Math.round(awarenessRisk),
@@ -45,7 +45,7 @@ export const fentanyl: DrugParams = {
   k31: 0.013,
   ke0: 0.147,
   V1: 12.7,
-    EC50: 0.005,  // mcg/mL (5 ng/mL) - Bouillon/AReS: opioid sedation EC50 is HIGH
+  EC50: 5,  // ng/mL (PK-state unit: mcg dose / V1 L) - Bouillon/AReS: opioid sedation EC50 is HIGH
   gamma: 2.0,
   unit: 'mcg',
 };
@@ -100,7 +100,7 @@ export const remifentanil: DrugParams = {
   k31: 0.014,  // CL3/V3 = 0.076/5.42
   ke0: 0.595,  // FAST effect-site equilibration (~1 min), Minto 1997 Table 2
   V1: 5.1,
-    EC50: 0.005,  // mcg/mL (5 ng/mL) - Minto/Eleveld: high opioid sedation EC50
+  EC50: 5,  // ng/mL (PK-state unit: mcg dose / V1 L) - Minto/Eleveld: high opioid sedation EC50
   gamma: 2.0,
   unit: 'mcg',
 };
@@ -110,14 +110,14 @@ export const remifentanil: DrugParams = {
 export const naloxone: DrugParams = {
   name: 'Naloxone',
   color: '#10b981',  // emerald
-  k10: 0.173,  // t1/2 elimination ~64 min
-  k12: 0.25,
+  k10: 0.26,   // CL ~1.5 L/min (Aitkenhead 1984); effect lasts 30-45 min
+  k12: 0.2,
   k13: 0,  // simplified 2-compartment
-  k21: 0.08,
+  k21: 0.1,
   k31: 0,
-  ke0: 0.18,  // moderate effect-site equilibration
+  ke0: 0.4,    // onset 1-2 min
   V1: 5.8,
-  EC50: 0.001,  // ng/mL (competitive antagonism)
+  EC50: 0.002,  // mcg/mL (2 ng/mL): Ki, doubles the opioid EC50
   gamma: 1.0,  // linear competitive inhibition
   unit: 'mg',
 };
@@ -127,14 +127,14 @@ export const naloxone: DrugParams = {
 export const flumazenil: DrugParams = {
   name: 'Flumazenil',
   color: '#14b8a6',  // teal
-  k10: 0.138,  // t1/2 ~60 min
-  k12: 0.18,
+  k10: 0.1,    // CL ~0.65 L/min; effect lasts 20-45 min
+  k12: 0.08,
   k13: 0,  // simplified 2-compartment
   k21: 0.06,
   k31: 0,
-  ke0: 0.15,
+  ke0: 0.5,    // onset 1-2 min
   V1: 6.5,
-  EC50: 0.02,  // mcg/mL (competitive antagonism)
+  EC50: 0.004,  // mcg/mL (4 ng/mL): Ki, doubles the midazolam EC50
   gamma: 1.0,
   unit: 'mg',
 };
@@ -242,6 +242,241 @@ export const bupivacaine: DrugParams = {
   unit: 'mg',
 };
 
+// ============================================
+// EMERGENCY DRUGS
+// Vasoactive, anticholinergic and neuromuscular drugs from the emergency
+// tray. EC50 is the concentration for half the primary effect; the
+// hemodynamic actions are applied in circulation.ts. None contribute to
+// sedation (see pdModel.ts).
+
+// Epinephrine - beta effects at low concentrations, alpha at higher
+// Rapid uptake and COMT/MAO metabolism: t1/2 ~2-3 min
+export const epinephrine: DrugParams = {
+  name: 'Epinephrine',
+  color: '#dc2626',  // red
+  k10: 0.5,     // CL ~2.5 L/min
+  k12: 0.3,
+  k13: 0,
+  k21: 0.1,
+  k31: 0,
+  ke0: 0.7,     // effect within ~1 min of an IV push
+  V1: 5.0,
+  EC50: 0.002,  // mcg/mL (2 ng/mL) for beta-1 chronotropy
+  gamma: 1.5,
+  unit: 'mg',
+  ka: 0.08,     // IM (anterolateral thigh): peak 10-20 min
+};
+
+// Atropine - muscarinic antagonist, large Vd, t1/2 ~3 h
+export const atropine: DrugParams = {
+  name: 'Atropine',
+  color: '#ea580c',  // dark orange
+  k10: 0.05,
+  k12: 0.5,     // rapid distribution out of plasma
+  k13: 0,
+  k21: 0.05,
+  k31: 0,
+  ke0: 0.4,     // onset ~1 min
+  V1: 15.0,
+  EC50: 0.003,  // mcg/mL for vagolysis (~0.5 mg in an adult)
+  gamma: 1.5,
+  unit: 'mg',
+};
+
+// Glycopyrrolate - quaternary antimuscarinic, slower onset than atropine,
+// no central effects
+export const glycopyrrolate: DrugParams = {
+  name: 'Glycopyrrolate',
+  color: '#c2410c',  // burnt orange
+  k10: 0.06,
+  k12: 0.3,
+  k13: 0,
+  k21: 0.03,
+  k31: 0,
+  ke0: 0.12,    // peak 3-5 min
+  V1: 6.0,
+  EC50: 0.002,  // mcg/mL for vagolysis (~0.2 mg)
+  gamma: 1.5,
+  unit: 'mg',
+};
+
+// Ephedrine - indirect and direct alpha/beta agonist, 10-60 min duration
+export const ephedrine: DrugParams = {
+  name: 'Ephedrine',
+  color: '#e11d48',  // rose
+  k10: 0.02,
+  k12: 0.2,
+  k13: 0,
+  k21: 0.03,
+  k31: 0,
+  ke0: 0.25,
+  V1: 20.0,
+  EC50: 0.08,   // mcg/mL (~10 mg)
+  gamma: 1.5,
+  unit: 'mg',
+};
+
+// Phenylephrine - pure alpha-1 agonist, effect 10-20 min after a push
+export const phenylephrine: DrugParams = {
+  name: 'Phenylephrine',
+  color: '#be185d',  // dark pink
+  k10: 0.2,
+  k12: 0.4,
+  k13: 0,
+  k21: 0.05,
+  k31: 0,
+  ke0: 0.5,
+  V1: 10.0,
+  EC50: 2.0,    // ng/mL (~100 mcg push)
+  gamma: 1.5,
+  unit: 'mcg',
+};
+
+// Succinylcholine - depolarizing relaxant, hydrolysed by plasma
+// cholinesterase within minutes; recovery follows diffusion out of the
+// neuromuscular junction (effect compartment)
+export const succinylcholine: DrugParams = {
+  name: 'Succinylcholine',
+  color: '#ca8a04',  // dark yellow
+  k10: 0.9,     // plasma t1/2 < 1 min
+  k12: 0.2,
+  k13: 0,
+  k21: 0.1,
+  k31: 0,
+  ke0: 0.25,
+  V1: 6.0,
+  EC50: 0.6,    // mcg/mL for 50% adductor pollicis twitch depression
+  gamma: 4.0,   // steep neuromuscular dose-response
+  unit: 'mg',
+  ka: 0.3,      // IM (deltoid): onset 3-4 min
+};
+
+// Rocuronium - aminosteroid non-depolarizing relaxant (Wierda 1991)
+// 0.6 mg/kg: onset ~90 s, clinical duration 30-40 min
+export const rocuronium: DrugParams = {
+  name: 'Rocuronium',
+  color: '#84cc16',  // lime
+  k10: 0.09,    // CL ~4 mL/kg/min over Vc ~45 mL/kg
+  k12: 0.25,
+  k13: 0.03,
+  k21: 0.12,
+  k31: 0.01,
+  ke0: 0.2,
+  V1: 3.2,
+  EC50: 1.5,    // mcg/mL for 50% adductor pollicis twitch depression
+  gamma: 4.8,
+  unit: 'mg',
+};
+
+// Sugammadex - gamma-cyclodextrin that encapsulates rocuronium 1:1
+// (neuromuscular.ts); no effect of its own, EC50 unused
+export const sugammadex: DrugParams = {
+  name: 'Sugammadex',
+  color: '#4ade80',  // light green
+  k10: 0.015,   // CL ~90 mL/min, renal
+  k12: 0.1,
+  k13: 0,
+  k21: 0.06,
+  k31: 0,
+  ke0: 0.4,
+  V1: 6.0,
+  EC50: 1,
+  gamma: 1,
+  unit: 'mg',
+};
+
+// QT-prolonging drugs: hERG blockade lengthens repolarisation
+// (Emax models in cardiacRhythm.ts QT_DRUG_EFFECTS)
+
+// Ondansetron - 5-HT3 antagonist antiemetic, t1/2 ~4 hr; no sedative action, EC50 unused
+export const ondansetron: DrugParams = {
+  name: 'Ondansetron',
+  color: '#a3a3a3',  // neutral gray
+  k10: 0.014,  // CL ~0.5 L/min
+  k12: 0.05,
+  k13: 0,  // simplified 2-compartment
+  k21: 0.03,
+  k31: 0,
+  ke0: 0.1,
+  V1: 35,
+  EC50: 1,
+  gamma: 1,
+  unit: 'mg',
+};
+
+// Droperidol - butyrophenone antiemetic; boxed warning for QT prolongation
+// Sedative action not modelled (EC50 unused)
+export const droperidol: DrugParams = {
+  name: 'Droperidol',
+  color: '#fde047',  // light yellow
+  k10: 0.05,   // CL ~0.75 L/min, t1/2 ~2 hr
+  k12: 0.2,
+  k13: 0,
+  k21: 0.04,
+  k31: 0,
+  ke0: 0.15,
+  V1: 15,
+  EC50: 1,
+  gamma: 1,
+  unit: 'mg',
+};
+
+// Haloperidol - IV butyrophenone for agitation; torsades at high IV doses
+// Sedative action not modelled (EC50 unused)
+export const haloperidol: DrugParams = {
+  name: 'Haloperidol',
+  color: '#d9f99d',  // pale lime
+  k10: 0.018,  // t1/2 ~18 hr after distribution
+  k12: 0.4,
+  k13: 0,
+  k21: 0.02,
+  k31: 0,
+  ke0: 0.12,
+  V1: 40,
+  EC50: 1,
+  gamma: 1,
+  unit: 'mg',
+};
+
+// Methadone - long-acting mu agonist with hERG blockade, t1/2 24+ hr
+export const methadone: DrugParams = {
+  name: 'Methadone',
+  color: '#b45309',  // dark amber
+  k10: 0.0075,  // CL ~0.15 L/min
+  k12: 0.3,
+  k13: 0,
+  k21: 0.03,
+  k31: 0,
+  ke0: 0.08,
+  V1: 20,
+  EC50: 0.1,  // mcg/mL opioid sedation (MOASS uses SOLO_RESPONSE_CURVES in responseSurface.ts)
+  gamma: 2.0,
+  unit: 'mg',
+};
+
+// Amiodarone - class III antiarrhythmic for shock-refractory VF/pVT; rapid
+// distribution into a very large peripheral volume, t1/2 weeks. EC50 is the
+// antiarrhythmic effect on shock success and refibrillation (acls.ts)
+export const amiodarone: DrugParams = {
+  name: 'Amiodarone',
+  color: '#7c3aed',  // violet
+  k10: 0.005,
+  k12: 0.3,
+  k13: 0,
+  k21: 0.01,
+  k31: 0,
+  ke0: 0.2,     // effect within a few minutes of a push
+  V1: 20,
+  EC50: 1.5,    // mcg/mL
+  gamma: 1,
+  unit: 'mg',
+};
+
+export const EMERGENCY_DRUG_KEYS = [
+  'epinephrine', 'atropine', 'glycopyrrolate', 'ephedrine', 'phenylephrine', 'succinylcholine',
+  'rocuronium', 'sugammadex', 'naloxone', 'flumazenil', 'amiodarone',
+];
+
 // Local anesthetic metadata for UI and safety calculations
 export interface LAMeta {
   mgPerMl: number;         // concentration in mg/mL
@@ -300,9 +535,24 @@ export const DRUG_DATABASE: Record<string, DrugParams> = {
   remifentanil,
   ketamine,
   dexmedetomidine,
+  naloxone,
+  flumazenil,
   lidocaine_epi,
   articaine_epi,
   bupivacaine,
+  epinephrine,
+  atropine,
+  glycopyrrolate,
+  ephedrine,
+  phenylephrine,
+  succinylcholine,
+  rocuronium,
+  sugammadex,
+  ondansetron,
+  droperidol,
+  haloperidol,
+  methadone,
+  amiodarone,
 };
 
 export const DRUG_LIST = Object.values(DRUG_DATABASE);
@@ -40,28 +40,34 @@ export function evaluateGaussians(
 
 // ─── Bazett HR-responsive morphology ─────────────────────────────────────────
 
+/** QTc (ms) the templates are drawn at */
+const TEMPLATE_QTC = 400;
+
 /**
  * Apply Bazett's correction so T-wave angular position and width shorten at
  * higher heart rates:  QT_measured = QTc · √RR
  *
  * Components with theta > 0.25 rad (i.e. T-wave region) are scaled.
- * Reference rate: 75 bpm (RR = 0.8 s).
+ * Reference rate: 75 bpm (RR = 0.8 s). A QTc above the template's 400 ms
+ * pushes the T wave later and broadens it without raising it.
  */
 export function applyHRMorphology(
   components: GaussianComponent[],
   hr: number,
+  qtc: number = TEMPLATE_QTC,
 ): GaussianComponent[] {
   if (hr <= 0) return components;
   const RR = 60 / hr;
   const RR_ref = 60 / 75;                    // 0.8 s at 75 bpm
   const qtScale = Math.sqrt(RR / RR_ref);    // >1 at slow HR, <1 at fast HR
+  const qtcScale = qtc / TEMPLATE_QTC;
 
   return components.map(comp => {
     if (comp.theta > 0.25) {
       return {
-        theta: comp.theta * qtScale,
+        theta: comp.theta * qtScale * qtcScale,
         amplitude: comp.amplitude * (0.65 + 0.35 * qtScale),
-        width: comp.width * Math.sqrt(qtScale),
+        width: comp.width * Math.sqrt(qtScale) * qtcScale,
       };
     }
     return comp;
@@ -106,7 +112,7 @@ const SVT_NARROW: GaussianComponent[] = [
 ];
 
 /** Monomorphic VTach – wide QRS with discordant (negative) T wave */
-const VTACH_WIDE: GaussianComponent[] = [
+export const VTACH_WIDE: GaussianComponent[] = [
   { theta: -0.35, amplitude: -0.18, width: 0.12 }, // initial slur / notch
   { theta:  0.00, amplitude:  0.90, width: 0.14 }, // broad R wave
   { theta:  0.30, amplitude: -0.55, width: 0.10 }, // deep S
@@ -231,6 +237,37 @@ export function getRRVariation(rhythm: CardiacRhythm, baseRR: number): number {
   }
 }
 
+// ─── ST segment and ectopy ────────────────────────────────────────────────────
+
+/** ST shift sits between the S wave and the T wave (as in twelveLeadECG.ts) */
+const ST_SEGMENT: GaussianComponent = { theta: 0.38, amplitude: 0, width: 0.16 };
+
+/** Add an ST deviation (mV, + elevation) to a conducted beat */
+function withST(components: GaussianComponent[], stDeviation: number): GaussianComponent[] {
+  return stDeviation === 0 ? components : [...components, { ...ST_SEGMENT, amplitude: stDeviation }];
+}
+
+/** Golden-ratio sequence: ectopic beats spread evenly without a random draw per beat */
+const ECTOPY_SEQUENCE_STEP = 0.6180339887;
+
+/** Whether beat `cycleIndex` is a PVC when `fraction` of beats are ectopic */
+export function isEctopicBeat(cycleIndex: number, fraction: number): boolean {
+  return fraction > 0 && (cycleIndex * ECTOPY_SEQUENCE_STEP) % 1 < fraction;
+}
+
+/** Premature ventricular complex: wide, bizarre QRS with a discordant T wave */
+export function evaluatePVC(phase: number): number {
+  return evaluateGaussians(VTACH_WIDE, phase * 2 * Math.PI - Math.PI);
+}
+
+/** Stimulus-to-R delay of a paced ventricular beat (rad) */
+const PACED_R_OFFSET = 0.6;
+
+/** Transcutaneous pacer capture: a wide complex just after the spike at phase 0 */
+export function evaluatePacedBeat(phase: number): number {
+  return evaluateGaussians(VTACH_WIDE, phase * 2 * Math.PI - PACED_R_OFFSET);
+}
+
 // ─── Main ECG evaluator ───────────────────────────────────────────────────────
 
 /**
@@ -242,6 +279,8 @@ export function getRRVariation(rhythm: CardiacRhythm, baseRR: number): number {
  * @param cycleIndex  Beat count since simulation start (for Wenckebach, Torsades)
  * @param vfibOffset  Continuously incrementing phase offset for VFib animation
  * @param pPhase      Atrial phase for complete heart block [0, 1], optional
+ * @param qtc         Bazett QTc (ms) for the T-wave position, optional
+ * @param stDeviation ST deviation (mV, + elevation) on conducted beats, optional
  */
 export function evaluateECG(
   rhythm: CardiacRhythm,
@@ -250,21 +289,23 @@ export function evaluateECG(
   cycleIndex: number,
   vfibOffset: number,
   pPhase?: number,
+  qtc?: number,
+  stDeviation: number = 0,
 ): number {
   const theta = (phase * 2 * Math.PI) - Math.PI;
 
   switch (rhythm) {
     case 'normal_sinus':
-      return evaluateGaussians(applyHRMorphology(NORMAL_SINUS, hr), theta);
+      return evaluateGaussians(applyHRMorphology(withST(NORMAL_SINUS, stDeviation), hr, qtc), theta);
 
     case 'sinus_bradycardia':
-      return evaluateGaussians(applyHRMorphology(SINUS_BRADY, hr), theta);
+      return evaluateGaussians(applyHRMorphology(withST(SINUS_BRADY, stDeviation), hr, qtc), theta);
 
     case 'sinus_tachycardia':
-      return evaluateGaussians(applyHRMorphology(SINUS_TACHY, hr), theta);
+      return evaluateGaussians(applyHRMorphology(withST(SINUS_TACHY, stDeviation), hr, qtc), theta);
 
     case 'first_degree_av_block':
-      return evaluateGaussians(applyHRMorphology(FIRST_DEGREE, hr), theta);
+      return evaluateGaussians(applyHRMorphology(withST(FIRST_DEGREE, stDeviation), hr, qtc), theta);
 
     case 'second_degree_type1': {
       const beatInGroup = cycleIndex % 4;
@@ -274,25 +315,25 @@ export function evaluateECG(
       const comps = NORMAL_SINUS.map((c, i) =>
         i === 0 ? { ...c, theta: c.theta - extraShift } : c,
       );
-      return evaluateGaussians(applyHRMorphology(comps, hr), theta);
+      return evaluateGaussians(applyHRMorphology(withST(comps, stDeviation), hr, qtc), theta);
     }
 
     case 'second_degree_type2':
       if (cycleIndex % 3 === 2) return 0; // dropped QRS every 3rd beat
-      return evaluateGaussians(applyHRMorphology(NORMAL_SINUS, hr), theta);
+      return evaluateGaussians(applyHRMorphology(withST(NORMAL_SINUS, stDeviation), hr, qtc), theta);
 
     case 'third_degree_av_block':
       return completeHeartBlockWaveform(phase, pPhase ?? (phase * 75 / 35) % 1);
 
     case 'svt':
     case 'junctional':
-      return evaluateGaussians(SVT_NARROW, theta);
+      return evaluateGaussians(withST(SVT_NARROW, stDeviation), theta);
 
     case 'atrial_fibrillation':
-      return evaluateGaussians(AFIB_QRS, theta) + afibBaseline(phase, vfibOffset);
+      return evaluateGaussians(withST(AFIB_QRS, stDeviation), theta) + afibBaseline(phase, vfibOffset);
 
     case 'atrial_flutter':
-      return evaluateGaussians(SVT_NARROW, theta) * 0.85 + flutterBaseline(phase);
+      return evaluateGaussians(withST(SVT_NARROW, stDeviation), theta) * 0.85 + flutterBaseline(phase);
 
     case 'ventricular_tachycardia':
       return evaluateGaussians(VTACH_WIDE, theta);
@@ -314,6 +355,6 @@ export function evaluateECG(
       return (Math.random() - 0.5) * 0.03;
 
     default:
-      return evaluateGaussians(applyHRMorphology(NORMAL_SINUS, hr), theta);
+      return evaluateGaussians(applyHRMorphology(withST(NORMAL_SINUS, stDeviation), hr, qtc), theta);
   }
 }
@@ -3,6 +3,8 @@
 // Generates realistic 4-channel EEG waveforms driven by effect-site concentrations
 // Parametric model: propofol Ce -> alpha/delta/burst suppression transitions
 
+import type { Rng } from './prng';
+
 export interface EEGChannel {
   raw: number[];        // Rolling buffer of raw EEG samples
   dsa: number[];        // Density Spectral Array data
@@ -24,15 +26,15 @@ const BUFFER_SIZE = 512; // ~2 seconds at 256 Hz display rate
 const DSA_BINS = 30;     // Frequency bins for DSA spectrogram
 
 // Noise generator for realistic EEG signal
-const gaussianNoise = (mean: number = 0, std: number = 1): number => {
-  const u1 = Math.random();
-  const u2 = Math.random();
+const gaussianNoise = (random: Rng, mean: number = 0, std: number = 1): number => {
+  const u1 = random();
+  const u2 = random();
   return mean + std * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
 };
 
 // Generate EMG artifact noise
-const emgArtifact = (amplitude: number): number => {
-  return amplitude * (Math.random() - 0.5) * 2 * (20 + Math.random() * 30);
+const emgArtifact = (amplitude: number, random: Rng): number => {
+  return amplitude * (random() - 0.5) * 2 * (20 + random() * 30);
 };
 
 // Parametric EEG signal generation based on drug concentrations
@@ -43,7 +45,8 @@ const generateRawSample = (
   midazCe: number,
   age: number,
   t: number,
-  channelOffset: number
+  channelOffset: number,
+  random: Rng
 ): number => {
   // Age adjustment: elderly show more sensitivity
   const ageSensitivity = age > 65 ? 1.2 : age < 18 ? 0.85 : 1.0;
@@ -54,7 +57,7 @@ const generateRawSample = (
   const alphaAmp = Math.max(0, 30 * (1 - combinedSedationCe * 0.3));
   const alphaFreq = 10 - combinedSedationCe * 1.5; // Alpha slows with sedation
   const betaAmp = Math.max(0, 15 * (1 - combinedSedationCe * 0.5));
-  const betaFreq = 20 + Math.random() * 5;
+  const betaFreq = 20 + random() * 5;
 
   // Sedation: theta (4-8 Hz) and delta (0.5-4 Hz) emergence
   const thetaAmp = combinedSedationCe > 1 ? Math.min(40, (combinedSedationCe - 1) * 25) : 0;
@@ -64,12 +67,12 @@ const generateRawSample = (
 
   // Burst suppression pattern (Ce > 4)
   const burstProb = combinedSedationCe > 4 ? Math.min(0.8, (combinedSedationCe - 4) * 0.3) : 0;
-  const isBurst = Math.random() > burstProb;
+  const isBurst = random() > burstProb;
   const burstMultiplier = combinedSedationCe > 4 ? (isBurst ? 2.0 : 0.05) : 1.0;
 
   // Ketamine effect: increases high-frequency gamma
   const gammaAmp = ketCe > 0.5 ? Math.min(20, ketCe * 15) : 0;
-  const gammaFreq = 35 + Math.random() * 10;
+  const gammaFreq = 35 + random() * 10;
 
   // Dexmedetomidine: enhances spindle activity (12-14 Hz)
   const spindleAmp = dexCe > 0.3 ? Math.min(25, dexCe * 30) : 0;
@@ -90,8 +93,8 @@ const generateRawSample = (
     (betaAmp + midazBetaBoost) * Math.sin(2 * Math.PI * 18 * t + phase) * 0.3;
 
   // Add noise and apply burst suppression
-  const noise = gaussianNoise(0, 3 + combinedSedationCe * 2);
-  const emg = combinedSedationCe < 1.5 ? emgArtifact(0.3) : 0; // EMG decreases with sedation
+  const noise = gaussianNoise(random, 0, 3 + combinedSedationCe * 2);
+  const emg = combinedSedationCe < 1.5 ? emgArtifact(0.3, random) : 0; // EMG decreases with sedation
 
   return (signal + noise + emg) * burstMultiplier;
 };
@@ -132,7 +135,7 @@ const computeSEF = (combinedSedationCe: number, dexCe: number): number => {
 };
 
 // Simple DSA bin computation (frequency power distribution)
-const computeDSA = (propCe: number, dexCe: number, ketCe: number): number[] => {
+const computeDSA = (propCe: number, dexCe: number, ketCe: number, random: Rng): number[] => {
   const bins = new Array(DSA_BINS).fill(0);
   for (let i = 0; i < DSA_BINS; i++) {
     const freq = (i / DSA_BINS) * 30; // 0-30 Hz
@@ -145,13 +148,14 @@ const computeDSA = (propCe: number, dexCe: number, ketCe: number): number[] => {
     // Beta
     else if (freq < 30) bins[i] = Math.max(3, 15 - propCe * 3 + ketCe * 5);
     // Add noise
-    bins[i] += Math.random() * 3;
+    bins[i] += random() * 3;
     bins[i] = Math.max(0, bins[i]);
   }
   return bins;
 };
 
 // Main EEG generation function - called every tick
+// `random` drives the signal noise and burst timing; injectable for reproducible runs
 export const generateEEG = (
   propCe: number,
   dexCe: number,
@@ -161,7 +165,8 @@ export const generateEEG = (
   age: number,
   simTime: number,
   combinedEff: number,  // NEW: combined drug effect from pdModel (accounts for synergy)
-  previousState?: EEGState
+  previousState?: EEGState,
+  random: Rng = Math.random
 ): EEGState => {
   const bisIndex = computeBISIndex(combinedEff, ketCe);
   const sedationState = getSedationState(bisIndex);
@@ -170,7 +175,7 @@ export const generateEEG = (
   const combinedSedationCe = (propCe + midazCe * 8 + dexCe * 1.5) * ageSensitivity;
   const suppressionRatio = computeSuppressionRatio(combinedSedationCe);
   const sef = computeSEF(combinedSedationCe, dexCe);
-  const dsa = computeDSA(propCe, dexCe, ketCe);
+  const dsa = computeDSA(propCe, dexCe, ketCe, random);
 
   const channels: Record<string, EEGChannel> = {};
 
@@ -183,7 +188,7 @@ export const generateEEG = (
     for (let s = 0; s < 8; s++) {
       const t = simTime + s * 0.004; // ~256 Hz sample rate
       newSamples.push(
-        generateRawSample(propCe, dexCe, ketCe, midazCe, age, t, idx)
+        generateRawSample(propCe, dexCe, ketCe, midazCe, age, t, idx, random)
       );
     }
 
@@ -0,0 +1,364 @@
+import { CardiacRhythm, Patient, PKState, Vitals } from '../types';
+import { isPulselessRhythm, isLethalRhythm } from './cardiacRhythm';
+import { isShockable } from './acls';
+import { diastolicFraction } from './myocardialIschemia';
+import { Rng } from './prng';
+
+/**
+ * Electrical Therapy
+ * The manual monitor-defibrillator: synchronized cardioversion, shocks
+ * outside an arrest, and transcutaneous pacing.
+ *
+ * A scenario can hold the heart in a sustained arrhythmia (SVT, flutter,
+ * AF, VT with a pulse, AV block) until it is converted. The arrhythmia
+ * fixes the ventricular rate, which the baroreflex cannot change; atropine
+ * and beta stimulation speed only the rhythms they act on. The circulation
+ * (circulation.ts) fills the ventricle less when diastole shortens or the
+ * atria stop contracting in time with it:
+ *
+ *   filling = √(f_dia(rate) / f_dia(100)) · (0.8 without atrial kick)
+ *
+ * Cardioversion success rises with energy toward a ceiling for each rhythm,
+ * reaching half of it at J50:
+ *
+ *   P(convert) = Pmax · (1 − 2^(−J/J50))
+ *
+ * A synchronized shock discharges on the R wave, and does not fire when
+ * there is no R wave (VF, torsades, asystole). An unsynchronized shock to
+ * an organised rhythm can fall in the vulnerable period of the T wave and
+ * induce VF; the chance grows with the rate. Unsynchronized shocks to VF
+ * and VT are defibrillation, and every shock during an arrest belongs to
+ * the resuscitation (acls.ts).
+ *
+ * A pacer in demand mode fires when its rate is above the intrinsic rate.
+ * It captures once the current reaches the patient's threshold, which is
+ * higher in larger chests, ischemic myocardium and hyperkalemia. Capture
+ * is electrical at threshold: a wide complex follows every spike. It is
+ * mechanical only with a margin above threshold in a heart that can
+ * contract. The monitor counts the spikes either way; only the pulse on
+ * the pleth shows whether the paced beats perfuse.
+ *
+ * References:
+ *   Kerber RE et al. Circulation 1988;77:1038-1046 (energy and success in cardioversion)
+ *   Zoll PM et al. Circulation 1985;71:937-944 (external noninvasive pacing)
+ *   Panchal AR et al. Circulation 2020;142(suppl 2):S366-S468 (AHA adult ALS: tachycardia and bradycardia)
+ */
+
+export interface PacerSettings {
+  rate: number;     // paced beats per minute
+  current: number;  // output, mA
+}
+
+export type CaptureState = 'none' | 'electrical' | 'mechanical';
+
+export type CardioversionOutcome =
+  | 'converted'      // sinus rhythm restored
+  | 'failed'         // rhythm unchanged
+  | 'induced_vf'     // unsynchronized shock on the T wave
+  | 'no_sync'        // synchronized with no R wave: the shock was not delivered
+  | 'not_indicated'; // no arrhythmia to terminate
+
+export interface CardioversionRecord {
+  time: number;
+  energy: number;  // J
+  synchronized: boolean;
+  rhythm: CardiacRhythm;
+  outcome: CardioversionOutcome;
+}
+
+export interface ElectricalState {
+  arrhythmia: CardiacRhythm | null;   // sustained rhythm held until converted
+  synchronized: boolean;              // sync mode: shocks wait for the R wave
+  pendingShock: { energy: number; synchronized: boolean } | null;
+  pacer: PacerSettings | null;
+  cardioversions: CardioversionRecord[];
+}
+
+/** What the pacer did this step, as the monitor shows it */
+export interface PacingStatus {
+  firing: boolean;        // demand mode: above the intrinsic rate
+  threshold: number;      // mA
+  capture: CaptureState;
+}
+
+export const NO_ELECTRICAL_THERAPY: ElectricalState = {
+  arrhythmia: null,
+  synchronized: false,
+  pendingShock: null,
+  pacer: null,
+  cardioversions: [],
+};
+
+/** Manual defibrillator energy steps (J, biphasic) */
+export const ENERGY_LEVELS = [10, 20, 30, 50, 70, 100, 120, 150, 200];
+
+/** Typical starting energies for synchronized cardioversion (AHA) */
+export const CARDIOVERSION_ENERGY: Partial<Record<CardiacRhythm, number>> = {
+  svt: 50,
+  atrial_flutter: 50,
+  atrial_fibrillation: 120,
+  ventricular_tachycardia: 100,
+  wide_complex_unknown: 100,
+};
+
+interface ArrhythmiaProfile {
+  rate: number;         // ventricular rate, bpm
+  atrialKick: boolean;  // atria contract in time with the ventricles
+  qrsWidth: number;     // ms
+  prInterval: number;   // ms, 0 without conducted P waves
+  vagolytic: number;    // bpm added by full vagal blockade (nodal rhythms only)
+  beta: number;         // fractional rate rise at full beta stimulation
+}
+
+/** Rhythms a scenario can sustain; the others return control to the physiology */
+const ARRHYTHMIAS: Partial<Record<CardiacRhythm, ArrhythmiaProfile>> = {
+  sinus_bradycardia: { rate: 40, atrialKick: true, qrsWidth: 90, prInterval: 160, vagolytic: 35, beta: 0.6 },
+  first_degree_av_block: { rate: 55, atrialKick: true, qrsWidth: 90, prInterval: 280, vagolytic: 25, beta: 0.4 },
+  // Nodal block: vagal, so atropine improves conduction
+  second_degree_type1: { rate: 45, atrialKick: true, qrsWidth: 90, prInterval: 200, vagolytic: 25, beta: 0.4 },
+  // Infranodal block: atropine speeds the atria, not the ventricles
+  second_degree_type2: { rate: 40, atrialKick: true, qrsWidth: 120, prInterval: 180, vagolytic: 0, beta: 0.2 },
+  third_degree_av_block: { rate: 34, atrialKick: false, qrsWidth: 140, prInterval: 0, vagolytic: 0, beta: 0.25 },
+  junctional: { rate: 45, atrialKick: false, qrsWidth: 90, prInterval: 0, vagolytic: 15, beta: 0.3 },
+  svt: { rate: 180, atrialKick: false, qrsWidth: 80, prInterval: 0, vagolytic: 0, beta: 0 },
+  // 2:1 conduction of a 300/min flutter circuit
+  atrial_flutter: { rate: 150, atrialKick: false, qrsWidth: 80, prInterval: 0, vagolytic: 0, beta: 0 },
+  atrial_fibrillation: { rate: 140, atrialKick: false, qrsWidth: 90, prInterval: 0, vagolytic: 0, beta: 0.15 },
+  ventricular_tachycardia: { rate: 170, atrialKick: false, qrsWidth: 160, prInterval: 0, vagolytic: 0, beta: 0 },
+  wide_complex_unknown: { rate: 160, atrialKick: false, qrsWidth: 150, prInterval: 0, vagolytic: 0, beta: 0 },
+};
+
+/** Energy for half the maximal success (J) and that maximum; null where cardioversion does not apply */
+interface CardioversionResponse {
+  j50: number;
+  max: number;
+}
+
+const CARDIOVERSION: Record<CardiacRhythm, CardioversionResponse | null> = {
+  normal_sinus: null,
+  sinus_bradycardia: null,
+  sinus_tachycardia: null,
+  first_degree_av_block: null,
+  second_degree_type1: null,
+  second_degree_type2: null,
+  third_degree_av_block: null,
+  // Automatic focus: shocks do not terminate it
+  junctional: null,
+  // Re-entrant circuits: a small, well-timed shock terminates them
+  svt: { j50: 20, max: 0.95 },
+  atrial_flutter: { j50: 15, max: 0.95 },
+  atrial_fibrillation: { j50: 60, max: 0.9 },
+  ventricular_tachycardia: { j50: 30, max: 0.95 },
+  wide_complex_unknown: { j50: 30, max: 0.9 },
+  // Sync cannot track these: defibrillation (acls.ts)
+  polymorphic_vt: null,
+  ventricular_fibrillation: null,
+  asystole: null,
+  pea: null,
+};
+
+/** Duration of the vulnerable period in each cycle (s) */
+const VULNERABLE_WINDOW = 0.03;
+/** Capture threshold of an average adult chest (mA) and its limits */
+const BASE_THRESHOLD = 55;
+const MIN_THRESHOLD = 30;
+const MAX_THRESHOLD = 140;
+/** Current above threshold for the paced beats to contract reliably (mA) */
+export const MECHANICAL_MARGIN = 10;
+/** Ischemia burden beyond which captured beats no longer contract */
+const STUNNED_BURDEN = 0.9;
+/** Atropine and epinephrine (beta) effect-site EC50s, mcg/mL, as in circulation.ts */
+const ATROPINE_EC50 = 0.003;
+const EPINEPHRINE_BETA_EC50 = 0.002;
+/** Preload lost without atrial contraction */
+const ATRIAL_KICK = 0.2;
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+function hill(ce: number, ec50: number, gamma: number): number {
+  if (ce <= 0) return 0;
+  const ratio = Math.pow(ce / ec50, gamma);
+  return ratio / (1 + ratio);
+}
+
+/** Whether a scenario can hold the heart in `rhythm` */
+export function canSustain(rhythm: CardiacRhythm): boolean {
+  return ARRHYTHMIAS[rhythm] !== undefined;
+}
+
+/** A defined R wave the defibrillator can synchronize to */
+export function hasSyncableR(rhythm: CardiacRhythm): boolean {
+  return rhythm !== 'ventricular_fibrillation' && rhythm !== 'polymorphic_vt' && rhythm !== 'asystole';
+}
+
+/** Hold the heart in `rhythm`, or return it to the physiology when the rhythm cannot be sustained */
+export function setArrhythmia(state: ElectricalState, rhythm: CardiacRhythm): ElectricalState {
+  return { ...state, arrhythmia: canSustain(rhythm) ? rhythm : null };
+}
+
+/** Charge and discharge; the next step resolves the shock */
+export function queueElectricalShock(state: ElectricalState, energy: number, synchronized: boolean): ElectricalState {
+  return { ...state, pendingShock: { energy, synchronized } };
+}
+
+/** Ventricular rate of the sustained arrhythmia under atropine and beta stimulation */
+export function arrhythmiaRate(rhythm: CardiacRhythm, pkStates: Record<string, PKState>): number | null {
+  const profile = ARRHYTHMIAS[rhythm];
+  if (!profile) return null;
+  const vagolysis = hill(pkStates.atropine?.ce ?? 0, ATROPINE_EC50, 1.5);
+  const beta = hill(pkStates.epinephrine?.ce ?? 0, EPINEPHRINE_BETA_EC50, 1.5);
+  return (profile.rate + profile.vagolytic * vagolysis) * (1 + profile.beta * beta);
+}
+
+/** Share of normal preload the ventricle fills to at `rate` (1 at 100 bpm and below) */
+export function ventricularFilling(rate: number, atrialKick: boolean): number {
+  const diastole = Math.min(1, Math.sqrt(diastolicFraction(rate) / diastolicFraction(100)));
+  return diastole * (atrialKick ? 1 : 1 - ATRIAL_KICK);
+}
+
+/**
+ * Ventricular rate and filling the arrhythmia or mechanically captured
+ * pacing imposes on the circulation; null rate leaves the physiology's.
+ */
+export function electricalLoading(
+  state: ElectricalState,
+  pkStates: Record<string, PKState>,
+  capture: CaptureState = 'none'
+): { ventricularRate: number | null; filling: number } {
+  // Paced beats start in the ventricle: AV dissociation
+  if (state.pacer && capture === 'mechanical') {
+    return { ventricularRate: state.pacer.rate, filling: ventricularFilling(state.pacer.rate, false) };
+  }
+  const rate = state.arrhythmia ? arrhythmiaRate(state.arrhythmia, pkStates) : null;
+  if (rate === null || !state.arrhythmia) return { ventricularRate: null, filling: 1 };
+  return { ventricularRate: rate, filling: ventricularFilling(rate, ARRHYTHMIAS[state.arrhythmia]!.atrialKick) };
+}
+
+/** Pacing current (mA) at which a wide complex follows each spike */
+export function captureThreshold(patient: Patient, ischemia: number): number {
+  const potassium = patient.potassium ?? 4.0;
+  return clamp(
+    BASE_THRESHOLD + 0.3 * (patient.weight - 75) + 25 * ischemia + 15 * Math.max(0, potassium - 5.5),
+    MIN_THRESHOLD, MAX_THRESHOLD
+  );
+}
+
+/**
+ * Whether the pacer fires over `intrinsicRate` and what it captures:
+ * fibrillating myocardium cannot be captured; a heart in arrest or too
+ * ischemic to contract captures electrically only.
+ */
+export function pacingStatus(
+  pacer: PacerSettings | null,
+  intrinsicRate: number,
+  rhythm: CardiacRhythm,
+  arrest: boolean,
+  patient: Patient,
+  ischemia: number
+): PacingStatus | null {
+  if (!pacer) return null;
+  const threshold = captureThreshold(patient, ischemia);
+  const firing = pacer.rate > intrinsicRate;
+  let capture: CaptureState = 'none';
+  if (firing && pacer.current >= threshold && rhythm !== 'ventricular_fibrillation' && rhythm !== 'polymorphic_vt') {
+    capture = arrest || ischemia > STUNNED_BURDEN || pacer.current < threshold + MECHANICAL_MARGIN
+      ? 'electrical'
+      : 'mechanical';
+  }
+  return { firing, threshold, capture };
+}
+
+/** Chance that a synchronized shock of `energy` J terminates `rhythm` */
+export function conversionProbability(rhythm: CardiacRhythm, energy: number): number {
+  const response = CARDIOVERSION[rhythm];
+  if (!response) return 0;
+  return response.max * (1 - Math.pow(2, -energy / response.j50));
+}
+
+/** Chance that an unsynchronized shock lands on the T wave at `rate` */
+export function vulnerablePeriodChance(rate: number): number {
+  return clamp(VULNERABLE_WINDOW * rate / 60, 0, 1);
+}
+
+/**
+ * Where a shock goes: the resuscitation's defibrillation (in arrest, or
+ * unsynchronized to VF and VT), cardioversion here, or nowhere when sync
+ * finds no R wave.
+ */
+export function routeShock(
+  rhythm: CardiacRhythm,
+  arrest: boolean,
+  synchronized: boolean
+): 'defibrillation' | 'cardioversion' | 'no_sync' {
+  if (synchronized && !hasSyncableR(rhythm)) return 'no_sync';
+  if (arrest || isPulselessRhythm(rhythm)) return 'defibrillation';
+  if (!synchronized && isShockable(rhythm)) return 'defibrillation';
+  return 'cardioversion';
+}
+
+/** Resolve a shock to a perfusing rhythm; unsynchronized shocks draw for the T wave first */
+export function resolveCardioversion(
+  rhythm: CardiacRhythm,
+  energy: number,
+  synchronized: boolean,
+  rate: number,
+  rng: Rng
+): CardioversionOutcome {
+  if (!synchronized && rng() < vulnerablePeriodChance(rate)) return 'induced_vf';
+  if (!CARDIOVERSION[rhythm]) return 'not_indicated';
+  return rng() < conversionProbability(rhythm, energy) ? 'converted' : 'failed';
+}
+
+/**
+ * Resolve any pending shock that is not the resuscitation's. Returns the
+ * energy to hand to the defibrillation path (acls.ts `queueShock`) when it is.
+ */
+export function stepElectricalTherapy(
+  prev: ElectricalState,
+  rhythm: CardiacRhythm,
+  rate: number,
+  arrest: boolean,
+  time: number,
+  rng: Rng
+): { state: ElectricalState; record: CardioversionRecord | null; defibrillation: number | null } {
+  if (!prev.pendingShock) return { state: prev, record: null, defibrillation: null };
+  const { energy, synchronized } = prev.pendingShock;
+  const state = { ...prev, pendingShock: null };
+  const route = routeShock(rhythm, arrest, synchronized);
+  if (route === 'defibrillation') return { state, record: null, defibrillation: energy };
+
+  const outcome = route === 'no_sync' ? 'no_sync' : resolveCardioversion(rhythm, energy, synchronized, rate, rng);
+  const record: CardioversionRecord = { time, energy, synchronized, rhythm, outcome };
+  return {
+    state: {
+      ...state,
+      arrhythmia: outcome === 'converted' || outcome === 'induced_vf' ? null : state.arrhythmia,
+      cardioversions: [...state.cardioversions, record],
+    },
+    record,
+    defibrillation: null,
+  };
+}
+
+/** The sustained arrhythmia on the monitor, unless the physiology has produced a lethal rhythm */
+export function arrhythmiaVitals(vitals: Vitals, state: ElectricalState): Vitals {
+  const profile = state.arrhythmia ? ARRHYTHMIAS[state.arrhythmia] : undefined;
+  if (!state.arrhythmia || !profile || isLethalRhythm(vitals.rhythm ?? 'normal_sinus')) return vitals;
+  return { ...vitals, rhythm: state.arrhythmia, qrsWidth: profile.qrsWidth, prInterval: profile.prInterval };
+}
+
+/**
+ * While the pacer fires the monitor counts its spikes; `pulseRate` is the
+ * rate of the beats that reach the pleth.
+ */
+export function pacedVitals(vitals: Vitals, pacer: PacerSettings | null, pacing: PacingStatus | null): Vitals {
+  if (!pacer || !pacing?.firing) return vitals;
+  const captured = pacing.capture !== 'none';
+  return {
+    ...vitals,
+    hr: pacer.rate,
+    pulseRate: vitals.hr,
+    qrsWidth: captured ? 160 : vitals.qrsWidth,
+    pacing: { rate: pacer.rate, current: pacer.current, captured },
+  };
+}
@@ -0,0 +1,203 @@
+import { DrugParams, PKState, MOASSLevel } from '../types';
+import { advancePK, applyBolus, createInitialPKState } from './pkModel';
+import { effectToMOASS, isSedativeDrug, potencyRatio, sedationDepth, sedationEndpoints } from './pdModel';
+import { computeTCICommand } from './tciController';
+import { evaluateResponseSurface, DEFAULT_INTERACTION_MODELS, InteractionSelection } from './responseSurface';
+
+/**
+ * Wake-Up Forecast
+ * Runs the exact PK solution forward from the current state and reports,
+ * per drug, the context-sensitive half-time and the time for Ce to fall
+ * below a threshold, plus the predicted time to emergence for the whole
+ * drug combination through the selected interaction surfaces.
+ *
+ * Emergence is defined as MOASS >= 4 (responds to name), i.e. the sedation
+ * depth dropping below the MOASS 3/4 boundary used by effectToMOASS.
+ *
+ * References:
+ *   Hughes MA, Glass PSA, Jacobs JR. Anesthesiology 1992;76:334-341 (CSHT)
+ *   Youngs EJ, Shafer SL. Anesthesiology 1994;81:833-842 (decrement times)
+ */
+
+/** Sedation depth below which effectToMOASS returns 4 or 5 */
+export const EMERGENCE_EFFECT_THRESHOLD = 0.25;
+
+const FORECAST_STEP_S = 15;
+const FORECAST_HORIZON_S = 4 * 3600;
+const TRAJECTORY_SAMPLE_S = 30;
+const TRAJECTORY_HORIZON_S = 1800;
+const CSHT_CONTEXT_STEP_S = 60;
+
+export interface DrugWakeUpForecast {
+  contextSensitiveHalfTime: number | null;  // s for Cp to fall 50% if stopped now
+  thresholdCe: number | null;               // Ce at which this drug alone allows emergence
+  timeToThreshold: number | null;           // s for Ce to fall below thresholdCe if stopped now
+}
+
+export interface WakeUpTrajectoryPoint {
+  secondsAhead: number;
+  combinedEffect: number;
+  moass: MOASSLevel;
+}
+
+export interface WakeUpForecast {
+  drugs: Record<string, DrugWakeUpForecast>;
+  timeToEmergence: number | null;           // s, infusions continuing at their current rate
+  timeToEmergenceIfStopped: number | null;  // s, all infusions stopped now
+  trajectory: WakeUpTrajectoryPoint[];      // projected sedation, infusions continuing
+}
+
+type InfusionRates = Record<string, { rate: number; isRunning: boolean }>;
+
+function isActive(state: PKState): boolean {
+  return state.c1 > 1e-6 || state.c2 > 1e-6 || state.c3 > 1e-6 || state.ce > 1e-6;
+}
+
+/** Population threshold Ce by drug, target depth and interaction selection */
+const populationThresholds = new Map<string, number | null>();
+
+/** Bisection for the population-potency Ce reaching `effect` with the drug alone */
+function populationThresholdCe(name: string, effect: number, selection: InteractionSelection): number | null {
+  const key = `${name}|${effect}|${JSON.stringify(selection)}`;
+  const cached = populationThresholds.get(key);
+  if (cached !== undefined) return cached;
+
+  const effectAt = (ce: number) => sedationDepth(evaluateResponseSurface({ [name]: ce }, selection));
+  let hi = 1;
+  for (let i = 0; i < 20 && effectAt(hi) < effect; i++) hi *= 2;
+  let threshold: number | null = null;
+  if (effectAt(hi) >= effect) {
+    let lo = 0;
+    for (let i = 0; i < 50; i++) {
+      const mid = (lo + hi) / 2;
+      if (effectAt(mid) < effect) lo = mid;
+      else hi = mid;
+    }
+    threshold = hi;
+  }
+  populationThresholds.set(key, threshold);
+  return threshold;
+}
+
+/**
+ * Ce at which a single drug, given alone, produces the target sedation
+ * depth, scaled by the patient's potency like sedationEndpoints. Null when
+ * the drug cannot reach it (an opioid alone stays drowsy at most). The
+ * search depends only on the drug and selection, so it is cached.
+ */
+export function soloThresholdCe(
+  name: string,
+  drug: DrugParams,
+  effect = EMERGENCE_EFFECT_THRESHOLD,
+  selection: InteractionSelection = DEFAULT_INTERACTION_MODELS
+): number | null {
+  const threshold = populationThresholdCe(name, effect, selection);
+  return threshold === null ? null : threshold * potencyRatio(name, drug);
+}
+
+/** Seconds until predicate holds with the pump off, or null beyond the horizon */
+function timeUntil(state: PKState, drug: DrugParams, done: (s: PKState) => boolean): number | null {
+  let s = state;
+  for (let t = 0; t <= FORECAST_HORIZON_S; t += FORECAST_STEP_S) {
+    if (done(s)) return t;
+    s = advancePK(s, drug, 0, FORECAST_STEP_S);
+  }
+  return null;
+}
+
+/**
+ * Context-sensitive half-time of the classic definition: plasma held
+ * constant by a plasma-targeted infusion for `contextSeconds`, then stopped.
+ * Returns seconds for Cp to fall 50%.
+ */
+export function contextSensitiveHalfTime(drug: DrugParams, contextSeconds: number): number | null {
+  const target = 1;
+  let s = createInitialPKState();
+  for (let t = 0; t < contextSeconds; t += CSHT_CONTEXT_STEP_S) {
+    const dt = Math.min(CSHT_CONTEXT_STEP_S, contextSeconds - t);
+    const cmd = computeTCICommand(s, drug, { targetSite: 'plasma', target }, dt);
+    s = advancePK(applyBolus(s, drug, cmd.bolus), drug, cmd.rate, dt);
+  }
+  return timeUntil(s, drug, x => x.c1 <= s.c1 / 2);
+}
+
+/**
+ * Time until the sedation depth of all drugs falls below the emergence
+ * threshold. Also returns the sampled trajectory for display.
+ */
+function projectEmergence(
+  pkStates: Record<string, PKState>,
+  drugParams: Record<string, DrugParams>,
+  rates: Record<string, number>,
+  threshold: number,
+  selection: InteractionSelection
+): { time: number | null; trajectory: WakeUpTrajectoryPoint[] } {
+  let states = { ...pkStates };
+  const trajectory: WakeUpTrajectoryPoint[] = [];
+  let time: number | null = null;
+
+  for (let t = 0; t <= FORECAST_HORIZON_S; t += FORECAST_STEP_S) {
+    const eff = sedationDepth(sedationEndpoints(states, drugParams, selection));
+    if (t <= TRAJECTORY_HORIZON_S && t % TRAJECTORY_SAMPLE_S === 0) {
+      trajectory.push({ secondsAhead: t, combinedEffect: eff, moass: effectToMOASS(eff) });
+    }
+    if (time === null && eff < threshold) time = t;
+    if (time !== null && t >= TRAJECTORY_HORIZON_S) break;
+
+    const next: Record<string, PKState> = {};
+    for (const [name, s] of Object.entries(states)) {
+      next[name] = advancePK(s, drugParams[name], rates[name] ?? 0, FORECAST_STEP_S);
+    }
+    states = next;
+  }
+  return { time, trajectory };
+}
+
+/**
+ * Wake-up forecast from the current PK states.
+ * @param pkStates Current compartment concentrations
+ * @param infusions Running infusions (current rate is held constant)
+ * @param drugParams Patient-specific parameters for every drug in pkStates
+ * @param ceThresholds Optional per-drug Ce thresholds overriding the
+ *   solo-drug emergence concentration
+ * @param selection Interaction model per drug pair
+ */
+export function forecastWakeUp(
+  pkStates: Record<string, PKState>,
+  infusions: InfusionRates,
+  drugParams: Record<string, DrugParams>,
+  ceThresholds: Record<string, number> = {},
+  selection: InteractionSelection = DEFAULT_INTERACTION_MODELS
+): WakeUpForecast {
+  const rates: Record<string, number> = {};
+  const active: Record<string, PKState> = {};
+  for (const [name, state] of Object.entries(pkStates)) {
+    if (!drugParams[name] || !isSedativeDrug(drugParams[name])) continue;
+    const rate = infusions[name]?.isRunning ? infusions[name].rate : 0;
+    if (rate > 0) rates[name] = rate;
+    if (rate > 0 || isActive(state)) active[name] = state;
+  }
+
+  const drugs: Record<string, DrugWakeUpForecast> = {};
+  for (const [name, state] of Object.entries(active)) {
+    const drug = drugParams[name];
+    const thresholdCe = ceThresholds[name] ?? soloThresholdCe(name, drug, EMERGENCE_EFFECT_THRESHOLD, selection);
+    drugs[name] = {
+      contextSensitiveHalfTime: state.c1 > 1e-6 ? timeUntil(state, drug, s => s.c1 <= state.c1 / 2) : null,
+      thresholdCe,
+      timeToThreshold: thresholdCe === null ? null : timeUntil(state, drug, s => s.ce < thresholdCe),
+    };
+  }
+
+  const running = projectEmergence(active, drugParams, rates, EMERGENCE_EFFECT_THRESHOLD, selection);
+  const stopped = Object.keys(rates).length > 0
+    ? projectEmergence(active, drugParams, {}, EMERGENCE_EFFECT_THRESHOLD, selection)
+    : running;
+
+  return {
+    drugs,
+    timeToEmergence: running.time,
+    timeToEmergenceIfStopped: stopped.time,
+    trajectory: running.trajectory,
+  };
+}
@@ -7,6 +7,11 @@ import { BLS_SCENARIOS_ARRAY } from './scenarios/blsScenarios';
 import type { SedSimScenario } from './SedSimCase.types';
 import colonoscopyAsa1Json from './scenarios/colonoscopy_asa1.json';
 import colonoscopyAsa3Json from './scenarios/colonoscopy_asa3_chf_sensitive.json';
+import aclsVfibArrestJson from './scenarios/acls_vfib_arrest.json';
+import aclsPulselessVtachJson from './scenarios/acls_pulseless_vtach.json';
+import aclsAsystoleJson from './scenarios/acls_asystole.json';
+import aclsPeaJson from './scenarios/acls_pea.json';
+import aclsBradycardiaHeartBlockJson from './scenarios/acls_bradycardia_heart_block.json';
 
 // Convert JSON scenarios to InteractiveScenario (with jsonSource attached for scoring)
 function fromJson(raw: unknown): InteractiveScenario {
@@ -18,10 +23,20 @@ function fromJson(raw: unknown): InteractiveScenario {
 
 export const COLONOSCOPY_ASA1: InteractiveScenario = fromJson(colonoscopyAsa1Json);
 export const COLONOSCOPY_ASA3_CHF: InteractiveScenario = fromJson(colonoscopyAsa3Json);
+export const ACLS_VFIB_ARREST: InteractiveScenario = fromJson(aclsVfibArrestJson);
+export const ACLS_PULSELESS_VTACH: InteractiveScenario = fromJson(aclsPulselessVtachJson);
+export const ACLS_ASYSTOLE: InteractiveScenario = fromJson(aclsAsystoleJson);
+export const ACLS_PEA: InteractiveScenario = fromJson(aclsPeaJson);
+export const ACLS_BRADYCARDIA_HEART_BLOCK: InteractiveScenario = fromJson(aclsBradycardiaHeartBlockJson);
 
 export const JSON_SCENARIOS: InteractiveScenario[] = [
   COLONOSCOPY_ASA1,
   COLONOSCOPY_ASA3_CHF,
+  ACLS_VFIB_ARREST,
+  ACLS_PULSELESS_VTACH,
+  ACLS_ASYSTOLE,
+  ACLS_PEA,
+  ACLS_BRADYCARDIA_HEART_BLOCK,
 ];
 
 export const INTERACTIVE_SCENARIOS: InteractiveScenario[] = [
@@ -0,0 +1,81 @@
+import { DrugParams, Patient, PKState } from '../types';
+import { stepPK } from './pkModel';
+import { applyOrganFunction } from './organFunction';
+
+/**
+ * Active Metabolites
+ * Metabolites formed from the parent drug's elimination, each with its own
+ * one-compartment PK and effect site. The amount formed per step is the
+ * parent amount cleared from V1 times the metabolic yield:
+ *
+ *   formed = yield · k10 · c1 · V1 · dt
+ *
+ * α-Hydroxymidazolam (lumped with its glucuronide, which is also active)
+ * is cleared by the kidney. With normal renal function it adds little to a
+ * sedation dose; in renal failure it accumulates and prolongs sedation
+ * well after midazolam itself has redistributed.
+ *
+ * References:
+ *   Bauer TM et al. Lancet 1995;346:145-147 (prolonged sedation from conjugated α-OH-midazolam)
+ *   Mandema JW et al. Clin Pharmacol Ther 1992;51:715-728 (α-OH-midazolam PK/PD)
+ */
+
+export interface MetaboliteDefinition {
+  parent: string;       // DRUG_DATABASE key of the parent drug
+  yield: number;        // fraction of parent clearance forming this metabolite (mass)
+  params: DrugParams;
+}
+
+// α-Hydroxymidazolam + glucuronide - ~0.5x midazolam potency, renal elimination
+export const hydroxymidazolam: DrugParams = {
+  name: 'Hydroxymidazolam',
+  color: '#a78bfa',  // light violet
+  k10: 0.0115,  // t1/2 ~60 min with normal renal function
+  k12: 0,
+  k13: 0,
+  k21: 0,
+  k31: 0,
+  ke0: 0.1,
+  V1: 20,
+  EC50: 0.4,    // mcg/mL
+  gamma: 1.5,
+  unit: 'mg',
+};
+
+/** Keyed by metabolite key */
+export const METABOLITES: Record<string, MetaboliteDefinition> = {
+  hydroxymidazolam: { parent: 'midazolam', yield: 0.7, params: hydroxymidazolam },
+};
+
+export const INITIAL_METABOLITE_STATES: Record<string, PKState> = Object.fromEntries(
+  Object.keys(METABOLITES).map(key => [key, { c1: 0, c2: 0, c3: 0, ce: 0 }])
+);
+
+/** Metabolite parameters with elimination scaled to the patient's organ function */
+export function resolveMetaboliteParams(patient: Patient): Record<string, DrugParams> {
+  return Object.fromEntries(
+    Object.entries(METABOLITES).map(([key, m]) => [key, applyOrganFunction(key, m.params, patient)])
+  );
+}
+
+/**
+ * Advance metabolite states by dt seconds, forming each from its parent's
+ * elimination between `prevParents` and `parents`.
+ */
+export function stepMetabolites(
+  states: Record<string, PKState>,
+  prevParents: Record<string, PKState>,
+  parents: Record<string, PKState>,
+  parentParams: Record<string, DrugParams>,
+  metaboliteParams: Record<string, DrugParams>,
+  dt: number = 1
+): Record<string, PKState> {
+  const next: Record<string, PKState> = {};
+  for (const [key, m] of Object.entries(METABOLITES)) {
+    const parent = parentParams[m.parent];
+    const c1 = ((prevParents[m.parent]?.c1 ?? 0) + (parents[m.parent]?.c1 ?? 0)) / 2;
+    const formed = parent ? m.yield * parent.k10 * c1 * parent.V1 * dt / 60 : 0;
+    next[key] = stepPK(states[key] ?? INITIAL_METABOLITE_STATES[key], metaboliteParams[key], formed, 0, dt);
+  }
+  return next;
+}
@@ -0,0 +1,235 @@
+import { Patient, PKState } from '../types';
+import { cardiacPhenotype } from './circulation';
+import { DRUG_DATABASE } from './drugs';
+import { STDeviation, NORMAL_MORPHOLOGY, leadSTDeviation } from './twelveLeadECG';
+
+/**
+ * Myocardial Ischemia
+ * Myocardial oxygen supply against demand, and the ischemia burden that
+ * sustained imbalance accumulates.
+ *
+ *   demand = HR · SBP / 9000                     (rate-pressure product vs rest)
+ *   supply = CPP/70 · f_dia/f_dia,rest · SpO2/98 (CPP = DBP − stenosis gradient − LVEDP)
+ *   index  = demand / (supply · coronary flow reserve)
+ *
+ * The left ventricle is perfused in diastole, so tachycardia costs supply
+ * twice: it raises demand and shortens diastole. Autoregulatory coronary
+ * vasodilation can raise flow about threefold in a healthy heart. A
+ * flow-limiting stenosis drops the distal perfusion pressure and has
+ * already spent part of that reserve; cardiomyopathy and age reduce it
+ * too. The same propofol-induced fall in diastolic pressure that a healthy
+ * heart absorbs therefore makes a coronary or failing heart ischemic.
+ *
+ * While the index exceeds 1 the burden (0-1) rises in proportion to the
+ * excess; once balance is restored it recovers over minutes. The burden
+ * depresses contractility (circulation.ts), produces subendocardial ST
+ * depression, and transmural ST elevation in the culprit territory of a
+ * stenosed vessel when severe (twelveLeadECG.ts), and drives ectopy and
+ * ventricular tachycardia (cardiacRhythm.ts).
+ *
+ * References:
+ *   Hoffman JIE, Buckberg GD. Am J Cardiol 1978;41:327-332 (subendocardial supply/demand)
+ *   Gobel FL et al. Circulation 1978;57:549-556 (rate-pressure product)
+ *   Boudoulas H et al. Circulation 1979;60:164-169 (diastolic time and heart rate)
+ *   Gould KL, Lipscomb K. Am J Cardiol 1974;34:48-55 (coronary flow reserve)
+ */
+
+export type IschemiaCause = 'demand' | 'supply' | 'hypoxemia';
+
+export interface MyocardialO2Balance {
+  supply: number;            // coronary O2 delivery relative to a healthy resting heart
+  demand: number;            // rate-pressure product relative to rest
+  index: number;             // demand / (supply · reserve); > 1 is ischemic
+  cpp: number;               // coronary perfusion pressure beyond any stenosis, mmHg
+  diastolicFraction: number; // share of each cycle spent in diastole
+  rpp: number;               // rate-pressure product, mmHg/min
+  cause: IschemiaCause;      // limb furthest from rest
+}
+
+export interface IschemiaState {
+  burden: number;                      // 0-1 accumulated ischemia
+  balance: MyocardialO2Balance;        // this step's supply and demand
+  episodeCause: IschemiaCause | null;  // dominant cause when the current episode began
+  episodeStart: number | null;         // simulation seconds
+  peakBurden: number;                  // highest burden this session
+}
+
+export type IschemiaTransition = 'onset' | 'transmural' | 'resolved';
+
+export interface CoronaryCirculation {
+  reserve: number;           // maximal flow relative to rest
+  stenosisGradient: number;  // pressure lost across a flow-limiting stenosis, mmHg
+}
+
+export interface Hemodynamics {
+  hr: number;
+  sbp: number;
+  dbp: number;
+  edp: number;  // LV end-diastolic pressure, mmHg
+}
+
+const REST_RPP = 75 * 120;
+const REST_CPP = 70;
+const REST_SPO2 = 98;
+/** Coronary flow reserve of a healthy heart, and of one beyond a flow-limiting stenosis */
+const HEALTHY_RESERVE = 3.0;
+const STENOSED_RESERVE = 2.0;
+const STENOSIS_GRADIENT = 15;
+const HEALTHY_CORONARIES: CoronaryCirculation = { reserve: HEALTHY_RESERVE, stenosisGradient: 0 };
+/** Burden per second at twice the flow the reserve can supply (full burden in a minute) */
+const ONSET_RATE = 1 / 60;
+/** Burden recovery per second once demand is 25% inside the supply (τ = 2 min) */
+const RECOVERY_RATE = 1 / 120;
+const RECOVERY_MARGIN = 0.25;
+/** Burden at which an episode is logged (≈ 0.5 mm ST depression), and below which it has resolved */
+export const ISCHEMIA_ONSET = 0.25;
+const ISCHEMIA_RESOLVED = 0.05;
+/** Burden beyond which a stenosed vessel's territory becomes transmurally ischemic */
+export const TRANSMURAL_BURDEN = 0.6;
+/** Subendocardial injury current (mV) and culprit-territory elevation (mV) at full burden */
+const SUBENDOCARDIAL_ST = -0.25;
+const TRANSMURAL_ST = 0.3;
+
+/** Electromechanical systole shortens with rate (s), diastole shortens more */
+export function diastolicFraction(hr: number): number {
+  if (hr <= 0) return 0;
+  const systole = Math.max(0.2, 0.5 - 0.0015 * hr);
+  return Math.max(0.1, 1 - hr * systole / 60);
+}
+
+const REST_DIASTOLIC_FRACTION = diastolicFraction(75);
+
+/** How far coronary flow can rise above rest, and the pressure a stenosis costs */
+export function coronaryCirculation(patient: Patient): CoronaryCirculation {
+  let reserve = patient.coronaryDisease ? STENOSED_RESERVE : HEALTHY_RESERVE;
+  // Hypertrophied and failing ventricles: high wall stress, compressed subendocardium
+  if (cardiacPhenotype(patient) !== 'normal') reserve *= 0.8;
+  if (patient.age > 65) reserve *= 0.9;
+  return { reserve, stenosisGradient: patient.coronaryDisease ? STENOSIS_GRADIENT : 0 };
+}
+
+/** Supply, demand and their ratio for one set of hemodynamics */
+export function myocardialO2Balance(
+  hemodynamics: Hemodynamics,
+  spo2: number,
+  coronaries: CoronaryCirculation
+): MyocardialO2Balance {
+  const { hr, sbp, dbp, edp } = hemodynamics;
+  const cpp = Math.max(0, dbp - coronaries.stenosisGradient - edp);
+  const dia = diastolicFraction(hr);
+  const rpp = hr * sbp;
+  const pressureSupply = (cpp / REST_CPP) * (dia / REST_DIASTOLIC_FRACTION);
+  const oxygenSupply = Math.max(0, spo2) / REST_SPO2;
+  const supply = pressureSupply * oxygenSupply;
+  const demand = rpp / REST_RPP;
+
+  // The limb that has moved furthest from rest
+  const loads: [IschemiaCause, number][] = [
+    ['demand', demand],
+    ['supply', 1 / Math.max(pressureSupply, 1e-3)],
+    ['hypoxemia', 1 / Math.max(oxygenSupply, 1e-3)],
+  ];
+  const cause = loads.reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+
+  return {
+    supply,
+    demand,
+    index: demand / Math.max(supply * coronaries.reserve, 1e-3),
+    cpp,
+    diastolicFraction: dia,
+    rpp,
+    cause,
+  };
+}
+
+export const NO_ISCHEMIA: IschemiaState = {
+  burden: 0,
+  balance: myocardialO2Balance({ hr: 75, sbp: 120, dbp: 78, edp: 8 }, REST_SPO2, HEALTHY_CORONARIES),
+  episodeCause: null,
+  episodeStart: null,
+  peakBurden: 0,
+};
+
+/**
+ * Advance the burden by `dt` seconds under this step's balance. Returns the
+ * episode transitions crossed: onset, transmural extension in a patient
+ * with a culprit territory, and resolution.
+ */
+export function stepIschemia(
+  state: IschemiaState,
+  balance: MyocardialO2Balance,
+  patient: Patient,
+  time: number,
+  dt: number = 1
+): { state: IschemiaState; transitions: IschemiaTransition[] } {
+  const excess = balance.index - 1;
+  const burden = excess > 0
+    ? Math.min(1, state.burden + excess * ONSET_RATE * dt)
+    : state.burden * Math.exp(-Math.min(1, -excess / RECOVERY_MARGIN) * RECOVERY_RATE * dt);
+
+  const transitions: IschemiaTransition[] = [];
+  let { episodeCause, episodeStart } = state;
+  if (episodeStart === null && burden >= ISCHEMIA_ONSET) {
+    transitions.push('onset');
+    episodeCause = balance.cause;
+    episodeStart = time;
+  }
+  const hasCulprit = patient.coronaryDisease && patient.culpritTerritory !== undefined;
+  if (hasCulprit && state.burden < TRANSMURAL_BURDEN && burden >= TRANSMURAL_BURDEN) {
+    transitions.push('transmural');
+  }
+  if (episodeStart !== null && burden < ISCHEMIA_RESOLVED) {
+    transitions.push('resolved');
+    episodeCause = null;
+    episodeStart = null;
+  }
+
+  return {
+    state: { burden, balance, episodeCause, episodeStart, peakBurden: Math.max(state.peakBurden, burden) },
+    transitions,
+  };
+}
+
+/**
+ * Injury currents for the burden: diffuse subendocardial depression, plus
+ * elevation facing the culprit territory of a stenosed vessel once severe.
+ */
+export function ischemicST(burden: number, patient: Patient): STDeviation[] {
+  if (burden <= 0) return [];
+  const st: STDeviation[] = [{ territory: 'subendocardial', deviation: SUBENDOCARDIAL_ST * burden }];
+  if (patient.coronaryDisease && patient.culpritTerritory && burden > TRANSMURAL_BURDEN) {
+    st.push({
+      territory: patient.culpritTerritory,
+      deviation: TRANSMURAL_ST * (burden - TRANSMURAL_BURDEN) / (1 - TRANSMURAL_BURDEN),
+    });
+  }
+  return st;
+}
+
+/** ST deviation (mV) on the monitor's lead II */
+export function monitorSTDeviation(burden: number, patient: Patient): number {
+  return leadSTDeviation({ ...NORMAL_MORPHOLOGY, st: ischemicST(burden, patient) }, 'II');
+}
+
+/**
+ * Drugs that drive each limb of the imbalance, with the effect-site
+ * concentration from which they count (about half their hemodynamic or
+ * respiratory EC50; mcg/mL, fentanyl ng/mL).
+ */
+const ISCHEMIA_DRIVERS: Record<IschemiaCause, Record<string, number>> = {
+  // Arteriolar and venous dilation lower diastolic pressure
+  supply: { propofol: 1.7, midazolam: 0.075, dexmedetomidine: 0.3 },
+  // Chronotropy and pressor response raise the rate-pressure product
+  demand: { ketamine: 0.25, epinephrine: 0.001, ephedrine: 0.04, atropine: 0.0015, glycopyrrolate: 0.001 },
+  // Respiratory depression
+  hypoxemia: { propofol: 1.5, midazolam: 0.07, fentanyl: 1.5, methadone: 0.12 },
+};
+
+/** Display names of the drugs on board that drive `cause`, strongest first */
+export function ischemiaDrivers(pkStates: Record<string, PKState>, cause: IschemiaCause): string[] {
+  return Object.entries(ISCHEMIA_DRIVERS[cause])
+    .map(([drug, threshold]) => ({ drug, ratio: (pkStates[drug]?.ce ?? 0) / threshold }))
+    .filter(({ ratio }) => ratio >= 1)
+    .sort((a, b) => b.ratio - a.ratio)
+    .map(({ drug }) => DRUG_DATABASE[drug]?.name ?? drug);
+}
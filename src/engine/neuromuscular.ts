@@ -0,0 +1,127 @@
+import { PKState } from '../types';
+import { rocuronium, succinylcholine, sugammadex } from './drugs';
+import { hillEffect } from './pdModel';
+
+/**
+ * Neuromuscular Blockade
+ * Twitch response to train-of-four (TOF) stimulation of the ulnar nerve from
+ * the relaxant effect-site concentrations, and the block of the respiratory
+ * muscles that removes spontaneous breathing.
+ *
+ * Each of the four twitches is a Hill function of the effect-site
+ * concentration. Succinylcholine (depolarizing, phase I) depresses all four
+ * equally: no fade, TOF ratio stays near 1 while the count falls. Rocuronium
+ * (non-depolarizing) has progressively lower EC50 for T2-T4 as prejunctional
+ * acetylcholine mobilisation fails, producing fade: T4 disappears first and
+ * returns last.
+ *
+ * The diaphragm is more resistant than the adductor pollicis (~1.5-2x the
+ * concentration for the same block), so breathing returns before the TOF
+ * ratio recovers - the residual-block window.
+ *
+ * Sugammadex encapsulates rocuronium 1:1 (molar) in plasma; the free
+ * rocuronium gradient then draws drug out of the effect site and tissues.
+ * A dose short of the rocuronium load binds only part of it, and block
+ * returns as the tissue depot redistributes.
+ *
+ * References:
+ *   Wierda JM et al. Can J Anaesth 1991;38:430-435 (rocuronium PK/PD)
+ *   Donati F et al. Anesthesiology 1990;73:870-875 (diaphragm vs adductor pollicis)
+ *   Ali HH, Savarese JJ. Anesthesiology 1976;45:216-249 (TOF fade)
+ *   Gijsenbergh F et al. Anesthesiology 2005;103:695-703 (sugammadex)
+ */
+
+export interface NeuromuscularState {
+  /** Twitch heights T1-T4 as a fraction of control */
+  twitches: [number, number, number, number];
+  /** Visible twitches, 0-4 */
+  tofCount: number;
+  /** T4/T1, only measurable with four twitches */
+  tofRatio: number | null;
+  /** 0-1 T1 depression at the adductor pollicis */
+  block: number;
+  /** 0-1 respiratory muscle block, removes spontaneous drive */
+  paralysis: number;
+  /** Depolarizing (succinylcholine) block dominates */
+  depolarizing: boolean;
+}
+
+export const NO_NEUROMUSCULAR_BLOCK: NeuromuscularState = {
+  twitches: [1, 1, 1, 1],
+  tofCount: 4,
+  tofRatio: 1,
+  block: 0,
+  paralysis: 0,
+  depolarizing: false,
+};
+
+/** Rocuronium EC50 multipliers for T1-T4 (fade) */
+const FADE = [1, 0.85, 0.72, 0.6];
+/** Twitch height below which the twitch is not seen or felt */
+const VISIBLE_TWITCH = 0.1;
+/** Diaphragm : adductor pollicis EC50 ratio */
+const DIAPHRAGM_RESISTANCE = { succinylcholine: 1.3, rocuronium: 1.4 };
+/** Molecular weights, g/mol */
+const MW_ROCURONIUM = 529.8;
+const MW_SUGAMMADEX = 2178;
+/** Maximum rate of effect-site rocuronium capture by free sugammadex, 1/min */
+const JUNCTION_CAPTURE = 1.5;
+/** Free sugammadex (µmol/L) for half-maximal capture */
+const JUNCTION_CAPTURE_C50 = 10;
+
+/** TOF response and respiratory muscle block from the relaxant effect-site concentrations */
+export function assessNeuromuscular(pkStates: Record<string, PKState>): NeuromuscularState {
+  const sux = pkStates.succinylcholine?.ce ?? 0;
+  const roc = pkStates.rocuronium?.ce ?? 0;
+  if (sux <= 0 && roc <= 0) return NO_NEUROMUSCULAR_BLOCK;
+
+  const suxBlock = hillEffect(sux, succinylcholine.EC50, succinylcholine.gamma);
+  const twitches = FADE.map(f =>
+    (1 - suxBlock) * (1 - hillEffect(roc, rocuronium.EC50 * f, rocuronium.gamma))
+  ) as NeuromuscularState['twitches'];
+  const tofCount = twitches.filter(h => h >= VISIBLE_TWITCH).length;
+
+  const paralysis = 1 -
+    (1 - hillEffect(sux, succinylcholine.EC50 * DIAPHRAGM_RESISTANCE.succinylcholine, succinylcholine.gamma)) *
+    (1 - hillEffect(roc, rocuronium.EC50 * DIAPHRAGM_RESISTANCE.rocuronium, rocuronium.gamma));
+
+  return {
+    twitches,
+    tofCount,
+    tofRatio: tofCount === 4 ? twitches[3] / twitches[0] : null,
+    block: 1 - twitches[0],
+    paralysis,
+    depolarizing: suxBlock > hillEffect(roc, rocuronium.EC50, rocuronium.gamma),
+  };
+}
+
+/**
+ * Bind plasma rocuronium to sugammadex, 1:1 by moles, then let the free
+ * sugammadex that reaches the extracellular fluid capture rocuronium at the
+ * junction over dt seconds. Central concentrations are amount / V1
+ * (mcg/mL = mg/L), so both are converted to amounts first.
+ */
+export function encapsulateRocuronium(
+  roc: PKState,
+  sug: PKState,
+  dt: number = 1,
+  rocV1: number = rocuronium.V1,
+  sugV1: number = sugammadex.V1
+): { rocuronium: PKState; sugammadex: PKState } {
+  const rocMmol = roc.c1 * rocV1 / MW_ROCURONIUM;
+  const sugMmol = sug.c1 * sugV1 / MW_SUGAMMADEX;
+  const bound = Math.min(rocMmol, sugMmol);
+  if (bound <= 0) return { rocuronium: roc, sugammadex: sug };
+
+  const freeSugMmol = sugMmol - bound;
+  const freeSugMicromolar = freeSugMmol / sugV1 * 1000;
+  const capture = JUNCTION_CAPTURE * freeSugMicromolar / (freeSugMicromolar + JUNCTION_CAPTURE_C50);
+  return {
+    rocuronium: {
+      ...roc,
+      c1: (rocMmol - bound) * MW_ROCURONIUM / rocV1,
+      ce: roc.ce * Math.exp(-capture * dt / 60),
+    },
+    sugammadex: { ...sug, c1: freeSugMmol * MW_SUGAMMADEX / sugV1 },
+  };
+}
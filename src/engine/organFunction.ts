@@ -0,0 +1,101 @@
+import { DrugParams, Patient } from '../types';
+import { cardiacPhenotype } from './circulation';
+
+/**
+ * Organ Function and Drug Clearance
+ * Scales each drug's elimination rate constant (k10) by the function of the
+ * organs that clear it.
+ *
+ * Total clearance is split by pathway: hepatic, renal and the remainder
+ * (plasma esterases, lungs, tissues), which organ disease leaves unchanged.
+ * Hepatic clearance of high-extraction drugs (propofol, fentanyl, ketamine,
+ * lidocaine) is limited by liver blood flow, so it falls in low-output
+ * heart failure; low-extraction drugs (midazolam, dexmedetomidine,
+ * bupivacaine) depend on intrinsic enzyme capacity, which falls in
+ * cirrhosis. Renal clearance follows GFR.
+ *
+ *   k10' = k10 · (fh · hepatic + fr · renal + (1 − fh − fr))
+ *
+ * References:
+ *   Wilkinson GR, Shand DG. Clin Pharmacol Ther 1975;18:377-390 (hepatic clearance)
+ *   MacGilchrist AJ et al. Gut 1986;27:190-195 (midazolam in cirrhosis)
+ *   Servin F et al. Anesthesiology 1988;69:887-891 (propofol in cirrhosis)
+ *   Thomson PD et al. Ann Intern Med 1973;78:499-508 (lidocaine in heart failure)
+ *   Bauer TM et al. Lancet 1995;346:145-147 (midazolam metabolites in renal failure)
+ */
+
+export interface EliminationPathway {
+  hepatic: number;           // fraction of clearance by the liver
+  renal: number;             // fraction of clearance by the kidney
+  highExtraction?: boolean;  // hepatic clearance limited by liver blood flow
+}
+
+export interface OrganFunction {
+  hepaticCapacity: number;  // intrinsic metabolic capacity, 1 = normal
+  hepaticFlow: number;      // liver blood flow, 1 = normal
+  renal: number;            // GFR, 1 = normal
+}
+
+export const NORMAL_ORGAN_FUNCTION: OrganFunction = {
+  hepaticCapacity: 1,
+  hepaticFlow: 1,
+  renal: 1,
+};
+
+/** Intrinsic hepatic capacity in cirrhosis (Child-Pugh B) */
+export const IMPAIRED_HEPATIC_CAPACITY = 0.5;
+/** GFR in renal impairment (CKD stage 4) */
+export const IMPAIRED_RENAL_FUNCTION = 0.3;
+/** Liver blood flow and GFR in low-output heart failure */
+const HEART_FAILURE_HEPATIC_FLOW = 0.6;
+const HEART_FAILURE_RENAL_FUNCTION = 0.75;
+
+/** Keyed by DRUG_DATABASE / metabolite key; drugs not listed are cleared outside liver and kidney */
+export const ELIMINATION_PATHWAYS: Record<string, EliminationPathway> = {
+  propofol: { hepatic: 0.7, renal: 0, highExtraction: true },  // ~30% extrahepatic (kidney, lung)
+  midazolam: { hepatic: 1, renal: 0 },
+  fentanyl: { hepatic: 1, renal: 0, highExtraction: true },
+  ketamine: { hepatic: 1, renal: 0, highExtraction: true },
+  dexmedetomidine: { hepatic: 1, renal: 0 },
+  naloxone: { hepatic: 1, renal: 0, highExtraction: true },
+  flumazenil: { hepatic: 1, renal: 0, highExtraction: true },
+  lidocaine_epi: { hepatic: 1, renal: 0, highExtraction: true },
+  bupivacaine: { hepatic: 1, renal: 0 },
+  atropine: { hepatic: 0.5, renal: 0.5 },
+  glycopyrrolate: { hepatic: 0.2, renal: 0.8 },
+  ephedrine: { hepatic: 0.4, renal: 0.6 },
+  rocuronium: { hepatic: 0.7, renal: 0.3 },  // biliary excretion
+  sugammadex: { hepatic: 0, renal: 1 },
+  ondansetron: { hepatic: 0.95, renal: 0.05 },
+  droperidol: { hepatic: 0.9, renal: 0.1 },
+  haloperidol: { hepatic: 1, renal: 0 },
+  methadone: { hepatic: 0.8, renal: 0.2 },
+  amiodarone: { hepatic: 1, renal: 0 },
+  hydroxymidazolam: { hepatic: 0, renal: 1 },  // glucuronide excreted in urine
+};
+
+/** Organ function implied by the patient's comorbidities */
+export function organFunction(patient: Patient): OrganFunction {
+  const chf = cardiacPhenotype(patient) === 'chf';
+  return {
+    hepaticCapacity: patient.hepaticImpairment ? IMPAIRED_HEPATIC_CAPACITY : 1,
+    hepaticFlow: chf ? HEART_FAILURE_HEPATIC_FLOW : 1,
+    renal: (patient.renalImpairment ? IMPAIRED_RENAL_FUNCTION : 1) * (chf ? HEART_FAILURE_RENAL_FUNCTION : 1),
+  };
+}
+
+/** Fraction of normal clearance remaining for a drug's elimination pathway */
+export function clearanceFactor(pathway: EliminationPathway | undefined, organs: OrganFunction): number {
+  if (!pathway) return 1;
+  // Portosystemic shunting lowers extraction of flow-limited drugs as well
+  const hepatic = pathway.highExtraction
+    ? organs.hepaticFlow * (0.5 + 0.5 * organs.hepaticCapacity)
+    : organs.hepaticCapacity;
+  return pathway.hepatic * hepatic + pathway.renal * organs.renal + (1 - pathway.hepatic - pathway.renal);
+}
+
+/** Drug parameters with k10 scaled to the patient's organ function */
+export function applyOrganFunction(drugKey: string, drug: DrugParams, patient: Patient): DrugParams {
+  const factor = clearanceFactor(ELIMINATION_PATHWAYS[drugKey], organFunction(patient));
+  return factor === 1 ? drug : { ...drug, k10: drug.k10 * factor };
+}
@@ -0,0 +1,221 @@
+import { Patient, AirwayDevice, PatientPosition } from '../types';
+import { APNEIC_PACO2_RISE } from './ventilation';
+
+/**
+ * Lung Oxygen Store
+ * Alveolar O2 is a mass balance over the FRC: alveolar ventilation brings
+ * inspired O2 in, pulmonary uptake (VO2) removes it. During apnea, gas drawn
+ * in to replace absorbed O2 (apneic mass flow) carries pharyngeal O2, so
+ * desaturation depends on the O2 already in the FRC (preoxygenation), its
+ * size (obesity, pregnancy, supine position) and the patient's VO2.
+ * Arterial saturation follows the end-capillary saturation diluted by the
+ * shunt fraction.
+ *
+ * FAO2 is tracked as the O2 fraction of CO2-free alveolar gas, so
+ * PAO2 = FAO2 · (PB − PH2O − PaCO2).
+ *
+ * References:
+ *   Farmery AD, Roe PG. Br J Anaesth 1996;76:284-291 (apneic desaturation model)
+ *   Benumof JL et al. Anesthesiology 1997;87:979-982 (desaturation by patient type)
+ *   Pelosi P et al. Anesth Analg 1998;87:654-660 (FRC falls exponentially with BMI)
+ *   Quanjer PH et al. Eur Respir J 1993;6 Suppl 16:5-40 (FRC reference equations)
+ */
+
+const PB = 760;
+const PH2O = 47;
+const P50 = 26.6;
+const HILL_N = 2.7;
+/** Arterio-venous saturation difference used for shunt admixture (%) */
+const AV_SAT_DIFFERENCE = 25;
+/** Pulse oximeter averaging / circulation delay (s) */
+const OXIMETER_TAU = 15;
+
+const POSITION_FRC_FACTOR: Record<PatientPosition, number> = {
+  supine: 0.75,
+  lateral: 0.85,
+  semi_upright: 0.9,
+};
+
+/** Variable-performance devices: delivered FiO2 depends on the patient's inspiratory flow */
+const VARIABLE_PERFORMANCE_CEILING: Partial<Record<AirwayDevice, number>> = {
+  nasal_cannula: 0.6,
+  nasal_hood: 0.6,
+  simple_mask: 0.6,
+  nonrebreather: 0.9,
+};
+
+export interface OxygenStoreParams {
+  frc: number;    // mL
+  vo2: number;    // mL/min
+  shunt: number;  // fraction of cardiac output
+}
+
+export interface OxygenationResult {
+  pAO2: number;  // alveolar PO2 (mmHg)
+  pao2: number;  // arterial PO2 (mmHg)
+  sao2: number;  // arterial saturation (%)
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export function bodyMassIndex(patient: Patient): number {
+  return patient.weight / Math.pow(patient.height / 100, 2);
+}
+
+/**
+ * FRC in mL. Upright reference equations (Quanjer 1993), reduced by
+ * position, exponentially with BMI above 25, and by ~20% in pregnancy.
+ * Small children use ~25 mL/kg where the adult equations fail.
+ */
+export function functionalResidualCapacity(patient: Patient, position: PatientPosition = 'supine'): number {
+  const upright = patient.sex === 'F'
+    ? (0.036 * patient.height + 0.0031 * patient.age - 3.18) * 1000
+    : (0.0472 * patient.height + 0.009 * patient.age - 5.29) * 1000;
+  const reference = Math.max(upright, 25 * patient.weight);
+  const bmi = bodyMassIndex(patient);
+  const obesityFactor = bmi > 25 ? Math.exp(-0.03 * (bmi - 25)) : 1;
+  const pregnancyFactor = patient.pregnant ? 0.8 : 1;
+  return reference * POSITION_FRC_FACTOR[position] * obesityFactor * pregnancyFactor;
+}
+
+/** Resting VO2 in mL/min: Brody allometry, higher in children and pregnancy, lower with age */
+export function oxygenConsumption(patient: Patient): number {
+  const ageFactor = patient.age < 12 ? 1.3 : 1 - 0.003 * Math.max(0, patient.age - 30);
+  const pregnancyFactor = patient.pregnant ? 1.2 : 1;
+  return 10 * Math.pow(patient.weight, 0.75) * ageFactor * pregnancyFactor;
+}
+
+/**
+ * Intrapulmonary shunt: baseline, obesity/OSA atelectasis, COPD,
+ * hypoventilation and the low-V/Q units of bronchospasm (0-1)
+ */
+export function shuntFraction(patient: Patient, alveolarRatio: number, bronchospasm = 0): number {
+  const bmi = bodyMassIndex(patient);
+  let shunt = 0.02;
+  if (bmi > 30) shunt += Math.min(0.06, 0.003 * (bmi - 30));
+  if (patient.osa) shunt += 0.01;
+  if (patient.copd) shunt += 0.06;
+  shunt += 0.03 * clamp(1 - alveolarRatio, 0, 1);
+  shunt += 0.3 * clamp(bronchospasm, 0, 1);
+  return shunt;
+}
+
+export function oxygenStoreParams(
+  patient: Patient,
+  position: PatientPosition,
+  alveolarRatio: number,
+  bronchospasm = 0
+): OxygenStoreParams {
+  return {
+    frc: functionalResidualCapacity(patient, position),
+    vo2: oxygenConsumption(patient),
+    shunt: shuntFraction(patient, alveolarRatio, bronchospasm),
+  };
+}
+
+/**
+ * FiO2 actually inspired. Low-flow devices deliver a fixed O2 flow that is
+ * diluted by the patient's own inspiratory flow: as ventilation falls the
+ * inspired fraction rises toward the device ceiling. Fixed-performance
+ * devices and secured airways deliver the set FiO2.
+ */
+export function deliveredFiO2(device: AirwayDevice, setFio2: number, alveolarRatio: number): number {
+  const ceiling = VARIABLE_PERFORMANCE_CEILING[device];
+  if (ceiling === undefined || setFio2 <= 0.21) return setFio2;
+  return Math.min(ceiling, 0.21 + (setFio2 - 0.21) / Math.max(alveolarRatio, 0.2));
+}
+
+/** Hill O2-Hb dissociation: saturation (%) at a given PO2 */
+export function saturationFromPO2(po2: number): number {
+  if (po2 <= 0) return 0;
+  const pn = Math.pow(po2, HILL_N);
+  return (100 * pn) / (pn + Math.pow(P50, HILL_N));
+}
+
+function po2FromSaturation(sat: number): number {
+  const s = clamp(sat, 0.01, 99.99) / 100;
+  return P50 * Math.pow(s / (1 - s), 1 / HILL_N);
+}
+
+function alveolarPO2(fao2: number, paco2: number): number {
+  return fao2 * Math.max(0, PB - PH2O - paco2);
+}
+
+function alveolarFraction(pAO2: number, paco2: number): number {
+  return clamp(pAO2 / Math.max(1, PB - PH2O - paco2), 0, 1);
+}
+
+/** Steady-state alveolar PO2 for a given ventilation, used to seed the store */
+export function steadyStatePAO2(
+  params: OxygenStoreParams,
+  fio2: number,
+  alveolarVentilation: number,
+  paco2: number
+): number {
+  const fao2 = alveolarVentilation > 0 ? clamp(fio2 - params.vo2 / alveolarVentilation, 0, 1) : fio2;
+  return alveolarPO2(fao2, paco2);
+}
+
+function arterialFromAlveolar(pAO2: number, shunt: number): OxygenationResult {
+  const endCapillary = saturationFromPO2(pAO2);
+  const sao2 = clamp(endCapillary - AV_SAT_DIFFERENCE * shunt / (1 - shunt), 0, 100);
+  return { pAO2, pao2: Math.min(pAO2, po2FromSaturation(sao2)), sao2 };
+}
+
+/**
+ * Advance the lung O2 store by dt seconds.
+ * @param prev Alveolar PO2 and the PaCO2 it was computed with
+ * @param alveolarVentilation mL/min
+ * @param alveolarRatio VA / VA0, sets the apneic mass-flow fraction
+ * @param paco2 Current PaCO2 (mmHg)
+ * @param airflow Upper airway patency (0-1); an obstructed pharynx blocks apneic mass flow
+ */
+export function stepOxygenation(
+  prev: { pAO2: number; paco2: number },
+  params: OxygenStoreParams,
+  fio2: number,
+  alveolarVentilation: number,
+  alveolarRatio: number,
+  paco2: number,
+  airflow = 1,
+  dt = 1
+): OxygenationResult {
+  const fao2 = alveolarFraction(prev.pAO2, prev.paco2);
+  const massFlow = params.vo2 * clamp(1 - alveolarRatio, 0, 1) * airflow;
+  const o2In = (alveolarVentilation * (fio2 - fao2) + massFlow * fio2) / 60;
+  const o2Out = params.vo2 / 60;
+  const nextFao2 = clamp(fao2 + ((o2In - o2Out) * dt) / params.frc, 0, 1);
+  return arterialFromAlveolar(alveolarPO2(nextFao2, paco2), params.shunt);
+}
+
+/** Displayed SpO2: arterial saturation through the oximeter's averaging delay */
+export function oximeterReading(prevSpO2: number, sao2: number, dt = 1): number {
+  return prevSpO2 + (sao2 - prevSpO2) * Math.min(1, dt / OXIMETER_TAU);
+}
+
+/**
+ * Safe apnea time: seconds from now until SaO2 falls below `threshold`
+ * if the patient stops breathing with `pharyngealFio2` at the airway
+ * (0.21 = mask removed). Null beyond `horizon`.
+ */
+export function safeApneaTime(
+  patient: Patient,
+  position: PatientPosition,
+  pAO2: number,
+  paco2: number,
+  pharyngealFio2 = 0.21,
+  threshold = 90,
+  horizon = 1200
+): number | null {
+  const params = oxygenStoreParams(patient, position, 0);
+  let prev = { pAO2, paco2 };
+  for (let t = 1; t <= horizon; t++) {
+    const co2 = prev.paco2 + APNEIC_PACO2_RISE / 60;
+    const r = stepOxygenation(prev, params, pharyngealFio2, 0, 0, co2);
+    if (r.sao2 < threshold) return t;
+    prev = { pAO2: r.pAO2, paco2: co2 };
+  }
+  return null;
+}
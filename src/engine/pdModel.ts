@@ -1,12 +1,17 @@
-import { DrugParams, MOASSLevel } from '../types';
+import { DrugParams, MOASSLevel, PKState } from '../types';
+import {
+  evaluateResponseSurface, effectSiteConcentrations, DEFAULT_INTERACTION_MODELS, EndpointEffects, InteractionSelection,
+} from './responseSurface';
+import { DRUG_DATABASE } from './drugs';
 
 /**
  * Pharmacodynamic Model
- * Based on Bouillon 2004 response surface model (AReS/Minto parameters)
- * Separates opioid and hypnotic contributions to sedation
+ * Sedation depth and MOASS from the verbal and noxious endpoints of the
+ * selected Greco / Minto / hierarchical surfaces (responseSurface.ts),
+ * with competitive antagonism by naloxone and flumazenil.
  *
  * Key insight: Opioids are NOT equivalent sedatives.
- * - Opioids alone produce drowsiness (MOASS 4) but NOT deep sedation
+ * - Opioids alone barely reach the verbal endpoint (drowsiness at most)
  * - Opioids potentiate hypnotic effect (supra-additive interaction)
  * - Response surface: theta = U_prop / (U_prop + U_opioid)
  *
@@ -17,31 +22,26 @@ import { DrugParams, MOASSLevel } from '../types';
  * - AReS Simulator (MIT): Hosseinirad et al. 2025
  */
 
-// Opioid drug names for classification
-const OPIOID_DRUGS = ['Fentanyl', 'Remifentanil'];
-// Reversal agents
-const REVERSAL_AGENTS = ['Naloxone', 'Flumazenil'];
-// Drugs reversed by each reversal agent
+// Emergency drugs with no sedative action (hemodynamic effects in circulation.ts,
+// antiarrhythmic in acls.ts), and QT-prolonging antiemetics / antipsychotics (QT effect in cardiacRhythm.ts)
+const NON_SEDATIVE_DRUGS = ['Epinephrine', 'Atropine', 'Glycopyrrolate', 'Ephedrine', 'Phenylephrine', 'Succinylcholine',
+  'Rocuronium', 'Sugammadex', 'Naloxone', 'Flumazenil', 'Amiodarone', 'Ondansetron', 'Droperidol', 'Haloperidol'];
+// Drugs reversed by each competitive antagonist (drug keys; names are the capitalised keys)
 const REVERSAL_TARGETS: Record<string, string[]> = {
-  'Naloxone': ['Fentanyl', 'Remifentanil'],
-  'Flumazenil': ['Midazolam'],
+  naloxone: ['fentanyl', 'remifentanil', 'methadone'],
+  flumazenil: ['midazolam', 'hydroxymidazolam'],
 };
+export const REVERSAL_AGENT_KEYS = Object.keys(REVERSAL_TARGETS);
 
 /**
- * Maximum sedation fraction opioids alone can produce on MOASS
- * Clinical reality: opioids alone cause drowsiness (MOASS 4) but not
- * deep sedation. Ceiling ~0.22 means opioid-only effect stays at MOASS 4.
- * Based on Bouillon surface model where opioid-only arm saturates early.
+ * Sedation depth per unit log-odds of the verbal endpoint, and the depth at
+ * even odds. A sigmoid surface has log-odds linear in log Ce, so MOASS
+ * levels fall at evenly spaced log concentrations.
  */
-const OPIOID_SEDATION_CEILING = 0.22;
-
-/**
- * Opioid potentiation factor for hypnotic effect
- * When opioid + hypnotic are co-administered, the opioid reduces the
- * effective EC50 of the hypnotic (left-shift of dose-response curve).
- * Based on Bouillon beta parameter and clinical TCI practice.
- */
-const OPIOID_POTENTIATION_MAX = 0.35;
+const VERBAL_DEPTH_SLOPE = 0.1;
+const VERBAL_DEPTH_AT_EVEN_ODDS = 0.23;
+/** Depth added when a noxious stimulus is certainly tolerated */
+const NOXIOUS_DEPTH_WEIGHT = 0.1;
 
 /**
  * Calculate fractional drug effect using Hill equation
@@ -55,101 +55,108 @@ export function hillEffect(ce: number, EC50: number, gamma: number): number {
   return ceG / (ec50G + ceG);
 }
 
+/** Whether a drug contributes to sedation (MOASS, emergence) */
+export function isSedativeDrug(drug: DrugParams): boolean {
+  return !NON_SEDATIVE_DRUGS.includes(drug.name);
+}
+
 /**
- * Calculate combined drug effect using response surface model
- *
- * Instead of naive Bliss independence (which treats opioids = hypnotics),
- * this separates drugs into:
- * 1. Hypnotics (propofol, midazolam, ketamine, etomidate, dex, N2O)
- * 2. Opioids (fentanyl, remifentanil)
- * 3. Reversal agents (naloxone, flumazenil)
- *
- * Opioid contribution to MOASS is capped at OPIOID_SEDATION_CEILING.
- * Opioids potentiate hypnotic effect (reduce effective EC50).
- * Based on Bouillon 2004 / AReS response surface approach.
+ * Competitive antagonism (Gaddum): an antagonist at concentration A with
+ * dissociation constant Ki (its EC50) multiplies the agonist EC50 by
+ * 1 + A/Ki. Returns the EC50 multiplier for each antagonised drug key.
+ * The shift is surmountable and lasts only as long as the antagonist Ce,
+ * so a short-acting antagonist wears off before a long-acting agonist.
  */
-export function combinedEffect(
-  drugEffects: { drug: DrugParams; ce: number }[]
-): number {
-  if (drugEffects.length === 0) return 0;
-
-  // Separate opioids, hypnotics, and reversal agents
-  const opioids: { drug: DrugParams; ce: number }[] = [];
-  const hypnotics: { drug: DrugParams; ce: number }[] = [];
-  const reversals: { drug: DrugParams; ce: number }[] = [];
-
-  for (const entry of drugEffects) {
-    if (REVERSAL_AGENTS.includes(entry.drug.name)) {
-      reversals.push(entry);
-    } else if (OPIOID_DRUGS.includes(entry.drug.name)) {
-      opioids.push(entry);
-    } else {
-      hypnotics.push(entry);
-    }
-  }
-
-  // --- Step 1: Calculate reversal agent antagonism ---
-  // Reversal agents reduce the effective concentration of their targets
-  const reversalFactors: Record<string, number> = {};
-  for (const rev of reversals) {
-    const revEffect = hillEffect(rev.ce, rev.drug.EC50, rev.drug.gamma);
-    const targets = REVERSAL_TARGETS[rev.drug.name] || [];
+export function antagonistShift(
+  antagonists: { drug: DrugParams; ce: number }[]
+): Record<string, number> {
+  const shift: Record<string, number> = {};
+  for (const { drug, ce } of antagonists) {
+    const targets = REVERSAL_TARGETS[drug.name.toLowerCase()];
+    if (!targets || ce <= 0) continue;
     for (const target of targets) {
-      const existing = reversalFactors[target] || 0;
-      reversalFactors[target] = Math.min(1, existing + revEffect);
+      shift[target] = (shift[target] ?? 1) + ce / drug.EC50;
     }
   }
+  return shift;
+}
 
-  // --- Step 2: Calculate raw opioid Hill effect (capped) ---
-  // Opioid alone: drowsiness ceiling. Ce/EC50 drives the Hill curve,
-  // but the MOASS contribution is clamped.
-  let opioidRawEffect = 0;
-  for (const { drug, ce } of opioids) {
-    const reversalFactor = 1 - (reversalFactors[drug.name] || 0);
-    const effectiveCe = ce * reversalFactor;
-    const effect = hillEffect(effectiveCe, drug.EC50, drug.gamma);
-    opioidRawEffect = 1 - (1 - opioidRawEffect) * (1 - effect);
+/**
+ * Agonist effect-site concentrations as seen by their receptors: each
+ * antagonised Ce is divided by its EC50 shift, which for a Hill
+ * concentration-response is the same as shifting the EC50. Used for the
+ * endpoint models (ventilation, airway, circulation) that read Ce directly.
+ */
+export function antagonizedPkStates(
+  pkStates: Record<string, PKState>,
+  drugParams: Record<string, DrugParams>
+): Record<string, PKState> {
+  const shift = antagonistShift(
+    REVERSAL_AGENT_KEYS
+      .filter(key => pkStates[key] && drugParams[key])
+      .map(key => ({ drug: drugParams[key], ce: pkStates[key].ce }))
+  );
+  if (Object.keys(shift).length === 0) return pkStates;
+  const states = { ...pkStates };
+  for (const [target, factor] of Object.entries(shift)) {
+    if (states[target]) states[target] = { ...states[target], ce: states[target].ce / factor };
   }
-  // Cap opioid-only sedation contribution
-  const opioidSedationEffect = Math.min(opioidRawEffect * OPIOID_SEDATION_CEILING, OPIOID_SEDATION_CEILING);
-
-  // --- Step 3: Calculate opioid potentiation of hypnotics ---
-  // Opioids reduce effective EC50 of hypnotics (Bouillon interaction)
-  // potentiationFactor: 0 = no opioid, up to OPIOID_POTENTIATION_MAX
-  const potentiationFactor = opioidRawEffect * OPIOID_POTENTIATION_MAX;
+  return states;
+}
 
-  // --- Step 4: Calculate hypnotic effect with potentiation ---
-  let hypnoticProduct = 1;
-  for (const { drug, ce } of hypnotics) {
-    const reversalFactor = 1 - (reversalFactors[drug.name] || 0);
-    const effectiveCe = ce * reversalFactor;
-    // Opioid potentiation: reduce effective EC50 (left-shift curve)
-    const potentiatedEC50 = drug.EC50 * (1 - potentiationFactor);
-    const effect = hillEffect(effectiveCe, potentiatedEC50, drug.gamma);
-    hypnoticProduct *= (1 - effect);
-  }
-  const hypnoticEffect = 1 - hypnoticProduct;
+/**
+ * The patient's resolved EC50 over the population EC50 in drugs.ts. Age
+ * covariates (Eleveld, Minto, Albrecht) and sampled between-patient etas
+ * move the resolved EC50, and every surface C50 of the drug scales with
+ * it. 1 for drugs without a drugs.ts entry (metabolites).
+ */
+export function potencyRatio(drugKey: string, drug: DrugParams | undefined): number {
+  const population = DRUG_DATABASE[drugKey]?.EC50;
+  return drug && population ? drug.EC50 / population : 1;
+}
 
-  // --- Step 5: Combine using modified Bliss ---
-  // Hypnotic effect is the primary driver of MOASS
-  // Opioid adds a small direct sedation component (drowsiness)
-  // The interaction is already captured via EC50 potentiation
-  const combined = 1 - (1 - hypnoticEffect) * (1 - opioidSedationEffect);
+/**
+ * Endpoint probabilities (verbal / noxious / respiratory) for the drugs on
+ * board, from the selected interaction surfaces at receptor-level Ce
+ * (naloxone and flumazenil right-shift their agonists). Dividing each Ce
+ * by the drug's potency ratio is the same as scaling its surface C50s.
+ */
+export function sedationEndpoints(
+  pkStates: Record<string, PKState>,
+  drugParams: Record<string, DrugParams>,
+  selection: InteractionSelection = DEFAULT_INTERACTION_MODELS
+): EndpointEffects {
+  const receptor = effectSiteConcentrations(antagonizedPkStates(pkStates, drugParams));
+  const scaled = Object.fromEntries(
+    Object.entries(receptor).map(([key, ce]) => [key, ce / potencyRatio(key, drugParams[key])])
+  );
+  return evaluateResponseSurface(scaled, selection);
+}
 
-  return Math.min(1, combined);
+/**
+ * Sedation depth (0-1) from the verbal and noxious endpoints, the scale
+ * effectToMOASS reads. The verbal endpoint carries the depth through the
+ * MOASS levels; the noxious endpoint deepens it where a stimulus is
+ * tolerated, which is how an opioid deepens sedation that the hypnotic
+ * alone would leave at MOASS 3-4.
+ */
+export function sedationDepth({ verbal, noxious }: EndpointEffects): number {
+  const logOdds = Math.log(verbal / (1 - verbal));
+  const verbalDepth = Math.max(0, VERBAL_DEPTH_AT_EVEN_ODDS + VERBAL_DEPTH_SLOPE * logOdds);
+  return Math.min(1, verbalDepth + NOXIOUS_DEPTH_WEIGHT * noxious);
 }
 
 /**
- * Map combined effect (0-1) to MOASS sedation level (5-0)
+ * Map sedation depth (0-1) to MOASS sedation level (5-0)
  * MOASS 5 = Awake, MOASS 0 = Unresponsive
  *
- * Thresholds calibrated so that:
- * - Fentanyl 25mcg alone -> ~0.15 effect -> MOASS 4 (Drowsy)
- * - Fentanyl 50mcg alone -> ~0.20 effect -> MOASS 4 (Drowsy)
- * - Fentanyl 100mcg alone -> ~0.22 effect -> MOASS 4 (still Drowsy, ceiling)
- * - Midazolam 2mg alone -> ~0.25 effect -> MOASS 3 (Moderate Sedation)
- * - Propofol 50mg alone -> ~0.30 effect -> MOASS 3 (Moderate Sedation)
- * - Fentanyl 50mcg + Midazolam 2mg -> potentiation -> MOASS 2-3
+ * With the default surfaces (BOUILLON_2004_REFERENCE):
+ * - Propofol Ce 2.0 / 2.5 / 4.0 / 6.0 mcg/mL -> MOASS 4 / 3 / 2 / 1
+ * - Propofol 1.5 + remifentanil 4 ng/mL -> MOASS 3
+ * - Propofol 2.5 + remifentanil 4 ng/mL -> MOASS 2
+ * - Fentanyl 25-100 mcg alone -> MOASS 4, never deeper (opioid ceiling ~0.22)
+ * - Midazolam 2 mg -> MOASS 3; 5 mg -> MOASS 2
+ * - Fentanyl 50-100 mcg + midazolam 2 mg -> MOASS 3
  */
 export function effectToMOASS(combinedEff: number): MOASSLevel {
   if (combinedEff < 0.10) return 5;   // Awake/alert
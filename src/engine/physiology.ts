@@ -1,13 +1,41 @@
-import { Vitals, Patient, PKState, CardiacRhythm, InterventionType } from '../types';
-import { determineRhythm } from './cardiacRhythm';
+import { Vitals, Patient, PKState, CardiacRhythm, InterventionType, AirwayDevice, PatientPosition } from '../types';
+import { determineRhythm, qtCorrections, ischemicEctopy } from './cardiacRhythm';
+import type { Rng } from './prng';
+import {
+  co2ResponseCurve, stepVentilation, paco2Setpoint, restingAlveolarVentilation, VentilationResult, VentilationSupport,
+} from './ventilation';
+import {
+  oxygenStoreParams, deliveredFiO2, stepOxygenation, steadyStatePAO2, oximeterReading, OxygenationResult,
+} from './oxygenation';
+import { assessUpperAirway, UpperAirwayState } from './upperAirway';
+import { ComplicationEffects, NO_COMPLICATION_EFFECTS, peakAirwayPressure } from './airwayComplications';
+import { CirculationState, computeCirculation, cardiacPhenotype } from './circulation';
+import { monitorSTDeviation } from './myocardialIschemia';
 
 /** IV fluid state snapshot passed to physiology engine */
 export interface IVFluidContext {
   totalInfused: number; // mL
   isBolus: boolean;
   bolusVolume: number;
+  intravascularChange: number; // mL from euvolemia, from the volume kinetics model
 }
 
+/**
+ * Airway device and position, which set delivered FiO2, the size of the O2
+ * store and upper airway collapsibility. `airway` is the caller's upper
+ * airway assessment for this tick; assessed here when omitted.
+ * `complications` are active laryngospasm / bronchospasm / anaphylaxis.
+ */
+export interface RespiratoryContext {
+  airwayDevice: AirwayDevice;
+  position: PatientPosition;
+  airway?: UpperAirwayState;
+  complications?: ComplicationEffects;
+  respiratoryEffect?: number;   // surface respiratory endpoint under the selected models
+}
+
+export const DEFAULT_RESPIRATORY_CONTEXT: RespiratoryContext = { airwayDevice: 'room_air', position: 'supine' };
+
 /** Scenario overrides — parameter -> forced value */
 export type ScenarioOverrides = Partial<Vitals>;
 
@@ -15,6 +43,8 @@ export type ScenarioOverrides = Partial<Vitals>;
  * Comprehensive Physiology Engine
  * Simulates vital sign responses based on PK/PD state
  * Implements respiratory cascade, SpO2 model, cardiovascular reflexes
+ * Ventilation and PaCO2 come from the CO2 response model in ventilation.ts
+ * HR and blood pressure come from the circulation model in circulation.ts
  *
  * Calibrated to clinical reality:
  *   - 25 mcg fentanyl IV in 75kg adult -> ~0.3-0.5 ng/mL Ce -> mild RR reduction
@@ -55,6 +85,7 @@ export const PATIENT_ARCHETYPES: Record<string, Patient> = {
   hepatic: {
     age: 61, weight: 82, height: 172, sex: 'M', asa: 3,
     mallampati: 2, osa: false, drugSensitivity: 1.5,
+    hepaticImpairment: true,
   },
   pediatric: {
     age: 17, weight: 65, height: 170, sex: 'M', asa: 1,
@@ -84,216 +115,65 @@ export const PATIENT_ARCHETYPES: Record<string, Patient> = {
     hepaticImpairment: true, renalImpairment: false,
     copd: false,
   },
+  // Acquired long QT on diuretics: hypokalemia and hypomagnesemia
+  long_qt: {
+    age: 62, weight: 68, height: 165, sex: 'F', asa: 3,
+    mallampati: 2, osa: false, drugSensitivity: 1.1,
+    qtcBaseline: 465, potassium: 3.2, magnesium: 0.65,
+  },
+  // Anterior STEMI three weeks ago, LAD stented with residual multivessel disease
+  post_mi_patient: {
+    age: 61, weight: 84, height: 176, sex: 'M', asa: 4,
+    mallampati: 2, osa: false, drugSensitivity: 1.3,
+    coronaryDisease: true, culpritTerritory: 'anterior',
+  },
 };
 
-function noise(base: number, amplitude: number): number {
-  return base + (Math.random() - 0.5) * 2 * amplitude;
+function noise(base: number, amplitude: number, random: Rng): number {
+  return base + (random() - 0.5) * 2 * amplitude;
 }
 
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
-/** Detect whether a patient matches the CHF (NYHA III) archetype based on its unique combination of fields. */
-function isCHFPatient(patient: Patient): boolean {
-  return patient.hepaticImpairment === true &&
-    patient.drugSensitivity === 1.7 &&
-    patient.asa === 4 &&
-    patient.renalImpairment === false &&
-    patient.copd === false;
-}
-
-function sigmoidEffect(ce: number, ce50: number, gamma: number): number {
-  if (ce <= 0 || ce50 <= 0) return 0;
-  const ratio = Math.pow(ce / ce50, gamma);
-  return ratio / (1 + ratio);
-}
-
-/**
- * Calculate respiratory rate based on drug effects
- * Clinically calibrated:
- *   - Fentanyl Ce50 for RR depression ~3.5 ng/mL (literature: 2-5 ng/mL)
- *   - 25mcg bolus in 75kg -> peak Ce ~0.4 ng/mL -> ~5% RR depression
- *   - 100mcg bolus -> peak Ce ~1.5 ng/mL -> ~15% RR depression
- *   - 200mcg+ -> Ce >3 ng/mL -> significant depression
- */
-function computeRespiratoryRate(
-  baseline: number,
-  pkStates: Record<string, PKState>,
-  patient: Patient
-): number {
-  // Opioid respiratory depression (fentanyl + remifentanil combined)
-  // Ce50 = 3.5 ng/mL for 50% RR depression (clinical range 2-5 ng/mL)
-  // gamma = 1.8 (gradual onset curve)
-  // Remifentanil Ce50 for RR depression ~1.5 ng/mL (more potent, ultra-short acting)
-  const fentanylCe = pkStates.fentanyl?.ce || 0;
-  const remifentanilCe = pkStates.remifentanil?.ce || 0;
-  // Combine opioid effects using Bliss independence
-  const fentanylOpioidEff = sigmoidEffect(fentanylCe, 3.5, 1.8);
-  const remifentanilOpioidEff = sigmoidEffect(remifentanilCe, 1.5, 1.8);
-  const opioidEffect = 1 - (1 - fentanylOpioidEff) * (1 - remifentanilOpioidEff);
-
-  // Propofol has milder RR depression
-  // Ce50 for RR depression ~4 mcg/mL (higher than sedation Ce50 of 3.4)
-  const propofolCe = pkStates.propofol?.ce || 0;
-  const propofolRREffect = sigmoidEffect(propofolCe, 4.0, 2.0);
-
-  // Midazolam RR depression (mild)
-  const midazolamCe = pkStates.midazolam?.ce || 0;
-  const midazolamCeNg = midazolamCe * 1000;
-  const benzoEffect = sigmoidEffect(midazolamCeNg, 200, 1.5) * 0.3;
-
-  // Ketamine: minimal RR depression (may even stimulate)
-  const ketamineCe = pkStates.ketamine?.ce || 0;
-  const ketamineProtection = ketamineCe > 0.0005 ? 0.05 : 0;
-
-  // Maximum RR depression fractions (how much each drug can reduce RR)
-  // Opioid alone can reduce RR by up to 60% at very high doses
-  // Propofol alone can reduce by up to 40%
-  // Benzodiazepines alone by up to 25%
-  const opioidDepression = opioidEffect * 0.6 * baseline;
-  const propofolDepression = propofolRREffect * 0.4 * baseline;
-  const benzoDepression = benzoEffect * baseline;
-
-  // Synergy: opioid + hypnotic combination is supra-additive
-  // But only moderate synergy factor (1.15-1.3 range)
-  const hasSynergy = opioidEffect > 0.05 && (propofolRREffect > 0.05 || benzoEffect > 0.02);
-  const synergyFactor = hasSynergy ? 1.0 + 0.25 * Math.min(opioidEffect, 0.5) * Math.min(propofolRREffect + benzoEffect, 0.5) : 1.0;
-
-  // Total depression (additive with synergy multiplier)
-  const totalDepression = (opioidDepression + propofolDepression + benzoDepression) * synergyFactor;
-
-  // Apply patient sensitivity
-  const sensitivityMod = patient.drugSensitivity ?? 1.0;
-  let rr = baseline - totalDepression * sensitivityMod + ketamineProtection * baseline;
-
-  // Cannot go below 0
-  rr = Math.max(0, rr);
-
-  return noise(rr, 0.5);
-}
-
 /**
- * Compute SpO2 based on respiratory status and FiO2
- * Models oxygen cascade with V/Q mismatch
+ * Advance the lung O2 store and read SpO2 through the oximeter delay.
+ * The store is seeded at the undrugged steady state on the first tick.
  */
-function computeSpO2(
-  rr: number,
-  _baseline: number,
+function computeOxygenation(
+  ventilation: VentilationResult,
   patient: Patient,
-  fio2: number = 0.21,
-  prevSpO2: number = 99
-): number {
-  // Minute ventilation proxy (simplified)
-  const normalRR = 14;
-  const ventilationRatio = rr / normalRR;
-
-  // Alveolar oxygen tension (simplified gas equation)
-  const pAtm = 760;
-  const pH2O = 47;
-  const paco2 = 40 / Math.max(ventilationRatio, 0.1); // CO2 rises as ventilation falls
-  const pao2 = fio2 * (pAtm - pH2O) - (paco2 / 0.8);
-
-  // V/Q mismatch factor (worse with obesity, sedation)
-  const bmi = patient.weight / Math.pow(patient.height / 100, 2);
-  const obesityFactor = bmi > 30 ? 0.95 : 1.0;
-  const sedationFactor = Math.max(0.9, ventilationRatio);
-  const osaFactor = patient.osa ? 0.95 : 1.0;
-
-  const effectivePaO2 = Math.max(0, pao2 * obesityFactor * sedationFactor * osaFactor);
-
-  // Oxygen-hemoglobin dissociation curve (Hill equation)
-  const p50 = 26.6;
-  const hillCoeff = 2.7;
-  const spo2True = 100 * Math.pow(effectivePaO2, hillCoeff) /
-    (Math.pow(effectivePaO2, hillCoeff) + Math.pow(p50, hillCoeff));
-
-  // Pulse ox delay: exponential smoothing (tau ~ 30 sec)
-  const tau = 30;
-  const dt = 1; // 1 second tick
-  const alpha = dt / tau;
-  const spo2Displayed = prevSpO2 + (spo2True - prevSpO2) * alpha;
-
-  return clamp(noise(spo2Displayed, 0.3), 0, 100);
-}
-
-/**
- * Compute hemodynamics (HR, BP) with baroreceptor reflex
- * Fentanyl bradycardia is dose-dependent but modest at sedation doses
- */
-function computeHemodynamics(
-  baseline: Vitals,
-  pkStates: Record<string, PKState>,
-  currentSpO2: number,
-  patient: Patient
-): { hr: number; sbp: number; dbp: number; map: number } {
-  const propofolCe = pkStates.propofol?.ce || 0;
-  const fentanylCe = pkStates.fentanyl?.ce || 0;
-  const remifentanilCe = pkStates.remifentanil?.ce || 0;
-  const ketamineCe = pkStates.ketamine?.ce || 0;
-
-  // Propofol: vasodilation + myocardial depression
-  const propofolFrac = sigmoidEffect(propofolCe, 3.4, 2.0);
-  const propofolHREffect = -0.15 * propofolFrac * baseline.hr;
-  const propofolBPEffect = -0.25 * propofolFrac;
-
-  // Opioids: bradycardia via vagal tone (fentanyl + remifentanil)
-  // Ce50 for bradycardia ~4 ng/mL for fentanyl, ~2 ng/mL for remifentanil
-  const fentanylFrac = sigmoidEffect(fentanylCe, 4.0, 1.5);
-  const remifentanilFrac = sigmoidEffect(remifentanilCe, 2.0, 1.5);
-  const opioidHRFrac = 1 - (1 - fentanylFrac) * (1 - remifentanilFrac);
-  const fentanylHREffect = -0.12 * opioidHRFrac * baseline.hr;
-
-  // Ketamine: sympathomimetic (increases HR and BP)
-  const ketamineFrac = sigmoidEffect(ketamineCe, 0.001, 1.5);
-  const ketamineHREffect = 0.15 * ketamineFrac * baseline.hr;
-  const ketamineBPEffect = 0.10 * ketamineFrac;
-
-  // Calculate BP first (for baroreflex)
-  const sensitivity = patient.drugSensitivity ?? 1.0;
-  const sbp = baseline.sbp * (1 + (propofolBPEffect + ketamineBPEffect) * sensitivity);
-  const dbp = baseline.dbp * (1 + (propofolBPEffect * 0.7 + ketamineBPEffect * 0.7) * sensitivity);
-  const map = (sbp + 2 * dbp) / 3;
-
-  // Baroreceptor reflex: hypotension -> compensatory tachycardia
-  // CHF patients have blunted baroreflex (50% reduction in gain)
-  const mapBaseline = baseline.map;
-  const mapDrop = mapBaseline - map;
-  const baroreflexGain = isCHFPatient(patient) ? 0.25 : 0.5;
-  const baroreflexDrive = mapDrop > 0 ? mapDrop * baroreflexGain : 0;
-
-  // Hypoxia response (SpO2 < 90 -> tachycardia)
-  const hypoxiaDrive = currentSpO2 < 90 ? (90 - currentSpO2) * 1.5 : 0;
-
-  // Combine HR effects
-  const drugHRDelta = (propofolHREffect + fentanylHREffect + ketamineHREffect) * sensitivity;
-  let hr = baseline.hr + drugHRDelta + baroreflexDrive + hypoxiaDrive;
-
-  // Severe hypoxia -> bradycardia (late sign)
-  if (currentSpO2 < 75) {
-    hr *= 0.7;
-  }
-
-  return {
-    hr: clamp(noise(hr, 2), 20, 180),
-    sbp: clamp(noise(sbp, 3), 40, 220),
-    dbp: clamp(noise(dbp, 2), 20, 140),
-    map: clamp(noise(map, 2), 30, 160),
-  };
-}
-
-/**
- * Compute EtCO2 based on ventilation
- */
-function computeEtCO2(rr: number, baseline: number = 38): number {
-  const normalRR = 14;
-  const ventilationRatio = Math.max(rr / normalRR, 0.1);
-
-  // EtCO2 inversely proportional to ventilation
-  const targetEtCO2 = baseline / ventilationRatio;
+  fio2: number,
+  prevVitals: Vitals,
+  respiratory: RespiratoryContext,
+  airflow: number,
+  baselineRR: number,
+  random: Rng
+): OxygenationResult & { spo2: number } {
+  const params = oxygenStoreParams(
+    patient, respiratory.position, ventilation.alveolarRatio, respiratory.complications?.bronchospasm ?? 0
+  );
+  const inspired = deliveredFiO2(respiratory.airwayDevice, fio2, ventilation.alveolarRatio);
+  const prevPaco2 = prevVitals.paco2 ?? ventilation.paco2;
+  const prevPAO2 = prevVitals.pAO2 ?? steadyStatePAO2(
+    oxygenStoreParams(patient, respiratory.position, 1),
+    deliveredFiO2(respiratory.airwayDevice, fio2, 1),
+    restingAlveolarVentilation(patient, baselineRR),
+    prevPaco2
+  );
 
-  // Clamp to physiological range
-  return clamp(noise(targetEtCO2, 1), 0, 100);
+  const result = stepOxygenation(
+    { pAO2: prevPAO2, paco2: prevPaco2 },
+    params,
+    inspired,
+    ventilation.alveolarVentilation,
+    ventilation.alveolarRatio,
+    ventilation.paco2,
+    airflow
+  );
+  const spo2 = prevVitals.pAO2 === undefined ? result.sao2 : oximeterReading(prevVitals.spo2, result.sao2);
+  return { ...result, spo2: clamp(noise(spo2, 0.3, random), 0, 100) };
 }
 
 /**
@@ -328,87 +208,36 @@ export function checkAlarms(vitals: Vitals): { type: string; message: string; se
 }
 
 /**
- * Compute airway intervention effects (patency bonus and assisted RR from BVM).
- * Also computes pharmacological reversal / hemodynamic effects.
+ * Compute intervention effects on ventilation: BVM overrides the patient's
+ * drive. Airway manoeuvres act through the upper airway model and reversal
+ * agents through the drug concentrations instead.
  */
 function computeInterventionAirwayEffects(
   interventions: Set<InterventionType>,
-  baselineRR: number
-): { patencyBonus: number; assistedRR: number | null } {
-  let patencyBonus = 0;
-  let assistedRR: number | null = null;
+  airway: UpperAirwayState,
+  complications: ComplicationEffects
+): VentilationSupport {
+  let assistedRatio: number | null = null;
 
   if (interventions.has('bag_mask')) {
-    // BVM forces ventilation — override with assisted rate
-    assistedRR = baselineRR * 0.9; // near-normal assisted rate
-  }
-  if (interventions.has('jaw_thrust')) {
-    patencyBonus = Math.max(patencyBonus, 0.40); // restores ~40% of suppressed airway
-  }
-  if (interventions.has('chin_lift')) {
-    patencyBonus = Math.max(patencyBonus, 0.25); // slightly less effective
-  }
-  if (interventions.has('oral_airway')) {
-    patencyBonus = Math.max(patencyBonus, 0.30); // OPA maintains patency
-  }
-  if (interventions.has('nasal_airway')) {
-    patencyBonus = Math.max(patencyBonus, 0.25); // NPA maintains patency
-  }
-  if (interventions.has('suction')) {
-    patencyBonus = Math.max(patencyBonus, 0.15); // secretion clearance
-  }
-  // Naloxone reverses opioid respiratory depression — large RR patency recovery
-  if (interventions.has('naloxone')) {
-    patencyBonus = Math.max(patencyBonus, 0.85); // near-complete opioid reversal
+    // BVM forces ventilation — override the patient's own drive
+    assistedRatio = 0.9; // near-normal assisted minute ventilation
   }
-  // Flumazenil reverses benzodiazepine contribution to airway/RR depression
-  if (interventions.has('flumazenil')) {
-    patencyBonus = Math.max(patencyBonus, 0.50); // partial reversal (benzo component)
-  }
-
-  return { patencyBonus, assistedRR };
-}
-
-/**
- * Compute pharmacological hemodynamic intervention effects.
- * Returns a multiplier to apply to MAP/SBP and HR adjustments.
- */
-function computePharmacologicalHemodynamicEffects(
-  interventions: Set<InterventionType>
-): { bpBoost: number; hrBoost: number } {
-  let bpBoost = 0;
-  let hrBoost = 0;
-
-  if (interventions.has('vasopressors')) {
-    // Vasopressors (e.g. norepinephrine) → SVR increase → MAP/SBP rise ~25%
-    bpBoost = Math.max(bpBoost, 0.25);
-  }
-  if (interventions.has('iv_fluid_bolus')) {
-    // Fluid bolus → preload → MAP/SBP improvement ~10%
-    bpBoost = Math.max(bpBoost, 0.10);
-  }
-  if (interventions.has('atropine')) {
-    // Atropine blocks vagal tone → HR increase
-    hrBoost = Math.max(hrBoost, 20); // +20 bpm
-  }
-
-  return { bpBoost, hrBoost };
-}
 
-/**
- * Compute IV fluid effect on hemodynamics.
- * Volume loading increases preload → MAP/SBP improve.
- */
-function computeFluidHemodynamicBoost(ivFluids: IVFluidContext | undefined): number {
-  if (!ivFluids) return 0;
-  const totalMl = ivFluids.totalInfused;
-  // 250 mL bolus → ~10% MAP improvement, saturating at 1000 mL
-  // Simplified linear model capping at 15% MAP boost
-  return Math.min(0.15, totalMl / 6666);
+  return {
+    assistedRatio,
+    airflow: airway.patency,
+    paralysis: complications.paralysis,
+    bronchoconstriction: complications.bronchospasm,
+  };
 }
 
 /**
- * Main function to calculate all vitals based on PK state
+ * Main function to calculate all vitals based on PK state.
+ * `circulation` is the caller's circulatory operating point for this tick;
+ * computed here when omitted. `random` drives the measurement noise and is
+ * injectable for reproducible runs. `ischemia` is the myocardial ischemia
+ * burden (myocardialIschemia.ts) behind ST deviation, ectopy and ischemic VT.
  */
 export function calculateVitals(
   pkStates: Record<string, PKState>,
@@ -419,49 +248,16 @@ export function calculateVitals(
   elapsedSeconds: number = 0,
   interventions: Set<InterventionType> = new Set(),
   ivFluids?: IVFluidContext,
-  scenarioOverrides?: ScenarioOverrides
+  scenarioOverrides?: ScenarioOverrides,
+  respiratory: RespiratoryContext = DEFAULT_RESPIRATORY_CONTEXT,
+  circulation?: CirculationState,
+  random: Rng = Math.random,
+  ischemia: number = 0
 ): Vitals {
-  // Get patient-adjusted baseline
+  // Get patient-adjusted baseline (hemodynamic baselines live in the circulation model)
   const baseline = { ...BASELINE_VITALS };
 
-  // Age adjustments
-  if (patient.age > 65) {
-    baseline.hr -= 5;
-    baseline.sbp += 10;
-  }
-
-  // Calculate respiratory rate first (drives SpO2 and EtCO2)
-  const rrRaw = computeRespiratoryRate(baseline.rr, pkStates, patient);
-
-  // Cardiomyopathy adjustments
-  const isHCM = (patient.drugSensitivity === 1.6 || patient.drugSensitivity === 1.8) &&
-    patient.asa === 3 && !patient.osa;
-  const isDCM = (patient.drugSensitivity === 1.55 || patient.drugSensitivity === 1.9) &&
-    patient.asa >= 3 && !patient.osa && !patient.hepaticImpairment;
-
-  // CHF (NYHA III) detection: hepaticImpairment + high drugSensitivity + asa 4 + specific weight/age
-  const isCHF = isCHFPatient(patient);
-
-  if (isHCM) {
-    baseline.hr += 5;
-    baseline.sbp -= 5;
-    baseline.dbp += 5;
-  }
-
-  if (isDCM) {
-    baseline.hr += 15;
-    baseline.sbp -= 15;
-    baseline.dbp -= 5;
-    baseline.map = (baseline.sbp + 2 * baseline.dbp) / 3;
-  }
-
-  if (isCHF) {
-    // Compensatory tachycardia from reduced cardiac output
-    baseline.hr += 12;
-    // Reduced cardiac output -> lower perfusion pressure
-    baseline.sbp -= 20;
-    baseline.dbp -= 10;
-    baseline.map = (baseline.sbp + 2 * baseline.dbp) / 3;
+  if (cardiacPhenotype(patient) === 'chf') {
     // Pulmonary congestion: impaired gas exchange -> lower baseline SpO2
     baseline.spo2 = 94;
     // Pulmonary congestion: increased respiratory drive
@@ -470,52 +266,54 @@ export function calculateVitals(
     baseline.etco2 = 42;
   }
 
-  // Apply airway intervention effects to RR
-  const { patencyBonus, assistedRR } = computeInterventionAirwayEffects(interventions, baseline.rr);
-  let rr: number;
-  if (assistedRR !== null) {
-    // Bag-mask ventilation overrides to assisted rate
-    rr = assistedRR;
-  } else if (patencyBonus > 0 && rrRaw < baseline.rr) {
-    // Airway intervention partially recovers suppressed RR
-    const depression = baseline.rr - rrRaw;
-    rr = rrRaw + depression * patencyBonus;
-  } else {
-    rr = rrRaw;
-  }
+  // Upper airway: pharyngeal collapse and glottic closure limit the tidal volume the effort moves
+  const complications = respiratory.complications ?? NO_COMPLICATION_EFFECTS;
+  const airway = respiratory.airway ?? assessUpperAirway(
+    pkStates, patient, interventions, respiratory.airwayDevice, respiratory.position, complications.laryngospasm
+  );
 
-  // SpO2 depends on respiratory status
+  // Ventilation: CO2 response curve under current drugs, PaCO2 carried between ticks
+  const setpoint = paco2Setpoint(baseline.etco2);
+  const curve = co2ResponseCurve(pkStates, setpoint, respiratory.respiratoryEffect);
+  const ventilation = stepVentilation(
+    prevVitals.paco2 ?? setpoint,
+    curve,
+    baseline.rr,
+    patient,
+    setpoint,
+    computeInterventionAirwayEffects(interventions, airway, complications)
+  );
+  const rr = ventilation.rr > 0 ? Math.max(0, noise(ventilation.rr, 0.5, random)) : 0;
+
+  // SpO2 from the lung O2 store
   // If BVM active, SpO2 recovers faster (use higher FiO2 equivalent and better ventilation)
   const effectiveFio2 = interventions.has('bag_mask') ? Math.max(fio2, 0.5) : fio2;
-  const spo2 = computeSpO2(rr, baseline.spo2, patient, effectiveFio2, prevVitals.spo2);
-
-  // Hemodynamics
-  let hemodynamics = computeHemodynamics(baseline, pkStates, spo2, patient);
-
-  // IV fluid hemodynamic boost: volume loading increases preload → MAP/SBP improve
-  const fluidBoost = computeFluidHemodynamicBoost(ivFluids);
-  if (fluidBoost > 0) {
-    hemodynamics = {
-      hr: hemodynamics.hr,
-      sbp: clamp(hemodynamics.sbp * (1 + fluidBoost), 40, 220),
-      dbp: clamp(hemodynamics.dbp * (1 + fluidBoost * 0.5), 20, 140),
-      map: clamp(hemodynamics.map * (1 + fluidBoost * 0.8), 30, 160),
-    };
-  }
+  const oxygenation = computeOxygenation(
+    ventilation, patient, effectiveFio2, prevVitals, respiratory, airway.patency, baseline.rr, random
+  );
+  const spo2 = oxygenation.spo2;
 
-  // Pharmacological hemodynamic intervention effects (vasopressors, atropine, etc.)
-  const { bpBoost, hrBoost } = computePharmacologicalHemodynamicEffects(interventions);
-  if (bpBoost > 0 || hrBoost > 0) {
-    hemodynamics = {
-      hr: clamp(hemodynamics.hr + hrBoost, 20, 180),
-      sbp: clamp(hemodynamics.sbp * (1 + bpBoost), 40, 220),
-      dbp: clamp(hemodynamics.dbp * (1 + bpBoost * 0.6), 20, 140),
-      map: clamp(hemodynamics.map * (1 + bpBoost), 30, 160),
-    };
-  }
+  // Hemodynamics: venous return, contractility, HR and SVR solved together
+  const circ = circulation ?? computeCirculation(pkStates, patient, {
+    baselineHR: baseline.hr,
+    volumeChange: ivFluids?.intravascularChange ?? 0,
+    anaphylaxis: complications.anaphylaxis,
+    spo2,
+    ischemia,
+    ventricularRate: null,
+    filling: 1,
+  });
+  const sbp = clamp(noise(circ.sbp, 3, random), 40, 220);
+  const dbp = clamp(noise(circ.dbp, 2, random), 20, 140);
+  const hemodynamics = {
+    hr: clamp(noise(circ.hr, 2, random), 20, 180),
+    sbp,
+    dbp,
+    map: clamp((sbp + 2 * dbp) / 3, 30, 160),
+  };
 
-  // EtCO2
-  const etco2 = computeEtCO2(rr, baseline.etco2);
+  // EtCO2: zero during apnea or complete obstruction (flat capnogram)
+  const etco2 = ventilation.etco2 > 0 ? clamp(noise(ventilation.etco2, 0.5, random), 0, 100) : 0;
 
   // Determine cardiac rhythm
   const partialVitals: Vitals = {
@@ -527,12 +325,14 @@ export function calculateVitals(
     spo2,
     etco2,
   };
-  const prevArrestStart = (prevVitals as Vitals & { _arrestStart?: number | null })._arrestStart ?? null;
+  const rhythmTracking = prevVitals as Vitals & { _arrestStart?: number | null; _hypoxemiaStart?: number | null };
   const rhythmResult = determineRhythm(
-    partialVitals, pkStates, patient, prevRhythm, elapsedSeconds, prevArrestStart
+    partialVitals, pkStates, patient, prevRhythm, elapsedSeconds, rhythmTracking._arrestStart ?? null, random, ischemia,
+    rhythmTracking._hypoxemiaStart ?? null
   );
+  const qtc = rhythmResult.qtInterval > 0 ? qtCorrections(rhythmResult.qtInterval, hemodynamics.hr) : undefined;
 
-  const result: Vitals & { _arrestStart?: number | null } = {
+  const result: Vitals & { _arrestStart?: number | null; _hypoxemiaStart?: number | null } = {
     hr: hemodynamics.hr,
     sbp: hemodynamics.sbp,
     dbp: hemodynamics.dbp,
@@ -540,11 +340,20 @@ export function calculateVitals(
     rr,
     spo2,
     etco2,
+    paco2: ventilation.paco2,
+    pAO2: oxygenation.pAO2,
+    pao2: oxygenation.pao2,
+    paw: interventions.has('bag_mask') ? peakAirwayPressure(complications, patient) : undefined,
     rhythm: rhythmResult.rhythm,
     qrsWidth: rhythmResult.qrsWidth,
     prInterval: rhythmResult.prInterval,
     qtInterval: rhythmResult.qtInterval,
+    qtcBazett: qtc?.bazett,
+    qtcFridericia: qtc?.fridericia,
+    stDeviation: monitorSTDeviation(ischemia, patient),
+    pvcFraction: ischemicEctopy(rhythmResult.rhythm, ischemia),
     _arrestStart: rhythmResult.arrestStartSeconds,
+    _hypoxemiaStart: rhythmResult.hypoxemiaStartSeconds,
   };
 
   // Apply scenario overrides last (force specific values if set)
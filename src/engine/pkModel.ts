@@ -2,19 +2,161 @@ import { DrugParams, PKState } from '../types';
 
 /**
  * 3-Compartment Pharmacokinetic Model
- * Uses Euler method integration with dt=1s steps
- * Based on Marsh (propofol) / standard 3-compartment models
+ * Exact (closed-form) solution of the linear mammillary model with an
+ * effect-site compartment, using the matrix exponential of the system
+ * matrix.  Results are exact for any dt with piecewise-constant infusions,
+ * so callers can take 1 s ticks or jump minutes ahead without drift.
+ *
+ * State is expressed in central-volume concentration units (amount / V1),
+ * matching the original Euler formulation:
+ *   dc1/dt = −(k10+k12+k13)·c1 + k21·c2 + k31·c3 + R/V1
+ *   dc2/dt = k12·c1 − k21·c2
+ *   dc3/dt = k13·c1 − k31·c3
+ *   dce/dt = ke0·(c1 − ce)
  */
 
 export function createInitialPKState(): PKState {
   return { c1: 0, c2: 0, c3: 0, ce: 0 };
 }
 
+/** Piecewise-constant infusion segment for advancePKSchedule */
+export interface InfusionSegment {
+  durationSeconds: number;
+  rate: number;  // mg/min or mcg/min into V1
+}
+
+type Matrix = number[][];
+
+// Augmented state [c1, c2, c3, ce, u] where u = infusion rate / V1 (constant)
+const N = 5;
+
+function matMul(a: Matrix, b: Matrix): Matrix {
+  const out: Matrix = [];
+  for (let i = 0; i < N; i++) {
+    const row = new Array<number>(N).fill(0);
+    for (let k = 0; k < N; k++) {
+      const aik = a[i][k];
+      if (aik === 0) continue;
+      for (let j = 0; j < N; j++) row[j] += aik * b[k][j];
+    }
+    out.push(row);
+  }
+  return out;
+}
+
+function identity(): Matrix {
+  return Array.from({ length: N }, (_, i) => Array.from({ length: N }, (_, j) => (i === j ? 1 : 0)));
+}
+
+/**
+ * Matrix exponential by scaling and squaring with a Taylor series.
+ * The scaled matrix has norm ≤ 0.5, so the series converges to machine
+ * precision in under 20 terms.
+ */
+function expm(m: Matrix): Matrix {
+  let norm = 0;
+  for (const row of m) norm = Math.max(norm, row.reduce((s, v) => s + Math.abs(v), 0));
+  const squarings = norm > 0.5 ? Math.ceil(Math.log2(norm / 0.5)) : 0;
+  const scale = Math.pow(2, -squarings);
+  const a = m.map(row => row.map(v => v * scale));
+
+  let result = identity();
+  let term = identity();
+  for (let n = 1; n <= 30; n++) {
+    term = matMul(term, a).map(row => row.map(v => v / n));
+    let termNorm = 0;
+    for (let i = 0; i < N; i++) {
+      for (let j = 0; j < N; j++) {
+        result[i][j] += term[i][j];
+        termNorm = Math.max(termNorm, Math.abs(term[i][j]));
+      }
+    }
+    if (termNorm < 1e-17) break;
+  }
+  for (let i = 0; i < squarings; i++) result = matMul(result, result);
+  return result;
+}
+
+// Transition matrices depend only on the rate constants and dt; the tick
+// loop re-resolves DrugParams every second, so memoise by value.
+const TRANSITION_CACHE = new Map<string, Matrix>();
+const TRANSITION_CACHE_LIMIT = 256;
+
+function transitionMatrix(drug: DrugParams, dt: number): Matrix {
+  const { k10, k12, k13, k21, k31, ke0 } = drug;
+  const key = `${k10}|${k12}|${k13}|${k21}|${k31}|${ke0}|${dt}`;
+  const cached = TRANSITION_CACHE.get(key);
+  if (cached) return cached;
+
+  const dtMin = dt / 60; // rate constants are per minute
+  const a: Matrix = [
+    [-(k10 + k12 + k13), k21, k31, 0, 1],
+    [k12, -k21, 0, 0, 0],
+    [k13, 0, -k31, 0, 0],
+    [ke0, 0, 0, -ke0, 0],
+    [0, 0, 0, 0, 0],
+  ].map(row => row.map(v => v * dtMin));
+
+  const phi = expm(a);
+  if (TRANSITION_CACHE.size >= TRANSITION_CACHE_LIMIT) TRANSITION_CACHE.clear();
+  TRANSITION_CACHE.set(key, phi);
+  return phi;
+}
+
+/**
+ * Instantaneous bolus into the central compartment.
+ * Does not advance time: a bolus given at t is visible at t.
+ */
+export function applyBolus(state: PKState, drug: DrugParams, bolusAmount: number): PKState {
+  if (bolusAmount === 0) return state;
+  return { ...state, c1: state.c1 + bolusAmount / drug.V1 };
+}
+
+/**
+ * Advance PK state exactly by dt seconds at a constant infusion rate.
+ * @param infusionRate Continuous infusion rate (mg/min or mcg/min into V1)
+ * @param dt Time step in seconds (any size)
+ */
+export function advancePK(
+  state: PKState,
+  drug: DrugParams,
+  infusionRate: number,
+  dt: number
+): PKState {
+  if (dt <= 0) return state;
+  const phi = transitionMatrix(drug, dt);
+  const x = [state.c1, state.c2, state.c3, state.ce, infusionRate / drug.V1];
+  const next = (i: number) => phi[i].reduce((s, v, j) => s + v * x[j], 0);
+
+  return {
+    c1: Math.max(0, next(0)),
+    c2: Math.max(0, next(1)),
+    c3: Math.max(0, next(2)),
+    ce: Math.max(0, next(3)),
+  };
+}
+
 /**
- * Advance PK state by dt seconds using Euler method
+ * Advance PK state through a sequence of piecewise-constant infusion segments.
+ */
+export function advancePKSchedule(
+  state: PKState,
+  drug: DrugParams,
+  segments: InfusionSegment[]
+): PKState {
+  return segments.reduce(
+    (s, seg) => advancePK(s, drug, seg.rate, seg.durationSeconds),
+    state
+  );
+}
+
+/**
+ * Advance PK state by dt seconds.
+ * The bolus is added instantaneously at the start of the interval, then the
+ * system is propagated exactly over dt with the given infusion rate.
  * @param state Current concentrations
  * @param drug Drug parameters (rate constants)
- * @param bolusAmount Amount added this tick (mg or mcg in V1)
+ * @param bolusAmount Amount added at the start of this step (mg or mcg in V1)
  * @param infusionRate Continuous infusion rate (mg/min or mcg/min into V1)
  * @param dt Time step in seconds
  */
@@ -25,28 +167,5 @@ export function stepPK(
   infusionRate: number,
   dt: number
 ): PKState {
-  const { k10, k12, k13, k21, k31, ke0, V1 } = drug;
-  const { c1, c2, c3, ce } = state;
-  const dtMin = dt / 60; // convert to minutes for rate constants
-
-  // Bolus: instantaneous addition to central compartment
-  const bolusConc = bolusAmount / V1;
-
-  // Infusion: continuous addition (rate is per minute)
-  const infusionConc = (infusionRate * dtMin) / V1;
-
-  // 3-compartment differential equations (per minute rate constants)
-  const dc1 = (-k10 * c1 - k12 * c1 + k21 * c2 - k13 * c1 + k31 * c3) * dtMin;
-  const dc2 = (k12 * c1 - k21 * c2) * dtMin;
-  const dc3 = (k13 * c1 - k31 * c3) * dtMin;
-
-  // Effect-site equilibration
-  const dce = ke0 * (c1 - ce) * dtMin;
-
-  return {
-    c1: Math.max(0, c1 + dc1 + bolusConc + infusionConc),
-    c2: Math.max(0, c2 + dc2),
-    c3: Math.max(0, c3 + dc3),
-    ce: Math.max(0, ce + dce),
-  };
-}
\ No newline at end of file
+  return advancePK(applyBolus(state, drug, bolusAmount), drug, infusionRate, dt);
+}
@@ -0,0 +1,321 @@
+import { DrugParams, Patient } from '../types';
+import { DRUG_DATABASE } from './drugs';
+import { applyOrganFunction } from './organFunction';
+import { applyEtas, PKPDEtas } from './populationVariability';
+
+/**
+ * Covariate-Scaled Pharmacokinetic Model Registry
+ *
+ * drugs.ts holds one fixed parameter set per drug (70 kg standard adult).
+ * This registry computes the 3-compartment rate constants from the Patient
+ * covariates (age, weight, height, sex) using the published population
+ * models, so the elderly, obese and paediatric archetypes differ in PK
+ * rather than only through the drugSensitivity multiplier.
+ *
+ * Each model returns volumes (L) and clearances (L/min) which are converted
+ * to micro-rate constants (min⁻¹).  Drug identity (name, colour, unit, Hill
+ * gamma) always comes from DRUG_DATABASE.
+ *
+ * References:
+ *   Marsh BE et al.  Br J Anaesth 1991;67:41-48
+ *   Schnider TW et al.  Anesthesiology 1998;88:1170-1182 / 1999;90:1502-1516
+ *   Eleveld DJ et al.  Br J Anaesth 2018;120:942-959
+ *   Minto CF et al.  Anesthesiology 1997;86:10-23
+ *   Greenblatt DJ et al.  Anesthesiology 1984;61:27-35
+ *   Albrecht S et al.  Clin Pharmacol Ther 1999;65:630-639
+ *   Hannivoort LN et al.  Anesthesiology 2015;123:357-367
+ *   James WPT.  Research on obesity. HMSO 1976 (lean body mass)
+ *   Al-Sallami HS et al.  Clin Pharmacokinet 2015;54:1183-1192 (fat-free mass)
+ */
+
+/** Volumes (L) and clearances (L/min) of a mammillary 3-compartment model */
+export interface CompartmentVolumes {
+  V1: number;
+  V2: number;
+  V3: number;
+  CL1: number;  // elimination clearance
+  CL2: number;  // rapid inter-compartmental clearance
+  CL3: number;  // slow inter-compartmental clearance
+  ke0: number;  // min⁻¹
+  /** Optional covariate-adjusted EC50 (same unit as DrugParams.EC50) */
+  EC50?: number;
+}
+
+export interface PKModelDefinition {
+  /** Registry identifier, unique per drug */
+  id: string;
+  /** Human-readable name including publication year */
+  name: string;
+  citation: string;
+  /** Compute model volumes/clearances for a given patient */
+  compute: (patient: Patient, base: DrugParams) => CompartmentVolumes;
+}
+
+/** Selected model id per drug key (DRUG_DATABASE key → PKModelDefinition.id) */
+export type PKModelSelection = Record<string, string>;
+
+// ---------------------------------------------------------------------------
+// Body-size scalars
+// ---------------------------------------------------------------------------
+
+export function bodyMassIndex(patient: Patient): number {
+  return patient.weight / Math.pow(patient.height / 100, 2);
+}
+
+/** Lean body mass (James 1976) — used by Schnider and Minto */
+export function leanBodyMassJames(patient: Patient): number {
+  const { weight, height, sex } = patient;
+  return sex === 'M'
+    ? 1.1 * weight - 128 * Math.pow(weight / height, 2)
+    : 1.07 * weight - 148 * Math.pow(weight / height, 2);
+}
+
+/** Fat-free mass (Al-Sallami 2015) — used by Eleveld; valid across age and BMI */
+export function fatFreeMassAlSallami(patient: Patient): number {
+  const { age, weight, sex } = patient;
+  const bmi = bodyMassIndex(patient);
+  if (sex === 'M') {
+    return (0.88 + (1 - 0.88) / (1 + Math.pow(age / 13.4, -12.7))) *
+      (9270 * weight) / (6680 + 216 * bmi);
+  }
+  return (1.11 + (1 - 1.11) / (1 + Math.pow(age / 7.1, -1.1))) *
+    (9270 * weight) / (8780 + 244 * bmi);
+}
+
+function sigmoid(x: number, e50: number, lambda: number): number {
+  const xl = Math.pow(x, lambda);
+  return xl / (xl + Math.pow(e50, lambda));
+}
+
+// ---------------------------------------------------------------------------
+// Propofol — Marsh 1991 (weight-proportional)
+// V1 = 0.228 L/kg; rate constants are weight-independent.
+// ---------------------------------------------------------------------------
+const MARSH: PKModelDefinition = {
+  id: 'marsh',
+  name: 'Marsh (1991)',
+  citation: 'Marsh BE, White M, Morton N, Kenny GN. Br J Anaesth. 1991;67:41-48.',
+  compute: (patient, base) => {
+    const V1 = 0.228 * patient.weight;
+    return {
+      V1,
+      V2: V1 * base.k12 / base.k21,
+      V3: V1 * base.k13 / base.k31,
+      CL1: base.k10 * V1,
+      CL2: base.k12 * V1,
+      CL3: base.k13 * V1,
+      ke0: base.ke0,
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Propofol — Schnider 1998
+// V1, V3 fixed; V2 and CL2 fall with age; CL1 scales with weight, LBM, height.
+// ke0=0.456 min⁻¹ (Schnider 1999).
+// ---------------------------------------------------------------------------
+const SCHNIDER: PKModelDefinition = {
+  id: 'schnider',
+  name: 'Schnider (1998)',
+  citation: 'Schnider TW, Minto CF, Gambus PL, et al. Anesthesiology. 1998;88:1170-1182.',
+  compute: (patient) => {
+    const lbm = leanBodyMassJames(patient);
+    return {
+      V1: 4.27,
+      V2: Math.max(1, 18.9 - 0.391 * (patient.age - 53)),
+      V3: 238,
+      CL1: Math.max(0.1, 1.89 + 0.0456 * (patient.weight - 77) - 0.0681 * (lbm - 59) + 0.0264 * (patient.height - 177)),
+      CL2: Math.max(0.1, 1.29 - 0.024 * (patient.age - 53)),
+      CL3: 0.836,
+      ke0: 0.456,
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Propofol — Eleveld 2018 (arterial, no concomitant opioid)
+// Allometric weight/FFM scaling with post-menstrual-age maturation, so the
+// same model covers children, adults, the elderly and the obese.
+// EC50 falls with age: 3.08 · exp(−0.00635 · (age − 35)) relative to 35 yr.
+// ---------------------------------------------------------------------------
+const ELEVELD_REF: Patient = { age: 35, weight: 70, height: 170, sex: 'M', asa: 1 };
+const WEEKS_PER_YEAR = 52.143;
+
+const ELEVELD: PKModelDefinition = {
+  id: 'eleveld',
+  name: 'Eleveld (2018)',
+  citation: 'Eleveld DJ, Colin P, Absalom AR, Struys MMRF. Br J Anaesth. 2018;120:942-959.',
+  compute: (patient, base) => {
+    const { age, weight, sex } = patient;
+    const pma = age * WEEKS_PER_YEAR + 40;
+    const pmaRef = ELEVELD_REF.age * WEEKS_PER_YEAR + 40;
+    const ffmRatio = fatFreeMassAlSallami(patient) / fatFreeMassAlSallami(ELEVELD_REF);
+
+    const fCentral = (w: number) => sigmoid(w, 33.6, 1);
+    const fAging = (x: number) => Math.exp(x * (age - ELEVELD_REF.age));
+    const clMaturation = sigmoid(pma, 42.3, 9.06) / sigmoid(pmaRef, 42.3, 9.06);
+    const q3MaturationRaw = sigmoid(age * WEEKS_PER_YEAR + 40, 68.3, 1);
+    const q3Maturation = q3MaturationRaw / sigmoid(pmaRef, 68.3, 1);
+
+    const V1 = 6.28 * fCentral(weight) / fCentral(70);
+    const V2 = 25.5 * (weight / 70) * fAging(-0.0156);
+    const V3 = 273 * ffmRatio;
+    const CL1 = (sex === 'M' ? 1.79 : 2.10) * Math.pow(weight / 70, 0.75) * clMaturation;
+    const CL2 = 1.75 * Math.pow(V2 / 25.5, 0.75) * (1 + 1.30 * (1 - q3MaturationRaw));
+    const CL3 = 1.11 * Math.pow(V3 / 273, 0.75) * q3Maturation;
+
+    return {
+      V1, V2, V3, CL1, CL2, CL3,
+      ke0: 0.146 * Math.pow(weight / 70, -0.25),
+      EC50: base.EC50 * Math.exp(-0.00635 * (age - ELEVELD_REF.age)),
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Remifentanil — Minto 1997
+// Volumes and clearances scale with age and LBM; ke0 and EC50 fall with age
+// (EC50 = 13.1 − 0.148·(age − 40) ng/mL, applied relative to drugs.ts).
+// ---------------------------------------------------------------------------
+const MINTO: PKModelDefinition = {
+  id: 'minto',
+  name: 'Minto (1997)',
+  citation: 'Minto CF, Schnider TW, Egan TD, et al. Anesthesiology. 1997;86:10-23.',
+  compute: (patient, base) => {
+    const ageD = patient.age - 40;
+    const lbmD = leanBodyMassJames(patient) - 55;
+    return {
+      V1: Math.max(1, 5.1 - 0.0201 * ageD + 0.072 * lbmD),
+      V2: Math.max(1, 9.82 - 0.0811 * ageD + 0.108 * lbmD),
+      V3: 5.42,
+      CL1: Math.max(0.1, 2.6 - 0.0162 * ageD + 0.0191 * lbmD),
+      CL2: Math.max(0.1, 2.05 - 0.0301 * ageD),
+      CL3: Math.max(0.005, 0.076 - 0.00113 * ageD),
+      ke0: Math.max(0.1, 0.595 - 0.007 * ageD),
+      EC50: base.EC50 * Math.max(0.2, (13.1 - 0.148 * ageD) / 13.1),
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Midazolam — Greenblatt 1984 / Albrecht 1999
+// Anchored to the drugs.ts standard patient (40 yr, 70 kg): V1=8.6 L,
+// CL≈0.28 L/min.  Volumes scale with total body weight (Vd rises in obesity
+// and in women), clearance with weight^0.75 and declines ~0.6 %/yr after 40
+// (Greenblatt).  Albrecht found the EC50 roughly halves between 25 and 80 yr.
+// ---------------------------------------------------------------------------
+const GREENBLATT_ALBRECHT: PKModelDefinition = {
+  id: 'greenblatt_albrecht',
+  name: 'Greenblatt / Albrecht',
+  citation: 'Greenblatt DJ, Abernethy DR, Locniskar A, et al. Anesthesiology. 1984;61:27-35; Albrecht S, Ihmsen H, Hering W, et al. Clin Pharmacol Ther. 1999;65:630-639.',
+  compute: (patient, base) => {
+    const wt = patient.weight / 70;
+    const sexV = patient.sex === 'F' ? 1.1 : 1.0;
+    const V1 = base.V1 * wt;
+    const ageClFactor = patient.age > 40 ? Math.max(0.5, 1 - 0.006 * (patient.age - 40)) : 1;
+    return {
+      V1,
+      V2: (base.V1 * base.k12 / base.k21) * wt * sexV,
+      V3: (base.V1 * base.k13 / base.k31) * wt * sexV,
+      CL1: base.k10 * base.V1 * Math.pow(wt, 0.75) * ageClFactor,
+      CL2: base.k12 * base.V1 * Math.pow(wt, 0.75),
+      CL3: base.k13 * base.V1 * Math.pow(wt, 0.75),
+      ke0: base.ke0,
+      EC50: base.EC50 * Math.exp(-0.013 * (patient.age - 40)),
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Dexmedetomidine — Hannivoort 2015
+// Allometric weight scaling of all volumes/clearances (reference 70 kg).
+// Hannivoort did not publish a sedation ke0; the drugs.ts value is kept.
+// ---------------------------------------------------------------------------
+const HANNIVOORT: PKModelDefinition = {
+  id: 'hannivoort',
+  name: 'Hannivoort (2015)',
+  citation: 'Hannivoort LN, Eleveld DJ, Proost JH, et al. Anesthesiology. 2015;123:357-367.',
+  compute: (patient, base) => {
+    const wt = patient.weight / 70;
+    const V2 = 30.3 * wt;
+    const V3 = 52.0 * wt;
+    return {
+      V1: 1.78 * wt,
+      V2,
+      V3,
+      CL1: 0.686 * Math.pow(wt, 0.75),
+      CL2: 2.98 * Math.pow(V2 / 30.3, 0.75),
+      CL3: 0.602 * Math.pow(V3 / 52.0, 0.75),
+      ke0: base.ke0,
+    };
+  },
+};
+
+/** Available covariate models per DRUG_DATABASE key */
+export const PK_MODEL_REGISTRY: Record<string, PKModelDefinition[]> = {
+  propofol: [SCHNIDER, ELEVELD, MARSH],
+  remifentanil: [MINTO],
+  midazolam: [GREENBLATT_ALBRECHT],
+  dexmedetomidine: [HANNIVOORT],
+};
+
+/** Default model per drug when the user has not chosen one */
+export const DEFAULT_PK_MODELS: PKModelSelection = {
+  propofol: 'schnider',
+  remifentanil: 'minto',
+  midazolam: 'greenblatt_albrecht',
+  dexmedetomidine: 'hannivoort',
+};
+
+/**
+ * Convert volumes/clearances to the micro-rate constants used by stepPK.
+ */
+export function toRateConstants(v: CompartmentVolumes): Pick<DrugParams, 'V1' | 'k10' | 'k12' | 'k13' | 'k21' | 'k31' | 'ke0'> {
+  return {
+    V1: v.V1,
+    k10: v.CL1 / v.V1,
+    k12: v.CL2 / v.V1,
+    k13: v.CL3 / v.V1,
+    k21: v.CL2 / v.V2,
+    k31: v.CL3 / v.V3,
+    ke0: v.ke0,
+  };
+}
+
+/**
+ * Look up a model definition by drug key and id.
+ * Returns undefined when the drug has no covariate model with that id.
+ */
+export function getPKModel(drugKey: string, modelId: string): PKModelDefinition | undefined {
+  return PK_MODEL_REGISTRY[drugKey]?.find(m => m.id === modelId);
+}
+
+/**
+ * Resolve patient-specific DrugParams for a drug.
+ *
+ * Without a selection (or for drugs with no registered model) the fixed
+ * DRUG_DATABASE parameters are used, so callers that pass no selection keep
+ * the 70 kg standard-patient behaviour. Either way k10 is then scaled for
+ * hepatic / renal impairment (organFunction.ts); unimpaired patients are
+ * unaffected. `etas` individualise the typical values for a sampled
+ * virtual patient (populationVariability.ts).
+ */
+export function resolveDrugParams(
+  drugKey: string,
+  patient: Patient,
+  selection?: PKModelSelection,
+  etas?: PKPDEtas
+): DrugParams {
+  const base = DRUG_DATABASE[drugKey];
+  if (!base) return base;
+  const modelId = selection?.[drugKey];
+  const model = modelId ? getPKModel(drugKey, modelId) : undefined;
+  if (!model) return applyOrganFunction(drugKey, applyEtas(base, etas), patient);
+
+  const volumes = model.compute(patient, base);
+  return applyOrganFunction(drugKey, applyEtas({
+    ...base,
+    ...toRateConstants(volumes),
+    EC50: volumes.EC50 ?? base.EC50,
+  }, etas), patient);
+}
@@ -0,0 +1,100 @@
+import { DrugParams } from '../types';
+import { createRng, gaussian } from './prng';
+
+/**
+ * Population Variability
+ * Between-subject variability (BSV) for the PK/PD models: each virtual
+ * patient draws log-normal random effects (etas) on clearance, volume, ke0
+ * and EC50, so the same archetype gives a different individual with every
+ * seed while the covariate model still sets the typical value.
+ *
+ *   Pi = Ptypical · exp(ηi),   ηi ~ N(0, ω²)
+ *
+ * The volume eta scales V1, V2 and V3 together with inter-compartmental
+ * clearances unchanged. Etas are truncated at ±2.5 ω so a draw cannot
+ * produce a physiologically implausible patient.
+ *
+ * Each drug's etas come from its own stream (seed hashed with the drug
+ * key), so adding a drug to the table does not change the patient that an
+ * existing seed reproduces.
+ *
+ * References:
+ *   Eleveld DJ et al. Br J Anaesth 2018;120:942-959 (propofol)
+ *   Minto CF et al. Anesthesiology 1997;86:10-23 (remifentanil)
+ *   Shafer SL et al. Anesthesiology 1990;73:1091-1102 (fentanyl)
+ *   Zomorodi K et al. Anesthesiology 1998;89:1418-1429 (midazolam)
+ *   Hannivoort LN et al. Anesthesiology 2015;123:357-367 (dexmedetomidine)
+ *   Wierda JM et al. Can J Anaesth 1991;38:430-435 (rocuronium)
+ */
+
+/** Log-domain random effects for one drug */
+export interface PKPDEtas {
+  CL: number;
+  V: number;
+  ke0: number;
+  EC50: number;
+}
+
+/** Between-subject standard deviations ω (log domain) */
+export type BetweenSubjectVariability = PKPDEtas;
+
+/** A sampled virtual patient: reproducible from `seed` */
+export interface PatientVariability {
+  seed: number;
+  etas: Record<string, PKPDEtas>;
+  /** Keep the sampled values out of the learner's view */
+  hidden: boolean;
+}
+
+/** ω per DRUG_DATABASE key, approximated from the published population models */
+export const BETWEEN_SUBJECT_VARIABILITY: Record<string, BetweenSubjectVariability> = {
+  propofol: { CL: 0.3, V: 0.4, ke0: 0.55, EC50: 0.35 },
+  remifentanil: { CL: 0.14, V: 0.3, ke0: 0.45, EC50: 0.45 },
+  fentanyl: { CL: 0.3, V: 0.5, ke0: 0.4, EC50: 0.45 },
+  midazolam: { CL: 0.45, V: 0.35, ke0: 0.45, EC50: 0.5 },
+  ketamine: { CL: 0.3, V: 0.35, ke0: 0.4, EC50: 0.35 },
+  dexmedetomidine: { CL: 0.21, V: 0.3, ke0: 0.4, EC50: 0.45 },
+  rocuronium: { CL: 0.3, V: 0.25, ke0: 0.3, EC50: 0.3 },
+};
+
+/** Etas beyond this many ω are clipped */
+const TRUNCATION = 2.5;
+
+/** FNV-1a hash of a drug key, mixed into the seed for a per-drug stream */
+function hashKey(key: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Draw one virtual patient's etas for every drug with published BSV */
+export function sampleVariability(seed: number, hidden: boolean = false): PatientVariability {
+  const etas: Record<string, PKPDEtas> = {};
+  for (const [key, omega] of Object.entries(BETWEEN_SUBJECT_VARIABILITY)) {
+    const rng = createRng((seed ^ hashKey(key)) >>> 0);
+    const draw = (w: number) => w * Math.max(-TRUNCATION, Math.min(TRUNCATION, gaussian(rng)));
+    etas[key] = { CL: draw(omega.CL), V: draw(omega.V), ke0: draw(omega.ke0), EC50: draw(omega.EC50) };
+  }
+  return { seed: seed >>> 0, etas, hidden };
+}
+
+/** Drug parameters for the individual: typical values scaled by exp(eta) */
+export function applyEtas(drug: DrugParams, etas: PKPDEtas | undefined): DrugParams {
+  if (!etas) return drug;
+  const v = Math.exp(etas.V);
+  const cl = Math.exp(etas.CL);
+  return {
+    ...drug,
+    V1: drug.V1 * v,
+    k10: drug.k10 * cl / v,
+    k12: drug.k12 / v,
+    k13: drug.k13 / v,
+    k21: drug.k21 / v,
+    k31: drug.k31 / v,
+    ke0: drug.ke0 * Math.exp(etas.ke0),
+    EC50: drug.EC50 * Math.exp(etas.EC50),
+  };
+}
@@ -1,8 +1,11 @@
 import { PKState, Vitals, Patient, MOASSLevel, DrugParams, InterventionType } from '../types';
-import { stepPK, createInitialPKState } from './pkModel';
-import { combinedEffect, effectToMOASS, hillEffect } from './pdModel';
-import { calculateVitals } from './physiology';
+import { advancePK, applyBolus, createInitialPKState } from './pkModel';
+import { effectToMOASS, hillEffect, sedationDepth, sedationEndpoints } from './pdModel';
+import { calculateVitals, DEFAULT_RESPIRATORY_CONTEXT } from './physiology';
+import { DEFAULT_INTERACTION_MODELS, InteractionSelection } from './responseSurface';
 import { DRUG_DATABASE } from './drugs';
+import { PKModelSelection, resolveDrugParams } from './pkModelRegistry';
+import type { Rng } from './prng';
 
 export interface PredictionSnapshot {
   secondsAhead: number;
@@ -20,6 +23,9 @@ export interface PredictionSnapshot {
  *
  * @param sampleTimes - seconds ahead to snapshot (e.g. [30, 60, 120, 300, 600])
  * @param ghostBolus - optional hypothetical dose to apply at t=0
+ * @param pkModels - covariate PK model per drug; omitted → fixed drugs.ts parameters
+ * @param random - measurement-noise source; pass a seeded Rng for reproducible output
+ * @param interactionModels - response-surface model per drug pair (sedation and ventilation)
  */
 export function predictForward(
   currentPK: Record<string, PKState>,
@@ -29,11 +35,13 @@ export function predictForward(
   prevVitals: Vitals,
   sampleTimes: number[] = [30, 60, 120, 300, 600],
   ghostBolus?: { drugName: string; dose: number },
-  interventions: Set<InterventionType> = new Set()
+  interventions: Set<InterventionType> = new Set(),
+  pkModels?: PKModelSelection,
+  random: Rng = Math.random,
+  interactionModels: InteractionSelection = DEFAULT_INTERACTION_MODELS
 ): PredictionSnapshot[] {
   const snapshots: PredictionSnapshot[] = [];
   const sortedTimes = [...sampleTimes].sort((a, b) => a - b);
-  const maxTime = sortedTimes[sortedTimes.length - 1];
 
   // Deep copy current PK states
   let simPK: Record<string, PKState> = {};
@@ -48,62 +56,67 @@ export function predictForward(
     }
   }
 
-  // Apply ghost bolus at t=0
+  // Apply ghost bolus instantaneously at t=0
   // Initialise the drug state if not already present (e.g. fresh simulation)
   if (ghostBolus && DRUG_DATABASE[ghostBolus.drugName]) {
-    const drug = DRUG_DATABASE[ghostBolus.drugName];
+    const drug = resolveDrugParams(ghostBolus.drugName, patient, pkModels);
     if (!simPK[ghostBolus.drugName]) {
       simPK[ghostBolus.drugName] = createInitialPKState();
     }
-    simPK[ghostBolus.drugName] = stepPK(
-      simPK[ghostBolus.drugName], drug, ghostBolus.dose, 0, 1
-    );
+    simPK[ghostBolus.drugName] = applyBolus(simPK[ghostBolus.drugName], drug, ghostBolus.dose);
+  }
+
+  // Patient-specific parameters are constant over the prediction horizon
+  const drugParams: Record<string, DrugParams> = {};
+  for (const name of Object.keys(simPK)) {
+    if (DRUG_DATABASE[name]) drugParams[name] = resolveDrugParams(name, patient, pkModels);
   }
 
   let simVitals = { ...prevVitals };
-  let nextSampleIdx = 0;
+  let prevT = 0;
 
-  for (let t = 1; t <= maxTime && nextSampleIdx < sortedTimes.length; t++) {
-    // Advance all drugs by 1 second
+  for (const t of sortedTimes) {
+    // Analytical PK solution: jump straight to the next sample time
+    const dt = Math.max(0, t - prevT);
     const newPK: Record<string, PKState> = {};
     for (const [name, state] of Object.entries(simPK)) {
-      const drug = DRUG_DATABASE[name];
+      const drug = drugParams[name];
       if (!drug) { newPK[name] = state; continue; }
       const infRate = infusions[name]?.isRunning ? infusions[name].rate : 0;
-      newPK[name] = stepPK(state, drug, 0, infRate, 1);
+      newPK[name] = advancePK(state, drug, infRate, dt);
     }
     simPK = newPK;
+    prevT = Math.max(prevT, t);
 
-    if (t === sortedTimes[nextSampleIdx]) {
-      // Calculate effects at this snapshot
-      const ceByDrug: Record<string, number> = {};
-      const effectByDrug: Record<string, number> = {};
-      const drugEffects: { drug: DrugParams; ce: number }[] = [];
+    // Calculate effects at this snapshot
+    const ceByDrug: Record<string, number> = {};
+    const effectByDrug: Record<string, number> = {};
 
-      for (const [name, state] of Object.entries(simPK)) {
-        const drug = DRUG_DATABASE[name];
-        if (!drug) continue;
-        ceByDrug[name] = state.ce;
-        const eff = hillEffect(state.ce, drug.EC50, drug.gamma);
-        effectByDrug[name] = eff;
-        drugEffects.push({ drug, ce: state.ce });
-      }
+    for (const [name, state] of Object.entries(simPK)) {
+      const drug = drugParams[name];
+      if (!drug) continue;
+      ceByDrug[name] = state.ce;
+      const eff = hillEffect(state.ce, drug.EC50, drug.gamma);
+      effectByDrug[name] = eff;
+    }
 
-      const comb = combinedEffect(drugEffects);
-      // Only compute vitals every ~30s to save CPU (or at each sample point)
-      simVitals = calculateVitals(simPK, patient, simVitals, fio2, simVitals.rhythm ?? 'normal_sinus', t, interventions);
+    const endpoints = sedationEndpoints(simPK, drugParams, interactionModels);
+    const comb = sedationDepth(endpoints);
+    // Vitals are only computed at sample points to save CPU
+    simVitals = calculateVitals(
+      simPK, patient, simVitals, fio2, simVitals.rhythm ?? 'normal_sinus', t, interventions,
+      undefined, undefined, { ...DEFAULT_RESPIRATORY_CONTEXT, respiratoryEffect: endpoints.respiratory }, undefined, random
+    );
 
-      snapshots.push({
-        secondsAhead: t,
-        ceByDrug,
-        effectByDrug,
-        combinedEff: comb,
-        moass: effectToMOASS(comb),
-        spo2: simVitals.spo2,
-        rr: simVitals.rr,
-      });
-      nextSampleIdx++;
-    }
+    snapshots.push({
+      secondsAhead: t,
+      ceByDrug,
+      effectByDrug,
+      combinedEff: comb,
+      moass: effectToMOASS(comb),
+      spo2: simVitals.spo2,
+      rr: simVitals.rr,
+    });
   }
 
   return snapshots;
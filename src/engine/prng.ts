@@ -0,0 +1,35 @@
+/**
+ * Seeded Pseudo-Random Number Generator
+ * mulberry32: a 32-bit state generator, fast and well distributed for
+ * simulation use (not cryptographic). The same seed always reproduces the
+ * same sequence, so a session can be replayed from its seed.
+ *
+ * References:
+ *   Ettinger T. mulberry32 (2017), public domain
+ *   Box GEP, Muller ME. Ann Math Stat 1958;29:610-611 (normal deviates)
+ */
+
+/** Uniform deviate in [0, 1), same contract as Math.random */
+export type Rng = () => number;
+
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal deviate (Box-Muller) */
+export function gaussian(rng: Rng): number {
+  const u = 1 - rng();  // (0, 1], keeps log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+/** A fresh 32-bit seed for a new session */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,464 @@
+import { PKState } from '../types';
+
+/**
+ * Drug-Interaction Response Surfaces
+ * Probability of non-response for two co-administered drugs on three
+ * clinical endpoints:
+ *   verbal      — loss of response to verbal stimulus (MOASS ≤ 2)
+ *   noxious     — tolerance of a noxious stimulus (laryngoscopy / colonoscopy)
+ *   respiratory — clinically significant respiratory depression
+ *
+ * Three surface families are supported, selectable per drug pair:
+ *   Greco (1990):   U = Ua + Ub + α·Ua·Ub,  E = U^γ / (1 + U^γ)
+ *   Minto (2000):   θ = Ub/(Ua+Ub),  U50(θ) = 1 − βθ + βθ²,
+ *                   E = (U/U50)^γ(θ) / (1 + (U/U50)^γ(θ))
+ *   Hierarchical (Bouillon 2004): the opioid (drug B) lowers the hypnotic
+ *                   C50, C50A' = C50A·(1 − Cb^γb/(Cb^γb + C50B^γb)),
+ *                   E = Ca^γa / (Ca^γa + C50A'^γa)
+ * with Ua = Ca/C50A and Ub = Cb/C50B.
+ *
+ * Sedatives without a registered pair (dexmedetomidine, methadone,
+ * α-hydroxymidazolam), and opioids given without a hypnotic, contribute
+ * through single-drug Hill curves; the opioid verbal curves plateau, so an
+ * opioid alone produces drowsiness but not loss of response.
+ *
+ * Concentrations are in PK-state units: propofol, midazolam, ketamine,
+ * methadone and α-hydroxymidazolam mcg/mL; fentanyl, remifentanil and
+ * dexmedetomidine ng/mL.
+ *
+ * The verbal and noxious endpoints set the MOASS level (sedationDepth in
+ * pdModel), the respiratory endpoint the depression of the CO2 response
+ * curve (ventilation.ts); they also feed the isobologram panel and the
+ * stimulus/airway models.
+ *
+ * References:
+ *   Greco WR et al. Cancer Res 1990;50:5318-5327
+ *   Minto CF et al. Anesthesiology 2000;92:1603-1616
+ *   Bouillon TW et al. Anesthesiology 2004;100:1353-1372
+ *   Vinik HR et al. Anesth Analg 1994;78:354-358 (midazolam–fentanyl)
+ *   Hui TW et al. Anesthesiology 1995;82:641-648 (propofol–ketamine)
+ *   Short TG, Chui PT. Anesthesiology 1991;75:612-616 (propofol–midazolam)
+ *   Hannivoort LN et al. Anesthesiology 2015;123:357-367 (dexmedetomidine)
+ */
+
+export type ResponseEndpoint = 'verbal' | 'noxious' | 'respiratory';
+export const RESPONSE_ENDPOINTS: ResponseEndpoint[] = ['verbal', 'noxious', 'respiratory'];
+
+export type InteractionModelType = 'greco' | 'minto' | 'hierarchical';
+
+export interface EndpointSurface {
+  type: InteractionModelType;
+  C50A: number;
+  gammaA: number;
+  C50B: number;    // hierarchical: opioid Ce halving the hypnotic C50
+  gammaB: number;
+  alpha?: number;  // Greco interaction (> 0 synergy, < 0 antagonism)
+  beta?: number;   // Minto U50(θ) curvature, 0 ≤ β < 4
+}
+
+/** Single-drug endpoint curve: E = Emax · (C/C50)^γ / (1 + (C/C50)^γ) */
+export interface SoloCurve {
+  C50: number;
+  gamma: number;
+  Emax?: number;   // plateau below certain non-response (default 1)
+}
+
+export interface ResponseSurfaceModel {
+  id: string;
+  name: string;
+  citation: string;
+  drugA: string;   // hypnotic
+  drugB: string;   // second drug (opioid / adjunct)
+  endpoints: Record<ResponseEndpoint, EndpointSurface>;
+}
+
+/** Selected model id per drug pair key ('propofol+remifentanil') */
+export type InteractionSelection = Record<string, string>;
+
+export type EndpointEffects = Record<ResponseEndpoint, number>;
+
+export const ZERO_ENDPOINT_EFFECTS: EndpointEffects = { verbal: 0, noxious: 0, respiratory: 0 };
+
+export function pairKey(drugA: string, drugB: string): string {
+  return `${drugA}+${drugB}`;
+}
+
+/** Effect-site concentration per drug key */
+export function effectSiteConcentrations(pkStates: Record<string, PKState>): Record<string, number> {
+  return Object.fromEntries(Object.entries(pkStates).map(([name, s]) => [name, s.ce]));
+}
+
+// ---------------------------------------------------------------------------
+// Parameter sets
+// ---------------------------------------------------------------------------
+
+const BOUILLON_PROPOFOL_REMIFENTANIL: ResponseSurfaceModel = {
+  id: 'bouillon_2004',
+  name: 'Bouillon 2004 (hierarchical)',
+  citation: 'Bouillon TW et al. Anesthesiology 2004;100:1353-1372',
+  drugA: 'propofol',
+  drugB: 'remifentanil',
+  endpoints: {
+    verbal: { type: 'hierarchical', C50A: 1.8, gammaA: 5.1, C50B: 12.5, gammaB: 1.2 },
+    noxious: { type: 'hierarchical', C50A: 6.6, gammaA: 5.6, C50B: 1.1, gammaB: 1.4 },
+    respiratory: { type: 'greco', C50A: 3.5, gammaA: 3.0, C50B: 2.0, gammaB: 2.5, alpha: 2.0 },
+  },
+};
+
+const MINTO_PROPOFOL_REMIFENTANIL: ResponseSurfaceModel = {
+  id: 'minto_2000',
+  name: 'Minto 2000',
+  citation: 'Minto CF et al. Anesthesiology 2000;92:1603-1616',
+  drugA: 'propofol',
+  drugB: 'remifentanil',
+  endpoints: {
+    verbal: { type: 'minto', C50A: 2.1, gammaA: 4.0, C50B: 33, gammaB: 2.0, beta: 2.6 },
+    noxious: { type: 'minto', C50A: 6.5, gammaA: 5.0, C50B: 6.0, gammaB: 2.0, beta: 3.0 },
+    respiratory: { type: 'minto', C50A: 3.5, gammaA: 3.0, C50B: 2.0, gammaB: 2.5, beta: 1.6 },
+  },
+};
+
+const GRECO_PROPOFOL_REMIFENTANIL: ResponseSurfaceModel = {
+  id: 'greco',
+  name: 'Greco',
+  citation: 'Greco WR et al. Cancer Res 1990;50:5318-5327',
+  drugA: 'propofol',
+  drugB: 'remifentanil',
+  endpoints: {
+    verbal: { type: 'greco', C50A: 2.1, gammaA: 4.0, C50B: 33, gammaB: 2.0, alpha: 4.0 },
+    noxious: { type: 'greco', C50A: 6.5, gammaA: 5.0, C50B: 6.0, gammaB: 2.0, alpha: 6.0 },
+    respiratory: { type: 'greco', C50A: 3.5, gammaA: 3.0, C50B: 2.0, gammaB: 2.5, alpha: 2.0 },
+  },
+};
+
+const GRECO_PROPOFOL_FENTANYL: ResponseSurfaceModel = {
+  id: 'greco',
+  name: 'Greco',
+  citation: 'Smith C et al. Anesthesiology 1994;81:820-828',
+  drugA: 'propofol',
+  drugB: 'fentanyl',
+  endpoints: {
+    verbal: { type: 'greco', C50A: 2.2, gammaA: 4.0, C50B: 30, gammaB: 1.5, alpha: 1.0 },
+    noxious: { type: 'greco', C50A: 6.0, gammaA: 5.0, C50B: 5.0, gammaB: 2.0, alpha: 3.0 },
+    respiratory: { type: 'greco', C50A: 3.5, gammaA: 3.0, C50B: 3.0, gammaB: 2.5, alpha: 2.0 },
+  },
+};
+
+const HIERARCHICAL_PROPOFOL_FENTANYL: ResponseSurfaceModel = {
+  id: 'hierarchical',
+  name: 'Hierarchical',
+  citation: 'Bouillon TW et al. Anesthesiology 2004;100:1353-1372 (fentanyl-scaled)',
+  drugA: 'propofol',
+  drugB: 'fentanyl',
+  endpoints: {
+    verbal: { type: 'hierarchical', C50A: 2.2, gammaA: 4.0, C50B: 8.0, gammaB: 1.2 },
+    noxious: { type: 'hierarchical', C50A: 6.0, gammaA: 5.0, C50B: 1.5, gammaB: 1.4 },
+    respiratory: { type: 'greco', C50A: 3.5, gammaA: 3.0, C50B: 3.0, gammaB: 2.5, alpha: 2.0 },
+  },
+};
+
+const GRECO_MIDAZOLAM_FENTANYL: ResponseSurfaceModel = {
+  id: 'greco',
+  name: 'Greco',
+  citation: 'Vinik HR et al. Anesth Analg 1994;78:354-358; Bailey PL et al. Anesthesiology 1990;73:826-830',
+  drugA: 'midazolam',
+  drugB: 'fentanyl',
+  endpoints: {
+    // Midazolam arm calibrated on the Greenblatt PK: 2 mg → MOASS 3, 5 mg → MOASS 2
+    verbal: { type: 'greco', C50A: 0.07, gammaA: 3.0, C50B: 30, gammaB: 1.5, alpha: 3.0 },
+    noxious: { type: 'greco', C50A: 1.0, gammaA: 3.0, C50B: 5.0, gammaB: 2.0, alpha: 2.0 },
+    respiratory: { type: 'greco', C50A: 0.6, gammaA: 2.5, C50B: 3.0, gammaB: 2.5, alpha: 4.0 },
+  },
+};
+
+const MINTO_MIDAZOLAM_FENTANYL: ResponseSurfaceModel = {
+  id: 'minto_2000',
+  name: 'Minto 2000',
+  citation: 'Minto CF et al. Anesthesiology 2000;92:1603-1616 (midazolam–alfentanil, fentanyl-scaled)',
+  drugA: 'midazolam',
+  drugB: 'fentanyl',
+  endpoints: {
+    verbal: { type: 'minto', C50A: 0.07, gammaA: 3.0, C50B: 30, gammaB: 1.5, beta: 2.8 },
+    noxious: { type: 'minto', C50A: 1.0, gammaA: 3.0, C50B: 5.0, gammaB: 2.0, beta: 2.4 },
+    respiratory: { type: 'minto', C50A: 0.6, gammaA: 2.5, C50B: 3.0, gammaB: 2.5, beta: 3.2 },
+  },
+};
+
+const GRECO_PROPOFOL_KETAMINE: ResponseSurfaceModel = {
+  id: 'greco',
+  name: 'Greco',
+  citation: 'Hui TW et al. Anesthesiology 1995;82:641-648',
+  drugA: 'propofol',
+  drugB: 'ketamine',
+  endpoints: {
+    // Additive for hypnosis, infra-additive for anaesthesia
+    verbal: { type: 'greco', C50A: 2.2, gammaA: 4.0, C50B: 1.0, gammaB: 3.0, alpha: 0 },
+    noxious: { type: 'greco', C50A: 6.0, gammaA: 5.0, C50B: 2.0, gammaB: 3.0, alpha: -0.3 },
+    // Ketamine preserves ventilatory drive and offsets propofol depression
+    respiratory: { type: 'greco', C50A: 3.5, gammaA: 3.0, C50B: 20, gammaB: 3.0, alpha: -1.5 },
+  },
+};
+
+const GRECO_PROPOFOL_MIDAZOLAM: ResponseSurfaceModel = {
+  id: 'greco',
+  name: 'Greco',
+  citation: 'Short TG, Chui PT. Anesthesiology 1991;75:612-616',
+  drugA: 'propofol',
+  drugB: 'midazolam',
+  endpoints: {
+    verbal: { type: 'greco', C50A: 2.2, gammaA: 4.0, C50B: 0.07, gammaB: 3.0, alpha: 1.5 },
+    noxious: { type: 'greco', C50A: 6.0, gammaA: 5.0, C50B: 1.0, gammaB: 3.0, alpha: 1.0 },
+    respiratory: { type: 'greco', C50A: 3.5, gammaA: 3.0, C50B: 0.6, gammaB: 2.5, alpha: 1.2 },
+  },
+};
+
+/**
+ * A drug without a partner takes its single-drug curve from the first pair
+ * it appears in (unless SOLO_RESPONSE_CURVES has one), so the pairs sharing
+ * the consensus propofol and midazolam arms come first; the stronger
+ * Bouillon propofol arm then only applies with remifentanil, and adding a
+ * partner never lightens an endpoint.
+ */
+export const RESPONSE_SURFACE_REGISTRY: Record<string, ResponseSurfaceModel[]> = {
+  [pairKey('propofol', 'fentanyl')]: [GRECO_PROPOFOL_FENTANYL, HIERARCHICAL_PROPOFOL_FENTANYL],
+  [pairKey('midazolam', 'fentanyl')]: [GRECO_MIDAZOLAM_FENTANYL, MINTO_MIDAZOLAM_FENTANYL],
+  [pairKey('propofol', 'remifentanil')]: [BOUILLON_PROPOFOL_REMIFENTANIL, MINTO_PROPOFOL_REMIFENTANIL, GRECO_PROPOFOL_REMIFENTANIL],
+  [pairKey('propofol', 'ketamine')]: [GRECO_PROPOFOL_KETAMINE],
+  [pairKey('propofol', 'midazolam')]: [GRECO_PROPOFOL_MIDAZOLAM],
+};
+
+/**
+ * Single-drug curves, used in place of a pair's arm when the drug has no
+ * partner on board. Dexmedetomidine sedates without analgesia or
+ * respiratory depression; methadone is scaled from fentanyl by its
+ * ventilatory Ce50; α-hydroxymidazolam has about half the potency of
+ * midazolam. Fentanyl and remifentanil take their noxious and respiratory
+ * curves from their pair arms; their verbal curves plateau, so 25-100 mcg
+ * fentanyl or remifentanil 2-20 ng/mL alone is drowsy (MOASS 4) and never
+ * deeper.
+ */
+export const SOLO_RESPONSE_CURVES: Record<string, Record<ResponseEndpoint, SoloCurve>> = {
+  fentanyl: {
+    verbal: { C50: 0.08, gamma: 2.0, Emax: 0.24 },
+    noxious: { C50: 5, gamma: 2.0 },
+    respiratory: { C50: 3, gamma: 2.5 },
+  },
+  remifentanil: {
+    verbal: { C50: 0.5, gamma: 2.0, Emax: 0.24 },
+    noxious: { C50: 6, gamma: 2.0 },
+    respiratory: { C50: 2, gamma: 2.5 },
+  },
+  dexmedetomidine: {
+    verbal: { C50: 0.7, gamma: 3.5 },
+    noxious: { C50: 8, gamma: 2.0 },
+    respiratory: { C50: 20, gamma: 2.0 },
+  },
+  methadone: {
+    verbal: { C50: 2.1, gamma: 1.5 },
+    noxious: { C50: 0.35, gamma: 2.0 },
+    respiratory: { C50: 0.25, gamma: 2.5 },
+  },
+  hydroxymidazolam: {
+    verbal: { C50: 0.14, gamma: 3.0 },
+    noxious: { C50: 2.0, gamma: 3.0 },
+    respiratory: { C50: 1.2, gamma: 2.5 },
+  },
+};
+
+export const DEFAULT_INTERACTION_MODELS: InteractionSelection = {
+  [pairKey('propofol', 'fentanyl')]: 'greco',
+  [pairKey('midazolam', 'fentanyl')]: 'greco',
+  [pairKey('propofol', 'remifentanil')]: 'bouillon_2004',
+  [pairKey('propofol', 'ketamine')]: 'greco',
+  [pairKey('propofol', 'midazolam')]: 'greco',
+};
+
+export function getInteractionModel(key: string, modelId?: string): ResponseSurfaceModel | undefined {
+  const models = RESPONSE_SURFACE_REGISTRY[key];
+  if (!models) return undefined;
+  return models.find(m => m.id === (modelId ?? DEFAULT_INTERACTION_MODELS[key])) ?? models[0];
+}
+
+// ---------------------------------------------------------------------------
+// Surface evaluation
+// ---------------------------------------------------------------------------
+
+function sigmoid(u: number, gamma: number): number {
+  if (u <= 0) return 0;
+  const ug = Math.pow(u, gamma);
+  return ug / (1 + ug);
+}
+
+/** Probability of non-response from a drug's SOLO_RESPONSE_CURVES entry, 0 without one */
+function soloCurveEffect(drug: string, endpoint: ResponseEndpoint, ce: number): number {
+  const solo = SOLO_RESPONSE_CURVES[drug]?.[endpoint];
+  return solo ? (solo.Emax ?? 1) * sigmoid(ce / solo.C50, solo.gamma) : 0;
+}
+
+/**
+ * Probability of non-response on one endpoint for concentrations ceA, ceB.
+ */
+export function surfaceEffect(surface: EndpointSurface, ceA: number, ceB: number): number {
+  const a = Math.max(0, ceA);
+  const b = Math.max(0, ceB);
+
+  if (surface.type === 'hierarchical') {
+    if (a === 0) return 0;
+    const bg = Math.pow(b, surface.gammaB);
+    const opioidShift = b > 0 ? bg / (bg + Math.pow(surface.C50B, surface.gammaB)) : 0;
+    const c50 = surface.C50A * (1 - opioidShift);
+    if (c50 <= 0) return 1;
+    return sigmoid(a / c50, surface.gammaA);
+  }
+
+  const ua = a / surface.C50A;
+  const ub = b / surface.C50B;
+  const sum = ua + ub;
+  if (sum <= 0) return 0;
+  const theta = ub / sum;
+  const gamma = surface.gammaA * (1 - theta) + surface.gammaB * theta;
+
+  if (surface.type === 'greco') {
+    const u = sum + (surface.alpha ?? 0) * ua * ub;
+    return sigmoid(u, gamma);
+  }
+
+  const beta = surface.beta ?? 0;
+  const u50 = Math.max(1e-6, 1 - beta * theta + beta * theta * theta);
+  return sigmoid(sum / u50, gamma);
+}
+
+/**
+ * Endpoint probabilities for every drug on board.
+ * Registered pairs are evaluated on their surfaces, strongest first and
+ * without reusing a drug; remaining drugs contribute their curve from
+ * SOLO_RESPONSE_CURVES, or else the single-drug arm of a surface they
+ * appear in.
+ * Independent contributions are combined by Bliss independence.
+ */
+export function evaluateResponseSurface(
+  ceByDrug: Record<string, number>,
+  selection: InteractionSelection = DEFAULT_INTERACTION_MODELS
+): EndpointEffects {
+  const present = Object.keys(ceByDrug).filter(k => ceByDrug[k] > 0);
+  const models = Object.keys(RESPONSE_SURFACE_REGISTRY)
+    .map(key => getInteractionModel(key, selection[key])!)
+    .filter(Boolean);
+
+  const result = { ...ZERO_ENDPOINT_EFFECTS };
+  for (const endpoint of RESPONSE_ENDPOINTS) {
+    const candidates = models
+      .filter(m => present.includes(m.drugA) && present.includes(m.drugB))
+      .map(m => ({
+        m,
+        // A partner never lightens what a drug's single-drug curve gives alone
+        effect: Math.max(
+          surfaceEffect(m.endpoints[endpoint], ceByDrug[m.drugA], ceByDrug[m.drugB]),
+          soloCurveEffect(m.drugA, endpoint, ceByDrug[m.drugA]),
+          soloCurveEffect(m.drugB, endpoint, ceByDrug[m.drugB])
+        ),
+      }))
+      .sort((x, y) => y.effect - x.effect);
+
+    const used = new Set<string>();
+    let survival = 1;
+    for (const { m, effect } of candidates) {
+      if (used.has(m.drugA) || used.has(m.drugB)) continue;
+      used.add(m.drugA);
+      used.add(m.drugB);
+      survival *= 1 - effect;
+    }
+    for (const drug of present) {
+      if (used.has(drug)) continue;
+      const ce = ceByDrug[drug];
+      if (SOLO_RESPONSE_CURVES[drug]) {
+        survival *= 1 - soloCurveEffect(drug, endpoint, ce);
+        continue;
+      }
+      const m = models.find(x => x.drugA === drug || x.drugB === drug);
+      if (!m) continue;
+      const effect = m.drugA === drug
+        ? surfaceEffect(m.endpoints[endpoint], ce, 0)
+        : surfaceEffect(m.endpoints[endpoint], 0, ce);
+      survival *= 1 - effect;
+    }
+    result[endpoint] = 1 - survival;
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Isobolograms
+// ---------------------------------------------------------------------------
+
+export interface IsobolePoint {
+  ceA: number;
+  ceB: number;
+}
+
+/** Concentration of one drug alone giving the effect level, or null if unreachable */
+function soloConcentration(surface: EndpointSurface, drug: 'A' | 'B', level: number): number | null {
+  const effectAt = (c: number) => (drug === 'A' ? surfaceEffect(surface, c, 0) : surfaceEffect(surface, 0, c));
+  let hi = drug === 'A' ? surface.C50A : surface.C50B;
+  for (let i = 0; i < 30 && effectAt(hi) < level; i++) hi *= 2;
+  if (effectAt(hi) < level) return null;
+  let lo = 0;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (effectAt(mid) < level) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+}
+
+/**
+ * Isobole: pairs (ceA, ceB) producing the given effect level.
+ * When drug B alone cannot reach the level (hierarchical opioid arm), the
+ * curve is traced out to four times its C50.
+ */
+export function isobole(
+  model: ResponseSurfaceModel,
+  endpoint: ResponseEndpoint,
+  level = 0.5,
+  points = 40
+): IsobolePoint[] {
+  const surface = model.endpoints[endpoint];
+  const soloA = soloConcentration(surface, 'A', level);
+  if (soloA === null) return [];
+  const soloB = soloConcentration(surface, 'B', level);
+  const maxB = soloB ?? surface.C50B * 4;
+
+  const out: IsobolePoint[] = [];
+  for (let i = 0; i <= points; i++) {
+    const ceB = (maxB * i) / points;
+    if (surfaceEffect(surface, 0, ceB) >= level) {
+      out.push({ ceA: 0, ceB });
+      continue;
+    }
+    // Antagonistic surfaces bow outwards beyond the single-drug concentration
+    let lo = 0;
+    let hi = soloA;
+    for (let k = 0; k < 10 && surfaceEffect(surface, hi, ceB) < level; k++) hi *= 2;
+    if (surfaceEffect(surface, hi, ceB) < level) continue;
+    for (let k = 0; k < 60; k++) {
+      const mid = (lo + hi) / 2;
+      if (surfaceEffect(surface, mid, ceB) < level) lo = mid;
+      else hi = mid;
+    }
+    out.push({ ceA: hi, ceB });
+  }
+  return out;
+}
+
+/**
+ * Isobologram for a model and endpoint at several effect levels
+ * (default 50% and 95%), keyed by level.
+ */
+export function isobologram(
+  model: ResponseSurfaceModel,
+  endpoint: ResponseEndpoint,
+  levels: number[] = [0.5, 0.95],
+  points = 40
+): Record<number, IsobolePoint[]> {
+  return Object.fromEntries(levels.map(level => [level, isobole(model, endpoint, level, points)]));
+}
@@ -321,6 +321,8 @@ export const HARD_LARYNGOSPASM: InteractiveScenario = {
       simActions: [
         { type: 'administer_drug', drug: 'fentanyl', dose: 50 },
         { type: 'administer_drug', drug: 'propofol', dose: 120 },
+        { type: 'apply_stimulus', stimulus: 'upper_endoscopy' },
+        { type: 'trigger_complication', complication: 'laryngospasm', severity: 0.4 },
         { type: 'advance_time', seconds: 60 },
       ],
       highlight: ['fentanyl-50', 'propofol-100'],
@@ -339,6 +341,7 @@ export const HARD_LARYNGOSPASM: InteractiveScenario = {
         'Be alert — the glottis is highly sensitive at this level of sedation. Any stimulation can trigger spasm.',
       ],
       simActions: [
+        { type: 'trigger_complication', complication: 'laryngospasm', severity: 0.9 },
         { type: 'advance_time', seconds: 120 },
       ],
       teachingPoints: [
@@ -374,6 +377,7 @@ export const HARD_LARYNGOSPASM: InteractiveScenario = {
       },
       simActions: [
         { type: 'apply_intervention', intervention: 'jaw_thrust' },
+        { type: 'apply_intervention', intervention: 'cpap' },
         { type: 'apply_intervention', intervention: 'bag_mask' },
         { type: 'set_airway_device', device: 'nasal_cannula' },
         { type: 'set_fio2', fio2: 1.0 },
@@ -414,6 +418,7 @@ export const HARD_LARYNGOSPASM: InteractiveScenario = {
       },
       simActions: [
         { type: 'administer_drug', drug: 'propofol', dose: 60 },
+        { type: 'administer_drug', drug: 'succinylcholine', dose: 20 },
         { type: 'set_fio2', fio2: 1.0 },
       ],
       highlight: ['propofol-50', 'fio2-slider'],
@@ -977,6 +982,7 @@ export const HARD_HEMORRHAGE: InteractiveScenario = {
         },
       },
       simActions: [
+        { type: 'start_bleeding', source: 'arterial', volume: 1500 },
         { type: 'apply_intervention', intervention: 'increase_fio2' },
         { type: 'set_fio2', fio2: 0.60 },
       ],
@@ -48,6 +48,7 @@ export const MOD_ELDERLY_COPD: InteractiveScenario = {
       '72-year-old male, COPD GOLD stage II (FEV1 58%), ex-smoker',
       'Hypertension, hyperlipidemia — ASA 3',
       'Medications: tiotropium, salbutamol, lisinopril, atorvastatin',
+      'Split-dose PEG bowel prep overnight, NPO since midnight — likely ~1.5 L behind',
       'SpO2 on room air at baseline: 95%',
     ],
     exam: [
@@ -91,6 +92,7 @@ export const MOD_ELDERLY_COPD: InteractiveScenario = {
         },
       },
       simActions: [
+        { type: 'set_volume_deficit', volume: 1500 },
         { type: 'set_airway_device', device: 'nasal_cannula' },
         { type: 'set_fio2', fio2: 0.32 },
       ],
@@ -98,6 +100,7 @@ export const MOD_ELDERLY_COPD: InteractiveScenario = {
       teachingPoints: [
         'COPD reduces FRC and increases V/Q mismatch — small doses cause disproportionate desaturation.',
         'Elderly + COPD: reduce all sedative doses by 30-50% from the standard.',
+        'After bowel prep the patient is hypovolemic — propofol unmasks it as hypotension. Consider a fluid bolus before induction.',
       ],
     },
     {
@@ -28,6 +28,14 @@ export const SimActionTypeSchema = z.enum([
   'change_oxygen',
   'change_position',
   'apply_stimulus',
+  'trigger_complication',
+  'start_bleeding',
+  'volume_deficit',
+  'cardiac_arrest',
+  'defibrillate',
+  'treat_cause',
+  'set_rhythm',
+  'start_pacing',
 ]);
 
 export const ExitConditionTypeSchema = z.enum([
@@ -42,7 +42,14 @@ export interface SessionRecording {
     weight: number;
     sex: string;
     asa: number;
+    /** Virtual patient seed (populationVariability.ts); absent for the typical patient */
+    variabilitySeed?: number;
   };
+  /**
+   * Seed of the simulation's PRNG (prng.ts). With the event log, a session
+   * recorded from t = 0 can be re-simulated bit-exactly.
+   */
+  simulationSeed?: number;
   /** Compressed timeline of frames (mix of keyframes + delta frames). */
   frames: StoredFrame[];
   /** All event-log entries for the session (deduplicated). */
@@ -229,6 +236,7 @@ export class SessionRecorder {
   private patientInfo: SessionRecording['patient'] = {
     archetypeKey: 'unknown', age: 0, weight: 0, sex: 'M', asa: 1,
   };
+  private simulationSeed: number | undefined;
   private lastKeyframeVitals: CompactVitals | null = null;
   private lastKeyframePK: Record<string, CompactPK> = {};
   private lastKeyframeMoass: MOASSLevel = 5;
@@ -248,6 +256,11 @@ export class SessionRecorder {
     this.patientInfo = { ...info };
   }
 
+  /** Set the simulation seed for inclusion in the exported recording. */
+  setSimulationSeed(seed: number): void {
+    this.simulationSeed = seed;
+  }
+
   /**
    * Record a simulation snapshot. Call this once per simulation tick.
    * Automatically decides between keyframe and delta frame.
@@ -374,6 +387,7 @@ export class SessionRecorder {
       endedAt: new Date().toISOString(),
       durationSeconds: lastFrame ? lastFrame.t : 0,
       patient: { ...this.patientInfo },
+      simulationSeed: this.simulationSeed,
       frames: this.frames,
       eventLog: this.eventLog,
       millieMessages: this.millieLog,
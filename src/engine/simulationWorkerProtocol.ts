@@ -0,0 +1,177 @@
+import { InfusionState, InterventionType, DrugRoute } from '../types';
+import { createInitialPKState } from './pkModel';
+import {
+  stepSimulation, giveBolus, SimulationState, SimulationInputs, SimulationStep,
+} from './SedSimCoreEngine';
+import { Rng, createRng } from './prng';
+
+/**
+ * Simulation Worker Protocol
+ * Typed messages between the UI store and the simulation Web Worker, and
+ * the framework-free runner the worker wraps. The worker owns the clock:
+ * it steps `stepSimulation` at the current speed and posts the steps back;
+ * the store applies them exactly as its own `tick()` would.
+ *
+ * Bolus, infusion, intervention, speed and run commands are applied
+ * exactly as they arrive. Every other store change (stimuli, fluids,
+ * oxygen, complications, CPR, shocks and pacing, vital overrides, patient)
+ * reaches the worker as a `sync` patch of the changed fields; `load`
+ * replaces the whole state and reseeds the generator (reset, new seed).
+ */
+
+/** Fields a `sync` patch may carry; drugs and interventions only change through their commands */
+export type SyncableState = Omit<SimulationState, 'pkStates' | 'imDepots' | 'drugTotals' | 'infusions'>;
+export type SyncableInputs = Omit<SimulationInputs, 'interventions'>;
+
+export type SimulationCommand =
+  | { type: 'load'; state: SimulationState; inputs: SimulationInputs; seed: number }
+  | { type: 'sync'; state: Partial<SyncableState>; inputs: Partial<SyncableInputs> }
+  | { type: 'bolus'; drugName: string; dose: number; route: DrugRoute }
+  | { type: 'infusion'; drugName: string; infusion: InfusionState | null }
+  | { type: 'intervention'; intervention: InterventionType; active: boolean }
+  | { type: 'speed'; speedMultiplier: number }
+  | { type: 'run'; running: boolean };
+
+export type SimulationMessage =
+  | { type: 'steps'; steps: SimulationStep[] };
+
+export const SYNCABLE_STATE_KEYS: (keyof SyncableState)[] = [
+  'elapsedSeconds', 'metaboliteStates', 'ivFluids', 'volume', 'vitals', 'moass', 'combinedEff',
+  'endpointEffects', 'airway', 'circulation', 'ischemia', 'acls', 'electrical', 'neuromuscular',
+  'airwayComplications', 'complicationEffects', 'activeStimuli', 'stimulusResponse', 'activeAlarms',
+  'eegState', 'digitalTwin', 'emergencyState',
+];
+
+export const SYNCABLE_INPUT_KEYS: (keyof SyncableInputs)[] = [
+  'patient', 'variability', 'pkModelSelection', 'interactionModels', 'fio2', 'airwayDevice', 'position', 'cpr',
+];
+
+/**
+ * A `load` command from anything holding the store's simulation fields.
+ * Both halves are spelled out field by field so a field added to
+ * SimulationState or SimulationInputs fails to compile until it is carried here.
+ */
+export function loadCommand(
+  source: SimulationState & SimulationInputs & { simulationSeed: number }
+): SimulationCommand {
+  const state: SimulationState = {
+    elapsedSeconds: source.elapsedSeconds,
+    pkStates: source.pkStates,
+    infusions: source.infusions,
+    imDepots: source.imDepots,
+    drugTotals: source.drugTotals,
+    metaboliteStates: source.metaboliteStates,
+    ivFluids: source.ivFluids,
+    volume: source.volume,
+    vitals: source.vitals,
+    moass: source.moass,
+    combinedEff: source.combinedEff,
+    endpointEffects: source.endpointEffects,
+    airway: source.airway,
+    circulation: source.circulation,
+    ischemia: source.ischemia,
+    acls: source.acls,
+    electrical: source.electrical,
+    neuromuscular: source.neuromuscular,
+    airwayComplications: source.airwayComplications,
+    complicationEffects: source.complicationEffects,
+    activeStimuli: source.activeStimuli,
+    stimulusResponse: source.stimulusResponse,
+    activeAlarms: source.activeAlarms,
+    eegState: source.eegState,
+    digitalTwin: source.digitalTwin,
+    emergencyState: source.emergencyState,
+  };
+  const inputs: SimulationInputs = {
+    patient: source.patient,
+    variability: source.variability,
+    pkModelSelection: source.pkModelSelection,
+    interactionModels: source.interactionModels,
+    fio2: source.fio2,
+    interventions: source.interventions,
+    airwayDevice: source.airwayDevice,
+    position: source.position,
+    cpr: source.cpr,
+  };
+  return { type: 'load', state, inputs, seed: source.simulationSeed };
+}
+
+/**
+ * The worker's simulation: state, inputs and seeded generator, advanced by
+ * `interval()` at the same cadence as the main-thread loop (one step per
+ * simulated second, `round(speed)` steps per timer interval).
+ */
+export class SimulationRunner {
+  private state: SimulationState | null = null;
+  private inputs: SimulationInputs | null = null;
+  private rng: Rng = createRng(0);
+  private speedMultiplier = 1;
+  private running = false;
+
+  handle(command: SimulationCommand): void {
+    switch (command.type) {
+      case 'load':
+        this.state = command.state;
+        this.inputs = command.inputs;
+        this.rng = createRng(command.seed);
+        break;
+      case 'sync':
+        if (this.state) this.state = { ...this.state, ...command.state };
+        if (this.inputs) this.inputs = { ...this.inputs, ...command.inputs };
+        break;
+      case 'bolus':
+        if (this.state && this.inputs) {
+          this.state = { ...this.state, ...giveBolus(this.state, this.inputs, command.drugName, command.dose, command.route) };
+        }
+        break;
+      case 'infusion':
+        if (this.state) {
+          const infusions = { ...this.state.infusions };
+          if (command.infusion) infusions[command.drugName] = command.infusion;
+          else delete infusions[command.drugName];
+          // Drugs without a bolus card (e.g. remifentanil TCI) get a PK state on first use
+          const pkStates = this.state.pkStates[command.drugName]
+            ? this.state.pkStates
+            : { ...this.state.pkStates, [command.drugName]: createInitialPKState() };
+          this.state = { ...this.state, infusions, pkStates };
+        }
+        break;
+      case 'intervention':
+        if (this.inputs) {
+          const interventions = new Set(this.inputs.interventions);
+          if (command.active) interventions.add(command.intervention);
+          else interventions.delete(command.intervention);
+          this.inputs = { ...this.inputs, interventions };
+        }
+        break;
+      case 'speed':
+        this.speedMultiplier = command.speedMultiplier;
+        break;
+      case 'run':
+        this.running = command.running;
+        break;
+    }
+  }
+
+  /** Timer period in ms; fractional speeds (0.5×) stretch the interval */
+  get intervalMs(): number {
+    return 1000 / (this.speedMultiplier / Math.round(this.speedMultiplier) || 1);
+  }
+
+  get isRunning(): boolean {
+    return this.running && this.state !== null;
+  }
+
+  /** The steps for one timer interval; none while paused or before `load` */
+  interval(): SimulationStep[] {
+    if (!this.isRunning) return [];
+    const steps: SimulationStep[] = [];
+    const ticks = Math.max(1, Math.round(this.speedMultiplier));
+    for (let i = 0; i < ticks; i++) {
+      const step = stepSimulation(this.state!, this.inputs!, this.rng);
+      this.state = step.state;
+      steps.push(step);
+    }
+    return steps;
+  }
+}
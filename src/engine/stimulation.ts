@@ -0,0 +1,260 @@
+import { MOASSLevel, Vitals, CardiacRhythm } from '../types';
+import { EndpointEffects } from './responseSurface';
+
+/**
+ * Procedure Stimulation
+ * Time-varying stimulus profiles for the painful and arousing moments of a
+ * procedure (scope insertion, loop formation at the splenic flexure, dental
+ * injection...). Each profile is a list of segments with a peak intensity
+ * (0-1); the active intensity at time t is the envelope of all running
+ * profiles.
+ *
+ * The response is gated by the interaction surfaces in responseSurface.ts:
+ * noxious stimuli break through with probability 1 - P(no response to
+ * noxious), verbal stimuli with 1 - P(no response to verbal). Breakthrough
+ * arousal lightens the observed MOASS and produces a sympathetic HR/BP rise.
+ *
+ * References:
+ *   Bouillon TW et al. Anesthesiology 2004;100:1353-1372 (stimulus-dependent
+ *     probability of response)
+ *   Luginbühl M et al. Anesthesiology 2006;105:462-470 (noxious stimulus
+ *     response index)
+ */
+
+export type StimulusKind = 'noxious' | 'verbal';
+
+export interface StimulusSegment {
+  offset: number;     // s from stimulus start
+  duration: number;   // s at peak intensity
+  intensity: number;  // 0-1 peak
+  label: string;
+  airway?: boolean;   // instrumentation or fluid at the larynx (laryngospasm trigger)
+}
+
+export interface StimulusProfile {
+  id: string;
+  name: string;
+  kind: StimulusKind;
+  segments: StimulusSegment[];
+}
+
+export interface ActiveStimulus {
+  profileId: string;
+  startTime: number;  // simulation seconds
+  scale: number;      // multiplies every segment's peak intensity
+}
+
+export interface StimulusIntensity {
+  noxious: number;
+  verbal: number;
+  label: string | null;  // strongest segment currently running
+}
+
+export interface StimulusResponse {
+  intensity: StimulusIntensity;
+  arousal: number;       // 0-1 breakthrough after drug blunting
+  moassShift: number;    // MOASS levels lighter than the drug-only level
+  hrDelta: number;       // bpm
+  sbpDelta: number;      // mmHg
+  dbpDelta: number;      // mmHg
+}
+
+export const ZERO_STIMULUS_RESPONSE: StimulusResponse = {
+  intensity: { noxious: 0, verbal: 0, label: null },
+  arousal: 0,
+  moassShift: 0,
+  hrDelta: 0,
+  sbpDelta: 0,
+  dbpDelta: 0,
+};
+
+/** Onset ramp to peak intensity */
+const RISE_S = 5;
+/** Offset decay after a segment ends (catecholamine washout) */
+const DECAY_S = 20;
+/** Full breakthrough arousal lightens sedation by this many MOASS levels */
+const MAX_MOASS_SHIFT = 3;
+/** Sympathetic response to a maximal, unblunted noxious stimulus */
+const MAX_HR_RISE = 30;
+const MAX_SBP_RISE = 35;
+const MAX_DBP_RISE = 18;
+/** Verbal arousal raises HR only slightly */
+const VERBAL_HR_RISE = 5;
+
+const PULSELESS_RHYTHMS: CardiacRhythm[] = [
+  'ventricular_fibrillation', 'ventricular_tachycardia', 'polymorphic_vt', 'asystole', 'pea',
+];
+
+export const STIMULUS_PROFILES: Record<string, StimulusProfile> = {
+  pain: {
+    id: 'pain',
+    name: 'Painful stimulus',
+    kind: 'noxious',
+    segments: [{ offset: 0, duration: 20, intensity: 0.6, label: 'Painful stimulus' }],
+  },
+  verbal: {
+    id: 'verbal',
+    name: 'Verbal stimulus',
+    kind: 'verbal',
+    segments: [{ offset: 0, duration: 10, intensity: 1, label: 'Name called loudly' }],
+  },
+  scope_insertion: {
+    id: 'scope_insertion',
+    name: 'Scope insertion',
+    kind: 'noxious',
+    segments: [{ offset: 0, duration: 45, intensity: 0.5, label: 'Scope insertion' }],
+  },
+  splenic_flexure: {
+    id: 'splenic_flexure',
+    name: 'Splenic flexure',
+    kind: 'noxious',
+    segments: [{ offset: 0, duration: 60, intensity: 0.85, label: 'Loop at splenic flexure' }],
+  },
+  colonoscopy: {
+    id: 'colonoscopy',
+    name: 'Colonoscopy',
+    kind: 'noxious',
+    segments: [
+      { offset: 0, duration: 45, intensity: 0.5, label: 'Scope insertion' },
+      { offset: 180, duration: 90, intensity: 0.7, label: 'Sigmoid loop' },
+      { offset: 420, duration: 60, intensity: 0.85, label: 'Loop at splenic flexure' },
+      { offset: 600, duration: 45, intensity: 0.6, label: 'Hepatic flexure' },
+      { offset: 780, duration: 30, intensity: 0.4, label: 'Caecal intubation' },
+    ],
+  },
+  upper_endoscopy: {
+    id: 'upper_endoscopy',
+    name: 'Upper endoscopy',
+    kind: 'noxious',
+    segments: [
+      { offset: 0, duration: 30, intensity: 0.9, label: 'Oropharyngeal intubation', airway: true },
+      { offset: 60, duration: 120, intensity: 0.3, label: 'Gastric insufflation' },
+    ],
+  },
+  dental_injection: {
+    id: 'dental_injection',
+    name: 'Dental injection',
+    kind: 'noxious',
+    segments: [{ offset: 0, duration: 20, intensity: 0.7, label: 'Local anaesthetic injection' }],
+  },
+  dental_extraction: {
+    id: 'dental_extraction',
+    name: 'Dental extraction',
+    kind: 'noxious',
+    segments: [
+      { offset: 0, duration: 20, intensity: 0.7, label: 'Local anaesthetic injection' },
+      { offset: 300, duration: 60, intensity: 0.9, label: 'Luxation and extraction', airway: true },
+    ],
+  },
+};
+
+/** Peak-normalised envelope of one segment at `t` seconds after stimulus start */
+function segmentEnvelope(seg: StimulusSegment, t: number): number {
+  const end = seg.offset + seg.duration;
+  if (t < seg.offset || t > end + DECAY_S) return 0;
+  if (t < seg.offset + RISE_S) return (t - seg.offset) / RISE_S;
+  if (t <= end) return 1;
+  return 1 - (t - end) / DECAY_S;
+}
+
+/** Seconds from start after which the stimulus no longer contributes */
+export function stimulusEndTime(profile: StimulusProfile): number {
+  return Math.max(...profile.segments.map(s => s.offset + s.duration)) + DECAY_S;
+}
+
+export function isStimulusFinished(stimulus: ActiveStimulus, time: number): boolean {
+  const profile = STIMULUS_PROFILES[stimulus.profileId];
+  return !profile || time - stimulus.startTime > stimulusEndTime(profile);
+}
+
+/**
+ * Current stimulus intensity per kind. Concurrent stimuli of the same kind
+ * combine as independent events: 1 - Π(1 - i).
+ */
+export function stimulusIntensity(active: ActiveStimulus[], time: number): StimulusIntensity {
+  let noxiousMiss = 1;
+  let verbalMiss = 1;
+  let strongest = 0;
+  let label: string | null = null;
+
+  for (const stimulus of active) {
+    const profile = STIMULUS_PROFILES[stimulus.profileId];
+    if (!profile) continue;
+    const t = time - stimulus.startTime;
+    for (const seg of profile.segments) {
+      const i = Math.min(1, seg.intensity * stimulus.scale * segmentEnvelope(seg, t));
+      if (i <= 0) continue;
+      if (profile.kind === 'noxious') noxiousMiss *= 1 - i;
+      else verbalMiss *= 1 - i;
+      if (i > strongest) {
+        strongest = i;
+        label = seg.label;
+      }
+    }
+  }
+
+  return { noxious: 1 - noxiousMiss, verbal: 1 - verbalMiss, label };
+}
+
+/**
+ * Stimulation at the larynx (0-1) from segments flagged `airway`, combined
+ * as independent events. Drives laryngospasm and reflex bronchospasm.
+ */
+export function airwayStimulation(active: ActiveStimulus[], time: number): number {
+  let miss = 1;
+  for (const stimulus of active) {
+    const profile = STIMULUS_PROFILES[stimulus.profileId];
+    if (!profile) continue;
+    const t = time - stimulus.startTime;
+    for (const seg of profile.segments) {
+      if (!seg.airway) continue;
+      miss *= 1 - Math.min(1, seg.intensity * stimulus.scale * segmentEnvelope(seg, t));
+    }
+  }
+  return 1 - miss;
+}
+
+/**
+ * Breakthrough response to the current stimulus given the drug effect on
+ * each endpoint.
+ */
+export function computeStimulusResponse(
+  intensity: StimulusIntensity,
+  effects: EndpointEffects
+): StimulusResponse {
+  const noxiousArousal = intensity.noxious * (1 - effects.noxious);
+  const verbalArousal = intensity.verbal * (1 - effects.verbal);
+  const arousal = 1 - (1 - noxiousArousal) * (1 - verbalArousal);
+
+  return {
+    intensity,
+    arousal,
+    moassShift: Math.round(arousal * MAX_MOASS_SHIFT),
+    hrDelta: noxiousArousal * MAX_HR_RISE + verbalArousal * VERBAL_HR_RISE,
+    sbpDelta: noxiousArousal * MAX_SBP_RISE,
+    dbpDelta: noxiousArousal * MAX_DBP_RISE,
+  };
+}
+
+/** Drug-only MOASS lightened by stimulus arousal */
+export function stimulatedMOASS(moass: MOASSLevel, response: StimulusResponse): MOASSLevel {
+  return Math.min(5, moass + response.moassShift) as MOASSLevel;
+}
+
+/**
+ * Add the sympathetic response to the physiology engine's vitals. Skipped
+ * in pulseless rhythms, where there is no circulation to respond.
+ */
+export function applyStimulusToVitals(vitals: Vitals, response: StimulusResponse): Vitals {
+  if (response.arousal <= 0) return vitals;
+  if (vitals.rhythm && PULSELESS_RHYTHMS.includes(vitals.rhythm)) return vitals;
+  const sbp = Math.min(220, vitals.sbp + response.sbpDelta);
+  const dbp = Math.min(140, vitals.dbp + response.dbpDelta);
+  return {
+    ...vitals,
+    hr: Math.min(180, vitals.hr + response.hrDelta),
+    sbp,
+    dbp,
+    map: (sbp + 2 * dbp) / 3,
+  };
+}
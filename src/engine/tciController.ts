@@ -0,0 +1,176 @@
+import { DrugParams, PKState, TCISettings } from '../types';
+import { createInitialPKState, applyBolus, advancePK } from './pkModel';
+
+/**
+ * Target-Controlled Infusion (TCI) Controller
+ * Computes, from the current PK state, the bolus and infusion rate a TCI
+ * pump must deliver over the next interval to reach and hold a plasma (Cp)
+ * or effect-site (Ce) target.
+ *
+ * Plasma targeting: bolus fills V1 up to the target, then the rate is chosen
+ * so that c1 is exactly on target at the end of each interval.
+ *
+ * Effect-site targeting (Shafer & Gregg 1992, STANPUMP): a bolus is sized so
+ * that the predicted Ce peak just reaches the target with the pump paused.
+ * Once Ce has peaked (c1 = Ce at the peak), plasma is held at the target,
+ * which holds Ce there too.
+ *
+ * References:
+ *   Shafer SL, Gregg KM. J Pharmacokinet Biopharm 1992;20:147-169
+ *   Glen JB. Anaesthesia 1998;53 Suppl 1:13-21 (Diprifusor)
+ *   Absalom AR et al. Br J Anaesth 2009;103:26-37
+ */
+
+export interface TCIDrugConfig {
+  maxRate: number;           // pump ceiling in drug units/min (1200 mL/h of the standard syringe)
+  maxTarget: number;         // highest target the pump accepts
+  defaultTarget: number;
+  defaultDecrementTarget: number;
+  concentrationUnit: string;
+}
+
+export const TCI_DRUG_CONFIG: Record<string, TCIDrugConfig> = {
+  // Propofol 1% (10 mg/mL)
+  propofol: { maxRate: 200, maxTarget: 8, defaultTarget: 2, defaultDecrementTarget: 1, concentrationUnit: 'mcg/mL' },
+  // Remifentanil 50 mcg/mL
+  remifentanil: { maxRate: 1000, maxTarget: 10, defaultTarget: 2, defaultDecrementTarget: 1, concentrationUnit: 'ng/mL' },
+  // Dexmedetomidine 4 mcg/mL
+  dexmedetomidine: { maxRate: 80, maxTarget: 2, defaultTarget: 0.5, defaultDecrementTarget: 0.2, concentrationUnit: 'ng/mL' },
+};
+
+export interface TCICommand {
+  bolus: number;  // amount delivered at the start of the interval (mg or mcg)
+  rate: number;   // infusion rate for the interval (mg/min or mcg/min)
+}
+
+/** Relative band around the target treated as "on target" */
+export const TCI_TOLERANCE = 0.02;
+
+const PREDICTION_STEP_S = 5;
+const PEAK_HORIZON_S = 600;
+const TIME_TO_TARGET_HORIZON_S = 1800;
+const DECREMENT_HORIZON_S = 4 * 3600;
+const DECREMENT_STEP_S = 10;
+
+/**
+ * Infusion rate that puts c1 exactly on target after dt seconds,
+ * clamped to [0, maxRate].
+ */
+function plasmaHoldRate(state: PKState, drug: DrugParams, target: number, dt: number, maxRate: number): number {
+  const free = advancePK(state, drug, 0, dt).c1;
+  const perUnitRate = advancePK(createInitialPKState(), drug, 1, dt).c1;
+  if (perUnitRate <= 0) return 0;
+  return Math.min(maxRate, Math.max(0, (target - free) / perUnitRate));
+}
+
+/** Ce trajectory sampled every PREDICTION_STEP_S over the peak horizon with the pump paused */
+function ceTrajectory(state: PKState, drug: DrugParams): number[] {
+  const out = [state.ce];
+  let s = state;
+  for (let t = PREDICTION_STEP_S; t <= PEAK_HORIZON_S; t += PREDICTION_STEP_S) {
+    s = advancePK(s, drug, 0, PREDICTION_STEP_S);
+    out.push(s.ce);
+  }
+  return out;
+}
+
+/**
+ * Smallest bolus whose predicted Ce peak (superimposed on the current
+ * free decay) reaches the target. The peak is monotone in the bolus size,
+ * so bisection converges.
+ */
+function effectSiteBolus(drug: DrugParams, target: number, free: number[]): number {
+  const unit = ceTrajectory(applyBolus(createInitialPKState(), drug, 1), drug);
+  const peakFor = (bolus: number) => free.reduce((m, c, i) => Math.max(m, c + bolus * unit[i]), 0);
+
+  const unitPeak = Math.max(...unit);
+  if (unitPeak <= 0) return 0;
+  let lo = 0;
+  let hi = target / unitPeak;
+  for (let i = 0; i < 50; i++) {
+    const mid = (lo + hi) / 2;
+    if (peakFor(mid) < target) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+}
+
+/**
+ * Bolus and rate for the next dt seconds.
+ * @param state Current PK state
+ * @param drug Patient-specific drug parameters
+ * @param settings Target site and concentration
+ * @param dt Control interval in seconds
+ * @param maxRate Pump rate ceiling (drug units/min)
+ */
+export function computeTCICommand(
+  state: PKState,
+  drug: DrugParams,
+  settings: Pick<TCISettings, 'targetSite' | 'target'>,
+  dt: number,
+  maxRate = Infinity
+): TCICommand {
+  const { target } = settings;
+  if (target <= 0) return { bolus: 0, rate: 0 };
+
+  if (settings.targetSite === 'plasma') {
+    const bolus = state.c1 < target * (1 - TCI_TOLERANCE) ? (target - state.c1) * drug.V1 : 0;
+    const loaded = applyBolus(state, drug, bolus);
+    return { bolus, rate: plasmaHoldRate(loaded, drug, target, dt, maxRate) };
+  }
+
+  const low = target * (1 - TCI_TOLERANCE);
+  const high = target * (1 + TCI_TOLERANCE);
+
+  if (state.ce < low) {
+    const free = ceTrajectory(state, drug);
+    // Drug already on board will not carry Ce to the target: load
+    if (Math.max(...free) < low) {
+      return { bolus: effectSiteBolus(drug, target, free), rate: 0 };
+    }
+    // Ce is still climbing towards a peak at the target: wait
+    return { bolus: 0, rate: 0 };
+  }
+
+  // Above target: pause until Ce decays into the band
+  if (state.ce > high) return { bolus: 0, rate: 0 };
+
+  return { bolus: 0, rate: plasmaHoldRate(state, drug, target, dt, maxRate) };
+}
+
+/**
+ * Seconds until Ce is within tolerance of the target with the controller
+ * running, or null if not reached within 30 minutes.
+ */
+export function predictTimeToTarget(
+  state: PKState,
+  drug: DrugParams,
+  settings: Pick<TCISettings, 'targetSite' | 'target'>,
+  maxRate = Infinity
+): number | null {
+  const onTarget = (s: PKState) => Math.abs(s.ce - settings.target) <= settings.target * TCI_TOLERANCE;
+  let s = state;
+  for (let t = 0; t <= TIME_TO_TARGET_HORIZON_S; t += PREDICTION_STEP_S) {
+    if (onTarget(s)) return t;
+    const cmd = computeTCICommand(s, drug, settings, PREDICTION_STEP_S, maxRate);
+    s = advancePK(applyBolus(s, drug, cmd.bolus), drug, cmd.rate, PREDICTION_STEP_S);
+  }
+  return null;
+}
+
+/**
+ * Decrement time: seconds for Ce to fall to the given concentration if the
+ * pump were stopped now. Returns 0 if already below, null beyond 4 hours.
+ */
+export function decrementTime(
+  state: PKState,
+  drug: DrugParams,
+  concentration: number
+): number | null {
+  let s = state;
+  for (let t = 0; t <= DECREMENT_HORIZON_S; t += DECREMENT_STEP_S) {
+    if (s.ce <= concentration) return t;
+    s = advancePK(s, drug, 0, DECREMENT_STEP_S);
+  }
+  return null;
+}
@@ -0,0 +1,386 @@
+/**
+ * 12-Lead ECG Synthesizer
+ *
+ * Extends the Gaussian beat model of ecgWaveformEngine.ts from one lead to
+ * twelve: every wave (P, septal Q, R, terminal S, ST, T) is a Gaussian in
+ * beat phase carrying a cardiac dipole direction, and each lead records the
+ * projection of that dipole on its lead vector.
+ *
+ *   V_lead(θ) = Σᵢ (dᵢ · L_lead) · aᵢ · exp(-(θ - θᵢ)² / (2·bᵢ²))
+ *
+ * Axes: x = patient's left, y = inferior, z = anterior. Limb leads lie in
+ * the frontal plane (hexaxial system); precordial leads in the horizontal
+ * plane from V1 (right parasternal) to V6 (left mid-axillary), with a
+ * higher gain for their proximity to the heart.
+ *
+ * Morphology modifiers act on conducted (supraventricular) beats: left and
+ * right bundle branch block, LVH with strain, and ST deviation from an
+ * injury current pointing at an ischemic territory, which produces
+ * elevation in the facing leads and reciprocal depression opposite.
+ *
+ * References:
+ *   McSharry PE et al. IEEE Trans Biomed Eng 2003;50:289-294 (ECGSYN)
+ *   Dower GE. J Electrocardiol 1984;17:189-191 (lead vectors)
+ *   Surawicz B et al. Circulation 2009;119:e235-e240 (BBB criteria)
+ *   Wagner GS et al. Circulation 2009;119:e262-e270 (ST territories)
+ */
+
+import { CardiacRhythm, Patient } from '../types';
+import {
+  GaussianComponent, evaluateGaussians, applyHRMorphology, VTACH_WIDE,
+  vfibWaveform, afibBaseline, flutterBaseline, torsadesEnvelope,
+} from './ecgWaveformEngine';
+import { cardiacPhenotype } from './circulation';
+import { Rng } from './prng';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type TwelveLead =
+  | 'I' | 'II' | 'III' | 'aVR' | 'aVL' | 'aVF'
+  | 'V1' | 'V2' | 'V3' | 'V4' | 'V5' | 'V6';
+
+/** Standard acquisition order */
+export const TWELVE_LEADS: TwelveLead[] = [
+  'I', 'II', 'III', 'aVR', 'aVL', 'aVF', 'V1', 'V2', 'V3', 'V4', 'V5', 'V6',
+];
+
+export type ConductionPattern = 'normal' | 'lbbb' | 'rbbb';
+
+/** Coronary territories; 'subendocardial' is diffuse demand ischemia */
+export type IschemicTerritory = 'anterior' | 'inferior' | 'lateral' | 'posterior' | 'subendocardial';
+
+export interface STDeviation {
+  territory: IschemicTerritory;
+  deviation: number;  // mV along the territory vector: + elevation, − depression in facing leads
+}
+
+export interface ECGMorphology {
+  conduction: ConductionPattern;
+  lvh: boolean;
+  st: STDeviation[];
+}
+
+export const NORMAL_MORPHOLOGY: ECGMorphology = { conduction: 'normal', lvh: false, st: [] };
+
+export interface TwelveLeadInput {
+  rhythm: CardiacRhythm;
+  hr: number;
+  qtc?: number;           // Bazett QTc (ms) for the T-wave position
+  morphology?: ECGMorphology;
+  durationSec?: number;   // default 10 s
+  sampleRateHz?: number;  // default 500 Hz
+}
+
+export interface TwelveLeadECG {
+  sampleRateHz: number;
+  durationSec: number;
+  leads: Record<TwelveLead, number[]>;  // mV
+}
+
+type Vec3 = [number, number, number];
+
+interface DipoleComponent extends GaussianComponent {
+  direction: Vec3;  // unit vector; amplitude is the dipole magnitude (mV)
+}
+
+// ─── Lead vectors ────────────────────────────────────────────────────────────
+
+const PRECORDIAL_GAIN = 1.5;
+
+/** Horizontal-plane lead at `deg` from the patient's left toward anterior */
+function precordial(deg: number): Vec3 {
+  const rad = deg * Math.PI / 180;
+  return [Math.cos(rad) * PRECORDIAL_GAIN, 0, Math.sin(rad) * PRECORDIAL_GAIN];
+}
+
+const LEAD_VECTORS: Record<TwelveLead, Vec3> = {
+  I: [1, 0, 0],
+  II: [0.5, 0.866, 0],
+  III: [-0.5, 0.866, 0],
+  aVR: [-0.866, -0.5, 0],
+  aVL: [0.866, -0.5, 0],
+  aVF: [0, 1, 0],
+  V1: precordial(115),
+  V2: precordial(95),
+  V3: precordial(75),
+  V4: precordial(55),
+  V5: precordial(30),
+  V6: precordial(0),
+};
+
+function unit(x: number, y: number, z: number): Vec3 {
+  const n = Math.hypot(x, y, z);
+  return [x / n, y / n, z / n];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+// ─── Dipole beat templates ───────────────────────────────────────────────────
+
+// Timing and widths follow NORMAL_SINUS in ecgWaveformEngine.ts; magnitudes
+// are set so lead II matches the single-lead monitor (R ≈ 1.0 mV)
+const P_WAVE: DipoleComponent = { theta: -1.20, amplitude: 0.15, width: 0.09, direction: unit(0.45, 0.85, 0.25) };
+const SEPTAL_Q: DipoleComponent = { theta: -0.20, amplitude: 0.15, width: 0.04, direction: unit(-0.7, 0.1, 0.7) };
+const R_WAVE: DipoleComponent = { theta: 0.00, amplitude: 1.06, width: 0.05, direction: unit(0.69, 0.69, -0.26) };
+const S_WAVE: DipoleComponent = { theta: 0.18, amplitude: 0.25, width: 0.04, direction: unit(-0.4, -0.5, -0.75) };
+const T_WAVE: DipoleComponent = { theta: 0.75, amplitude: 0.30, width: 0.18, direction: unit(0.55, 0.6, 0.55) };
+
+/** LBBB: septum depolarises right-to-left, slow broad LV activation, discordant ST-T */
+const LBBB_R: DipoleComponent = { theta: 0.02, amplitude: 1.15, width: 0.10, direction: unit(0.77, 0.36, -0.57) };
+const LBBB_ST: DipoleComponent = { theta: 0.38, amplitude: -0.12, width: 0.15, direction: LBBB_R.direction };
+const LBBB_T: DipoleComponent = { theta: 0.80, amplitude: -0.30, width: 0.20, direction: LBBB_R.direction };
+
+/** RBBB: late rightward-anterior R' (rSR' in V1, slurred S in I/V6), T inverted V1-V3 */
+const RBBB_R_PRIME: DipoleComponent = { theta: 0.26, amplitude: 0.45, width: 0.06, direction: unit(-0.45, 0, 0.9) };
+const RBBB_T: DipoleComponent = { ...T_WAVE, direction: unit(0.55, 0.6, -0.1) };
+
+/** LVH strain: lateral ST depression and T inversion */
+const LVH_VOLTAGE = 2.0;  // Sokolow-Lyon S(V1) + R(V5/V6) ≈ 3.8 mV vs ≈ 1.9 normal
+const STRAIN_ST: DipoleComponent = { theta: 0.38, amplitude: 0.06, width: 0.12, direction: unit(-0.6, 0.2, 0.5) };
+const STRAIN_T: DipoleComponent = { theta: 0.75, amplitude: 0.25, width: 0.18, direction: unit(-0.55, 0.3, 0.6) };
+
+/** Injury current direction for each territory (toward the injured surface) */
+const TERRITORY_VECTORS: Record<IschemicTerritory, Vec3> = {
+  anterior: unit(0, 0.1, 1),           // LAD: V1-V4
+  inferior: unit(-0.3, 1, 0),          // RCA: III > II, aVF; reciprocal aVL
+  lateral: unit(0.9, -0.4, 0.2),       // LCx / diagonal: I, aVL, V5-V6
+  posterior: unit(0, 0, -1),           // depression V1-V3
+  subendocardial: unit(0.6, 0.6, 0.5), // apex-lateral; depression there, elevation aVR
+};
+
+/** ST injury component sits between the S wave and the T wave */
+const ST_THETA = 0.38;
+const ST_WIDTH = 0.16;
+
+/** Wide ventricular beats: RVOT-like inferior axis so lead II matches the monitor */
+const VENTRICULAR_AXIS = unit(0.2, 0.85, -0.5);
+const VENTRICULAR_GAIN = 1 / dot(VENTRICULAR_AXIS, LEAD_VECTORS.II);
+
+/** Atrial activity (fibrillation, flutter) projects mostly on II and V1 */
+const ATRIAL_AXIS = unit(0.2, 0.6, 0.75);
+const FLUTTER_AXIS = unit(0, 1, 0.2);
+
+/** Atrial rate (bpm) during complete heart block, as on the monitor */
+const CHB_ATRIAL_RATE = 75;
+
+/** Conducted QRS-T for the morphology */
+function conductedBeat(morphology: ECGMorphology, pWave: DipoleComponent | null): DipoleComponent[] {
+  const voltage = morphology.lvh ? LVH_VOLTAGE : 1;
+  let beat: DipoleComponent[];
+  if (morphology.conduction === 'lbbb') {
+    beat = [{ ...LBBB_R, amplitude: LBBB_R.amplitude * voltage }, LBBB_ST, LBBB_T];
+  } else {
+    beat = [
+      SEPTAL_Q,
+      { ...R_WAVE, amplitude: R_WAVE.amplitude * voltage },
+      { ...S_WAVE, amplitude: S_WAVE.amplitude * voltage },
+    ];
+    if (morphology.conduction === 'rbbb') beat.push(RBBB_R_PRIME, RBBB_T);
+    else if (morphology.lvh) beat.push(STRAIN_ST, STRAIN_T);
+    else beat.push(T_WAVE);
+  }
+  for (const { territory, deviation } of morphology.st) {
+    beat.push({ theta: ST_THETA, amplitude: deviation, width: ST_WIDTH, direction: TERRITORY_VECTORS[territory] });
+  }
+  return pWave ? [pWave, ...beat] : beat;
+}
+
+/** Single-direction beat from a scalar monitor template */
+function ventricularBeat(template: GaussianComponent[], axis: Vec3, gain: number): DipoleComponent[] {
+  return template.map(c => ({ ...c, amplitude: c.amplitude * gain, direction: axis }));
+}
+
+/** Torsades: the ventricular axis twists around the anterior axis beat by beat */
+function torsadesAxis(cycleIndex: number): Vec3 {
+  const angle = cycleIndex * 0.35;
+  return unit(0.6 * Math.sin(angle), Math.cos(angle), -0.4);
+}
+
+/**
+ * Dipole components of beat `cycleIndex`; a dropped beat in second-degree
+ * block keeps only its P wave.
+ */
+function beatComponents(
+  rhythm: CardiacRhythm,
+  morphology: ECGMorphology,
+  cycleIndex: number
+): DipoleComponent[] {
+  switch (rhythm) {
+    case 'first_degree_av_block':
+      return conductedBeat(morphology, { ...P_WAVE, theta: -1.60 });
+    case 'second_degree_type1': {
+      // Wenckebach 4:3 — PR lengthens until a QRS drops
+      const beatInGroup = cycleIndex % 4;
+      const pWave = { ...P_WAVE, theta: P_WAVE.theta - beatInGroup * 0.28 };
+      return beatInGroup === 3 ? [P_WAVE] : conductedBeat(morphology, pWave);
+    }
+    case 'second_degree_type2':
+      return cycleIndex % 3 === 2 ? [P_WAVE] : conductedBeat(morphology, P_WAVE);
+    case 'svt':
+    case 'junctional':
+    case 'atrial_fibrillation':
+    case 'atrial_flutter':
+      return conductedBeat(morphology, null);
+    case 'pea':
+      return conductedBeat(morphology, null).map(c => ({ ...c, amplitude: c.amplitude * 0.75 }));
+    case 'third_degree_av_block':
+    case 'ventricular_tachycardia':
+    case 'wide_complex_unknown':
+      return ventricularBeat(VTACH_WIDE, VENTRICULAR_AXIS, VENTRICULAR_GAIN);
+    case 'polymorphic_vt':
+      return ventricularBeat(VTACH_WIDE, torsadesAxis(cycleIndex), torsadesEnvelope(cycleIndex));
+    case 'ventricular_fibrillation':
+    case 'asystole':
+      return [];
+    default:
+      return conductedBeat(morphology, P_WAVE);
+  }
+}
+
+/** Rhythms whose beats arise in the ventricles: no HR / QTc repolarisation timing */
+const VENTRICULAR_RHYTHMS: CardiacRhythm[] = [
+  'third_degree_av_block', 'ventricular_tachycardia', 'wide_complex_unknown', 'polymorphic_vt',
+];
+
+/** One lead's Gaussian components for a beat */
+function projectBeat(beat: DipoleComponent[], lead: TwelveLead): GaussianComponent[] {
+  return beat.map(({ theta, amplitude, width, direction }) => ({
+    theta, width, amplitude: amplitude * dot(direction, LEAD_VECTORS[lead]),
+  }));
+}
+
+// ─── Synthesis ───────────────────────────────────────────────────────────────
+
+/**
+ * Synthesize a 12-lead acquisition. Beats are laid end to end at the heart
+ * rate (irregularly irregular in atrial fibrillation) with the R wave at
+ * mid-cycle as on the monitor; `random` drives AF RR variation, the phase
+ * of the first beat and asystole baseline noise.
+ */
+export function synthesizeTwelveLead(input: TwelveLeadInput, random: Rng = Math.random): TwelveLeadECG {
+  const { rhythm, qtc } = input;
+  const hr = input.hr || 75;
+  const morphology = input.morphology ?? NORMAL_MORPHOLOGY;
+  const durationSec = input.durationSec ?? 10;
+  const sampleRateHz = input.sampleRateHz ?? 500;
+  const samples = Math.round(durationSec * sampleRateHz);
+  const baseRR = 60 / hr;
+
+  const leads = Object.fromEntries(
+    TWELVE_LEADS.map(lead => [lead, new Array<number>(samples).fill(0)])
+  ) as Record<TwelveLead, number[]>;
+
+  // Beat boundaries covering the acquisition, starting part-way into a beat
+  let beatStart = -random() * baseRR;
+  let cycleIndex = 0;
+  while (beatStart < durationSec) {
+    const rr = rhythm === 'atrial_fibrillation' ? baseRR * (0.60 + random() * 0.80) : baseRR;
+    const beat = beatComponents(rhythm, morphology, cycleIndex);
+    const first = Math.max(0, Math.ceil(beatStart * sampleRateHz));
+    const last = Math.min(samples, Math.ceil((beatStart + rr) * sampleRateHz));
+    for (const lead of TWELVE_LEADS) {
+      const projected = projectBeat(beat, lead);
+      const components = VENTRICULAR_RHYTHMS.includes(rhythm) ? projected : applyHRMorphology(projected, 60 / rr, qtc);
+      const trace = leads[lead];
+      for (let i = first; i < last; i++) {
+        const phase = (i / sampleRateHz - beatStart) / rr;
+        trace[i] += evaluateGaussians(components, phase * 2 * Math.PI - Math.PI);
+      }
+    }
+    beatStart += rr;
+    cycleIndex++;
+  }
+
+  addContinuousActivity(leads, rhythm, baseRR, sampleRateHz, random);
+  return { sampleRateHz, durationSec, leads };
+}
+
+/** Activity not locked to the ventricular beat: atrial baselines, CHB P waves, VF, asystole */
+function addContinuousActivity(
+  leads: Record<TwelveLead, number[]>,
+  rhythm: CardiacRhythm,
+  baseRR: number,
+  sampleRateHz: number,
+  random: Rng
+): void {
+  const samples = leads.I.length;
+  const atrialRR = 60 / CHB_ATRIAL_RATE;
+  const chbP = { ...P_WAVE, amplitude: P_WAVE.amplitude * 0.5 };
+  for (let i = 0; i < samples; i++) {
+    const t = i / sampleRateHz;
+    let dipole: Vec3 | null = null;
+    switch (rhythm) {
+      case 'atrial_fibrillation': {
+        const a = afibBaseline(t / baseRR, t * 0.72);
+        dipole = [a * ATRIAL_AXIS[0], a * ATRIAL_AXIS[1], a * ATRIAL_AXIS[2]];
+        break;
+      }
+      case 'atrial_flutter': {
+        const f = flutterBaseline((t / baseRR) % 1);
+        dipole = [f * FLUTTER_AXIS[0], f * FLUTTER_AXIS[1], f * FLUTTER_AXIS[2]];
+        break;
+      }
+      case 'third_degree_av_block': {
+        const theta = ((t / atrialRR) % 1) * 2 * Math.PI - Math.PI;
+        const p = evaluateGaussians([chbP], theta);
+        dipole = [p * chbP.direction[0], p * chbP.direction[1], p * chbP.direction[2]];
+        break;
+      }
+      case 'ventricular_fibrillation':
+        // Wandering dipole: each axis an independently phased VF waveform
+        dipole = [vfibWaveform(t, 0), vfibWaveform(t, 0.31), vfibWaveform(t, 0.57) * 0.8];
+        break;
+      case 'asystole':
+        for (const lead of TWELVE_LEADS) leads[lead][i] += (random() - 0.5) * 0.03;
+        break;
+    }
+    if (dipole) {
+      for (const lead of TWELVE_LEADS) leads[lead][i] += dot(dipole, LEAD_VECTORS[lead]);
+    }
+  }
+}
+
+// ─── Interpretation helpers ──────────────────────────────────────────────────
+
+/** Whether beats of this rhythm are conducted through the bundles (morphology applies) */
+export function isConductedRhythm(rhythm: CardiacRhythm): boolean {
+  return !VENTRICULAR_RHYTHMS.includes(rhythm) && rhythm !== 'ventricular_fibrillation' && rhythm !== 'asystole';
+}
+
+/**
+ * Frontal QRS axis (degrees, −180..180) from the net QRS dipole of a
+ * conducted beat — normal −30° to +90°.
+ */
+export function qrsAxis(morphology: ECGMorphology = NORMAL_MORPHOLOGY): number {
+  let x = 0;
+  let y = 0;
+  for (const c of conductedBeat(morphology, null)) {
+    if (c.theta > 0.3) continue;  // ST-T
+    const area = c.amplitude * c.width;
+    x += area * c.direction[0];
+    y += area * c.direction[1];
+  }
+  return Math.atan2(y, x) * 180 / Math.PI;
+}
+
+/** ST deviation (mV) a lead records for the morphology's injury currents */
+export function leadSTDeviation(morphology: ECGMorphology, lead: TwelveLead): number {
+  return morphology.st.reduce(
+    (sum, { territory, deviation }) => sum + deviation * dot(TERRITORY_VECTORS[territory], LEAD_VECTORS[lead]), 0
+  );
+}
+
+/** Baseline conduction and voltage pattern for the patient's cardiac phenotype */
+export function morphologyForPatient(patient: Patient): ECGMorphology {
+  switch (cardiacPhenotype(patient)) {
+    case 'hcm':
+      return { ...NORMAL_MORPHOLOGY, lvh: true };
+    case 'dcm':
+    case 'chf':
+      return { ...NORMAL_MORPHOLOGY, conduction: 'lbbb' };
+    default:
+      return NORMAL_MORPHOLOGY;
+  }
+}
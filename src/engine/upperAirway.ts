@@ -0,0 +1,154 @@
+import { Patient, PKState, AirwayDevice, AirwayState, InterventionType, PatientPosition } from '../types';
+import { bodyMassIndex } from './oxygenation';
+
+/**
+ * Upper Airway Patency
+ * Hypnotics reduce pharyngeal dilator (genioglossus) tone; how far the
+ * airway then collapses depends on the patient's anatomy (Mallampati, OSA,
+ * obesity) and position. Airway manoeuvres and adjuncts relieve a fraction
+ * of the collapse; supraglottic and tracheal devices bypass the pharynx.
+ *
+ *   collapse = toneLoss(Ce) · susceptibility(patient, position)
+ *   residual = collapse · Π(1 − relief_i)
+ *   patency  = 1 − residual
+ *
+ * Patency limits the tidal volume that passes the pharynx, so breathing
+ * effort continues while alveolar ventilation falls. Partial obstruction
+ * snores and, when severe, shows paradoxical chest/abdominal movement;
+ * complete obstruction gives a flat capnogram with ongoing effort and no
+ * apneic mass flow of pharyngeal O2.
+ *
+ * Laryngospasm (airwayComplications.ts) closes the glottis below the
+ * pharynx: manoeuvres and supraglottic devices do not bypass it, only a
+ * tracheal tube does. Partial closure gives inspiratory stridor.
+ *
+ * References:
+ *   Eastwood PR et al. Anesthesiology 2005;103:470-477 (propofol and
+ *     upper airway collapsibility)
+ *   Isono S. Anesthesiology 2006;104:1081-1093 (anatomical balance model)
+ */
+
+export interface UpperAirwayState extends AirwayState {
+  snoring: boolean;
+  paradoxical: boolean;
+  stridor: boolean;
+}
+
+export const PATENT_AIRWAY: UpperAirwayState = {
+  patency: 1,
+  obstructionType: 'none',
+  intervention: 'none',
+  snoring: false,
+  paradoxical: false,
+  stridor: false,
+};
+
+/** Collapsibility of a normal-weight adult with a Mallampati 1 airway */
+const BASE_SUSCEPTIBILITY = 0.55;
+/**
+ * Residual collapse above which the airway is partially / completely
+ * obstructed. At 0.7 a resting-effort breath no longer clears the dead space.
+ */
+const PARTIAL_THRESHOLD = 0.3;
+const COMPLETE_THRESHOLD = 0.7;
+/** Residual collapse above which chest and abdomen move out of phase */
+const PARADOXICAL_THRESHOLD = 0.5;
+
+const POSITION_FACTOR: Record<PatientPosition, number> = {
+  supine: 1,
+  semi_upright: 0.85,
+  lateral: 0.65,
+};
+
+/** Fraction of the collapse each manoeuvre or adjunct relieves */
+const RELIEF: Partial<Record<InterventionType | AirwayDevice, number>> = {
+  chin_lift: 0.35,
+  bag_mask: 0.5,      // two-hand mask technique includes head tilt and jaw lift
+  cpap: 0.7,          // pneumatic splint
+  jaw_thrust: 0.6,
+  nasal_airway: 0.6,
+  oral_airway: 0.7,
+  suction: 0.1,
+};
+
+/** Devices that bypass the pharynx entirely */
+const BYPASS_DEVICES: AirwayDevice[] = ['lma', 'ett', 'cricothyroidotomy', 'tracheostomy'];
+/** Devices that also bypass the glottis */
+const INFRAGLOTTIC_DEVICES: AirwayDevice[] = ['ett', 'cricothyroidotomy', 'tracheostomy'];
+/** Glottic closure above which a partial laryngospasm is heard as stridor */
+const STRIDOR_THRESHOLD = 0.1;
+
+/** Reported intervention, most effective first */
+const REPORTED_INTERVENTIONS: AirwayState['intervention'][] = [
+  'lma', 'oral_airway', 'nasal_airway', 'jaw_thrust', 'bag_mask', 'chin_lift',
+];
+
+function sigmoidEffect(ce: number, ce50: number, gamma: number): number {
+  if (ce <= 0 || ce50 <= 0) return 0;
+  const ratio = Math.pow(ce / ce50, gamma);
+  return ratio / (1 + ratio);
+}
+
+/**
+ * Loss of pharyngeal dilator tone (0-1). Hypnotics dominate; dexmedetomidine
+ * and opioids contribute little and ketamine preserves tone. Combined by
+ * Bliss independence.
+ */
+export function pharyngealToneLoss(pkStates: Record<string, PKState>): number {
+  const effects = [
+    sigmoidEffect(pkStates.propofol?.ce || 0, 2.5, 3),
+    // Midazolam Ce is mcg/mL; Ce50 150 ng/mL
+    sigmoidEffect((pkStates.midazolam?.ce || 0) * 1000, 150, 2),
+    sigmoidEffect(pkStates.etomidate?.ce || 0, 0.4, 3),
+    0.4 * sigmoidEffect(pkStates.dexmedetomidine?.ce || 0, 1.5, 2),
+    0.3 * sigmoidEffect(pkStates.fentanyl?.ce || 0, 4, 2),
+    0.3 * sigmoidEffect(pkStates.remifentanil?.ce || 0, 2, 2),
+  ];
+  return 1 - effects.reduce((miss, e) => miss * (1 - e), 1);
+}
+
+/** Anatomical collapsibility: Mallampati, OSA, obesity and position */
+export function airwaySusceptibility(patient: Patient, position: PatientPosition): number {
+  const mallampati = patient.mallampati ?? 1;
+  const bmi = bodyMassIndex(patient);
+  const anatomy = BASE_SUSCEPTIBILITY
+    + 0.1 * (mallampati - 1)
+    + (patient.osa ? 0.25 : 0)
+    + 0.015 * Math.max(0, bmi - 25);
+  return anatomy * POSITION_FACTOR[position];
+}
+
+/**
+ * Current upper airway state from drug effect, anatomy, position, the
+ * airway manoeuvres and devices in use, and any glottic closure (0-1).
+ */
+export function assessUpperAirway(
+  pkStates: Record<string, PKState>,
+  patient: Patient,
+  interventions: Set<InterventionType>,
+  airwayDevice: AirwayDevice,
+  position: PatientPosition,
+  laryngospasm = 0
+): UpperAirwayState {
+  const glottis = INFRAGLOTTIC_DEVICES.includes(airwayDevice) ? 0 : laryngospasm;
+  const applied = new Set<InterventionType | AirwayDevice>([...interventions, airwayDevice]);
+
+  const collapse = BYPASS_DEVICES.includes(airwayDevice)
+    ? 0
+    : Math.min(1, pharyngealToneLoss(pkStates) * airwaySusceptibility(patient, position));
+  const pharyngeal = [...applied].reduce((r, key) => r * (1 - (RELIEF[key] ?? 0)), collapse);
+  const residual = 1 - (1 - pharyngeal) * (1 - glottis);
+
+  const obstructionType: AirwayState['obstructionType'] = residual >= COMPLETE_THRESHOLD
+    ? 'complete'
+    : residual >= PARTIAL_THRESHOLD ? 'partial' : 'none';
+
+  return {
+    patency: 1 - residual,
+    obstructionType,
+    intervention: REPORTED_INTERVENTIONS.find(i => applied.has(i as InterventionType | AirwayDevice)) ?? 'none',
+    snoring: obstructionType === 'partial' && pharyngeal >= PARTIAL_THRESHOLD,
+    paradoxical: residual >= PARADOXICAL_THRESHOLD,
+    stridor: obstructionType !== 'complete' && glottis >= STRIDOR_THRESHOLD,
+  };
+}
@@ -11,7 +11,7 @@
  * MDAPE = 0 %.  A passing system achieves MDAPE < 20 %.
  */
 
-import { stepPK, createInitialPKState } from '../pkModel';
+import { advancePK, applyBolus, createInitialPKState } from '../pkModel';
 import { DrugParams, PKState } from '../../types';
 import { ReferenceModel } from './publishedData';
 import { mdape, mdpe } from './mdape';
@@ -29,8 +29,6 @@ export interface DosingProtocol {
   infusionDurationMin: number;
   /** Total simulation duration (min) */
   totalDurationMin: number;
-  /** Integration step size (s) — default 1 s */
-  dtSeconds?: number;
 }
 
 export interface ConcentrationProfile {
@@ -68,7 +66,11 @@ export interface ValidationResult {
 // ---------------------------------------------------------------------------
 
 /**
- * Run a 3-compartment PK simulation using Euler integration.
+ * Run a 3-compartment PK simulation with the analytical solver.
+ *
+ * The solution is exact between events, so the simulation jumps directly
+ * from one sample time (or the end of the infusion) to the next — MDAPE
+ * then reflects model differences only, not integration error.
  *
  * @param params  Drug parameters (V1, k10-k31, ke0)
  * @param dosing  Dosing protocol
@@ -79,9 +81,6 @@ export function simulatePK(
   dosing: DosingProtocol,
   sampleTimesMin: number[]
 ): ConcentrationProfile {
-  const dt = dosing.dtSeconds ?? 1; // seconds
-  const totalSteps = Math.ceil(dosing.totalDurationMin * 60 / dt);
-
   // Build a DrugParams-compatible object
   const drug: DrugParams = {
     name: 'validation',
@@ -98,32 +97,100 @@ export function simulatePK(
     unit: 'mg',
   };
 
-  let state: PKState = createInitialPKState();
-  const sampleSet = new Set(sampleTimesMin.map(t => Math.round(t * 60))); // in seconds
+  const infusionEndMin = dosing.infusionRatePerMin > 0 ? dosing.infusionDurationMin : 0;
+  const sampleTimes = [...sampleTimesMin]
+    .filter(t => t >= 0 && t <= dosing.totalDurationMin)
+    .sort((a, b) => a - b);
+
+  // Bolus at t=0
+  let state: PKState = applyBolus(createInitialPKState(), drug, dosing.bolusMg);
+  let tMin = 0;
 
   const result: ConcentrationProfile = { timesMin: [], c1: [], ce: [] };
 
-  for (let step = 0; step <= totalSteps; step++) {
-    const timeS = step * dt;
+  for (const sampleMin of sampleTimes) {
+    // Split the interval at the end of the infusion (piecewise-constant input)
+    if (tMin < infusionEndMin && sampleMin > infusionEndMin) {
+      state = advancePK(state, drug, dosing.infusionRatePerMin, (infusionEndMin - tMin) * 60);
+      tMin = infusionEndMin;
+    }
+    const rate = tMin < infusionEndMin ? dosing.infusionRatePerMin : 0;
+    state = advancePK(state, drug, rate, (sampleMin - tMin) * 60);
+    tMin = sampleMin;
 
-    // Bolus at t=0
-    const bolus = step === 0 ? dosing.bolusMg : 0;
+    result.timesMin.push(sampleMin);
+    result.c1.push(state.c1);
+    result.ce.push(state.ce);
+  }
 
-    // Infusion (stop after infusionDurationMin)
-    const infusion =
-      dosing.infusionRatePerMin > 0 && timeS / 60 < dosing.infusionDurationMin
-        ? dosing.infusionRatePerMin
-        : 0;
+  return result;
+}
 
-    state = stepPK(state, drug, bolus, infusion, dt);
+// ---------------------------------------------------------------------------
+// Closed-form reference
+// ---------------------------------------------------------------------------
 
-    if (sampleSet.has(Math.round(timeS))) {
-      result.timesMin.push(timeS / 60);
-      result.c1.push(state.c1);
-      result.ce.push(state.ce);
-    }
-  }
+/**
+ * Disposition exponents λ1 > λ2 > λ3 (min⁻¹) of the 3-compartment
+ * mammillary model: the roots of
+ *   λ³ − (k10+k12+k13+k21+k31)·λ² + (k10·k21 + k10·k31 + k12·k31 + k13·k21 + k21·k31)·λ − k10·k21·k31
+ * solved by the trigonometric method (all three roots are real).
+ */
+function dispositionExponents(p: ReferenceModel['params']): number[] {
+  const a2 = p.k10 + p.k12 + p.k13 + p.k21 + p.k31;
+  const a1 = p.k10 * p.k21 + p.k10 * p.k31 + p.k12 * p.k31 + p.k13 * p.k21 + p.k21 * p.k31;
+  const a0 = p.k10 * p.k21 * p.k31;
+  // λ = x + a2/3 gives the depressed cubic x³ + P·x + Q = 0
+  const P = a1 - a2 * a2 / 3;
+  const Q = -2 * a2 ** 3 / 27 + a1 * a2 / 3 - a0;
+  const r = 2 * Math.sqrt(-P / 3);
+  const phi = Math.acos(Math.max(-1, Math.min(1, 3 * Q / (P * r))));
+  return [0, 1, 2].map(k => r * Math.cos((phi - 2 * Math.PI * k) / 3) + a2 / 3);
+}
+
+/**
+ * Plasma and effect-site concentrations from the closed-form tri-exponential
+ * solution (Gibaldi & Perrier, Pharmacokinetics 2nd ed. 1982, ch. 3; Shafer
+ * & Gregg, J Pharmacokinet Biopharm 1992;20:147-169), independent of the
+ * engine's matrix-exponential solver. A unit bolus gives
+ *   C1(t) = Σ Aᵢ·e^(−λᵢt) / V1,   Aᵢ = (k21 − λᵢ)(k31 − λᵢ) / Π_{j≠i}(λⱼ − λᵢ)
+ * and the effect site convolves it with ke0; a constant infusion is the
+ * integral of the bolus response, ended by superposition. Requires a
+ * 3-compartment parameter set (k31 > 0).
+ */
+export function closedFormPK(
+  params: DrugParams | ReferenceModel['params'],
+  dosing: DosingProtocol,
+  sampleTimesMin: number[]
+): ConcentrationProfile {
+  const lambdas = dispositionExponents(params);
+  const ke0 = params.ke0;
+  const coefficients = lambdas.map((li, i) =>
+    (params.k21 - li) * (params.k31 - li)
+      / lambdas.filter((_, j) => j !== i).reduce((prod, lj) => prod * (lj - li), 1)
+  );
+  const bolus = (t: number) => ({
+    c1: coefficients.reduce((sum, a, i) => sum + a * Math.exp(-lambdas[i] * t), 0) / params.V1,
+    ce: coefficients.reduce((sum, a, i) =>
+      sum + a * ke0 / (ke0 - lambdas[i]) * (Math.exp(-lambdas[i] * t) - Math.exp(-ke0 * t)), 0) / params.V1,
+  });
+  // Unit-rate infusion running from 0 to t
+  const infusion = (t: number) => t <= 0 ? { c1: 0, ce: 0 } : {
+    c1: coefficients.reduce((sum, a, i) => sum + a * (1 - Math.exp(-lambdas[i] * t)) / lambdas[i], 0) / params.V1,
+    ce: coefficients.reduce((sum, a, i) => sum + a * ke0 / (ke0 - lambdas[i])
+      * ((1 - Math.exp(-lambdas[i] * t)) / lambdas[i] - (1 - Math.exp(-ke0 * t)) / ke0), 0) / params.V1,
+  };
 
+  const rate = dosing.infusionRatePerMin;
+  const result: ConcentrationProfile = { timesMin: [], c1: [], ce: [] };
+  for (const t of sampleTimesMin.filter(t => t >= 0 && t <= dosing.totalDurationMin)) {
+    const b = bolus(t);
+    const on = infusion(t);
+    const off = infusion(t - dosing.infusionDurationMin);
+    result.timesMin.push(t);
+    result.c1.push(dosing.bolusMg * b.c1 + rate * (on.c1 - off.c1));
+    result.ce.push(dosing.bolusMg * b.ce + rate * (on.ce - off.ce));
+  }
   return result;
 }
 
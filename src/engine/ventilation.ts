@@ -0,0 +1,203 @@
+import { Patient, PKState } from '../types';
+import { evaluateResponseSurface, effectSiteConcentrations } from './responseSurface';
+
+/**
+ * Ventilatory Control
+ * Chemoreflex model: minute ventilation is a linear function of PaCO2 above
+ * an apneic threshold (the CO2 response curve), and PaCO2 follows a CO2
+ * mass balance driven by alveolar ventilation. How far the curve is
+ * depressed is the respiratory endpoint of the selected interaction
+ * surfaces (responseSurface.ts), so opioid–hypnotic synergy follows the
+ * chosen model. The drug classes set the shape: opioids shift the curve to
+ * the right (raising the apneic threshold) and flatten it; hypnotics mainly
+ * flatten it. Hypoventilation therefore raises PaCO2, which in turn restores
+ * drive — opioid apnea ends spontaneously once CO2 exceeds the threshold.
+ *
+ *   VE / VE0 = slope · (PaCO2 − threshold) / (setpoint − restingThreshold)
+ *   dPaCO2/dt = k · (setpoint − (VA / VA0) · PaCO2)
+ *
+ * At rest VA = VA0 and PaCO2 = setpoint. During apnea PaCO2 rises by
+ * k · setpoint ≈ 3.3 mmHg/min.
+ *
+ * References:
+ *   Dahan A et al. Br J Anaesth 2010;105:i1-i14 (opioid CO2 response shift)
+ *   Bouillon T et al. Anesthesiology 2003;99:779-787 (indirect-response
+ *     PaCO2 model under remifentanil/propofol)
+ *   Eger EI, Severinghaus JW. Anesthesiology 1961;22:419-425 (apneic PaCO2 rise)
+ */
+
+/** Resting PaCO2 minus the apneic threshold in an undrugged patient (mmHg) */
+const RESTING_THRESHOLD_GAP = 8;
+/** PaCO2 rise during apnea from a resting 40 mmHg (mmHg/min) */
+export const APNEIC_PACO2_RISE = 3.3;
+/** PaCO2 elimination rate constant (1/s) */
+const CO2_KEL = APNEIC_PACO2_RISE / 40 / 60;
+/** Tidal volume and anatomical dead space (mL/kg) */
+const TIDAL_VOLUME_ML_KG = 7;
+const DEAD_SPACE_ML_KG = 2.2;
+/** Arterial to end-tidal gradient at normal tidal volume (mmHg) */
+const ETCO2_GRADIENT = 2;
+/**
+ * At full bronchoconstriction: fall in effective alveolar ventilation
+ * (gas trapping, V/Q mismatch) and fall in EtCO2 relative to PaCO2
+ * (slow, incomplete emptying never reaches an alveolar plateau)
+ */
+const BRONCHOSPASM_VA_LOSS = 0.6;
+const BRONCHOSPASM_ETCO2_LOSS = 0.35;
+/** Right shift of the apneic threshold at maximal opioid / hypnotic depression (mmHg) */
+const MAX_OPIOID_SHIFT = 14;
+const MAX_HYPNOTIC_SHIFT = 3;
+/** Slope flattening at maximal opioid / hypnotic depression */
+const MAX_OPIOID_FLATTENING = 0.35;
+const MAX_HYPNOTIC_FLATTENING = 0.4;
+
+export interface CO2ResponseCurve {
+  threshold: number;      // apneic threshold PaCO2 (mmHg)
+  slopeFactor: number;    // slope relative to the undrugged curve
+  opioidShare: number;    // 0-1 fraction of depression due to opioids
+}
+
+export interface VentilationSupport {
+  assistedRatio: number | null;   // bag-mask VE / VE0, overrides drive
+  airflow: number;                // 0-1 upper airway patency, limits tidal volume
+  paralysis: number;              // 0-1 respiratory muscle block, removes spontaneous drive
+  bronchoconstriction: number;    // 0-1 lower airway narrowing
+}
+
+export interface VentilationResult {
+  rr: number;                 // breaths/min
+  tidalVolume: number;        // mL
+  minuteVentilation: number;  // L/min
+  alveolarVentilation: number; // mL/min
+  alveolarRatio: number;      // VA / VA0
+  paco2: number;              // mmHg
+  etco2: number;              // mmHg
+}
+
+export const NO_VENTILATION_SUPPORT: VentilationSupport = {
+  assistedRatio: null,
+  airflow: 1,
+  paralysis: 0,
+  bronchoconstriction: 0,
+};
+
+function sigmoidEffect(ce: number, ce50: number, gamma: number): number {
+  if (ce <= 0 || ce50 <= 0) return 0;
+  const ratio = Math.pow(ce / ce50, gamma);
+  return ratio / (1 + ratio);
+}
+
+/**
+ * CO2 response curve under the current drug concentrations.
+ * The respiratory endpoint (probability of clinically significant
+ * depression) scales the shift and flattening; the opioid share of the
+ * class effects splits it between threshold shift and slope. Clinically
+ * calibrated class curves:
+ *   - Fentanyl Ce50 for respiratory depression ~3.5 ng/mL (literature: 2-5 ng/mL)
+ *   - Remifentanil ~2.3x as potent (Ce50 1.5 ng/mL)
+ *   - Propofol Ce50 4 mcg/mL, midazolam 200 ng/mL
+ *   - Ketamine preserves the CO2 response
+ * Patient sensitivity enters through the covariate-scaled EC50s behind the
+ * respiratory endpoint, not a separate multiplier.
+ * @param respiratoryEffect Respiratory endpoint; defaults to the default surfaces at pkStates
+ */
+export function co2ResponseCurve(
+  pkStates: Record<string, PKState>,
+  setpoint: number,
+  respiratoryEffect: number = evaluateResponseSurface(effectSiteConcentrations(pkStates)).respiratory
+): CO2ResponseCurve {
+  // Opioids combine by Bliss independence
+  const fentanylEff = sigmoidEffect(pkStates.fentanyl?.ce || 0, 3.5, 1.8);
+  const remifentanilEff = sigmoidEffect(pkStates.remifentanil?.ce || 0, 1.5, 1.8);
+  // Methadone Ce is mcg/mL; Ce50 ~250 ng/mL
+  const methadoneEff = sigmoidEffect(pkStates.methadone?.ce || 0, 0.25, 1.8);
+  const opioidEffect = 1 - (1 - fentanylEff) * (1 - remifentanilEff) * (1 - methadoneEff);
+
+  const propofolEffect = sigmoidEffect(pkStates.propofol?.ce || 0, 4.0, 2.0);
+  // Midazolam Ce is mcg/mL
+  const benzoEffect = sigmoidEffect((pkStates.midazolam?.ce || 0) * 1000, 200, 1.5);
+  const hypnoticEffect = 1 - (1 - propofolEffect) * (1 - benzoEffect);
+  const ketamineSupport = (pkStates.ketamine?.ce || 0) > 0.0005 ? 0.05 : 0;
+
+  const opioidShare = opioidEffect + hypnoticEffect > 0
+    ? opioidEffect / (opioidEffect + hypnoticEffect)
+    : 0.5;
+  const shift = respiratoryEffect * (opioidShare * MAX_OPIOID_SHIFT + (1 - opioidShare) * MAX_HYPNOTIC_SHIFT);
+  const flattening = respiratoryEffect
+    * (opioidShare * MAX_OPIOID_FLATTENING + (1 - opioidShare) * MAX_HYPNOTIC_FLATTENING);
+
+  return {
+    threshold: setpoint - RESTING_THRESHOLD_GAP + shift,
+    slopeFactor: Math.max(0, Math.min(1.1, 1 - flattening + ketamineSupport)),
+    opioidShare,
+  };
+}
+
+/** Ventilatory drive (VE / VE0) at a given PaCO2 */
+export function ventilatoryDrive(curve: CO2ResponseCurve, paco2: number): number {
+  return Math.max(0, curve.slopeFactor * (paco2 - curve.threshold) / RESTING_THRESHOLD_GAP);
+}
+
+/**
+ * Advance ventilation by dt seconds.
+ * Drive is read from the previous PaCO2; the new PaCO2 then reflects the
+ * alveolar ventilation achieved. Opioids slow the rate (deep, slow breaths),
+ * hypnotics reduce tidal volume (shallow breathing, more dead space).
+ * Upper airway obstruction limits the tidal volume actually moved while the
+ * rate of effort continues; the reported RR is the effort rate.
+ * Muscle paralysis removes spontaneous drive but not assisted breaths.
+ */
+export function stepVentilation(
+  prevPaco2: number,
+  curve: CO2ResponseCurve,
+  baselineRR: number,
+  patient: Patient,
+  setpoint: number,
+  support: VentilationSupport = NO_VENTILATION_SUPPORT,
+  dt = 1
+): VentilationResult {
+  let drive = ventilatoryDrive(curve, prevPaco2) * (1 - support.paralysis);
+  if (support.assistedRatio !== null) {
+    drive = support.assistedRatio;
+  }
+
+  const vt0 = TIDAL_VOLUME_ML_KG * patient.weight;
+  const vd = DEAD_SPACE_ML_KG * patient.weight;
+  const rateWeight = 0.5 + 0.3 * curve.opioidShare;
+
+  const rr = drive > 0 ? baselineRR * Math.pow(drive, rateWeight) : 0;
+  const tidalVolume = drive > 0 ? vt0 * Math.pow(drive, 1 - rateWeight) * support.airflow : 0;
+  const alveolarVentilation = rr * Math.max(0, tidalVolume - vd)
+    * (1 - BRONCHOSPASM_VA_LOSS * support.bronchoconstriction);
+  const alveolarRatio = alveolarVentilation / restingAlveolarVentilation(patient, baselineRR);
+
+  // CO2 mass balance: constant production, elimination proportional to VA · PaCO2
+  const paco2 = Math.max(0, prevPaco2 + CO2_KEL * (setpoint - alveolarRatio * prevPaco2) * dt);
+
+  // Dead-space dilution of end-tidal gas grows as tidal volume approaches VD
+  const dilution = tidalVolume > 0
+    ? Math.min(1, Math.max(0, 1 - vd / tidalVolume) / (1 - vd / vt0))
+    : 0;
+  const etco2 = Math.max(0, (paco2 - ETCO2_GRADIENT) * dilution
+    * (1 - BRONCHOSPASM_ETCO2_LOSS * support.bronchoconstriction));
+
+  return {
+    rr,
+    tidalVolume,
+    minuteVentilation: (rr * tidalVolume) / 1000,
+    alveolarVentilation,
+    alveolarRatio,
+    paco2,
+    etco2,
+  };
+}
+
+/** Undrugged alveolar ventilation (mL/min) at the baseline rate */
+export function restingAlveolarVentilation(patient: Patient, baselineRR: number): number {
+  return baselineRR * (TIDAL_VOLUME_ML_KG - DEAD_SPACE_ML_KG) * patient.weight;
+}
+
+/** Resting PaCO2 for a baseline EtCO2 */
+export function paco2Setpoint(baselineEtco2: number): number {
+  return baselineEtco2 + ETCO2_GRADIENT;
+}
@@ -0,0 +1,228 @@
+import { Patient } from '../types';
+import { estimatedBloodVolume } from './circulation';
+
+/**
+ * Volume Kinetics
+ * Two-volume model of infused fluid: a central (plasma) volume V1 that
+ * receives infusions and loses blood, exchanging with a peripheral
+ * (interstitial) volume V2 in proportion to the difference in their
+ * dilutions, with renal elimination of excess plasma volume.
+ *
+ *   d(v1)/dt = infusion − bleeding − Cld·(v1/V1 − v2/V2) − Clr·max(0, v1/V1)
+ *   d(v2)/dt = Cld·(v1/V1 − v2/V2)
+ *
+ * v1, v2 are deviations from euvolemia (mL). A crystalloid bolus spreads to
+ * ~30% intravascular within 20-30 min; the same flux, running more slowly,
+ * refills plasma from the interstitium after hemorrhage.
+ * Each fluid has its own behavior: the free water in dextrose solutions
+ * leaves the extracellular space, while albumin and blood products are held
+ * in plasma by oncotic pressure and leave it only slowly.
+ *
+ * The intravascular deviation (v1 + oncotically held volume) is the
+ * volume change the circulation model adds to its stressed volume.
+ *
+ * References:
+ *   Svensen C, Hahn RG. Anesthesiology 1997;87:204-212 (volume kinetics)
+ *   Hahn RG. Anesthesiology 2010;113:470-481 (volume kinetics for infusion fluids)
+ *   Jacob M et al. Crit Care 2007;11:R44 (bowel preparation and blood volume)
+ */
+
+export type BleedingSource = 'gi_bleed' | 'post_extraction' | 'arterial';
+
+export interface Bleed {
+  source: BleedingSource;
+  rate: number;       // mL/min
+  remaining: number;  // mL still to be lost
+}
+
+export interface VolumeState {
+  plasma: number;        // mL deviation of freely distributing plasma volume (V1)
+  oncotic: number;       // mL held in plasma by colloid / blood products
+  interstitial: number;  // mL deviation of interstitial volume (V2)
+  bloodLoss: number;     // mL cumulative
+  bleeds: Bleed[];
+}
+
+export interface FluidKinetics {
+  /** Fraction of the infused volume that is free water and leaves the extracellular space */
+  freeWater: number;
+  /** Fraction held intravascularly by oncotic pressure */
+  oncotic: number;
+}
+
+export interface BleedingProfile {
+  name: string;
+  rate: number;    // mL/min
+  volume: number;  // mL
+}
+
+export const EUVOLEMIA: VolumeState = {
+  plasma: 0,
+  oncotic: 0,
+  interstitial: 0,
+  bloodLoss: 0,
+  bleeds: [],
+};
+
+/** IV line: running fluid and what has been delivered through it */
+export interface IVFluidState {
+  activeFluid: string | null;
+  rate: number; // mL/hr
+  location: string;
+  gauge: string;
+  totalInfused: number; // mL
+  isBolus: boolean;
+  bolusVolume: number;
+  bolusRemaining: number; // mL still to run in
+}
+
+export const NO_IV_FLUID: IVFluidState = {
+  activeFluid: null,
+  rate: 0,
+  location: 'Right Hand',
+  gauge: '20G',
+  totalInfused: 0,
+  isBolus: false,
+  bolusVolume: 0,
+  bolusRemaining: 0,
+};
+
+/** Keyed by the abbreviation shown in the IV fluids panel */
+export const FLUID_KINETICS: Record<string, FluidKinetics> = {
+  NS: { freeWater: 0, oncotic: 0 },
+  LR: { freeWater: 0, oncotic: 0 },
+  Plasmalyte: { freeWater: 0, oncotic: 0 },
+  'D5NS': { freeWater: 0, oncotic: 0 },
+  'D5½NS': { freeWater: 0.33, oncotic: 0 },
+  D5W: { freeWater: 0.67, oncotic: 0 },
+  'Albumin 5%': { freeWater: 0, oncotic: 1 },
+  pRBC: { freeWater: 0, oncotic: 1 },
+};
+
+const CRYSTALLOID: FluidKinetics = { freeWater: 0, oncotic: 0 };
+
+export const BLEEDING_PROFILES: Record<BleedingSource, BleedingProfile> = {
+  // Variceal or ulcer bleed found at EGD
+  gi_bleed: { name: 'Upper GI bleed', rate: 50, volume: 800 },
+  // Oozing socket after a difficult extraction
+  post_extraction: { name: 'Post-extraction bleeding', rate: 8, volume: 200 },
+  // Named artery hit during surgery
+  arterial: { name: 'Arterial hemorrhage', rate: 120, volume: 1200 },
+};
+
+/** Plasma volume as a fraction of blood volume */
+const PLASMA_FRACTION = 0.55;
+/** Interstitial : plasma volume ratio */
+const INTERSTITIAL_RATIO = 2.5;
+/** Distribution clearance, mL/min per kg */
+const DISTRIBUTION_CLEARANCE = 3.3;
+/** Transcapillary refill of a depleted plasma volume is slower than outward distribution */
+const REFILL_FACTOR = 0.25;
+/** Renal clearance of excess plasma volume, mL/min per kg (reduced under sedation) */
+const RENAL_CLEARANCE = 0.4;
+/** Transcapillary escape of albumin, fraction per minute (~5%/h) */
+const ONCOTIC_ESCAPE = 0.05 / 60;
+/** Gravity flow through a cannula with a pressure bag, mL/min */
+const CANNULA_FLOW: Record<string, number> = {
+  '24G': 20, '22G': 35, '20G': 60, '18G': 100, '16G': 200, '14G': 300,
+};
+
+export function fluidKinetics(fluid: string | null): FluidKinetics {
+  return (fluid && FLUID_KINETICS[fluid]) || CRYSTALLOID;
+}
+
+/** Maximum bolus rate through the cannula, mL/min */
+export function bolusFlowRate(gauge: string): number {
+  return CANNULA_FLOW[gauge] ?? CANNULA_FLOW['20G'];
+}
+
+/** Euvolemic central (plasma) and peripheral (interstitial) volumes, mL */
+export function volumeCompartments(patient: Patient): { v1: number; v2: number } {
+  const v1 = estimatedBloodVolume(patient) * PLASMA_FRACTION;
+  return { v1, v2: v1 * INTERSTITIAL_RATIO };
+}
+
+/** Intravascular volume change from euvolemia, mL */
+export function intravascularChange(state: VolumeState): number {
+  return state.plasma + state.oncotic;
+}
+
+/**
+ * Remove an extracellular deficit (e.g. from bowel prep) split between plasma
+ * and interstitium at their equilibrium ratio.
+ */
+export function applyVolumeDeficit(state: VolumeState, patient: Patient, deficit: number): VolumeState {
+  const { v1, v2 } = volumeCompartments(patient);
+  return {
+    ...state,
+    plasma: state.plasma - deficit * v1 / (v1 + v2),
+    interstitial: state.interstitial - deficit * v2 / (v1 + v2),
+  };
+}
+
+export function startBleed(state: VolumeState, source: BleedingSource, volume?: number): VolumeState {
+  const profile = BLEEDING_PROFILES[source];
+  return {
+    ...state,
+    bleeds: [...state.bleeds, { source, rate: profile.rate, remaining: volume ?? profile.volume }],
+  };
+}
+
+/**
+ * Advance the volume state by dt seconds with `infused` mL of `fluid`
+ * delivered during the step.
+ */
+export function stepVolume(
+  state: VolumeState,
+  patient: Patient,
+  infused: number,
+  fluid: string | null,
+  dt: number = 1
+): VolumeState {
+  const { v1, v2 } = volumeCompartments(patient);
+  const minutes = dt / 60;
+  const kinetics = fluidKinetics(fluid);
+
+  // Free water distributes into cells; colloid and blood stay in plasma
+  const extracellular = infused * (1 - kinetics.freeWater);
+  let plasma = state.plasma + extracellular * (1 - kinetics.oncotic);
+  let oncotic = state.oncotic + extracellular * kinetics.oncotic;
+  let interstitial = state.interstitial;
+
+  // Hemorrhage drains the intravascular space
+  let lost = 0;
+  const bleeds: Bleed[] = [];
+  for (const b of state.bleeds) {
+    const amount = Math.min(b.remaining, b.rate * minutes);
+    lost += amount;
+    if (b.remaining - amount > 0) bleeds.push({ ...b, remaining: b.remaining - amount });
+  }
+  // Lost blood carries its share of oncotically held volume
+  const intravascular = plasma + oncotic;
+  if (lost > 0 && oncotic > 0 && v1 + intravascular > 0) {
+    const share = Math.min(oncotic, lost * oncotic / (v1 + intravascular));
+    oncotic -= share;
+    plasma -= lost - share;
+  } else {
+    plasma -= lost;
+  }
+
+  // Exchange with the interstitium, albumin escape, renal elimination
+  const gradient = plasma / v1 - interstitial / v2;
+  const distribution = DISTRIBUTION_CLEARANCE * patient.weight * gradient * (gradient < 0 ? REFILL_FACTOR : 1) * minutes;
+  const escape = oncotic * ONCOTIC_ESCAPE * minutes;
+  const renal = patient.renalImpairment ? 0.3 : 1;
+  const elimination = RENAL_CLEARANCE * renal * patient.weight * Math.max(0, (plasma + oncotic) / v1) * minutes;
+  plasma -= distribution + elimination;
+  interstitial += distribution;
+  oncotic -= escape;
+  interstitial += escape;
+
+  return {
+    plasma,
+    oncotic,
+    interstitial,
+    bloodLoss: state.bloodLoss + lost,
+    bleeds,
+  };
+}
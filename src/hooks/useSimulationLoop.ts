@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import useSimStore from '../store/useSimStore';
+import { simulationWorker } from '../store/simulationWorkerClient';
+
+/**
+ * Drives the simulation clock. Where module workers are available the
+ * physiology runs in the simulation worker, which owns the timer and
+ * streams steps back into the store; otherwise the store's tick() runs on
+ * the main thread, round(speed) ticks per interval.
+ */
+export function useSimulationLoop(): void {
+  const { isRunning, speedMultiplier, tick } = useSimStore(
+    useShallow(s => ({ isRunning: s.isRunning, speedMultiplier: s.speedMultiplier, tick: s.tick }))
+  );
+
+  // Connected on mount, before the clock can be started
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    try {
+      return simulationWorker.connect(useSimStore);
+    } catch {
+      return; // worker failed to start: stay on the main-thread loop
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isRunning || simulationWorker.connected) return;
+    const interval = setInterval(() => {
+      const ticks = Math.round(speedMultiplier);
+      for (let i = 0; i < ticks; i++) {
+        tick();
+      }
+    }, 1000 / (speedMultiplier / Math.round(speedMultiplier) || 1));
+    return () => clearInterval(interval);
+  }, [isRunning, speedMultiplier, tick]);
+}
@@ -0,0 +1,95 @@
+import type { StoreApi } from 'zustand';
+import type { SimStore } from './storeTypes';
+import {
+  SimulationCommand, SimulationMessage, SyncableState, SyncableInputs,
+  SYNCABLE_STATE_KEYS, SYNCABLE_INPUT_KEYS, loadCommand,
+} from '../engine/simulationWorkerProtocol';
+
+/**
+ * Main-thread side of the simulation worker (src/workers/simulation.worker.ts).
+ * While no worker is connected (tests, browsers without module workers)
+ * posting is a no-op and the store's own tick() drives the loop.
+ *
+ * Once connected, the client subscribes to the store: infusion,
+ * intervention, speed and run changes become their commands, any other
+ * change to a simulation field is forwarded as a `sync` patch, and the
+ * worker's steps are applied through `applySimulationSteps`. Boluses (the
+ * dose is not recoverable from the state) and `load` (reset, new seed) are
+ * posted by the slices themselves. A step already in flight when a command
+ * is posted can show the pre-command state for one tick.
+ */
+class SimulationWorkerClient {
+  private worker: Worker | null = null;
+  private applyingSteps = false;
+
+  get connected(): boolean {
+    return this.worker !== null;
+  }
+
+  post(command: SimulationCommand): void {
+    this.worker?.postMessage(command);
+  }
+
+  /** Start the worker on the store's current state; returns the disconnect function */
+  connect(store: StoreApi<SimStore>): () => void {
+    const worker = new Worker(new URL('../workers/simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker = worker;
+
+    worker.onmessage = (event: MessageEvent<SimulationMessage>) => {
+      this.applyingSteps = true;
+      try {
+        store.getState().applySimulationSteps(event.data.steps);
+      } finally {
+        this.applyingSteps = false;
+      }
+    };
+
+    const unsubscribe = store.subscribe((next, prev) => {
+      if (this.applyingSteps) return;
+      if (next.isRunning !== prev.isRunning) this.post({ type: 'run', running: next.isRunning });
+      if (next.speedMultiplier !== prev.speedMultiplier) {
+        this.post({ type: 'speed', speedMultiplier: next.speedMultiplier });
+      }
+      if (next.infusions !== prev.infusions) {
+        new Set([...Object.keys(prev.infusions), ...Object.keys(next.infusions)]).forEach(drugName => {
+          if (next.infusions[drugName] !== prev.infusions[drugName]) {
+            this.post({ type: 'infusion', drugName, infusion: next.infusions[drugName] ?? null });
+          }
+        });
+      }
+      if (next.interventions !== prev.interventions) {
+        next.interventions.forEach(intervention => {
+          if (!prev.interventions.has(intervention)) this.post({ type: 'intervention', intervention, active: true });
+        });
+        prev.interventions.forEach(intervention => {
+          if (!next.interventions.has(intervention)) this.post({ type: 'intervention', intervention, active: false });
+        });
+      }
+
+      const state: Partial<Record<keyof SyncableState, unknown>> = {};
+      const inputs: Partial<Record<keyof SyncableInputs, unknown>> = {};
+      SYNCABLE_STATE_KEYS.forEach(key => { if (next[key] !== prev[key]) state[key] = next[key]; });
+      SYNCABLE_INPUT_KEYS.forEach(key => { if (next[key] !== prev[key]) inputs[key] = next[key]; });
+      if (Object.keys(state).length || Object.keys(inputs).length) {
+        this.post({
+          type: 'sync',
+          state: state as Partial<SyncableState>,
+          inputs: inputs as Partial<SyncableInputs>,
+        });
+      }
+    });
+
+    const current = store.getState();
+    this.post(loadCommand(current));
+    this.post({ type: 'speed', speedMultiplier: current.speedMultiplier });
+    this.post({ type: 'run', running: current.isRunning });
+
+    return () => {
+      unsubscribe();
+      worker.terminate();
+      if (this.worker === worker) this.worker = null;
+    };
+  }
+}
+
+export const simulationWorker = new SimulationWorkerClient();
@@ -1,90 +1,87 @@
 import { StateCreator } from 'zustand';
-import { PKState, InfusionState, LogEntry } from '../../types';
+import { PKState, InfusionState, LogEntry, TCITargetSite, DrugRoute } from '../../types';
 import { DRUG_DATABASE } from '../../engine/drugs';
-import { createInitialPKState, stepPK } from '../../engine/pkModel';
+import { createInitialPKState } from '../../engine/pkModel';
+import { DEFAULT_PK_MODELS, PKModelSelection, getPKModel, resolveDrugParams } from '../../engine/pkModelRegistry';
+import { TCI_DRUG_CONFIG } from '../../engine/tciController';
+import { DEFAULT_INTERACTION_MODELS, InteractionSelection, RESPONSE_SURFACE_REGISTRY } from '../../engine/responseSurface';
+import { VolumeState, EUVOLEMIA, IVFluidState, NO_IV_FLUID } from '../../engine/volumeKinetics';
+import { INITIAL_METABOLITE_STATES } from '../../engine/metabolites';
+import { INITIAL_PK_STATES, giveBolus } from '../../engine/SedSimCoreEngine';
+import { recordAclsDose } from '../../engine/acls';
+import { simulationWorker } from '../simulationWorkerClient';
 import type { SimStore } from '../storeTypes';
 
-export interface IVFluidState {
-  activeFluid: string | null;
-  rate: number; // mL/hr
-  location: string;
-  gauge: string;
-  totalInfused: number; // mL
-  isBolus: boolean;
-  bolusVolume: number;
-}
+export type { IVFluidState };
+export { INITIAL_PK_STATES };
 
 export interface DrugSlice {
   // State
   pkStates: Record<string, PKState>;
   infusions: Record<string, InfusionState>;
   ivFluids: IVFluidState;
+  volume: VolumeState;
+  imDepots: Record<string, number>; // drug amount still at an IM injection site
+  drugTotals: Record<string, number>; // amount given per drug (mg or mcg): boluses, infusions and TCI
+  metaboliteStates: Record<string, PKState>; // active metabolites (metabolites.ts)
   lastDrugAdministered: { name: string; dose: number; timestamp: number } | null;
   drugsAdministeredCount: number;
+  pkModelSelection: PKModelSelection;
+  interactionModels: InteractionSelection;
 
   // Actions
-  administerBolus: (drugName: string, dose: number) => void;
+  administerBolus: (drugName: string, dose: number, route?: DrugRoute) => void;
   startInfusion: (drugName: string, rate: number) => void;
   stopInfusion: (drugName: string) => void;
   changeInfusionRate: (drugName: string, rate: number) => void;
+  startTCI: (drugName: string, targetSite: TCITargetSite, target: number) => void;
+  setTCITarget: (drugName: string, target: number) => void;
   startIVFluid: (fluid: string, rate: number, isBolus: boolean, bolusVolume: number) => void;
   stopIVFluid: () => void;
   setIVAccess: (location: string, gauge: string) => void;
+  setPKModel: (drugName: string, modelId: string) => void;
+  setInteractionModel: (pair: string, modelId: string) => void;
 }
 
-export const INITIAL_PK_STATES: Record<string, PKState> = {
-  propofol: createInitialPKState(),
-  midazolam: createInitialPKState(),
-  fentanyl: createInitialPKState(),
-  ketamine: createInitialPKState(),
-  dexmedetomidine: createInitialPKState(),
-  lidocaine_epi: createInitialPKState(),
-  articaine_epi: createInitialPKState(),
-  bupivacaine: createInitialPKState(),
-};
-
 export const createDrugSlice: StateCreator<SimStore, [], [], DrugSlice> = (set, get) => ({
   pkStates: { ...INITIAL_PK_STATES },
   infusions: {},
-  ivFluids: {
-    activeFluid: null,
-    rate: 0,
-    location: 'Right Hand',
-    gauge: '20G',
-    totalInfused: 0,
-    isBolus: false,
-    bolusVolume: 0,
-  },
+  ivFluids: NO_IV_FLUID,
+  volume: EUVOLEMIA,
+  imDepots: {},
+  drugTotals: {},
+  metaboliteStates: { ...INITIAL_METABOLITE_STATES },
   lastDrugAdministered: null,
   drugsAdministeredCount: 0,
+  pkModelSelection: { ...DEFAULT_PK_MODELS },
+  interactionModels: { ...DEFAULT_INTERACTION_MODELS },
 
-  administerBolus: (drugName, dose) => {
+  administerBolus: (drugName, dose, route = 'iv') => {
     const state = get();
-    const drug = DRUG_DATABASE[drugName];
-
-    const newState = stepPK(
-      state.pkStates[drugName],
-      drug,
-      dose,
-      0,
-      1
+    const drug = resolveDrugParams(
+      drugName, state.patient, state.pkModelSelection, state.variability?.etas[drugName]
     );
+    // IM doses absorb from a depot in the tick; drugs without an IM ka are given IV
+    const intramuscular = route === 'im' && drug.ka !== undefined;
 
     const logEntry: LogEntry = {
       time: state.elapsedSeconds,
       type: 'bolus',
-      message: `${drug.name} ${dose} ${drug.unit} bolus`,
+      message: `${drug.name} ${dose} ${drug.unit} ${intramuscular ? 'IM' : 'bolus'}`,
       severity: 'info',
     };
 
     set({
-      pkStates: { ...state.pkStates, [drugName]: newState },
+      ...giveBolus(state, state, drugName, dose, route),
+      // Epinephrine and amiodarone doses time the ACLS drug prompts
+      acls: recordAclsDose(state.acls, drugName, dose, state.elapsedSeconds),
       eventLog: [...state.eventLog, logEntry],
       lastDrugAdministered: { name: drug.name, dose, timestamp: Date.now() },
       drugsAdministeredCount: state.drugsAdministeredCount + 1,
       lastUserInteraction: Date.now(),
       userIdleSeconds: 0,
     });
+    simulationWorker.post({ type: 'bolus', drugName, dose, route });
   },
 
   startInfusion: (drugName, rate) => {
@@ -149,6 +146,68 @@ export const createDrugSlice: StateCreator<SimStore, [], [], DrugSlice> = (set,
     });
   },
 
+  startTCI: (drugName, targetSite, target) => {
+    const state = get();
+    const drug = DRUG_DATABASE[drugName];
+    const config = TCI_DRUG_CONFIG[drugName];
+    if (!config) return;
+    const clamped = Math.min(config.maxTarget, Math.max(0, target));
+    const site = targetSite === 'effect' ? 'Ce' : 'Cp';
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'infusion_start',
+      message: `${drug.name} TCI started: ${site} target ${clamped} ${config.concentrationUnit}`,
+      severity: 'info',
+    };
+
+    set({
+      // Drugs without a bolus card (e.g. remifentanil) get a PK state on first use
+      pkStates: state.pkStates[drugName]
+        ? state.pkStates
+        : { ...state.pkStates, [drugName]: createInitialPKState() },
+      infusions: {
+        ...state.infusions,
+        [drugName]: {
+          drugName: drug.name,
+          rate: 0,
+          unit: `${drug.unit}/min`,
+          isRunning: true,
+          tci: { targetSite, target: clamped, decrementTarget: config.defaultDecrementTarget },
+        },
+      },
+      eventLog: [...state.eventLog, logEntry],
+      lastUserInteraction: Date.now(),
+      userIdleSeconds: 0,
+    });
+  },
+
+  setTCITarget: (drugName, target) => {
+    const state = get();
+    const infusion = state.infusions[drugName];
+    const config = TCI_DRUG_CONFIG[drugName];
+    if (!infusion?.tci || !config) return;
+    const clamped = Math.min(config.maxTarget, Math.max(0, target));
+    if (clamped === infusion.tci.target) return;
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'infusion_change',
+      message: `${infusion.drugName} TCI target changed to ${clamped} ${config.concentrationUnit}`,
+      severity: 'info',
+    };
+
+    set({
+      infusions: {
+        ...state.infusions,
+        [drugName]: { ...infusion, tci: { ...infusion.tci, target: clamped } },
+      },
+      eventLog: [...state.eventLog, logEntry],
+      lastUserInteraction: Date.now(),
+      userIdleSeconds: 0,
+    });
+  },
+
   startIVFluid: (fluid, rate, isBolus, bolusVolume) => {
     const state = get();
     const location = state.ivFluids.location;
@@ -163,7 +222,7 @@ export const createDrugSlice: StateCreator<SimStore, [], [], DrugSlice> = (set,
         rate,
         isBolus,
         bolusVolume,
-        totalInfused: isBolus ? state.ivFluids.totalInfused + bolusVolume : state.ivFluids.totalInfused,
+        bolusRemaining: isBolus ? bolusVolume : 0,
       },
       eventLog: [...state.eventLog, { time: state.elapsedSeconds, type: 'intervention', message, severity: 'info' }],
     });
@@ -173,7 +232,7 @@ export const createDrugSlice: StateCreator<SimStore, [], [], DrugSlice> = (set,
     const state = get();
     if (!state.ivFluids.activeFluid) return;
     set({
-      ivFluids: { ...state.ivFluids, activeFluid: null, rate: 0, isBolus: false, bolusVolume: 0 },
+      ivFluids: { ...state.ivFluids, activeFluid: null, rate: 0, isBolus: false, bolusVolume: 0, bolusRemaining: 0 },
       eventLog: [...state.eventLog, { time: state.elapsedSeconds, type: 'intervention', message: `[IV] ${state.ivFluids.activeFluid} stopped`, severity: 'info' }],
     });
   },
@@ -182,4 +241,24 @@ export const createDrugSlice: StateCreator<SimStore, [], [], DrugSlice> = (set,
     const state = get();
     set({ ivFluids: { ...state.ivFluids, location, gauge } });
   },
+
+  setPKModel: (drugName, modelId) => {
+    const state = get();
+    const model = getPKModel(drugName, modelId);
+    if (!model || state.pkModelSelection[drugName] === modelId) return;
+    set({
+      pkModelSelection: { ...state.pkModelSelection, [drugName]: modelId },
+      eventLog: [...state.eventLog, { time: state.elapsedSeconds, type: 'intervention', message: `${DRUG_DATABASE[drugName].name} PK model set to ${model.name}`, severity: 'info' }],
+    });
+  },
+
+  setInteractionModel: (pair, modelId) => {
+    const state = get();
+    const model = RESPONSE_SURFACE_REGISTRY[pair]?.find(m => m.id === modelId);
+    if (!model || state.interactionModels[pair] === modelId) return;
+    set({
+      interactionModels: { ...state.interactionModels, [pair]: modelId },
+      eventLog: [...state.eventLog, { time: state.elapsedSeconds, type: 'intervention', message: `${DRUG_DATABASE[model.drugA].name}–${DRUG_DATABASE[model.drugB].name} interaction model set to ${model.name}`, severity: 'info' }],
+    });
+  },
 });
@@ -2,6 +2,8 @@ import { StateCreator } from 'zustand';
 import { Patient, Vitals, LogEntry } from '../../types';
 import { PATIENT_ARCHETYPES, BASELINE_VITALS } from '../../engine/physiology';
 import { createDigitalTwin } from '../../engine/digitalTwin';
+import { PatientVariability, sampleVariability } from '../../engine/populationVariability';
+import { randomSeed } from '../../engine/prng';
 import type { SimStore } from '../storeTypes';
 
 export interface DrugProtocol {
@@ -29,6 +31,7 @@ export interface PatientSlice {
   isScenarioActive: boolean;
   scenarioDrugProtocols: DrugProtocol[] | null;
   availableArchetypes: string[];
+  variability: PatientVariability | null;  // sampled virtual patient, null = typical values
 
   // Actions
   selectPatient: (archetypeKey: string) => void;
@@ -36,6 +39,9 @@ export interface PatientSlice {
   setTrueNorthLocked: (locked: boolean) => void;
   setScenarioActive: (active: boolean) => void;
   setScenarioDrugProtocols: (protocols: DrugProtocol[] | null) => void;
+  sampleVirtualPatient: (seed?: number, hidden?: boolean) => void;
+  clearVirtualPatient: () => void;
+  setVariabilityHidden: (hidden: boolean) => void;
 }
 
 export function buildTrueNorthLabel(archetypeKey: string, patient: Patient): string {
@@ -67,6 +73,7 @@ export const createPatientSlice: StateCreator<SimStore, [], [], PatientSlice> =
   isScenarioActive: false,
   scenarioDrugProtocols: null,
   availableArchetypes: Object.keys(PATIENT_ARCHETYPES),
+  variability: null,
 
   selectPatient: (archetypeKey) => {
     const patient = PATIENT_ARCHETYPES[archetypeKey];
@@ -84,7 +91,7 @@ export const createPatientSlice: StateCreator<SimStore, [], [], PatientSlice> =
       archetypeKey,
       selectedArchetypeKey: archetypeKey,
       trueNorth: buildTrueNorth(archetypeKey, patient, state.trueNorth.isLocked),
-      digitalTwin: createDigitalTwin(patient),
+      digitalTwin: createDigitalTwin(patient, state.variability),
       eventLog: [...state.eventLog, logEntry],
     }));
   },
@@ -104,4 +111,42 @@ export const createPatientSlice: StateCreator<SimStore, [], [], PatientSlice> =
   setScenarioDrugProtocols: (protocols) => {
     set({ scenarioDrugProtocols: protocols });
   },
+
+  sampleVirtualPatient: (seed, hidden) => {
+    const state = get();
+    const variability = sampleVariability(seed ?? randomSeed(), hidden ?? state.variability?.hidden ?? false);
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'intervention',
+      message: variability.hidden
+        ? 'Virtual patient sampled (parameters hidden)'
+        : `Virtual patient sampled (seed ${variability.seed})`,
+      severity: 'info',
+    };
+
+    set({
+      variability,
+      digitalTwin: createDigitalTwin(state.patient, variability),
+      eventLog: [...state.eventLog, logEntry],
+    });
+  },
+
+  clearVirtualPatient: () => {
+    set(state => ({
+      variability: null,
+      digitalTwin: createDigitalTwin(state.patient),
+    }));
+  },
+
+  setVariabilityHidden: (hidden) => {
+    set(state => {
+      if (!state.variability) return {};
+      const variability = { ...state.variability, hidden };
+      return {
+        variability,
+        digitalTwin: state.digitalTwin ? { ...state.digitalTwin, variability } : createDigitalTwin(state.patient, variability),
+      };
+    });
+  },
 });
@@ -1,5 +1,21 @@
 import { StateCreator } from 'zustand';
-import { InterventionType, AirwayDevice, LogEntry } from '../../types';
+import { InterventionType, AirwayDevice, CardiacRhythm, LogEntry, PatientPosition } from '../../types';
+import { ActiveStimulus, StimulusResponse, STIMULUS_PROFILES, ZERO_STIMULUS_RESPONSE } from '../../engine/stimulation';
+import {
+  AirwayComplicationState, ComplicationEffects, ComplicationKind, BronchospasmCause, RescueDrug, RescueRoute,
+  NO_AIRWAY_COMPLICATIONS, NO_COMPLICATION_EFFECTS, RESCUE_DRUGS, triggerComplication,
+} from '../../engine/airwayComplications';
+import { DRUG_DATABASE } from '../../engine/drugs';
+import { BleedingSource, BLEEDING_PROFILES, startBleed, applyVolumeDeficit } from '../../engine/volumeKinetics';
+import {
+  AclsState, AclsRhythm, CPRQuality, ReversibleCause, CauseTreatment,
+  NO_ARREST, GUIDELINE_CPR, CAUSE_TREATMENTS, startArrest, recordTreatment,
+} from '../../engine/acls';
+import {
+  ElectricalState, PacerSettings, NO_ELECTRICAL_THERAPY, queueElectricalShock, setArrhythmia, canSustain,
+} from '../../engine/electricalTherapy';
+import { isPulselessRhythm } from '../../engine/cardiacRhythm';
+import { aclsEvent } from '../../engine/SedSimCoreEngine';
 import type { SimStore } from '../storeTypes';
 
 export interface ScenarioSlice {
@@ -7,23 +23,57 @@ export interface ScenarioSlice {
   interventions: Set<InterventionType>;
   fio2: number;
   airwayDevice: AirwayDevice;
+  position: PatientPosition;
   o2FlowRate: number;
   lastInterventionApplied: string | null;
+  activeStimuli: ActiveStimulus[];
+  stimulusResponse: StimulusResponse;
+  airwayComplications: AirwayComplicationState;
+  complicationEffects: ComplicationEffects;
+  acls: AclsState;
+  cpr: CPRQuality | null;
+  electrical: ElectricalState;
 
   // Actions
   applyIntervention: (intervention: InterventionType) => void;
   removeIntervention: (intervention: InterventionType) => void;
   setFiO2: (fio2: number) => void;
   setAirwayDevice: (device: AirwayDevice) => void;
+  setPosition: (position: PatientPosition) => void;
   setO2FlowRate: (rate: number) => void;
+  applyStimulus: (profileId: string, scale?: number) => void;
+  clearStimuli: () => void;
+  triggerAirwayComplication: (kind: ComplicationKind, severity?: number, cause?: BronchospasmCause) => void;
+  administerRescueDrug: (drug: RescueDrug, dose: number, route?: RescueRoute) => void;
+  startBleeding: (source: BleedingSource, volume?: number) => void;
+  setVolumeDeficit: (deficit: number) => void;
+  startCPR: (quality?: CPRQuality) => void;
+  setCPRQuality: (quality: CPRQuality) => void;
+  stopCPR: () => void;
+  deliverShock: (energy: number, synchronized?: boolean) => void;
+  startCardiacArrest: (rhythm: AclsRhythm, causes?: ReversibleCause[]) => void;
+  treatReversibleCause: (treatment: CauseTreatment) => void;
+  setSynchronized: (synchronized: boolean) => void;
+  setRhythm: (rhythm: CardiacRhythm) => void;
+  startPacing: (settings: PacerSettings) => void;
+  setPacer: (settings: PacerSettings) => void;
+  stopPacing: () => void;
 }
 
 export const createScenarioSlice: StateCreator<SimStore, [], [], ScenarioSlice> = (set, get) => ({
   interventions: new Set<InterventionType>(),
   fio2: 0.21,
   airwayDevice: 'room_air' as AirwayDevice,
+  position: 'supine' as PatientPosition,
   o2FlowRate: 2,
   lastInterventionApplied: null,
+  activeStimuli: [],
+  stimulusResponse: ZERO_STIMULUS_RESPONSE,
+  airwayComplications: NO_AIRWAY_COMPLICATIONS,
+  complicationEffects: NO_COMPLICATION_EFFECTS,
+  acls: NO_ARREST,
+  cpr: null,
+  electrical: NO_ELECTRICAL_THERAPY,
 
   applyIntervention: (intervention) => {
     const state = get();
@@ -44,6 +94,12 @@ export const createScenarioSlice: StateCreator<SimStore, [], [], ScenarioSlice>
       lastUserInteraction: Date.now(),
       userIdleSeconds: 0,
     });
+
+    // A fluid bolus runs through the IV line and the volume kinetics model;
+    // atropine and vasopressors are standard doses through their PK models
+    if (intervention === 'iv_fluid_bolus') state.startIVFluid('LR', 0, true, 500);
+    if (intervention === 'atropine') state.administerBolus('atropine', 0.5);
+    if (intervention === 'vasopressors') state.administerBolus('phenylephrine', 100);
   },
 
   removeIntervention: (intervention) => {
@@ -87,6 +143,8 @@ export const createScenarioSlice: StateCreator<SimStore, [], [], ScenarioSlice>
       room_air: 0.21,
       nasal_cannula: 0.21 + 0.04 * state.o2FlowRate,
       nasal_hood: 0.40,
+      simple_mask: 0.40,
+      nonrebreather: 0.80,
       oral_airway: 0.21,
       nasal_airway: 0.21,
       lma: 0.60,
@@ -111,6 +169,23 @@ export const createScenarioSlice: StateCreator<SimStore, [], [], ScenarioSlice>
     });
   },
 
+  setPosition: (position) => {
+    const state = get();
+    if (state.position === position) return;
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'intervention',
+      message: `Position: ${position.replace(/_/g, ' ')}`,
+      severity: 'info',
+    };
+
+    set({
+      position,
+      eventLog: [...state.eventLog, logEntry],
+    });
+  },
+
   setO2FlowRate: (rate) => {
     const state = get();
     const clampedRate = Math.max(1, Math.min(6, rate));
@@ -123,4 +198,283 @@ export const createScenarioSlice: StateCreator<SimStore, [], [], ScenarioSlice>
 
     set(updates);
   },
+
+  applyStimulus: (profileId, scale = 1) => {
+    const state = get();
+    const profile = STIMULUS_PROFILES[profileId];
+    if (!profile) return;
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'intervention',
+      message: `Stimulus: ${profile.name}${scale !== 1 ? ` (×${scale})` : ''}`,
+      severity: 'info',
+    };
+
+    set({
+      activeStimuli: [
+        ...state.activeStimuli,
+        { profileId, startTime: state.elapsedSeconds, scale: Math.max(0, scale) },
+      ],
+      eventLog: [...state.eventLog, logEntry],
+    });
+  },
+
+  clearStimuli: () => {
+    set({ activeStimuli: [], stimulusResponse: ZERO_STIMULUS_RESPONSE });
+  },
+
+  triggerAirwayComplication: (kind, severity = 0.6, cause) => {
+    const state = get();
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'alert',
+      message: kind === 'laryngospasm'
+        ? 'Laryngospasm'
+        : `Bronchospasm${cause ? ` (${cause.replace(/_/g, ' ')})` : ''}`,
+      severity: 'danger',
+    };
+
+    set({
+      airwayComplications: triggerComplication(state.airwayComplications, kind, severity, cause),
+      eventLog: [...state.eventLog, logEntry],
+    });
+  },
+
+  administerRescueDrug: (drug, dose, route) => {
+    const state = get();
+    const info = RESCUE_DRUGS[drug];
+    const givenRoute = route ?? info.defaultRoute;
+    const airwayComplications = {
+      ...state.airwayComplications,
+      rescueDoses: [
+        ...state.airwayComplications.rescueDoses,
+        { drug, dose, route: givenRoute, time: state.elapsedSeconds },
+      ],
+    };
+
+    // Epinephrine and succinylcholine also enter their PK models, which log the dose
+    if (DRUG_DATABASE[drug]) {
+      set({ airwayComplications });
+      state.administerBolus(drug, dose, givenRoute === 'im' ? 'im' : 'iv');
+      return;
+    }
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'bolus',
+      message: `${info.name} ${dose} ${info.unit} ${givenRoute.toUpperCase()}`,
+      severity: 'info',
+    };
+
+    set({
+      airwayComplications,
+      eventLog: [...state.eventLog, logEntry],
+      lastUserInteraction: Date.now(),
+      userIdleSeconds: 0,
+    });
+  },
+
+  startBleeding: (source, volume) => {
+    const state = get();
+    const profile = BLEEDING_PROFILES[source];
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'alert',
+      message: `${profile.name} (~${volume ?? profile.volume} mL)`,
+      severity: 'danger',
+    };
+
+    set({
+      volume: startBleed(state.volume, source, volume),
+      eventLog: [...state.eventLog, logEntry],
+    });
+  },
+
+  setVolumeDeficit: (deficit) => {
+    const state = get();
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'intervention',
+      message: `Extracellular fluid deficit ${deficit} mL`,
+      severity: 'warning',
+    };
+
+    set({
+      volume: applyVolumeDeficit(state.volume, state.patient, deficit),
+      eventLog: [...state.eventLog, logEntry],
+    });
+  },
+
+  startCPR: (quality = GUIDELINE_CPR) => {
+    const state = get();
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'intervention',
+      message: `CPR started: ${quality.rate}/min, ${quality.depth} cm`,
+      severity: 'info',
+    };
+
+    set({
+      cpr: quality,
+      eventLog: [...state.eventLog, logEntry],
+      lastUserInteraction: Date.now(),
+      userIdleSeconds: 0,
+    });
+  },
+
+  // Quality changes while compressing are continuous; only start and stop are logged
+  setCPRQuality: (quality) => {
+    if (!get().cpr) return;
+    set({ cpr: quality });
+  },
+
+  stopCPR: () => {
+    const state = get();
+    if (!state.cpr) return;
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'intervention',
+      message: 'CPR paused',
+      severity: 'info',
+    };
+
+    set({
+      cpr: null,
+      eventLog: [...state.eventLog, logEntry],
+    });
+  },
+
+  // The next step routes the shock (cardioversion or defibrillation), resolves it and logs its outcome
+  deliverShock: (energy, synchronized = false) => {
+    const state = get();
+    set({
+      electrical: queueElectricalShock(state.electrical, energy, synchronized),
+      lastUserInteraction: Date.now(),
+      userIdleSeconds: 0,
+    });
+  },
+
+  startCardiacArrest: (rhythm, causes = []) => {
+    const state = get();
+
+    set({
+      acls: startArrest(state.acls, rhythm, causes, state.elapsedSeconds),
+      eventLog: [...state.eventLog, aclsEvent({ type: 'arrest', rhythm, causes }, state.elapsedSeconds)],
+    });
+  },
+
+  treatReversibleCause: (treatment) => {
+    const state = get();
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'intervention',
+      message: `Treatment: ${CAUSE_TREATMENTS[treatment]}`,
+      severity: 'info',
+    };
+
+    set({
+      acls: recordTreatment(state.acls, treatment, state.elapsedSeconds),
+      eventLog: [...state.eventLog, logEntry],
+      lastUserInteraction: Date.now(),
+      userIdleSeconds: 0,
+    });
+
+    // Ventilation and volume act through the airway, oxygenation and volume models
+    if (treatment === 'ventilation') {
+      state.applyIntervention('bag_mask');
+      state.setFiO2(1.0);
+    }
+    if (treatment === 'volume') state.startIVFluid('LR', 0, true, 1000);
+  },
+
+  setSynchronized: (synchronized) => {
+    const state = get();
+    if (state.electrical.synchronized === synchronized) return;
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'intervention',
+      message: `Defibrillator sync ${synchronized ? 'on' : 'off'}`,
+      severity: 'info',
+    };
+
+    set({
+      electrical: { ...state.electrical, synchronized },
+      eventLog: [...state.eventLog, logEntry],
+      lastUserInteraction: Date.now(),
+      userIdleSeconds: 0,
+    });
+  },
+
+  // Pulseless rhythms start an arrest; the others are held until converted or cleared by a sinus rhythm
+  setRhythm: (rhythm) => {
+    const state = get();
+    if (isPulselessRhythm(rhythm)) {
+      state.startCardiacArrest(rhythm as AclsRhythm);
+      return;
+    }
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'alert',
+      message: canSustain(rhythm)
+        ? `Rhythm: ${rhythm.replace(/_/g, ' ')}`
+        : 'Rhythm returned to the physiology',
+      severity: 'warning',
+    };
+
+    set({
+      electrical: setArrhythmia(state.electrical, rhythm),
+      eventLog: [...state.eventLog, logEntry],
+    });
+  },
+
+  startPacing: (settings) => {
+    const state = get();
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'intervention',
+      message: `Transcutaneous pacing started: ${settings.rate}/min, ${settings.current} mA`,
+      severity: 'info',
+    };
+
+    set({
+      electrical: { ...state.electrical, pacer: settings },
+      eventLog: [...state.eventLog, logEntry],
+      lastUserInteraction: Date.now(),
+      userIdleSeconds: 0,
+    });
+  },
+
+  // Rate and output adjustments while pacing are continuous; only start and stop are logged
+  setPacer: (settings) => {
+    const state = get();
+    if (!state.electrical.pacer) return;
+    set({ electrical: { ...state.electrical, pacer: settings } });
+  },
+
+  stopPacing: () => {
+    const state = get();
+    if (!state.electrical.pacer) return;
+
+    const logEntry: LogEntry = {
+      time: state.elapsedSeconds,
+      type: 'intervention',
+      message: 'Transcutaneous pacing stopped',
+      severity: 'info',
+    };
+
+    set({
+      electrical: { ...state.electrical, pacer: null },
+      eventLog: [...state.eventLog, logEntry],
+    });
+  },
 });
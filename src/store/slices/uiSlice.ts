@@ -1,15 +1,12 @@
 import { StateCreator } from 'zustand';
-import { PKState, LogEntry, TrendPoint, EmergencyState, AirwayDevice, InterventionType } from '../../types';
-import { DrugParams } from '../../types';
-import { DRUG_DATABASE } from '../../engine/drugs';
-import { stepPK } from '../../engine/pkModel';
-import { combinedEffect, effectToMOASS } from '../../engine/pdModel';
-import { calculateVitals, checkAlarms, BASELINE_VITALS, IVFluidContext } from '../../engine/physiology';
-import { generateEEG } from '../../engine/eegModel';
-import { createDigitalTwin, updateTwin } from '../../engine/digitalTwin';
+import { TrendPoint, AirwayDevice, InterventionType, PatientPosition } from '../../types';
+import { stepSimulation, createSimulationState, SimulationStep } from '../../engine/SedSimCoreEngine';
+import { loadCommand } from '../../engine/simulationWorkerProtocol';
+import { intravascularChange } from '../../engine/volumeKinetics';
 import { sessionRecorderInstance } from '../../engine/sessionRecorderInstance';
+import { Rng, createRng, randomSeed } from '../../engine/prng';
 import { computeVisualizationState, DEFAULT_VIZ_STATE } from './vitalsSlice';
-import { INITIAL_PK_STATES } from './drugSlice';
+import { simulationWorker } from '../simulationWorkerClient';
 import type { SimStore } from '../storeTypes';
 
 export interface UiSlice {
@@ -21,14 +18,18 @@ export interface UiSlice {
   activeGaugeMode: string;
   userIdleSeconds: number;
   lastUserInteraction: number;
+  simulationSeed: number;  // seeds `rng`; reset replays the same noise stream
+  rng: Rng;                // every stochastic draw in the tick pipeline
 
   // Actions
   tick: () => void;
+  applySimulationSteps: (steps: SimulationStep[]) => void;  // one-second steps from tick() or the simulation worker
   toggleRunning: () => void;
   setSpeed: (speed: number) => void;
   setActiveTab: (tab: string) => void;
   setActiveGaugeMode: (mode: string) => void;
   recordUserInteraction: () => void;
+  setSimulationSeed: (seed: number) => void;
   reset: () => void;
 }
 
@@ -38,6 +39,8 @@ export function formatTime(seconds: number): string {
   return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
 }
 
+const INITIAL_SEED = randomSeed();
+
 export const createUiSlice: StateCreator<SimStore, [], [], UiSlice> = (set, get) => ({
   elapsedSeconds: 0,
   isRunning: false,
@@ -46,174 +49,62 @@ export const createUiSlice: StateCreator<SimStore, [], [], UiSlice> = (set, get)
   activeGaugeMode: 'petals',
   userIdleSeconds: 0,
   lastUserInteraction: Date.now(),
+  simulationSeed: INITIAL_SEED,
+  rng: createRng(INITIAL_SEED),
 
   tick: () => {
     const state = get();
     if (!state.isRunning) return;
+    state.applySimulationSteps([stepSimulation(state, state, state.rng)]);
+  },
 
-    const { patient, pkStates, infusions, vitals: prevVitals, fio2 } = state;
-    const dt = 1;
-
-    // Step PK models forward
-    const newPkStates: Record<string, PKState> = {};
-    Object.keys(pkStates).forEach(drugName => {
-      const drug = DRUG_DATABASE[drugName];
-      const infusion = infusions[drugName];
-      const infusionRate = infusion?.isRunning ? infusion.rate : 0;
-      newPkStates[drugName] = stepPK(
-        pkStates[drugName],
-        drug,
-        0,
-        infusionRate,
-        dt
-      );
-    });
-
-    // Calculate combined drug effect
-    const drugEffects: { drug: DrugParams; ce: number }[] = Object.entries(newPkStates).map(
-      ([name, s]) => ({ drug: DRUG_DATABASE[name], ce: s.ce })
-    );
-    const combinedEff = combinedEffect(drugEffects);
-    const moass = effectToMOASS(combinedEff);
-
-    // Calculate new vitals using physiology engine
-    const prevRhythm = prevVitals.rhythm ?? 'normal_sinus';
-    const ivFluidContext: IVFluidContext = {
-      totalInfused: state.ivFluids.totalInfused,
-      isBolus: state.ivFluids.isBolus,
-      bolusVolume: state.ivFluids.bolusVolume,
-    };
-    const newVitals = calculateVitals(
-      newPkStates, patient, prevVitals, fio2, prevRhythm, state.elapsedSeconds,
-      state.interventions, ivFluidContext
-    );
-
-    // Check for alarms
-    const activeAlarms = checkAlarms(newVitals);
-
-    // Derive rhythm early (needed by updateTwin and log processing)
-    const newRhythm = newVitals.rhythm ?? 'normal_sinus';
-    const newTime = state.elapsedSeconds + dt;
-
-    // Update digital twin before trendPoint so compositeRisk is available
-    const newDigitalTwin = updateTwin(
-      state.digitalTwin || createDigitalTwin(patient),
-      newPkStates,
-      newVitals.hr,
-      newVitals.spo2,
-      dt,
-      newRhythm,
-      newVitals.sbp
-    );
+  applySimulationSteps: (steps) => {
+    if (steps.length === 0) return;
+    const state = get();
+    const last = steps[steps.length - 1];
 
     // Update trend data
-    const newTrendPoint: TrendPoint = {
-      time: newTime,
-      vitals: newVitals,
-      cp: Object.fromEntries(Object.entries(newPkStates).map(([name, s]) => [name, s.c1])),
+    const trendData = [...state.trendData, ...steps.map(({ state: next }): TrendPoint => ({
+      time: next.elapsedSeconds,
+      vitals: next.vitals,
+      cp: Object.fromEntries(Object.entries(next.pkStates).map(([name, s]) => [name, s.c1])),
       ce: Object.fromEntries(
-        Object.entries(newPkStates).map(([name, s]) => [name, s.ce])
+        Object.entries(next.pkStates).map(([name, s]) => [name, s.ce])
       ),
-      moass,
-      riskScore: newDigitalTwin.predictedOutcome.compositeRisk,
-    };
-
-    const trendData = [...state.trendData, newTrendPoint];
+      moass: next.moass,
+      riskScore: next.digitalTwin?.predictedOutcome.compositeRisk,
+    }))];
     if (trendData.length > state.maxTrendPoints) {
-      trendData.shift();
+      trendData.splice(0, trendData.length - state.maxTrendPoints);
     }
 
-    // Log alarms to event log
-    const newLogs: LogEntry[] = [];
-    activeAlarms.forEach(alarm => {
-      const alreadyActive = state.activeAlarms.some(
-        a => a.type === alarm.type && a.severity === alarm.severity
-      );
-      if (!alreadyActive) {
-        newLogs.push({
-          time: newTime,
-          type: 'alert',
-          message: alarm.message,
-          severity: alarm.severity,
-        });
-      }
-    });
-
-    // Log rhythm changes
-    if (newRhythm !== prevRhythm) {
-      const isLethal = [
-        'ventricular_fibrillation', 'ventricular_tachycardia', 'polymorphic_vt',
-        'asystole', 'pea',
-      ].includes(newRhythm);
-      newLogs.push({
-        time: newTime,
-        type: 'alert',
-        message: isLethal
-          ? `🚨 ARRHYTHMIA: ${newRhythm.replace(/_/g, ' ').toUpperCase()}`
-          : `RHYTHM CHANGE: ${prevRhythm.replace(/_/g, ' ')} → ${newRhythm.replace(/_/g, ' ')}`,
-        severity: isLethal ? 'danger' : 'warning',
-      });
-    }
-
-    // Generate EEG state
-    const propCe = newPkStates['propofol']?.ce || 0;
-    const dexCe = newPkStates['dexmedetomidine']?.ce || 0;
-    const ketCe = newPkStates['ketamine']?.ce || 0;
-    const midazCe = newPkStates['midazolam']?.ce || 0;
-    const fentCe = newPkStates['fentanyl']?.ce || 0;
-    const newEegState = generateEEG(propCe, dexCe, ketCe, midazCe, fentCe, patient.age, newTime, combinedEff, state.eegState ?? undefined);
-
-    // Accumulate IV fluid infused
-    const newIvFluids = { ...state.ivFluids };
-    if (state.ivFluids.activeFluid && !state.ivFluids.isBolus && state.ivFluids.rate > 0) {
-      newIvFluids.totalInfused = state.ivFluids.totalInfused + state.ivFluids.rate / 3600;
-    }
-
-    // Compute emergency state from alarms and rhythm
-    const arrestRhythms = ['ventricular_fibrillation', 'ventricular_tachycardia', 'polymorphic_vt', 'asystole', 'pea'];
-    const isArrest = arrestRhythms.includes(newRhythm);
-    const hasDanger = activeAlarms.some(a => a.severity === 'danger');
-    const hasWarning = activeAlarms.some(a => a.severity === 'warning');
-    const newEmergencyState: EmergencyState = {
-      level: isArrest ? 'arrest' : hasDanger ? 'critical' : hasWarning ? 'warning' : 'normal',
-      activeAlarms,
-      isArrest,
-      requiresImmediateIntervention: isArrest || hasDanger,
-    };
-
     // Pre-compute derived visualization state
-    const vizState = computeVisualizationState(newVitals, newPkStates, patient, moass, combinedEff, fio2);
-
-    const newUserIdleSeconds = state.userIdleSeconds + dt;
+    const vizState = computeVisualizationState(
+      last.state.vitals, last.receptorStates, state.patient, last.state.moass, last.state.combinedEff,
+      state.fio2, intravascularChange(last.state.volume), last.state.circulation
+    );
 
-    // Record snapshot for session playback
-    sessionRecorderInstance.record({
-      t: newTime,
-      vitals: newVitals,
-      pkStates: newPkStates,
-      moass,
-      combinedEff,
-      interventions: [...state.interventions] as InterventionType[],
-      airwayDevice: state.airwayDevice,
-      fio2,
-      newEvents: newLogs,
-      millieMessages: [],
+    // Record snapshots for session playback
+    steps.forEach(({ state: next, events }) => {
+      sessionRecorderInstance.record({
+        t: next.elapsedSeconds,
+        vitals: next.vitals,
+        pkStates: next.pkStates,
+        moass: next.moass,
+        combinedEff: next.combinedEff,
+        interventions: [...state.interventions] as InterventionType[],
+        airwayDevice: state.airwayDevice,
+        fio2: state.fio2,
+        newEvents: events,
+        millieMessages: [],
+      });
     });
 
     set({
-      elapsedSeconds: newTime,
-      pkStates: newPkStates,
-      combinedEff,
-      moass,
-      vitals: newVitals,
+      ...last.state,
       trendData,
-      eventLog: [...state.eventLog, ...newLogs],
-      activeAlarms,
-      eegState: newEegState,
-      digitalTwin: newDigitalTwin,
-      ivFluids: newIvFluids,
-      emergencyState: newEmergencyState,
-      userIdleSeconds: newUserIdleSeconds,
+      eventLog: [...state.eventLog, ...steps.flatMap(step => step.events)],
+      userIdleSeconds: state.userIdleSeconds + steps.length,
       ...vizState,
     });
   },
@@ -238,44 +129,31 @@ export const createUiSlice: StateCreator<SimStore, [], [], UiSlice> = (set, get)
     set({ lastUserInteraction: Date.now(), userIdleSeconds: 0 });
   },
 
+  setSimulationSeed: (seed) => {
+    sessionRecorderInstance.setSimulationSeed(seed >>> 0);
+    set({ simulationSeed: seed >>> 0, rng: createRng(seed) });
+    simulationWorker.post(loadCommand(get()));
+  },
+
   reset: () => {
     // Clear the session recorder so a new recording starts fresh
     sessionRecorderInstance.clear();
     const state = get();
+    sessionRecorderInstance.setSimulationSeed(state.simulationSeed);
     const patient = state.patient;
     set({
-      elapsedSeconds: 0,
+      ...createSimulationState(patient, state.variability),
       isRunning: false,
+      rng: createRng(state.simulationSeed),
       isScenarioActive: false,
       scenarioDrugProtocols: null,
-      pkStates: { ...INITIAL_PK_STATES },
-      infusions: {},
-      vitals: BASELINE_VITALS,
-      moass: 5,
-      combinedEff: 0,
       fio2: 0.21,
       airwayDevice: 'room_air' as AirwayDevice,
+      position: 'supine' as PatientPosition,
       o2FlowRate: 2,
+      cpr: null,
       trendData: [],
       eventLog: [],
-      activeAlarms: [],
-      eegState: null,
-      digitalTwin: createDigitalTwin(patient),
-      ivFluids: {
-        activeFluid: null,
-        rate: 0,
-        location: 'Right Hand',
-        gauge: '20G',
-        totalInfused: 0,
-        isBolus: false,
-        bolusVolume: 0,
-      },
-      emergencyState: {
-        level: 'normal',
-        activeAlarms: [],
-        isArrest: false,
-        requiresImmediateIntervention: false,
-      },
       activeTab: '',
       activeGaugeMode: 'petals',
       userIdleSeconds: 0,
@@ -285,5 +163,6 @@ export const createUiSlice: StateCreator<SimStore, [], [], UiSlice> = (set, get)
       drugsAdministeredCount: 0,
       ...DEFAULT_VIZ_STATE,
     });
+    simulationWorker.post(loadCommand(get()));
   },
 });
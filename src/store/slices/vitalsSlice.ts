@@ -16,6 +16,11 @@ import {
 import { BASELINE_VITALS, PATIENT_ARCHETYPES } from '../../engine/physiology';
 import { EEGState } from '../../engine/eegModel';
 import { DigitalTwin, createDigitalTwin } from '../../engine/digitalTwin';
+import { EndpointEffects, ZERO_ENDPOINT_EFFECTS } from '../../engine/responseSurface';
+import { UpperAirwayState, PATENT_AIRWAY } from '../../engine/upperAirway';
+import { CirculationState, computeCirculation, DEFAULT_CIRCULATION_CONTEXT } from '../../engine/circulation';
+import { NeuromuscularState, NO_NEUROMUSCULAR_BLOCK } from '../../engine/neuromuscular';
+import { IschemiaState, NO_ISCHEMIA } from '../../engine/myocardialIschemia';
 import type { SimStore } from '../storeTypes';
 
 export interface VitalsSlice {
@@ -23,6 +28,11 @@ export interface VitalsSlice {
   vitals: Vitals;
   moass: MOASSLevel;
   combinedEff: number;
+  endpointEffects: EndpointEffects;
+  airway: UpperAirwayState;
+  circulation: CirculationState;
+  ischemia: IschemiaState;
+  neuromuscular: NeuromuscularState;
   activeAlarms: { type: string; message: string; severity: 'warning' | 'danger' }[];
   eegState: EEGState | null;
   digitalTwin: DigitalTwin | null;
@@ -44,63 +54,32 @@ export interface VitalsSlice {
 /**
  * Compute pre-derived visualization parameters from current sim state.
  * Called once per tick so all components are pure consumers of store state.
+ * The PV loop and echo read the tick's circulation; computed here when omitted,
+ * with `fluidVolumeML` as the intravascular volume change.
  */
 export function computeVisualizationState(
   vitals: Vitals,
   pkStates: Record<string, PKState>,
   patient: Patient,
   moass: MOASSLevel,
-  combinedEff: number,
+  _combinedEff: number,
   fio2: number,
   fluidVolumeML: number = 0,
+  circulation?: CirculationState,
 ): { echoParams: EchoParams; frankStarlingPoint: FrankStarlingPoint; oxyHbPoint: OxyHbPoint; avatarState: AvatarState; waveformParams: WaveformParams } {
   // ── Cardiac arrest detection ──
   const rhythm = vitals.rhythm ?? 'normal_sinus';
   const isArrest = rhythm === 'ventricular_fibrillation' || rhythm === 'asystole' || rhythm === 'pea';
 
-  // ── Shared cardiac modifier computation (same as EchoSim & FrankStarlingCurve) ──
-  let ees = 2.5;
-  let edpScale = 1.0;
-  let vedv = 130;
-  let peakSys = vitals.sbp || 120;
-  const hr = vitals.hr || 75;
-
-  if (patient.age > 65) { ees -= 0.4; edpScale += 0.3; }
-  else if (patient.age > 50) { ees -= 0.2; edpScale += 0.15; }
-  if (patient.asa >= 3) { ees -= 0.3; edpScale += 0.2; }
-  else if (patient.asa >= 2) { ees -= 0.1; }
-  if (patient.copd) { vedv -= 5; }
-  if (patient.hepaticImpairment) { ees -= 0.2; }
-  if (patient.renalImpairment) { edpScale += 0.2; vedv += 10; }
-
-  const propCe = pkStates['propofol']?.ce || 0;
-  const midazCe = pkStates['midazolam']?.ce || 0;
-  const fentCe = pkStates['fentanyl']?.ce || 0;
-  const ketCe = pkStates['ketamine']?.ce || 0;
-
-  if (propCe > 0) { ees -= propCe * 0.15; peakSys -= propCe * 5; vedv -= propCe * 3; }
-  if (midazCe > 0) { ees -= midazCe * 0.05; }
-  if (fentCe > 0) { ees -= fentCe * 0.2; peakSys -= fentCe * 3; }
-  if (ketCe > 0) { ees += ketCe * 0.1; peakSys += ketCe * 4; }
-
-  // Fluid loading increases preload (EDV)
-  if (fluidVolumeML > 0) { vedv += fluidVolumeML * 0.02; }
-
-  // Sedation-related hemodynamic depression (MOASS <= 3 = moderate/deep sedation)
-  if (moass <= 2) { ees -= 0.3; peakSys -= 15; }
-  else if (moass <= 3) { ees -= 0.15; peakSys -= 8; }
-  ees -= combinedEff * 0.08;
-
-  ees = Math.max(0.8, Math.min(4.0, ees));
-  edpScale = Math.max(0.5, Math.min(3.0, edpScale));
-  vedv = Math.max(90, Math.min(160, vedv));
-  peakSys = Math.max(60, Math.min(200, peakSys));
-
-  // ESV = f(afterload, contractility). Vasodilation (lower peakSys) reduces ESV.
-  const afterloadFactor = peakSys / 120; // normalised to baseline SBP
-  let vesv = Math.max(30, Math.min(vedv - 20, vedv * 0.35 * afterloadFactor / (ees / 2.5) + 5));
-  let sv = vedv - vesv;
-  let ef = (sv / vedv) * 100;
+  // ── PV-loop operating point from the circulation model (same state as the vitals) ──
+  const circ = circulation ?? computeCirculation(pkStates, patient, {
+    ...DEFAULT_CIRCULATION_CONTEXT,
+    volumeChange: fluidVolumeML,
+  });
+  const vedv = circ.edv;
+  let vesv = circ.esv;
+  let sv = circ.sv;
+  let ef = circ.ef;
 
   // Cardiac arrest: collapse ejection
   if (isArrest) {
@@ -108,21 +87,22 @@ export function computeVisualizationState(
     sv = 2;
     ef = (sv / vedv) * 100;
   }
-  const pEdp = edpScale * Math.pow(Math.max(0, vedv - 10), 2) / 1000;
+  const peakSys = isArrest ? circ.edp : circ.sbp;
 
   const echoParams: EchoParams = {
-    preload: Math.max(40, Math.min(200, vedv * edpScale * 0.92)),
+    preload: Math.max(40, Math.min(200, vedv)),
     afterload: Math.max(40, Math.min(200, peakSys * 0.6)),
-    contractility: Math.max(0.3, Math.min(2.0, ees / 2.5)),
-    heartRate: hr,
+    contractility: Math.max(0.3, Math.min(2.0, circ.ees / 2.5)),
+    heartRate: circ.hr,
   };
 
-  const frankStarlingPoint: FrankStarlingPoint = { vedv, vesv, sv, ef, pEdp, peakSys, ees, hr };
+  const frankStarlingPoint: FrankStarlingPoint = {
+    vedv, vesv, sv, ef, pEdp: circ.edp, peakSys, ees: circ.ees, hr: circ.hr,
+  };
 
   // ── OxyHb operating point ──
-  const etco2 = vitals.etco2 ?? 38;
-  const paco2 = etco2 + 5;
-  const pao2 = Math.max(0, fio2 * (760 - 47) - paco2 / 0.8);
+  const paco2 = vitals.paco2 ?? (vitals.etco2 ?? 38) + 5;
+  const pao2 = vitals.pao2 ?? Math.max(0, fio2 * (760 - 47) - paco2 / 0.8);
   const pH = 7.4 - (paco2 - 40) * 0.008;
   let p50 = 26.6;
   p50 *= Math.pow(10, 0.48 * (7.4 - pH));
@@ -144,13 +124,16 @@ export function computeVisualizationState(
   const pulsePressure = (vitals.sbp - vitals.dbp) || 40;
   const waveformParams: WaveformParams = {
     plethAmplitude: Math.min(1.8, Math.max(0.1, pulsePressure / 40)),
-    capnoFlat: vitals.rr === 0,
+    capnoFlat: vitals.etco2 === 0,
     rhythm: vitals.rhythm ?? 'normal_sinus',
   };
 
   return { echoParams, frankStarlingPoint, oxyHbPoint, avatarState, waveformParams };
 }
 
+/** Resting circulation of the default patient (used for initial and reset state) */
+export const RESTING_CIRCULATION = computeCirculation({}, PATIENT_ARCHETYPES.healthy_adult);
+
 /** Default derived visualization state (used for initial and reset state) */
 export const DEFAULT_VIZ_STATE = computeVisualizationState(
   { hr: 75, sbp: 120, dbp: 80, map: 93, rr: 14, spo2: 98, etco2: 38 },
@@ -165,6 +148,11 @@ export const createVitalsSlice: StateCreator<SimStore, [], [], VitalsSlice> = (s
   vitals: BASELINE_VITALS,
   moass: 5 as MOASSLevel,
   combinedEff: 0,
+  endpointEffects: { ...ZERO_ENDPOINT_EFFECTS },
+  airway: PATENT_AIRWAY,
+  circulation: RESTING_CIRCULATION,
+  ischemia: NO_ISCHEMIA,
+  neuromuscular: NO_NEUROMUSCULAR_BLOCK,
   activeAlarms: [],
   eegState: null,
   digitalTwin: createDigitalTwin(PATIENT_ARCHETYPES.healthy_adult),
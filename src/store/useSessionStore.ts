@@ -34,7 +34,7 @@ interface SessionStoreState {
   playback: PlaybackState;
 
   // ── Actions ──────────────────────────────────────────────────────────────
-  startRecording: (patientInfo?: SessionRecording['patient']) => void;
+  startRecording: (patientInfo?: SessionRecording['patient'], simulationSeed?: number) => void;
   stopRecording: () => void;
   /** Export current recording to JSON and trigger a browser download. */
   downloadRecording: () => void;
@@ -73,9 +73,10 @@ const useSessionStore = create<SessionStoreState>((set, get) => ({
 
   // ─── Recording actions ──────────────────────────────────────────────────
 
-  startRecording: (patientInfo) => {
+  startRecording: (patientInfo, simulationSeed) => {
     sessionRecorderInstance.clear();
     if (patientInfo) sessionRecorderInstance.setPatient(patientInfo);
+    if (simulationSeed !== undefined) sessionRecorderInstance.setSimulationSeed(simulationSeed);
     set({ isRecording: true, frameCount: 0, estimatedBytes: 0 });
   },
 
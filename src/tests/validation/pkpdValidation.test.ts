@@ -34,7 +34,8 @@ import {
   MIDAZOLAM_SAMPLE_TIMES_MIN,
 } from '../../engine/validation/pkValidation';
 import { mdape } from '../../engine/validation/mdape';
-import { combinedEffect, effectToMOASS } from '../../engine/pdModel';
+import { sedationDepth, effectToMOASS } from '../../engine/pdModel';
+import { evaluateResponseSurface } from '../../engine/responseSurface';
 
 // ---------------------------------------------------------------------------
 // Propofol — Marsh 1991
@@ -210,36 +211,36 @@ describe('Midazolam PK — Greenblatt validation', () => {
 describe('PD response surface — Bouillon (2004) validation', () => {
   it('No drug → MOASS 5 (awake)', () => {
     const ref = BOUILLON_2004_REFERENCE[0];
-    const effect = combinedEffect([]);
+    const effect = sedationDepth(evaluateResponseSurface({}));
     const moass = effectToMOASS(effect);
     expect(moass).toBe(ref.expectedMOASS);
   });
 
   it('Propofol 2.0 mcg/mL alone → MOASS 4 (drowsy)', () => {
     const ref = BOUILLON_2004_REFERENCE[1];
-    const effect = combinedEffect([{ drug: propofol, ce: ref.cePropofol }]);
+    const effect = sedationDepth(evaluateResponseSurface({ propofol: ref.cePropofol }));
     const moass = effectToMOASS(effect);
     expect(moass).toBe(ref.expectedMOASS);
   });
 
   it('Propofol 2.5 mcg/mL alone → MOASS 3 (moderate sedation)', () => {
     const ref = BOUILLON_2004_REFERENCE[2];
-    const effect = combinedEffect([{ drug: propofol, ce: ref.cePropofol }]);
+    const effect = sedationDepth(evaluateResponseSurface({ propofol: ref.cePropofol }));
     const moass = effectToMOASS(effect);
     expect(moass).toBe(ref.expectedMOASS);
   });
 
   it('Propofol 4.0 mcg/mL alone → MOASS ≤ 2 (deep sedation)', () => {
     const ref = BOUILLON_2004_REFERENCE[3];
-    const effect = combinedEffect([{ drug: propofol, ce: ref.cePropofol }]);
+    const effect = sedationDepth(evaluateResponseSurface({ propofol: ref.cePropofol }));
     const moass = effectToMOASS(effect);
     expect(moass).toBeLessThanOrEqual(ref.expectedMOASS);
   });
 
   it('Remifentanil alone cannot cause MOASS < 4 (opioid sedation ceiling)', () => {
-    // ce values in mcg/mL (2, 5, 10, 20 ng/mL converted)
-    for (const ce of [0.002, 0.005, 0.010, 0.020]) {
-      const effect = combinedEffect([{ drug: remifentanil, ce }]);
+    // ce values in ng/mL
+    for (const ce of [2, 5, 10, 20]) {
+      const effect = sedationDepth(evaluateResponseSurface({ remifentanil: ce }));
       const moass = effectToMOASS(effect);
       expect(moass).toBeGreaterThanOrEqual(4);
     }
@@ -247,13 +248,10 @@ describe('PD response surface — Bouillon (2004) validation', () => {
 
   it('Opioid + hypnotic combination potentiates sedation (supra-additive)', () => {
     const propofolCe = 1.5;    // MOASS 5 alone (below threshold)
-    const remiCe     = 0.004;  // MOASS 5 alone (sub-ceiling, in mcg/mL = 4 ng/mL)
-    const propofolOnly = combinedEffect([{ drug: propofol, ce: propofolCe }]);
-    const remiOnly     = combinedEffect([{ drug: remifentanil, ce: remiCe }]);
-    const combined     = combinedEffect([
-      { drug: propofol,     ce: propofolCe },
-      { drug: remifentanil, ce: remiCe },
-    ]);
+    const remiCe     = 4;      // MOASS 4 alone (ng/mL, below the opioid ceiling)
+    const propofolOnly = sedationDepth(evaluateResponseSurface({ propofol: propofolCe }));
+    const remiOnly     = sedationDepth(evaluateResponseSurface({ remifentanil: remiCe }));
+    const combined     = sedationDepth(evaluateResponseSurface({ propofol: propofolCe, remifentanil: remiCe }));
     // Combined effect must exceed the sum-of-parts (supra-additive)
     expect(combined).toBeGreaterThan(propofolOnly + remiOnly);
   });
@@ -263,16 +261,11 @@ describe('PD response surface — Bouillon (2004) validation', () => {
     const predicted: number[] = [];
 
     for (const ref of BOUILLON_2004_REFERENCE) {
-      const drugEffects = [];
-      if (ref.cePropofol > 0) {
-        drugEffects.push({ drug: propofol, ce: ref.cePropofol });
-      }
-      // Convert ng/mL → mcg/mL for the PD model
-      if (ref.ceRemifentanilNgMl > 0) {
-        drugEffects.push({ drug: remifentanil, ce: ref.ceRemifentanilNgMl / 1000 });
-      }
-
-      const effect = combinedEffect(drugEffects);
+      // Remifentanil effect-site concentrations are in ng/mL, as in the PK state
+      const effect = sedationDepth(evaluateResponseSurface({
+        propofol: ref.cePropofol,
+        remifentanil: ref.ceRemifentanilNgMl,
+      }));
       const simulated = effectToMOASS(effect);
 
       // Only include points where expected MOASS > 0 (avoid 0-division)
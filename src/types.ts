@@ -12,6 +12,7 @@ export interface DrugParams {
   EC50: number; // half-maximal effect concentration
   gamma: number; // Hill coefficient
   unit: string;
+  ka?: number;  // IM absorption rate constant (1/min)
   bolusOptions?: number[];
   infusionOptions?: number[];
 }
@@ -58,10 +59,20 @@ export interface Vitals {
   rr: number;    // respiratory rate
   spo2: number;  // oxygen saturation %
   etco2: number; // end-tidal CO2
+  paco2?: number; // arterial CO2 (mmHg), carried between ticks by the ventilation model
+  pAO2?: number;  // alveolar O2 (mmHg), carried between ticks by the lung O2 store
+  pao2?: number;  // arterial O2 (mmHg)
+  paw?: number;   // peak airway pressure during positive-pressure ventilation (cmH2O)
   rhythm?: CardiacRhythm;
   qrsWidth?: number;   // ms, normal < 120
   prInterval?: number; // ms, normal 120-200
   qtInterval?: number; // ms
+  qtcBazett?: number;     // ms, QT / √RR
+  qtcFridericia?: number; // ms, QT / ∛RR
+  stDeviation?: number;   // mV in lead II, + elevation / − depression
+  pvcFraction?: number;   // 0-1 share of beats that are premature ventricular complexes
+  pulseRate?: number;     // bpm of perfused beats on the pleth, while pacer spikes set the monitor's HR
+  pacing?: { rate: number; current: number; captured: boolean }; // transcutaneous pacer firing (ppm, mA, electrical capture)
 }
 
 // Sedation depth (Modified Observer Assessment)
@@ -81,6 +92,19 @@ export interface InfusionState {
   rate: number;  // mcg/kg/min or mg/kg/hr
   unit: string;
   isRunning: boolean;
+  tci?: TCISettings;  // present when the pump runs in target-controlled mode
+}
+
+// Target-controlled infusion: the pump rate is recomputed every tick
+export type TCITargetSite = 'plasma' | 'effect';
+
+// Bolus route: IM doses are absorbed from a depot at the drug's ka
+export type DrugRoute = 'iv' | 'im';
+
+export interface TCISettings {
+  targetSite: TCITargetSite;
+  target: number;           // Cp or Ce target in PK concentration units
+  decrementTarget: number;  // concentration used for the decrement-time readout
 }
 
 // Event log entry
@@ -102,10 +126,20 @@ export interface Patient {
   mallampati?: 1 | 2 | 3 | 4;
   osa?: boolean;  // obstructive sleep apnea
   copd?: boolean;
+  asthma?: boolean;
   hepaticImpairment?: boolean;
   renalImpairment?: boolean;
+  pregnant?: boolean;
   // Sensitivity modifier (0.6-1.8, mean 1.0)
   drugSensitivity?: number;
+  // Repolarisation (defaults in cardiacRhythm.ts)
+  qtcBaseline?: number;     // ms, drug-free QTc (congenital / structural long QT)
+  potassium?: number;       // mmol/L, normal 3.5-5.0
+  magnesium?: number;       // mmol/L, normal 0.7-1.0
+  ionizedCalcium?: number;  // mmol/L, normal 1.1-1.3
+  // Coronary disease (myocardialIschemia.ts)
+  coronaryDisease?: boolean;  // flow-limiting stenosis: reduced coronary flow reserve
+  culpritTerritory?: 'anterior' | 'inferior' | 'lateral' | 'posterior';  // stenosed vessel's territory
 }
 
 // Time-stamped data point for trend graphs
@@ -122,7 +156,7 @@ export interface TrendPoint {
 export interface AirwayState {
   patency: number;  // 0-1, where 1 is fully patent
   obstructionType: 'none' | 'partial' | 'complete';
-  intervention: 'none' | 'jaw_thrust' | 'oral_airway' | 'nasal_airway' | 'bag_mask';
+  intervention: 'none' | 'chin_lift' | 'jaw_thrust' | 'oral_airway' | 'nasal_airway' | 'bag_mask' | 'lma';
 }
 
 // Airway device (mutually exclusive - one at a time)
@@ -130,6 +164,8 @@ export type AirwayDevice =
   | 'room_air'
   | 'nasal_cannula'
   | 'nasal_hood'
+  | 'simple_mask'
+  | 'nonrebreather'
   | 'oral_airway'
   | 'nasal_airway'
   | 'lma'
@@ -137,19 +173,21 @@ export type AirwayDevice =
   | 'cricothyroidotomy'
   | 'tracheostomy';
 
+// Patient position (affects FRC and airway patency)
+export type PatientPosition = 'supine' | 'semi_upright' | 'lateral';
+
 // Intervention types (supplementary, non-mutually-exclusive)
 export type InterventionType = 
   | 'jaw_thrust'
   | 'chin_lift'
   | 'bag_mask'
+  | 'cpap'
   | 'suction'
   | 'increase_fio2'
   // legacy device types kept for backward compatibility
   | 'oral_airway'
   | 'nasal_airway'
-  // pharmacological reversal agents
-  | 'naloxone'
-  | 'flumazenil'
+  // standard-dose drugs given through their PK models
   | 'atropine'
   // hemodynamic support
   | 'iv_fluid_bolus'
@@ -231,7 +269,7 @@ export interface AvatarState {
 // Waveform display parameters (derived from vitals in tick())
 export interface WaveformParams {
   plethAmplitude: number;  // 0-1, scaled by pulse pressure
-  capnoFlat: boolean;      // true when rr === 0
+  capnoFlat: boolean;      // true with no expired CO2 (apnea or complete obstruction)
   rhythm: CardiacRhythm;   // ECG morphology selector
 }
 
@@ -6,7 +6,8 @@
  *  • Warning alarm: two-tone beep (440 Hz → 880 Hz), every 3 seconds
  *  • Critical alarm: fast 880 Hz beep, every 200 ms (100 ms on / 100 ms off)
  *  • Breath sounds: RR-paced white noise (bandpass 300-600 Hz); snoring when
- *    airway compromised; stridor for laryngospasm; silence on apnea
+ *    airway partially obstructed; stridor for laryngospasm; expiratory wheeze
+ *    for bronchospasm; silence on apnea, complete obstruction and silent chest
  *  • Heart sounds: S1/S2 click pair at HR interval
  *  • AED sounds: power-on chime, analyzing beeps, shock advised alarm,
  *    charging whine, shock discharge zap, ROSC arpeggio, CPR metronome
@@ -14,6 +15,8 @@
  *  • 60-second alarm silence (like real monitors)
  */
 
+import type { AirwayState } from '../types';
+
 /** Safari uses the prefixed webkitAudioContext. */
 type WebkitWindow = typeof window & { webkitAudioContext?: typeof AudioContext };
 
@@ -84,8 +87,10 @@ class AudioManager {
   private breathTimer: ReturnType<typeof setTimeout> | null = null;
   private breathActive: boolean = false;
   private _rr: number = 14;
-  private _moass: number = 3;
   private _airwayPatency: number = 1.0; // 0 = occluded, 1 = patent
+  private _obstruction: AirwayState['obstructionType'] = 'none';
+  private _stridor: boolean = false;
+  private _bronchospasm: number = 0; // 0-1
 
   // Heart sound state
   private heartEnabled: boolean = false;
@@ -285,14 +290,24 @@ class AudioManager {
   /**
    * Update breath-sound parameters. Starts the loop if breath sounds are enabled
    * and not already running.
-   * @param rr  Respiratory rate (breaths/min)
-   * @param moass  MOASS level (0–5); ≤3 may trigger snoring
-   * @param airwayPatency  0 = occluded (laryngospasm), 1 = patent
+   * @param rr  Respiratory rate (breaths/min), including effort against an obstruction
+   * @param airwayPatency  0 = occluded, 1 = patent
+   * @param obstruction  Upper airway state; partial snores, complete is silent
+   * @param stridor  Partial laryngospasm — inspiratory stridor
+   * @param bronchospasm  0-1; expiratory wheeze, fading to a silent chest when severe
    */
-  updateBreathSounds(rr: number, moass: number, airwayPatency: number): void {
+  updateBreathSounds(
+    rr: number,
+    airwayPatency: number,
+    obstruction: AirwayState['obstructionType'] = 'none',
+    stridor = false,
+    bronchospasm = 0
+  ): void {
     this._rr = Math.max(0, rr);
-    this._moass = moass;
     this._airwayPatency = Math.max(0, Math.min(1, airwayPatency));
+    this._obstruction = obstruction;
+    this._stridor = stridor;
+    this._bronchospasm = Math.max(0, Math.min(1, bronchospasm));
     if (this.breathEnabled && !this.breathActive) {
       this.breathActive = true;
       this._tickBreath();
@@ -314,8 +329,8 @@ class AudioManager {
     if (!this.breathActive || !this.breathEnabled || !this.ctx || !this.masterGain) return;
 
     const rr = this._rr;
-    // Apnea — no sound
-    if (rr <= 0) {
+    // Apnea, complete obstruction (effort without airflow) or silent chest — no sound
+    if (rr <= 0 || this._obstruction === 'complete' || this._bronchospasm > 0.85) {
       const nextMs = 2000;
       this.breathTimer = setTimeout(() => this._tickBreath(), nextMs);
       return;
@@ -327,16 +342,21 @@ class AudioManager {
       const now = this.ctx.currentTime;
       const breathDur = Math.min(1.8, (breathPeriodMs / 1000) * 0.45); // ~45% of cycle is inspiration
 
-      if (this._airwayPatency < 0.3) {
-        // Laryngospasm / severe obstruction — stridor (800-1200 Hz narrowband)
+      if (this._stridor) {
+        // Partial laryngospasm — stridor (800-1200 Hz narrowband)
         this._scheduleStridor(now, breathDur * 0.6);
-      } else if (this._moass <= 3 && this._airwayPatency < 0.8) {
+      } else if (this._obstruction === 'partial') {
         // Partial obstruction — snoring (80-120 Hz sawtooth)
         this._scheduleSnoring(now, breathDur);
       } else {
         // Normal breath — filtered white noise burst
         this._scheduleBreathBurst(now, breathDur);
       }
+      if (this._bronchospasm > 0.1) {
+        // Bronchospasm — musical wheeze through the prolonged expiration
+        const expDur = Math.min(2.5, (breathPeriodMs / 1000) * 0.5);
+        this._scheduleWheeze(now + breathDur, expDur, this._bronchospasm);
+      }
     }
 
     this.breathTimer = setTimeout(() => this._tickBreath(), breathPeriodMs);
@@ -359,9 +379,11 @@ class AudioManager {
 
     const envGain = this.ctx.createGain();
     const RAMP = 0.03;
+    // Quieter as less air moves past a narrowed airway
+    const peak = 0.06 * this._airwayPatency;
     envGain.gain.setValueAtTime(0, startTime);
-    envGain.gain.linearRampToValueAtTime(0.06, startTime + RAMP);
-    envGain.gain.setValueAtTime(0.06, startTime + duration - RAMP);
+    envGain.gain.linearRampToValueAtTime(peak, startTime + RAMP);
+    envGain.gain.setValueAtTime(peak, startTime + duration - RAMP);
     envGain.gain.linearRampToValueAtTime(0, startTime + duration);
 
     source.connect(bandpass);
@@ -424,6 +446,28 @@ class AudioManager {
     source.stop(startTime + duration);
   }
 
+  private _scheduleWheeze(startTime: number, duration: number, severity: number): void {
+    if (!this.ctx || !this.masterGain) return;
+    const osc = this.ctx.createOscillator();
+    osc.type = 'sine';
+    // Pitch rises as the airways narrow (400-700 Hz)
+    osc.frequency.setValueAtTime(400 + 300 * severity, startTime);
+    osc.frequency.linearRampToValueAtTime(350 + 300 * severity, startTime + duration);
+
+    const envGain = this.ctx.createGain();
+    const RAMP = 0.05;
+    const peak = 0.05 * (1 - severity) + 0.02;
+    envGain.gain.setValueAtTime(0, startTime);
+    envGain.gain.linearRampToValueAtTime(peak, startTime + RAMP);
+    envGain.gain.setValueAtTime(peak, startTime + duration - RAMP);
+    envGain.gain.linearRampToValueAtTime(0, startTime + duration);
+
+    osc.connect(envGain);
+    envGain.connect(this.masterGain);
+    osc.start(startTime);
+    osc.stop(startTime + duration);
+  }
+
   // ─── Heart sounds ────────────────────────────────────────────────────────────
 
   /**
@@ -0,0 +1,30 @@
+/**
+ * Simulation Web Worker
+ * Runs the physiology tick (PK/PD, vitals, EEG buffers) off the main thread
+ * so waveforms stay smooth at high speed. All logic lives in
+ * SimulationRunner; this file only wires it to the message port and timer.
+ */
+
+import { SimulationRunner, SimulationCommand, SimulationMessage } from '../engine/simulationWorkerProtocol';
+
+const runner = new SimulationRunner();
+let timer: ReturnType<typeof setInterval> | null = null;
+let timerMs = 0;
+
+function post(message: SimulationMessage): void {
+  self.postMessage(message);
+}
+
+/** Start, stop or re-time the step timer after a command changed run state or speed */
+function schedule(): void {
+  const wanted = runner.isRunning ? runner.intervalMs : 0;
+  if (wanted === timerMs) return;
+  if (timer !== null) clearInterval(timer);
+  timer = wanted ? setInterval(() => post({ type: 'steps', steps: runner.interval() }), wanted) : null;
+  timerMs = wanted;
+}
+
+self.onmessage = (event: MessageEvent<SimulationCommand>) => {
+  runner.handle(event.data);
+  schedule();
+};